@@ -15,9 +15,15 @@ import { DriversModule } from './modules/drivers/drivers.module';
 import { RoutesModule } from './modules/routes/routes.module';
 import { DeliveriesModule } from './modules/deliveries/deliveries.module';
 import { TrackingModule } from './modules/tracking/tracking.module';
+import { GeofencesModule } from './modules/geofences/geofences.module';
+import { RouteAlertsModule } from './modules/route-alerts/route-alerts.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
 import { IncidentsModule } from './modules/incidents/incidents.module';
 import { CustomersModule } from './modules/customers/customers.module';
 import { ReportsModule } from './modules/reports/reports.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { RedisModule } from './modules/redis/redis.module';
 import { AuditModule } from './modules/audit/audit.module';
@@ -54,9 +60,15 @@ import configurations from './config/configurations';
     RoutesModule,
     DeliveriesModule,
     TrackingModule,
+    GeofencesModule,
+    RouteAlertsModule,
+    RealtimeModule,
+    WebhooksModule,
+    ApiKeysModule,
     IncidentsModule,
     CustomersModule,
     ReportsModule,
+    NotificationsModule,
     AuthModule,
     RedisModule,
     AuditModule, // Sistema de auditoria e logs
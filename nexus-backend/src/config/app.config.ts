@@ -4,6 +4,7 @@ export interface AppConfig {
   nodeEnv: string;
   port: number;
   apiPrefix: string;
+  webUrl: string;
 }
 
 export default registerAs(
@@ -12,5 +13,6 @@ export default registerAs(
     nodeEnv: process.env.NODE_ENV ?? 'development',
     port: parseInt(process.env.API_PORT ?? '3000', 10),
     apiPrefix: process.env.API_PREFIX ?? 'api',
+    webUrl: process.env.APP_WEB_URL ?? 'http://localhost:4200',
   }),
 );
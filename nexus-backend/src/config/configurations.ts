@@ -4,6 +4,9 @@ import databaseConfig from './database.config';
 import jwtConfig from './jwt.config';
 import redisConfig from './redis.config';
 import storageConfig from './storage.config';
+import mailConfig from './mail.config';
+import notificationsConfig from './notifications.config';
+import webhooksConfig from './webhooks.config';
 
 const configurations = [
   appConfig,
@@ -11,8 +14,20 @@ const configurations = [
   jwtConfig,
   redisConfig,
   storageConfig,
+  mailConfig,
+  notificationsConfig,
+  webhooksConfig,
 ] as ConfigFactory[];
 
 export default configurations;
 
-export { appConfig, databaseConfig, jwtConfig, redisConfig, storageConfig };
+export {
+  appConfig,
+  databaseConfig,
+  jwtConfig,
+  redisConfig,
+  storageConfig,
+  mailConfig,
+  notificationsConfig,
+  webhooksConfig,
+};
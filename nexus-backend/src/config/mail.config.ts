@@ -0,0 +1,30 @@
+import { registerAs } from '@nestjs/config';
+
+export type MailTransportType = 'smtp' | 'log';
+
+export interface MailConfig {
+  transport: MailTransportType;
+  from: string;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string | undefined;
+    pass: string | undefined;
+  };
+}
+
+export default registerAs(
+  'mail',
+  (): MailConfig => ({
+    transport: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'log',
+    from: process.env.MAIL_FROM ?? 'NexusTransit <no-reply@nexustransit.com>',
+    smtp: {
+      host: process.env.SMTP_HOST ?? 'localhost',
+      port: parseInt(process.env.SMTP_PORT ?? '1025', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER ?? undefined,
+      pass: process.env.SMTP_PASS ?? undefined,
+    },
+  }),
+);
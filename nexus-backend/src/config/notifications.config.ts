@@ -0,0 +1,85 @@
+import { registerAs } from '@nestjs/config';
+
+export type EmailProviderType = 'smtp' | 'outbox';
+export type SmsProviderType = 'http' | 'outbox';
+export type WhatsAppProviderType = 'cloud_api' | 'outbox';
+export type PushProviderType = 'web_push' | 'outbox';
+
+export interface NotificationsConfig {
+  providers: {
+    email: EmailProviderType;
+    sms: SmsProviderType;
+    whatsapp: WhatsAppProviderType;
+    push: PushProviderType;
+  };
+  sms: {
+    gatewayUrl: string;
+    apiToken: string;
+    sender: string;
+  };
+  whatsapp: {
+    apiUrl: string;
+    phoneNumberId: string;
+    accessToken: string;
+  };
+  webPush: {
+    publicKey: string;
+    privateKey: string;
+    subject: string;
+  };
+  templates: {
+    trackingBaseUrl: string;
+    feedbackUrl: string;
+    supportEmail: string;
+    supportPhone: string;
+  };
+  queue: {
+    pollIntervalMs: number;
+    batchSize: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    lockTimeoutMs: number;
+  };
+}
+
+export default registerAs(
+  'notifications',
+  (): NotificationsConfig => ({
+    providers: {
+      email: process.env.NOTIFICATION_EMAIL_PROVIDER === 'smtp' ? 'smtp' : 'outbox',
+      sms: process.env.NOTIFICATION_SMS_PROVIDER === 'http' ? 'http' : 'outbox',
+      whatsapp: process.env.NOTIFICATION_WHATSAPP_PROVIDER === 'cloud_api' ? 'cloud_api' : 'outbox',
+      push: process.env.NOTIFICATION_PUSH_PROVIDER === 'web_push' ? 'web_push' : 'outbox',
+    },
+    sms: {
+      gatewayUrl: process.env.SMS_GATEWAY_URL ?? '',
+      apiToken: process.env.SMS_GATEWAY_TOKEN ?? '',
+      sender: process.env.SMS_SENDER ?? 'NexusTransit',
+    },
+    whatsapp: {
+      apiUrl: process.env.WHATSAPP_API_URL ?? 'https://graph.facebook.com/v20.0',
+      phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID ?? '',
+      accessToken: process.env.WHATSAPP_ACCESS_TOKEN ?? '',
+    },
+    webPush: {
+      publicKey: process.env.VAPID_PUBLIC_KEY ?? '',
+      privateKey: process.env.VAPID_PRIVATE_KEY ?? '',
+      subject: process.env.VAPID_SUBJECT ?? 'mailto:suporte@nexustransit.com',
+    },
+    templates: {
+      trackingBaseUrl: process.env.TRACKING_BASE_URL ?? 'http://localhost:3000/public/tracking',
+      feedbackUrl: process.env.FEEDBACK_URL ?? 'http://localhost:3000/feedback',
+      supportEmail: process.env.SUPPORT_EMAIL ?? 'suporte@nexustransit.com',
+      supportPhone: process.env.SUPPORT_PHONE ?? '0800 000 0000',
+    },
+    queue: {
+      pollIntervalMs: parseInt(process.env.NOTIFICATION_QUEUE_POLL_INTERVAL_MS ?? '5000', 10),
+      batchSize: parseInt(process.env.NOTIFICATION_QUEUE_BATCH_SIZE ?? '20', 10),
+      maxAttempts: parseInt(process.env.NOTIFICATION_QUEUE_MAX_ATTEMPTS ?? '5', 10),
+      backoffBaseMs: parseInt(process.env.NOTIFICATION_QUEUE_BACKOFF_BASE_MS ?? '30000', 10),
+      backoffMaxMs: parseInt(process.env.NOTIFICATION_QUEUE_BACKOFF_MAX_MS ?? '3600000', 10),
+      lockTimeoutMs: parseInt(process.env.NOTIFICATION_QUEUE_LOCK_TIMEOUT_MS ?? '300000', 10),
+    },
+  }),
+);
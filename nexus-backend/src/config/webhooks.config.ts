@@ -0,0 +1,30 @@
+import { registerAs } from '@nestjs/config';
+
+export interface WebhooksConfig {
+  requestTimeoutMs: number;
+  responseBodyMaxLength: number;
+  queue: {
+    pollIntervalMs: number;
+    batchSize: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    lockTimeoutMs: number;
+  };
+}
+
+export default registerAs(
+  'webhooks',
+  (): WebhooksConfig => ({
+    requestTimeoutMs: parseInt(process.env.WEBHOOK_REQUEST_TIMEOUT_MS ?? '10000', 10),
+    responseBodyMaxLength: parseInt(process.env.WEBHOOK_RESPONSE_BODY_MAX_LENGTH ?? '2000', 10),
+    queue: {
+      pollIntervalMs: parseInt(process.env.WEBHOOK_QUEUE_POLL_INTERVAL_MS ?? '5000', 10),
+      batchSize: parseInt(process.env.WEBHOOK_QUEUE_BATCH_SIZE ?? '20', 10),
+      maxAttempts: parseInt(process.env.WEBHOOK_QUEUE_MAX_ATTEMPTS ?? '8', 10),
+      backoffBaseMs: parseInt(process.env.WEBHOOK_QUEUE_BACKOFF_BASE_MS ?? '30000', 10),
+      backoffMaxMs: parseInt(process.env.WEBHOOK_QUEUE_BACKOFF_MAX_MS ?? '21600000', 10),
+      lockTimeoutMs: parseInt(process.env.WEBHOOK_QUEUE_LOCK_TIMEOUT_MS ?? '300000', 10),
+    },
+  }),
+);
@@ -0,0 +1,205 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateTrackingPointsTable1694544000110 implements MigrationInterface {
+  name = 'CreateTrackingPointsTable1694544000110';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar tabela tracking_points
+    await queryRunner.createTable(
+      new Table({
+        name: 'tracking_points',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'driver_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do motorista',
+          },
+          {
+            name: 'vehicle_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do veículo',
+          },
+          {
+            name: 'route_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da rota ativa no momento do ping',
+          },
+          {
+            name: 'latitude',
+            type: 'decimal',
+            precision: 10,
+            scale: 8,
+            isNullable: false,
+            comment: 'Latitude do ping',
+          },
+          {
+            name: 'longitude',
+            type: 'decimal',
+            precision: 11,
+            scale: 8,
+            isNullable: false,
+            comment: 'Longitude do ping',
+          },
+          {
+            name: 'speed',
+            type: 'decimal',
+            precision: 6,
+            scale: 2,
+            isNullable: true,
+            comment: 'Velocidade em km/h',
+          },
+          {
+            name: 'heading',
+            type: 'decimal',
+            precision: 5,
+            scale: 2,
+            isNullable: true,
+            comment: 'Direção em graus (0-360)',
+          },
+          {
+            name: 'accuracy',
+            type: 'decimal',
+            precision: 8,
+            scale: 2,
+            isNullable: true,
+            comment: 'Precisão do GPS em metros',
+          },
+          {
+            name: 'recorded_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora em que o ping foi capturado no dispositivo',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'tracking_points',
+      new TableForeignKey({
+        name: 'FK_tracking_points_driver',
+        columnNames: ['driver_id'],
+        referencedTableName: 'drivers',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'tracking_points',
+      new TableForeignKey({
+        name: 'FK_tracking_points_vehicle',
+        columnNames: ['vehicle_id'],
+        referencedTableName: 'vehicles',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'tracking_points',
+      new TableForeignKey({
+        name: 'FK_tracking_points_route',
+        columnNames: ['route_id'],
+        referencedTableName: 'routes',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'tracking_points',
+      new TableIndex({
+        name: 'IDX_tracking_points_driver_id',
+        columnNames: ['driver_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'tracking_points',
+      new TableIndex({
+        name: 'IDX_tracking_points_recorded_at',
+        columnNames: ['recorded_at'],
+      }),
+    );
+
+    // Índice composto para última posição por veículo
+    await queryRunner.createIndex(
+      'tracking_points',
+      new TableIndex({
+        name: 'IDX_tracking_points_vehicle_recorded',
+        columnNames: ['vehicle_id', 'recorded_at'],
+      }),
+    );
+
+    // Índice composto para trilha da rota por período
+    await queryRunner.createIndex(
+      'tracking_points',
+      new TableIndex({
+        name: 'IDX_tracking_points_route_recorded',
+        columnNames: ['route_id', 'recorded_at'],
+      }),
+    );
+
+    // Comentário na tabela
+    await queryRunner.query(`
+      COMMENT ON TABLE tracking_points IS 'Série temporal de posições GPS enviadas pelos motoristas'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('tracking_points', 'IDX_tracking_points_route_recorded');
+    await queryRunner.dropIndex('tracking_points', 'IDX_tracking_points_vehicle_recorded');
+    await queryRunner.dropIndex('tracking_points', 'IDX_tracking_points_recorded_at');
+    await queryRunner.dropIndex('tracking_points', 'IDX_tracking_points_driver_id');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('tracking_points', 'FK_tracking_points_route');
+    await queryRunner.dropForeignKey('tracking_points', 'FK_tracking_points_vehicle');
+    await queryRunner.dropForeignKey('tracking_points', 'FK_tracking_points_driver');
+
+    // Remover tabela
+    await queryRunner.dropTable('tracking_points');
+  }
+}
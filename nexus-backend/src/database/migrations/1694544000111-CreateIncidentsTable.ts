@@ -0,0 +1,402 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateIncidentsTable1694544000111 implements MigrationInterface {
+  name = 'CreateIncidentsTable1694544000111';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "incidents_type_enum" AS ENUM (
+        'ACCIDENT',
+        'BREAKDOWN',
+        'THEFT',
+        'CARGO_DAMAGE',
+        'ROAD_BLOCKAGE',
+        'CUSTOMER_AGGRESSION'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "incidents_severity_enum" AS ENUM (
+        'LOW',
+        'MEDIUM',
+        'HIGH',
+        'CRITICAL'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "incidents_status_enum" AS ENUM (
+        'OPEN',
+        'ACKNOWLEDGED',
+        'IN_PROGRESS',
+        'RESOLVED',
+        'CLOSED'
+      )
+    `);
+
+    // Criar tabela incidents
+    await queryRunner.createTable(
+      new Table({
+        name: 'incidents',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'title',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Título resumido do incidente',
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+            comment: 'Descrição detalhada do incidente',
+          },
+          {
+            name: 'type',
+            type: 'incidents_type_enum',
+            isNullable: false,
+            comment: 'Tipo do incidente',
+          },
+          {
+            name: 'severity',
+            type: 'incidents_severity_enum',
+            default: "'MEDIUM'",
+            comment: 'Severidade do incidente',
+          },
+          {
+            name: 'status',
+            type: 'incidents_status_enum',
+            default: "'OPEN'",
+            comment: 'Status atual do incidente',
+          },
+          {
+            name: 'latitude',
+            type: 'decimal',
+            precision: 10,
+            scale: 8,
+            isNullable: true,
+            comment: 'Latitude da ocorrência',
+          },
+          {
+            name: 'longitude',
+            type: 'decimal',
+            precision: 11,
+            scale: 8,
+            isNullable: true,
+            comment: 'Longitude da ocorrência',
+          },
+          {
+            name: 'address',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+            comment: 'Endereço/referência da ocorrência',
+          },
+          {
+            name: 'occurred_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da ocorrência',
+          },
+          {
+            name: 'photos',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'URLs das fotos da ocorrência',
+          },
+          {
+            name: 'route_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da rota afetada',
+          },
+          {
+            name: 'vehicle_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do veículo envolvido',
+          },
+          {
+            name: 'driver_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do motorista envolvido',
+          },
+          {
+            name: 'route_paused',
+            type: 'boolean',
+            default: false,
+            comment: 'Indica se a rota foi pausada em razão do incidente',
+          },
+          {
+            name: 'reported_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que reportou',
+          },
+          {
+            name: 'acknowledged_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do reconhecimento',
+          },
+          {
+            name: 'acknowledged_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que reconheceu',
+          },
+          {
+            name: 'resolved_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da resolução',
+          },
+          {
+            name: 'resolved_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que resolveu',
+          },
+          {
+            name: 'resolution_notes',
+            type: 'text',
+            isNullable: true,
+            comment: 'Notas da resolução',
+          },
+          {
+            name: 'closed_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do encerramento',
+          },
+          {
+            name: 'status_history',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Histórico de transições de status',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela de junção incident_deliveries
+    await queryRunner.createTable(
+      new Table({
+        name: 'incident_deliveries',
+        columns: [
+          {
+            name: 'incident_id',
+            type: 'uuid',
+            isPrimary: true,
+            comment: 'ID do incidente',
+          },
+          {
+            name: 'delivery_id',
+            type: 'uuid',
+            isPrimary: true,
+            comment: 'ID da entrega afetada',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'incidents',
+      new TableForeignKey({
+        name: 'FK_incidents_route',
+        columnNames: ['route_id'],
+        referencedTableName: 'routes',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'incidents',
+      new TableForeignKey({
+        name: 'FK_incidents_vehicle',
+        columnNames: ['vehicle_id'],
+        referencedTableName: 'vehicles',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'incidents',
+      new TableForeignKey({
+        name: 'FK_incidents_driver',
+        columnNames: ['driver_id'],
+        referencedTableName: 'drivers',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'incident_deliveries',
+      new TableForeignKey({
+        name: 'FK_incident_deliveries_incident',
+        columnNames: ['incident_id'],
+        referencedTableName: 'incidents',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'incident_deliveries',
+      new TableForeignKey({
+        name: 'FK_incident_deliveries_delivery',
+        columnNames: ['delivery_id'],
+        referencedTableName: 'deliveries',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_status',
+        columnNames: ['status'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_type',
+        columnNames: ['type'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_severity',
+        columnNames: ['severity'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_route_id',
+        columnNames: ['route_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_vehicle_id',
+        columnNames: ['vehicle_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_driver_id',
+        columnNames: ['driver_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incidents',
+      new TableIndex({
+        name: 'IDX_incidents_occurred_at',
+        columnNames: ['occurred_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'incident_deliveries',
+      new TableIndex({
+        name: 'IDX_incident_deliveries_delivery_id',
+        columnNames: ['delivery_id'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE incidents IS 'Incidentes operacionais (acidentes, panes, roubos, avarias)'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE incident_deliveries IS 'Entregas afetadas por incidentes'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('incident_deliveries', 'IDX_incident_deliveries_delivery_id');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_occurred_at');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_driver_id');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_vehicle_id');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_route_id');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_severity');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_type');
+    await queryRunner.dropIndex('incidents', 'IDX_incidents_status');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('incident_deliveries', 'FK_incident_deliveries_delivery');
+    await queryRunner.dropForeignKey('incident_deliveries', 'FK_incident_deliveries_incident');
+    await queryRunner.dropForeignKey('incidents', 'FK_incidents_driver');
+    await queryRunner.dropForeignKey('incidents', 'FK_incidents_vehicle');
+    await queryRunner.dropForeignKey('incidents', 'FK_incidents_route');
+
+    // Remover tabelas
+    await queryRunner.dropTable('incident_deliveries');
+    await queryRunner.dropTable('incidents');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "incidents_status_enum"');
+    await queryRunner.query('DROP TYPE "incidents_severity_enum"');
+    await queryRunner.query('DROP TYPE "incidents_type_enum"');
+  }
+}
@@ -0,0 +1,124 @@
+import { type MigrationInterface, type QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateReportsTable1694544000112 implements MigrationInterface {
+  name = 'CreateReportsTable1694544000112';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enum
+    await queryRunner.query(`
+      CREATE TYPE "reports_type_enum" AS ENUM (
+        'ON_TIME_DELIVERY',
+        'FIRST_ATTEMPT_SUCCESS',
+        'FAILURE_BREAKDOWN',
+        'COST_PER_DELIVERY',
+        'KM_PER_ROUTE'
+      )
+    `);
+
+    // Criar tabela reports
+    await queryRunner.createTable(
+      new Table({
+        name: 'reports',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Nome do relatório',
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+            comment: 'Descrição do relatório',
+          },
+          {
+            name: 'type',
+            type: 'reports_type_enum',
+            isNullable: false,
+            comment: 'Tipo de indicador calculado',
+          },
+          {
+            name: 'filters',
+            type: 'jsonb',
+            default: "'{}'",
+            comment: 'Filtros parametrizados do relatório',
+          },
+          {
+            name: 'created_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que criou o relatório',
+          },
+          {
+            name: 'last_run_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da última execução',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'reports',
+      new TableIndex({
+        name: 'IDX_reports_type',
+        columnNames: ['type'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'reports',
+      new TableIndex({
+        name: 'IDX_reports_created_by',
+        columnNames: ['created_by'],
+      }),
+    );
+
+    // Comentário na tabela
+    await queryRunner.query(`
+      COMMENT ON TABLE reports IS 'Definições de relatórios operacionais salvos'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('reports', 'IDX_reports_created_by');
+    await queryRunner.dropIndex('reports', 'IDX_reports_type');
+
+    // Remover tabela
+    await queryRunner.dropTable('reports');
+
+    // Remover enum
+    await queryRunner.query('DROP TYPE "reports_type_enum"');
+  }
+}
@@ -0,0 +1,307 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateReportSchedulesTables1694544000113 implements MigrationInterface {
+  name = 'CreateReportSchedulesTables1694544000113';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "report_schedules_format_enum" AS ENUM (
+        'json',
+        'csv',
+        'xlsx'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "report_schedule_runs_status_enum" AS ENUM (
+        'RUNNING',
+        'SUCCESS',
+        'FAILED'
+      )
+    `);
+
+    // Criar tabela report_schedules
+    await queryRunner.createTable(
+      new Table({
+        name: 'report_schedules',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'report_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do relatório agendado',
+          },
+          {
+            name: 'cron_expression',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Expressão cron de execução',
+          },
+          {
+            name: 'timezone',
+            type: 'varchar',
+            length: '64',
+            default: "'America/Sao_Paulo'",
+            comment: 'Fuso horário (IANA) da expressão cron',
+          },
+          {
+            name: 'format',
+            type: 'report_schedules_format_enum',
+            default: "'xlsx'",
+            comment: 'Formato do arquivo gerado',
+          },
+          {
+            name: 'recipients',
+            type: 'jsonb',
+            default: "'[]'",
+            comment: 'E-mails dos destinatários',
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            comment: 'Indica se o agendamento está ativo',
+          },
+          {
+            name: 'last_run_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da última execução',
+          },
+          {
+            name: 'next_run_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora prevista da próxima execução',
+          },
+          {
+            name: 'created_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que criou o agendamento',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela report_schedule_runs
+    await queryRunner.createTable(
+      new Table({
+        name: 'report_schedule_runs',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'schedule_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do agendamento',
+          },
+          {
+            name: 'status',
+            type: 'report_schedule_runs_status_enum',
+            default: "'RUNNING'",
+            comment: 'Status da execução',
+          },
+          {
+            name: 'manual',
+            type: 'boolean',
+            default: false,
+            comment: 'Indica se a execução foi disparada manualmente',
+          },
+          {
+            name: 'started_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Início da execução',
+          },
+          {
+            name: 'finished_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Fim da execução',
+          },
+          {
+            name: 'duration_ms',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Duração da execução em milissegundos',
+          },
+          {
+            name: 'row_count',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Quantidade de linhas do relatório',
+          },
+          {
+            name: 'file_url',
+            type: 'varchar',
+            length: '1000',
+            isNullable: true,
+            comment: 'URL do arquivo armazenado',
+          },
+          {
+            name: 'recipients',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Destinatários notificados',
+          },
+          {
+            name: 'error_message',
+            type: 'text',
+            isNullable: true,
+            comment: 'Mensagem de erro da execução',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'report_schedules',
+      new TableForeignKey({
+        name: 'FK_report_schedules_report',
+        columnNames: ['report_id'],
+        referencedTableName: 'reports',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'report_schedule_runs',
+      new TableForeignKey({
+        name: 'FK_report_schedule_runs_schedule',
+        columnNames: ['schedule_id'],
+        referencedTableName: 'report_schedules',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'report_schedules',
+      new TableIndex({
+        name: 'IDX_report_schedules_report_id',
+        columnNames: ['report_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'report_schedules',
+      new TableIndex({
+        name: 'IDX_report_schedules_is_active',
+        columnNames: ['is_active'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'report_schedule_runs',
+      new TableIndex({
+        name: 'IDX_report_schedule_runs_schedule_started',
+        columnNames: ['schedule_id', 'started_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'report_schedule_runs',
+      new TableIndex({
+        name: 'IDX_report_schedule_runs_status',
+        columnNames: ['status'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE report_schedules IS 'Agendamentos de geração e envio de relatórios'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE report_schedule_runs IS 'Histórico de execuções dos agendamentos de relatórios'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('report_schedule_runs', 'IDX_report_schedule_runs_status');
+    await queryRunner.dropIndex(
+      'report_schedule_runs',
+      'IDX_report_schedule_runs_schedule_started',
+    );
+    await queryRunner.dropIndex('report_schedules', 'IDX_report_schedules_is_active');
+    await queryRunner.dropIndex('report_schedules', 'IDX_report_schedules_report_id');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('report_schedule_runs', 'FK_report_schedule_runs_schedule');
+    await queryRunner.dropForeignKey('report_schedules', 'FK_report_schedules_report');
+
+    // Remover tabelas
+    await queryRunner.dropTable('report_schedule_runs');
+    await queryRunner.dropTable('report_schedules');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "report_schedule_runs_status_enum"');
+    await queryRunner.query('DROP TYPE "report_schedules_format_enum"');
+  }
+}
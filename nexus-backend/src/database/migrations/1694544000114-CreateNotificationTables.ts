@@ -0,0 +1,499 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateNotificationTables1694544000114 implements MigrationInterface {
+  name = 'CreateNotificationTables1694544000114';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "notification_dispatches_channel_enum" AS ENUM (
+        'email',
+        'sms',
+        'whatsapp',
+        'push',
+        'phone'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_dispatches_status_enum" AS ENUM (
+        'QUEUED',
+        'SENT',
+        'FAILED',
+        'BOUNCED'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_dispatches_recipient_type_enum" AS ENUM (
+        'customer',
+        'driver',
+        'user'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_outbox_channel_enum" AS ENUM (
+        'email',
+        'sms',
+        'whatsapp',
+        'push',
+        'phone'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "push_subscriptions_owner_type_enum" AS ENUM (
+        'customer',
+        'driver',
+        'user'
+      )
+    `);
+
+    // Criar tabela notification_dispatches
+    await queryRunner.createTable(
+      new Table({
+        name: 'notification_dispatches',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'channel',
+            type: 'notification_dispatches_channel_enum',
+            isNullable: false,
+            comment: 'Canal de envio',
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '50',
+            isNullable: true,
+            comment: 'Adaptador utilizado no envio',
+          },
+          {
+            name: 'status',
+            type: 'notification_dispatches_status_enum',
+            default: "'QUEUED'",
+            comment: 'Status do envio',
+          },
+          {
+            name: 'notification_type',
+            type: 'varchar',
+            length: '50',
+            isNullable: false,
+            comment: 'Tipo da notificação (ex.: STATUS_CHANGE)',
+          },
+          {
+            name: 'recipient_type',
+            type: 'notification_dispatches_recipient_type_enum',
+            isNullable: true,
+            comment: 'Tipo do destinatário',
+          },
+          {
+            name: 'recipient_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do destinatário (cliente, motorista ou usuário)',
+          },
+          {
+            name: 'recipient',
+            type: 'varchar',
+            length: '500',
+            isNullable: false,
+            comment: 'Endereço de destino (e-mail, telefone ou inscrição push)',
+          },
+          {
+            name: 'delivery_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da entrega relacionada',
+          },
+          {
+            name: 'subject',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Assunto/título da mensagem',
+          },
+          {
+            name: 'body',
+            type: 'text',
+            isNullable: false,
+            comment: 'Corpo renderizado da mensagem',
+          },
+          {
+            name: 'data',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Dados adicionais enviados ao canal',
+          },
+          {
+            name: 'provider_message_id',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Identificador da mensagem no provedor',
+          },
+          {
+            name: 'attempts',
+            type: 'integer',
+            default: 0,
+            comment: 'Número de tentativas de envio',
+          },
+          {
+            name: 'error_message',
+            type: 'text',
+            isNullable: true,
+            comment: 'Mensagem de erro ou motivo da rejeição',
+          },
+          {
+            name: 'sent_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do envio',
+          },
+          {
+            name: 'bounced_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da rejeição',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela notification_outbox
+    await queryRunner.createTable(
+      new Table({
+        name: 'notification_outbox',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'dispatch_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do despacho de origem',
+          },
+          {
+            name: 'channel',
+            type: 'notification_outbox_channel_enum',
+            isNullable: false,
+            comment: 'Canal de envio',
+          },
+          {
+            name: 'recipient',
+            type: 'varchar',
+            length: '500',
+            isNullable: false,
+            comment: 'Endereço de destino',
+          },
+          {
+            name: 'subject',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Assunto/título da mensagem',
+          },
+          {
+            name: 'body',
+            type: 'text',
+            isNullable: false,
+            comment: 'Corpo da mensagem',
+          },
+          {
+            name: 'data',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Dados adicionais',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela push_subscriptions
+    await queryRunner.createTable(
+      new Table({
+        name: 'push_subscriptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'owner_type',
+            type: 'push_subscriptions_owner_type_enum',
+            isNullable: false,
+            comment: 'Tipo do titular da inscrição',
+          },
+          {
+            name: 'owner_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do titular da inscrição',
+          },
+          {
+            name: 'endpoint',
+            type: 'varchar',
+            length: '1000',
+            isNullable: false,
+            comment: 'Endpoint do serviço de push',
+          },
+          {
+            name: 'p256dh',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Chave pública do cliente (p256dh)',
+          },
+          {
+            name: 'auth',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Segredo de autenticação do cliente',
+          },
+          {
+            name: 'user_agent',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+            comment: 'User-Agent do dispositivo',
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            comment: 'Indica se a inscrição está ativa',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'notification_dispatches',
+      new TableForeignKey({
+        name: 'FK_notification_dispatches_delivery',
+        columnNames: ['delivery_id'],
+        referencedTableName: 'deliveries',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'notification_outbox',
+      new TableForeignKey({
+        name: 'FK_notification_outbox_dispatch',
+        columnNames: ['dispatch_id'],
+        referencedTableName: 'notification_dispatches',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'notification_dispatches',
+      new TableIndex({
+        name: 'IDX_notification_dispatches_status',
+        columnNames: ['status'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_dispatches',
+      new TableIndex({
+        name: 'IDX_notification_dispatches_channel',
+        columnNames: ['channel'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_dispatches',
+      new TableIndex({
+        name: 'IDX_notification_dispatches_delivery_id',
+        columnNames: ['delivery_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_dispatches',
+      new TableIndex({
+        name: 'IDX_notification_dispatches_recipient',
+        columnNames: ['recipient_type', 'recipient_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_dispatches',
+      new TableIndex({
+        name: 'IDX_notification_dispatches_provider_message_id',
+        columnNames: ['provider_message_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_outbox',
+      new TableIndex({
+        name: 'IDX_notification_outbox_channel_recipient',
+        columnNames: ['channel', 'recipient'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_outbox',
+      new TableIndex({
+        name: 'IDX_notification_outbox_dispatch_id',
+        columnNames: ['dispatch_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'push_subscriptions',
+      new TableIndex({
+        name: 'IDX_push_subscriptions_owner',
+        columnNames: ['owner_type', 'owner_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'push_subscriptions',
+      new TableIndex({
+        name: 'IDX_push_subscriptions_endpoint',
+        columnNames: ['endpoint'],
+        isUnique: true,
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE notification_dispatches IS 'Registro de envios de notificações por canal'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE notification_outbox IS 'Caixa de saída local de notificações (desenvolvimento e testes)'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE push_subscriptions IS 'Inscrições Web Push de clientes, motoristas e usuários'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('push_subscriptions', 'IDX_push_subscriptions_endpoint');
+    await queryRunner.dropIndex('push_subscriptions', 'IDX_push_subscriptions_owner');
+    await queryRunner.dropIndex('notification_outbox', 'IDX_notification_outbox_dispatch_id');
+    await queryRunner.dropIndex('notification_outbox', 'IDX_notification_outbox_channel_recipient');
+    await queryRunner.dropIndex(
+      'notification_dispatches',
+      'IDX_notification_dispatches_provider_message_id',
+    );
+    await queryRunner.dropIndex('notification_dispatches', 'IDX_notification_dispatches_recipient');
+    await queryRunner.dropIndex(
+      'notification_dispatches',
+      'IDX_notification_dispatches_delivery_id',
+    );
+    await queryRunner.dropIndex('notification_dispatches', 'IDX_notification_dispatches_channel');
+    await queryRunner.dropIndex('notification_dispatches', 'IDX_notification_dispatches_status');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('notification_outbox', 'FK_notification_outbox_dispatch');
+    await queryRunner.dropForeignKey(
+      'notification_dispatches',
+      'FK_notification_dispatches_delivery',
+    );
+
+    // Remover tabelas
+    await queryRunner.dropTable('push_subscriptions');
+    await queryRunner.dropTable('notification_outbox');
+    await queryRunner.dropTable('notification_dispatches');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "push_subscriptions_owner_type_enum"');
+    await queryRunner.query('DROP TYPE "notification_outbox_channel_enum"');
+    await queryRunner.query('DROP TYPE "notification_dispatches_recipient_type_enum"');
+    await queryRunner.query('DROP TYPE "notification_dispatches_status_enum"');
+    await queryRunner.query('DROP TYPE "notification_dispatches_channel_enum"');
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateScheduledNotificationsTable1694544000115 implements MigrationInterface {
+  name = 'CreateScheduledNotificationsTable1694544000115';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "scheduled_notifications_status_enum" AS ENUM (
+        'PENDING',
+        'PROCESSING',
+        'COMPLETED',
+        'DEAD_LETTER',
+        'CANCELLED'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "scheduled_notifications_channel_enum" AS ENUM (
+        'email',
+        'sms',
+        'whatsapp',
+        'push',
+        'phone'
+      )
+    `);
+
+    // Criar tabela scheduled_notifications
+    await queryRunner.createTable(
+      new Table({
+        name: 'scheduled_notifications',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'idempotency_key',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Chave de idempotência do agendamento',
+          },
+          {
+            name: 'status',
+            type: 'scheduled_notifications_status_enum',
+            default: "'PENDING'",
+            comment: 'Status na fila',
+          },
+          {
+            name: 'channel',
+            type: 'scheduled_notifications_channel_enum',
+            isNullable: false,
+            comment: 'Canal de envio',
+          },
+          {
+            name: 'delivery_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da entrega relacionada',
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+            isNullable: false,
+            comment: 'Notificação renderizada a ser despachada',
+          },
+          {
+            name: 'run_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora a partir da qual a notificação pode ser enviada',
+          },
+          {
+            name: 'attempts',
+            type: 'integer',
+            default: 0,
+            comment: 'Tentativas realizadas',
+          },
+          {
+            name: 'max_attempts',
+            type: 'integer',
+            default: 5,
+            comment: 'Máximo de tentativas antes do dead-letter',
+          },
+          {
+            name: 'dispatch_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do despacho gerado',
+          },
+          {
+            name: 'last_error',
+            type: 'text',
+            isNullable: true,
+            comment: 'Último erro de envio',
+          },
+          {
+            name: 'locked_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da reserva pelo worker',
+          },
+          {
+            name: 'completed_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da conclusão',
+          },
+          {
+            name: 'dead_lettered_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora em que foi movida para dead-letter',
+          },
+          {
+            name: 'cancelled_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do cancelamento',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'scheduled_notifications',
+      new TableForeignKey({
+        name: 'FK_scheduled_notifications_delivery',
+        columnNames: ['delivery_id'],
+        referencedTableName: 'deliveries',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'scheduled_notifications',
+      new TableForeignKey({
+        name: 'FK_scheduled_notifications_dispatch',
+        columnNames: ['dispatch_id'],
+        referencedTableName: 'notification_dispatches',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'scheduled_notifications',
+      new TableIndex({
+        name: 'IDX_scheduled_notifications_idempotency_key',
+        columnNames: ['idempotency_key'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'scheduled_notifications',
+      new TableIndex({
+        name: 'IDX_scheduled_notifications_status_run_at',
+        columnNames: ['status', 'run_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'scheduled_notifications',
+      new TableIndex({
+        name: 'IDX_scheduled_notifications_delivery_id',
+        columnNames: ['delivery_id'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE scheduled_notifications IS 'Fila persistente de notificações agendadas (retentativas e dead-letter)'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex(
+      'scheduled_notifications',
+      'IDX_scheduled_notifications_delivery_id',
+    );
+    await queryRunner.dropIndex(
+      'scheduled_notifications',
+      'IDX_scheduled_notifications_status_run_at',
+    );
+    await queryRunner.dropIndex(
+      'scheduled_notifications',
+      'IDX_scheduled_notifications_idempotency_key',
+    );
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey(
+      'scheduled_notifications',
+      'FK_scheduled_notifications_dispatch',
+    );
+    await queryRunner.dropForeignKey(
+      'scheduled_notifications',
+      'FK_scheduled_notifications_delivery',
+    );
+
+    // Remover tabelas
+    await queryRunner.dropTable('scheduled_notifications');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "scheduled_notifications_channel_enum"');
+    await queryRunner.query('DROP TYPE "scheduled_notifications_status_enum"');
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateNotificationSuppressionsTable1694544000116 implements MigrationInterface {
+  name = 'CreateNotificationSuppressionsTable1694544000116';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "notification_suppressions_recipient_type_enum" AS ENUM (
+        'customer',
+        'driver',
+        'user'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_suppressions_channel_enum" AS ENUM (
+        'email',
+        'sms',
+        'whatsapp',
+        'push',
+        'phone'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "notification_suppressions_reason_enum" AS ENUM (
+        'CHANNEL_NOT_PREFERRED',
+        'CONSENT_REVOKED',
+        'QUIET_HOURS',
+        'MISSING_CONTACT',
+        'CHANNEL_UNAVAILABLE'
+      )
+    `);
+
+    // Criar tabela notification_suppressions
+    await queryRunner.createTable(
+      new Table({
+        name: 'notification_suppressions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'recipient_type',
+            type: 'notification_suppressions_recipient_type_enum',
+            isNullable: false,
+            comment: 'Tipo do destinatário',
+          },
+          {
+            name: 'recipient_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do destinatário',
+          },
+          {
+            name: 'delivery_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da entrega relacionada',
+          },
+          {
+            name: 'notification_type',
+            type: 'varchar',
+            length: '50',
+            isNullable: false,
+            comment: 'Tipo da notificação (ex.: STATUS_CHANGE)',
+          },
+          {
+            name: 'channel',
+            type: 'notification_suppressions_channel_enum',
+            isNullable: true,
+            comment: 'Canal afetado (nulo quando todos os canais)',
+          },
+          {
+            name: 'reason',
+            type: 'notification_suppressions_reason_enum',
+            isNullable: false,
+            comment: 'Motivo da supressão',
+          },
+          {
+            name: 'details',
+            type: 'text',
+            isNullable: true,
+            comment: 'Detalhes da decisão',
+          },
+          {
+            name: 'held_until',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora para a qual a mensagem foi retida (horário de silêncio)',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'notification_suppressions',
+      new TableForeignKey({
+        name: 'FK_notification_suppressions_delivery',
+        columnNames: ['delivery_id'],
+        referencedTableName: 'deliveries',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'notification_suppressions',
+      new TableIndex({
+        name: 'IDX_notification_suppressions_recipient',
+        columnNames: ['recipient_type', 'recipient_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_suppressions',
+      new TableIndex({
+        name: 'IDX_notification_suppressions_delivery_id',
+        columnNames: ['delivery_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'notification_suppressions',
+      new TableIndex({
+        name: 'IDX_notification_suppressions_reason',
+        columnNames: ['reason'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE notification_suppressions IS 'Decisões de supressão ou retenção de notificações (preferências, LGPD, horário de silêncio)'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex(
+      'notification_suppressions',
+      'IDX_notification_suppressions_reason',
+    );
+    await queryRunner.dropIndex(
+      'notification_suppressions',
+      'IDX_notification_suppressions_delivery_id',
+    );
+    await queryRunner.dropIndex(
+      'notification_suppressions',
+      'IDX_notification_suppressions_recipient',
+    );
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey(
+      'notification_suppressions',
+      'FK_notification_suppressions_delivery',
+    );
+
+    // Remover tabelas
+    await queryRunner.dropTable('notification_suppressions');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "notification_suppressions_reason_enum"');
+    await queryRunner.query('DROP TYPE "notification_suppressions_channel_enum"');
+    await queryRunner.query('DROP TYPE "notification_suppressions_recipient_type_enum"');
+  }
+}
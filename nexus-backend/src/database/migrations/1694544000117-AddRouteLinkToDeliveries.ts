@@ -0,0 +1,61 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddRouteLinkToDeliveries1694544000117 implements MigrationInterface {
+  name = 'AddRouteLinkToDeliveries1694544000117';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('deliveries', [
+      new TableColumn({
+        name: 'route_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'ID da rota à qual a entrega foi atribuída',
+      }),
+      new TableColumn({
+        name: 'route_stop_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'ID da parada da rota que atende a entrega',
+      }),
+    ]);
+
+    await queryRunner.createForeignKeys('deliveries', [
+      new TableForeignKey({
+        name: 'FK_deliveries_route',
+        columnNames: ['route_id'],
+        referencedTableName: 'routes',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+      new TableForeignKey({
+        name: 'FK_deliveries_route_stop',
+        columnNames: ['route_stop_id'],
+        referencedTableName: 'route_stops',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    ]);
+
+    await queryRunner.createIndices('deliveries', [
+      new TableIndex({ name: 'IDX_deliveries_route_id', columnNames: ['route_id'] }),
+      new TableIndex({ name: 'IDX_deliveries_route_stop_id', columnNames: ['route_stop_id'] }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('deliveries', 'IDX_deliveries_route_stop_id');
+    await queryRunner.dropIndex('deliveries', 'IDX_deliveries_route_id');
+
+    await queryRunner.dropForeignKey('deliveries', 'FK_deliveries_route_stop');
+    await queryRunner.dropForeignKey('deliveries', 'FK_deliveries_route');
+
+    await queryRunner.dropColumn('deliveries', 'route_stop_id');
+    await queryRunner.dropColumn('deliveries', 'route_id');
+  }
+}
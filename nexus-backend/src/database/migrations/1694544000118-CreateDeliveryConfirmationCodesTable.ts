@@ -0,0 +1,228 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateDeliveryConfirmationCodesTable1694544000118 implements MigrationInterface {
+  name = 'CreateDeliveryConfirmationCodesTable1694544000118';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "delivery_confirmation_codes_channel_enum" AS ENUM (
+        'email',
+        'sms',
+        'whatsapp',
+        'push',
+        'phone'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "delivery_confirmation_codes_status_enum" AS ENUM (
+        'ACTIVE',
+        'USED',
+        'EXPIRED',
+        'LOCKED',
+        'REVOKED'
+      )
+    `);
+
+    // Criar tabela delivery_confirmation_codes
+    await queryRunner.createTable(
+      new Table({
+        name: 'delivery_confirmation_codes',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'delivery_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da entrega',
+          },
+          {
+            name: 'channel',
+            type: 'delivery_confirmation_codes_channel_enum',
+            isNullable: false,
+            comment: 'Canal de envio do código (sms ou email)',
+          },
+          {
+            name: 'destination',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Destino mascarado (telefone ou e-mail do recebedor)',
+          },
+          {
+            name: 'code_hash',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Hash bcrypt do código',
+          },
+          {
+            name: 'status',
+            type: 'delivery_confirmation_codes_status_enum',
+            default: "'ACTIVE'",
+            isNullable: false,
+            comment: 'Status do código',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora de expiração do código',
+          },
+          {
+            name: 'attempts',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+            comment: 'Tentativas inválidas de confirmação',
+          },
+          {
+            name: 'max_attempts',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Máximo de tentativas antes do bloqueio',
+          },
+          {
+            name: 'send_count',
+            type: 'integer',
+            default: 1,
+            isNullable: false,
+            comment: 'Quantidade de envios (emissão + reenvios)',
+          },
+          {
+            name: 'last_sent_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora do último envio',
+          },
+          {
+            name: 'verified_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da confirmação',
+          },
+          {
+            name: 'verified_by_driver_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Motorista que confirmou o código',
+          },
+          {
+            name: 'proof_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Comprovante gerado pela confirmação',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'delivery_confirmation_codes',
+      new TableForeignKey({
+        name: 'FK_delivery_confirmation_codes_delivery',
+        columnNames: ['delivery_id'],
+        referencedTableName: 'deliveries',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'delivery_confirmation_codes',
+      new TableForeignKey({
+        name: 'FK_delivery_confirmation_codes_proof',
+        columnNames: ['proof_id'],
+        referencedTableName: 'delivery_proofs',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'delivery_confirmation_codes',
+      new TableIndex({
+        name: 'IDX_delivery_confirmation_codes_delivery_id',
+        columnNames: ['delivery_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'delivery_confirmation_codes',
+      new TableIndex({
+        name: 'IDX_delivery_confirmation_codes_status',
+        columnNames: ['status'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE delivery_confirmation_codes IS 'Códigos de confirmação de entrega (OTP) enviados ao recebedor'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex(
+      'delivery_confirmation_codes',
+      'IDX_delivery_confirmation_codes_status',
+    );
+    await queryRunner.dropIndex(
+      'delivery_confirmation_codes',
+      'IDX_delivery_confirmation_codes_delivery_id',
+    );
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey(
+      'delivery_confirmation_codes',
+      'FK_delivery_confirmation_codes_proof',
+    );
+    await queryRunner.dropForeignKey(
+      'delivery_confirmation_codes',
+      'FK_delivery_confirmation_codes_delivery',
+    );
+
+    // Remover tabelas
+    await queryRunner.dropTable('delivery_confirmation_codes');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "delivery_confirmation_codes_status_enum"');
+    await queryRunner.query('DROP TYPE "delivery_confirmation_codes_channel_enum"');
+  }
+}
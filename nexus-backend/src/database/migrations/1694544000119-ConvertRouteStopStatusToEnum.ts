@@ -0,0 +1,53 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ConvertRouteStopStatusToEnum1694544000119 implements MigrationInterface {
+  name = 'ConvertRouteStopStatusToEnum1694544000119';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "route_stops_status_enum" AS ENUM (
+        'PENDING',
+        'IN_PROGRESS',
+        'COMPLETED',
+        'SKIPPED',
+        'FAILED'
+      )
+    `);
+
+    // Valores livres fora do domínio voltam para PENDING antes da conversão
+    await queryRunner.query(`
+      UPDATE "route_stops"
+      SET "status" = 'PENDING'
+      WHERE "status" NOT IN ('PENDING', 'IN_PROGRESS', 'COMPLETED', 'SKIPPED', 'FAILED')
+    `);
+
+    await queryRunner.query(`ALTER TABLE "route_stops" ALTER COLUMN "status" DROP DEFAULT`);
+    await queryRunner.query(`
+      ALTER TABLE "route_stops"
+      ALTER COLUMN "status" TYPE "route_stops_status_enum"
+      USING "status"::"route_stops_status_enum"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "route_stops" ALTER COLUMN "status" SET DEFAULT 'PENDING'`,
+    );
+
+    await queryRunner.query(`COMMENT ON COLUMN "route_stops"."status" IS 'Status da parada'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "route_stops" ALTER COLUMN "status" DROP DEFAULT`);
+    await queryRunner.query(`
+      ALTER TABLE "route_stops"
+      ALTER COLUMN "status" TYPE varchar(50)
+      USING "status"::text
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "route_stops" ALTER COLUMN "status" SET DEFAULT 'PENDING'`,
+    );
+    await queryRunner.query(
+      `COMMENT ON COLUMN "route_stops"."status" IS 'Status da parada: PENDING, IN_PROGRESS, COMPLETED, SKIPPED, FAILED'`,
+    );
+
+    await queryRunner.query(`DROP TYPE "route_stops_status_enum"`);
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateDriverSyncActionsTable1694544000120 implements MigrationInterface {
+  name = 'CreateDriverSyncActionsTable1694544000120';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "driver_sync_actions_action_type_enum" AS ENUM (
+        'GPS_PING',
+        'STOP_ARRIVAL',
+        'DELIVERY_ATTEMPT',
+        'STOP_DEPARTURE',
+        'STATUS_CHANGE',
+        'PROOF'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "driver_sync_actions_status_enum" AS ENUM (
+        'APPLIED',
+        'CONFLICT',
+        'REJECTED'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "driver_sync_actions_conflict_reason_enum" AS ENUM (
+        'DELIVERY_CANCELLED',
+        'DELIVERY_REASSIGNED',
+        'ROUTE_CANCELLED',
+        'ROUTE_REASSIGNED',
+        'SERVER_CHANGED'
+      )
+    `);
+
+    // Criar tabela driver_sync_actions
+    await queryRunner.createTable(
+      new Table({
+        name: 'driver_sync_actions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'driver_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do motorista',
+          },
+          {
+            name: 'device_id',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Identificador do dispositivo que enviou a ação',
+          },
+          {
+            name: 'client_action_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da ação gerado no dispositivo',
+          },
+          {
+            name: 'action_type',
+            type: 'driver_sync_actions_action_type_enum',
+            isNullable: false,
+            comment: 'Tipo da ação',
+          },
+          {
+            name: 'device_timestamp',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da ação no dispositivo',
+          },
+          {
+            name: 'status',
+            type: 'driver_sync_actions_status_enum',
+            isNullable: false,
+            comment: 'Resultado do processamento',
+          },
+          {
+            name: 'conflict_reason',
+            type: 'driver_sync_actions_conflict_reason_enum',
+            isNullable: true,
+            comment: 'Motivo do conflito com o estado do servidor',
+          },
+          {
+            name: 'error_message',
+            type: 'text',
+            isNullable: true,
+            comment: 'Mensagem de erro ou conflito',
+          },
+          {
+            name: 'result',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Resumo do resultado ou estado do servidor em caso de conflito',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'driver_sync_actions',
+      new TableForeignKey({
+        name: 'FK_driver_sync_actions_driver',
+        columnNames: ['driver_id'],
+        referencedTableName: 'drivers',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'driver_sync_actions',
+      new TableIndex({
+        name: 'UQ_driver_sync_actions_driver_client_action',
+        columnNames: ['driver_id', 'client_action_id'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'driver_sync_actions',
+      new TableIndex({
+        name: 'IDX_driver_sync_actions_driver_created_at',
+        columnNames: ['driver_id', 'created_at'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE driver_sync_actions IS 'Ações offline sincronizadas pelo aplicativo do motorista (idempotência por ID da ação)'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('driver_sync_actions', 'IDX_driver_sync_actions_driver_created_at');
+    await queryRunner.dropIndex(
+      'driver_sync_actions',
+      'UQ_driver_sync_actions_driver_client_action',
+    );
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('driver_sync_actions', 'FK_driver_sync_actions_driver');
+
+    // Remover tabelas
+    await queryRunner.dropTable('driver_sync_actions');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "driver_sync_actions_conflict_reason_enum"');
+    await queryRunner.query('DROP TYPE "driver_sync_actions_status_enum"');
+    await queryRunner.query('DROP TYPE "driver_sync_actions_action_type_enum"');
+  }
+}
@@ -0,0 +1,45 @@
+import { type MigrationInterface, type QueryRunner, TableColumn } from 'typeorm';
+
+export class AddEtaColumns1694544000121 implements MigrationInterface {
+  name = 'AddEtaColumns1694544000121';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('route_stops', [
+      new TableColumn({
+        name: 'estimated_arrival_at',
+        type: 'timestamp with time zone',
+        isNullable: true,
+        comment: 'Previsão de chegada recalculada durante a execução da rota',
+      }),
+      new TableColumn({
+        name: 'estimated_departure_at',
+        type: 'timestamp with time zone',
+        isNullable: true,
+        comment: 'Previsão de saída recalculada durante a execução da rota',
+      }),
+    ]);
+
+    await queryRunner.addColumns('deliveries', [
+      new TableColumn({
+        name: 'estimated_arrival_at',
+        type: 'timestamp with time zone',
+        isNullable: true,
+        comment: 'Previsão de chegada do motorista (ETA dinâmico)',
+      }),
+      new TableColumn({
+        name: 'eta_updated_at',
+        type: 'timestamp with time zone',
+        isNullable: true,
+        comment: 'Data/hora do último cálculo do ETA',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('deliveries', 'eta_updated_at');
+    await queryRunner.dropColumn('deliveries', 'estimated_arrival_at');
+
+    await queryRunner.dropColumn('route_stops', 'estimated_departure_at');
+    await queryRunner.dropColumn('route_stops', 'estimated_arrival_at');
+  }
+}
@@ -0,0 +1,521 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateGeofenceTables1694544000122 implements MigrationInterface {
+  name = 'CreateGeofenceTables1694544000122';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "geofences_type_enum" AS ENUM (
+        'DEPOT',
+        'CUSTOMER_ADDRESS',
+        'RESTRICTED_ZONE'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "geofences_shape_enum" AS ENUM (
+        'CIRCLE',
+        'POLYGON'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "geofence_events_event_type_enum" AS ENUM (
+        'ENTER',
+        'EXIT',
+        'DWELL'
+      )
+    `);
+
+    // Criar tabela geofences
+    await queryRunner.createTable(
+      new Table({
+        name: 'geofences',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Nome da geofence',
+          },
+          {
+            name: 'type',
+            type: 'geofences_type_enum',
+            isNullable: false,
+            comment: 'Finalidade da geofence',
+          },
+          {
+            name: 'shape',
+            type: 'geofences_shape_enum',
+            isNullable: false,
+            comment: 'Forma geométrica',
+          },
+          {
+            name: 'center_latitude',
+            type: 'decimal',
+            precision: 10,
+            scale: 8,
+            isNullable: true,
+            comment: 'Latitude do centro (círculo)',
+          },
+          {
+            name: 'center_longitude',
+            type: 'decimal',
+            precision: 11,
+            scale: 8,
+            isNullable: true,
+            comment: 'Longitude do centro (círculo)',
+          },
+          {
+            name: 'radius_meters',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Raio em metros (círculo)',
+          },
+          {
+            name: 'vertices',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Vértices do polígono (latitude/longitude)',
+          },
+          {
+            name: 'bounds',
+            type: 'box',
+            isNullable: false,
+            comment: 'Retângulo envolvente (x = latitude, y = longitude) para pré-filtro espacial',
+          },
+          {
+            name: 'customer_address_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do endereço de cliente de origem',
+          },
+          {
+            name: 'rules',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Regras de circulação da zona de restrição',
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+            comment: 'Descrição da geofence',
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Geofence avaliada nas posições GPS',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela geofence_events
+    await queryRunner.createTable(
+      new Table({
+        name: 'geofence_events',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'geofence_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da geofence',
+          },
+          {
+            name: 'event_type',
+            type: 'geofence_events_event_type_enum',
+            isNullable: false,
+            comment: 'Tipo do evento',
+          },
+          {
+            name: 'vehicle_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do veículo',
+          },
+          {
+            name: 'driver_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do motorista',
+          },
+          {
+            name: 'route_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da rota ativa no momento do evento',
+          },
+          {
+            name: 'tracking_point_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da posição GPS que gerou o evento',
+          },
+          {
+            name: 'route_stop_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da parada com chegada/saída carimbada pelo evento',
+          },
+          {
+            name: 'latitude',
+            type: 'decimal',
+            precision: 10,
+            scale: 8,
+            isNullable: false,
+            comment: 'Latitude da posição',
+          },
+          {
+            name: 'longitude',
+            type: 'decimal',
+            precision: 11,
+            scale: 8,
+            isNullable: false,
+            comment: 'Longitude da posição',
+          },
+          {
+            name: 'occurred_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da posição que gerou o evento',
+          },
+          {
+            name: 'dwell_seconds',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Tempo dentro da geofence em segundos (DWELL/EXIT)',
+          },
+          {
+            name: 'is_violation',
+            type: 'boolean',
+            default: false,
+            isNullable: false,
+            comment: 'Entrada em zona de restrição em desacordo com as restrições da rota',
+          },
+          {
+            name: 'violations',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Regras da zona violadas',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela geofence_presences
+    await queryRunner.createTable(
+      new Table({
+        name: 'geofence_presences',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'vehicle_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do veículo',
+          },
+          {
+            name: 'geofence_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da geofence',
+          },
+          {
+            name: 'route_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da rota ativa na entrada',
+          },
+          {
+            name: 'entered_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da entrada',
+          },
+          {
+            name: 'last_seen_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da última posição dentro da geofence',
+          },
+          {
+            name: 'dwell_emitted',
+            type: 'boolean',
+            default: false,
+            isNullable: false,
+            comment: 'Evento de permanência já emitido',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'geofences',
+      new TableForeignKey({
+        name: 'FK_geofences_customer_address',
+        columnNames: ['customer_address_id'],
+        referencedTableName: 'customer_addresses',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'geofence_events',
+      new TableForeignKey({
+        name: 'FK_geofence_events_geofence',
+        columnNames: ['geofence_id'],
+        referencedTableName: 'geofences',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'geofence_events',
+      new TableForeignKey({
+        name: 'FK_geofence_events_vehicle',
+        columnNames: ['vehicle_id'],
+        referencedTableName: 'vehicles',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'geofence_events',
+      new TableForeignKey({
+        name: 'FK_geofence_events_route',
+        columnNames: ['route_id'],
+        referencedTableName: 'routes',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'geofence_presences',
+      new TableForeignKey({
+        name: 'FK_geofence_presences_vehicle',
+        columnNames: ['vehicle_id'],
+        referencedTableName: 'vehicles',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'geofence_presences',
+      new TableForeignKey({
+        name: 'FK_geofence_presences_geofence',
+        columnNames: ['geofence_id'],
+        referencedTableName: 'geofences',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    // Índice GiST nativo do PostgreSQL (sem PostGIS) para o pré-filtro por retângulo envolvente
+    await queryRunner.query(`
+      CREATE INDEX "IDX_geofences_bounds" ON "geofences" USING GiST ("bounds")
+    `);
+
+    await queryRunner.createIndex(
+      'geofences',
+      new TableIndex({
+        name: 'IDX_geofences_type',
+        columnNames: ['type'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'geofences',
+      new TableIndex({
+        name: 'UQ_geofences_customer_address',
+        columnNames: ['customer_address_id'],
+        isUnique: true,
+        where: 'deleted_at IS NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'geofence_events',
+      new TableIndex({
+        name: 'IDX_geofence_events_geofence_occurred_at',
+        columnNames: ['geofence_id', 'occurred_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'geofence_events',
+      new TableIndex({
+        name: 'IDX_geofence_events_vehicle_occurred_at',
+        columnNames: ['vehicle_id', 'occurred_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'geofence_events',
+      new TableIndex({
+        name: 'IDX_geofence_events_route',
+        columnNames: ['route_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'geofence_events',
+      new TableIndex({
+        name: 'IDX_geofence_events_is_violation',
+        columnNames: ['is_violation'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'geofence_presences',
+      new TableIndex({
+        name: 'UQ_geofence_presences_vehicle_geofence',
+        columnNames: ['vehicle_id', 'geofence_id'],
+        isUnique: true,
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE geofences IS 'Geofences (círculos e polígonos) de centros de distribuição, endereços de clientes e zonas de restrição'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE geofence_events IS 'Eventos de entrada, saída e permanência dos veículos nas geofences'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE geofence_presences IS 'Geofences em que cada veículo se encontra no momento'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('geofence_presences', 'UQ_geofence_presences_vehicle_geofence');
+    await queryRunner.dropIndex('geofence_events', 'IDX_geofence_events_is_violation');
+    await queryRunner.dropIndex('geofence_events', 'IDX_geofence_events_route');
+    await queryRunner.dropIndex('geofence_events', 'IDX_geofence_events_vehicle_occurred_at');
+    await queryRunner.dropIndex('geofence_events', 'IDX_geofence_events_geofence_occurred_at');
+    await queryRunner.dropIndex('geofences', 'UQ_geofences_customer_address');
+    await queryRunner.dropIndex('geofences', 'IDX_geofences_type');
+    await queryRunner.query('DROP INDEX "IDX_geofences_bounds"');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('geofence_presences', 'FK_geofence_presences_geofence');
+    await queryRunner.dropForeignKey('geofence_presences', 'FK_geofence_presences_vehicle');
+    await queryRunner.dropForeignKey('geofence_events', 'FK_geofence_events_route');
+    await queryRunner.dropForeignKey('geofence_events', 'FK_geofence_events_vehicle');
+    await queryRunner.dropForeignKey('geofence_events', 'FK_geofence_events_geofence');
+    await queryRunner.dropForeignKey('geofences', 'FK_geofences_customer_address');
+
+    // Remover tabelas
+    await queryRunner.dropTable('geofence_presences');
+    await queryRunner.dropTable('geofence_events');
+    await queryRunner.dropTable('geofences');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "geofence_events_event_type_enum"');
+    await queryRunner.query('DROP TYPE "geofences_shape_enum"');
+    await queryRunner.query('DROP TYPE "geofences_type_enum"');
+  }
+}
@@ -0,0 +1,406 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateRouteAlertTables1694544000123 implements MigrationInterface {
+  name = 'CreateRouteAlertTables1694544000123';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "route_alerts_type_enum" AS ENUM (
+        'ROUTE_DEVIATION',
+        'UNEXPECTED_STOP',
+        'SPEEDING'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "route_alerts_status_enum" AS ENUM (
+        'OPEN',
+        'ACKNOWLEDGED'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "route_alert_thresholds_route_type_enum" AS ENUM (
+        'URBAN',
+        'INTERSTATE',
+        'RURAL',
+        'EXPRESS',
+        'LOCAL'
+      )
+    `);
+
+    // Criar tabela route_alert_thresholds
+    await queryRunner.createTable(
+      new Table({
+        name: 'route_alert_thresholds',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'route_type',
+            type: 'route_alert_thresholds_route_type_enum',
+            isNullable: false,
+            comment: 'Tipo de rota',
+          },
+          {
+            name: 'deviation_enabled',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Detecta desvio do trajeto planejado',
+          },
+          {
+            name: 'deviation_meters',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Distância máxima do trajeto planejado (metros)',
+          },
+          {
+            name: 'unexpected_stop_enabled',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Detecta parada fora das paradas da rota',
+          },
+          {
+            name: 'unexpected_stop_minutes',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Tempo parado fora das paradas para gerar o alerta (minutos)',
+          },
+          {
+            name: 'speeding_enabled',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Detecta excesso de velocidade',
+          },
+          {
+            name: 'max_speed_kmh',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Velocidade máxima (km/h)',
+          },
+          {
+            name: 'speed_tolerance_percent',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+            comment: 'Tolerância sobre a velocidade máxima (%)',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela route_alerts
+    await queryRunner.createTable(
+      new Table({
+        name: 'route_alerts',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'type',
+            type: 'route_alerts_type_enum',
+            isNullable: false,
+            comment: 'Tipo do alerta',
+          },
+          {
+            name: 'status',
+            type: 'route_alerts_status_enum',
+            default: "'OPEN'",
+            isNullable: false,
+            comment: 'Status do alerta',
+          },
+          {
+            name: 'message',
+            type: 'varchar',
+            length: '500',
+            isNullable: false,
+            comment: 'Descrição da condição detectada',
+          },
+          {
+            name: 'route_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da rota',
+          },
+          {
+            name: 'vehicle_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do veículo',
+          },
+          {
+            name: 'driver_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do motorista',
+          },
+          {
+            name: 'tracking_point_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da última posição GPS em que a condição foi detectada',
+          },
+          {
+            name: 'latitude',
+            type: 'decimal',
+            precision: 10,
+            scale: 8,
+            isNullable: false,
+            comment: 'Latitude da primeira detecção',
+          },
+          {
+            name: 'longitude',
+            type: 'decimal',
+            precision: 11,
+            scale: 8,
+            isNullable: false,
+            comment: 'Longitude da primeira detecção',
+          },
+          {
+            name: 'measured_value',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+            comment: 'Maior valor medido: metros (desvio), minutos (parada) ou km/h (velocidade)',
+          },
+          {
+            name: 'threshold_value',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+            comment: 'Limiar ultrapassado, na mesma unidade do valor medido',
+          },
+          {
+            name: 'occurrences',
+            type: 'integer',
+            default: 1,
+            isNullable: false,
+            comment: 'Posições GPS em que a condição foi detectada',
+          },
+          {
+            name: 'started_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Início da condição',
+          },
+          {
+            name: 'last_detected_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da última detecção',
+          },
+          {
+            name: 'cleared_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora em que a condição deixou de ser detectada',
+          },
+          {
+            name: 'acknowledged_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que reconheceu o alerta',
+          },
+          {
+            name: 'acknowledged_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do reconhecimento',
+          },
+          {
+            name: 'acknowledgement_notes',
+            type: 'text',
+            isNullable: true,
+            comment: 'Observações do reconhecimento',
+          },
+          {
+            name: 'incident_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do incidente gerado a partir do alerta',
+          },
+          {
+            name: 'metadata',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Detalhes da detecção',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'route_alerts',
+      new TableForeignKey({
+        name: 'FK_route_alerts_route',
+        columnNames: ['route_id'],
+        referencedTableName: 'routes',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'route_alerts',
+      new TableForeignKey({
+        name: 'FK_route_alerts_vehicle',
+        columnNames: ['vehicle_id'],
+        referencedTableName: 'vehicles',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'route_alerts',
+      new TableForeignKey({
+        name: 'FK_route_alerts_incident',
+        columnNames: ['incident_id'],
+        referencedTableName: 'incidents',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'route_alert_thresholds',
+      new TableIndex({
+        name: 'UQ_route_alert_thresholds_route_type',
+        columnNames: ['route_type'],
+        isUnique: true,
+      }),
+    );
+
+    // Uma condição em curso por rota/tipo: pings concorrentes não duplicam o alerta
+    await queryRunner.createIndex(
+      'route_alerts',
+      new TableIndex({
+        name: 'UQ_route_alerts_route_type_ongoing',
+        columnNames: ['route_id', 'type'],
+        isUnique: true,
+        where: 'cleared_at IS NULL AND deleted_at IS NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'route_alerts',
+      new TableIndex({
+        name: 'IDX_route_alerts_route_type',
+        columnNames: ['route_id', 'type'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'route_alerts',
+      new TableIndex({
+        name: 'IDX_route_alerts_vehicle_started_at',
+        columnNames: ['vehicle_id', 'started_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'route_alerts',
+      new TableIndex({
+        name: 'IDX_route_alerts_status',
+        columnNames: ['status'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE route_alert_thresholds IS 'Limiares de desvio, parada não prevista e velocidade por tipo de rota'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE route_alerts IS 'Alertas de desvio de trajeto, parada não prevista e excesso de velocidade das rotas em andamento'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('route_alerts', 'IDX_route_alerts_status');
+    await queryRunner.dropIndex('route_alerts', 'IDX_route_alerts_vehicle_started_at');
+    await queryRunner.dropIndex('route_alerts', 'IDX_route_alerts_route_type');
+    await queryRunner.dropIndex('route_alerts', 'UQ_route_alerts_route_type_ongoing');
+    await queryRunner.dropIndex('route_alert_thresholds', 'UQ_route_alert_thresholds_route_type');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('route_alerts', 'FK_route_alerts_incident');
+    await queryRunner.dropForeignKey('route_alerts', 'FK_route_alerts_vehicle');
+    await queryRunner.dropForeignKey('route_alerts', 'FK_route_alerts_route');
+
+    // Remover tabelas
+    await queryRunner.dropTable('route_alerts');
+    await queryRunner.dropTable('route_alert_thresholds');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "route_alert_thresholds_route_type_enum"');
+    await queryRunner.query('DROP TYPE "route_alerts_status_enum"');
+    await queryRunner.query('DROP TYPE "route_alerts_type_enum"');
+  }
+}
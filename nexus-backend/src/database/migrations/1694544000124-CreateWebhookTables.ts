@@ -0,0 +1,462 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateWebhookTables1694544000124 implements MigrationInterface {
+  name = 'CreateWebhookTables1694544000124';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "webhook_deliveries_event_type_enum" AS ENUM (
+        'DELIVERY_STATUS_CHANGED',
+        'DELIVERY_ATTEMPTED',
+        'DELIVERY_PROOF_ADDED',
+        'DELIVERY_ETA_CHANGED'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "webhook_deliveries_status_enum" AS ENUM (
+        'PENDING',
+        'PROCESSING',
+        'SUCCEEDED',
+        'DEAD_LETTER'
+      )
+    `);
+
+    // Criar tabela webhook_subscriptions
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_subscriptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'customer_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do cliente',
+          },
+          {
+            name: 'url',
+            type: 'varchar',
+            length: '2048',
+            isNullable: false,
+            comment: 'URL do endpoint que recebe os eventos',
+          },
+          {
+            name: 'events',
+            type: 'text',
+            isArray: true,
+            isNullable: false,
+            comment: 'Eventos assinados',
+          },
+          {
+            name: 'secret',
+            type: 'varchar',
+            length: '128',
+            isNullable: false,
+            comment: 'Segredo da assinatura HMAC',
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Descrição da assinatura',
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Indica se a assinatura recebe novos eventos',
+          },
+          {
+            name: 'last_success_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do último envio aceito',
+          },
+          {
+            name: 'last_failure_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da última falha de envio',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela webhook_deliveries
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_deliveries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'subscription_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID da assinatura',
+          },
+          {
+            name: 'event_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do evento (enviado no payload; o mesmo em todas as assinaturas)',
+          },
+          {
+            name: 'event_type',
+            type: 'webhook_deliveries_event_type_enum',
+            isNullable: false,
+            comment: 'Tipo do evento',
+          },
+          {
+            name: 'delivery_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID da entrega relacionada',
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+            isNullable: false,
+            comment: 'Payload enviado',
+          },
+          {
+            name: 'status',
+            type: 'webhook_deliveries_status_enum',
+            default: "'PENDING'",
+            isNullable: false,
+            comment: 'Status do envio',
+          },
+          {
+            name: 'attempts',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+            comment: 'Tentativas realizadas',
+          },
+          {
+            name: 'max_attempts',
+            type: 'integer',
+            default: 8,
+            isNullable: false,
+            comment: 'Máximo de tentativas antes do dead-letter',
+          },
+          {
+            name: 'next_attempt_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora a partir da qual o envio pode ser tentado',
+          },
+          {
+            name: 'last_response_status',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Código HTTP da última resposta',
+          },
+          {
+            name: 'last_error',
+            type: 'text',
+            isNullable: true,
+            comment: 'Último erro de envio',
+          },
+          {
+            name: 'locked_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da reserva pelo worker',
+          },
+          {
+            name: 'succeeded_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora em que o endpoint aceitou o envio',
+          },
+          {
+            name: 'dead_lettered_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora em que foi movido para dead-letter',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar tabela webhook_delivery_attempts
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_delivery_attempts',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'webhook_delivery_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do envio de webhook',
+          },
+          {
+            name: 'attempt_number',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Número da tentativa',
+          },
+          {
+            name: 'success',
+            type: 'boolean',
+            isNullable: false,
+            comment: 'Indica se o endpoint aceitou o envio (2xx)',
+          },
+          {
+            name: 'response_status',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Código HTTP da resposta (nulo em falha de conexão ou timeout)',
+          },
+          {
+            name: 'response_body',
+            type: 'text',
+            isNullable: true,
+            comment: 'Início do corpo da resposta',
+          },
+          {
+            name: 'error_message',
+            type: 'text',
+            isNullable: true,
+            comment: 'Erro de envio',
+          },
+          {
+            name: 'duration_ms',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Duração da requisição em milissegundos',
+          },
+          {
+            name: 'attempted_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora da tentativa',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'webhook_subscriptions',
+      new TableForeignKey({
+        name: 'FK_webhook_subscriptions_customer',
+        columnNames: ['customer_id'],
+        referencedTableName: 'customers',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'webhook_deliveries',
+      new TableForeignKey({
+        name: 'FK_webhook_deliveries_subscription',
+        columnNames: ['subscription_id'],
+        referencedTableName: 'webhook_subscriptions',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'webhook_delivery_attempts',
+      new TableForeignKey({
+        name: 'FK_webhook_delivery_attempts_delivery',
+        columnNames: ['webhook_delivery_id'],
+        referencedTableName: 'webhook_deliveries',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'webhook_subscriptions',
+      new TableIndex({
+        name: 'IDX_webhook_subscriptions_customer_active',
+        columnNames: ['customer_id', 'is_active'],
+      }),
+    );
+
+    // Um envio por assinatura/evento: o mesmo evento não é enfileirado duas vezes
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'UQ_webhook_deliveries_subscription_event',
+        columnNames: ['subscription_id', 'event_id'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'IDX_webhook_deliveries_status_next_attempt',
+        columnNames: ['status', 'next_attempt_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'IDX_webhook_deliveries_subscription_created_at',
+        columnNames: ['subscription_id', 'created_at'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({
+        name: 'IDX_webhook_deliveries_delivery',
+        columnNames: ['delivery_id'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'webhook_delivery_attempts',
+      new TableIndex({
+        name: 'IDX_webhook_delivery_attempts_delivery_attempt',
+        columnNames: ['webhook_delivery_id', 'attempt_number'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE webhook_subscriptions IS 'Endpoints dos clientes B2B que recebem os eventos do ciclo de vida das entregas'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE webhook_deliveries IS 'Fila e log de envios de webhook, com retentativas e dead-letter'
+    `);
+
+    await queryRunner.query(`
+      COMMENT ON TABLE webhook_delivery_attempts IS 'Tentativas de envio de webhook com código de resposta e duração'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex(
+      'webhook_delivery_attempts',
+      'IDX_webhook_delivery_attempts_delivery_attempt',
+    );
+    await queryRunner.dropIndex('webhook_deliveries', 'IDX_webhook_deliveries_delivery');
+    await queryRunner.dropIndex(
+      'webhook_deliveries',
+      'IDX_webhook_deliveries_subscription_created_at',
+    );
+    await queryRunner.dropIndex('webhook_deliveries', 'IDX_webhook_deliveries_status_next_attempt');
+    await queryRunner.dropIndex('webhook_deliveries', 'UQ_webhook_deliveries_subscription_event');
+    await queryRunner.dropIndex(
+      'webhook_subscriptions',
+      'IDX_webhook_subscriptions_customer_active',
+    );
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey(
+      'webhook_delivery_attempts',
+      'FK_webhook_delivery_attempts_delivery',
+    );
+    await queryRunner.dropForeignKey('webhook_deliveries', 'FK_webhook_deliveries_subscription');
+    await queryRunner.dropForeignKey('webhook_subscriptions', 'FK_webhook_subscriptions_customer');
+
+    // Remover tabelas
+    await queryRunner.dropTable('webhook_delivery_attempts');
+    await queryRunner.dropTable('webhook_deliveries');
+    await queryRunner.dropTable('webhook_subscriptions');
+
+    // Remover enums
+    await queryRunner.query('DROP TYPE "webhook_deliveries_status_enum"');
+    await queryRunner.query('DROP TYPE "webhook_deliveries_event_type_enum"');
+  }
+}
@@ -0,0 +1,203 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateApiKeysTable1694544000125 implements MigrationInterface {
+  name = 'CreateApiKeysTable1694544000125';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar tabela api_keys
+    await queryRunner.createTable(
+      new Table({
+        name: 'api_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'customer_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do cliente dono da chave',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Nome de identificação da chave',
+          },
+          {
+            name: 'key_prefix',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            comment: 'Início da chave, exibido para identificação',
+          },
+          {
+            name: 'key_hash',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+            comment: 'Hash SHA-256 da chave',
+          },
+          {
+            name: 'previous_key_hash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+            comment: 'Hash SHA-256 da chave anterior à última rotação',
+          },
+          {
+            name: 'previous_key_expires_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora até a qual a chave anterior é aceita',
+          },
+          {
+            name: 'scopes',
+            type: 'text',
+            isArray: true,
+            isNullable: false,
+            comment: 'Escopos concedidos',
+          },
+          {
+            name: 'rate_limit_per_minute',
+            type: 'integer',
+            default: 60,
+            isNullable: false,
+            comment: 'Limite de requisições por minuto',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora de expiração da chave',
+          },
+          {
+            name: 'last_used_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora do último uso',
+          },
+          {
+            name: 'last_used_ip',
+            type: 'varchar',
+            length: '45',
+            isNullable: true,
+            comment: 'IP do último uso',
+          },
+          {
+            name: 'revoked_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora da revogação',
+          },
+          {
+            name: 'revoked_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que revogou a chave',
+          },
+          {
+            name: 'revocation_reason',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Motivo da revogação',
+          },
+          {
+            name: 'created_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que criou a chave',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'api_keys',
+      new TableForeignKey({
+        name: 'FK_api_keys_customer',
+        columnNames: ['customer_id'],
+        referencedTableName: 'customers',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'api_keys',
+      new TableIndex({
+        name: 'UQ_api_keys_key_hash',
+        columnNames: ['key_hash'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'api_keys',
+      new TableIndex({
+        name: 'IDX_api_keys_previous_key_hash',
+        columnNames: ['previous_key_hash'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'api_keys',
+      new TableIndex({
+        name: 'IDX_api_keys_customer',
+        columnNames: ['customer_id'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE api_keys IS 'Chaves de API dos clientes B2B para a API de integração (armazenadas como hash)'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('api_keys', 'IDX_api_keys_customer');
+    await queryRunner.dropIndex('api_keys', 'IDX_api_keys_previous_key_hash');
+    await queryRunner.dropIndex('api_keys', 'UQ_api_keys_key_hash');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('api_keys', 'FK_api_keys_customer');
+
+    // Remover tabelas
+    await queryRunner.dropTable('api_keys');
+  }
+}
@@ -0,0 +1,192 @@
+import { type MigrationInterface, type QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreatePermissionsTable1694544000126 implements MigrationInterface {
+  name = 'CreatePermissionsTable1694544000126';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar tabela permissions
+    await queryRunner.createTable(
+      new Table({
+        name: 'permissions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Nome único da permissão (ex: users:create)',
+          },
+          {
+            name: 'resource',
+            type: 'varchar',
+            length: '50',
+            isNullable: false,
+            comment: 'Recurso ao qual a permissão se aplica',
+          },
+          {
+            name: 'action',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            comment: 'Ação permitida (create, read, update, delete)',
+          },
+          {
+            name: 'display_name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Nome de exibição da permissão',
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+            comment: 'Descrição da permissão',
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Se a permissão está ativa',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'permissions',
+      new TableIndex({
+        name: 'UQ_permissions_name',
+        columnNames: ['name'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'permissions',
+      new TableIndex({
+        name: 'IDX_permissions_resource_action',
+        columnNames: ['resource', 'action'],
+      }),
+    );
+
+    // Catálogo inicial: vocabulário de RolePermissions
+    await queryRunner.query(`
+      INSERT INTO permissions (name, resource, action, display_name) VALUES
+        ('users:create', 'users', 'create', 'Criar usuários'),
+        ('users:read', 'users', 'read', 'Consultar usuários'),
+        ('users:update', 'users', 'update', 'Atualizar usuários'),
+        ('users:delete', 'users', 'delete', 'Remover usuários'),
+        ('vehicles:create', 'vehicles', 'create', 'Criar veículos'),
+        ('vehicles:read', 'vehicles', 'read', 'Consultar veículos'),
+        ('vehicles:update', 'vehicles', 'update', 'Atualizar veículos'),
+        ('vehicles:delete', 'vehicles', 'delete', 'Remover veículos'),
+        ('routes:create', 'routes', 'create', 'Criar rotas'),
+        ('routes:read', 'routes', 'read', 'Consultar rotas'),
+        ('routes:update', 'routes', 'update', 'Atualizar rotas'),
+        ('routes:delete', 'routes', 'delete', 'Remover rotas'),
+        ('deliveries:create', 'deliveries', 'create', 'Criar entregas'),
+        ('deliveries:read', 'deliveries', 'read', 'Consultar entregas'),
+        ('deliveries:update', 'deliveries', 'update', 'Atualizar entregas'),
+        ('deliveries:delete', 'deliveries', 'delete', 'Remover entregas'),
+        ('reports:read', 'reports', 'read', 'Consultar relatórios'),
+        ('audit:read', 'audit', 'read', 'Consultar logs de auditoria')
+    `);
+
+    // Permissões padrão dos roles que ainda não têm permissões atribuídas
+    const defaultRolePermissions: Record<string, string[]> = {
+      admin: [
+        'users:create',
+        'users:read',
+        'users:update',
+        'users:delete',
+        'vehicles:create',
+        'vehicles:read',
+        'vehicles:update',
+        'vehicles:delete',
+        'routes:create',
+        'routes:read',
+        'routes:update',
+        'routes:delete',
+        'deliveries:create',
+        'deliveries:read',
+        'deliveries:update',
+        'deliveries:delete',
+        'reports:read',
+        'audit:read',
+      ],
+      gestor: [
+        'users:read',
+        'users:update',
+        'vehicles:read',
+        'vehicles:update',
+        'routes:create',
+        'routes:read',
+        'routes:update',
+        'deliveries:create',
+        'deliveries:read',
+        'deliveries:update',
+        'reports:read',
+      ],
+      despachante: [
+        'vehicles:read',
+        'routes:read',
+        'routes:update',
+        'deliveries:create',
+        'deliveries:read',
+        'deliveries:update',
+      ],
+      motorista: ['deliveries:read', 'deliveries:update', 'routes:read'],
+      cliente: ['deliveries:read'],
+    };
+
+    for (const [roleName, permissions] of Object.entries(defaultRolePermissions)) {
+      await queryRunner.query(
+        `UPDATE roles SET permissions = $1::jsonb WHERE name = $2 AND permissions = '[]'::jsonb`,
+        [JSON.stringify(permissions), roleName],
+      );
+    }
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE permissions IS 'Catálogo de permissões (recurso:ação) atribuíveis aos roles'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('permissions', 'IDX_permissions_resource_action');
+    await queryRunner.dropIndex('permissions', 'UQ_permissions_name');
+
+    // Remover tabelas
+    await queryRunner.dropTable('permissions');
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddCustomerAndDriverLinkToUsers1694544000127 implements MigrationInterface {
+  name = 'AddCustomerAndDriverLinkToUsers1694544000127';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'customer_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'ID do cliente vinculado ao usuário (perfil cliente)',
+      }),
+      new TableColumn({
+        name: 'driver_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'ID do motorista vinculado ao usuário (perfil motorista)',
+      }),
+    ]);
+
+    await queryRunner.createForeignKeys('users', [
+      new TableForeignKey({
+        name: 'FK_users_customer',
+        columnNames: ['customer_id'],
+        referencedTableName: 'customers',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+      new TableForeignKey({
+        name: 'FK_users_driver',
+        columnNames: ['driver_id'],
+        referencedTableName: 'drivers',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    ]);
+
+    await queryRunner.createIndices('users', [
+      new TableIndex({ name: 'IDX_users_customer_id', columnNames: ['customer_id'] }),
+      new TableIndex({ name: 'UQ_users_driver_id', columnNames: ['driver_id'], isUnique: true }),
+    ]);
+
+    // Vínculos iniciais: até aqui o e-mail identificava o cliente e o motorista do usuário
+    await queryRunner.query(`
+      UPDATE users u
+      SET customer_id = c.id
+      FROM customers c
+      WHERE LOWER(c.email) = LOWER(u.email)
+        AND c.deleted_at IS NULL
+        AND EXISTS (
+          SELECT 1 FROM user_roles ur
+          INNER JOIN roles r ON r.id = ur.role_id
+          WHERE ur.user_id = u.id AND r.name = 'cliente'
+        )
+    `);
+
+    await queryRunner.query(`
+      UPDATE users u
+      SET driver_id = d.id
+      FROM drivers d
+      WHERE LOWER(d.email) = LOWER(u.email)
+        AND d.deleted_at IS NULL
+        AND EXISTS (
+          SELECT 1 FROM user_roles ur
+          INNER JOIN roles r ON r.id = ur.role_id
+          WHERE ur.user_id = u.id AND r.name = 'motorista'
+        )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('users', 'UQ_users_driver_id');
+    await queryRunner.dropIndex('users', 'IDX_users_customer_id');
+
+    await queryRunner.dropForeignKey('users', 'FK_users_driver');
+    await queryRunner.dropForeignKey('users', 'FK_users_customer');
+
+    await queryRunner.dropColumn('users', 'driver_id');
+    await queryRunner.dropColumn('users', 'customer_id');
+  }
+}
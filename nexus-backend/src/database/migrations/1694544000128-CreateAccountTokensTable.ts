@@ -0,0 +1,135 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateAccountTokensTable1694544000128 implements MigrationInterface {
+  name = 'CreateAccountTokensTable1694544000128';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "account_tokens_type_enum" AS ENUM (
+        'EMAIL_VERIFICATION',
+        'PASSWORD_RESET',
+        'INVITE'
+      )
+    `);
+
+    // Criar tabela account_tokens
+    await queryRunner.createTable(
+      new Table({
+        name: 'account_tokens',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'user_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do usuário dono do token',
+          },
+          {
+            name: 'type',
+            type: 'account_tokens_type_enum',
+            isNullable: false,
+            comment: 'Finalidade do token',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Data/hora de expiração do token',
+          },
+          {
+            name: 'used_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora em que o token foi usado',
+          },
+          {
+            name: 'created_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que emitiu o token (convites)',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'account_tokens',
+      new TableForeignKey({
+        name: 'FK_account_tokens_user',
+        columnNames: ['user_id'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'account_tokens',
+      new TableIndex({
+        name: 'IDX_account_tokens_user_type',
+        columnNames: ['user_id', 'type'],
+      }),
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE account_tokens IS 'Tokens de uso único de verificação de email, recuperação de senha e convite'
+    `);
+
+    // Usuários anteriores à verificação de email não teriam como confirmá-lo
+    // e ficariam bloqueados no login: considerar os emails já verificados
+    await queryRunner.query(`
+      UPDATE users
+      SET email_verified = true, email_verified_at = COALESCE(email_verified_at, created_at)
+      WHERE email_verified = false
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('account_tokens', 'IDX_account_tokens_user_type');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('account_tokens', 'FK_account_tokens_user');
+
+    // Remover tabelas
+    await queryRunner.dropTable('account_tokens');
+
+    await queryRunner.query('DROP TYPE "account_tokens_type_enum"');
+  }
+}
@@ -0,0 +1,64 @@
+import { type MigrationInterface, type QueryRunner, TableColumn } from 'typeorm';
+
+export class AddTwoFactorToUsers1694544000129 implements MigrationInterface {
+  name = 'AddTwoFactorToUsers1694544000129';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'two_factor_enabled',
+        type: 'boolean',
+        default: false,
+        isNullable: false,
+        comment: 'Autenticação em dois fatores (TOTP) ativa',
+      }),
+      new TableColumn({
+        name: 'two_factor_enabled_at',
+        type: 'timestamp with time zone',
+        isNullable: true,
+        comment: 'Data de ativação da autenticação em dois fatores',
+      }),
+      new TableColumn({
+        name: 'two_factor_secret',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+        comment: 'Segredo TOTP em Base32 (pendente até a confirmação do cadastro)',
+      }),
+      new TableColumn({
+        name: 'two_factor_recovery_codes',
+        type: 'text',
+        isArray: true,
+        isNullable: true,
+        comment: 'Hashes SHA-256 dos códigos de recuperação ainda não usados',
+      }),
+      new TableColumn({
+        name: 'two_factor_last_step',
+        type: 'integer',
+        isNullable: true,
+        comment: 'Último passo de tempo TOTP aceito (impede reutilização do código)',
+      }),
+    ]);
+
+    // Ações de auditoria do 2FA; AUTH já era usada pelos logs de autenticação
+    await queryRunner.query(
+      `ALTER TYPE "audit_action_enum" ADD VALUE IF NOT EXISTS 'TWO_FACTOR_ENABLE'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "audit_action_enum" ADD VALUE IF NOT EXISTS 'TWO_FACTOR_DISABLE'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "audit_action_enum" ADD VALUE IF NOT EXISTS 'FAILED_TWO_FACTOR'`,
+    );
+    await queryRunner.query(`ALTER TYPE "audit_category_enum" ADD VALUE IF NOT EXISTS 'AUTH'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Valores de enum do PostgreSQL não podem ser removidos; permanecem sem uso
+    await queryRunner.dropColumn('users', 'two_factor_last_step');
+    await queryRunner.dropColumn('users', 'two_factor_recovery_codes');
+    await queryRunner.dropColumn('users', 'two_factor_secret');
+    await queryRunner.dropColumn('users', 'two_factor_enabled_at');
+    await queryRunner.dropColumn('users', 'two_factor_enabled');
+  }
+}
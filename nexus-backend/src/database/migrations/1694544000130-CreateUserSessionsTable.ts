@@ -0,0 +1,167 @@
+import {
+  type MigrationInterface,
+  type QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateUserSessionsTable1694544000130 implements MigrationInterface {
+  name = 'CreateUserSessionsTable1694544000130';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Criar enums
+    await queryRunner.query(`
+      CREATE TYPE "user_sessions_revoked_reason_enum" AS ENUM (
+        'LOGOUT',
+        'REVOKED_BY_USER',
+        'REVOKED_BY_ADMIN',
+        'REFRESH_TOKEN_REUSE',
+        'PASSWORD_CHANGE'
+      )
+    `);
+
+    // Criar tabela user_sessions
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_sessions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            default: 'uuid_generate_v4()',
+            comment: 'Identificador único',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de criação',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'now()',
+            comment: 'Data de atualização',
+          },
+          {
+            name: 'deleted_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Soft delete timestamp',
+          },
+          {
+            name: 'user_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID do usuário dono da sessão',
+          },
+          {
+            name: 'refresh_token_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'ID (jti) do refresh token vigente da sessão',
+          },
+          {
+            name: 'device',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+            comment: 'Dispositivo identificado pelo User-Agent',
+          },
+          {
+            name: 'ip_address',
+            type: 'varchar',
+            length: '45',
+            isNullable: true,
+            comment: 'Último endereço IP da sessão',
+          },
+          {
+            name: 'user_agent',
+            type: 'text',
+            isNullable: true,
+            comment: 'Último User-Agent da sessão',
+          },
+          {
+            name: 'last_seen_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Último uso da sessão (login ou renovação)',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp with time zone',
+            isNullable: false,
+            comment: 'Expiração do refresh token vigente',
+          },
+          {
+            name: 'revoked_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+            comment: 'Data/hora de encerramento da sessão',
+          },
+          {
+            name: 'revoked_reason',
+            type: 'user_sessions_revoked_reason_enum',
+            isNullable: true,
+            comment: 'Motivo do encerramento',
+          },
+          {
+            name: 'revoked_by',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'ID do usuário que encerrou a sessão',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Criar Foreign Keys
+    await queryRunner.createForeignKey(
+      'user_sessions',
+      new TableForeignKey({
+        name: 'FK_user_sessions_user',
+        columnNames: ['user_id'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    // Criar Índices
+    await queryRunner.createIndex(
+      'user_sessions',
+      new TableIndex({
+        name: 'IDX_user_sessions_user_revoked',
+        columnNames: ['user_id', 'revoked_at'],
+      }),
+    );
+
+    // Ação de auditoria do encerramento de sessões
+    await queryRunner.query(
+      `ALTER TYPE "audit_action_enum" ADD VALUE IF NOT EXISTS 'SESSION_REVOKE'`,
+    );
+
+    // Comentários nas tabelas
+    await queryRunner.query(`
+      COMMENT ON TABLE user_sessions IS 'Sessões de login e famílias de refresh tokens dos usuários'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remover índices
+    await queryRunner.dropIndex('user_sessions', 'IDX_user_sessions_user_revoked');
+
+    // Remover foreign keys
+    await queryRunner.dropForeignKey('user_sessions', 'FK_user_sessions_user');
+
+    // Remover tabelas
+    await queryRunner.dropTable('user_sessions');
+
+    // Valores de enum do PostgreSQL não podem ser removidos; SESSION_REVOKE permanece sem uso
+    await queryRunner.query('DROP TYPE "user_sessions_revoked_reason_enum"');
+  }
+}
@@ -0,0 +1,28 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTrackingPermissions1694544000131 implements MigrationInterface {
+  name = 'AddTrackingPermissions1694544000131';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      INSERT INTO permissions (name, resource, action, display_name) VALUES
+        ('tracking:create', 'tracking', 'create', 'Enviar posições GPS do próprio veículo')
+      ON CONFLICT (name) DO NOTHING
+    `);
+
+    // Apenas o motorista envia pings, sempre do próprio veículo em rota
+    await queryRunner.query(`
+      UPDATE roles SET permissions = permissions || '["tracking:create"]'::jsonb
+      WHERE name = 'motorista' AND NOT permissions ? 'tracking:create'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      UPDATE roles SET permissions = permissions - 'tracking:create'
+      WHERE name = 'motorista'
+    `);
+
+    await queryRunner.query(`DELETE FROM permissions WHERE name = 'tracking:create'`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNotificationPermissions1694544000132 implements MigrationInterface {
+  name = 'AddNotificationPermissions1694544000132';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      INSERT INTO permissions (name, resource, action, display_name) VALUES
+        ('notifications:read', 'notifications', 'read', 'Consultar despachos, caixa de saída e supressões'),
+        ('notifications:update', 'notifications', 'update', 'Registrar rejeições de notificações')
+      ON CONFLICT (name) DO NOTHING
+    `);
+
+    // O log de notificações expõe contatos dos destinatários: apenas admin e gestor
+    await queryRunner.query(`
+      UPDATE roles
+      SET permissions = permissions || '["notifications:read", "notifications:update"]'::jsonb
+      WHERE name IN ('admin', 'gestor')
+        AND NOT permissions ?| ARRAY['notifications:read', 'notifications:update']
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      UPDATE roles SET permissions = permissions - 'notifications:read' - 'notifications:update'
+      WHERE name IN ('admin', 'gestor')
+    `);
+
+    await queryRunner.query(
+      `DELETE FROM permissions WHERE name IN ('notifications:read', 'notifications:update')`,
+    );
+  }
+}
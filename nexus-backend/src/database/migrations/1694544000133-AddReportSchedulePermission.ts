@@ -0,0 +1,28 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReportSchedulePermission1694544000133 implements MigrationInterface {
+  name = 'AddReportSchedulePermission1694544000133';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      INSERT INTO permissions (name, resource, action, display_name) VALUES
+        ('reports:schedule', 'reports', 'schedule', 'Agendar e executar relatórios')
+      ON CONFLICT (name) DO NOTHING
+    `);
+
+    // Agendamentos enviam relatórios por e-mail: mesmos roles que consultam relatórios
+    await queryRunner.query(`
+      UPDATE roles SET permissions = permissions || '["reports:schedule"]'::jsonb
+      WHERE name IN ('admin', 'gestor') AND NOT permissions ? 'reports:schedule'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      UPDATE roles SET permissions = permissions - 'reports:schedule'
+      WHERE name IN ('admin', 'gestor')
+    `);
+
+    await queryRunner.query(`DELETE FROM permissions WHERE name = 'reports:schedule'`);
+  }
+}
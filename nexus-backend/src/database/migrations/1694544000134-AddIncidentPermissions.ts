@@ -0,0 +1,43 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddIncidentPermissions1694544000134 implements MigrationInterface {
+  name = 'AddIncidentPermissions1694544000134';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      INSERT INTO permissions (name, resource, action, display_name) VALUES
+        ('incidents:create', 'incidents', 'create', 'Reportar incidentes'),
+        ('incidents:read', 'incidents', 'read', 'Consultar incidentes'),
+        ('incidents:update', 'incidents', 'update', 'Atualizar e tratar incidentes'),
+        ('incidents:delete', 'incidents', 'delete', 'Remover incidentes')
+      ON CONFLICT (name) DO NOTHING
+    `);
+
+    // Reportar um incidente pode pausar rotas: restrito à operação
+    const rolePermissions: Record<string, string[]> = {
+      admin: ['incidents:create', 'incidents:read', 'incidents:update', 'incidents:delete'],
+      gestor: ['incidents:create', 'incidents:read', 'incidents:update'],
+      despachante: ['incidents:create', 'incidents:read', 'incidents:update'],
+    };
+
+    for (const [roleName, permissions] of Object.entries(rolePermissions)) {
+      await queryRunner.query(
+        `
+        UPDATE roles SET permissions = permissions || $1::jsonb
+        WHERE name = $2 AND NOT permissions ?| $3::text[]
+        `,
+        [JSON.stringify(permissions), roleName, permissions],
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      UPDATE roles
+      SET permissions = permissions - 'incidents:create' - 'incidents:read' - 'incidents:update' - 'incidents:delete'
+      WHERE name IN ('admin', 'gestor', 'despachante')
+    `);
+
+    await queryRunner.query(`DELETE FROM permissions WHERE resource = 'incidents'`);
+  }
+}
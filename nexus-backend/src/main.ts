@@ -47,6 +47,7 @@ async function bootstrap(): Promise<void> {
     .addTag('LGPD', 'Conformidade LGPD')
     .addTag('Health', 'Health checks')
     .addTag('Metrics', 'Métricas e monitoramento')
+    .addTag('Integration', 'API de integração dos clientes (chave de API)')
     .addBearerAuth(
       {
         type: 'http',
@@ -58,6 +59,15 @@ async function bootstrap(): Promise<void> {
       },
       'JWT-auth',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        description: 'Chave de API do cliente',
+        in: 'header',
+      },
+      'api-key',
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
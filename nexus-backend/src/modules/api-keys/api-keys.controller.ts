@@ -0,0 +1,228 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Req,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import { RevokeApiKeyDto } from './dto/revoke-api-key.dto';
+import { ApiKeyFilterDto } from './dto/api-key-filter.dto';
+import { ApiKeyResponseDto, ApiKeySecretResponseDto } from './dto/api-key-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Controller de chaves de API
+ *
+ * Emissão e ciclo de vida das credenciais de máquina dos clientes B2B usadas
+ * na API de integração (cabeçalho X-API-Key).
+ */
+@ApiTags('API Keys')
+@Controller('api-keys')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.GESTOR)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário sem permissão para gerenciar chaves de API',
+})
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Criar chave de API',
+    description:
+      'Emite uma chave para o cliente com os escopos informados. A chave é retornada apenas nesta resposta',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Chave criada com sucesso',
+    type: ApiKeySecretResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Escopos ou limites inválidos',
+  })
+  @ApiNotFoundResponse({
+    description: 'Cliente não encontrado',
+  })
+  async create(
+    @Body() createDto: CreateApiKeyDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ApiKeySecretResponseDto> {
+    return this.apiKeysService.create(createDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar chaves de API',
+    description:
+      'Lista chaves por cliente; a busca considera o nome. Revogadas só com include_revoked',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de chaves retornada com sucesso',
+    type: PaginatedResponseDto<ApiKeyResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: ApiKeyFilterDto,
+  ): Promise<PaginatedResponseDto<ApiKeyResponseDto>> {
+    return this.apiKeysService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Buscar chave de API por ID',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da chave',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Chave encontrada com sucesso',
+    type: ApiKeyResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Chave não encontrada',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ApiKeyResponseDto> {
+    return this.apiKeysService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Atualizar chave de API',
+    description: 'Altera nome, escopos, limite de requisições ou expiração da chave',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da chave',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Chave atualizada com sucesso',
+    type: ApiKeyResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Chave não encontrada',
+  })
+  @ApiConflictResponse({
+    description: 'Chave revogada',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateApiKeyDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ApiKeyResponseDto> {
+    return this.apiKeysService.update(id, updateDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotacionar chave de API',
+    description:
+      'Gera uma nova chave, retornada apenas nesta resposta. A anterior pode continuar aceita por um período de convivência',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da chave',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Chave rotacionada com sucesso',
+    type: ApiKeySecretResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Chave não encontrada',
+  })
+  @ApiConflictResponse({
+    description: 'Chave revogada',
+  })
+  async rotate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() rotateDto: RotateApiKeyDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ApiKeySecretResponseDto> {
+    return this.apiKeysService.rotate(id, rotateDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revogar chave de API',
+    description: 'Invalida a chave imediatamente; o registro é mantido para auditoria',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da chave',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Chave revogada com sucesso',
+    type: ApiKeyResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Chave não encontrada',
+  })
+  @ApiConflictResponse({
+    description: 'Chave já revogada',
+  })
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() revokeDto: RevokeApiKeyDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ApiKeyResponseDto> {
+    return this.apiKeysService.revoke(id, revokeDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+}
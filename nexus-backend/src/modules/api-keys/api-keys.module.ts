@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { IntegrationDeliveriesController } from './integration-deliveries.controller';
+import { IntegrationDeliveriesService } from './services/integration-deliveries.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { ApiKey } from './entities/api-key.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { DeliveriesModule } from '../deliveries/deliveries.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { AuditModule } from '../audit/audit.module';
+
+/**
+ * Módulo de chaves de API
+ *
+ * Credenciais de máquina dos clientes B2B e a API de integração de entregas
+ * protegida por elas (ApiKeyGuard).
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ApiKey, Customer]),
+    DeliveriesModule,
+    RateLimitModule,
+    AuditModule,
+  ],
+  controllers: [ApiKeysController, IntegrationDeliveriesController],
+  providers: [ApiKeysService, IntegrationDeliveriesService, ApiKeyGuard],
+  exports: [ApiKeysService, ApiKeyGuard],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,329 @@
+import { Injectable, NotFoundException, ConflictException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, ILike, IsNull, Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import { RevokeApiKeyDto } from './dto/revoke-api-key.dto';
+import { ApiKeyFilterDto } from './dto/api-key-filter.dto';
+import { ApiKeyResponseDto, ApiKeySecretResponseDto } from './dto/api-key-response.dto';
+import { API_KEY } from './constants/api-key.constants';
+import { ApiKeyToken } from './utils/api-key-token.util';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { Customer } from '../customers/entities/customer.entity';
+import { CustomerStatus } from '../customers/enums/customer-status.enum';
+import type { DeliveryRequestContext } from '../deliveries/interfaces/request-context.interface';
+import { AuditLogService } from '../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../audit/enums';
+
+/**
+ * Serviço de chaves de API
+ *
+ * Emissão, rotação e revogação das credenciais de máquina dos clientes B2B
+ * e autenticação das requisições da API de integração.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+    @InjectRepository(Customer)
+    private readonly customerRepository: Repository<Customer>,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async create(
+    createDto: CreateApiKeyDto,
+    context: DeliveryRequestContext,
+  ): Promise<ApiKeySecretResponseDto> {
+    const customerExists = await this.customerRepository.exists({
+      where: { id: createDto.customer_id },
+    });
+
+    if (!customerExists) {
+      throw new NotFoundException(`Cliente com ID ${createDto.customer_id} não encontrado`);
+    }
+
+    const generated = ApiKeyToken.generate();
+
+    const saved = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        customer_id: createDto.customer_id,
+        name: createDto.name,
+        key_prefix: generated.prefix,
+        key_hash: generated.hash,
+        scopes: createDto.scopes,
+        rate_limit_per_minute:
+          createDto.rate_limit_per_minute ?? API_KEY.DEFAULT_RATE_LIMIT_PER_MINUTE,
+        expires_at: createDto.expires_at ? new Date(createDto.expires_at) : null,
+        ...(context.userId ? { created_by: context.userId } : {}),
+      }),
+    );
+
+    this.logger.log(`Chave de API ${saved.key_prefix} criada para o cliente ${saved.customer_id}`);
+    await this.audit(AuditAction.CREATE, saved, `Chave de API criada: ${saved.name}`, context);
+
+    return this.mapToSecretResponseDto(saved, generated.key);
+  }
+
+  async findAll(filterDto: ApiKeyFilterDto): Promise<PaginatedResponseDto<ApiKeyResponseDto>> {
+    const { page = 1, limit = 10, search, customer_id, include_revoked } = filterDto;
+
+    const where: FindOptionsWhere<ApiKey> = {};
+
+    if (search) {
+      where.name = ILike(`%${search}%`);
+    }
+    if (customer_id) {
+      where.customer_id = customer_id;
+    }
+    if (!include_revoked) {
+      where.revoked_at = IsNull();
+    }
+
+    const [apiKeys, total] = await this.apiKeyRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: apiKeys.map(apiKey => this.mapToResponseDto(apiKey)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<ApiKeyResponseDto> {
+    return this.mapToResponseDto(await this.findApiKeyOrFail(id));
+  }
+
+  /**
+   * Altera nome, escopos, limite ou expiração; vale a partir da próxima requisição
+   */
+  async update(
+    id: string,
+    updateDto: UpdateApiKeyDto,
+    context: DeliveryRequestContext,
+  ): Promise<ApiKeyResponseDto> {
+    const apiKey = await this.findActiveApiKeyOrFail(id);
+
+    if (updateDto.name !== undefined) {
+      apiKey.name = updateDto.name;
+    }
+    if (updateDto.scopes !== undefined) {
+      apiKey.scopes = updateDto.scopes;
+    }
+    if (updateDto.rate_limit_per_minute !== undefined) {
+      apiKey.rate_limit_per_minute = updateDto.rate_limit_per_minute;
+    }
+    if (updateDto.expires_at !== undefined) {
+      apiKey.expires_at = new Date(updateDto.expires_at);
+    }
+
+    const saved = await this.apiKeyRepository.save(apiKey);
+
+    this.logger.log(`Chave de API ${saved.key_prefix} atualizada`);
+    await this.audit(AuditAction.UPDATE, saved, `Chave de API atualizada: ${saved.name}`, context, {
+      changes: { ...updateDto },
+    });
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Gera uma nova chave para o mesmo registro
+   *
+   * Com `grace_period_minutes`, a chave anterior continua aceita pelo período
+   * informado, para que o cliente troque a credencial sem indisponibilidade.
+   */
+  async rotate(
+    id: string,
+    rotateDto: RotateApiKeyDto,
+    context: DeliveryRequestContext,
+  ): Promise<ApiKeySecretResponseDto> {
+    const apiKey = await this.findActiveApiKeyOrFail(id);
+    const graceMinutes = rotateDto.grace_period_minutes ?? 0;
+    const generated = ApiKeyToken.generate();
+
+    if (graceMinutes > 0) {
+      apiKey.previous_key_hash = apiKey.key_hash;
+      apiKey.previous_key_expires_at = new Date(Date.now() + graceMinutes * 60_000);
+    } else {
+      apiKey.previous_key_hash = null;
+      apiKey.previous_key_expires_at = null;
+    }
+
+    apiKey.key_prefix = generated.prefix;
+    apiKey.key_hash = generated.hash;
+
+    const saved = await this.apiKeyRepository.save(apiKey);
+
+    this.logger.log(`Chave de API ${id} rotacionada (${saved.key_prefix})`);
+    await this.audit(
+      AuditAction.UPDATE,
+      saved,
+      `Chave de API rotacionada: ${saved.name}`,
+      context,
+      {
+        grace_period_minutes: graceMinutes,
+      },
+    );
+
+    return this.mapToSecretResponseDto(saved, generated.key);
+  }
+
+  /**
+   * Revoga a chave (e a anterior à rotação, se ainda aceita)
+   */
+  async revoke(
+    id: string,
+    revokeDto: RevokeApiKeyDto,
+    context: DeliveryRequestContext,
+  ): Promise<ApiKeyResponseDto> {
+    const apiKey = await this.findActiveApiKeyOrFail(id);
+
+    apiKey.revoked_at = new Date();
+    apiKey.revoked_by = context.userId ?? null;
+    apiKey.revocation_reason = revokeDto.reason ?? null;
+    apiKey.previous_key_hash = null;
+    apiKey.previous_key_expires_at = null;
+
+    const saved = await this.apiKeyRepository.save(apiKey);
+
+    this.logger.log(`Chave de API ${saved.key_prefix} revogada`);
+    await this.audit(AuditAction.DELETE, saved, `Chave de API revogada: ${saved.name}`, context, {
+      reason: revokeDto.reason ?? null,
+    });
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Localiza a chave válida (não revogada, não expirada, de cliente ativo)
+   *
+   * Aceita também a chave anterior à última rotação dentro do período de convivência.
+   *
+   * @returns A chave com o cliente, ou `null` quando inválida
+   */
+  async authenticate(rawKey: string): Promise<ApiKey | null> {
+    if (!ApiKeyToken.isWellFormed(rawKey)) {
+      return null;
+    }
+
+    const hash = ApiKeyToken.hash(rawKey);
+
+    return this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .innerJoinAndSelect('apiKey.customer', 'customer')
+      .where(
+        '(apiKey.key_hash = :hash OR (apiKey.previous_key_hash = :hash AND apiKey.previous_key_expires_at > now()))',
+        { hash },
+      )
+      .andWhere('apiKey.revoked_at IS NULL')
+      .andWhere('(apiKey.expires_at IS NULL OR apiKey.expires_at > now())')
+      .andWhere('customer.status NOT IN (:...blockedStatuses)', {
+        blockedStatuses: [CustomerStatus.BLOCKED, CustomerStatus.INACTIVE],
+      })
+      .getOne();
+  }
+
+  /**
+   * Registra o último uso da chave, no máximo uma vez por intervalo
+   */
+  async recordUsage(apiKey: ApiKey, ipAddress: string | undefined): Promise<void> {
+    const now = new Date();
+
+    if (
+      apiKey.last_used_at &&
+      now.getTime() - apiKey.last_used_at.getTime() < API_KEY.LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    try {
+      await this.apiKeyRepository.update(apiKey.id, {
+        last_used_at: now,
+        last_used_ip: ipAddress ?? null,
+      });
+    } catch (error) {
+      this.logger.warn(`Erro ao registrar uso da chave de API ${apiKey.key_prefix}:`, error);
+    }
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private async findApiKeyOrFail(id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id } });
+
+    if (!apiKey) {
+      throw new NotFoundException(`Chave de API com ID ${id} não encontrada`);
+    }
+
+    return apiKey;
+  }
+
+  private async findActiveApiKeyOrFail(id: string): Promise<ApiKey> {
+    const apiKey = await this.findApiKeyOrFail(id);
+
+    if (apiKey.revoked_at) {
+      throw new ConflictException(`Chave de API ${apiKey.key_prefix} já foi revogada`);
+    }
+
+    return apiKey;
+  }
+
+  private async audit(
+    action: AuditAction,
+    apiKey: ApiKey,
+    description: string,
+    context: DeliveryRequestContext,
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action,
+        category: AuditCategory.CUSTOMER_MANAGEMENT,
+        resourceType: 'api_key',
+        resourceId: apiKey.id,
+        description,
+        ...(context.userId ? { userId: context.userId } : {}),
+        ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+        ...(context.userAgent ? { userAgent: context.userAgent } : {}),
+        metadata: {
+          customer_id: apiKey.customer_id,
+          key_prefix: apiKey.key_prefix,
+          scopes: apiKey.scopes,
+          ...metadata,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar chave de API ${apiKey.id}:`, error);
+    }
+  }
+
+  private mapToResponseDto(apiKey: ApiKey): ApiKeyResponseDto {
+    return plainToInstance(ApiKeyResponseDto, apiKey, { excludeExtraneousValues: true });
+  }
+
+  private mapToSecretResponseDto(apiKey: ApiKey, key: string): ApiKeySecretResponseDto {
+    return plainToInstance(
+      ApiKeySecretResponseDto,
+      { ...apiKey, key },
+      { excludeExtraneousValues: true },
+    );
+  }
+}
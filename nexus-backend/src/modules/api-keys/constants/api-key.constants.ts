@@ -0,0 +1,35 @@
+/**
+ * Parâmetros das chaves de API
+ */
+export const API_KEY = {
+  /** Cabeçalho HTTP que transporta a chave */
+  HEADER: 'x-api-key',
+
+  /** Prefixo fixo das chaves geradas (identifica a credencial em logs e scanners de segredo) */
+  TOKEN_PREFIX: 'nxk_',
+
+  /** Limite padrão de requisições por minuto de cada chave */
+  DEFAULT_RATE_LIMIT_PER_MINUTE: 60,
+
+  /** Janela do limite de requisições (milissegundos) */
+  RATE_LIMIT_WINDOW_MS: 60_000,
+
+  /** Intervalo mínimo entre atualizações de `last_used_at` da mesma chave (milissegundos) */
+  LAST_USED_UPDATE_INTERVAL_MS: 60_000,
+
+  /** Período máximo em que a chave anterior continua válida após a rotação (minutos) */
+  MAX_ROTATION_GRACE_MINUTES: 10_080,
+} as const;
+
+/**
+ * Escopos que podem ser concedidos a uma chave de API
+ *
+ * Subconjunto das permissões de `RolePermissions` (formato `recurso:ação`)
+ * liberado para a API de integração dos clientes.
+ */
+export const API_KEY_SCOPES = ['deliveries:create', 'deliveries:read'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Chave de metadados dos escopos exigidos por um endpoint */
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { API_KEY_SCOPES_KEY, type ApiKeyScope } from '../constants/api-key.constants';
+
+/**
+ * Escopos que a chave de API precisa ter para acessar o endpoint (todos)
+ */
+export const RequireApiKeyScopes = (...scopes: ApiKeyScope[]): ReturnType<typeof SetMetadata> =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,14 @@
+import { createParamDecorator, type ExecutionContext } from '@nestjs/common';
+import type { ApiKey } from '../entities/api-key.entity';
+import type { ApiKeyRequest } from '../interfaces/api-key-request.interface';
+
+/**
+ * Decorator para obter a chave de API da requisição
+ * Funciona apenas em rotas protegidas com ApiKeyGuard
+ */
+export const CurrentApiKey = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): ApiKey => {
+    const request = ctx.switchToHttp().getRequest<ApiKeyRequest>();
+    return request.apiKey;
+  },
+);
@@ -0,0 +1,20 @@
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+
+/**
+ * DTO para filtrar chaves de API
+ */
+export class ApiKeyFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por cliente (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  customer_id?: string;
+
+  @ApiPropertyOptional({ description: 'Incluir chaves revogadas', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  include_revoked?: boolean;
+}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { API_KEY_SCOPES, type ApiKeyScope } from '../constants/api-key.constants';
+
+/**
+ * DTO de resposta de chave de API (sem a chave)
+ */
+export class ApiKeyResponseDto {
+  @ApiProperty({ description: 'ID da chave' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID do cliente' })
+  @Expose()
+  customer_id!: string;
+
+  @ApiProperty({ description: 'Nome da chave' })
+  @Expose()
+  name!: string;
+
+  @ApiProperty({ description: 'Início da chave, para identificação', example: 'nxk_3q2-7w9A' })
+  @Expose()
+  key_prefix!: string;
+
+  @ApiProperty({ description: 'Escopos concedidos', enum: API_KEY_SCOPES, isArray: true })
+  @Expose()
+  scopes!: ApiKeyScope[];
+
+  @ApiProperty({ description: 'Limite de requisições por minuto' })
+  @Expose()
+  rate_limit_per_minute!: number;
+
+  @ApiPropertyOptional({ description: 'Data/hora de expiração' })
+  @Expose()
+  expires_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora até a qual a chave anterior à rotação é aceita' })
+  @Expose()
+  previous_key_expires_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora do último uso' })
+  @Expose()
+  last_used_at?: Date;
+
+  @ApiPropertyOptional({ description: 'IP do último uso' })
+  @Expose()
+  last_used_ip?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora da revogação' })
+  @Expose()
+  revoked_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Motivo da revogação' })
+  @Expose()
+  revocation_reason?: string;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
+
+/**
+ * DTO de resposta com a chave completa (criação e rotação)
+ */
+export class ApiKeySecretResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'Chave de API; exibida apenas nesta resposta. Enviar no cabeçalho X-API-Key',
+    example: 'nxk_3q2...',
+  })
+  @Expose()
+  key!: string;
+}
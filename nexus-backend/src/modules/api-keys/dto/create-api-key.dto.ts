@@ -0,0 +1,69 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { API_KEY, API_KEY_SCOPES, type ApiKeyScope } from '../constants/api-key.constants';
+
+/**
+ * DTO para criar chave de API
+ *
+ * A chave é gerada pelo sistema e retornada apenas na criação e na rotação.
+ */
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'ID do cliente dono da chave', format: 'uuid' })
+  @IsUUID()
+  customer_id!: string;
+
+  @ApiProperty({
+    description: 'Nome de identificação da chave',
+    example: 'Loja virtual - produção',
+  })
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({
+    description: 'Escopos concedidos',
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ['deliveries:create', 'deliveries:read'],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Selecione ao menos um escopo' })
+  @ArrayUnique()
+  @IsIn(API_KEY_SCOPES, { each: true, message: 'Escopo inválido' })
+  scopes!: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'Limite de requisições por minuto',
+    default: API_KEY.DEFAULT_RATE_LIMIT_PER_MINUTE,
+    minimum: 1,
+    maximum: 6000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(6000)
+  rate_limit_per_minute?: number;
+
+  @ApiPropertyOptional({
+    description: 'Data/hora de expiração da chave',
+    example: '2026-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expires_at?: string;
+}
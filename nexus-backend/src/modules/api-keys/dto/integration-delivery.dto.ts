@@ -0,0 +1,26 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { CreateDeliveryDto } from '../../deliveries/dto/create-delivery.dto';
+import { DeliveryFilterDto } from '../../deliveries/dto/delivery-filter.dto';
+
+/**
+ * DTO para criar entrega pela API de integração
+ *
+ * O cliente é o dono da chave de API; motorista e veículo são atribuídos pela operação.
+ */
+export class CreateIntegrationDeliveryDto extends OmitType(CreateDeliveryDto, [
+  'customer_id',
+  'driver_id',
+  'vehicle_id',
+] as const) {}
+
+/**
+ * DTO para filtrar entregas pela API de integração
+ *
+ * A listagem é sempre restrita às entregas do cliente dono da chave.
+ */
+export class IntegrationDeliveryFilterDto extends OmitType(DeliveryFilterDto, [
+  'customer_id',
+  'driver_id',
+  'vehicle_id',
+  'unassigned_only',
+] as const) {}
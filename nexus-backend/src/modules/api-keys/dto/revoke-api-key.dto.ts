@@ -0,0 +1,13 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para revogar chave de API
+ */
+export class RevokeApiKeyDto {
+  @ApiPropertyOptional({ description: 'Motivo da revogação', example: 'Chave exposta em log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
@@ -0,0 +1,23 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { API_KEY } from '../constants/api-key.constants';
+
+/**
+ * DTO para rotacionar chave de API
+ */
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({
+    description:
+      'Minutos em que a chave anterior continua aceita, para a troca sem indisponibilidade (0 = invalida imediatamente)',
+    default: 0,
+    minimum: 0,
+    maximum: API_KEY.MAX_ROTATION_GRACE_MINUTES,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(API_KEY.MAX_ROTATION_GRACE_MINUTES)
+  grace_period_minutes?: number;
+}
@@ -0,0 +1,11 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateApiKeyDto } from './create-api-key.dto';
+
+/**
+ * DTO para atualizar chave de API
+ *
+ * O cliente não muda; a chave é trocada em POST /api-keys/:id/rotate
+ */
+export class UpdateApiKeyDto extends PartialType(
+  OmitType(CreateApiKeyDto, ['customer_id'] as const),
+) {}
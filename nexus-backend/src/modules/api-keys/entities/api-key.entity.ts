@@ -0,0 +1,131 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Customer } from '../../customers/entities/customer.entity';
+import type { ApiKeyScope } from '../constants/api-key.constants';
+
+/**
+ * ApiKey Entity - Credenciais de máquina dos clientes B2B
+ *
+ * Features:
+ * - Chave armazenada apenas como hash SHA-256 (exibida uma única vez)
+ * - Escopos no vocabulário de permissões `recurso:ação`
+ * - Limite de requisições por chave
+ * - Rotação com período de convivência da chave anterior e revogação
+ */
+@Entity('api_keys')
+@Index(['customer_id'])
+@Index(['key_hash'], { unique: true })
+@Index(['previous_key_hash'])
+export class ApiKey extends BaseEntity {
+  // Relacionamento com Cliente
+  @ManyToOne(() => Customer, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customer_id' })
+  customer!: Customer;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do cliente dono da chave',
+  })
+  customer_id!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    comment: 'Nome de identificação da chave',
+  })
+  name!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    comment: 'Início da chave, exibido para identificação',
+  })
+  key_prefix!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    comment: 'Hash SHA-256 da chave',
+  })
+  key_hash!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    comment: 'Hash SHA-256 da chave anterior à última rotação',
+  })
+  previous_key_hash?: string | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora até a qual a chave anterior é aceita',
+  })
+  previous_key_expires_at?: Date | null;
+
+  @Column({
+    type: 'text',
+    array: true,
+    comment: 'Escopos concedidos',
+  })
+  scopes!: ApiKeyScope[];
+
+  @Column({
+    type: 'integer',
+    default: 60,
+    comment: 'Limite de requisições por minuto',
+  })
+  rate_limit_per_minute!: number;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora de expiração da chave',
+  })
+  expires_at?: Date | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do último uso',
+  })
+  last_used_at?: Date | null;
+
+  @Column({
+    type: 'varchar',
+    length: 45,
+    nullable: true,
+    comment: 'IP do último uso',
+  })
+  last_used_ip?: string | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da revogação',
+  })
+  revoked_at?: Date | null;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que revogou a chave',
+  })
+  revoked_by?: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Motivo da revogação',
+  })
+  revocation_reason?: string | null;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que criou a chave',
+  })
+  created_by?: string;
+}
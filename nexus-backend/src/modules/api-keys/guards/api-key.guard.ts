@@ -0,0 +1,91 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { ApiKeysService } from '../api-keys.service';
+import { API_KEY, API_KEY_SCOPES_KEY, type ApiKeyScope } from '../constants/api-key.constants';
+import type { ApiKeyRequest } from '../interfaces/api-key-request.interface';
+import { RateLimitService } from '../../rate-limit/services/rate-limit.service';
+
+/**
+ * Api Key Guard
+ *
+ * Autentica a requisição pelo cabeçalho X-API-Key, exige os escopos declarados
+ * com @RequireApiKeyScopes e aplica o limite de requisições da própria chave.
+ * A chave autenticada fica em `request.apiKey`.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ApiKeyRequest>();
+    const rawKey = request.headers[API_KEY.HEADER];
+
+    if (typeof rawKey !== 'string' || !rawKey) {
+      throw new UnauthorizedException('Chave de API não fornecida');
+    }
+
+    const apiKey = await this.apiKeysService.authenticate(rawKey);
+
+    if (!apiKey) {
+      this.logger.warn(`Chave de API inválida, expirada ou revogada (IP ${request.ip ?? '-'})`);
+      throw new UnauthorizedException('Chave de API inválida, expirada ou revogada');
+    }
+
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[] | undefined>(API_KEY_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const missingScopes = requiredScopes.filter(scope => !apiKey.scopes.includes(scope));
+
+    if (missingScopes.length > 0) {
+      throw new ForbiddenException(`Chave de API sem o escopo ${missingScopes.join(', ')}`);
+    }
+
+    const result = await this.rateLimitService.checkLimit(
+      `rate_limit:api_key:${apiKey.id}`,
+      apiKey.rate_limit_per_minute,
+      API_KEY.RATE_LIMIT_WINDOW_MS,
+    );
+
+    const response = context.switchToHttp().getResponse<Response>();
+    response.setHeader('X-RateLimit-Limit', result.limit.toString());
+    response.setHeader('X-RateLimit-Remaining', result.remaining.toString());
+    response.setHeader('X-RateLimit-Reset', Math.ceil(result.resetTime / 1000).toString());
+
+    if (!result.allowed) {
+      this.logger.warn(`Limite de requisições excedido pela chave de API ${apiKey.key_prefix}`);
+
+      throw new HttpException(
+        {
+          message: 'Rate limit exceeded',
+          error: 'Too Many Requests',
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          retryAfter: Math.ceil((result.resetTime - Date.now()) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    request.apiKey = apiKey;
+    void this.apiKeysService.recordUsage(apiKey, request.ip);
+
+    return true;
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiSecurity,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiTooManyRequestsResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { IntegrationDeliveriesService } from './services/integration-deliveries.service';
+import {
+  CreateIntegrationDeliveryDto,
+  IntegrationDeliveryFilterDto,
+} from './dto/integration-delivery.dto';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireApiKeyScopes } from './decorators/api-key-scopes.decorator';
+import { CurrentApiKey } from './decorators/current-api-key.decorator';
+import { ApiKey } from './entities/api-key.entity';
+import type { ApiKeyRequest } from './interfaces/api-key-request.interface';
+import { DeliveryResponseDto } from '../deliveries/dto/delivery-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+
+/**
+ * Controller da API de integração de entregas
+ *
+ * Endpoints para os sistemas dos clientes (e-commerce, ERP), autenticados pela
+ * chave de API no cabeçalho X-API-Key. Cada chave enxerga apenas as entregas
+ * do próprio cliente.
+ */
+@ApiTags('Integration')
+@Controller('integration/deliveries')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@ApiUnauthorizedResponse({
+  description: 'Chave de API ausente, inválida, expirada ou revogada',
+})
+@ApiForbiddenResponse({
+  description: 'Chave de API sem o escopo necessário',
+})
+@ApiTooManyRequestsResponse({
+  description: 'Limite de requisições da chave excedido',
+})
+export class IntegrationDeliveriesController {
+  constructor(private readonly integrationDeliveriesService: IntegrationDeliveriesService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireApiKeyScopes('deliveries:create')
+  @ApiOperation({
+    summary: 'Criar entrega',
+    description: 'Cria uma entrega para o cliente dono da chave (escopo deliveries:create)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Entrega criada com sucesso',
+    type: DeliveryResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos fornecidos',
+  })
+  async create(
+    @CurrentApiKey() apiKey: ApiKey,
+    @Body() createDto: CreateIntegrationDeliveryDto,
+    @Req() req: ApiKeyRequest,
+  ): Promise<DeliveryResponseDto> {
+    return this.integrationDeliveriesService.create(apiKey, createDto, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Get()
+  @RequireApiKeyScopes('deliveries:read')
+  @ApiOperation({
+    summary: 'Listar entregas',
+    description: 'Lista as entregas do cliente dono da chave (escopo deliveries:read)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de entregas retornada com sucesso',
+    type: PaginatedResponseDto<DeliveryResponseDto>,
+  })
+  async findAll(
+    @CurrentApiKey() apiKey: ApiKey,
+    @Query() filterDto: IntegrationDeliveryFilterDto,
+  ): Promise<PaginatedResponseDto<DeliveryResponseDto>> {
+    return this.integrationDeliveriesService.findAll(apiKey, filterDto);
+  }
+
+  @Get(':id')
+  @RequireApiKeyScopes('deliveries:read')
+  @ApiOperation({
+    summary: 'Buscar entrega por ID',
+    description: 'Retorna uma entrega do cliente dono da chave (escopo deliveries:read)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entrega encontrada com sucesso',
+    type: DeliveryResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Entrega não encontrada',
+  })
+  async findOne(
+    @CurrentApiKey() apiKey: ApiKey,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<DeliveryResponseDto> {
+    return this.integrationDeliveriesService.findOne(apiKey, id);
+  }
+}
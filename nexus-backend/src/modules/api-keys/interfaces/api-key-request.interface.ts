@@ -0,0 +1,9 @@
+import type { Request } from 'express';
+import type { ApiKey } from '../entities/api-key.entity';
+
+/**
+ * Request autenticado por chave de API
+ */
+export interface ApiKeyRequest extends Request {
+  apiKey: ApiKey;
+}
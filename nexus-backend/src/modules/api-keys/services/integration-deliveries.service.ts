@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { ApiKey } from '../entities/api-key.entity';
+import {
+  CreateIntegrationDeliveryDto,
+  IntegrationDeliveryFilterDto,
+} from '../dto/integration-delivery.dto';
+import { DeliveriesService } from '../../deliveries/deliveries.service';
+import { DeliveryResponseDto } from '../../deliveries/dto/delivery-response.dto';
+import type { DeliveryRequestContext } from '../../deliveries/interfaces/request-context.interface';
+import { PaginatedResponseDto } from '../../../common/dto/paginated-response.dto';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+import { DataScopes } from '../../auth/utils/data-scope.util';
+
+/**
+ * Serviço da API de integração de entregas
+ *
+ * Toda operação é restrita ao cliente dono da chave de API. As entregas criadas
+ * registram a chave como responsável no histórico de status (`changed_by_type: 'API'`).
+ */
+@Injectable()
+export class IntegrationDeliveriesService {
+  private readonly logger = new Logger(IntegrationDeliveriesService.name);
+
+  constructor(
+    private readonly deliveriesService: DeliveriesService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async create(
+    apiKey: ApiKey,
+    createDto: CreateIntegrationDeliveryDto,
+    context: DeliveryRequestContext,
+  ): Promise<DeliveryResponseDto> {
+    const delivery = await this.deliveriesService.create(
+      { ...createDto, customer_id: apiKey.customer_id },
+      {
+        type: 'API',
+        name: apiKey.name,
+        apiKeyId: apiKey.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    );
+
+    this.logger.log(
+      `Entrega ${delivery.tracking_code} criada pela chave de API ${apiKey.key_prefix}`,
+    );
+
+    try {
+      await this.auditLogService.createLog({
+        action: AuditAction.CREATE,
+        category: AuditCategory.DELIVERY_MANAGEMENT,
+        resourceType: 'delivery',
+        resourceId: delivery.id,
+        description: `Entrega ${delivery.tracking_code} criada pela API de integração`,
+        ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+        ...(context.userAgent ? { userAgent: context.userAgent } : {}),
+        metadata: {
+          changed_by_type: 'API',
+          api_key_id: apiKey.id,
+          api_key_prefix: apiKey.key_prefix,
+          customer_id: apiKey.customer_id,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar entrega ${delivery.id} criada via API:`, error);
+    }
+
+    return delivery;
+  }
+
+  async findAll(
+    apiKey: ApiKey,
+    filterDto: IntegrationDeliveryFilterDto,
+  ): Promise<PaginatedResponseDto<DeliveryResponseDto>> {
+    return this.deliveriesService.findAll(filterDto, DataScopes.forCustomer(apiKey.customer_id));
+  }
+
+  async findOne(apiKey: ApiKey, id: string): Promise<DeliveryResponseDto> {
+    return this.deliveriesService.findOne(id, DataScopes.forCustomer(apiKey.customer_id));
+  }
+}
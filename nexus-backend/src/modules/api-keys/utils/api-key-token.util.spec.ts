@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { ApiKeyToken } from './api-key-token.util';
+
+describe('ApiKeyToken', () => {
+  it('should generate prefixed keys with their display prefix and SHA-256 hash', () => {
+    const generated = ApiKeyToken.generate();
+
+    expect(generated.key).toMatch(/^nxk_[A-Za-z0-9_-]{43}$/);
+    expect(generated.prefix).toHaveLength(12);
+    expect(generated.key.startsWith(generated.prefix)).toBe(true);
+    expect(generated.hash).toBe(createHash('sha256').update(generated.key).digest('hex'));
+  });
+
+  it('should generate distinct keys', () => {
+    const first = ApiKeyToken.generate();
+    const second = ApiKeyToken.generate();
+
+    expect(second.key).not.toBe(first.key);
+    expect(second.hash).not.toBe(first.hash);
+  });
+
+  it('should hash deterministically', () => {
+    const { key, hash } = ApiKeyToken.generate();
+
+    expect(ApiKeyToken.hash(key)).toBe(hash);
+  });
+
+  it('should accept only well-formed keys', () => {
+    expect(ApiKeyToken.isWellFormed(ApiKeyToken.generate().key)).toBe(true);
+    expect(ApiKeyToken.isWellFormed('nxk_short')).toBe(false);
+    expect(ApiKeyToken.isWellFormed(`abc_${'a'.repeat(43)}`)).toBe(false);
+    expect(ApiKeyToken.isWellFormed(`nxk_${'a'.repeat(42)}!`)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Api Key Token
+ *
+ * Geração e hash das chaves de API.
+ *
+ * A chave tem o formato `nxk_<43 caracteres base64url>` (256 bits aleatórios).
+ * Apenas o hash SHA-256 é persistido: por ter alta entropia, a chave não precisa
+ * de um hash lento como o das senhas e pode ser localizada pelo próprio hash.
+ * O início da chave (`key_prefix`) é guardado em claro para identificação.
+ *
+ * @module ApiKeys/Utils
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { API_KEY } from '../constants/api-key.constants';
+
+export interface GeneratedApiKey {
+  /** Chave completa, exibida uma única vez */
+  key: string;
+  /** Início da chave para identificação */
+  prefix: string;
+  /** Hash SHA-256 (hex) persistido */
+  hash: string;
+}
+
+const KEY_PATTERN = /^nxk_[A-Za-z0-9_-]{43}$/;
+const PREFIX_LENGTH = API_KEY.TOKEN_PREFIX.length + 8;
+
+export class ApiKeyToken {
+  /**
+   * Gera uma nova chave com seu prefixo e hash
+   */
+  static generate(): GeneratedApiKey {
+    const key = `${API_KEY.TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    return {
+      key,
+      prefix: key.slice(0, PREFIX_LENGTH),
+      hash: this.hash(key),
+    };
+  }
+
+  static hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Verifica o formato antes de consultar o banco
+   */
+  static isWellFormed(key: string): boolean {
+    return KEY_PATTERN.test(key);
+  }
+}
@@ -113,4 +113,46 @@ export enum AuditAction {
    * - Token de acesso inválido
    */
   ACCESS_DENIED = 'ACCESS_DENIED',
+
+  /**
+   * Ativação da autenticação em dois fatores
+   *
+   * Registrado quando o usuário confirma o cadastro do autenticador
+   *
+   * @example
+   * - Ativação voluntária pelo perfil
+   * - Cadastro obrigatório no primeiro login de admin ou gestor
+   */
+  TWO_FACTOR_ENABLE = 'TWO_FACTOR_ENABLE',
+
+  /**
+   * Desativação da autenticação em dois fatores
+   *
+   * Registrado quando o usuário remove o autenticador da conta
+   */
+  TWO_FACTOR_DISABLE = 'TWO_FACTOR_DISABLE',
+
+  /**
+   * Código de dois fatores inválido
+   *
+   * Registrado em tentativas com código TOTP ou de recuperação inválido
+   *
+   * @example
+   * - Código incorreto no login
+   * - Código reutilizado
+   * - Código de recuperação já usado
+   */
+  FAILED_TWO_FACTOR = 'FAILED_TWO_FACTOR',
+
+  /**
+   * Encerramento de sessão
+   *
+   * Registrado quando uma sessão de login é encerrada antes do logout
+   *
+   * @example
+   * - Usuário encerra a sessão de outro dispositivo
+   * - Admin encerra a sessão de um dispositivo roubado
+   * - Reutilização de refresh token detectada
+   */
+  SESSION_REVOKE = 'SESSION_REVOKE',
 }
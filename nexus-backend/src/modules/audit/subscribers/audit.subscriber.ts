@@ -306,6 +306,10 @@ export class AuditSubscriber implements EntitySubscriberInterface<BaseEntity> {
       [AuditAction.PASSWORD_CHANGE]: 'alterou senha',
       [AuditAction.FAILED_LOGIN]: 'falhou ao fazer login',
       [AuditAction.ACCESS_DENIED]: 'teve acesso negado',
+      [AuditAction.TWO_FACTOR_ENABLE]: 'ativou a autenticação em dois fatores',
+      [AuditAction.TWO_FACTOR_DISABLE]: 'desativou a autenticação em dois fatores',
+      [AuditAction.FAILED_TWO_FACTOR]: 'falhou na autenticação em dois fatores',
+      [AuditAction.SESSION_REVOKE]: 'encerrou uma sessão',
     };
 
     return `${actionMap[action]} ${entityName} com ID ${entityId}`;
@@ -7,15 +7,33 @@ import {
   ApiBadRequestResponse,
   ApiUnauthorizedResponse,
   ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import type { Request } from 'express';
 import { AuthService } from './auth.service';
 import { TokenBlacklistService } from './services/token-blacklist.service';
+import { AccountService } from './services/account.service';
+import { SessionsService } from './services/sessions.service';
 import { LoginDto } from './dto/login.dto';
 import { LoginResponseDto } from './dto/login-response.dto';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-response.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RegisterDto } from './dto/register.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { EmailRequestDto } from './dto/email-request.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { Role } from './enums/role.enum';
+import { SessionRevokeReason } from './enums/session-revoke-reason.enum';
 import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
 import { UserResponseDto } from './dto/user-response.dto';
 
@@ -26,18 +44,27 @@ export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly tokenBlacklistService: TokenBlacklistService,
+    private readonly accountService: AccountService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
+  @ApiExtraModels(LoginResponseDto, TwoFactorChallengeResponseDto)
   @ApiOperation({
     summary: 'Autenticar usuário',
-    description: 'Autentica um usuário com email e senha, retornando tokens JWT',
+    description:
+      'Autentica um usuário com email e senha, retornando tokens JWT. Contas com autenticação em dois fatores (obrigatória para admin e gestor) recebem um desafio a ser concluído em /auth/2fa',
   })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Login realizado com sucesso',
-    type: LoginResponseDto,
+    description: 'Login realizado com sucesso ou desafio de dois fatores emitido',
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(LoginResponseDto) },
+        { $ref: getSchemaPath(TwoFactorChallengeResponseDto) },
+      ],
+    },
   })
   @ApiBadRequestResponse({
     description: 'Dados de entrada inválidos (email mal formatado, senha ausente, etc)',
@@ -69,7 +96,10 @@ export class AuthController {
       },
     },
   })
-  async login(@Body() loginDto: LoginDto, @Req() request: Request): Promise<LoginResponseDto> {
+  async login(
+    @Body() loginDto: LoginDto,
+    @Req() request: Request,
+  ): Promise<LoginResponseDto | TwoFactorChallengeResponseDto> {
     const ipAddress = this.getClientIp(request);
     const userAgent = request.get('User-Agent');
 
@@ -161,7 +191,8 @@ export class AuthController {
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Realizar logout',
-    description: 'Invalida o token JWT do usuário adicionando-o à blacklist',
+    description:
+      'Invalida o token JWT do usuário adicionando-o à blacklist e encerra a sessão, invalidando também o refresh token',
   })
   @ApiResponse({
     status: HttpStatus.NO_CONTENT,
@@ -188,11 +219,214 @@ export class AuthController {
 
     await this.tokenBlacklistService.addToBlacklist(token);
 
+    const sessionId = this.sessionsService.getSessionId(token);
+    if (sessionId) {
+      await this.sessionsService.revoke(req.user.id, sessionId, SessionRevokeReason.LOGOUT);
+    }
+
     if (req.user) {
       await this.authService.logLogout(req.user.id, req.user.email, ipAddress, userAgent);
     }
   }
 
+  @Post('register')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Registrar cliente',
+    description:
+      'Cria uma conta com o perfil cliente e envia o link de verificação do email. O login só é liberado após a verificação',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Conta criada, aguardando verificação do email',
+    type: UserResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos, senhas divergentes ou senha fraca',
+  })
+  @ApiConflictResponse({
+    description: 'Email já cadastrado',
+  })
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Req() request: Request,
+  ): Promise<UserResponseDto> {
+    return this.accountService.register(registerDto, this.getRequestContext(request));
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Verificar email',
+    description: 'Confirma o email com o token de uso único enviado no link de verificação',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Email verificado',
+  })
+  @ApiBadRequestResponse({
+    description: 'Token inválido, expirado ou já utilizado',
+  })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+    @Req() request: Request,
+  ): Promise<void> {
+    await this.accountService.verifyEmail(verifyEmailDto.token, this.getRequestContext(request));
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Reenviar verificação de email',
+    description:
+      'Envia um novo link de verificação se a conta existir e ainda não estiver verificada. A resposta não indica se a conta existe',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Solicitação recebida',
+  })
+  async resendVerification(@Body() emailRequestDto: EmailRequestDto): Promise<void> {
+    await this.accountService.resendVerification(emailRequestDto.email);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Recuperar senha',
+    description:
+      'Envia o link de redefinição de senha (válido por 1 hora) se a conta existir. A resposta não indica se a conta existe',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Solicitação recebida',
+  })
+  async forgotPassword(
+    @Body() emailRequestDto: EmailRequestDto,
+    @Req() request: Request,
+  ): Promise<void> {
+    await this.accountService.forgotPassword(
+      emailRequestDto.email,
+      this.getRequestContext(request),
+    );
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Redefinir senha',
+    description:
+      'Define uma nova senha com o token de recuperação e invalida todas as sessões do usuário',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Senha redefinida',
+  })
+  @ApiBadRequestResponse({
+    description: 'Token inválido, expirado ou já utilizado, senhas divergentes ou senha fraca',
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Req() request: Request,
+  ): Promise<void> {
+    await this.accountService.resetPassword(resetPasswordDto, this.getRequestContext(request));
+  }
+
+  @Post('change-password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Alterar senha',
+    description:
+      'Altera a senha do usuário autenticado e invalida as demais sessões. Retorna novos tokens para a sessão atual',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Senha alterada',
+    type: LoginResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Senha atual incorreta, senhas divergentes ou senha fraca',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token inválido ou ausente',
+  })
+  async changePassword(
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<LoginResponseDto> {
+    const ipAddress = this.getClientIp(request);
+    const userAgent = request.get('User-Agent');
+
+    return this.authService.changePassword(
+      request.user.id,
+      changePasswordDto,
+      ipAddress,
+      userAgent,
+    );
+  }
+
+  @Post('invitations')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Convidar usuário',
+    description:
+      'Cria um usuário da equipe ou motorista e envia o convite (válido por 7 dias) para que ele defina a senha no primeiro acesso',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Convite enviado',
+    type: UserResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos ou motorista ausente para o role motorista',
+  })
+  @ApiForbiddenResponse({
+    description: 'Apenas administradores podem convidar usuários',
+  })
+  @ApiNotFoundResponse({
+    description: 'Motorista não encontrado',
+  })
+  @ApiConflictResponse({
+    description: 'Email já cadastrado ou motorista já vinculado a outro usuário',
+  })
+  async invite(
+    @Body() createInvitationDto: CreateInvitationDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<UserResponseDto> {
+    return this.accountService.invite(
+      createInvitationDto,
+      request.user,
+      this.getRequestContext(request),
+    );
+  }
+
+  @Post('accept-invitation')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Aceitar convite',
+    description: 'Define a senha do usuário convidado com o token do convite e libera o login',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Convite aceito',
+  })
+  @ApiBadRequestResponse({
+    description: 'Token inválido, expirado ou já utilizado, senhas divergentes ou senha fraca',
+  })
+  async acceptInvitation(
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+    @Req() request: Request,
+  ): Promise<void> {
+    await this.accountService.acceptInvitation(
+      acceptInvitationDto,
+      this.getRequestContext(request),
+    );
+  }
+
   /**
    * Extrai o IP real do cliente considerando proxies
    */
@@ -204,4 +438,16 @@ export class AuthController {
       'unknown'
     );
   }
+
+  /**
+   * IP e User-Agent registrados na auditoria
+   */
+  private getRequestContext(request: Request): { ipAddress: string; userAgent?: string } {
+    const userAgent = request.get('User-Agent');
+
+    return {
+      ipAddress: this.getClientIp(request),
+      ...(userAgent && { userAgent }),
+    };
+  }
 }
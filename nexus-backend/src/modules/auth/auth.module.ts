@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -6,20 +6,34 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { TwoFactorController } from './two-factor.controller';
+import { SessionsController } from './sessions.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { UsersModule } from '../users/users.module';
 import { RedisModule } from '../redis/redis.module';
 import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
 import { Role } from './entities/role.entity';
 import { Permission } from './entities/permission.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { UserSession } from './entities/user-session.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { Driver } from '../drivers/entities/driver.entity';
 import { TokenBlacklistService } from './services/token-blacklist.service';
+import { AccountTokensService } from './services/account-tokens.service';
+import { AccountService } from './services/account.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { SessionsService } from './services/sessions.service';
+import { PermissionsService } from './services/permissions.service';
+import { PermissionsGuard } from './guards/permissions.guard';
 
 @Module({
   imports: [
     // Módulos externos
-    UsersModule,
+    forwardRef(() => UsersModule),
     RedisModule,
     AuditModule,
+    MailModule,
     PassportModule,
     ConfigModule,
 
@@ -41,8 +55,8 @@ import { TokenBlacklistService } from './services/token-blacklist.service';
       inject: [ConfigService],
     }),
 
-    // TypeORM para as entidades do Auth
-    TypeOrmModule.forFeature([Role, Permission]),
+    // TypeORM para as entidades do Auth (clientes e motoristas para os vínculos de usuário)
+    TypeOrmModule.forFeature([Role, Permission, AccountToken, UserSession, Customer, Driver]),
 
     // ThrottlerModule para rate limiting
     ThrottlerModule.forRootAsync({
@@ -56,8 +70,18 @@ import { TokenBlacklistService } from './services/token-blacklist.service';
       inject: [ConfigService],
     }),
   ],
-  providers: [AuthService, JwtStrategy, TokenBlacklistService],
-  controllers: [AuthController],
-  exports: [AuthService, JwtModule, TokenBlacklistService],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    TokenBlacklistService,
+    AccountTokensService,
+    AccountService,
+    TwoFactorService,
+    SessionsService,
+    PermissionsService,
+    PermissionsGuard,
+  ],
+  controllers: [AuthController, TwoFactorController, SessionsController],
+  exports: [AuthService, JwtModule, TokenBlacklistService, PermissionsService, PermissionsGuard],
 })
 export class AuthModule {}
@@ -0,0 +1,209 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { UserStatus } from '../users/enums/user-status.enum';
+import { AuditLogService } from '../audit/audit-log.service';
+import { TokenBlacklistService } from './services/token-blacklist.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { SessionsService } from './services/sessions.service';
+import { LoginResponseDto } from './dto/login-response.dto';
+import { hashPassword } from './utils/password.util';
+import type { Role } from './entities/role.entity';
+import { Role as RoleEnum } from './enums/role.enum';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const password = 'Senha@Forte123';
+  let passwordHash: string;
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    Object.assign(new User(), {
+      id: 'user-1',
+      email: 'operador@example.com',
+      first_name: 'Maria',
+      last_name: 'Souza',
+      password_hash: passwordHash,
+      status: UserStatus.ACTIVE,
+      email_verified: true,
+      two_factor_enabled: false,
+      roles: [],
+      ...overrides,
+    });
+
+  const mockUsersService = {
+    findByEmail: jest.fn(),
+    findOne: jest.fn(),
+    updateLastLogin: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn().mockResolvedValue('signed-token'),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'JWT_SECRET' ? 'test-secret' : defaultValue,
+    ),
+  };
+
+  const mockAuditLogService = {
+    createLog: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    isRequired: jest.fn().mockReturnValue(false),
+    createChallenge: jest.fn(),
+    resolveChallenge: jest.fn(),
+    registerAttempt: jest.fn(),
+    verifyLogin: jest.fn(),
+    completeChallenge: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    create: jest.fn().mockResolvedValue({ id: 'session-1', refresh_token_id: 'refresh-1' }),
+  };
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword(password, 4);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: AuditLogService, useValue: mockAuditLogService },
+        { provide: TokenBlacklistService, useValue: {} },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+        { provide: SessionsService, useValue: mockSessionsService },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('login', () => {
+    it('should log in a user created before email verification existed', async () => {
+      // Após a migração, usuários existentes têm o email marcado como verificado
+      mockUsersService.findByEmail.mockResolvedValue(buildUser());
+
+      const response = await service.login({ email: 'operador@example.com', password });
+
+      expect(response).toBeInstanceOf(LoginResponseDto);
+      expect(response).toEqual(
+        expect.objectContaining({ access_token: 'signed-token', refresh_token: 'signed-token' }),
+      );
+      expect(mockSessionsService.create).toHaveBeenCalledWith('user-1', {});
+      expect(mockUsersService.updateLastLogin).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should reject a user whose email is not verified', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(buildUser({ email_verified: false }));
+
+      await expect(
+        service.login({ email: 'operador@example.com', password }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid credentials', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(buildUser());
+
+      await expect(
+        service.login({ email: 'operador@example.com', password: 'outra-senha' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('two-factor login', () => {
+    const gestor = (overrides: Partial<User> = {}): User =>
+      buildUser({
+        roles: [{ name: RoleEnum.GESTOR, is_active: true } as Role],
+        ...overrides,
+      });
+
+    it('should challenge a gestor without an authenticator instead of issuing tokens', async () => {
+      const challenge = {
+        two_factor_required: true,
+        setup_required: true,
+        challenge_token: 'challenge-token',
+        expires_in: 300,
+      };
+      mockUsersService.findByEmail.mockResolvedValue(gestor());
+      mockTwoFactorService.isRequired.mockReturnValueOnce(true);
+      mockTwoFactorService.createChallenge.mockResolvedValue(challenge);
+
+      const response = await service.login({ email: 'operador@example.com', password });
+
+      expect(response).toEqual(challenge);
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reserve an attempt, complete the challenge and then issue the tokens', async () => {
+      mockTwoFactorService.resolveChallenge.mockResolvedValue({
+        userId: 'user-1',
+        challengeId: 'challenge-1',
+      });
+      mockUsersService.findOne.mockResolvedValue(gestor({ two_factor_enabled: true }));
+      mockTwoFactorService.verifyLogin.mockResolvedValue('recovery_code');
+
+      const response = await service.verifyTwoFactor({
+        challenge_token: 'challenge-token',
+        recovery_code: 'ABCD-EFGH-IJKL',
+      });
+
+      expect(response).toBeInstanceOf(LoginResponseDto);
+      expect(mockTwoFactorService.registerAttempt).toHaveBeenCalledWith('challenge-1');
+      expect(mockTwoFactorService.registerAttempt.mock.invocationCallOrder[0]).toBeLessThan(
+        mockTwoFactorService.verifyLogin.mock.invocationCallOrder[0] ?? 0,
+      );
+      expect(mockTwoFactorService.completeChallenge).toHaveBeenCalledWith('challenge-1');
+      expect(mockSessionsService.create).toHaveBeenCalledWith('user-1', {});
+    });
+
+    it('should reject an invalid code without completing the challenge', async () => {
+      mockTwoFactorService.resolveChallenge.mockResolvedValue({
+        userId: 'user-1',
+        challengeId: 'challenge-1',
+      });
+      mockUsersService.findOne.mockResolvedValue(gestor({ two_factor_enabled: true }));
+      mockTwoFactorService.verifyLogin.mockResolvedValue(null);
+
+      await expect(
+        service.verifyTwoFactor({ challenge_token: 'challenge-token', code: '000000' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(mockTwoFactorService.completeChallenge).not.toHaveBeenCalled();
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not verify the code once the attempts are exhausted', async () => {
+      mockTwoFactorService.resolveChallenge.mockResolvedValue({
+        userId: 'user-1',
+        challengeId: 'challenge-1',
+      });
+      mockUsersService.findOne.mockResolvedValue(gestor({ two_factor_enabled: true }));
+      mockTwoFactorService.registerAttempt.mockRejectedValueOnce(
+        new UnauthorizedException('Desafio de dois fatores inválido ou expirado'),
+      );
+
+      await expect(
+        service.verifyTwoFactor({ challenge_token: 'challenge-token', code: '123456' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+
+      expect(mockTwoFactorService.verifyLogin).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,13 +1,31 @@
-import { Injectable, Logger, UnauthorizedException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
 import { LoginDto } from './dto/login.dto';
 import { LoginResponseDto } from './dto/login-response.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { EnableTwoFactorChallengeDto, VerifyTwoFactorDto } from './dto/two-factor.dto';
+import {
+  TwoFactorChallengeResponseDto,
+  TwoFactorLoginResponseDto,
+  TwoFactorSetupResponseDto,
+} from './dto/two-factor-response.dto';
 import { UserResponseDto } from './dto/user-response.dto';
 import { User } from '../users/entities/user.entity';
 import { AuditLogService } from '../audit/audit-log.service';
 import { AuditAction, AuditCategory } from '../audit/enums';
+import { TokenBlacklistService } from './services/token-blacklist.service';
+import { TwoFactorService, type TwoFactorMethod } from './services/two-factor.service';
+import { SessionsService } from './services/sessions.service';
+import { UserSession } from './entities/user-session.entity';
+import { SessionRevokeReason } from './enums/session-revoke-reason.enum';
 import { generateToken, verifyToken, generateUserPayload } from './utils/token.util';
 import { hashPassword, comparePassword } from './utils/password.util';
 
@@ -20,16 +38,23 @@ export class AuthService {
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
     private readonly auditLogService: AuditLogService,
+    private readonly tokenBlacklistService: TokenBlacklistService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   /**
    * Autentica usuário com email e senha
+   *
+   * Contas com 2FA ativo (ou exigido pelo perfil) recebem um desafio de dois
+   * fatores em vez dos tokens, concluído em verifyTwoFactor ou, se o cadastro
+   * do autenticador ainda for necessário, em enableTwoFactorFromChallenge.
    */
   async login(
     loginDto: LoginDto,
     ipAddress?: string,
     userAgent?: string,
-  ): Promise<LoginResponseDto> {
+  ): Promise<LoginResponseDto | TwoFactorChallengeResponseDto> {
     try {
       const user = await this.validateUser(loginDto.email, loginDto.password);
 
@@ -48,7 +73,15 @@ export class AuthService {
         throw new UnauthorizedException('Email não verificado');
       }
 
-      const tokens = await this.generateTokens(user);
+      if (user.two_factor_enabled || this.twoFactorService.isRequired(user)) {
+        return await this.twoFactorService.createChallenge(user);
+      }
+
+      const session = await this.sessionsService.create(user.id, {
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+      });
+      const tokens = await this.generateTokens(user, session);
 
       // Atualizar último login
       await this.usersService.updateLastLogin(user.id);
@@ -102,14 +135,23 @@ export class AuthService {
   }
 
   /**
-   * Gera tokens de acesso e refresh
+   * Gera tokens de acesso e refresh da sessão
+   *
+   * Ambos carregam o ID da sessão (`sid`); o refresh token carrega ainda o
+   * `jti` vigente da sessão, conferido na renovação.
    */
-  private async generateTokens(user: User): Promise<{ accessToken: string; refreshToken: string }> {
-    const basePayload = generateUserPayload({
-      id: user.id,
-      email: user.email,
-      roles: user.roles?.map(role => role.name) || [],
-    });
+  private async generateTokens(
+    user: User,
+    session: UserSession,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const basePayload = generateUserPayload(
+      {
+        id: user.id,
+        email: user.email,
+        roles: user.roles?.map(role => role.name) || [],
+      },
+      { sid: session.id },
+    );
 
     const accessToken = await generateToken(
       this.jwtService,
@@ -121,7 +163,7 @@ export class AuthService {
     const refreshToken = await generateToken(
       this.jwtService,
       this.configService,
-      { ...basePayload, type: 'refresh' as const },
+      { ...basePayload, type: 'refresh' as const, jti: session.refresh_token_id },
       'refresh',
     );
 
@@ -171,6 +213,9 @@ export class AuthService {
 
   /**
    * Renova access token usando refresh token
+   *
+   * O refresh token é rotacionado: o apresentado deixa de valer, e reapresentá-lo
+   * encerra a sessão.
    */
   async refreshToken(
     refreshToken: string,
@@ -180,10 +225,14 @@ export class AuthService {
     try {
       const payload = await verifyToken(this.jwtService, this.configService, refreshToken);
 
-      if (!payload || payload.type !== 'refresh') {
+      if (!payload || payload.type !== 'refresh' || !payload.sid || !payload.jti) {
         throw new UnauthorizedException('Token inválido');
       }
 
+      if (await this.tokenBlacklistService.areUserTokensBlacklisted(payload.sub, payload.iat)) {
+        throw new UnauthorizedException('Tokens do usuário foram invalidados');
+      }
+
       const user = await this.usersService.findOne(payload.sub);
 
       if (!user?.is_active) {
@@ -194,7 +243,15 @@ export class AuthService {
         throw new UnauthorizedException('Email não verificado');
       }
 
-      const tokens = await this.generateTokens(user);
+      if (this.twoFactorService.isRequired(user) && !user.two_factor_enabled) {
+        throw new UnauthorizedException('Autenticação em dois fatores obrigatória');
+      }
+
+      const session = await this.sessionsService.rotate(user, payload.sid, payload.jti, {
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+      });
+      const tokens = await this.generateTokens(user, session);
 
       // Log refresh token
       await this.logTokenRefresh(user, ipAddress, userAgent);
@@ -206,6 +263,168 @@ export class AuthService {
     }
   }
 
+  /**
+   * Conclui o login com o segundo fator (código TOTP ou de recuperação)
+   */
+  async verifyTwoFactor(
+    verifyTwoFactorDto: VerifyTwoFactorDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<LoginResponseDto> {
+    const { user, challengeId } = await this.resolveTwoFactorChallenge(
+      verifyTwoFactorDto.challenge_token,
+    );
+
+    await this.twoFactorService.registerAttempt(challengeId);
+
+    const method = await this.twoFactorService.verifyLogin(user, verifyTwoFactorDto, {
+      ...(ipAddress && { ipAddress }),
+      ...(userAgent && { userAgent }),
+    });
+
+    if (!method) {
+      throw new UnauthorizedException('Código de verificação inválido');
+    }
+
+    await this.twoFactorService.completeChallenge(challengeId);
+
+    return this.completeLogin(user, method, ipAddress, userAgent);
+  }
+
+  /**
+   * Inicia o cadastro obrigatório do autenticador durante o login
+   */
+  async startTwoFactorSetupFromChallenge(
+    challengeToken: string,
+  ): Promise<TwoFactorSetupResponseDto> {
+    const { user } = await this.resolveTwoFactorChallenge(challengeToken);
+    return this.twoFactorService.startSetup(user);
+  }
+
+  /**
+   * Confirma o cadastro obrigatório do autenticador e conclui o login
+   */
+  async enableTwoFactorFromChallenge(
+    enableTwoFactorDto: EnableTwoFactorChallengeDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<TwoFactorLoginResponseDto> {
+    const { user, challengeId } = await this.resolveTwoFactorChallenge(
+      enableTwoFactorDto.challenge_token,
+    );
+
+    await this.twoFactorService.registerAttempt(challengeId);
+
+    const recoveryCodes = await this.twoFactorService.confirmSetup(user, enableTwoFactorDto.code, {
+      ...(ipAddress && { ipAddress }),
+      ...(userAgent && { userAgent }),
+    });
+
+    if (!recoveryCodes) {
+      throw new UnauthorizedException('Código de verificação inválido');
+    }
+
+    await this.twoFactorService.completeChallenge(challengeId);
+
+    const response = await this.completeLogin(user, 'totp', ipAddress, userAgent);
+
+    return { ...response, recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Valida o desafio de dois fatores e o estado atual do usuário
+   */
+  private async resolveTwoFactorChallenge(
+    challengeToken: string,
+  ): Promise<{ user: User; challengeId: string }> {
+    const { userId, challengeId } = await this.twoFactorService.resolveChallenge(challengeToken);
+    const user = await this.usersService.findOne(userId);
+
+    if (!user?.is_active) {
+      throw new UnauthorizedException('Usuário inválido');
+    }
+
+    if (!user.email_verified) {
+      throw new UnauthorizedException('Email não verificado');
+    }
+
+    return { user, challengeId };
+  }
+
+  /**
+   * Emite os tokens após o segundo fator e registra o login
+   */
+  private async completeLogin(
+    user: User,
+    twoFactorMethod: TwoFactorMethod,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<LoginResponseDto> {
+    const session = await this.sessionsService.create(user.id, {
+      ...(ipAddress && { ipAddress }),
+      ...(userAgent && { userAgent }),
+    });
+    const tokens = await this.generateTokens(user, session);
+
+    await this.usersService.updateLastLogin(user.id);
+    await this.logSuccessfulLogin(user, ipAddress, userAgent, twoFactorMethod);
+
+    return this.mapToLoginResponseDto(user, tokens);
+  }
+
+  /**
+   * Altera a senha do usuário autenticado
+   *
+   * Todas as sessões do usuário são encerradas e os tokens emitidos até a
+   * alteração invalidados; o dispositivo atual continua em uma nova sessão com
+   * os tokens retornados.
+   */
+  async changePassword(
+    userId: string,
+    changePasswordDto: ChangePasswordDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<LoginResponseDto> {
+    this.assertNewPassword(changePasswordDto.new_password, changePasswordDto.confirm_new_password);
+
+    const user = await this.usersService.findOne(userId);
+
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+
+    const isCurrentPasswordValid = await comparePassword(
+      changePasswordDto.current_password,
+      user.password_hash,
+    );
+
+    if (!isCurrentPasswordValid) {
+      throw new BadRequestException('Senha atual incorreta');
+    }
+
+    if (changePasswordDto.new_password === changePasswordDto.current_password) {
+      throw new BadRequestException('A nova senha deve ser diferente da senha atual');
+    }
+
+    await this.usersService.updatePassword(
+      user.id,
+      await this.hashPasswordForUser(changePasswordDto.new_password),
+    );
+
+    await this.tokenBlacklistService.blacklistAllUserTokens(user.id);
+    await this.sessionsService.revokeAllForUser(user.id, SessionRevokeReason.PASSWORD_CHANGE);
+
+    const session = await this.sessionsService.create(user.id, {
+      ...(ipAddress && { ipAddress }),
+      ...(userAgent && { userAgent }),
+    });
+    const tokens = await this.generateTokens(user, session);
+
+    await this.logPasswordChange(user, ipAddress, userAgent);
+
+    return this.mapToLoginResponseDto(user, tokens);
+  }
+
   /**
    * Valida se senha atende aos critérios de segurança
    */
@@ -221,6 +440,23 @@ export class AuthService {
     );
   }
 
+  /**
+   * Valida a confirmação e os critérios de segurança de uma nova senha
+   *
+   * @throws BadRequestException se a confirmação divergir ou a senha for fraca
+   */
+  assertNewPassword(password: string, confirmation: string): void {
+    if (password !== confirmation) {
+      throw new BadRequestException('As senhas não conferem');
+    }
+
+    if (!this.validatePassword(password)) {
+      throw new BadRequestException(
+        'Senha deve conter ao menos 8 caracteres, 1 minúscula, 1 maiúscula, 1 número e 1 caractere especial',
+      );
+    }
+  }
+
   /**
    * Hash da senha usando util
    */
@@ -236,6 +472,7 @@ export class AuthService {
     user: User,
     ipAddress?: string,
     userAgent?: string,
+    twoFactorMethod?: TwoFactorMethod,
   ): Promise<void> {
     try {
       const auditData = {
@@ -249,6 +486,7 @@ export class AuthService {
         metadata: {
           userRoles: user.roles?.map(role => role.name) || [],
           lastLogin: user.last_login_at,
+          ...(twoFactorMethod && { twoFactorMethod }),
         },
         ...(user.roles?.[0]?.name && { userRole: user.roles[0].name }),
         ...(ipAddress && { ipAddress }),
@@ -347,6 +585,37 @@ export class AuthService {
     }
   }
 
+  /**
+   * Log auditoria para alteração de senha
+   */
+  private async logPasswordChange(
+    user: User,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    try {
+      const auditData = {
+        action: AuditAction.PASSWORD_CHANGE,
+        category: AuditCategory.AUTH,
+        userId: user.id,
+        userEmail: user.email,
+        resourceType: 'auth',
+        resourceId: user.id,
+        description: `User ${user.email} changed their password`,
+        metadata: {
+          sessionsRevoked: true,
+          timestamp: new Date().toISOString(),
+        },
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+      };
+
+      await this.auditLogService.createLog(auditData);
+    } catch (error) {
+      this.logger.error('Failed to log password change audit', error);
+    }
+  }
+
   /**
    * Log auditoria para logout
    */
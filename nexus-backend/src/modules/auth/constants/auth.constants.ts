@@ -1,3 +1,5 @@
+import { Role } from '../enums/role.enum';
+
 /**
  * Constantes do módulo de autenticação
  *
@@ -83,6 +85,33 @@ export const AUTH_CONSTANTS = {
    */
   EMAIL_VERIFICATION_TOKEN_EXPIRATION: 86400,
 
+  /**
+   * Tempo de expiração do token de convite (segundos)
+   * Equivale a 7 dias
+   */
+  INVITE_TOKEN_EXPIRATION: 604800,
+
+  /**
+   * Tempo de expiração do desafio de dois fatores do login (segundos)
+   * Equivale a 5 minutos
+   */
+  TWO_FACTOR_CHALLENGE_EXPIRATION: 300,
+
+  /**
+   * Tentativas de código permitidas por desafio de dois fatores
+   */
+  TWO_FACTOR_MAX_ATTEMPTS: 5,
+
+  /**
+   * Quantidade de códigos de recuperação gerados na ativação do 2FA
+   */
+  TWO_FACTOR_RECOVERY_CODES: 10,
+
+  /**
+   * Emissor exibido no aplicativo autenticador
+   */
+  TWO_FACTOR_ISSUER: 'NexusTransit',
+
   /**
    * Quantidade de tokens por página na listagem
    */
@@ -103,11 +132,27 @@ export const AUTH_CONSTANTS = {
    */
   BLOCKED_TOKENS_CACHE_PREFIX: 'blocked_tokens:',
 
+  /**
+   * Prefixo para chaves de cache dos desafios de dois fatores
+   */
+  TWO_FACTOR_CHALLENGE_CACHE_PREFIX: 'two_factor_challenge:',
+
   /**
    * Prefixo para chaves de cache de refresh tokens
    */
   REFRESH_TOKENS_CACHE_PREFIX: 'refresh_tokens:',
 
+  /**
+   * Prefixo para chaves de cache das permissões efetivas por role
+   */
+  PERMISSIONS_CACHE_PREFIX: 'permissions:role:',
+
+  /**
+   * Tempo de cache das permissões efetivas (segundos)
+   * Equivale a 5 minutos
+   */
+  PERMISSIONS_CACHE_TTL: 300,
+
   /**
    * Nome da política de autorização para rotas administrativas
    */
@@ -124,6 +169,11 @@ export const AUTH_CONSTANTS = {
   PUBLIC_POLICY: 'public',
 } as const;
 
+/**
+ * Roles para os quais a autenticação em dois fatores é obrigatória
+ */
+export const TWO_FACTOR_REQUIRED_ROLES: string[] = [Role.ADMIN, Role.GESTOR];
+
 /**
  * Tipos de tokens suportados
  */
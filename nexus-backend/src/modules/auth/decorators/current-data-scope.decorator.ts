@@ -0,0 +1,15 @@
+import { createParamDecorator, type ExecutionContext } from '@nestjs/common';
+import { DataScopes } from '../utils/data-scope.util';
+import type { DataScope } from '../interfaces/data-scope.interface';
+import type { AuthenticatedRequest } from '../interfaces/authenticated-request.interface';
+
+/**
+ * Decorator para obter o escopo de dados do usuário atual
+ * Funciona apenas em rotas protegidas com JwtAuthGuard
+ */
+export const CurrentDataScope = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): DataScope => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    return DataScopes.forUser(request.user);
+  },
+);
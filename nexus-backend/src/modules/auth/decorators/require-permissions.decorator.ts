@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Permissões (`recurso:ação`) que o usuário precisa ter para acessar o endpoint (todas)
+ *
+ * Usado com PermissionsGuard após o JwtAuthGuard.
+ *
+ * @example
+ * ```typescript
+ * @UseGuards(JwtAuthGuard, PermissionsGuard)
+ * @RequirePermissions('deliveries:update')
+ * @Patch(':id')
+ * ```
+ */
+export const RequirePermissions = (...permissions: string[]): ReturnType<typeof SetMetadata> =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,46 @@
+import { IsString, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Accept Invitation DTO
+ *
+ * Data Transfer Object para o primeiro acesso de usuários convidados.
+ * O usuário define a própria senha com o token do convite; o email é
+ * considerado verificado a partir daí.
+ */
+export class AcceptInvitationDto {
+  @ApiProperty({
+    description: 'Token do convite recebido por email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    minLength: 10,
+  })
+  @IsString({ message: 'Token deve ser uma string' })
+  @IsNotEmpty({ message: 'Token é obrigatório' })
+  @MinLength(10, { message: 'Token inválido' })
+  token!: string;
+
+  @ApiProperty({
+    description: 'Senha do usuário',
+    example: 'SenhaForte123!',
+    minLength: 8,
+    maxLength: 128,
+    pattern: '^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]',
+  })
+  @IsString({ message: 'Senha deve ser uma string' })
+  @IsNotEmpty({ message: 'Senha é obrigatória' })
+  @MinLength(8, { message: 'Senha deve ter pelo menos 8 caracteres' })
+  @MaxLength(128, { message: 'Senha deve ter no máximo 128 caracteres' })
+  password!: string;
+
+  @ApiProperty({
+    description: 'Confirmação da senha',
+    example: 'SenhaForte123!',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsString({ message: 'Confirmação de senha deve ser uma string' })
+  @IsNotEmpty({ message: 'Confirmação de senha é obrigatória' })
+  @MinLength(8, { message: 'Confirmação de senha deve ter pelo menos 8 caracteres' })
+  @MaxLength(128, { message: 'Confirmação de senha deve ter no máximo 128 caracteres' })
+  confirm_password!: string;
+}
@@ -0,0 +1,75 @@
+import {
+  IsEmail,
+  IsString,
+  IsNotEmpty,
+  IsIn,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Role } from '../enums/role.enum';
+
+/**
+ * Roles que podem ser atribuídos por convite (equipe e motoristas)
+ *
+ * Clientes se cadastram pelo registro público.
+ */
+export const INVITABLE_ROLES = [Role.ADMIN, Role.GESTOR, Role.DESPACHANTE, Role.MOTORISTA] as const;
+
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+/**
+ * Create Invitation DTO
+ *
+ * Data Transfer Object para convite de membros da equipe e motoristas.
+ * O usuário é criado sem senha utilizável e recebe por email um link para
+ * defini-la no primeiro acesso.
+ */
+export class CreateInvitationDto {
+  @ApiProperty({
+    description: 'Email do usuário convidado',
+    example: 'motorista@empresa.com',
+    format: 'email',
+    maxLength: 255,
+  })
+  @IsEmail({}, { message: 'Email deve ter um formato válido' })
+  @MaxLength(255, { message: 'Email deve ter no máximo 255 caracteres' })
+  email!: string;
+
+  @ApiProperty({
+    description: 'Primeiro nome do usuário convidado',
+    example: 'João',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Nome deve ser uma string' })
+  @IsNotEmpty({ message: 'Nome é obrigatório' })
+  @MaxLength(100, { message: 'Nome deve ter no máximo 100 caracteres' })
+  first_name!: string;
+
+  @ApiProperty({
+    description: 'Sobrenome do usuário convidado',
+    example: 'Silva',
+    maxLength: 100,
+  })
+  @IsString({ message: 'Sobrenome deve ser uma string' })
+  @IsNotEmpty({ message: 'Sobrenome é obrigatório' })
+  @MaxLength(100, { message: 'Sobrenome deve ter no máximo 100 caracteres' })
+  last_name!: string;
+
+  @ApiProperty({
+    description: 'Role atribuído ao usuário convidado',
+    enum: INVITABLE_ROLES,
+    example: Role.MOTORISTA,
+  })
+  @IsIn(INVITABLE_ROLES, { message: 'Role deve ser admin, gestor, despachante ou motorista' })
+  role!: InvitableRole;
+
+  @ApiPropertyOptional({
+    description: 'Motorista vinculado ao usuário (obrigatório para o role motorista)',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'ID do motorista deve ser um UUID válido' })
+  driver_id?: string;
+}
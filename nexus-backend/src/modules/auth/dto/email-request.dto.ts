@@ -0,0 +1,25 @@
+import { IsEmail, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Email Request DTO
+ *
+ * Data Transfer Object para solicitações que enviam um link por email:
+ * recuperação de senha e reenvio da verificação de email.
+ *
+ * A resposta é a mesma para emails cadastrados ou não, para não revelar
+ * quais contas existem.
+ */
+export class EmailRequestDto {
+  @ApiProperty({
+    description: 'Email da conta',
+    example: 'usuario@empresa.com',
+    format: 'email',
+    minLength: 5,
+    maxLength: 255,
+  })
+  @IsEmail({}, { message: 'Email deve ter um formato válido' })
+  @MinLength(5, { message: 'Email deve ter pelo menos 5 caracteres' })
+  @MaxLength(255, { message: 'Email deve ter no máximo 255 caracteres' })
+  email!: string;
+}
@@ -0,0 +1,51 @@
+import { IsString, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Reset Password DTO
+ *
+ * Data Transfer Object para redefinição de senha com o token recebido
+ * no link de recuperação.
+ *
+ * **Fluxo de Redefinição:**
+ * 1. Usuário solicita a recuperação informando o email
+ * 2. Sistema envia link com token de uso único e expiração de 1 hora
+ * 3. Usuário fornece o token e a nova senha
+ * 4. Sistema atualiza senha e invalida todos os tokens ativos
+ */
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Token de recuperação recebido por email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    minLength: 10,
+  })
+  @IsString({ message: 'Token deve ser uma string' })
+  @IsNotEmpty({ message: 'Token é obrigatório' })
+  @MinLength(10, { message: 'Token inválido' })
+  token!: string;
+
+  @ApiProperty({
+    description: 'Nova senha do usuário',
+    example: 'NovaSenhaForte456!',
+    minLength: 8,
+    maxLength: 128,
+    pattern: '^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]',
+  })
+  @IsString({ message: 'Nova senha deve ser uma string' })
+  @IsNotEmpty({ message: 'Nova senha é obrigatória' })
+  @MinLength(8, { message: 'Nova senha deve ter pelo menos 8 caracteres' })
+  @MaxLength(128, { message: 'Nova senha deve ter no máximo 128 caracteres' })
+  new_password!: string;
+
+  @ApiProperty({
+    description: 'Confirmação da nova senha',
+    example: 'NovaSenhaForte456!',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsString({ message: 'Confirmação de nova senha deve ser uma string' })
+  @IsNotEmpty({ message: 'Confirmação de nova senha é obrigatória' })
+  @MinLength(8, { message: 'Confirmação de nova senha deve ter pelo menos 8 caracteres' })
+  @MaxLength(128, { message: 'Confirmação de nova senha deve ter no máximo 128 caracteres' })
+  confirm_new_password!: string;
+}
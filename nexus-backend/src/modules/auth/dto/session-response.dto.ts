@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { UserSession } from '../entities/user-session.entity';
+
+/**
+ * Session Response DTO
+ * DTO de uma sessão de login ativa
+ */
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'ID da sessão',
+    example: '3f6c1e2a-8d4b-4f7e-9a2c-1b5d7e9f0a3c',
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: 'Dispositivo identificado pelo User-Agent',
+    example: 'Chrome em Windows',
+    nullable: true,
+  })
+  device!: string | null;
+
+  @ApiProperty({
+    description: 'Último endereço IP da sessão',
+    example: '189.45.12.7',
+    nullable: true,
+  })
+  ip_address!: string | null;
+
+  @ApiProperty({
+    description: 'Último User-Agent da sessão',
+    example:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    nullable: true,
+  })
+  user_agent!: string | null;
+
+  @ApiProperty({
+    description: 'Data do login',
+    example: '2024-03-10T12:00:00.000Z',
+  })
+  created_at!: Date;
+
+  @ApiProperty({
+    description: 'Último uso da sessão (login ou renovação do token)',
+    example: '2024-03-11T08:30:00.000Z',
+  })
+  last_seen_at!: Date;
+
+  @ApiProperty({
+    description: 'Expiração da sessão, caso não seja renovada',
+    example: '2024-03-18T08:30:00.000Z',
+  })
+  expires_at!: Date;
+
+  @ApiProperty({
+    description: 'Sessão da requisição atual',
+    example: true,
+  })
+  current!: boolean;
+
+  static fromSession(session: UserSession, currentSessionId?: string): SessionResponseDto {
+    return {
+      id: session.id,
+      device: session.device ?? null,
+      ip_address: session.ip_address ?? null,
+      user_agent: session.user_agent ?? null,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      expires_at: session.expires_at,
+      current: session.id === currentSessionId,
+    };
+  }
+}
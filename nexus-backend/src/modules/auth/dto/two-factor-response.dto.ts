@@ -0,0 +1,77 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LoginResponseDto } from './login-response.dto';
+
+/**
+ * DTO de resposta do login quando a conta exige o segundo fator
+ *
+ * Nenhum token de acesso é emitido nesta etapa: o desafio deve ser concluído em
+ * `POST /auth/2fa/verify` ou, se o cadastro do autenticador for obrigatório e
+ * ainda não existir, em `POST /auth/2fa/challenge/setup` e `/challenge/enable`.
+ */
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({
+    description: 'Indica que o login exige o segundo fator',
+    example: true,
+  })
+  two_factor_required!: true;
+
+  @ApiProperty({
+    description: 'Indica que o autenticador precisa ser cadastrado (obrigatório para o perfil)',
+    example: false,
+  })
+  setup_required!: boolean;
+
+  @ApiProperty({
+    description: 'Token do desafio de dois fatores',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  challenge_token!: string;
+
+  @ApiProperty({
+    description: 'Tempo de expiração do desafio em segundos',
+    example: 300,
+  })
+  expires_in!: number;
+}
+
+/**
+ * DTO de resposta do início do cadastro do autenticador
+ */
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({
+    description: 'Segredo em Base32, para cadastro manual no aplicativo',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret!: string;
+
+  @ApiProperty({
+    description: 'URI otpauth:// para exibição como QR code',
+    example:
+      'otpauth://totp/NexusTransit:gestor%40nexustransit.com?secret=JBSWY3DPEHPK3PXP&issuer=NexusTransit&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauth_url!: string;
+}
+
+/**
+ * DTO de resposta com códigos de recuperação (exibidos uma única vez)
+ */
+export class TwoFactorRecoveryCodesResponseDto {
+  @ApiProperty({
+    description: 'Códigos de recuperação de uso único',
+    example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'],
+    isArray: true,
+  })
+  recovery_codes!: string[];
+}
+
+/**
+ * DTO de resposta do cadastro obrigatório concluído no login
+ */
+export class TwoFactorLoginResponseDto extends LoginResponseDto {
+  @ApiProperty({
+    description: 'Códigos de recuperação de uso único (exibidos uma única vez)',
+    example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'],
+    isArray: true,
+  })
+  recovery_codes!: string[];
+}
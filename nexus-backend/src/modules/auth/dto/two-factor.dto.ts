@@ -0,0 +1,90 @@
+import { IsString, IsNotEmpty, IsOptional, Matches, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, IntersectionType } from '@nestjs/swagger';
+
+/**
+ * Two-Factor Code DTO
+ *
+ * Código de 6 dígitos do aplicativo autenticador.
+ */
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Código TOTP de 6 dígitos do aplicativo autenticador',
+    example: '123456',
+    pattern: '^\\d{6}$',
+  })
+  @IsString({ message: 'Código deve ser uma string' })
+  @Matches(/^\d{6}$/, { message: 'Código deve ter 6 dígitos' })
+  code!: string;
+}
+
+/**
+ * Two-Factor Challenge DTO
+ *
+ * Desafio emitido pelo login quando a conta exige o segundo fator.
+ */
+export class TwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'Token do desafio retornado pelo login (válido por 5 minutos)',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    minLength: 10,
+  })
+  @IsString({ message: 'Token do desafio deve ser uma string' })
+  @IsNotEmpty({ message: 'Token do desafio é obrigatório' })
+  @MinLength(10, { message: 'Token do desafio inválido' })
+  challenge_token!: string;
+}
+
+/**
+ * Verify Two-Factor DTO
+ *
+ * Segunda etapa do login: código do autenticador ou, na falta dele, um código
+ * de recuperação (cada código de recuperação vale uma única vez).
+ */
+export class VerifyTwoFactorDto extends TwoFactorChallengeDto {
+  @ApiPropertyOptional({
+    description: 'Código TOTP de 6 dígitos do aplicativo autenticador',
+    example: '123456',
+    pattern: '^\\d{6}$',
+  })
+  @IsOptional()
+  @IsString({ message: 'Código deve ser uma string' })
+  @Matches(/^\d{6}$/, { message: 'Código deve ter 6 dígitos' })
+  code?: string;
+
+  @ApiPropertyOptional({
+    description: 'Código de recuperação, usado quando o autenticador não está disponível',
+    example: 'a1b2c-3d4e5',
+  })
+  @IsOptional()
+  @IsString({ message: 'Código de recuperação deve ser uma string' })
+  @MaxLength(20, { message: 'Código de recuperação inválido' })
+  recovery_code?: string;
+}
+
+/**
+ * Enable Two-Factor Challenge DTO
+ *
+ * Confirmação do cadastro obrigatório do autenticador durante o login.
+ */
+export class EnableTwoFactorChallengeDto extends IntersectionType(
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+) {}
+
+/**
+ * Disable Two-Factor DTO
+ *
+ * A desativação exige a senha e um código válido do autenticador.
+ */
+export class DisableTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Senha atual do usuário',
+    example: 'SenhaForte123!',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsString({ message: 'Senha deve ser uma string' })
+  @IsNotEmpty({ message: 'Senha é obrigatória' })
+  @MaxLength(128, { message: 'Senha deve ter no máximo 128 caracteres' })
+  password!: string;
+}
@@ -44,6 +44,12 @@ export class UserResponseDto {
   })
   email_verified!: boolean;
 
+  @ApiProperty({
+    description: 'Autenticação em dois fatores ativa',
+    example: false,
+  })
+  two_factor_enabled!: boolean;
+
   static fromUser(user: User): UserResponseDto {
     return {
       id: user.id,
@@ -52,6 +58,7 @@ export class UserResponseDto {
       roles: user.roles?.map(role => role.name) ?? [],
       permissions: user.roles?.flatMap(role => role.permissions ?? []) ?? [],
       email_verified: user.email_verified,
+      two_factor_enabled: user.two_factor_enabled,
     };
   }
 }
@@ -0,0 +1,20 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Verify Email DTO
+ *
+ * Data Transfer Object para confirmação do email com o token recebido
+ * no link de verificação. O token é de uso único.
+ */
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Token de verificação recebido por email',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    minLength: 10,
+  })
+  @IsString({ message: 'Token deve ser uma string' })
+  @IsNotEmpty({ message: 'Token é obrigatório' })
+  @MinLength(10, { message: 'Token inválido' })
+  token!: string;
+}
@@ -0,0 +1,61 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { User } from '../../users/entities/user.entity';
+import { TokenType } from '../enums/token-type.enum';
+
+/**
+ * AccountToken Entity - Tokens de uso único enviados por email
+ *
+ * Features:
+ * - Verificação de email, recuperação de senha e convite
+ * - O token enviado é um JWT assinado cujo `jti` é o ID do registro
+ * - Uso único: o token é consumido ao registrar `used_at`
+ */
+@Entity('account_tokens')
+@Index(['user_id', 'type'])
+export class AccountToken extends BaseEntity {
+  // Relacionamento com Usuário
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do usuário dono do token',
+  })
+  user_id!: string;
+
+  @Column({
+    type: 'enum',
+    enum: [TokenType.EMAIL_VERIFICATION, TokenType.PASSWORD_RESET, TokenType.INVITE],
+    comment: 'Finalidade do token',
+  })
+  type!: TokenType;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora de expiração do token',
+  })
+  expires_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora em que o token foi usado',
+  })
+  used_at?: Date | null;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que emitiu o token (convites)',
+  })
+  created_by?: string | null;
+
+  /**
+   * Verifica se o token ainda pode ser usado
+   */
+  get is_usable(): boolean {
+    return !this.used_at && this.expires_at.getTime() > Date.now();
+  }
+}
@@ -0,0 +1,98 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { User } from '../../users/entities/user.entity';
+import { SessionRevokeReason } from '../enums/session-revoke-reason.enum';
+
+/**
+ * UserSession Entity - Sessões de login dos usuários
+ *
+ * Features:
+ * - Uma sessão por login, identificada pelo claim `sid` dos tokens
+ * - A sessão é a família de refresh tokens: cada renovação emite um novo
+ *   refresh token e apenas o último (`refresh_token_id`) é aceito
+ * - Reutilizar um refresh token anterior encerra a sessão inteira
+ */
+@Entity('user_sessions')
+@Index(['user_id', 'revoked_at'])
+export class UserSession extends BaseEntity {
+  // Relacionamento com Usuário
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do usuário dono da sessão',
+  })
+  user_id!: string;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID (jti) do refresh token vigente da sessão',
+  })
+  refresh_token_id!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    comment: 'Dispositivo identificado pelo User-Agent',
+  })
+  device?: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 45,
+    nullable: true,
+    comment: 'Último endereço IP da sessão',
+  })
+  ip_address?: string | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Último User-Agent da sessão',
+  })
+  user_agent?: string | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Último uso da sessão (login ou renovação)',
+  })
+  last_seen_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Expiração do refresh token vigente',
+  })
+  expires_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora de encerramento da sessão',
+  })
+  revoked_at?: Date | null;
+
+  @Column({
+    type: 'enum',
+    enum: SessionRevokeReason,
+    nullable: true,
+    comment: 'Motivo do encerramento',
+  })
+  revoked_reason?: SessionRevokeReason | null;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que encerrou a sessão',
+  })
+  revoked_by?: string | null;
+
+  /**
+   * Verifica se a sessão ainda pode ser renovada
+   */
+  get is_active(): boolean {
+    return !this.revoked_at && this.expires_at.getTime() > Date.now();
+  }
+}
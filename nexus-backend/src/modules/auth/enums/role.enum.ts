@@ -44,8 +44,15 @@ export const RolePermissions = {
     'deliveries:read',
     'deliveries:update',
     'deliveries:delete',
+    'incidents:create',
+    'incidents:read',
+    'incidents:update',
+    'incidents:delete',
     'reports:read',
+    'reports:schedule',
     'audit:read',
+    'notifications:read',
+    'notifications:update',
   ],
   [Role.GESTOR]: [
     'users:read',
@@ -58,7 +65,13 @@ export const RolePermissions = {
     'deliveries:create',
     'deliveries:read',
     'deliveries:update',
+    'incidents:create',
+    'incidents:read',
+    'incidents:update',
     'reports:read',
+    'reports:schedule',
+    'notifications:read',
+    'notifications:update',
   ],
   [Role.DESPACHANTE]: [
     'vehicles:read',
@@ -67,7 +80,10 @@ export const RolePermissions = {
     'deliveries:create',
     'deliveries:read',
     'deliveries:update',
+    'incidents:create',
+    'incidents:read',
+    'incidents:update',
   ],
-  [Role.MOTORISTA]: ['deliveries:read', 'deliveries:update', 'routes:read'],
+  [Role.MOTORISTA]: ['deliveries:read', 'deliveries:update', 'routes:read', 'tracking:create'],
   [Role.CLIENTE]: ['deliveries:read'],
 };
@@ -0,0 +1,42 @@
+/**
+ * Motivos de encerramento de uma sessão
+ *
+ * Registrados em `user_sessions.revoked_reason` e na auditoria.
+ */
+export enum SessionRevokeReason {
+  /**
+   * Logout
+   *
+   * Sessão encerrada pelo próprio dispositivo.
+   */
+  LOGOUT = 'LOGOUT',
+
+  /**
+   * Encerrada pelo usuário
+   *
+   * Sessão encerrada pelo dono a partir de outro dispositivo.
+   */
+  REVOKED_BY_USER = 'REVOKED_BY_USER',
+
+  /**
+   * Encerrada por administrador
+   *
+   * Sessão encerrada por um admin (ex.: dispositivo perdido ou roubado).
+   */
+  REVOKED_BY_ADMIN = 'REVOKED_BY_ADMIN',
+
+  /**
+   * Reutilização de refresh token
+   *
+   * Um refresh token já rotacionado foi apresentado novamente, indício de
+   * vazamento: a sessão inteira é encerrada.
+   */
+  REFRESH_TOKEN_REUSE = 'REFRESH_TOKEN_REUSE',
+
+  /**
+   * Alteração de senha
+   *
+   * Sessões encerradas pela troca ou redefinição da senha.
+   */
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
+}
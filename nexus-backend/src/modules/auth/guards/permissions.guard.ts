@@ -0,0 +1,37 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { PermissionsService } from '../services/permissions.service';
+import type { AuthenticatedRequest } from '../interfaces/authenticated-request.interface';
+
+/**
+ * Permissions Guard
+ * Guard para verificar se o usuário tem as permissões exigidas por @RequirePermissions
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<string[] | undefined>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredPermissions) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const { user } = request;
+
+    if (!user?.roles) {
+      return false;
+    }
+
+    return this.permissionsService.hasPermissions(user, requiredPermissions);
+  }
+}
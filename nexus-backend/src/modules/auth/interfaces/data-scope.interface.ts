@@ -0,0 +1,29 @@
+/**
+ * Data Scope Interface
+ * Registros que o solicitante pode ver, derivados dos roles e vínculos do usuário
+ */
+export interface DataScope {
+  /** Perfis de operação (admin, gestor, despachante): sem restrição */
+  unrestricted: boolean;
+
+  /** Usuário autenticado (dono dos registros pessoais, ex.: LGPD) */
+  userId?: string;
+
+  /** Cliente vinculado ao usuário cliente ou à chave de API */
+  customerId?: string;
+
+  /** Motorista vinculado ao usuário motorista */
+  driverId?: string;
+}
+
+/**
+ * Dono do registro que a consulta compara com o escopo
+ */
+export type DataScopeOwner = 'user' | 'customer' | 'driver';
+
+/**
+ * Colunas da entidade que identificam cada dono do registro
+ *
+ * Donos sem coluna não dão acesso: um motorista não vê clientes, por exemplo.
+ */
+export type DataScopeFields<T> = Partial<Record<DataScopeOwner, keyof T & string>>;
@@ -23,4 +23,7 @@ export interface JwtPayload {
 
   /** Session ID para blacklist */
   jti?: string;
+
+  /** ID da sessão de login (user_sessions) */
+  sid?: string;
 }
@@ -0,0 +1,129 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { AccountToken } from '../entities/account-token.entity';
+import { TokenType } from '../enums/token-type.enum';
+import { AUTH_CONSTANTS } from '../constants/auth.constants';
+import { deriveTokenSecret } from '../utils/token.util';
+
+/**
+ * Tokens de conta enviados por email
+ */
+export type AccountTokenType =
+  | TokenType.EMAIL_VERIFICATION
+  | TokenType.PASSWORD_RESET
+  | TokenType.INVITE;
+
+/**
+ * Payload dos tokens de conta (o `jti` identifica o registro em account_tokens)
+ */
+interface AccountTokenPayload {
+  sub: string;
+  type: AccountTokenType;
+  jti: string;
+}
+
+/**
+ * Tempo de expiração por tipo de token (segundos)
+ */
+const ACCOUNT_TOKEN_EXPIRATION: Record<AccountTokenType, number> = {
+  [TokenType.EMAIL_VERIFICATION]: AUTH_CONSTANTS.EMAIL_VERIFICATION_TOKEN_EXPIRATION,
+  [TokenType.PASSWORD_RESET]: AUTH_CONSTANTS.PASSWORD_RESET_TOKEN_EXPIRATION,
+  [TokenType.INVITE]: AUTH_CONSTANTS.INVITE_TOKEN_EXPIRATION,
+};
+
+/**
+ * Account Tokens Service
+ *
+ * Emite e consome os tokens de uso único de verificação de email, recuperação
+ * de senha e convite. O token é um JWT assinado com uma chave derivada por tipo,
+ * portanto não é aceito como access token nem serve para outra finalidade; o
+ * registro em `account_tokens` garante o uso único.
+ */
+@Injectable()
+export class AccountTokensService {
+  constructor(
+    @InjectRepository(AccountToken)
+    private readonly tokenRepository: Repository<AccountToken>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Emite um token para o usuário
+   *
+   * Tokens do mesmo tipo ainda não usados são descartados: vale apenas o último link enviado.
+   */
+  async issue(userId: string, type: AccountTokenType, createdBy?: string): Promise<string> {
+    await this.tokenRepository.delete({ user_id: userId, type, used_at: IsNull() });
+
+    const expiresIn = ACCOUNT_TOKEN_EXPIRATION[type];
+    const record = await this.tokenRepository.save(
+      this.tokenRepository.create({
+        user_id: userId,
+        type,
+        expires_at: new Date(Date.now() + expiresIn * 1000),
+        created_by: createdBy ?? null,
+      }),
+    );
+
+    const payload: AccountTokenPayload = { sub: userId, type, jti: record.id };
+
+    return this.jwtService.signAsync(payload, {
+      secret: this.getSecret(type),
+      expiresIn: `${expiresIn}s`,
+    });
+  }
+
+  /**
+   * Consome o token e retorna o ID do usuário dono
+   *
+   * @throws BadRequestException se o token for inválido, expirado ou já usado
+   */
+  async consume(token: string, type: AccountTokenType): Promise<string> {
+    const payload = await this.verify(token, type);
+
+    // Atualização condicional: em requisições concorrentes apenas uma consome o token
+    const result = await this.tokenRepository.update(
+      {
+        id: payload.jti,
+        user_id: payload.sub,
+        type,
+        used_at: IsNull(),
+        expires_at: MoreThan(new Date()),
+      },
+      { used_at: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new BadRequestException('Token inválido ou expirado');
+    }
+
+    return payload.sub;
+  }
+
+  private async verify(token: string, type: AccountTokenType): Promise<AccountTokenPayload> {
+    try {
+      const payload = await this.jwtService.verifyAsync<AccountTokenPayload>(token, {
+        secret: this.getSecret(type),
+      });
+
+      if (payload.type !== type || !payload.jti) {
+        throw new Error('Tipo de token incorreto');
+      }
+
+      return payload;
+    } catch {
+      throw new BadRequestException('Token inválido ou expirado');
+    }
+  }
+
+  /**
+   * Chave de assinatura derivada do JWT_SECRET para o tipo de token
+   */
+  private getSecret(type: AccountTokenType): string {
+    return deriveTokenSecret(this.configService, `account-token:${type}`);
+  }
+}
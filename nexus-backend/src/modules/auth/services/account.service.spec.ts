@@ -0,0 +1,233 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AccountService } from './account.service';
+import { AccountTokensService } from './account-tokens.service';
+import { TokenBlacklistService } from './token-blacklist.service';
+import { SessionsService } from './sessions.service';
+import { AuthService } from '../auth.service';
+import { Role as RoleEntity } from '../entities/role.entity';
+import { Role } from '../enums/role.enum';
+import { TokenType } from '../enums/token-type.enum';
+import { SessionRevokeReason } from '../enums/session-revoke-reason.enum';
+import { User } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/enums/user-status.enum';
+import { UserType } from '../../users/enums/user-type.enum';
+import { Customer } from '../../customers/entities/customer.entity';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { MailService } from '../../mail/mail.service';
+import { AuditLogService } from '../../audit/audit-log.service';
+
+describe('AccountService', () => {
+  let service: AccountService;
+
+  const clienteRole = { id: 'role-cliente', name: Role.CLIENTE, is_active: true } as RoleEntity;
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    Object.assign(new User(), {
+      id: 'user-1',
+      email: 'maria@example.com',
+      first_name: 'Maria',
+      last_name: 'Souza',
+      status: UserStatus.ACTIVE,
+      email_verified: false,
+      roles: [clienteRole],
+      ...overrides,
+    });
+
+  const mockUserRepository = {
+    create: jest.fn((data: Partial<User>) => Object.assign(new User(), data)),
+    save: jest.fn((user: User) =>
+      Promise.resolve(Object.assign(user, { id: user.id ?? 'user-1' })),
+    ),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockRoleRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockCustomerQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  const mockCustomerRepository = {
+    createQueryBuilder: jest.fn(() => mockCustomerQueryBuilder),
+  };
+
+  const mockAuthService = {
+    assertNewPassword: jest.fn(),
+    hashPasswordForUser: jest.fn().mockResolvedValue('hashed-password'),
+  };
+
+  const mockAccountTokensService = {
+    issue: jest.fn().mockResolvedValue('account-token'),
+    consume: jest.fn(),
+  };
+
+  const mockTokenBlacklistService = {
+    blacklistAllUserTokens: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    revokeAllForUser: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: getRepositoryToken(RoleEntity), useValue: mockRoleRepository },
+        { provide: getRepositoryToken(Customer), useValue: mockCustomerRepository },
+        { provide: getRepositoryToken(Driver), useValue: {} },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: AccountTokensService, useValue: mockAccountTokensService },
+        { provide: TokenBlacklistService, useValue: mockTokenBlacklistService },
+        { provide: SessionsService, useValue: mockSessionsService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: AuditLogService, useValue: { createLog: jest.fn() } },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<AccountService>(AccountService);
+  });
+
+  describe('register', () => {
+    const registerDto = {
+      full_name: 'Maria da Silva Souza',
+      email: 'Maria@Example.com',
+      password: 'Senha@Forte123',
+      confirm_password: 'Senha@Forte123',
+    };
+
+    it('should create an unverified cliente and send the verification link', async () => {
+      mockUserRepository.exists.mockResolvedValue(false);
+      mockRoleRepository.findOne.mockResolvedValue(clienteRole);
+
+      const response = await service.register(registerDto);
+
+      expect(mockUserRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'maria@example.com',
+          first_name: 'Maria',
+          last_name: 'da Silva Souza',
+          user_type: UserType.CUSTOMER,
+          email_verified: false,
+          roles: [clienteRole],
+        }),
+      );
+      expect(mockAccountTokensService.issue).toHaveBeenCalledWith(
+        'user-1',
+        TokenType.EMAIL_VERIFICATION,
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: ['maria@example.com'] }),
+      );
+      expect(response.email_verified).toBe(false);
+    });
+
+    it('should reject an email already registered', async () => {
+      mockUserRepository.exists.mockResolvedValue(true);
+
+      await expect(service.register(registerDto)).rejects.toBeInstanceOf(ConflictException);
+
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should verify the email and link the customer with the same email', async () => {
+      mockAccountTokensService.consume.mockResolvedValue('user-1');
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockCustomerQueryBuilder.getOne.mockResolvedValue({ id: 'customer-1' });
+
+      await service.verifyEmail('account-token');
+
+      expect(mockAccountTokensService.consume).toHaveBeenCalledWith(
+        'account-token',
+        TokenType.EMAIL_VERIFICATION,
+      );
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email_verified: true,
+          email_verified_at: expect.any(Date),
+          customer_id: 'customer-1',
+        }),
+      );
+    });
+
+    it('should reject a token of a user that no longer exists', async () => {
+      mockAccountTokensService.consume.mockResolvedValue('user-1');
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.verifyEmail('account-token')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should not reveal whether the account exists', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.forgotPassword('ninguem@example.com')).resolves.toBeUndefined();
+
+      expect(mockAccountTokensService.issue).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should replace the password and revoke every session', async () => {
+      mockAccountTokensService.consume.mockResolvedValue('user-1');
+      mockUserRepository.findOne.mockResolvedValue(buildUser({ email_verified: true }));
+
+      await service.resetPassword({
+        token: 'account-token',
+        new_password: 'Nova@Senha456',
+        confirm_new_password: 'Nova@Senha456',
+      });
+
+      expect(mockAccountTokensService.consume).toHaveBeenCalledWith(
+        'account-token',
+        TokenType.PASSWORD_RESET,
+      );
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ password_hash: 'hashed-password' }),
+      );
+      expect(mockTokenBlacklistService.blacklistAllUserTokens).toHaveBeenCalledWith('user-1');
+      expect(mockSessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        SessionRevokeReason.PASSWORD_CHANGE,
+      );
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should set the password and verify the email of the invited user', async () => {
+      mockAccountTokensService.consume.mockResolvedValue('user-1');
+      mockUserRepository.findOne.mockResolvedValue(buildUser({ roles: [] }));
+
+      await service.acceptInvitation({
+        token: 'account-token',
+        password: 'Senha@Forte123',
+        confirm_password: 'Senha@Forte123',
+      });
+
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ password_hash: 'hashed-password', email_verified: true }),
+      );
+    });
+  });
+});
@@ -0,0 +1,467 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { UserType } from '../../users/enums/user-type.enum';
+import { UserStatus } from '../../users/enums/user-status.enum';
+import { Customer } from '../../customers/entities/customer.entity';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { Role as RoleEntity } from '../entities/role.entity';
+import { Role } from '../enums/role.enum';
+import { TokenType } from '../enums/token-type.enum';
+import { SessionRevokeReason } from '../enums/session-revoke-reason.enum';
+import { AuthService } from '../auth.service';
+import { AccountTokensService } from './account-tokens.service';
+import { TokenBlacklistService } from './token-blacklist.service';
+import { SessionsService } from './sessions.service';
+import { MailService } from '../../mail/mail.service';
+import type { MailMessage } from '../../mail/interfaces/mail-transport.interface';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+import { generateRandomPassword } from '../utils/password.util';
+import type { AppConfig } from '../../../config/app.config';
+import type { RegisterDto } from '../dto/register.dto';
+import type { ResetPasswordDto } from '../dto/reset-password.dto';
+import type { AcceptInvitationDto } from '../dto/accept-invitation.dto';
+import type { CreateInvitationDto, InvitableRole } from '../dto/create-invitation.dto';
+import { UserResponseDto } from '../dto/user-response.dto';
+
+/**
+ * Tipo de usuário atribuído a cada role convidável
+ */
+const USER_TYPE_BY_ROLE: Record<InvitableRole, UserType> = {
+  [Role.ADMIN]: UserType.ADMIN,
+  [Role.GESTOR]: UserType.MANAGER,
+  [Role.DESPACHANTE]: UserType.OPERATOR,
+  [Role.MOTORISTA]: UserType.DRIVER,
+};
+
+/**
+ * Contexto da requisição registrado na auditoria
+ */
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Account Service
+ *
+ * Fluxos de conta fora do login:
+ * - Registro público de clientes, com verificação de email
+ * - Recuperação de senha por email
+ * - Convites da equipe e de motoristas, que definem a senha no primeiro acesso
+ *
+ * Solicitações que recebem apenas um email (recuperação de senha e reenvio da
+ * verificação) não indicam se a conta existe.
+ */
+@Injectable()
+export class AccountService {
+  private readonly logger = new Logger(AccountService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(RoleEntity)
+    private readonly roleRepository: Repository<RoleEntity>,
+    @InjectRepository(Customer)
+    private readonly customerRepository: Repository<Customer>,
+    @InjectRepository(Driver)
+    private readonly driverRepository: Repository<Driver>,
+    private readonly authService: AuthService,
+    private readonly accountTokensService: AccountTokensService,
+    private readonly tokenBlacklistService: TokenBlacklistService,
+    private readonly sessionsService: SessionsService,
+    private readonly mailService: MailService,
+    private readonly auditLogService: AuditLogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Registra um novo usuário cliente e envia o link de verificação do email
+   */
+  async register(registerDto: RegisterDto, context: RequestContext = {}): Promise<UserResponseDto> {
+    this.authService.assertNewPassword(registerDto.password, registerDto.confirm_password);
+
+    const email = registerDto.email.toLowerCase();
+    await this.assertEmailAvailable(email);
+
+    const [firstName = '', ...lastNames] = registerDto.full_name.trim().split(/\s+/);
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        password_hash: await this.authService.hashPasswordForUser(registerDto.password),
+        first_name: firstName,
+        last_name: lastNames.join(' '),
+        user_type: UserType.CUSTOMER,
+        status: UserStatus.ACTIVE,
+        email_verified: false,
+        roles: [await this.findRole(Role.CLIENTE)],
+      }),
+    );
+
+    await this.sendVerificationEmail(user);
+
+    await this.logAccountEvent(
+      AuditAction.CREATE,
+      user,
+      `User ${user.email} registered`,
+      { roles: [Role.CLIENTE] },
+      context,
+    );
+
+    return UserResponseDto.fromUser(user);
+  }
+
+  /**
+   * Confirma o email do usuário
+   *
+   * Usuários cliente sem cliente vinculado são vinculados ao cadastro de cliente
+   * com o mesmo email, agora que a posse do email foi comprovada.
+   */
+  async verifyEmail(token: string, context: RequestContext = {}): Promise<void> {
+    const userId = await this.accountTokensService.consume(token, TokenType.EMAIL_VERIFICATION);
+    const user = await this.findUser(userId);
+
+    user.email_verified = true;
+    user.email_verified_at = new Date();
+
+    if (!user.customer_id && user.roles.some(role => role.name === Role.CLIENTE)) {
+      const customer = await this.customerRepository
+        .createQueryBuilder('customer')
+        .where('LOWER(customer.email) = LOWER(:email)', { email: user.email })
+        .getOne();
+
+      if (customer) {
+        user.customer_id = customer.id;
+      }
+    }
+
+    await this.userRepository.save(user);
+
+    await this.logAccountEvent(
+      AuditAction.UPDATE,
+      user,
+      `User ${user.email} verified their email`,
+      { customerId: user.customer_id ?? null },
+      context,
+    );
+  }
+
+  /**
+   * Reenvia o link de verificação para contas ativas ainda não verificadas
+   */
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.findByEmail(email);
+
+    if (!user?.is_active || user.email_verified) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Envia o link de redefinição de senha para contas ativas
+   */
+  async forgotPassword(email: string, context: RequestContext = {}): Promise<void> {
+    const user = await this.findByEmail(email);
+
+    if (!user?.is_active) {
+      return;
+    }
+
+    const token = await this.accountTokensService.issue(user.id, TokenType.PASSWORD_RESET);
+    const link = this.buildLink('reset-password', token);
+
+    await this.sendMail({
+      to: [user.email],
+      subject: 'Redefinição de senha - NexusTransit',
+      text: [
+        `Olá, ${user.first_name}.`,
+        'Recebemos uma solicitação para redefinir a sua senha.',
+        `Para criar uma nova senha, acesse: ${link}`,
+        'O link expira em 1 hora. Se você não fez a solicitação, ignore este email.',
+      ].join('\n'),
+      html: `<p>Olá, ${this.escapeHtml(user.first_name)}.</p><p>Recebemos uma solicitação para redefinir a sua senha.</p><p><a href="${link}">Criar nova senha</a></p><p>O link expira em 1 hora. Se você não fez a solicitação, ignore este email.</p>`,
+    });
+
+    await this.logAccountEvent(
+      AuditAction.UPDATE,
+      user,
+      `Password reset requested for user ${user.email}`,
+      {},
+      context,
+    );
+  }
+
+  /**
+   * Redefine a senha com o token de recuperação e invalida todas as sessões
+   */
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+    context: RequestContext = {},
+  ): Promise<void> {
+    this.authService.assertNewPassword(
+      resetPasswordDto.new_password,
+      resetPasswordDto.confirm_new_password,
+    );
+
+    const userId = await this.accountTokensService.consume(
+      resetPasswordDto.token,
+      TokenType.PASSWORD_RESET,
+    );
+    const user = await this.findUser(userId);
+
+    user.password_hash = await this.authService.hashPasswordForUser(resetPasswordDto.new_password);
+    await this.userRepository.save(user);
+
+    await this.tokenBlacklistService.blacklistAllUserTokens(user.id);
+    await this.sessionsService.revokeAllForUser(user.id, SessionRevokeReason.PASSWORD_CHANGE);
+
+    await this.logAccountEvent(
+      AuditAction.PASSWORD_CHANGE,
+      user,
+      `Password reset for user ${user.email}`,
+      { sessionsRevoked: true },
+      context,
+    );
+  }
+
+  /**
+   * Convida um membro da equipe ou motorista
+   *
+   * O usuário é criado com uma senha aleatória descartada e só acessa o sistema
+   * depois de aceitar o convite.
+   */
+  async invite(
+    createInvitationDto: CreateInvitationDto,
+    invitedBy: User,
+    context: RequestContext = {},
+  ): Promise<UserResponseDto> {
+    const email = createInvitationDto.email.toLowerCase();
+    await this.assertEmailAvailable(email);
+
+    const driverId =
+      createInvitationDto.role === Role.MOTORISTA
+        ? await this.resolveInvitedDriver(createInvitationDto.driver_id)
+        : null;
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        password_hash: await this.authService.hashPasswordForUser(generateRandomPassword(32)),
+        first_name: createInvitationDto.first_name,
+        last_name: createInvitationDto.last_name,
+        user_type: USER_TYPE_BY_ROLE[createInvitationDto.role],
+        status: UserStatus.ACTIVE,
+        email_verified: false,
+        driver_id: driverId,
+        roles: [await this.findRole(createInvitationDto.role)],
+      }),
+    );
+
+    const token = await this.accountTokensService.issue(user.id, TokenType.INVITE, invitedBy.id);
+    const link = this.buildLink('accept-invitation', token);
+
+    await this.sendMail({
+      to: [user.email],
+      subject: 'Convite de acesso - NexusTransit',
+      text: [
+        `Olá, ${user.first_name}.`,
+        `${invitedBy.full_name} convidou você para acessar o NexusTransit.`,
+        `Para definir a sua senha e ativar o acesso, acesse: ${link}`,
+        'O convite expira em 7 dias.',
+      ].join('\n'),
+      html: `<p>Olá, ${this.escapeHtml(user.first_name)}.</p><p>${this.escapeHtml(invitedBy.full_name)} convidou você para acessar o NexusTransit.</p><p><a href="${link}">Definir senha e ativar acesso</a></p><p>O convite expira em 7 dias.</p>`,
+    });
+
+    await this.logAccountEvent(
+      AuditAction.CREATE,
+      invitedBy,
+      `User ${invitedBy.email} invited ${user.email} as ${createInvitationDto.role}`,
+      { invitedUserId: user.id, role: createInvitationDto.role, driverId },
+      context,
+    );
+
+    return UserResponseDto.fromUser(user);
+  }
+
+  /**
+   * Aceita o convite: define a senha e confirma o email
+   */
+  async acceptInvitation(
+    acceptInvitationDto: AcceptInvitationDto,
+    context: RequestContext = {},
+  ): Promise<void> {
+    this.authService.assertNewPassword(
+      acceptInvitationDto.password,
+      acceptInvitationDto.confirm_password,
+    );
+
+    const userId = await this.accountTokensService.consume(
+      acceptInvitationDto.token,
+      TokenType.INVITE,
+    );
+    const user = await this.findUser(userId);
+
+    user.password_hash = await this.authService.hashPasswordForUser(acceptInvitationDto.password);
+    user.email_verified = true;
+    user.email_verified_at = new Date();
+    await this.userRepository.save(user);
+
+    await this.logAccountEvent(
+      AuditAction.UPDATE,
+      user,
+      `User ${user.email} accepted their invitation`,
+      {},
+      context,
+    );
+  }
+
+  private async sendVerificationEmail(user: User): Promise<void> {
+    const token = await this.accountTokensService.issue(user.id, TokenType.EMAIL_VERIFICATION);
+    const link = this.buildLink('verify-email', token);
+
+    await this.sendMail({
+      to: [user.email],
+      subject: 'Confirme seu email - NexusTransit',
+      text: [
+        `Olá, ${user.first_name}.`,
+        `Para confirmar o seu email e ativar a conta, acesse: ${link}`,
+        'O link expira em 24 horas.',
+      ].join('\n'),
+      html: `<p>Olá, ${this.escapeHtml(user.first_name)}.</p><p><a href="${link}">Confirmar email e ativar a conta</a></p><p>O link expira em 24 horas.</p>`,
+    });
+  }
+
+  /**
+   * Envia o email sem interromper o fluxo: falhas de envio ficam no log e o
+   * link pode ser solicitado novamente
+   */
+  private async sendMail(message: MailMessage): Promise<void> {
+    try {
+      await this.mailService.send(message);
+    } catch (error) {
+      this.logger.error(`Falha ao enviar email "${message.subject}"`, error);
+    }
+  }
+
+  private async assertEmailAvailable(email: string): Promise<void> {
+    const exists = await this.userRepository.exists({ where: { email }, withDeleted: true });
+
+    if (exists) {
+      throw new ConflictException('Email já cadastrado');
+    }
+  }
+
+  /**
+   * Motorista vinculado ao usuário convidado (obrigatório e ainda sem usuário)
+   */
+  private async resolveInvitedDriver(driverId?: string): Promise<string> {
+    if (!driverId) {
+      throw new BadRequestException('Motorista é obrigatório para o role motorista');
+    }
+
+    const driverExists = await this.driverRepository.exists({ where: { id: driverId } });
+
+    if (!driverExists) {
+      throw new NotFoundException('Motorista não encontrado');
+    }
+
+    const linked = await this.userRepository.exists({
+      where: { driver_id: driverId },
+      withDeleted: true,
+    });
+
+    if (linked) {
+      throw new ConflictException('Motorista já vinculado a outro usuário');
+    }
+
+    return driverId;
+  }
+
+  private async findRole(name: Role): Promise<RoleEntity> {
+    const role = await this.roleRepository.findOne({ where: { name, is_active: true } });
+
+    if (!role) {
+      throw new NotFoundException(`Role ${name} não encontrado`);
+    }
+
+    return role;
+  }
+
+  private async findUser(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { id, deleted_at: IsNull() },
+      relations: ['roles'],
+    });
+
+    if (!user) {
+      throw new BadRequestException('Token inválido ou expirado');
+    }
+
+    return user;
+  }
+
+  private async findByEmail(email: string): Promise<User | null> {
+    return this.userRepository.findOne({
+      where: { email: email.toLowerCase(), deleted_at: IsNull() },
+    });
+  }
+
+  /**
+   * Link da aplicação web com o token (ex.: /auth/reset-password?token=...)
+   */
+  private buildLink(path: string, token: string): string {
+    const webUrl = this.configService.get<AppConfig>('app')?.webUrl ?? 'http://localhost:4200';
+    return `${webUrl.replace(/\/$/, '')}/auth/${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Log auditoria dos fluxos de conta
+   */
+  private async logAccountEvent(
+    action: AuditAction,
+    user: User,
+    description: string,
+    metadata: Record<string, unknown>,
+    { ipAddress, userAgent }: RequestContext,
+  ): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action,
+        category: AuditCategory.AUTH,
+        userId: user.id,
+        userEmail: user.email,
+        resourceType: 'auth',
+        resourceId: user.id,
+        description,
+        metadata: {
+          ...metadata,
+          timestamp: new Date().toISOString(),
+        },
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+      });
+    } catch (error) {
+      this.logger.error('Failed to log account audit', error);
+    }
+  }
+}
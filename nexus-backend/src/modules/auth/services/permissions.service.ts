@@ -0,0 +1,106 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Role } from '../entities/role.entity';
+import { Permission } from '../entities/permission.entity';
+import { RedisService } from '../../redis/redis.service';
+import { AUTH_CONSTANTS } from '../constants/auth.constants';
+import { expandRoleHierarchy } from '../utils/role-hierarchy.util';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Permissions Service
+ *
+ * Resolve as permissões efetivas dos usuários a partir dos roles no banco:
+ * permissões atribuídas ao role e aos roles abaixo dele na hierarquia, limitadas
+ * às permissões ativas da tabela `permissions`. O resultado por role fica em
+ * cache no Redis e é invalidado quando um role é alterado.
+ */
+@Injectable()
+export class PermissionsService {
+  private readonly logger = new Logger(PermissionsService.name);
+
+  constructor(
+    @InjectRepository(Role)
+    private readonly roleRepository: Repository<Role>,
+    @InjectRepository(Permission)
+    private readonly permissionRepository: Repository<Permission>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Permissões efetivas do usuário (união dos roles ativos)
+   */
+  async getUserPermissions(user: User): Promise<Set<string>> {
+    const roleNames = (user.roles ?? []).filter(role => role.is_active).map(role => role.name);
+    const permissionsByRole = await Promise.all(
+      roleNames.map(roleName => this.getRolePermissions(roleName)),
+    );
+
+    return new Set(permissionsByRole.flat());
+  }
+
+  /**
+   * Verifica se o usuário tem todas as permissões informadas
+   */
+  async hasPermissions(user: User, permissions: string[]): Promise<boolean> {
+    if (permissions.length === 0) {
+      return true;
+    }
+
+    const granted = await this.getUserPermissions(user);
+    return permissions.every(permission => granted.has(permission));
+  }
+
+  /**
+   * Permissões efetivas de um role, com a hierarquia expandida
+   */
+  async getRolePermissions(roleName: string): Promise<string[]> {
+    const cacheKey = `${AUTH_CONSTANTS.PERMISSIONS_CACHE_PREFIX}${roleName}`;
+    const cached = await this.redisService.get<string[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const roles = await this.roleRepository.find({
+      where: { name: In(expandRoleHierarchy(roleName)), is_active: true },
+      select: { id: true, name: true, permissions: true },
+    });
+    const assigned = [...new Set(roles.flatMap(role => role.permissions ?? []))];
+
+    const active =
+      assigned.length > 0
+        ? await this.permissionRepository.find({
+            where: { name: In(assigned), is_active: true },
+            select: { id: true, name: true },
+          })
+        : [];
+    const permissions = active.map(permission => permission.name).sort();
+
+    await this.redisService.set(cacheKey, permissions, AUTH_CONSTANTS.PERMISSIONS_CACHE_TTL * 1000);
+
+    return permissions;
+  }
+
+  /**
+   * Descarta o cache de todos os roles
+   *
+   * Uma alteração em um role afeta também os roles acima dele na hierarquia,
+   * por isso o cache é descartado por completo.
+   */
+  async invalidate(): Promise<void> {
+    const roles = await this.roleRepository.find({
+      select: { id: true, name: true },
+      withDeleted: true,
+    });
+
+    await Promise.all(
+      roles.map(role =>
+        this.redisService.delete(`${AUTH_CONSTANTS.PERMISSIONS_CACHE_PREFIX}${role.name}`),
+      ),
+    );
+
+    this.logger.log(`Cache de permissões invalidado (${roles.length} roles)`);
+  }
+}
@@ -0,0 +1,182 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import { TokenBlacklistService } from './token-blacklist.service';
+import { UserSession } from '../entities/user-session.entity';
+import { SessionRevokeReason } from '../enums/session-revoke-reason.enum';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction } from '../../audit/enums';
+import type { User } from '../../users/entities/user.entity';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+
+  const user = { id: 'user-1', email: 'maria@example.com' } as User;
+  const admin = { id: 'admin-1', email: 'admin@example.com' } as User;
+
+  const buildSession = (overrides: Partial<UserSession> = {}): UserSession =>
+    Object.assign(new UserSession(), {
+      id: 'session-1',
+      user_id: user.id,
+      refresh_token_id: 'refresh-1',
+      revoked_at: null,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      ...overrides,
+    });
+
+  const mockSessionRepository = {
+    create: jest.fn((data: Partial<UserSession>) => data),
+    save: jest.fn((data: Partial<UserSession>) => Promise.resolve({ id: 'session-1', ...data })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockTokenBlacklistService = {
+    blacklistSession: jest.fn(),
+  };
+
+  const mockAuditLogService = {
+    createLog: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: getRepositoryToken(UserSession), useValue: mockSessionRepository },
+        { provide: JwtService, useValue: { decode: jest.fn() } },
+        { provide: TokenBlacklistService, useValue: mockTokenBlacklistService },
+        { provide: AuditLogService, useValue: mockAuditLogService },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  describe('create', () => {
+    it('should create a session with a new refresh token id and the device', async () => {
+      const session = await service.create(user.id, {
+        ipAddress: '10.0.0.1',
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36',
+      });
+
+      expect(session).toEqual(
+        expect.objectContaining({
+          user_id: user.id,
+          refresh_token_id: expect.any(String),
+          device: 'Chrome em Windows',
+          ip_address: '10.0.0.1',
+        }),
+      );
+    });
+  });
+
+  describe('rotate', () => {
+    it('should issue a new refresh token id when the current one is presented', async () => {
+      mockSessionRepository.findOne.mockResolvedValue(buildSession());
+      mockSessionRepository.update.mockResolvedValue({ affected: 1 });
+
+      const session = await service.rotate(user, 'session-1', 'refresh-1');
+
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-1', refresh_token_id: 'refresh-1' }),
+        expect.objectContaining({ refresh_token_id: expect.any(String) }),
+      );
+      expect(session.refresh_token_id).not.toBe('refresh-1');
+      expect(mockTokenBlacklistService.blacklistSession).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session as a system action when a rotated token is reused', async () => {
+      mockSessionRepository.findOne.mockResolvedValue(buildSession());
+      mockSessionRepository.update.mockResolvedValueOnce({ affected: 0 });
+      const warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+      await expect(service.rotate(user, 'session-1', 'refresh-old')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+
+      expect(mockSessionRepository.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'session-1' }),
+        expect.objectContaining({ revoked_reason: SessionRevokeReason.REFRESH_TOKEN_REUSE }),
+      );
+      expect(mockTokenBlacklistService.blacklistSession).toHaveBeenCalledWith('session-1');
+
+      const [[log]] = mockAuditLogService.createLog.mock.calls as [[Record<string, unknown>]];
+      expect(log).toEqual(
+        expect.objectContaining({
+          action: AuditAction.SESSION_REVOKE,
+          metadata: expect.objectContaining({ ownerId: user.id, revokedBy: 'system' }),
+        }),
+      );
+      expect(log).not.toHaveProperty('userId');
+
+      warnSpy.mockRestore();
+    });
+
+    it('should reject a revoked session without rotating', async () => {
+      mockSessionRepository.findOne.mockResolvedValue(buildSession({ revoked_at: new Date() }));
+
+      await expect(service.rotate(user, 'session-1', 'refresh-1')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke the session and audit the admin as the actor', async () => {
+      mockSessionRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.revoke(user.id, 'session-1', SessionRevokeReason.REVOKED_BY_ADMIN, {
+        revokedBy: admin,
+      });
+
+      expect(mockTokenBlacklistService.blacklistSession).toHaveBeenCalledWith('session-1');
+      expect(mockAuditLogService.createLog).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: admin.id, userEmail: admin.email }),
+      );
+    });
+
+    it('should throw when the session is not found', async () => {
+      mockSessionRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.revoke(user.id, 'session-1', SessionRevokeReason.REVOKED_BY_USER),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should ignore logout of a session already revoked', async () => {
+      mockSessionRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.revoke(user.id, 'session-1', SessionRevokeReason.LOGOUT),
+      ).resolves.toBeUndefined();
+
+      expect(mockTokenBlacklistService.blacklistSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should keep the current session when revoking the others', async () => {
+      mockSessionRepository.find.mockResolvedValue([
+        buildSession(),
+        buildSession({ id: 'session-2' }),
+      ]);
+
+      const count = await service.revokeAllForUser(user.id, SessionRevokeReason.REVOKED_BY_USER, {
+        revokedBy: user,
+        exceptSessionId: 'session-1',
+      });
+
+      expect(count).toBe(1);
+      expect(mockTokenBlacklistService.blacklistSession).toHaveBeenCalledTimes(1);
+      expect(mockTokenBlacklistService.blacklistSession).toHaveBeenCalledWith('session-2');
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { In, IsNull, MoreThan, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { UserSession } from '../entities/user-session.entity';
+import { User } from '../../users/entities/user.entity';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+import { SessionRevokeReason } from '../enums/session-revoke-reason.enum';
+import { AUTH_CONSTANTS } from '../constants/auth.constants';
+import type { JwtPayload } from '../interfaces/jwt-payload.interface';
+import { TokenBlacklistService } from './token-blacklist.service';
+import { describeDevice } from '../utils/user-agent.util';
+
+/**
+ * Contexto da requisição registrado na sessão e na auditoria
+ */
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Opções de encerramento de sessões
+ */
+interface RevokeSessionOptions {
+  /** Usuário que encerrou a sessão (ausente em encerramentos automáticos) */
+  revokedBy?: User;
+
+  /** Sessão mantida ao encerrar todas as sessões do usuário */
+  exceptSessionId?: string;
+
+  context?: SessionContext;
+}
+
+/**
+ * Sessions Service
+ *
+ * Mantém as sessões de login dos usuários. Cada login cria uma sessão, e os
+ * tokens emitidos carregam o ID dela no claim `sid`:
+ * - Refresh tokens são rotacionados: cada renovação emite um novo `jti` e
+ *   apenas o último é aceito
+ * - Apresentar um refresh token já rotacionado encerra a sessão (a família
+ *   inteira de tokens), pois indica que o token vazou
+ * - Sessões encerradas têm os access tokens invalidados pela blacklist
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    @InjectRepository(UserSession)
+    private readonly sessionRepository: Repository<UserSession>,
+    private readonly jwtService: JwtService,
+    private readonly tokenBlacklistService: TokenBlacklistService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Cria a sessão de um novo login
+   */
+  async create(
+    userId: string,
+    { ipAddress, userAgent }: SessionContext = {},
+  ): Promise<UserSession> {
+    const now = new Date();
+
+    return this.sessionRepository.save(
+      this.sessionRepository.create({
+        user_id: userId,
+        refresh_token_id: randomUUID(),
+        device: describeDevice(userAgent),
+        ip_address: ipAddress ?? null,
+        user_agent: userAgent ?? null,
+        last_seen_at: now,
+        expires_at: this.getExpiresAt(now),
+      }),
+    );
+  }
+
+  /**
+   * Rotaciona o refresh token da sessão
+   *
+   * @param user - Dono da sessão
+   * @param sessionId - Claim `sid` do refresh token apresentado
+   * @param refreshTokenId - Claim `jti` do refresh token apresentado
+   * @returns Sessão com o `refresh_token_id` do novo refresh token
+   * @throws UnauthorizedException se a sessão estiver encerrada ou expirada, ou
+   * se o refresh token já tiver sido rotacionado (a sessão é encerrada)
+   */
+  async rotate(
+    user: User,
+    sessionId: string,
+    refreshTokenId: string,
+    context: SessionContext = {},
+  ): Promise<UserSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, user_id: user.id },
+    });
+
+    if (!session?.is_active) {
+      throw new UnauthorizedException('Sessão encerrada ou expirada');
+    }
+
+    const now = new Date();
+    const changes = {
+      refresh_token_id: randomUUID(),
+      last_seen_at: now,
+      expires_at: this.getExpiresAt(now),
+      ...(context.ipAddress && { ip_address: context.ipAddress }),
+      ...(context.userAgent && { user_agent: context.userAgent }),
+    };
+
+    // Atualização condicional: em requisições concorrentes apenas uma rotaciona o token
+    const result = await this.sessionRepository.update(
+      { id: session.id, refresh_token_id: refreshTokenId, revoked_at: IsNull() },
+      changes,
+    );
+
+    if (!result.affected) {
+      await this.revokeReusedSession(user, session, context);
+      throw new UnauthorizedException('Refresh token reutilizado: sessão encerrada');
+    }
+
+    return Object.assign(session, changes);
+  }
+
+  /**
+   * Lista as sessões ativas do usuário, da mais recente para a mais antiga
+   */
+  async findActiveByUser(userId: string): Promise<UserSession[]> {
+    return this.sessionRepository.find({
+      where: { user_id: userId, revoked_at: IsNull(), expires_at: MoreThan(new Date()) },
+      order: { last_seen_at: 'DESC' },
+    });
+  }
+
+  /**
+   * Encerra uma sessão do usuário
+   *
+   * O logout é idempotente: encerrar pelo logout uma sessão já encerrada (ex.:
+   * por reuso do refresh token) não gera erro.
+   *
+   * @throws NotFoundException se a sessão não existir, não for do usuário ou já estiver encerrada
+   */
+  async revoke(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason,
+    options: RevokeSessionOptions = {},
+  ): Promise<void> {
+    const result = await this.sessionRepository.update(
+      { id: sessionId, user_id: userId, revoked_at: IsNull() },
+      { revoked_at: new Date(), revoked_reason: reason, revoked_by: options.revokedBy?.id ?? null },
+    );
+
+    if (!result.affected) {
+      if (reason === SessionRevokeReason.LOGOUT) {
+        return;
+      }
+
+      throw new NotFoundException('Sessão não encontrada');
+    }
+
+    await this.tokenBlacklistService.blacklistSession(sessionId);
+
+    // O logout tem auditoria própria (LOGOUT)
+    if (reason !== SessionRevokeReason.LOGOUT) {
+      await this.logSessionRevoke(
+        userId,
+        sessionId,
+        reason,
+        `Session ${sessionId} of user ${userId} revoked`,
+        options,
+      );
+    }
+  }
+
+  /**
+   * Encerra todas as sessões ativas do usuário
+   *
+   * @returns Quantidade de sessões encerradas
+   */
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevokeReason,
+    options: RevokeSessionOptions = {},
+  ): Promise<number> {
+    const sessions = await this.findActiveByUser(userId);
+    const sessionIds = sessions
+      .map(session => session.id)
+      .filter(id => id !== options.exceptSessionId);
+
+    if (sessionIds.length === 0) {
+      return 0;
+    }
+
+    await this.sessionRepository.update(
+      { id: In(sessionIds), revoked_at: IsNull() },
+      { revoked_at: new Date(), revoked_reason: reason, revoked_by: options.revokedBy?.id ?? null },
+    );
+
+    await Promise.all(sessionIds.map(id => this.tokenBlacklistService.blacklistSession(id)));
+
+    // A troca de senha tem auditoria própria (PASSWORD_CHANGE)
+    if (reason !== SessionRevokeReason.PASSWORD_CHANGE) {
+      await this.logSessionRevoke(
+        userId,
+        userId,
+        reason,
+        `${sessionIds.length} session(s) of user ${userId} revoked`,
+        options,
+        { sessionIds },
+      );
+    }
+
+    return sessionIds.length;
+  }
+
+  /**
+   * Obtém o ID da sessão (claim `sid`) de um token já validado
+   */
+  getSessionId(token: string): string | undefined {
+    return this.jwtService.decode<JwtPayload | null>(token)?.sid;
+  }
+
+  /**
+   * Encerra a sessão cujo refresh token foi reutilizado
+   */
+  private async revokeReusedSession(
+    user: User,
+    session: UserSession,
+    context: SessionContext,
+  ): Promise<void> {
+    await this.sessionRepository.update(
+      { id: session.id, revoked_at: IsNull() },
+      { revoked_at: new Date(), revoked_reason: SessionRevokeReason.REFRESH_TOKEN_REUSE },
+    );
+
+    await this.tokenBlacklistService.blacklistSession(session.id);
+
+    this.logger.warn(`Refresh token reutilizado na sessão ${session.id} do usuário ${user.id}`);
+
+    await this.logSessionRevoke(
+      user.id,
+      session.id,
+      SessionRevokeReason.REFRESH_TOKEN_REUSE,
+      `Refresh token reuse detected for user ${user.email}: session ${session.id} revoked`,
+      { context },
+    );
+  }
+
+  /**
+   * Expiração da sessão: a do refresh token emitido em `from`
+   */
+  private getExpiresAt(from: Date): Date {
+    return new Date(from.getTime() + AUTH_CONSTANTS.REFRESH_TOKEN_EXPIRATION * 1000);
+  }
+
+  /**
+   * Log auditoria para encerramento de sessões
+   *
+   * Sem `revokedBy`, a ação é atribuída ao dono da sessão. O encerramento por
+   * reuso do refresh token é automático e fica registrado como ação do sistema.
+   */
+  private async logSessionRevoke(
+    ownerId: string,
+    resourceId: string,
+    reason: SessionRevokeReason,
+    description: string,
+    { revokedBy, context = {} }: RevokeSessionOptions,
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    const { ipAddress, userAgent } = context;
+    const revokedBySystem = reason === SessionRevokeReason.REFRESH_TOKEN_REUSE;
+
+    try {
+      await this.auditLogService.createLog({
+        action: AuditAction.SESSION_REVOKE,
+        category: AuditCategory.AUTH,
+        ...(!revokedBySystem && { userId: revokedBy?.id ?? ownerId }),
+        ...(revokedBy && { userEmail: revokedBy.email }),
+        resourceType: 'user_session',
+        resourceId,
+        description,
+        metadata: {
+          ...metadata,
+          ownerId,
+          reason,
+          revokedBy: revokedBySystem ? 'system' : (revokedBy?.id ?? ownerId),
+          timestamp: new Date().toISOString(),
+        },
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+      });
+    } catch (error) {
+      this.logger.error('Failed to log session revoke audit', error);
+    }
+  }
+}
@@ -218,6 +218,26 @@ describe('TokenBlacklistService', () => {
       expect(result).toBe(true);
       expect(mockRedisService.has).toHaveBeenCalledWith('blacklist:user:user123');
     });
+
+    it('should only reject tokens issued before the revocation', async () => {
+      const revokedAt = Math.floor(Date.now() / 1000);
+      redisService.get.mockResolvedValue({
+        blacklistedAt: new Date(revokedAt * 1000).toISOString(),
+        reason: 'user_tokens_revoked',
+      });
+
+      await expect(service.areUserTokensBlacklisted('user123', revokedAt - 60)).resolves.toBe(true);
+      await expect(service.areUserTokensBlacklisted('user123', revokedAt)).resolves.toBe(false);
+      expect(mockRedisService.get).toHaveBeenCalledWith('blacklist:user:user123');
+    });
+
+    it('should not reject tokens when the user tokens were not revoked', async () => {
+      redisService.get.mockResolvedValue(undefined);
+
+      const result = await service.areUserTokensBlacklisted('user123', 1700000000);
+
+      expect(result).toBe(false);
+    });
   });
 
   describe('clearBlacklist', () => {
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { createHash } from 'crypto';
 import { RedisService } from '../../redis/redis.service';
+import { AUTH_CONSTANTS } from '../constants/auth.constants';
 import type { JwtPayload } from '../interfaces/jwt-payload.interface';
 
 @Injectable()
@@ -144,17 +145,72 @@ export class TokenBlacklistService {
 
   /**
    * Verifica se todos os tokens de um usuário foram invalidados
+   *
+   * Com `issuedAt` (claim `iat`, em segundos), apenas tokens emitidos antes da
+   * invalidação são recusados, para que a nova sessão continue válida.
    */
-  async areUserTokensBlacklisted(userId: string): Promise<boolean> {
+  async areUserTokensBlacklisted(userId: string, issuedAt?: number): Promise<boolean> {
     try {
       const key = `${this.BLACKLIST_PREFIX}:user:${userId}`;
-      return await this.redisService.has(key);
+
+      if (issuedAt === undefined) {
+        return await this.redisService.has(key);
+      }
+
+      const entry = await this.redisService.get<{ blacklistedAt: string }>(key);
+
+      if (!entry) {
+        return false;
+      }
+
+      return issuedAt < Math.floor(Date.parse(entry.blacklistedAt) / 1000);
     } catch (error) {
       this.logger.error('Erro ao verificar invalidação de tokens do usuário', error);
       return false;
     }
   }
 
+  /**
+   * Invalida os access tokens de uma sessão encerrada
+   *
+   * O refresh token é recusado pela própria sessão; a entrada só precisa durar
+   * até a expiração dos access tokens já emitidos.
+   */
+  async blacklistSession(sessionId: string): Promise<boolean> {
+    try {
+      const key = `${this.BLACKLIST_PREFIX}:session:${sessionId}`;
+      const success = await this.redisService.set(
+        key,
+        {
+          blacklistedAt: new Date().toISOString(),
+          reason: 'session_revoked',
+        },
+        AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRATION * 1000,
+      );
+
+      if (success) {
+        this.logger.log(`Sessão ${sessionId} invalidada`);
+      }
+
+      return success;
+    } catch (error) {
+      this.logger.error('Erro ao invalidar sessão', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verifica se a sessão dos tokens foi encerrada
+   */
+  async isSessionBlacklisted(sessionId: string): Promise<boolean> {
+    try {
+      return await this.redisService.has(`${this.BLACKLIST_PREFIX}:session:${sessionId}`);
+    } catch (error) {
+      this.logger.error('Erro ao verificar invalidação da sessão', error);
+      return true; // Em caso de erro, considera como blacklisted por segurança
+    }
+  }
+
   /**
    * Limpa a blacklist (apenas para testes)
    */
@@ -179,7 +235,7 @@ export class TokenBlacklistService {
    * Obtém o TTL padrão para tokens na blacklist
    */
   private getDefaultTTL(): number {
-    // Usa o TTL do refresh token como padrão (7 dias em segundos)
-    return 7 * 24 * 60 * 60; // 7 dias
+    // Usa o TTL do refresh token como padrão (7 dias em milissegundos, unidade do Keyv)
+    return 7 * 24 * 60 * 60 * 1000; // 7 dias
   }
 }
@@ -0,0 +1,207 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { TwoFactorService } from './two-factor.service';
+import { User } from '../../users/entities/user.entity';
+import type { Role } from '../entities/role.entity';
+import { Role as RoleEnum } from '../enums/role.enum';
+import { RedisService } from '../../redis/redis.service';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction } from '../../audit/enums';
+import { AUTH_CONSTANTS } from '../constants/auth.constants';
+import { generateTotp, getTotpStep, hashRecoveryCode } from '../utils/totp.util';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const secret = 'JBSWY3DPEHPK3PXP';
+  const recoveryCode = 'ABCD-EFGH-IJKL';
+
+  const buildUser = (roles: RoleEnum[], overrides: Partial<User> = {}): User =>
+    Object.assign(new User(), {
+      id: 'user-1',
+      email: 'gestor@example.com',
+      two_factor_enabled: true,
+      roles: roles.map(name => ({ name, is_active: true }) as Role),
+      ...overrides,
+    });
+
+  // Contadores do Redis em memória, com o mesmo contrato do INCR
+  const counters = new Map<string, number>();
+
+  const mockRedisService = {
+    increment: jest.fn((key: string) => {
+      const value = (counters.get(key) ?? 0) + 1;
+      counters.set(key, value);
+      return Promise.resolve(value);
+    }),
+    getCounter: jest.fn((key: string) => Promise.resolve(counters.get(key) ?? 0)),
+  };
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    setParameters: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+    execute: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    update: jest.fn(),
+  };
+
+  const mockAuditLogService = {
+    createLog: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    counters.clear();
+
+    mockQueryBuilder.getOne.mockResolvedValue({
+      id: 'user-1',
+      password_hash: 'hash',
+      two_factor_secret: secret,
+      two_factor_recovery_codes: [hashRecoveryCode(recoveryCode)],
+    });
+    mockQueryBuilder.execute.mockResolvedValue({ affected: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        JwtService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'test-secret') } },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: AuditLogService, useValue: mockAuditLogService },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  describe('isRequired', () => {
+    it('should require two-factor authentication for admin and gestor', () => {
+      expect(service.isRequired(buildUser([RoleEnum.ADMIN]))).toBe(true);
+      expect(service.isRequired(buildUser([RoleEnum.GESTOR]))).toBe(true);
+      expect(service.isRequired(buildUser([RoleEnum.MOTORISTA]))).toBe(false);
+    });
+
+    it('should forbid disabling two-factor authentication when the role requires it', async () => {
+      await expect(
+        service.disable(buildUser([RoleEnum.GESTOR]), { password: 'Senha@123', code: '123456' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('challenge', () => {
+    it('should ask a gestor without an authenticator to enroll before logging in', async () => {
+      const challenge = await service.createChallenge(
+        buildUser([RoleEnum.GESTOR], { two_factor_enabled: false }),
+      );
+
+      expect(challenge).toEqual(
+        expect.objectContaining({ two_factor_required: true, setup_required: true }),
+      );
+      await expect(service.resolveChallenge(challenge.challenge_token)).resolves.toEqual({
+        userId: 'user-1',
+        challengeId: expect.any(String),
+      });
+    });
+
+    it('should stop accepting attempts once the limit is reached', async () => {
+      const { challenge_token } = await service.createChallenge(buildUser([RoleEnum.ADMIN]));
+      const { challengeId } = await service.resolveChallenge(challenge_token);
+
+      for (let attempt = 0; attempt < AUTH_CONSTANTS.TWO_FACTOR_MAX_ATTEMPTS; attempt++) {
+        await service.registerAttempt(challengeId);
+      }
+
+      await expect(service.registerAttempt(challengeId)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      await expect(service.resolveChallenge(challenge_token)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+
+    it('should count concurrent attempts atomically', async () => {
+      const { challenge_token } = await service.createChallenge(buildUser([RoleEnum.ADMIN]));
+      const { challengeId } = await service.resolveChallenge(challenge_token);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: AUTH_CONSTANTS.TWO_FACTOR_MAX_ATTEMPTS + 3 }, () =>
+          service.registerAttempt(challengeId),
+        ),
+      );
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(
+        AUTH_CONSTANTS.TWO_FACTOR_MAX_ATTEMPTS,
+      );
+    });
+
+    it('should complete a challenge only once', async () => {
+      const { challenge_token } = await service.createChallenge(buildUser([RoleEnum.ADMIN]));
+      const { challengeId } = await service.resolveChallenge(challenge_token);
+
+      const results = await Promise.allSettled([
+        service.completeChallenge(challengeId),
+        service.completeChallenge(challengeId),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      await expect(service.resolveChallenge(challenge_token)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+
+    it('should refuse the challenge when the attempt counter cannot be updated', async () => {
+      mockRedisService.increment.mockResolvedValueOnce(null as unknown as number);
+
+      await expect(service.registerAttempt('challenge-1')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('verifyLogin', () => {
+    it('should accept a valid authenticator code', async () => {
+      const code = generateTotp(secret, getTotpStep());
+
+      await expect(service.verifyLogin(buildUser([RoleEnum.ADMIN]), { code })).resolves.toBe(
+        'totp',
+      );
+    });
+
+    it('should consume a recovery code so it cannot be used again', async () => {
+      const user = buildUser([RoleEnum.ADMIN]);
+
+      await expect(service.verifyLogin(user, { recovery_code: recoveryCode })).resolves.toBe(
+        'recovery_code',
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        ':hash = ANY(two_factor_recovery_codes)',
+      );
+      expect(mockQueryBuilder.setParameters).toHaveBeenCalledWith({
+        hash: hashRecoveryCode(recoveryCode),
+      });
+
+      // O hash já foi removido: a atualização condicional não encontra a linha
+      mockQueryBuilder.execute.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.verifyLogin(user, { recovery_code: recoveryCode })).resolves.toBeNull();
+      expect(mockAuditLogService.createLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.FAILED_TWO_FACTOR }),
+      );
+    });
+  });
+});
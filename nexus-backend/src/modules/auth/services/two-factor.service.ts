@@ -0,0 +1,519 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { User } from '../../users/entities/user.entity';
+import { RedisService } from '../../redis/redis.service';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+import { AUTH_CONSTANTS, TWO_FACTOR_REQUIRED_ROLES } from '../constants/auth.constants';
+import { deriveTokenSecret } from '../utils/token.util';
+import { comparePassword } from '../utils/password.util';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '../utils/totp.util';
+import type { DisableTwoFactorDto } from '../dto/two-factor.dto';
+import type {
+  TwoFactorChallengeResponseDto,
+  TwoFactorSetupResponseDto,
+} from '../dto/two-factor-response.dto';
+
+/**
+ * Payload do token de desafio de dois fatores
+ */
+interface TwoFactorChallengePayload {
+  sub: string;
+  type: 'two_factor_challenge';
+  jti: string;
+}
+
+/**
+ * Contexto da requisição registrado na auditoria
+ */
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Forma de comprovação do segundo fator aceita no login
+ */
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * Two-Factor Service
+ *
+ * Autenticação em dois fatores por TOTP (RFC 6238):
+ * - Cadastro do autenticador por URI otpauth e confirmação com um código
+ * - Códigos de recuperação de uso único, armazenados como hash
+ * - Desafio de curta duração emitido pelo login antes dos tokens de acesso
+ *
+ * O 2FA é opcional, exceto para os roles de TWO_FACTOR_REQUIRED_ROLES. Um código
+ * TOTP aceito não pode ser reutilizado, e cada desafio admite um número limitado
+ * de tentativas.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Verifica se a política exige 2FA para o usuário
+   */
+  isRequired(user: User): boolean {
+    return (user.roles ?? []).some(
+      role => role.is_active && TWO_FACTOR_REQUIRED_ROLES.includes(role.name),
+    );
+  }
+
+  /**
+   * Emite o desafio de dois fatores do login
+   */
+  async createChallenge(user: User): Promise<TwoFactorChallengeResponseDto> {
+    const expiresIn = AUTH_CONSTANTS.TWO_FACTOR_CHALLENGE_EXPIRATION;
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      type: 'two_factor_challenge',
+      jti: randomUUID(),
+    };
+
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.getChallengeSecret(),
+      expiresIn: `${expiresIn}s`,
+    });
+
+    return {
+      two_factor_required: true,
+      setup_required: !user.two_factor_enabled,
+      challenge_token: challengeToken,
+      expires_in: expiresIn,
+    };
+  }
+
+  /**
+   * Valida o desafio e retorna o usuário e o ID do desafio
+   *
+   * @throws UnauthorizedException se o desafio for inválido, expirado, já
+   * concluído ou tiver esgotado as tentativas
+   */
+  async resolveChallenge(challengeToken: string): Promise<{ userId: string; challengeId: string }> {
+    let payload: TwoFactorChallengePayload;
+
+    try {
+      payload = await this.jwtService.verifyAsync<TwoFactorChallengePayload>(challengeToken, {
+        secret: this.getChallengeSecret(),
+      });
+    } catch {
+      throw new UnauthorizedException('Desafio de dois fatores inválido ou expirado');
+    }
+
+    if (payload.type !== 'two_factor_challenge' || !payload.jti) {
+      throw new UnauthorizedException('Desafio de dois fatores inválido ou expirado');
+    }
+
+    // Sem acesso ao Redis os contadores não podem ser verificados: o desafio é recusado
+    const [attempts, completions] = await Promise.all([
+      this.redisService.getCounter(this.challengeKey(payload.jti, 'attempts')),
+      this.redisService.getCounter(this.challengeKey(payload.jti, 'completed')),
+    ]);
+
+    if (
+      attempts === null ||
+      completions === null ||
+      completions > 0 ||
+      attempts >= AUTH_CONSTANTS.TWO_FACTOR_MAX_ATTEMPTS
+    ) {
+      throw new UnauthorizedException('Desafio de dois fatores inválido ou expirado');
+    }
+
+    return { userId: payload.sub, challengeId: payload.jti };
+  }
+
+  /**
+   * Reserva uma tentativa do desafio antes da verificação do código
+   *
+   * A contagem é um INCR atômico no Redis: requisições concorrentes não
+   * ultrapassam o limite de tentativas.
+   *
+   * @throws UnauthorizedException se as tentativas estiverem esgotadas
+   */
+  async registerAttempt(challengeId: string): Promise<void> {
+    const attempts = await this.redisService.increment(
+      this.challengeKey(challengeId, 'attempts'),
+      this.getChallengeStateTtl(),
+    );
+
+    if (attempts === null || attempts > AUTH_CONSTANTS.TWO_FACTOR_MAX_ATTEMPTS) {
+      throw new UnauthorizedException('Desafio de dois fatores inválido ou expirado');
+    }
+  }
+
+  /**
+   * Encerra o desafio: o token não pode ser usado novamente
+   *
+   * A conclusão é um INCR atômico; apenas a requisição que leva o contador a 1
+   * conclui o desafio, as concorrentes são recusadas.
+   *
+   * @throws UnauthorizedException se o desafio já tiver sido concluído
+   */
+  async completeChallenge(challengeId: string): Promise<void> {
+    const completions = await this.redisService.increment(
+      this.challengeKey(challengeId, 'completed'),
+      this.getChallengeStateTtl(),
+    );
+
+    if (completions !== 1) {
+      throw new UnauthorizedException('Desafio de dois fatores inválido ou expirado');
+    }
+  }
+
+  /**
+   * Inicia o cadastro do autenticador
+   *
+   * O segredo fica pendente até ser confirmado com um código válido; um novo
+   * início substitui o segredo pendente.
+   */
+  async startSetup(user: User): Promise<TwoFactorSetupResponseDto> {
+    if (user.two_factor_enabled) {
+      throw new ConflictException('Autenticação em dois fatores já está ativa');
+    }
+
+    const secret = generateTotpSecret();
+
+    await this.userRepository.update(user.id, {
+      two_factor_secret: secret,
+      two_factor_recovery_codes: null,
+      two_factor_last_step: null,
+    });
+
+    return {
+      secret,
+      otpauth_url: buildOtpauthUri({
+        secret,
+        accountName: user.email,
+        issuer: AUTH_CONSTANTS.TWO_FACTOR_ISSUER,
+      }),
+    };
+  }
+
+  /**
+   * Confirma o cadastro do autenticador e ativa o 2FA
+   *
+   * @returns Códigos de recuperação (exibidos uma única vez), ou null se o código for inválido
+   */
+  async confirmSetup(
+    user: User,
+    code: string,
+    context: RequestContext = {},
+  ): Promise<string[] | null> {
+    if (user.two_factor_enabled) {
+      throw new ConflictException('Autenticação em dois fatores já está ativa');
+    }
+
+    const { two_factor_secret: secret } = await this.loadSecrets(user.id);
+
+    if (!secret) {
+      throw new BadRequestException('Cadastro do autenticador não foi iniciado');
+    }
+
+    if (!(await this.acceptTotp(user, secret, code, context))) {
+      return null;
+    }
+
+    const recoveryCodes = generateRecoveryCodes(AUTH_CONSTANTS.TWO_FACTOR_RECOVERY_CODES);
+
+    await this.userRepository.update(user.id, {
+      two_factor_enabled: true,
+      two_factor_enabled_at: new Date(),
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+    });
+    user.two_factor_enabled = true;
+
+    await this.logTwoFactorEvent(
+      AuditAction.TWO_FACTOR_ENABLE,
+      user,
+      `Two-factor authentication enabled for user ${user.email}`,
+      { required: this.isRequired(user) },
+      context,
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Desativa o 2FA (não permitido quando a política o exige)
+   */
+  async disable(
+    user: User,
+    disableTwoFactorDto: DisableTwoFactorDto,
+    context: RequestContext = {},
+  ): Promise<void> {
+    if (this.isRequired(user)) {
+      throw new ForbiddenException('Autenticação em dois fatores é obrigatória para o seu perfil');
+    }
+
+    const secrets = await this.loadSecrets(user.id);
+
+    if (!user.two_factor_enabled || !secrets.two_factor_secret) {
+      throw new BadRequestException('Autenticação em dois fatores não está ativa');
+    }
+
+    if (!(await comparePassword(disableTwoFactorDto.password, secrets.password_hash))) {
+      await this.logFailedAttempt(user, 'Invalid password', context);
+      throw new BadRequestException('Senha incorreta');
+    }
+
+    if (
+      !(await this.acceptTotp(user, secrets.two_factor_secret, disableTwoFactorDto.code, context))
+    ) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    await this.userRepository.update(user.id, {
+      two_factor_enabled: false,
+      two_factor_enabled_at: null,
+      two_factor_secret: null,
+      two_factor_recovery_codes: null,
+      two_factor_last_step: null,
+    });
+    user.two_factor_enabled = false;
+
+    await this.logTwoFactorEvent(
+      AuditAction.TWO_FACTOR_DISABLE,
+      user,
+      `Two-factor authentication disabled for user ${user.email}`,
+      {},
+      context,
+    );
+  }
+
+  /**
+   * Gera novos códigos de recuperação, invalidando os anteriores
+   */
+  async regenerateRecoveryCodes(
+    user: User,
+    code: string,
+    context: RequestContext = {},
+  ): Promise<string[]> {
+    const { two_factor_secret: secret } = await this.loadSecrets(user.id);
+
+    if (!user.two_factor_enabled || !secret) {
+      throw new BadRequestException('Autenticação em dois fatores não está ativa');
+    }
+
+    if (!(await this.acceptTotp(user, secret, code, context))) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    const recoveryCodes = generateRecoveryCodes(AUTH_CONSTANTS.TWO_FACTOR_RECOVERY_CODES);
+
+    await this.userRepository.update(user.id, {
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+    });
+
+    await this.logTwoFactorEvent(
+      AuditAction.UPDATE,
+      user,
+      `Two-factor recovery codes regenerated for user ${user.email}`,
+      {},
+      context,
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verifica o segundo fator do login (código TOTP ou de recuperação)
+   *
+   * @returns A forma de comprovação aceita, ou null se a verificação falhar
+   */
+  async verifyLogin(
+    user: User,
+    credentials: { code?: string; recovery_code?: string },
+    context: RequestContext = {},
+  ): Promise<TwoFactorMethod | null> {
+    const { two_factor_secret: secret } = await this.loadSecrets(user.id);
+
+    if (!user.two_factor_enabled || !secret) {
+      return null;
+    }
+
+    if (credentials.code) {
+      return (await this.acceptTotp(user, secret, credentials.code, context)) ? 'totp' : null;
+    }
+
+    if (credentials.recovery_code) {
+      return (await this.consumeRecoveryCode(user, credentials.recovery_code, context))
+        ? 'recovery_code'
+        : null;
+    }
+
+    throw new BadRequestException('Informe o código do autenticador ou um código de recuperação');
+  }
+
+  /**
+   * Aceita o código TOTP uma única vez
+   *
+   * O passo de tempo do código é gravado de forma condicional: um código já
+   * aceito (ou anterior a ele) é recusado, inclusive em requisições concorrentes.
+   */
+  private async acceptTotp(
+    user: User,
+    secret: string,
+    code: string,
+    context: RequestContext,
+  ): Promise<boolean> {
+    const step = verifyTotp(secret, code);
+
+    if (step === null) {
+      await this.logFailedAttempt(user, 'Invalid code', context);
+      return false;
+    }
+
+    const result = await this.userRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ two_factor_last_step: step })
+      .where('id = :id', { id: user.id })
+      .andWhere('(two_factor_last_step IS NULL OR two_factor_last_step < :step)', { step })
+      .execute();
+
+    if (!result.affected) {
+      await this.logFailedAttempt(user, 'Code already used', context);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Consome um código de recuperação (remoção condicional do hash)
+   */
+  private async consumeRecoveryCode(
+    user: User,
+    recoveryCode: string,
+    context: RequestContext,
+  ): Promise<boolean> {
+    const hash = hashRecoveryCode(recoveryCode);
+
+    const result = await this.userRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ two_factor_recovery_codes: () => 'array_remove(two_factor_recovery_codes, :hash)' })
+      .where('id = :id', { id: user.id })
+      .andWhere(':hash = ANY(two_factor_recovery_codes)')
+      .setParameters({ hash })
+      .execute();
+
+    if (!result.affected) {
+      await this.logFailedAttempt(user, 'Invalid recovery code', context);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Carrega as colunas sensíveis (não selecionadas por padrão)
+   */
+  private async loadSecrets(
+    userId: string,
+  ): Promise<Pick<User, 'password_hash' | 'two_factor_secret' | 'two_factor_recovery_codes'>> {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .select(['user.id', 'user.password_hash'])
+      .addSelect(['user.two_factor_secret', 'user.two_factor_recovery_codes'])
+      .where('user.id = :userId', { userId })
+      .getOne();
+
+    if (!user) {
+      throw new UnauthorizedException('Usuário não encontrado');
+    }
+
+    return user;
+  }
+
+  private challengeKey(challengeId: string, counter: 'attempts' | 'completed'): string {
+    return `${AUTH_CONSTANTS.TWO_FACTOR_CHALLENGE_CACHE_PREFIX}${challengeId}:${counter}`;
+  }
+
+  /**
+   * Os contadores duram o mesmo que o desafio (TTL em milissegundos)
+   */
+  private getChallengeStateTtl(): number {
+    return AUTH_CONSTANTS.TWO_FACTOR_CHALLENGE_EXPIRATION * 1000;
+  }
+
+  private getChallengeSecret(): string {
+    return deriveTokenSecret(this.configService, 'two-factor-challenge');
+  }
+
+  /**
+   * Log auditoria para códigos de dois fatores inválidos
+   */
+  private async logFailedAttempt(
+    user: User,
+    reason: string,
+    context: RequestContext,
+  ): Promise<void> {
+    await this.logTwoFactorEvent(
+      AuditAction.FAILED_TWO_FACTOR,
+      user,
+      `Failed two-factor attempt for user ${user.email}: ${reason}`,
+      { reason },
+      context,
+    );
+  }
+
+  /**
+   * Log auditoria dos eventos de dois fatores
+   */
+  private async logTwoFactorEvent(
+    action: AuditAction,
+    user: User,
+    description: string,
+    metadata: Record<string, unknown>,
+    { ipAddress, userAgent }: RequestContext,
+  ): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action,
+        category: AuditCategory.AUTH,
+        userId: user.id,
+        userEmail: user.email,
+        resourceType: 'auth',
+        resourceId: user.id,
+        description,
+        metadata: {
+          ...metadata,
+          timestamp: new Date().toISOString(),
+        },
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+      });
+    } catch (error) {
+      this.logger.error('Failed to log two-factor audit', error);
+    }
+  }
+}
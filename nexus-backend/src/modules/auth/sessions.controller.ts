@@ -0,0 +1,229 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Req,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiNotFoundResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { SessionsService, type SessionContext } from './services/sessions.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { Role } from './enums/role.enum';
+import { SessionRevokeReason } from './enums/session-revoke-reason.enum';
+import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { extractTokenFromHeader } from './utils/token.util';
+
+@ApiTags('Authentication')
+@ApiBearerAuth()
+@Controller('auth/sessions')
+@UseGuards(JwtAuthGuard)
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar minhas sessões',
+    description: 'Lista os dispositivos com sessão ativa do usuário autenticado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sessões ativas',
+    type: [SessionResponseDto],
+  })
+  async findMine(@Req() request: AuthenticatedRequest): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionsService.findActiveByUser(request.user.id);
+    const currentSessionId = this.getCurrentSessionId(request);
+
+    return sessions.map(session => SessionResponseDto.fromSession(session, currentSessionId));
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Encerrar as demais sessões',
+    description: 'Encerra todas as sessões do usuário autenticado, exceto a atual',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Sessões encerradas',
+  })
+  async revokeOthers(@Req() request: AuthenticatedRequest): Promise<void> {
+    const currentSessionId = this.getCurrentSessionId(request);
+
+    await this.sessionsService.revokeAllForUser(
+      request.user.id,
+      SessionRevokeReason.REVOKED_BY_USER,
+      {
+        revokedBy: request.user,
+        context: this.getRequestContext(request),
+        ...(currentSessionId && { exceptSessionId: currentSessionId }),
+      },
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Encerrar uma sessão',
+    description:
+      'Encerra uma sessão do usuário autenticado: o refresh token e os access tokens dela deixam de valer',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'UUID da sessão',
+    example: '3f6c1e2a-8d4b-4f7e-9a2c-1b5d7e9f0a3c',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Sessão encerrada',
+  })
+  @ApiNotFoundResponse({
+    description: 'Sessão não encontrada',
+  })
+  async revokeMine(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<void> {
+    await this.sessionsService.revoke(request.user.id, id, SessionRevokeReason.REVOKED_BY_USER, {
+      revokedBy: request.user,
+      context: this.getRequestContext(request),
+    });
+  }
+
+  @Get('users/:userId')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Listar sessões de um usuário',
+    description: 'Lista os dispositivos com sessão ativa de qualquer usuário (somente admin)',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'UUID do usuário',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sessões ativas',
+    type: [SessionResponseDto],
+  })
+  @ApiForbiddenResponse({
+    description: 'Apenas administradores',
+  })
+  async findByUser(@Param('userId', ParseUUIDPipe) userId: string): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionsService.findActiveByUser(userId);
+
+    return sessions.map(session => SessionResponseDto.fromSession(session));
+  }
+
+  @Delete('users/:userId')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Encerrar todas as sessões de um usuário',
+    description: 'Encerra todas as sessões ativas de qualquer usuário (somente admin)',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'UUID do usuário',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Sessões encerradas',
+  })
+  @ApiForbiddenResponse({
+    description: 'Apenas administradores',
+  })
+  async revokeAllOfUser(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<void> {
+    await this.sessionsService.revokeAllForUser(userId, SessionRevokeReason.REVOKED_BY_ADMIN, {
+      revokedBy: request.user,
+      context: this.getRequestContext(request),
+    });
+  }
+
+  @Delete('users/:userId/:id')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Encerrar uma sessão de um usuário',
+    description: 'Encerra uma sessão de qualquer usuário, ex.: dispositivo roubado (somente admin)',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'UUID do usuário',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'UUID da sessão',
+    example: '3f6c1e2a-8d4b-4f7e-9a2c-1b5d7e9f0a3c',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Sessão encerrada',
+  })
+  @ApiNotFoundResponse({
+    description: 'Sessão não encontrada',
+  })
+  @ApiForbiddenResponse({
+    description: 'Apenas administradores',
+  })
+  async revokeOfUser(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<void> {
+    await this.sessionsService.revoke(userId, id, SessionRevokeReason.REVOKED_BY_ADMIN, {
+      revokedBy: request.user,
+      context: this.getRequestContext(request),
+    });
+  }
+
+  /**
+   * ID da sessão do access token da requisição
+   */
+  private getCurrentSessionId(request: Request): string | undefined {
+    const token = extractTokenFromHeader(request.headers.authorization);
+
+    return token ? this.sessionsService.getSessionId(token) : undefined;
+  }
+
+  /**
+   * IP e User-Agent registrados na auditoria
+   */
+  private getRequestContext(request: Request): SessionContext {
+    const userAgent = request.get('User-Agent');
+    const ipAddress =
+      (request.headers['x-forwarded-for'] as string)?.split(',')[0] ??
+      (request.headers['x-real-ip'] as string) ??
+      request.socket.remoteAddress ??
+      'unknown';
+
+    return {
+      ipAddress,
+      ...(userAgent && { userAgent }),
+    };
+  }
+}
@@ -48,14 +48,20 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Token foi invalidado');
     }
 
-    // Verifica se todos os tokens do usuário foram invalidados
+    // Verifica se os tokens do usuário emitidos até a invalidação foram revogados
     const areUserTokensBlacklisted = await this.tokenBlacklistService.areUserTokensBlacklisted(
       payload.sub,
+      payload.iat,
     );
     if (areUserTokensBlacklisted) {
       throw new UnauthorizedException('Tokens do usuário foram invalidados');
     }
 
+    // Verifica se a sessão do token foi encerrada (logout, revogação ou reutilização)
+    if (payload.sid && (await this.tokenBlacklistService.isSessionBlacklisted(payload.sid))) {
+      throw new UnauthorizedException('Sessão encerrada');
+    }
+
     const user = await this.usersService.findOne(payload.sub);
 
     if (!user) {
@@ -0,0 +1,261 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Req,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import type { Request } from 'express';
+import { AuthService } from './auth.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import type { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
+import { LoginResponseDto } from './dto/login-response.dto';
+import {
+  DisableTwoFactorDto,
+  EnableTwoFactorChallengeDto,
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  VerifyTwoFactorDto,
+} from './dto/two-factor.dto';
+import {
+  TwoFactorLoginResponseDto,
+  TwoFactorRecoveryCodesResponseDto,
+  TwoFactorSetupResponseDto,
+} from './dto/two-factor-response.dto';
+
+@ApiTags('Authentication')
+@Controller('auth/2fa')
+@UseGuards(ThrottlerGuard)
+export class TwoFactorController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Concluir login com o segundo fator',
+    description:
+      'Conclui o login com o desafio emitido por /auth/login e o código do autenticador ou um código de recuperação',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login realizado com sucesso',
+    type: LoginResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Nenhum código informado',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Desafio inválido, expirado ou com tentativas esgotadas, ou código inválido',
+  })
+  async verify(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Req() request: Request,
+  ): Promise<LoginResponseDto> {
+    const { ipAddress, userAgent } = this.getRequestContext(request);
+
+    return this.authService.verifyTwoFactor(verifyTwoFactorDto, ipAddress, userAgent);
+  }
+
+  @Post('challenge/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Iniciar cadastro obrigatório do autenticador',
+    description:
+      'Para contas em que o 2FA é obrigatório e ainda não foi cadastrado: retorna o segredo e a URI otpauth a partir do desafio do login',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Segredo gerado, aguardando confirmação',
+    type: TwoFactorSetupResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Desafio inválido ou expirado',
+  })
+  @ApiConflictResponse({
+    description: 'Autenticação em dois fatores já está ativa',
+  })
+  async challengeSetup(
+    @Body() twoFactorChallengeDto: TwoFactorChallengeDto,
+  ): Promise<TwoFactorSetupResponseDto> {
+    return this.authService.startTwoFactorSetupFromChallenge(twoFactorChallengeDto.challenge_token);
+  }
+
+  @Post('challenge/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirmar cadastro obrigatório do autenticador',
+    description:
+      'Ativa o 2FA com o primeiro código do autenticador e conclui o login. Os códigos de recuperação são exibidos uma única vez',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: '2FA ativado e login realizado',
+    type: TwoFactorLoginResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Cadastro do autenticador não foi iniciado',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Desafio inválido, expirado ou com tentativas esgotadas, ou código inválido',
+  })
+  async challengeEnable(
+    @Body() enableTwoFactorDto: EnableTwoFactorChallengeDto,
+    @Req() request: Request,
+  ): Promise<TwoFactorLoginResponseDto> {
+    const { ipAddress, userAgent } = this.getRequestContext(request);
+
+    return this.authService.enableTwoFactorFromChallenge(enableTwoFactorDto, ipAddress, userAgent);
+  }
+
+  @Post('setup')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Iniciar cadastro do autenticador',
+    description:
+      'Gera o segredo TOTP e a URI otpauth para o aplicativo autenticador. O 2FA só é ativado após a confirmação com um código',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Segredo gerado, aguardando confirmação',
+    type: TwoFactorSetupResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Autenticação em dois fatores já está ativa',
+  })
+  async setup(@Req() request: AuthenticatedRequest): Promise<TwoFactorSetupResponseDto> {
+    return this.twoFactorService.startSetup(request.user);
+  }
+
+  @Post('enable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Ativar autenticação em dois fatores',
+    description:
+      'Confirma o cadastro com um código do autenticador. Os códigos de recuperação são exibidos uma única vez',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: '2FA ativado',
+    type: TwoFactorRecoveryCodesResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Código inválido ou cadastro não iniciado',
+  })
+  @ApiConflictResponse({
+    description: 'Autenticação em dois fatores já está ativa',
+  })
+  async enable(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<TwoFactorRecoveryCodesResponseDto> {
+    const recoveryCodes = await this.twoFactorService.confirmSetup(
+      request.user,
+      twoFactorCodeDto.code,
+      this.getRequestContext(request),
+    );
+
+    if (!recoveryCodes) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  @Post('disable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Desativar autenticação em dois fatores',
+    description:
+      'Remove o autenticador da conta mediante senha e código. Não permitido para perfis em que o 2FA é obrigatório',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: '2FA desativado',
+  })
+  @ApiBadRequestResponse({
+    description: 'Senha ou código inválido, ou 2FA não está ativo',
+  })
+  @ApiForbiddenResponse({
+    description: 'Autenticação em dois fatores é obrigatória para o perfil',
+  })
+  async disable(
+    @Body() disableTwoFactorDto: DisableTwoFactorDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<void> {
+    await this.twoFactorService.disable(
+      request.user,
+      disableTwoFactorDto,
+      this.getRequestContext(request),
+    );
+  }
+
+  @Post('recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Gerar novos códigos de recuperação',
+    description: 'Substitui os códigos de recuperação atuais mediante um código do autenticador',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Novos códigos gerados',
+    type: TwoFactorRecoveryCodesResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Código inválido ou 2FA não está ativo',
+  })
+  async regenerateRecoveryCodes(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<TwoFactorRecoveryCodesResponseDto> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      request.user,
+      twoFactorCodeDto.code,
+      this.getRequestContext(request),
+    );
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * IP e User-Agent registrados na auditoria
+   */
+  private getRequestContext(request: Request): { ipAddress: string; userAgent?: string } {
+    const userAgent = request.get('User-Agent');
+    const ipAddress =
+      (request.headers['x-forwarded-for'] as string)?.split(',')[0] ??
+      (request.headers['x-real-ip'] as string) ??
+      request.socket.remoteAddress ??
+      'unknown';
+
+    return {
+      ipAddress,
+      ...(userAgent && { userAgent }),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { IsNull } from 'typeorm';
+import { DataScopes } from './data-scope.util';
+import { Role } from '../enums/role.enum';
+import type { User } from '../../users/entities/user.entity';
+
+interface ScopedRecord {
+  id: string;
+  status: string;
+  customer_id: string;
+  driver_id: string;
+}
+
+const buildUser = (roles: Role[], links: Partial<User> = {}): User =>
+  ({
+    id: 'user-1',
+    roles: roles.map(name => ({ name, is_active: true })),
+    ...links,
+  }) as unknown as User;
+
+describe('DataScopes', () => {
+  describe('forUser', () => {
+    it('should not restrict operations roles', () => {
+      expect(DataScopes.forUser(buildUser([Role.DESPACHANTE])).unrestricted).toBe(true);
+    });
+
+    it('should restrict customers and drivers to their links', () => {
+      const scope = DataScopes.forUser(
+        buildUser([Role.CLIENTE], { customer_id: 'customer-1', driver_id: 'driver-1' }),
+      );
+
+      expect(scope).toEqual({ unrestricted: false, userId: 'user-1', customerId: 'customer-1' });
+    });
+
+    it('should ignore inactive roles', () => {
+      const user = buildUser([], { driver_id: 'driver-1' });
+      user.roles = [{ name: Role.ADMIN, is_active: false } as User['roles'][number]];
+
+      expect(DataScopes.forUser(user)).toEqual({ unrestricted: false, userId: 'user-1' });
+    });
+  });
+
+  describe('where', () => {
+    const fields = { customer: 'customer_id', driver: 'driver_id' } as const;
+
+    it('should keep the conditions for unrestricted scopes', () => {
+      expect(
+        DataScopes.where<ScopedRecord>({ status: 'open' }, { unrestricted: true }, fields),
+      ).toEqual([{ status: 'open' }]);
+    });
+
+    it('should add one condition per linked owner', () => {
+      const scope = { unrestricted: false, customerId: 'customer-1', driverId: 'driver-1' };
+
+      expect(DataScopes.where<ScopedRecord>({ status: 'open' }, scope, fields)).toEqual([
+        { status: 'open', customer_id: 'customer-1' },
+        { status: 'open', driver_id: 'driver-1' },
+      ]);
+    });
+
+    it('should match nothing when no owner applies', () => {
+      const scope = { unrestricted: false, userId: 'user-1', driverId: 'driver-1' };
+
+      expect(DataScopes.where<ScopedRecord>({}, scope, { customer: 'customer_id' })).toEqual([
+        { id: IsNull() },
+      ]);
+    });
+  });
+});
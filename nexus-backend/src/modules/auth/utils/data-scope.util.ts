@@ -0,0 +1,119 @@
+/**
+ * Data Scopes
+ *
+ * Limita as consultas aos registros do solicitante: usuários cliente e motorista
+ * veem apenas o que está vinculado a eles, perfis de operação veem tudo.
+ *
+ * Registros fora do escopo devem ser tratados como inexistentes (404), para que
+ * a resposta não revele que o ID existe.
+ *
+ * @module Auth/Utils
+ */
+
+import {
+  IsNull,
+  type FindOptionsWhere,
+  type ObjectLiteral,
+  type SelectQueryBuilder,
+} from 'typeorm';
+import { Role } from '../enums/role.enum';
+import type { User } from '../../users/entities/user.entity';
+import type {
+  DataScope,
+  DataScopeFields,
+  DataScopeOwner,
+} from '../interfaces/data-scope.interface';
+
+/**
+ * Perfis que acessam os registros de toda a operação
+ */
+const UNRESTRICTED_ROLES: string[] = [Role.ADMIN, Role.GESTOR, Role.DESPACHANTE];
+
+const OWNERS: DataScopeOwner[] = ['user', 'customer', 'driver'];
+
+export class DataScopes {
+  /**
+   * Escopo do usuário autenticado
+   *
+   * Os vínculos com cliente e motorista só valem para quem tem o role
+   * correspondente; roles fora da operação sem vínculo não veem registros.
+   */
+  static forUser(user: User): DataScope {
+    const roles = (user.roles ?? []).filter(role => role.is_active).map(role => role.name);
+
+    if (roles.some(role => UNRESTRICTED_ROLES.includes(role))) {
+      return { unrestricted: true, userId: user.id };
+    }
+
+    return {
+      unrestricted: false,
+      userId: user.id,
+      ...(roles.includes(Role.CLIENTE) && user.customer_id ? { customerId: user.customer_id } : {}),
+      ...(roles.includes(Role.MOTORISTA) && user.driver_id ? { driverId: user.driver_id } : {}),
+    };
+  }
+
+  /**
+   * Escopo de um cliente (ex.: chave de API da integração)
+   */
+  static forCustomer(customerId: string): DataScope {
+    return { unrestricted: false, customerId };
+  }
+
+  /**
+   * Condições de busca (OR) limitadas ao escopo
+   *
+   * Sem vínculo aplicável, a condição não encontra nenhum registro.
+   *
+   * @example
+   * ```typescript
+   * repository.findOne({
+   *   where: DataScopes.where({ id }, scope, { customer: 'customer_id', driver: 'driver_id' }),
+   * });
+   * ```
+   */
+  static where<T extends { id: string }>(
+    where: NoInfer<FindOptionsWhere<T>>,
+    scope: DataScope,
+    fields: DataScopeFields<T>,
+  ): FindOptionsWhere<T>[] {
+    if (scope.unrestricted) {
+      return [where];
+    }
+
+    const owned = OWNERS.flatMap(owner => {
+      const field = fields[owner];
+      const ownerId = this.ownerId(scope, owner);
+
+      return field && ownerId ? [{ ...where, [field]: ownerId } as FindOptionsWhere<T>] : [];
+    });
+
+    return owned.length > 0 ? owned : [{ ...where, id: IsNull() } as FindOptionsWhere<T>];
+  }
+
+  /**
+   * Aplica o escopo a um query builder da entidade principal
+   */
+  static apply<T extends ObjectLiteral & { id: string }>(
+    queryBuilder: SelectQueryBuilder<T>,
+    scope: DataScope,
+    fields: DataScopeFields<T>,
+  ): SelectQueryBuilder<T> {
+    if (scope.unrestricted) {
+      return queryBuilder;
+    }
+
+    return queryBuilder.andWhere(this.where<T>({}, scope, fields));
+  }
+
+  private static ownerId(scope: DataScope, owner: DataScopeOwner): string | undefined {
+    switch (owner) {
+      case 'user':
+        return scope.userId;
+      case 'customer':
+        return scope.customerId;
+      case 'driver':
+        return scope.driverId;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { expandRoleHierarchy } from './role-hierarchy.util';
+import { Role } from '../enums/role.enum';
+
+describe('expandRoleHierarchy', () => {
+  it('should include the role itself and every role below it', () => {
+    expect(expandRoleHierarchy(Role.GESTOR).sort()).toEqual(
+      [Role.GESTOR, Role.DESPACHANTE, Role.MOTORISTA].sort(),
+    );
+    expect(expandRoleHierarchy(Role.ADMIN).sort()).toEqual(Object.values(Role).sort());
+  });
+
+  it('should return only the role for leaf roles', () => {
+    expect(expandRoleHierarchy(Role.MOTORISTA)).toEqual([Role.MOTORISTA]);
+    expect(expandRoleHierarchy(Role.CLIENTE)).toEqual([Role.CLIENTE]);
+  });
+
+  it('should return only the role for roles outside the hierarchy', () => {
+    expect(expandRoleHierarchy('auditor')).toEqual(['auditor']);
+  });
+});
@@ -0,0 +1,40 @@
+import { RoleHierarchy } from '../enums/role.enum';
+
+/**
+ * Utilitários da hierarquia de roles
+ *
+ * Roles superiores herdam as permissões dos roles abaixo deles em `RoleHierarchy`.
+ */
+
+/**
+ * Expande um role para ele mesmo e todos os roles abaixo dele na hierarquia
+ *
+ * A expansão é transitiva; roles fora da hierarquia (criados pela administração)
+ * retornam apenas a si mesmos.
+ *
+ * @param roleName - Nome do role
+ * @returns Nomes dos roles cujas permissões o role recebe
+ *
+ * @example
+ * ```typescript
+ * expandRoleHierarchy('gestor'); // ['gestor', 'despachante', 'motorista']
+ * ```
+ */
+export function expandRoleHierarchy(roleName: string): string[] {
+  const expanded = new Set<string>([roleName]);
+  const pending = [roleName];
+
+  while (pending.length > 0) {
+    const current = pending.pop() ?? '';
+    const inferiors: string[] = RoleHierarchy[current as keyof typeof RoleHierarchy] ?? [];
+
+    for (const inferior of inferiors) {
+      if (!expanded.has(inferior)) {
+        expanded.add(inferior);
+        pending.push(inferior);
+      }
+    }
+  }
+
+  return [...expanded];
+}
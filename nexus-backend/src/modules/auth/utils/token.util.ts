@@ -1,3 +1,4 @@
+import { createHmac } from 'crypto';
 import type { JwtService } from '@nestjs/jwt';
 import type { ConfigService } from '@nestjs/config';
 import {
@@ -99,6 +100,32 @@ export async function verifyToken(
   }
 }
 
+/**
+ * Deriva do JWT_SECRET a chave de assinatura de tokens com finalidade própria
+ *
+ * Tokens assinados com a chave derivada não são aceitos como access token
+ * nem por outra finalidade.
+ *
+ * @param configService - Instância do ConfigService
+ * @param purpose - Finalidade do token (ex.: 'account-token:PASSWORD_RESET')
+ * @returns string - Chave de assinatura
+ *
+ * @example
+ * ```typescript
+ * const secret = deriveTokenSecret(configService, 'two-factor-challenge');
+ * const token = await jwtService.signAsync(payload, { secret, expiresIn: '300s' });
+ * ```
+ */
+export function deriveTokenSecret(configService: ConfigService, purpose: string): string {
+  const secret = configService.get<string>('JWT_SECRET');
+
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+
+  return createHmac('sha256', secret).update(purpose).digest('hex');
+}
+
 /**
  * Extrai o token do header de autorização
  *
@@ -0,0 +1,68 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp.util';
+
+// Segredo dos vetores de teste da RFC 6238 (ASCII "12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp util', () => {
+  it('should round-trip Base32', () => {
+    const buffer = Buffer.from('foobar');
+
+    expect(base32Encode(buffer)).toBe('MZXW6YTBOI');
+    expect(base32Decode('mzxw6ytboi======')).toEqual(buffer);
+    expect(() => base32Decode('MZXW1')).toThrow();
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000), 8)).toBe('07081804');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000), 8)).toBe('89005924');
+    expect(generateTotp(RFC_SECRET, getTotpStep(2000000000 * 1000), 8)).toBe('69279037');
+  });
+
+  it('should accept codes within the window and return their step', () => {
+    const secret = generateTotpSecret();
+    const timestamp = 1_700_000_000_000;
+    const step = getTotpStep(timestamp);
+
+    expect(verifyTotp(secret, generateTotp(secret, step), { timestamp })).toBe(step);
+    expect(verifyTotp(secret, generateTotp(secret, step - 1), { timestamp })).toBe(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, step + 2), { timestamp })).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    const secret = generateTotpSecret();
+
+    expect(verifyTotp(secret, '12345')).toBeNull();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri({
+      secret: 'JBSWY3DPEHPK3PXP',
+      accountName: 'gestor@nexustransit.com',
+      issuer: 'NexusTransit',
+    });
+
+    expect(uri).toBe(
+      'otpauth://totp/NexusTransit:gestor%40nexustransit.com?secret=JBSWY3DPEHPK3PXP&issuer=NexusTransit&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+
+  it('should generate unique recovery codes hashed case-insensitively', () => {
+    const codes = generateRecoveryCodes(10);
+
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    expect(hashRecoveryCode(' ABCDE-12345 ')).toBe(hashRecoveryCode('abcde-12345'));
+  });
+});
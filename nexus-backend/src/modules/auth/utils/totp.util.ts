@@ -0,0 +1,184 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Utilitários de TOTP (RFC 6238) para autenticação em dois fatores
+ *
+ * Compatível com aplicativos autenticadores (Google Authenticator, Authy,
+ * 1Password etc.): HMAC-SHA1, códigos de 6 dígitos e passo de 30 segundos.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Duração de cada passo de tempo (segundos)
+ */
+export const TOTP_PERIOD = 30;
+
+/**
+ * Quantidade de dígitos dos códigos
+ */
+export const TOTP_DIGITS = 6;
+
+/**
+ * Codifica bytes em Base32 (RFC 4648, sem padding)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodifica Base32 (ignora padding, espaços e caixa)
+ *
+ * @throws Error se houver caracteres fora do alfabeto Base32
+ */
+export function base32Decode(input: string): Buffer {
+  const normalized = input.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error(`Caractere Base32 inválido: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Gera um segredo TOTP aleatório em Base32 (160 bits, tamanho recomendado para SHA-1)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Passo de tempo correspondente ao instante informado
+ */
+export function getTotpStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Gera o código TOTP de um passo de tempo (HOTP com o passo como contador)
+ *
+ * @example
+ * ```typescript
+ * const code = generateTotp(secret, getTotpStep());
+ * console.log(code); // '287082'
+ * ```
+ */
+export function generateTotp(secret: string, step: number, digits: number = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = (hmac[hmac.length - 1] ?? 0) & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Verifica um código TOTP tolerando `window` passos de diferença de relógio
+ *
+ * @returns O passo de tempo do código aceito, ou null se o código for inválido.
+ * O passo permite recusar a reutilização de um código já aceito.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { window?: number; timestamp?: number } = {},
+): number | null {
+  const { window = 1, timestamp = Date.now() } = options;
+  const normalized = code.replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(timestamp);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = Buffer.from(generateTotp(secret, step));
+
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Monta a URI otpauth:// exibida como QR code no cadastro do autenticador
+ *
+ * @example
+ * ```typescript
+ * buildOtpauthUri({ secret, accountName: 'user@domain.com', issuer: 'NexusTransit' });
+ * // otpauth://totp/NexusTransit:user%40domain.com?secret=...&issuer=NexusTransit&algorithm=SHA1&digits=6&period=30
+ * ```
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.accountName)}`;
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
+
+/**
+ * Gera códigos de recuperação no formato `xxxxx-xxxxx`
+ */
+export function generateRecoveryCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/**
+ * Hash SHA-256 de um código de recuperação (os códigos são armazenados apenas como hash)
+ */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+}
@@ -0,0 +1,41 @@
+import { describeDevice } from './user-agent.util';
+
+describe('describeDevice', () => {
+  it('should identify desktop browsers', () => {
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+      ),
+    ).toBe('Chrome em Windows');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51',
+      ),
+    ).toBe('Edge em Windows');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:125.0) Gecko/20100101 Firefox/125.0',
+      ),
+    ).toBe('Firefox em macOS');
+  });
+
+  it('should identify mobile devices', () => {
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+      ),
+    ).toBe('Safari em iOS');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+      ),
+    ).toBe('Chrome em Android');
+    expect(describeDevice('okhttp/4.12.0')).toBe('App Android');
+  });
+
+  it('should fall back for missing or unknown user agents', () => {
+    expect(describeDevice(undefined)).toBeNull();
+    expect(describeDevice('  ')).toBeNull();
+    expect(describeDevice('NexusTransitBot/1.0')).toBe('Dispositivo desconhecido');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Utilitários para identificação do dispositivo pelo User-Agent
+ *
+ * Usados para exibir as sessões ativas de forma legível ao usuário. A
+ * identificação é aproximada e não deve ser usada para decisões de segurança.
+ */
+
+/**
+ * Navegadores e clientes reconhecidos, em ordem de precedência
+ * (Edge e Opera também se identificam como Chrome; Chrome como Safari)
+ */
+const CLIENT_PATTERNS: readonly [RegExp, string][] = [
+  [/\bEdg(?:e|A|iOS)?\//, 'Edge'],
+  [/\b(?:OPR|Opera)\//, 'Opera'],
+  [/\bSamsungBrowser\//, 'Samsung Internet'],
+  [/\b(?:Chrome|CriOS)\//, 'Chrome'],
+  [/\b(?:Firefox|FxiOS)\//, 'Firefox'],
+  [/\bVersion\/[\d.]+.*Safari\//, 'Safari'],
+  [/\bokhttp\//i, 'App Android'],
+  [/\bDart\//, 'App Flutter'],
+  [/\bPostmanRuntime\//, 'Postman'],
+  [/\bcurl\//, 'curl'],
+];
+
+/**
+ * Sistemas operacionais reconhecidos, em ordem de precedência
+ * (Android também se identifica como Linux; iOS como Mac OS X)
+ */
+const OS_PATTERNS: readonly [RegExp, string][] = [
+  [/\bAndroid\b/, 'Android'],
+  [/\b(?:iPhone|iPad|iPod)\b/, 'iOS'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+/**
+ * Descreve o dispositivo de uma sessão a partir do User-Agent
+ *
+ * @param userAgent - Header User-Agent da requisição
+ * @returns string | null - Descrição (ex.: "Chrome em Windows") ou null se ausente
+ *
+ * @example
+ * ```typescript
+ * describeDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) ... Version/17.0 Mobile/15E148 Safari/604.1');
+ * // 'Safari em iOS'
+ * ```
+ */
+export function describeDevice(userAgent?: string | null): string | null {
+  if (!userAgent?.trim()) {
+    return null;
+  }
+
+  const client = CLIENT_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (client && os) {
+    return `${client} em ${os}`;
+  }
+
+  return client ?? os ?? 'Dispositivo desconhecido';
+}
@@ -9,15 +9,28 @@ import {
   Query,
   ParseUUIDPipe,
   BadRequestException,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { CustomerAddress } from './entities/customer-address.entity';
 import { CustomersService } from './customers.service';
 import { CreateCustomerAddressDto } from './dto/create-customer-address.dto';
 import { UpdateCustomerAddressDto } from './dto/update-customer-address.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentDataScope } from '../auth/decorators/current-data-scope.decorator';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
 @ApiTags('Customer Addresses')
 @Controller('customers/:customerId/addresses')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
 export class CustomerAddressesController {
   constructor(private readonly customersService: CustomersService) {}
 
@@ -30,7 +43,10 @@ export class CustomerAddressesController {
   async create(
     @Param('customerId', ParseUUIDPipe) customerId: string,
     @Body() createAddressDto: CreateCustomerAddressDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<CustomerAddress> {
+    await this.customersService.assertInScope(customerId, scope);
+
     try {
       return await this.customersService.createAddress(customerId, createAddressDto);
     } catch (error) {
@@ -47,9 +63,12 @@ export class CustomerAddressesController {
   @ApiResponse({ status: 404, description: 'Customer not found' })
   async findAll(
     @Param('customerId', ParseUUIDPipe) customerId: string,
+    @CurrentDataScope() scope: DataScope,
     @Query('type') type?: string,
     @Query('isPrimary') isPrimary?: string,
   ): Promise<CustomerAddress[]> {
+    await this.customersService.assertInScope(customerId, scope);
+
     const filters: { type?: string; isPrimary?: boolean } = {};
 
     if (type !== undefined) {
@@ -70,7 +89,10 @@ export class CustomerAddressesController {
   @ApiResponse({ status: 404, description: 'Customer or primary address not found' })
   async findPrimary(
     @Param('customerId', ParseUUIDPipe) customerId: string,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<CustomerAddress> {
+    await this.customersService.assertInScope(customerId, scope);
+
     return this.customersService.findPrimaryAddress(customerId);
   }
 
@@ -83,7 +105,10 @@ export class CustomerAddressesController {
   async findOne(
     @Param('customerId', ParseUUIDPipe) customerId: string,
     @Param('addressId', ParseUUIDPipe) addressId: string,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<CustomerAddress> {
+    await this.customersService.assertInScope(customerId, scope);
+
     return this.customersService.findAddressById(customerId, addressId);
   }
 
@@ -98,7 +123,10 @@ export class CustomerAddressesController {
     @Param('customerId', ParseUUIDPipe) customerId: string,
     @Param('addressId', ParseUUIDPipe) addressId: string,
     @Body() updateAddressDto: UpdateCustomerAddressDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<CustomerAddress> {
+    await this.customersService.assertInScope(customerId, scope);
+
     try {
       return await this.customersService.updateAddress(customerId, addressId, updateAddressDto);
     } catch (error) {
@@ -119,7 +147,10 @@ export class CustomerAddressesController {
   async setPrimary(
     @Param('customerId', ParseUUIDPipe) customerId: string,
     @Param('addressId', ParseUUIDPipe) addressId: string,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<CustomerAddress> {
+    await this.customersService.assertInScope(customerId, scope);
+
     return this.customersService.setPrimaryAddress(customerId, addressId);
   }
 
@@ -133,7 +164,10 @@ export class CustomerAddressesController {
   async remove(
     @Param('customerId', ParseUUIDPipe) customerId: string,
     @Param('addressId', ParseUUIDPipe) addressId: string,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<void> {
+    await this.customersService.assertInScope(customerId, scope);
+
     try {
       await this.customersService.removeAddress(customerId, addressId);
     } catch (error) {
@@ -9,23 +9,40 @@ import {
   Query,
   ParseUUIDPipe,
   HttpStatus,
+  UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { CustomersService } from './customers.service';
 import { Customer } from './entities/customer.entity';
 import { CreateCustomerDto } from './dto/create-customer.dto';
 import { UpdateCustomerDto } from './dto/update-customer.dto';
 import { CustomerFilterDto } from './dto/customer-filter.dto';
 import { CustomerAuditContextInterceptor, CustomerStatusInterceptor } from './interceptors';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import { CurrentDataScope } from '../auth/decorators/current-data-scope.decorator';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
 @ApiTags('Customers')
 @Controller('customers')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
 @UseInterceptors(CustomerAuditContextInterceptor, CustomerStatusInterceptor)
 export class CustomersController {
   constructor(private readonly customersService: CustomersService) {}
 
   @Post()
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
   @ApiOperation({ summary: 'Create a new customer' })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -91,14 +108,17 @@ export class CustomersController {
       },
     },
   })
-  findAll(@Query() filter: CustomerFilterDto): Promise<{
+  findAll(
+    @Query() filter: CustomerFilterDto,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<{
     data: Customer[];
     total: number;
     page: number;
     limit: number;
     totalPages: number;
   }> {
-    return this.customersService.findAll(filter);
+    return this.customersService.findAll(filter, scope);
   }
 
   @Get(':id')
@@ -113,11 +133,15 @@ export class CustomersController {
     status: HttpStatus.NOT_FOUND,
     description: 'Customer not found',
   })
-  findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Customer> {
-    return this.customersService.findOne(id);
+  findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<Customer> {
+    return this.customersService.findOne(id, scope);
   }
 
   @Patch(':id')
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
   @ApiOperation({ summary: 'Update a customer' })
   @ApiParam({ name: 'id', description: 'Customer UUID' })
   @ApiResponse({
@@ -145,6 +169,7 @@ export class CustomersController {
   }
 
   @Delete(':id')
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
   @ApiOperation({ summary: 'Soft delete a customer' })
   @ApiParam({ name: 'id', description: 'Customer UUID' })
   @ApiResponse({
@@ -160,6 +185,7 @@ export class CustomersController {
   }
 
   @Post(':id/restore')
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
   @ApiOperation({ summary: 'Restore a soft deleted customer' })
   @ApiParam({ name: 'id', description: 'Customer UUID' })
   @ApiResponse({
@@ -191,8 +217,11 @@ export class CustomersController {
     status: HttpStatus.NOT_FOUND,
     description: 'Customer not found',
   })
-  findByTaxId(@Param('taxId') taxId: string): Promise<Customer> {
-    return this.customersService.findByTaxId(taxId);
+  findByTaxId(
+    @Param('taxId') taxId: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<Customer> {
+    return this.customersService.findByTaxId(taxId, scope);
   }
 
   @Get('email/:email')
@@ -207,7 +236,10 @@ export class CustomersController {
     status: HttpStatus.NOT_FOUND,
     description: 'Customer not found',
   })
-  findByEmail(@Param('email') email: string): Promise<Customer> {
-    return this.customersService.findByEmail(email);
+  findByEmail(
+    @Param('email') email: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<Customer> {
+    return this.customersService.findByEmail(email, scope);
   }
 }
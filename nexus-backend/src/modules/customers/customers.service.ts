@@ -19,6 +19,13 @@ import { CustomerStatus } from './enums/customer-status.enum';
 import { AddressType } from './enums/address-type.enum';
 import { ViaCepService } from './services/viacep.service';
 import { GeocodingService } from './services/geocoding.service';
+import { DataScopes } from '../auth/utils/data-scope.util';
+import type { DataScope, DataScopeFields } from '../auth/interfaces/data-scope.interface';
+
+/**
+ * Dono de um cliente: o usuário cliente vinculado a ele
+ */
+const CUSTOMER_SCOPE_FIELDS: DataScopeFields<Customer> = { customer: 'id' };
 
 @Injectable()
 export class CustomersService {
@@ -163,7 +170,10 @@ export class CustomersService {
     }
   }
 
-  async findAll(filter: CustomerFilterDto): Promise<{
+  async findAll(
+    filter: CustomerFilterDto,
+    scope?: DataScope,
+  ): Promise<{
     data: Customer[];
     total: number;
     page: number;
@@ -205,7 +215,7 @@ export class CustomersService {
 
     // Execute query with pagination
     const [data, total] = await this.customerRepository.findAndCount({
-      where,
+      where: scope ? DataScopes.where(where, scope, CUSTOMER_SCOPE_FIELDS) : where,
       relations: ['addresses', 'contacts', 'preferences'],
       order: {
         [sortBy]: sortOrder.toUpperCase() as 'ASC' | 'DESC',
@@ -227,11 +237,11 @@ export class CustomersService {
     };
   }
 
-  async findOne(id: string): Promise<Customer> {
+  async findOne(id: string, scope?: DataScope): Promise<Customer> {
     this.logger.debug(`Buscando cliente: ${id}`);
 
     const customer = await this.customerRepository.findOne({
-      where: { id },
+      where: scope ? DataScopes.where({ id }, scope, CUSTOMER_SCOPE_FIELDS) : { id },
       relations: ['addresses', 'contacts', 'preferences'],
     });
 
@@ -408,9 +418,9 @@ export class CustomersService {
     }
   }
 
-  async findByTaxId(taxId: string): Promise<Customer> {
+  async findByTaxId(taxId: string, scope?: DataScope): Promise<Customer> {
     const customer = await this.customerRepository.findOne({
-      where: { taxId },
+      where: scope ? DataScopes.where({ taxId }, scope, CUSTOMER_SCOPE_FIELDS) : { taxId },
       relations: ['addresses', 'contacts', 'preferences'],
     });
 
@@ -421,9 +431,9 @@ export class CustomersService {
     return customer;
   }
 
-  async findByEmail(email: string): Promise<Customer> {
+  async findByEmail(email: string, scope?: DataScope): Promise<Customer> {
     const customer = await this.customerRepository.findOne({
-      where: { email },
+      where: scope ? DataScopes.where({ email }, scope, CUSTOMER_SCOPE_FIELDS) : { email },
       relations: ['addresses', 'contacts', 'preferences'],
     });
 
@@ -434,6 +444,19 @@ export class CustomersService {
     return customer;
   }
 
+  /**
+   * Garante que o cliente existe e está no escopo do solicitante
+   */
+  async assertInScope(id: string, scope: DataScope): Promise<void> {
+    const exists = await this.customerRepository.exists({
+      where: DataScopes.where({ id }, scope, CUSTOMER_SCOPE_FIELDS),
+    });
+
+    if (!exists) {
+      throw new NotFoundException(`Customer with ID ${id} not found`);
+    }
+  }
+
   // Address management methods
   async createAddress(
     customerId: string,
@@ -23,6 +23,12 @@ export const deliveryConfig = registerAs('delivery', () => ({
     /** Raio de geofence para detecção de chegada (metros) */
     arrivalRadiusMeters: Number.parseInt(process.env.GEOFENCE_RADIUS ?? '100', 10),
 
+    /** Tempo dentro de uma geofence para gerar o evento de permanência (minutos) */
+    geofenceDwellMinutes: Number.parseInt(process.env.GEOFENCE_DWELL_MINUTES ?? '5', 10),
+
+    /** Precisão mínima do GPS para avaliar geofences (metros); pings menos precisos são ignorados */
+    geofenceMaxAccuracyMeters: Number.parseInt(process.env.GEOFENCE_MAX_ACCURACY ?? '100', 10),
+
     /** Dias até expiração do código */
     expirationDays: Number.parseInt(process.env.TRACKING_EXPIRATION_DAYS ?? '90', 10),
   },
@@ -100,8 +106,8 @@ export const deliveryConfig = registerAs('delivery', () => ({
    * Configurações de otimização de rotas
    */
   routeOptimization: {
-    /** Algoritmo de otimização: nearest-neighbor, genetic, ant-colony */
-    algorithm: process.env.ROUTE_OPTIMIZATION_ALGORITHM ?? 'nearest-neighbor',
+    /** Solver de roteirização: savings (savings + 2-opt/or-opt) ou nearest-neighbor */
+    algorithm: process.env.ROUTE_OPTIMIZATION_ALGORITHM ?? 'savings',
 
     /** Velocidade média urbana (km/h) */
     averageUrbanSpeed: Number.parseInt(process.env.AVERAGE_URBAN_SPEED ?? '30', 10),
@@ -120,6 +126,12 @@ export const deliveryConfig = registerAs('delivery', () => ({
 
     /** Considerar janelas de tempo na otimização */
     considerTimeWindows: process.env.CONSIDER_TIME_WINDOWS !== 'false',
+
+    /** Início padrão do turno dos motoristas (HH:mm) */
+    shiftStart: process.env.DRIVER_SHIFT_START ?? '08:00',
+
+    /** Duração máxima do turno dos motoristas (minutos) */
+    maxShiftMinutes: Number.parseInt(process.env.DRIVER_MAX_SHIFT_MINUTES ?? '480', 10),
   },
 
   /**
@@ -145,6 +157,34 @@ export const deliveryConfig = registerAs('delivery', () => ({
     requirePhoto: process.env.REQUIRE_PHOTO === 'true',
   },
 
+  /**
+   * Configurações do código de confirmação de entrega (OTP)
+   */
+  confirmationCode: {
+    /** Valor declarado a partir do qual o código é exigido (0 = apenas por settings) */
+    declaredValueThreshold: Number.parseFloat(
+      process.env.CONFIRMATION_CODE_VALUE_THRESHOLD ?? '1000',
+    ),
+
+    /** Quantidade de dígitos do código */
+    length: Number.parseInt(process.env.CONFIRMATION_CODE_LENGTH ?? '6', 10),
+
+    /** Validade do código (minutos) */
+    ttlMinutes: Number.parseInt(process.env.CONFIRMATION_CODE_TTL_MINUTES ?? '240', 10),
+
+    /** Tentativas inválidas antes do bloqueio */
+    maxAttempts: Number.parseInt(process.env.CONFIRMATION_CODE_MAX_ATTEMPTS ?? '5', 10),
+
+    /** Quantidade máxima de envios por código (emissão + reenvios) */
+    maxSends: Number.parseInt(process.env.CONFIRMATION_CODE_MAX_SENDS ?? '3', 10),
+
+    /** Intervalo mínimo entre envios (segundos) */
+    resendCooldownSeconds: Number.parseInt(
+      process.env.CONFIRMATION_CODE_RESEND_COOLDOWN ?? '60',
+      10,
+    ),
+  },
+
   /**
    * Configurações de auditoria
    */
@@ -106,6 +106,32 @@ export const EMAIL_TEMPLATES: Record<
       <p>Atenciosamente,<br>Equipe NexusTransit</p>
     `,
   },
+
+  [NotificationType.DELIVERY_CONFIRMATION_CODE]: {
+    subject: 'Código de Confirmação - Pedido {{trackingCode}}',
+    body: `
+      <h2>Olá {{recipientName}},</h2>
+      <p>Sua entrega <strong>{{trackingCode}}</strong> saiu para entrega.</p>
+      <p>Informe ao motorista o código de confirmação abaixo somente ao receber o pedido:</p>
+      <p style="font-size: 24px; letter-spacing: 4px;"><strong>{{confirmationCode}}</strong></p>
+      <p>O código é válido até {{codeExpiresAt}}. Não compartilhe este código por telefone ou mensagem.</p>
+      <br>
+      <p>Atenciosamente,<br>Equipe NexusTransit</p>
+    `,
+  },
+
+  [NotificationType.DELIVERY_ETA_UPDATED]: {
+    subject: 'Nova Previsão de Entrega - Pedido {{trackingCode}}',
+    body: `
+      <h2>Olá {{customerName}},</h2>
+      <p>A previsão de chegada da sua entrega <strong>{{trackingCode}}</strong> foi atualizada.</p>
+      <p>{{message}}</p>
+      <p>Nova previsão: <strong>{{estimatedTime}}</strong></p>
+      <p>Para acompanhar sua entrega em tempo real, acesse: <a href="{{trackingUrl}}">{{trackingUrl}}</a></p>
+      <br>
+      <p>Atenciosamente,<br>Equipe NexusTransit</p>
+    `,
+  },
 };
 
 /**
@@ -132,6 +158,12 @@ export const SMS_TEMPLATES: Record<NotificationType, string> = {
 
   [NotificationType.DELIVERY_CANCELLED]:
     'NexusTransit: Entrega {{trackingCode}} cancelada. Dúvidas? Contate: {{supportPhone}}',
+
+  [NotificationType.DELIVERY_CONFIRMATION_CODE]:
+    'NexusTransit: Seu código de confirmação da entrega {{trackingCode}} é {{confirmationCode}}. Informe ao motorista somente ao receber. Válido até {{codeExpiresAt}}.',
+
+  [NotificationType.DELIVERY_ETA_UPDATED]:
+    'NexusTransit: Nova previsão para a entrega {{trackingCode}}: {{estimatedTime}}. Acompanhe: {{trackingUrl}}',
 };
 
 /**
@@ -186,6 +218,18 @@ export const PUSH_TEMPLATES: Record<
     body: 'A entrega {{trackingCode}} foi cancelada',
     data: { type: 'delivery_cancelled' },
   },
+
+  [NotificationType.DELIVERY_CONFIRMATION_CODE]: {
+    title: 'Código de Confirmação',
+    body: 'Enviamos o código de confirmação da entrega {{trackingCode}}. Informe-o ao motorista ao receber.',
+    data: { type: 'delivery_confirmation_code' },
+  },
+
+  [NotificationType.DELIVERY_ETA_UPDATED]: {
+    title: 'Previsão Atualizada',
+    body: 'Sua entrega {{trackingCode}} tem nova previsão de chegada: {{estimatedTime}}',
+    data: { type: 'delivery_eta_updated' },
+  },
 };
 
 /**
@@ -10,7 +10,13 @@ import {
   ParseUUIDPipe,
   HttpStatus,
   HttpCode,
+  Req,
+  ForbiddenException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -23,6 +29,7 @@ import {
   ApiConflictResponse,
   ApiUnauthorizedResponse,
   ApiForbiddenResponse,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { DeliveriesService } from './deliveries.service';
 import { CreateDeliveryDto } from './dto/create-delivery.dto';
@@ -35,15 +42,46 @@ import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
 import { DeliveryStatus } from './enums/delivery-status.enum';
 import { DeliveryPriority } from './enums/delivery-priority.enum';
 import { DeliveryAttempt } from './entities/delivery-attempt.entity';
+import { RouteOptimizationService } from './services/route-optimization.service';
+import { OptimizeRoutesDto } from './dto/optimize-routes.dto';
+import { RouteOptimizationResponseDto } from './dto/route-optimization-response.dto';
+import { DeliveryProofService } from './services/delivery-proof.service';
+import {
+  DeliveryProofResponseDto,
+  UploadDeliveryProofDto,
+  VerifyDeliveryProofDto,
+} from './dto/delivery-proof.dto';
+import { DeliveryConfirmationService } from './services/delivery-confirmation.service';
+import {
+  ConfirmationCodeResponseDto,
+  SendConfirmationCodeDto,
+  VerifyConfirmationCodeDto,
+} from './dto/delivery-confirmation-code.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import { CurrentDataScope } from '../auth/decorators/current-data-scope.decorator';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
 @ApiTags('Deliveries')
 @Controller('deliveries')
 @ApiBearerAuth()
 export class DeliveriesController {
-  constructor(private readonly deliveriesService: DeliveriesService) {}
+  constructor(
+    private readonly deliveriesService: DeliveriesService,
+    private readonly routeOptimizationService: RouteOptimizationService,
+    private readonly deliveryProofService: DeliveryProofService,
+    private readonly deliveryConfirmationService: DeliveryConfirmationService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:create')
   @ApiOperation({
     summary: 'Criar nova entrega',
     description:
@@ -71,6 +109,8 @@ export class DeliveriesController {
   }
 
   @Get()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:read')
   @ApiOperation({
     summary: 'Listar entregas',
     description: 'Lista entregas com filtros avançados, paginação e ordenação',
@@ -194,11 +234,14 @@ export class DeliveriesController {
   })
   async findAll(
     @Query() filterDto: DeliveryFilterDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<PaginatedResponseDto<DeliveryResponseDto>> {
-    return this.deliveriesService.findAll(filterDto);
+    return this.deliveriesService.findAll(filterDto, scope);
   }
 
   @Get(':id')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:read')
   @ApiOperation({
     summary: 'Buscar entrega por ID',
     description: 'Retorna os detalhes completos de uma entrega específica',
@@ -219,11 +262,16 @@ export class DeliveriesController {
   @ApiUnauthorizedResponse({
     description: 'Token de autenticação inválido ou ausente',
   })
-  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<DeliveryResponseDto> {
-    return this.deliveriesService.findOne(id);
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<DeliveryResponseDto> {
+    return this.deliveriesService.findOne(id, scope);
   }
 
   @Patch(':id')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:update')
   @ApiOperation({
     summary: 'Atualizar entrega',
     description: 'Atualiza os dados de uma entrega existente',
@@ -253,12 +301,15 @@ export class DeliveriesController {
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateDeliveryDto: UpdateDeliveryDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<DeliveryResponseDto> {
-    return this.deliveriesService.update(id, updateDeliveryDto);
+    return this.deliveriesService.update(id, updateDeliveryDto, scope);
   }
 
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:delete')
   @ApiOperation({
     summary: 'Remover entrega',
     description: 'Remove uma entrega do sistema (soft delete)',
@@ -281,11 +332,16 @@ export class DeliveriesController {
   @ApiForbiddenResponse({
     description: 'Usuário não possui permissão para remover entregas',
   })
-  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
-    return this.deliveriesService.remove(id);
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<void> {
+    return this.deliveriesService.remove(id, scope);
   }
 
   @Patch(':id/status')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:update')
   @ApiOperation({
     summary: 'Alterar status da entrega',
     description: 'Altera o status de uma entrega com validação de transições e histórico',
@@ -315,12 +371,15 @@ export class DeliveriesController {
   async changeStatus(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() changeStatusDto: ChangeStatusDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<DeliveryResponseDto> {
-    return this.deliveriesService.changeStatus(id, changeStatusDto);
+    return this.deliveriesService.changeStatus(id, changeStatusDto, scope);
   }
 
   @Post(':id/attempts')
   @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:update')
   @ApiOperation({
     summary: 'Registrar tentativa de entrega',
     description: 'Registra uma nova tentativa de entrega com detalhes e evidências',
@@ -346,7 +405,328 @@ export class DeliveriesController {
   async createAttempt(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() createAttemptDto: CreateDeliveryAttemptDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<DeliveryAttempt> {
-    return this.deliveriesService.createAttempt(id, createAttemptDto);
+    return this.deliveriesService.createAttempt(id, createAttemptDto, scope);
+  }
+
+  @Post('optimize-routes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('routes:create')
+  @ApiOperation({
+    summary: 'Otimizar rotas da frota',
+    description:
+      'Distribui as entregas entre os veículos disponíveis respeitando capacidade, janelas de atendimento, duração do turno e restrições da rota (peso máximo, entregas noturnas)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Rotas calculadas com sucesso',
+    type: RouteOptimizationResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos',
+  })
+  @ApiNotFoundResponse({
+    description: 'Entrega ou veículo não encontrado',
+  })
+  async optimizeRoutes(
+    @Body() optimizeRoutesDto: OptimizeRoutesDto,
+  ): Promise<RouteOptimizationResponseDto> {
+    return this.routeOptimizationService.optimizeFleetRoutes(optimizeRoutesDto);
+  }
+
+  @Post(':id/proofs')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.MOTORISTA)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Enviar comprovante de entrega',
+    description:
+      'Anexa assinatura, foto ou documento de identificação à entrega (somente o motorista da entrega). O arquivo é armazenado no object storage com hash SHA-256, coordenadas e horário da captura',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Comprovante registrado com sucesso',
+    type: DeliveryProofResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Entrega não encontrada',
+  })
+  @ApiBadRequestResponse({
+    description: 'Arquivo ausente, formato/tamanho inválido ou entrega sem rota ativa',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  @ApiForbiddenResponse({
+    description: 'Usuário não é o motorista da entrega',
+  })
+  async uploadProof(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() uploadProofDto: UploadDeliveryProofDto,
+    @Req() req: AuthenticatedRequest,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<DeliveryProofResponseDto> {
+    const driverId = req.user.driver_id;
+
+    if (!driverId) {
+      throw new ForbiddenException('Usuário não está vinculado a um motorista');
+    }
+
+    await this.deliveriesService.assertInScope(id, scope);
+
+    return this.deliveryProofService.submit(id, file, uploadProofDto, driverId, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Get(':id/proofs')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('deliveries:read')
+  @ApiOperation({
+    summary: 'Listar comprovantes da entrega',
+    description: 'Lista os comprovantes enviados com situação de verificação',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Comprovantes da entrega',
+    type: [DeliveryProofResponseDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Entrega não encontrada',
+  })
+  async findProofs(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<DeliveryProofResponseDto[]> {
+    await this.deliveriesService.assertInScope(id, scope);
+
+    return this.deliveryProofService.findByDelivery(id);
+  }
+
+  @Patch(':id/proofs/:proofId/verify')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
+  @ApiOperation({
+    summary: 'Verificar comprovante de entrega',
+    description:
+      'Aprova ou rejeita o comprovante. Comprovantes rejeitados não contam para os exigidos na conclusão da entrega',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'proofId',
+    description: 'ID do comprovante',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Comprovante verificado',
+    type: DeliveryProofResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Comprovante não encontrado',
+  })
+  @ApiConflictResponse({
+    description: 'Comprovante já verificado',
+  })
+  @ApiForbiddenResponse({
+    description: 'Usuário não possui permissão para verificar comprovantes',
+  })
+  async verifyProof(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('proofId', ParseUUIDPipe) proofId: string,
+    @Body() verifyProofDto: VerifyDeliveryProofDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<DeliveryProofResponseDto> {
+    return this.deliveryProofService.verify(id, proofId, verifyProofDto, req.user.id);
+  }
+
+  @Get(':id/confirmation-code')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE, Role.MOTORISTA)
+  @ApiOperation({
+    summary: 'Consultar código de confirmação',
+    description:
+      'Situação do código de confirmação atual da entrega (canal, destino mascarado, validade e tentativas restantes). O código nunca é exibido',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Situação do código',
+    type: ConfirmationCodeResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Nenhum código emitido para a entrega',
+  })
+  @ApiForbiddenResponse({
+    description: 'Recebedores e clientes não consultam o código',
+  })
+  async findConfirmationCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<ConfirmationCodeResponseDto> {
+    await this.deliveriesService.assertInScope(id, scope);
+
+    return this.deliveryConfirmationService.findCurrent(id);
+  }
+
+  @Post(':id/confirmation-code')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
+  @ApiOperation({
+    summary: 'Emitir código de confirmação',
+    description:
+      'Gera e envia ao recebedor um novo código de confirmação, substituindo o atual (inclusive bloqueado por tentativas)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Código emitido e enviado',
+    type: ConfirmationCodeResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Entrega fora de OUT_FOR_DELIVERY ou recebedor sem contato',
+  })
+  @ApiForbiddenResponse({
+    description: 'Usuário não possui permissão para emitir códigos',
+  })
+  async issueConfirmationCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() sendCodeDto: SendConfirmationCodeDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ConfirmationCodeResponseDto> {
+    return this.deliveryConfirmationService.issue(id, sendCodeDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Post(':id/confirmation-code/resend')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.MOTORISTA)
+  @ApiOperation({
+    summary: 'Reenviar código de confirmação',
+    description:
+      'O motorista da entrega solicita o envio de um novo código ao recebedor, respeitando o limite de envios e o intervalo mínimo. As tentativas já consumidas são mantidas',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Código reenviado',
+    type: ConfirmationCodeResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Limite de envios atingido ou entrega fora de OUT_FOR_DELIVERY',
+  })
+  @ApiConflictResponse({
+    description: 'Código bloqueado ou entrega já confirmada',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Reenvio antes do intervalo mínimo',
+  })
+  @ApiForbiddenResponse({
+    description: 'Usuário não é o motorista da entrega',
+  })
+  async resendConfirmationCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() sendCodeDto: SendConfirmationCodeDto,
+    @Req() req: AuthenticatedRequest,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<ConfirmationCodeResponseDto> {
+    const driverId = req.user.driver_id;
+
+    if (!driverId) {
+      throw new ForbiddenException('Usuário não está vinculado a um motorista');
+    }
+
+    await this.deliveriesService.assertInScope(id, scope);
+
+    return this.deliveryConfirmationService.resend(id, sendCodeDto, driverId, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Post(':id/confirmation-code/verify')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.MOTORISTA)
+  @ApiOperation({
+    summary: 'Confirmar entrega por código',
+    description:
+      'O motorista informa o código lido pelo recebedor. O código correto gera um comprovante verificado (SMS_CODE ou EMAIL_CODE) que permite concluir a entrega',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Código confirmado e comprovante registrado',
+    type: DeliveryProofResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Código inválido, expirado, bloqueado ou inexistente',
+  })
+  @ApiForbiddenResponse({
+    description: 'Usuário não é o motorista da entrega',
+  })
+  async verifyConfirmationCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() verifyCodeDto: VerifyConfirmationCodeDto,
+    @Req() req: AuthenticatedRequest,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<DeliveryProofResponseDto> {
+    const driverId = req.user.driver_id;
+
+    if (!driverId) {
+      throw new ForbiddenException('Usuário não está vinculado a um motorista');
+    }
+
+    await this.deliveriesService.assertInScope(id, scope);
+
+    return this.deliveryConfirmationService.verify(id, verifyCodeDto, driverId, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
   }
 }
@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DeliveriesService } from './deliveries.service';
 import { DeliveriesController } from './deliveries.controller';
@@ -6,9 +7,22 @@ import { Delivery } from './entities/delivery.entity';
 import { DeliveryAttempt } from './entities/delivery-attempt.entity';
 import { DeliveryProof } from './entities/delivery-proof.entity';
 import { DeliveryStatusHistory } from './entities/delivery-status-history.entity';
+import { DeliveryConfirmationCode } from './entities/delivery-confirmation-code.entity';
 import { Customer } from '../customers/entities/customer.entity';
 import { Driver } from '../drivers/entities/driver.entity';
 import { Vehicle } from '../vehicles/entities/vehicle.entity';
+import { DeliveryNotificationService } from './services/delivery-notification.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RouteOptimizationService } from './services/route-optimization.service';
+import { ROUTE_SOLVER, type RouteSolver } from './interfaces/route-solver.interface';
+import { SavingsRouteSolver } from './solvers/savings-route.solver';
+import { NearestNeighborRouteSolver } from './solvers/nearest-neighbor-route.solver';
+import { deliveryConfig, type DeliveryConfig } from './config/delivery.config';
+import { DeliveryProofService } from './services/delivery-proof.service';
+import { UploadModule } from '../upload/upload.module';
+import { DeliveryConfirmationService } from './services/delivery-confirmation.service';
+import { AuditModule } from '../audit/audit.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
@@ -17,13 +31,43 @@ import { Vehicle } from '../vehicles/entities/vehicle.entity';
       DeliveryAttempt,
       DeliveryProof,
       DeliveryStatusHistory,
+      DeliveryConfirmationCode,
       Customer,
       Driver,
       Vehicle,
     ]),
+    ConfigModule.forFeature(deliveryConfig),
+    NotificationsModule,
+    UploadModule,
+    AuditModule,
+    AuthModule,
   ],
   controllers: [DeliveriesController],
-  providers: [DeliveriesService],
-  exports: [DeliveriesService, TypeOrmModule],
+  providers: [
+    DeliveriesService,
+    DeliveryNotificationService,
+    {
+      provide: ROUTE_SOLVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): RouteSolver => {
+        const { algorithm } =
+          configService.getOrThrow<DeliveryConfig>('delivery').routeOptimization;
+        return algorithm === 'nearest-neighbor'
+          ? new NearestNeighborRouteSolver()
+          : new SavingsRouteSolver();
+      },
+    },
+    RouteOptimizationService,
+    DeliveryProofService,
+    DeliveryConfirmationService,
+  ],
+  exports: [
+    DeliveriesService,
+    DeliveryNotificationService,
+    RouteOptimizationService,
+    DeliveryConfirmationService,
+    DeliveryProofService,
+    TypeOrmModule,
+  ],
 })
 export class DeliveriesModule {}
@@ -28,6 +28,19 @@ import { Customer } from '../../modules/customers/entities/customer.entity';
 import { Driver } from '../../modules/drivers/entities/driver.entity';
 import { Vehicle } from '../../modules/vehicles/entities/vehicle.entity';
 import { v4 as uuidv4 } from 'uuid';
+import { getMissingProofRequirements } from './utils/proof-requirements.util';
+import { DeliveryConfirmationService } from './services/delivery-confirmation.service';
+import type { DeliveryActor } from './interfaces/delivery-actor.interface';
+import { DataScopes } from '../auth/utils/data-scope.util';
+import type { DataScope, DataScopeFields } from '../auth/interfaces/data-scope.interface';
+
+/**
+ * Donos de uma entrega: o cliente e o motorista atribuído
+ */
+const DELIVERY_SCOPE_FIELDS: DataScopeFields<Delivery> = {
+  customer: 'customer_id',
+  driver: 'driver_id',
+};
 
 @Injectable()
 export class DeliveriesService {
@@ -49,12 +62,18 @@ export class DeliveriesService {
     @InjectRepository(Vehicle)
     private readonly vehicleRepository: Repository<Vehicle>,
     private readonly dataSource: DataSource,
+    private readonly deliveryConfirmationService: DeliveryConfirmationService,
   ) {}
 
   /**
    * Criar nova entrega
+   *
+   * @param actor - Responsável registrado no histórico de status inicial (ex.: chave de API)
    */
-  async create(createDeliveryDto: CreateDeliveryDto): Promise<DeliveryResponseDto> {
+  async create(
+    createDeliveryDto: CreateDeliveryDto,
+    actor?: DeliveryActor,
+  ): Promise<DeliveryResponseDto> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
@@ -145,8 +164,21 @@ export class DeliveriesService {
       statusHistory.context = {
         session_id: sessionId,
         source: 'API' as const,
+        ...(actor?.ipAddress ? { ip_address: actor.ipAddress } : {}),
+        ...(actor?.userAgent ? { user_agent: actor.userAgent } : {}),
+        ...(actor?.apiKeyId ? { api_key_id: actor.apiKeyId } : {}),
       };
 
+      if (actor) {
+        statusHistory.changed_by_type = actor.type;
+        if (actor.userId) {
+          statusHistory.changed_by = actor.userId;
+        }
+        if (actor.name) {
+          statusHistory.changed_by_name = actor.name;
+        }
+      }
+
       await queryRunner.manager.save(statusHistory);
 
       await queryRunner.commitTransaction();
@@ -178,8 +210,13 @@ export class DeliveriesService {
 
   /**
    * Listar entregas com filtros e paginação
+   *
+   * @param scope - Escopo do solicitante; sem escopo, todas as entregas
    */
-  async findAll(filterDto: DeliveryFilterDto): Promise<PaginatedResponseDto<DeliveryResponseDto>> {
+  async findAll(
+    filterDto: DeliveryFilterDto,
+    scope?: DataScope,
+  ): Promise<PaginatedResponseDto<DeliveryResponseDto>> {
     const {
       page = 1,
       limit = 10,
@@ -223,6 +260,10 @@ export class DeliveriesService {
       .leftJoinAndSelect('delivery.proofs', 'proofs')
       .leftJoinAndSelect('delivery.statusHistory', 'statusHistory');
 
+    if (scope) {
+      DataScopes.apply(queryBuilder, scope, DELIVERY_SCOPE_FIELDS);
+    }
+
     // Aplicar filtros
     if (tracking_code) {
       queryBuilder.andWhere('delivery.tracking_code ILIKE :tracking_code', {
@@ -432,12 +473,29 @@ export class DeliveriesService {
 
   /**
    * Buscar entrega por ID
+   *
+   * Entregas fora do escopo são tratadas como inexistentes (404).
    */
-  async findOne(id: string): Promise<DeliveryResponseDto> {
-    const delivery = await this.findOneWithRelations(id);
+  async findOne(id: string, scope?: DataScope): Promise<DeliveryResponseDto> {
+    const delivery = await this.findOneWithRelations(id, scope);
     return DeliveryResponseDto.fromEntity(delivery);
   }
 
+  /**
+   * Garante que a entrega existe e está no escopo do solicitante
+   *
+   * @throws NotFoundException se a entrega não existir ou estiver fora do escopo
+   */
+  async assertInScope(id: string, scope: DataScope): Promise<void> {
+    const exists = await this.deliveryRepository.exists({
+      where: DataScopes.where({ id }, scope, DELIVERY_SCOPE_FIELDS),
+    });
+
+    if (!exists) {
+      throw new NotFoundException(`Entrega com ID ${id} não encontrada`);
+    }
+  }
+
   /**
    * Buscar entregas atrasadas usando LessThan
    */
@@ -562,13 +620,17 @@ export class DeliveriesService {
   /**
    * Atualizar entrega
    */
-  async update(id: string, updateDeliveryDto: UpdateDeliveryDto): Promise<DeliveryResponseDto> {
+  async update(
+    id: string,
+    updateDeliveryDto: UpdateDeliveryDto,
+    scope?: DataScope,
+  ): Promise<DeliveryResponseDto> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      const delivery = await this.findOneWithRelations(id);
+      const delivery = await this.findOneWithRelations(id, scope);
       const oldStatus = delivery.status;
 
       // Validar motorista (se fornecido)
@@ -600,6 +662,7 @@ export class DeliveriesService {
       // Validar mudança de status (se fornecida)
       if (updateDeliveryDto.status && updateDeliveryDto.status !== oldStatus) {
         this.validateStatusTransition(oldStatus, updateDeliveryDto.status);
+        this.validateRequiredProofs(delivery, updateDeliveryDto.status);
       }
 
       // Gerar ID de operação usando uuidv4
@@ -632,6 +695,13 @@ export class DeliveriesService {
         `Entrega atualizada: ${delivery.tracking_code} (${delivery.id}) - Operation: ${operationId}`,
       );
 
+      if (
+        updateDeliveryDto.status === DeliveryStatus.OUT_FOR_DELIVERY &&
+        oldStatus !== DeliveryStatus.OUT_FOR_DELIVERY
+      ) {
+        await this.deliveryConfirmationService.issueOnDispatch(delivery.id);
+      }
+
       const completeDelivery = await this.findOneWithRelations(delivery.id);
       return DeliveryResponseDto.fromEntity(completeDelivery);
     } catch (error) {
@@ -654,9 +724,9 @@ export class DeliveriesService {
   /**
    * Remover entrega (soft delete)
    */
-  async remove(id: string): Promise<void> {
+  async remove(id: string, scope?: DataScope): Promise<void> {
     const delivery = await this.deliveryRepository.findOne({
-      where: { id },
+      where: scope ? DataScopes.where({ id }, scope, DELIVERY_SCOPE_FIELDS) : { id },
       withDeleted: true,
     });
 
@@ -706,13 +776,17 @@ export class DeliveriesService {
   /**
    * Mudar status da entrega
    */
-  async changeStatus(id: string, changeStatusDto: ChangeStatusDto): Promise<DeliveryResponseDto> {
+  async changeStatus(
+    id: string,
+    changeStatusDto: ChangeStatusDto,
+    scope?: DataScope,
+  ): Promise<DeliveryResponseDto> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      const delivery = await this.findOneWithRelations(id);
+      const delivery = await this.findOneWithRelations(id, scope);
       const oldStatus = delivery.status;
       const newStatus = changeStatusDto.new_status;
 
@@ -721,6 +795,9 @@ export class DeliveriesService {
         this.validateStatusTransition(oldStatus, newStatus);
       }
 
+      // Comprovantes exigidos valem mesmo com force_change
+      this.validateRequiredProofs(delivery, newStatus);
+
       // Gerar ID de mudança de status usando uuidv4
       const statusChangeId = uuidv4();
 
@@ -842,6 +919,10 @@ export class DeliveriesService {
         `Status da entrega ${delivery.tracking_code} alterado: ${oldStatus} -> ${newStatus} (Change ID: ${statusChangeId})`,
       );
 
+      if (newStatus === DeliveryStatus.OUT_FOR_DELIVERY && oldStatus !== newStatus) {
+        await this.deliveryConfirmationService.issueOnDispatch(delivery.id);
+      }
+
       const completeDelivery = await this.findOneWithRelations(delivery.id);
       return DeliveryResponseDto.fromEntity(completeDelivery);
     } catch (error) {
@@ -867,13 +948,14 @@ export class DeliveriesService {
   async createAttempt(
     deliveryId: string,
     createAttemptDto: CreateDeliveryAttemptDto,
+    scope?: DataScope,
   ): Promise<DeliveryAttempt> {
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      const delivery = await this.findOneWithRelations(deliveryId);
+      const delivery = await this.findOneWithRelations(deliveryId, scope);
 
       // Validar motorista
       const driver = await this.driverRepository.findOne({
@@ -1035,6 +1117,28 @@ export class DeliveriesService {
     return trackingCode;
   }
 
+  /**
+   * Recusa a conclusão da entrega sem os comprovantes exigidos em settings
+   * (ou pelo valor declarado, no caso do código de confirmação)
+   */
+  private validateRequiredProofs(delivery: Delivery, newStatus: DeliveryStatus): void {
+    if (newStatus !== DeliveryStatus.DELIVERED) {
+      return;
+    }
+
+    const settings = {
+      ...delivery.settings,
+      requires_confirmation_code: this.deliveryConfirmationService.isRequired(delivery),
+    };
+
+    const missing = getMissingProofRequirements(settings, delivery.proofs ?? []);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Comprovantes obrigatórios ausentes: ${missing.map(requirement => requirement.label).join(', ')}`,
+      );
+    }
+  }
+
   /**
    * Validar transição de status
    */
@@ -1051,9 +1155,9 @@ export class DeliveriesService {
   /**
    * Buscar entrega com relacionamentos
    */
-  private async findOneWithRelations(id: string): Promise<Delivery> {
+  private async findOneWithRelations(id: string, scope?: DataScope): Promise<Delivery> {
     const delivery = await this.deliveryRepository.findOne({
-      where: { id },
+      where: scope ? DataScopes.where({ id }, scope, DELIVERY_SCOPE_FIELDS) : { id },
       relations: ['customer', 'driver', 'vehicle', 'attempts', 'proofs', 'statusHistory'],
     });
 
@@ -305,6 +305,7 @@ export class CreateDeliveryDto {
     requires_signature?: boolean;
     requires_photo?: boolean;
     requires_id?: boolean;
+    requires_confirmation_code?: boolean;
     allowed_attempt_count?: number;
     restricted_hours?: {
       start: string;
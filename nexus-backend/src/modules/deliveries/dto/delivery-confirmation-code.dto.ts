@@ -0,0 +1,157 @@
+import { IsIn, IsNumber, IsOptional, IsUUID, Matches, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { ConfirmationCodeStatus } from '../enums/confirmation-code-status.enum';
+import type { DeliveryConfirmationCode } from '../entities/delivery-confirmation-code.entity';
+
+/**
+ * Canais aceitos para envio do código de confirmação
+ */
+export const CONFIRMATION_CODE_CHANNELS = [NotificationChannel.SMS, NotificationChannel.EMAIL];
+
+/**
+ * DTO para emissão ou reenvio do código de confirmação
+ */
+export class SendConfirmationCodeDto {
+  @ApiProperty({
+    description:
+      'Canal de envio (padrão: SMS quando o recebedor tem telefone, senão e-mail; no reenvio, o canal atual)',
+    enum: CONFIRMATION_CODE_CHANNELS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(CONFIRMATION_CODE_CHANNELS)
+  channel?: NotificationChannel;
+}
+
+/**
+ * DTO para confirmação do código informado pelo recebedor
+ */
+export class VerifyConfirmationCodeDto {
+  @ApiProperty({
+    description:
+      'ID do motorista (obsoleto: o motorista é o do usuário autenticado; se informado, deve ser o mesmo)',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
+
+  @ApiProperty({
+    description: 'Código numérico informado pelo recebedor',
+    example: '048213',
+  })
+  @Matches(/^\d{4,10}$/, { message: 'code deve conter apenas dígitos' })
+  code!: string;
+
+  @ApiProperty({
+    description: 'Latitude da confirmação',
+    example: -23.5505,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  capture_latitude?: number;
+
+  @ApiProperty({
+    description: 'Longitude da confirmação',
+    example: -46.6333,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  capture_longitude?: number;
+}
+
+/**
+ * DTO de resposta do código de confirmação (nunca expõe o código)
+ */
+export class ConfirmationCodeResponseDto {
+  @ApiProperty({
+    description: 'ID do código',
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  delivery_id!: string;
+
+  @ApiProperty({
+    description: 'Canal de envio',
+    enum: CONFIRMATION_CODE_CHANNELS,
+  })
+  channel!: NotificationChannel;
+
+  @ApiProperty({
+    description: 'Destino mascarado',
+    example: '*******4321',
+  })
+  destination!: string;
+
+  @ApiProperty({
+    description: 'Status do código',
+    enum: ConfirmationCodeStatus,
+  })
+  status!: ConfirmationCodeStatus;
+
+  @ApiProperty({
+    description: 'Data/hora de expiração',
+    example: '2024-01-15T18:30:00Z',
+  })
+  expires_at!: Date;
+
+  @ApiProperty({
+    description: 'Tentativas restantes',
+    example: 5,
+  })
+  attempts_remaining!: number;
+
+  @ApiProperty({
+    description: 'Quantidade de envios realizados',
+    example: 1,
+  })
+  send_count!: number;
+
+  @ApiProperty({
+    description: 'Data/hora do último envio',
+    example: '2024-01-15T14:30:00Z',
+  })
+  last_sent_at!: Date;
+
+  @ApiProperty({
+    description: 'Data/hora da confirmação',
+    required: false,
+  })
+  verified_at?: Date;
+
+  @ApiProperty({
+    description: 'Comprovante gerado pela confirmação',
+    required: false,
+  })
+  proof_id?: string;
+
+  // Método estático para mapear da entidade
+  static fromEntity(code: DeliveryConfirmationCode): ConfirmationCodeResponseDto {
+    return {
+      id: code.id,
+      delivery_id: code.delivery_id,
+      channel: code.channel,
+      destination: code.destination,
+      status: code.status,
+      expires_at: code.expires_at,
+      attempts_remaining: Math.max(code.max_attempts - code.attempts, 0),
+      send_count: code.send_count,
+      last_sent_at: code.last_sent_at,
+      ...(code.verified_at ? { verified_at: code.verified_at } : {}),
+      ...(code.proof_id ? { proof_id: code.proof_id } : {}),
+    };
+  }
+}
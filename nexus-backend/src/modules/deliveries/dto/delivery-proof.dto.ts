@@ -17,6 +17,8 @@ import {
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { ProofType } from '../enums/proof-type.enum';
+import type { DeliveryProof } from '../entities/delivery-proof.entity';
+import { isProofRejected } from '../utils/proof-requirements.util';
 
 // DTOs aninhados para validação
 class DeviceMetadataDto {
@@ -444,20 +446,19 @@ export class CreateDeliveryProofDto {
   quality_score?: number;
 }
 
+/**
+ * Campos do envio multipart de comprovante (o arquivo vai no campo `file`)
+ */
 export class UploadDeliveryProofDto {
   @ApiProperty({
-    description: 'ID da entrega (UUID)',
-    example: '123e4567-e89b-12d3-a456-426614174000',
-  })
-  @IsUUID()
-  delivery_id!: string;
-
-  @ApiProperty({
-    description: 'ID do motorista (UUID)',
+    description:
+      'ID do motorista (obsoleto: o motorista é o do usuário autenticado; se informado, deve ser o mesmo)',
     example: '123e4567-e89b-12d3-a456-426614174001',
+    required: false,
   })
+  @IsOptional()
   @IsUUID()
-  driver_id!: string;
+  driver_id?: string;
 
   @ApiProperty({
     description: 'Tipo do comprovante',
@@ -522,6 +523,7 @@ export class UploadDeliveryProofDto {
     required: false,
   })
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   @Min(-90)
   @Max(90)
@@ -533,6 +535,7 @@ export class UploadDeliveryProofDto {
     required: false,
   })
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   @Min(-180)
   @Max(180)
@@ -546,6 +549,7 @@ export class UploadDeliveryProofDto {
     required: false,
   })
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
   @Min(0)
   @Max(10000)
@@ -569,6 +573,58 @@ export class UploadDeliveryProofDto {
   @IsString()
   @Length(0, 500)
   notes?: string;
+
+  @ApiProperty({
+    description: 'Tipo do dispositivo de captura',
+    example: 'MOBILE',
+    enum: ['MOBILE', 'TABLET', 'CAMERA', 'SCANNER'],
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(['MOBILE', 'TABLET', 'CAMERA', 'SCANNER'])
+  device_type?: 'MOBILE' | 'TABLET' | 'CAMERA' | 'SCANNER';
+
+  @ApiProperty({
+    description: 'Identificador do dispositivo',
+    example: 'device-abc123',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  device_id?: string;
+
+  @ApiProperty({
+    description: 'Versão do aplicativo',
+    example: '2.1.0',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 20)
+  app_version?: string;
+}
+
+/**
+ * DTO para verificação (aprovação ou rejeição) de comprovante pelo despachante
+ */
+export class VerifyDeliveryProofDto {
+  @ApiProperty({
+    description: 'Aprova (true) ou rejeita (false) o comprovante',
+    example: true,
+  })
+  @IsBoolean()
+  approved!: boolean;
+
+  @ApiProperty({
+    description: 'Motivo da rejeição (obrigatório ao rejeitar) ou observação da verificação',
+    example: 'Assinatura ilegível',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 500)
+  reason?: string;
 }
 
 export class DeliveryProofResponseDto {
@@ -607,13 +663,10 @@ export class DeliveryProofResponseDto {
   original_filename!: string;
 
   @ApiProperty({
-    description: 'Tamanho do arquivo em bytes',
-    example: 1572864,
+    description: 'Tamanho do arquivo formatado',
+    example: '1.5 MB',
   })
-  @IsNumber()
-  @Min(0)
-  @Max(100000000)
-  file_size!: number;
+  file_size!: string;
 
   @ApiProperty({
     description: 'MIME type',
@@ -695,6 +748,19 @@ export class DeliveryProofResponseDto {
   })
   verified!: boolean;
 
+  @ApiProperty({
+    description: 'Rejeitado na verificação',
+    example: false,
+  })
+  rejected!: boolean;
+
+  @ApiProperty({
+    description: 'Motivo da rejeição',
+    example: 'Assinatura ilegível',
+    required: false,
+  })
+  rejection_reason?: string;
+
   @ApiProperty({
     description: 'Data/hora da verificação',
     example: '2024-01-15T15:31:00Z',
@@ -722,4 +788,40 @@ export class DeliveryProofResponseDto {
     example: '2024-01-15T15:31:00Z',
   })
   updated_at!: Date;
+
+  // Método estático para mapear da entidade
+  static fromEntity(proof: DeliveryProof): DeliveryProofResponseDto {
+    const rejected = isProofRejected(proof);
+
+    return {
+      id: proof.id,
+      delivery_id: proof.delivery_id,
+      type: proof.type,
+      file_url: proof.file_path ?? '',
+      original_filename: proof.original_filename ?? '',
+      file_size: proof.file_size ?? '',
+      mime_type: proof.mime_type ?? '',
+      file_hash: proof.file_hash ?? '',
+      captured_at: proof.captured_at,
+      verified: proof.verified,
+      rejected,
+      created_at: proof.created_at,
+      updated_at: proof.updated_at,
+      ...(rejected && proof.validation_data?.anomalies?.[0]
+        ? { rejection_reason: proof.validation_data.anomalies[0] }
+        : {}),
+      ...(proof.recipient_name ? { recipient_name: proof.recipient_name } : {}),
+      ...(proof.recipient_document ? { recipient_document: proof.recipient_document } : {}),
+      ...(proof.recipient_phone ? { recipient_phone: proof.recipient_phone } : {}),
+      ...(proof.recipient_email ? { recipient_email: proof.recipient_email } : {}),
+      ...(proof.recipient_relationship
+        ? { recipient_relationship: proof.recipient_relationship }
+        : {}),
+      ...(proof.capture_latitude ? { capture_latitude: Number(proof.capture_latitude) } : {}),
+      ...(proof.capture_longitude ? { capture_longitude: Number(proof.capture_longitude) } : {}),
+      ...(proof.gps_accuracy ? { gps_accuracy: Number(proof.gps_accuracy) } : {}),
+      ...(proof.verified_at ? { verified_at: proof.verified_at } : {}),
+      ...(proof.verified_by ? { verified_by: proof.verified_by } : {}),
+    };
+  }
 }
@@ -99,6 +99,20 @@ export class DeliveryResponseDto {
     vehicle_type: string;
   };
 
+  @ApiProperty({
+    description: 'ID da rota à qual a entrega foi atribuída',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+    required: false,
+  })
+  route_id?: string | undefined;
+
+  @ApiProperty({
+    description: 'ID da parada da rota que atende a entrega',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+    required: false,
+  })
+  route_stop_id?: string | undefined;
+
   @ApiProperty({
     description: 'Descrição do produto',
     example: 'Caixa com eletrônicos',
@@ -221,6 +235,20 @@ export class DeliveryResponseDto {
   })
   actual_delivery_at?: Date;
 
+  @ApiProperty({
+    description: 'Previsão de chegada do motorista (ETA dinâmico)',
+    example: '2024-01-15T14:40:00Z',
+    required: false,
+  })
+  estimated_arrival_at?: Date;
+
+  @ApiProperty({
+    description: 'Data/hora do último cálculo do ETA',
+    example: '2024-01-15T14:05:00Z',
+    required: false,
+  })
+  eta_updated_at?: Date;
+
   @ApiProperty({
     description: 'Distância estimada em km',
     example: 25.5,
@@ -290,6 +318,7 @@ export class DeliveryResponseDto {
     requires_signature?: boolean;
     requires_photo?: boolean;
     requires_id?: boolean;
+    requires_confirmation_code?: boolean;
     allowed_attempt_count?: number;
     time_windows?: {
       start: string;
@@ -384,6 +413,8 @@ export class DeliveryResponseDto {
     response.customer_id = delivery.customer_id;
     response.driver_id = delivery.driver_id;
     response.vehicle_id = delivery.vehicle_id;
+    response.route_id = delivery.route_id;
+    response.route_stop_id = delivery.route_stop_id;
 
     // Relacionamentos (dados completos - se disponíveis)
     if (delivery.customer) {
@@ -445,6 +476,12 @@ export class DeliveryResponseDto {
     if (delivery.actual_delivery_at !== undefined) {
       response.actual_delivery_at = delivery.actual_delivery_at;
     }
+    if (delivery.estimated_arrival_at) {
+      response.estimated_arrival_at = delivery.estimated_arrival_at;
+    }
+    if (delivery.eta_updated_at) {
+      response.eta_updated_at = delivery.eta_updated_at;
+    }
 
     // Cálculos
     if (delivery.estimated_distance !== undefined) {
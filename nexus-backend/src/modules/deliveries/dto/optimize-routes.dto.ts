@@ -0,0 +1,127 @@
+import {
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class DepotDto {
+  @ApiProperty({
+    description: 'Latitude do depósito',
+    example: -23.5505,
+  })
+  @IsLatitude()
+  latitude!: number;
+
+  @ApiProperty({
+    description: 'Longitude do depósito',
+    example: -46.6333,
+  })
+  @IsLongitude()
+  longitude!: number;
+}
+
+export class OptimizationRestrictionsDto {
+  @ApiPropertyOptional({
+    description: 'Limite de peso por rota em kg (aplicado sobre a capacidade de cada veículo)',
+    example: 3500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight_limit_kg?: number;
+
+  @ApiPropertyOptional({
+    description: 'Permite atendimentos entre 22:00 e 06:00',
+    example: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  night_delivery_allowed?: boolean;
+}
+
+export class OptimizeRoutesDto {
+  @ApiProperty({
+    description: 'Data planejada das rotas (YYYY-MM-DD)',
+    example: '2025-10-05',
+  })
+  @IsDateString()
+  date!: string;
+
+  @ApiProperty({
+    description: 'Ponto de partida dos veículos',
+    type: DepotDto,
+  })
+  @ValidateNested()
+  @Type(() => DepotDto)
+  depot!: DepotDto;
+
+  @ApiProperty({
+    description: 'IDs das entregas a roteirizar',
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsUUID('4', { each: true })
+  delivery_ids!: string[];
+
+  @ApiPropertyOptional({
+    description: 'IDs dos veículos disponíveis (padrão: todos os veículos ativos)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  vehicle_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Início do turno dos motoristas (HH:mm)',
+    example: '08:00',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'shift_start deve estar no formato HH:mm' })
+  shift_start?: string;
+
+  @ApiPropertyOptional({
+    description: 'Duração máxima do turno dos motoristas em minutos',
+    example: 480,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  @Max(24 * 60)
+  max_shift_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Considera o retorno ao depósito ao fim da rota',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  return_to_depot?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Restrições aplicadas às rotas geradas',
+    type: OptimizationRestrictionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OptimizationRestrictionsDto)
+  restrictions?: OptimizationRestrictionsDto;
+}
@@ -0,0 +1,145 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OptimizedStopDto {
+  @ApiProperty({
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  delivery_id!: string;
+
+  @ApiProperty({
+    description: 'Código de rastreamento',
+    example: 'NXT-20251005-00001',
+  })
+  tracking_code!: string;
+
+  @ApiProperty({
+    description: 'Ordem da parada na rota',
+    example: 1,
+  })
+  sequence!: number;
+
+  @ApiProperty({
+    description: 'Chegada prevista',
+    example: '2025-10-05T08:25:00.000Z',
+  })
+  planned_arrival!: Date;
+
+  @ApiProperty({
+    description: 'Início previsto do atendimento (após espera pela janela)',
+    example: '2025-10-05T09:00:00.000Z',
+  })
+  planned_service_start!: Date;
+
+  @ApiProperty({
+    description: 'Saída prevista',
+    example: '2025-10-05T09:15:00.000Z',
+  })
+  planned_departure!: Date;
+
+  @ApiProperty({
+    description: 'Distância desde a parada anterior (km)',
+    example: 4.2,
+  })
+  distance_from_previous_km!: number;
+}
+
+export class OptimizedFleetRouteDto {
+  @ApiProperty({
+    description: 'ID do veículo',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  vehicle_id!: string;
+
+  @ApiProperty({
+    description: 'Paradas em ordem de atendimento',
+    type: [OptimizedStopDto],
+  })
+  stops!: OptimizedStopDto[];
+
+  @ApiProperty({
+    description: 'Distância total (km)',
+    example: 42.5,
+  })
+  total_distance_km!: number;
+
+  @ApiProperty({
+    description: 'Duração total do turno utilizada (minutos)',
+    example: 310,
+  })
+  total_duration_minutes!: number;
+
+  @ApiProperty({
+    description: 'Carga total (kg)',
+    example: 820,
+  })
+  total_load_kg!: number;
+
+  @ApiProperty({
+    description: 'Volume total (m³)',
+    example: 6.5,
+  })
+  total_volume_m3!: number;
+
+  @ApiProperty({
+    description: 'Dados de otimização (formato de Route.optimization_data)',
+    example: { algorithm_used: 'savings-2opt-oropt', optimization_score: 63.4 },
+  })
+  optimization_data!: {
+    algorithm_used: string;
+    optimization_score: number;
+  };
+}
+
+export class UnassignedDeliveryDto {
+  @ApiProperty({
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  delivery_id!: string;
+
+  @ApiProperty({
+    description: 'Motivo de não ter sido roteirizada',
+    example: 'Carga excede a capacidade dos veículos disponíveis',
+  })
+  reason!: string;
+}
+
+export class RouteOptimizationResponseDto {
+  @ApiProperty({
+    description: 'Data planejada',
+    example: '2025-10-05',
+  })
+  date!: string;
+
+  @ApiProperty({
+    description: 'Algoritmo utilizado',
+    example: 'savings-2opt-oropt',
+  })
+  algorithm_used!: string;
+
+  @ApiProperty({
+    description:
+      'Qualidade da solução (0-100): economia de distância ponderada pela fração de entregas roteirizadas',
+    example: 58.7,
+  })
+  optimization_score!: number;
+
+  @ApiProperty({
+    description: 'Rotas geradas (uma por veículo)',
+    type: [OptimizedFleetRouteDto],
+  })
+  routes!: OptimizedFleetRouteDto[];
+
+  @ApiProperty({
+    description: 'Entregas não roteirizadas',
+    type: [UnassignedDeliveryDto],
+  })
+  unassigned!: UnassignedDeliveryDto[];
+
+  @ApiProperty({
+    description: 'Distância total de todas as rotas (km)',
+    example: 128.4,
+  })
+  total_distance_km!: number;
+}
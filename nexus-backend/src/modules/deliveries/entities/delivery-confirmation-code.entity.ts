@@ -0,0 +1,106 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { ConfirmationCodeStatus } from '../enums/confirmation-code-status.enum';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { Delivery } from './delivery.entity';
+
+/**
+ * DeliveryConfirmationCode Entity - Código de confirmação de entrega (OTP)
+ *
+ * O código numérico é enviado ao recebedor por SMS ou e-mail e informado
+ * ao motorista no ato da entrega. Apenas o hash é armazenado; o reenvio
+ * gera um novo código sem zerar as tentativas já consumidas.
+ */
+@Entity('delivery_confirmation_codes')
+@Index(['delivery_id'])
+@Index(['status'])
+export class DeliveryConfirmationCode extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: NotificationChannel,
+    comment: 'Canal de envio do código (sms ou email)',
+  })
+  channel!: NotificationChannel;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Destino mascarado (telefone ou e-mail do recebedor)',
+  })
+  destination!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Hash bcrypt do código',
+  })
+  code_hash!: string;
+
+  @Column({
+    type: 'enum',
+    enum: ConfirmationCodeStatus,
+    default: ConfirmationCodeStatus.ACTIVE,
+    comment: 'Status do código',
+  })
+  status!: ConfirmationCodeStatus;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora de expiração do código',
+  })
+  expires_at!: Date;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Tentativas inválidas de confirmação',
+  })
+  attempts!: number;
+
+  @Column({
+    type: 'integer',
+    comment: 'Máximo de tentativas antes do bloqueio',
+  })
+  max_attempts!: number;
+
+  @Column({
+    type: 'integer',
+    default: 1,
+    comment: 'Quantidade de envios (emissão + reenvios)',
+  })
+  send_count!: number;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora do último envio',
+  })
+  last_sent_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da confirmação',
+  })
+  verified_at?: Date;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'Motorista que confirmou o código',
+  })
+  verified_by_driver_id?: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'Comprovante gerado pela confirmação',
+  })
+  proof_id?: string;
+
+  @ManyToOne(() => Delivery, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'delivery_id' })
+  delivery!: Delivery;
+
+  @Column('uuid', { comment: 'ID da entrega' })
+  delivery_id!: string;
+}
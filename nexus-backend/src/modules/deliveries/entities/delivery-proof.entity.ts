@@ -190,6 +190,12 @@ export class DeliveryProof extends BaseEntity {
       };
       exif_data?: Record<string, unknown>;
     };
+    // Para imagens (fotos e assinaturas): miniaturas geradas no envio
+    thumbnails?: {
+      small: string;
+      medium: string;
+      large: string;
+    };
     // Para áudio
     audio_data?: {
       duration_seconds?: number;
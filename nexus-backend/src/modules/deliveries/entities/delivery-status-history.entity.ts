@@ -84,6 +84,7 @@ export class DeliveryStatusHistory extends BaseEntity {
     session_id?: string;
     request_id?: string;
     batch_job_id?: string;
+    api_key_id?: string;
   };
 
   @Column({
@@ -5,6 +5,8 @@ import { DeliveryPriority } from '../enums/delivery-priority.enum';
 import { Customer } from '../../customers/entities/customer.entity';
 import { Driver } from '../../drivers/entities/driver.entity';
 import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { Route } from '../../routes/entities/route.entity';
+import { RouteStop } from '../../routes/entities/route_stop.entity';
 import { DeliveryAttempt } from './delivery-attempt.entity';
 import { DeliveryProof } from './delivery-proof.entity';
 import { DeliveryStatusHistory } from './delivery-status-history.entity';
@@ -26,6 +28,8 @@ import { DeliveryStatusHistory } from './delivery-status-history.entity';
 @Index(['customer_id'])
 @Index(['driver_id'])
 @Index(['vehicle_id'])
+@Index(['route_id'])
+@Index(['route_stop_id'])
 @Index(['scheduled_delivery_at'])
 export class Delivery extends BaseEntity {
   @Column({
@@ -74,6 +78,20 @@ export class Delivery extends BaseEntity {
   @Column('uuid', { nullable: true, comment: 'ID do veículo' })
   vehicle_id?: string;
 
+  @ManyToOne(() => Route, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'route_id' })
+  route?: Route;
+
+  @Column('uuid', { nullable: true, comment: 'ID da rota à qual a entrega foi atribuída' })
+  route_id?: string;
+
+  @ManyToOne(() => RouteStop, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'route_stop_id' })
+  route_stop?: RouteStop;
+
+  @Column('uuid', { nullable: true, comment: 'ID da parada da rota que atende a entrega' })
+  route_stop_id?: string;
+
   // Detalhes da entrega
   @Column({
     type: 'text',
@@ -210,6 +228,20 @@ export class Delivery extends BaseEntity {
   })
   actual_delivery_at?: Date;
 
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Previsão de chegada do motorista (ETA dinâmico)',
+  })
+  estimated_arrival_at?: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do último cálculo do ETA',
+  })
+  eta_updated_at?: Date;
+
   // Cálculos e métricas
   @Column({
     type: 'decimal',
@@ -291,6 +323,7 @@ export class Delivery extends BaseEntity {
     requires_signature?: boolean;
     requires_photo?: boolean;
     requires_id?: boolean;
+    requires_confirmation_code?: boolean;
     allowed_attempt_count?: number;
     time_windows?: {
       start: string;
@@ -325,6 +358,9 @@ export class Delivery extends BaseEntity {
     delivery_attempts?: number;
     last_attempt_at?: Date;
     failure_reasons?: string[];
+    at_risk?: boolean;
+    at_risk_incident_id?: string;
+    at_risk_since?: Date;
     [key: string]: unknown;
   };
 
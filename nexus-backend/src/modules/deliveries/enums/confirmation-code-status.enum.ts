@@ -0,0 +1,30 @@
+/**
+ * Enum para status do código de confirmação de entrega (OTP)
+ */
+export enum ConfirmationCodeStatus {
+  /** Enviado ao recebedor e aguardando confirmação */
+  ACTIVE = 'ACTIVE',
+
+  /** Confirmado pelo motorista (gerou comprovante) */
+  USED = 'USED',
+
+  /** Prazo de validade esgotado */
+  EXPIRED = 'EXPIRED',
+
+  /** Bloqueado por excesso de tentativas inválidas */
+  LOCKED = 'LOCKED',
+
+  /** Substituído por uma nova emissão */
+  REVOKED = 'REVOKED',
+}
+
+/**
+ * Descrições dos status para exibição em UI
+ */
+export const ConfirmationCodeStatusDescriptions: Record<ConfirmationCodeStatus, string> = {
+  [ConfirmationCodeStatus.ACTIVE]: 'Aguardando confirmação',
+  [ConfirmationCodeStatus.USED]: 'Confirmado',
+  [ConfirmationCodeStatus.EXPIRED]: 'Expirado',
+  [ConfirmationCodeStatus.LOCKED]: 'Bloqueado por tentativas',
+  [ConfirmationCodeStatus.REVOKED]: 'Substituído',
+};
@@ -0,0 +1,14 @@
+import type { DeliveryRequestContext } from './request-context.interface';
+import type { DeliveryStatusHistory } from '../entities/delivery-status-history.entity';
+
+/**
+ * Responsável por uma alteração da entrega, registrado no histórico de status
+ */
+export interface DeliveryActor extends DeliveryRequestContext {
+  /** Tipo do responsável (`changed_by_type`) */
+  type: NonNullable<DeliveryStatusHistory['changed_by_type']>;
+  /** Nome registrado em `changed_by_name` */
+  name?: string | undefined;
+  /** Chave de API usada na requisição (tipo API) */
+  apiKeyId?: string | undefined;
+}
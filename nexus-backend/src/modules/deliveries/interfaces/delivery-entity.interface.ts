@@ -44,6 +44,7 @@ export interface DeliverySettings {
   requires_signature?: boolean;
   requires_photo?: boolean;
   requires_id?: boolean;
+  requires_confirmation_code?: boolean;
   allowed_attempt_count?: number;
   restricted_hours?: TimeRestriction[];
 }
@@ -14,6 +14,7 @@ export interface NotificationRecipient {
 export interface NotificationOptions {
   sendEmail?: boolean;
   sendSms?: boolean;
+  sendWhatsapp?: boolean;
   sendPush?: boolean;
   immediate?: boolean;
   scheduledFor?: Date | undefined;
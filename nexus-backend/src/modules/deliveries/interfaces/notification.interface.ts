@@ -11,6 +11,8 @@ export enum NotificationType {
   DELIVERY_COMPLETED = 'DELIVERY_COMPLETED',
   DELIVERY_FAILED = 'DELIVERY_FAILED',
   DELIVERY_CANCELLED = 'DELIVERY_CANCELLED',
+  DELIVERY_CONFIRMATION_CODE = 'DELIVERY_CONFIRMATION_CODE',
+  DELIVERY_ETA_UPDATED = 'DELIVERY_ETA_UPDATED',
 }
 
 /**
@@ -26,4 +28,6 @@ export interface DeliveryNotification {
   previousStatus?: DeliveryStatus;
   message: string;
   timestamp: Date;
+  /** Previsão de chegada comunicada (ETA dinâmico) */
+  estimatedArrival?: Date;
 }
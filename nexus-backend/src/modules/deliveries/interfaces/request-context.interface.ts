@@ -0,0 +1,8 @@
+/**
+ * Dados da requisição registrados em comprovantes e auditoria
+ */
+export interface DeliveryRequestContext {
+  userId?: string | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
@@ -1,5 +1,6 @@
 import type { Coordinates } from './address.interface';
 import type { DeliveryPriority } from '../enums/delivery-priority.enum';
+import type { VrpRestrictions } from './route-solver.interface';
 
 /**
  * Interface para representar uma entrega em uma rota
@@ -19,4 +20,29 @@ export interface OptimizedRoute {
   totalDistance: number; // em km
   totalTime: number; // em minutos
   sequence: string[]; // IDs das entregas na ordem otimizada
+  algorithmUsed: string;
+  optimizationScore: number; // 0-100
+}
+
+/**
+ * Região geográfica de entregas próximas
+ */
+export interface DeliveryRegion {
+  name: string;
+  deliveryIds: string[];
+  count: number;
+  /** Centro geográfico das entregas da região */
+  centroid: Coordinates;
+}
+
+/**
+ * Parâmetros da roteirização de frota (valores ausentes usam a configuração do módulo)
+ */
+export interface FleetPlanOptions {
+  depot: Coordinates;
+  /** Início do turno (HH:mm) */
+  shiftStart?: string | undefined;
+  maxShiftMinutes?: number | undefined;
+  returnToDepot?: boolean | undefined;
+  restrictions?: VrpRestrictions | undefined;
 }
@@ -0,0 +1,127 @@
+import type { Coordinates } from './address.interface';
+import type { DeliveryPriority } from '../enums/delivery-priority.enum';
+
+/**
+ * Token de injeção do solver de roteirização ativo
+ */
+export const ROUTE_SOLVER = Symbol('ROUTE_SOLVER');
+
+/**
+ * Janela de atendimento em minutos desde 00:00 do dia planejado
+ */
+export interface VrpTimeWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parada (entrega) a ser roteirizada
+ */
+export interface VrpStop {
+  id: string;
+  coordinates: Coordinates;
+  priority: DeliveryPriority;
+  /** Tempo de atendimento em minutos */
+  serviceMinutes: number;
+  weightKg: number;
+  volumeM3: number;
+  /** Janelas aceitas (vazio = qualquer horário do turno) */
+  timeWindows: VrpTimeWindow[];
+}
+
+/**
+ * Veículo disponível para a roteirização
+ */
+export interface VrpVehicle {
+  id: string;
+  /** Capacidade de carga em kg (ausente = sem limite) */
+  capacityKg?: number | undefined;
+  /** Volume de carga em m³ (ausente = sem limite) */
+  capacityM3?: number | undefined;
+}
+
+/**
+ * Restrições aplicadas a todas as rotas geradas (mesmo formato de Route.restrictions)
+ */
+export interface VrpRestrictions {
+  weight_limit_kg?: number | undefined;
+  night_delivery_allowed?: boolean | undefined;
+}
+
+/**
+ * Problema de roteirização com capacidade e janelas de tempo (CVRPTW)
+ */
+export interface VrpProblem {
+  depot: Coordinates;
+  stops: VrpStop[];
+  vehicles: VrpVehicle[];
+  /** Início do turno em minutos desde 00:00 */
+  shiftStartMinutes: number;
+  /** Duração máxima do turno do motorista em minutos */
+  maxShiftMinutes: number;
+  /** Velocidade média de deslocamento em km/h */
+  averageSpeedKmh: number;
+  /** Considera o retorno ao depósito na distância e na duração do turno */
+  returnToDepot: boolean;
+  restrictions?: VrpRestrictions | undefined;
+}
+
+/**
+ * Parada programada em uma rota
+ */
+export interface VrpScheduledStop {
+  id: string;
+  sequence: number;
+  /** Chegada em minutos desde 00:00 */
+  arrivalMinutes: number;
+  /** Início do atendimento (após eventual espera pela janela) */
+  serviceStartMinutes: number;
+  departureMinutes: number;
+  /** Distância desde a parada anterior (km) */
+  distanceFromPreviousKm: number;
+}
+
+/**
+ * Rota gerada para um veículo
+ */
+export interface VrpRoute {
+  vehicleId: string;
+  stops: VrpScheduledStop[];
+  totalDistanceKm: number;
+  /** Duração total (deslocamento, espera e atendimento) em minutos */
+  totalDurationMinutes: number;
+  loadKg: number;
+  volumeM3: number;
+  /** Economia de distância da rota (0-100), mesmo critério do score da solução */
+  score: number;
+}
+
+/**
+ * Parada que não coube em nenhuma rota
+ */
+export interface VrpUnassignedStop {
+  id: string;
+  reason: string;
+}
+
+/**
+ * Resultado da roteirização
+ */
+export interface VrpSolution {
+  algorithm: string;
+  routes: VrpRoute[];
+  unassigned: VrpUnassignedStop[];
+  /**
+   * Qualidade da solução (0-100): economia de distância frente a atender cada parada
+   * em uma viagem de ida e volta ao depósito, ponderada pela fração de paradas atendidas
+   */
+  score: number;
+}
+
+/**
+ * Contrato dos solvers de roteirização (savings, nearest-neighbor, etc.)
+ */
+export interface RouteSolver {
+  readonly algorithm: string;
+  solve(problem: VrpProblem): VrpSolution;
+}
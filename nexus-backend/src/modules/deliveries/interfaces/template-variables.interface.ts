@@ -3,12 +3,14 @@
  */
 export interface TemplateVariables {
   trackingCode: string;
-  customerName?: string;
-  driverId?: string;
-  driverName?: string;
-  estimatedTime?: string;
-  deliveryAddress?: string;
-  deliveryDate?: string;
-  statusMessage?: string;
+  customerName?: string | undefined;
+  driverId?: string | undefined;
+  driverName?: string | undefined;
+  estimatedTime?: string | undefined;
+  deliveryAddress?: string | undefined;
+  deliveryDate?: string | undefined;
+  statusMessage?: string | undefined;
+  confirmationCode?: string | undefined;
+  codeExpiresAt?: string | undefined;
   [key: string]: string | undefined;
 }
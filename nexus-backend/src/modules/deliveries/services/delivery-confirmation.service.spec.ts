@@ -0,0 +1,153 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { DeliveryConfirmationService } from './delivery-confirmation.service';
+import { Delivery } from '../entities/delivery.entity';
+import { DeliveryConfirmationCode } from '../entities/delivery-confirmation-code.entity';
+import { DeliveryStatus } from '../enums/delivery-status.enum';
+import { ConfirmationCodeStatus } from '../enums/confirmation-code-status.enum';
+import { ProofType } from '../enums/proof-type.enum';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationDispatcherService } from '../../notifications/services/notification-dispatcher.service';
+import { AuditLogService } from '../../audit/audit-log.service';
+
+describe('DeliveryConfirmationService', () => {
+  let service: DeliveryConfirmationService;
+
+  const driverId = '11111111-1111-4111-8111-111111111111';
+  const otherDriverId = '33333333-3333-4333-8333-333333333333';
+  const delivery = {
+    id: '22222222-2222-4222-8222-222222222222',
+    tracking_code: 'NT-000123',
+    status: DeliveryStatus.OUT_FOR_DELIVERY,
+    driver_id: driverId,
+    recipient_contact: { name: 'Ana', phone: '+5541999990000' },
+  } as Delivery;
+
+  let activeCode: DeliveryConfirmationCode;
+
+  const mockManager = {
+    findOne: jest.fn(),
+    create: jest.fn((_entity: unknown, data: Record<string, unknown>) => data),
+    save: jest.fn((data: Record<string, unknown>) =>
+      Promise.resolve({ id: data.id ?? 'proof-1', ...data }),
+    ),
+  };
+
+  const mockQueryRunner = {
+    connect: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+    isTransactionActive: false,
+    manager: mockManager,
+  };
+
+  const mockDeliveryRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockConfirmationCodeRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockConfigService = {
+    getOrThrow: jest.fn(() => ({
+      confirmationCode: {
+        declaredValueThreshold: 1000,
+        length: 6,
+        ttlMinutes: 240,
+        maxAttempts: 5,
+        maxSends: 3,
+        resendCooldownSeconds: 60,
+      },
+    })),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    activeCode = {
+      id: 'code-1',
+      delivery_id: delivery.id,
+      channel: NotificationChannel.SMS,
+      destination: '+55******0000',
+      code_hash: await bcrypt.hash('048213', 4),
+      status: ConfirmationCodeStatus.ACTIVE,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      attempts: 0,
+      max_attempts: 5,
+      send_count: 1,
+      last_sent_at: new Date(),
+    } as DeliveryConfirmationCode;
+
+    mockDeliveryRepository.findOne.mockResolvedValue(delivery);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveryConfirmationService,
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        {
+          provide: getRepositoryToken(DeliveryConfirmationCode),
+          useValue: mockConfirmationCodeRepository,
+        },
+        { provide: NotificationDispatcherService, useValue: { dispatch: jest.fn() } },
+        { provide: AuditLogService, useValue: { createLog: jest.fn() } },
+        { provide: DataSource, useValue: { createQueryRunner: jest.fn(() => mockQueryRunner) } },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<DeliveryConfirmationService>(DeliveryConfirmationService);
+  });
+
+  describe('verify', () => {
+    it('should register a verified proof for the assigned driver', async () => {
+      mockManager.findOne.mockResolvedValue(activeCode);
+      const logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+      const proof = await service.verify(delivery.id, { code: '048213' }, driverId);
+
+      expect(proof.type).toBe(ProofType.SMS_CODE);
+      expect(proof.verified).toBe(true);
+      expect(mockManager.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: ConfirmationCodeStatus.USED,
+          verified_by_driver_id: driverId,
+        }),
+      );
+
+      logSpy.mockRestore();
+    });
+
+    it('should reject confirmation by a user other than the assigned driver', async () => {
+      await expect(
+        service.verify(delivery.id, { code: '048213' }, otherDriverId),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockQueryRunner.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject a driver_id other than the authenticated driver', async () => {
+      await expect(
+        service.verify(delivery.id, { code: '048213', driver_id: otherDriverId }, driverId),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockDeliveryRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resend', () => {
+    it('should reject a resend requested by a user other than the assigned driver', async () => {
+      await expect(service.resend(delivery.id, {}, otherDriverId)).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+
+      expect(mockConfirmationCodeRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
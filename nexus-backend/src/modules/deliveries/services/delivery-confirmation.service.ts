@@ -0,0 +1,593 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { Delivery } from '../entities/delivery.entity';
+import { DeliveryProof } from '../entities/delivery-proof.entity';
+import { DeliveryConfirmationCode } from '../entities/delivery-confirmation-code.entity';
+import { DeliveryStatus } from '../enums/delivery-status.enum';
+import { ProofType } from '../enums/proof-type.enum';
+import { ConfirmationCodeStatus } from '../enums/confirmation-code-status.enum';
+import { NotificationType } from '../interfaces/notification.interface';
+import type { DeliveryRequestContext } from '../interfaces/request-context.interface';
+import type { DeliveryConfig } from '../config/delivery.config';
+import { getEmailTemplate, getSmsTemplate } from '../config/notification-templates.config';
+import {
+  ConfirmationCodeResponseDto,
+  type SendConfirmationCodeDto,
+  type VerifyConfirmationCodeDto,
+} from '../dto/delivery-confirmation-code.dto';
+import { DeliveryProofResponseDto } from '../dto/delivery-proof.dto';
+import { generateConfirmationCode, maskContact } from '../utils/confirmation-code.util';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationDispatcherService } from '../../notifications/services/notification-dispatcher.service';
+import { NotificationDispatchStatus } from '../../notifications/enums/notification-dispatch-status.enum';
+import { NotificationRecipientType } from '../../notifications/enums/notification-recipient-type.enum';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+
+/** Rounds do bcrypt para o hash do código */
+const CODE_HASH_ROUNDS = 10;
+
+/**
+ * Etapas do código de confirmação registradas na auditoria
+ */
+type ConfirmationCodeEvent =
+  | 'ISSUED'
+  | 'RESENT'
+  | 'SEND_FAILED'
+  | 'VERIFIED'
+  | 'INVALID_ATTEMPT'
+  | 'LOCKED'
+  | 'EXPIRED'
+  | 'SKIPPED';
+
+/**
+ * Serviço de confirmação de entrega por código (OTP via SMS ou e-mail)
+ *
+ * Quando uma entrega que exige confirmação sai para entrega, um código numérico
+ * é enviado ao recebedor (`recipient_contact`). O motorista informa o código
+ * lido pelo recebedor; o código correto gera um comprovante verificado
+ * (SMS_CODE ou EMAIL_CODE), exigido na transição para DELIVERED.
+ *
+ * A confirmação é exigida por `settings.requires_confirmation_code` ou para
+ * entregas com valor declarado a partir do limite configurado. O código é
+ * armazenado apenas como hash, expira, bloqueia após tentativas inválidas e
+ * pode ser reenviado com limite e intervalo mínimo. Cada etapa é auditada.
+ */
+@Injectable()
+export class DeliveryConfirmationService {
+  private readonly logger = new Logger(DeliveryConfirmationService.name);
+
+  private readonly config: DeliveryConfig['confirmationCode'];
+
+  constructor(
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(DeliveryConfirmationCode)
+    private readonly confirmationCodeRepository: Repository<DeliveryConfirmationCode>,
+    private readonly notificationDispatcher: NotificationDispatcherService,
+    private readonly auditLogService: AuditLogService,
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<DeliveryConfig>('delivery').confirmationCode;
+  }
+
+  /**
+   * Indica se a entrega exige confirmação por código
+   */
+  isRequired(delivery: Pick<Delivery, 'settings' | 'declared_value'>): boolean {
+    if (delivery.settings?.requires_confirmation_code === true) {
+      return true;
+    }
+
+    const threshold = this.config.declaredValueThreshold;
+    return threshold > 0 && Number(delivery.declared_value) >= threshold;
+  }
+
+  /**
+   * Emite o código quando a entrega sai para entrega
+   *
+   * Chamado após a transição para OUT_FOR_DELIVERY. Nunca lança erro: entregas
+   * que não exigem confirmação são ignoradas e falhas ficam no log e na auditoria.
+   */
+  async issueOnDispatch(deliveryId: string): Promise<void> {
+    try {
+      const delivery = await this.findDeliveryOrFail(deliveryId);
+
+      if (!this.isRequired(delivery)) {
+        return;
+      }
+
+      if (!this.resolveChannel(delivery)) {
+        this.logger.warn(
+          `Entrega ${delivery.tracking_code} exige código de confirmação, mas não tem telefone ou e-mail do recebedor`,
+        );
+        await this.audit('SKIPPED', delivery, null, {}, { reason: 'MISSING_CONTACT' });
+        return;
+      }
+
+      await this.createCode(delivery, undefined, {});
+    } catch (error) {
+      this.logger.error(
+        `Falha ao emitir código de confirmação da entrega ${deliveryId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Emite um novo código, substituindo o atual (inclusive bloqueado)
+   */
+  async issue(
+    deliveryId: string,
+    dto: SendConfirmationCodeDto,
+    context: DeliveryRequestContext = {},
+  ): Promise<ConfirmationCodeResponseDto> {
+    const delivery = await this.findDeliveryOrFail(deliveryId);
+    this.assertOutForDelivery(delivery);
+
+    const code = await this.createCode(delivery, dto.channel, context);
+    return ConfirmationCodeResponseDto.fromEntity(code);
+  }
+
+  /**
+   * Reenvia o código ao recebedor com um novo valor
+   *
+   * O reenvio mantém as tentativas já consumidas. Códigos expirados são
+   * substituídos; códigos bloqueados só podem ser reemitidos pelo despachante.
+   *
+   * @param driverId - Motorista do usuário autenticado; deve ser o da entrega
+   */
+  async resend(
+    deliveryId: string,
+    dto: SendConfirmationCodeDto,
+    driverId: string,
+    context: DeliveryRequestContext = {},
+  ): Promise<ConfirmationCodeResponseDto> {
+    const delivery = await this.findDeliveryOrFail(deliveryId);
+    this.assertAssignedDriver(delivery, driverId);
+    this.assertOutForDelivery(delivery);
+
+    const current = await this.confirmationCodeRepository.findOne({
+      where: { delivery_id: delivery.id },
+      order: { created_at: 'DESC' },
+    });
+
+    if (current?.status === ConfirmationCodeStatus.LOCKED) {
+      throw new ConflictException(
+        'Código bloqueado por excesso de tentativas. Solicite uma nova emissão ao despachante',
+      );
+    }
+
+    if (current?.status === ConfirmationCodeStatus.USED) {
+      throw new ConflictException('Entrega já confirmada por código');
+    }
+
+    if (current?.status !== ConfirmationCodeStatus.ACTIVE) {
+      const code = await this.createCode(delivery, dto.channel, context);
+      return ConfirmationCodeResponseDto.fromEntity(code);
+    }
+
+    if (current.expires_at <= new Date()) {
+      await this.expire(delivery, current, context);
+      const code = await this.createCode(delivery, dto.channel, context);
+      return ConfirmationCodeResponseDto.fromEntity(code);
+    }
+
+    if (current.send_count >= this.config.maxSends) {
+      throw new BadRequestException(
+        `Limite de ${this.config.maxSends} envios do código atingido. Solicite uma nova emissão ao despachante`,
+      );
+    }
+
+    const elapsedSeconds = (Date.now() - current.last_sent_at.getTime()) / 1000;
+    if (elapsedSeconds < this.config.resendCooldownSeconds) {
+      throw new HttpException(
+        `Aguarde ${Math.ceil(this.config.resendCooldownSeconds - elapsedSeconds)}s para reenviar o código`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const channel = dto.channel ?? current.channel;
+    const destination = this.resolveDestination(delivery, channel);
+    const plainCode = generateConfirmationCode(this.config.length);
+
+    current.channel = channel;
+    current.destination = maskContact(destination);
+    current.code_hash = await bcrypt.hash(plainCode, CODE_HASH_ROUNDS);
+    current.expires_at = this.buildExpiration();
+    current.send_count += 1;
+    current.last_sent_at = new Date();
+
+    const saved = await this.confirmationCodeRepository.save(current);
+
+    await this.audit('RESENT', delivery, saved, context, { send_count: saved.send_count });
+    await this.sendCode(delivery, saved, destination, plainCode, context);
+
+    return ConfirmationCodeResponseDto.fromEntity(saved);
+  }
+
+  /**
+   * Situação do código atual da entrega
+   */
+  async findCurrent(deliveryId: string): Promise<ConfirmationCodeResponseDto> {
+    const code = await this.confirmationCodeRepository.findOne({
+      where: { delivery_id: deliveryId },
+      order: { created_at: 'DESC' },
+    });
+
+    if (!code) {
+      throw new NotFoundException(
+        `Nenhum código de confirmação emitido para a entrega ${deliveryId}`,
+      );
+    }
+
+    return ConfirmationCodeResponseDto.fromEntity(code);
+  }
+
+  /**
+   * Confirma o código informado pelo recebedor e registra o comprovante
+   *
+   * Tentativas inválidas são contabilizadas (com bloqueio ao atingir o limite)
+   * mesmo quando a requisição falha. Apenas o motorista da entrega confirma: o
+   * recebedor, que recebe o código, não pode confirmar a própria entrega.
+   *
+   * @param driverId - Motorista do usuário autenticado; deve ser o da entrega
+   */
+  async verify(
+    deliveryId: string,
+    dto: VerifyConfirmationCodeDto,
+    driverId: string,
+    context: DeliveryRequestContext = {},
+  ): Promise<DeliveryProofResponseDto> {
+    if (dto.driver_id && dto.driver_id !== driverId) {
+      throw new ForbiddenException('Códigos só podem ser confirmados pelo próprio motorista');
+    }
+
+    const delivery = await this.findDeliveryOrFail(deliveryId);
+    this.assertAssignedDriver(delivery, driverId);
+    this.assertOutForDelivery(delivery);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const code = await queryRunner.manager.findOne(DeliveryConfirmationCode, {
+        where: { delivery_id: delivery.id, status: ConfirmationCodeStatus.ACTIVE },
+        order: { created_at: 'DESC' },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!code) {
+        throw new BadRequestException('Nenhum código de confirmação ativo para a entrega');
+      }
+
+      const now = new Date();
+
+      if (code.expires_at <= now) {
+        code.status = ConfirmationCodeStatus.EXPIRED;
+        await queryRunner.manager.save(code);
+        await queryRunner.commitTransaction();
+
+        await this.audit('EXPIRED', delivery, code, context);
+        throw new BadRequestException('Código de confirmação expirado. Solicite o reenvio');
+      }
+
+      if (!(await bcrypt.compare(dto.code, code.code_hash))) {
+        code.attempts += 1;
+        const locked = code.attempts >= code.max_attempts;
+        if (locked) {
+          code.status = ConfirmationCodeStatus.LOCKED;
+        }
+
+        await queryRunner.manager.save(code);
+        await queryRunner.commitTransaction();
+
+        await this.audit(locked ? 'LOCKED' : 'INVALID_ATTEMPT', delivery, code, context, {
+          driver_id: driverId,
+          attempts: code.attempts,
+        });
+        throw new BadRequestException(
+          locked
+            ? 'Código inválido. Código bloqueado por excesso de tentativas'
+            : `Código inválido. Tentativas restantes: ${code.max_attempts - code.attempts}`,
+        );
+      }
+
+      const contact = delivery.recipient_contact;
+      const proof = queryRunner.manager.create(DeliveryProof, {
+        delivery_id: delivery.id,
+        type: code.channel === NotificationChannel.SMS ? ProofType.SMS_CODE : ProofType.EMAIL_CODE,
+        captured_at: now,
+        verified: true,
+        verified_at: now,
+        validation_data: {
+          verified: true,
+          verified_at: now,
+          verification_method: 'AUTOMATIC',
+          ...(context.userId ? { verified_by: context.userId } : {}),
+        },
+        type_specific_data: {
+          code_data: {
+            generated_at: code.last_sent_at,
+            expires_at: code.expires_at,
+            attempts: code.attempts + 1,
+            ...(context.ipAddress ? { ip_address: context.ipAddress } : {}),
+          },
+        },
+        device_metadata: {
+          ...(context.ipAddress ? { ip_address: context.ipAddress } : {}),
+          ...(context.userAgent ? { user_agent: context.userAgent } : {}),
+        },
+        audit_trail: [
+          {
+            action: 'CODE_CONFIRMED',
+            timestamp: now,
+            ...(context.userId ? { user_id: context.userId } : {}),
+            details: {
+              confirmation_code_id: code.id,
+              driver_id: driverId,
+              channel: code.channel,
+              destination: code.destination,
+            },
+          },
+        ],
+        ...(context.userId ? { verified_by: context.userId } : {}),
+        ...(contact?.name ? { recipient_name: contact.name } : {}),
+        ...(contact?.phone ? { recipient_phone: contact.phone.slice(0, 20) } : {}),
+        ...(contact?.email ? { recipient_email: contact.email } : {}),
+        ...(dto.capture_latitude !== undefined ? { capture_latitude: dto.capture_latitude } : {}),
+        ...(dto.capture_longitude !== undefined
+          ? { capture_longitude: dto.capture_longitude }
+          : {}),
+      });
+
+      const savedProof = await queryRunner.manager.save(proof);
+
+      code.status = ConfirmationCodeStatus.USED;
+      code.verified_at = now;
+      code.verified_by_driver_id = driverId;
+      code.proof_id = savedProof.id;
+      await queryRunner.manager.save(code);
+
+      await queryRunner.commitTransaction();
+
+      this.logger.log(`Entrega ${delivery.tracking_code} confirmada por código (${code.channel})`);
+      await this.audit('VERIFIED', delivery, code, context, {
+        driver_id: driverId,
+        proof_id: savedProof.id,
+      });
+
+      return DeliveryProofResponseDto.fromEntity(savedProof);
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Gera, persiste e envia um novo código, substituindo os ativos/bloqueados
+   */
+  private async createCode(
+    delivery: Delivery,
+    requestedChannel: NotificationChannel | undefined,
+    context: DeliveryRequestContext,
+  ): Promise<DeliveryConfirmationCode> {
+    const channel = requestedChannel ?? this.resolveChannel(delivery);
+
+    if (!channel) {
+      throw new BadRequestException('Entrega sem telefone ou e-mail do recebedor');
+    }
+
+    const destination = this.resolveDestination(delivery, channel);
+    const plainCode = generateConfirmationCode(this.config.length);
+    const now = new Date();
+
+    await this.confirmationCodeRepository.update(
+      {
+        delivery_id: delivery.id,
+        status: In([ConfirmationCodeStatus.ACTIVE, ConfirmationCodeStatus.LOCKED]),
+      },
+      { status: ConfirmationCodeStatus.REVOKED },
+    );
+
+    const code = await this.confirmationCodeRepository.save(
+      this.confirmationCodeRepository.create({
+        delivery_id: delivery.id,
+        channel,
+        destination: maskContact(destination),
+        code_hash: await bcrypt.hash(plainCode, CODE_HASH_ROUNDS),
+        status: ConfirmationCodeStatus.ACTIVE,
+        expires_at: this.buildExpiration(),
+        attempts: 0,
+        max_attempts: this.config.maxAttempts,
+        send_count: 1,
+        last_sent_at: now,
+      }),
+    );
+
+    await this.audit('ISSUED', delivery, code, context);
+    await this.sendCode(delivery, code, destination, plainCode, context);
+
+    return code;
+  }
+
+  /**
+   * Envia o código pelo canal do registro, sempre imediatamente (nunca pela fila,
+   * cujo payload é persistido); o log de despachos e a caixa de saída guardam a
+   * mensagem mascarada
+   */
+  private async sendCode(
+    delivery: Delivery,
+    code: DeliveryConfirmationCode,
+    destination: string,
+    plainCode: string,
+    context: DeliveryRequestContext,
+  ): Promise<void> {
+    const variables = {
+      trackingCode: delivery.tracking_code,
+      recipientName: delivery.recipient_contact?.name,
+      codeExpiresAt: code.expires_at.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' }),
+    };
+    const render = (confirmationCode: string): { subject?: string; body: string } =>
+      code.channel === NotificationChannel.EMAIL
+        ? getEmailTemplate(NotificationType.DELIVERY_CONFIRMATION_CODE, {
+            ...variables,
+            confirmationCode,
+          })
+        : {
+            body: getSmsTemplate(NotificationType.DELIVERY_CONFIRMATION_CODE, {
+              ...variables,
+              confirmationCode,
+            }),
+          };
+
+    const message = render(plainCode);
+    const dispatch = await this.notificationDispatcher.dispatch({
+      channel: code.channel,
+      recipient: destination,
+      notification_type: NotificationType.DELIVERY_CONFIRMATION_CODE,
+      body: message.body,
+      redacted_body: render('*'.repeat(plainCode.length)).body,
+      recipient_type: NotificationRecipientType.CUSTOMER,
+      recipient_id: delivery.customer_id,
+      delivery_id: delivery.id,
+      ...(message.subject ? { subject: message.subject } : {}),
+    });
+
+    if (
+      dispatch.status === NotificationDispatchStatus.FAILED ||
+      dispatch.status === NotificationDispatchStatus.BOUNCED
+    ) {
+      await this.audit('SEND_FAILED', delivery, code, context, {
+        dispatch_id: dispatch.id,
+        error: dispatch.error_message,
+      });
+      throw new ServiceUnavailableException(
+        `Falha ao enviar o código de confirmação por ${code.channel}. Tente reenviar`,
+      );
+    }
+  }
+
+  private async expire(
+    delivery: Delivery,
+    code: DeliveryConfirmationCode,
+    context: DeliveryRequestContext,
+  ): Promise<void> {
+    code.status = ConfirmationCodeStatus.EXPIRED;
+    await this.confirmationCodeRepository.save(code);
+    await this.audit('EXPIRED', delivery, code, context);
+  }
+
+  /**
+   * Canal padrão: SMS quando há telefone do recebedor, senão e-mail
+   */
+  private resolveChannel(delivery: Delivery): NotificationChannel | undefined {
+    if (delivery.recipient_contact?.phone) {
+      return NotificationChannel.SMS;
+    }
+    if (delivery.recipient_contact?.email) {
+      return NotificationChannel.EMAIL;
+    }
+    return undefined;
+  }
+
+  private resolveDestination(delivery: Delivery, channel: NotificationChannel): string {
+    const destination =
+      channel === NotificationChannel.SMS
+        ? delivery.recipient_contact?.phone
+        : delivery.recipient_contact?.email;
+
+    if (!destination) {
+      throw new BadRequestException(`Recebedor da entrega sem contato para o canal ${channel}`);
+    }
+
+    return destination;
+  }
+
+  private buildExpiration(): Date {
+    return new Date(Date.now() + this.config.ttlMinutes * 60 * 1000);
+  }
+
+  private assertAssignedDriver(delivery: Delivery, driverId: string): void {
+    if (delivery.driver_id !== driverId) {
+      throw new ForbiddenException('Entrega não está atribuída ao motorista');
+    }
+  }
+
+  private assertOutForDelivery(delivery: Delivery): void {
+    if (delivery.status !== DeliveryStatus.OUT_FOR_DELIVERY) {
+      throw new BadRequestException(
+        `Código de confirmação disponível apenas para entregas em ${DeliveryStatus.OUT_FOR_DELIVERY} (atual: ${delivery.status})`,
+      );
+    }
+  }
+
+  private async findDeliveryOrFail(id: string): Promise<Delivery> {
+    const delivery = await this.deliveryRepository.findOne({ where: { id } });
+
+    if (!delivery) {
+      throw new NotFoundException(`Entrega com ID ${id} não encontrada`);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Registra uma etapa do código na auditoria (sem o código)
+   */
+  private async audit(
+    event: ConfirmationCodeEvent,
+    delivery: Delivery,
+    code: DeliveryConfirmationCode | null,
+    context: DeliveryRequestContext,
+    details: Record<string, unknown> = {},
+  ): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action: event === 'ISSUED' ? AuditAction.CREATE : AuditAction.UPDATE,
+        category: AuditCategory.DELIVERY_MANAGEMENT,
+        resourceType: 'delivery_confirmation_code',
+        description: `Código de confirmação da entrega ${delivery.tracking_code}: ${event}`,
+        metadata: {
+          event,
+          delivery_id: delivery.id,
+          tracking_code: delivery.tracking_code,
+          ...(code
+            ? {
+                channel: code.channel,
+                destination: code.destination,
+                status: code.status,
+                attempts: code.attempts,
+                send_count: code.send_count,
+              }
+            : {}),
+          ...details,
+        },
+        ...(code ? { resourceId: code.id } : {}),
+        ...(context.userId ? { userId: context.userId } : {}),
+        ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+        ...(context.userAgent ? { userAgent: context.userAgent } : {}),
+      });
+    } catch (error) {
+      this.logger.error('Failed to log confirmation code audit', error);
+    }
+  }
+}
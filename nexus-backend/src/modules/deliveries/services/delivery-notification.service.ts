@@ -1,10 +1,53 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Delivery } from '../entities/delivery.entity';
 import { DeliveryStatus } from '../enums/delivery-status.enum';
 import { NotificationType, type DeliveryNotification } from '../interfaces/notification.interface';
-import type { NotificationOptions } from '../interfaces/notification-recipient.interface';
+import type {
+  NotificationOptions,
+  NotificationRecipient,
+} from '../interfaces/notification-recipient.interface';
+import type { TemplateVariables } from '../interfaces/template-variables.interface';
+import {
+  getEmailTemplate,
+  getPushTemplate,
+  getSmsTemplate,
+  getStatusMessage,
+} from '../config/notification-templates.config';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationDispatcherService } from '../../notifications/services/notification-dispatcher.service';
+import { NotificationQueueService } from '../../notifications/services/notification-queue.service';
+import {
+  NotificationPreferencesService,
+  type NotificationSuppressionRecord,
+} from '../../notifications/services/notification-preferences.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { NotificationSuppressionReason } from '../../notifications/enums/notification-suppression-reason.enum';
+import { NotificationRecipientType } from '../../notifications/enums/notification-recipient-type.enum';
+import type { NotificationDispatch } from '../../notifications/entities/notification-dispatch.entity';
+import type { NotificationDispatchRequest } from '../../notifications/interfaces';
+import type { NotificationsConfig } from '../../../config/notifications.config';
+
+type DeliveryNotificationRecipient = NotificationRecipient & { type: NotificationRecipientType };
+
+/**
+ * Envio planejado: imediato ou, com run_at, pela fila de notificações agendadas
+ */
+interface PlannedDispatch {
+  request: NotificationDispatchRequest;
+  run_at?: Date;
+}
+
+/**
+ * Notificações críticas não são retidas pelo horário de silêncio do cliente
+ */
+const CRITICAL_NOTIFICATION_TYPES: NotificationType[] = [
+  NotificationType.DELIVERY_FAILED,
+  NotificationType.DELIVERY_CANCELLED,
+];
 
 /**
  * Serviço de notificações de entregas
@@ -13,7 +56,8 @@ import type { NotificationOptions } from '../interfaces/notification-recipient.i
  * - Enviar notificações de mudança de status
  * - Notificar clientes e motoristas
  * - Agendar notificações futuras
- * - Gerenciar templates de notificação
+ * - Renderizar os templates e despachar pelos canais configurados (e-mail, SMS, WhatsApp, push)
+ * - Respeitar preferências, consentimentos LGPD e horário de silêncio dos clientes
  *
  * @class DeliveryNotificationService
  */
@@ -21,10 +65,19 @@ import type { NotificationOptions } from '../interfaces/notification-recipient.i
 export class DeliveryNotificationService {
   private readonly logger = new Logger(DeliveryNotificationService.name);
 
+  private readonly templatesConfig: NotificationsConfig['templates'];
+
   constructor(
     @InjectRepository(Delivery)
     private readonly deliveryRepository: Repository<Delivery>,
-  ) {}
+    private readonly notificationDispatcher: NotificationDispatcherService,
+    private readonly notificationQueue: NotificationQueueService,
+    private readonly notificationsService: NotificationsService,
+    private readonly notificationPreferences: NotificationPreferencesService,
+    configService: ConfigService,
+  ) {
+    this.templatesConfig = configService.getOrThrow<NotificationsConfig>('notifications').templates;
+  }
 
   /**
    * Notifica sobre mudança de status de entrega
@@ -72,12 +125,14 @@ export class DeliveryNotificationService {
       ...(delivery.driver_id && { driverId: delivery.driver_id }),
     };
 
-    this.sendNotification(notification, options);
+    await this.sendNotification(delivery, notification, options);
   }
 
   /**
    * Notifica o cliente sobre um evento de entrega
    *
+   * Sem canais escolhidos pelo cliente, o envio é feito por e-mail (padrão).
+   *
    * @param deliveryId - ID da entrega
    * @param type - Tipo de notificação
    * @param message - Mensagem personalizada (opcional)
@@ -101,7 +156,7 @@ export class DeliveryNotificationService {
   ): Promise<void> {
     const delivery = await this.deliveryRepository.findOne({
       where: { id: deliveryId },
-      relations: ['customer'],
+      relations: ['customer', 'driver'],
     });
 
     if (!delivery) {
@@ -119,7 +174,7 @@ export class DeliveryNotificationService {
       timestamp: new Date(),
     };
 
-    this.sendNotification(notification, {
+    await this.sendNotification(delivery, notification, {
       ...options,
       sendEmail: options.sendEmail ?? true,
     });
@@ -151,7 +206,7 @@ export class DeliveryNotificationService {
   ): Promise<void> {
     const delivery = await this.deliveryRepository.findOne({
       where: { id: deliveryId },
-      relations: ['driver'],
+      relations: ['customer', 'driver'],
     });
 
     if (!delivery?.driver_id) {
@@ -169,20 +224,72 @@ export class DeliveryNotificationService {
       timestamp: new Date(),
     };
 
-    this.sendNotification(notification, {
+    await this.sendNotification(delivery, notification, {
       ...options,
       sendPush: options.sendPush ?? true,
     });
   }
 
+  /**
+   * Notifica o cliente sobre a nova previsão de chegada (ETA dinâmico)
+   *
+   * Sem canais escolhidos pelo cliente, o envio é feito por e-mail e push.
+   *
+   * @param deliveryId - ID da entrega
+   * @param estimatedArrival - Nova previsão de chegada
+   * @param message - Motivo da atualização
+   *
+   * @example
+   * ```typescript
+   * await service.notifyEtaUpdate(
+   *   'delivery-123',
+   *   new Date('2024-01-15T16:20:00-03:00'),
+   *   'O motorista deve chegar depois da janela de entrega combinada',
+   * );
+   * ```
+   */
+  async notifyEtaUpdate(
+    deliveryId: string,
+    estimatedArrival: Date,
+    message: string,
+  ): Promise<void> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: ['customer', 'driver'],
+    });
+
+    if (!delivery?.customer_id) {
+      this.logger.warn(`Entrega ${deliveryId} não encontrada ou sem cliente para aviso de ETA`);
+      return;
+    }
+
+    const notification: DeliveryNotification = {
+      type: NotificationType.DELIVERY_ETA_UPDATED,
+      deliveryId: delivery.id,
+      trackingCode: delivery.tracking_code,
+      customerId: delivery.customer_id,
+      status: delivery.status,
+      message,
+      timestamp: new Date(),
+      estimatedArrival,
+    };
+
+    await this.sendNotification(delivery, notification, { sendEmail: true, sendPush: true });
+  }
+
   /**
    * Agenda uma notificação para ser enviada em uma data futura
    *
+   * A notificação é renderizada no agendamento e persistida na fila de notificações,
+   * que a envia a partir da data informada (com retentativas e dead-letter).
+   * Agendamentos repetidos com os mesmos parâmetros não geram envios duplicados.
+   *
    * @param deliveryId - ID da entrega
    * @param type - Tipo de notificação
    * @param scheduledFor - Data e hora para envio
    * @param recipient - Destinatário (customer ou driver)
    * @param message - Mensagem opcional
+   * @param options - Canais de envio (padrão: e-mail para cliente, push para motorista)
    *
    * @example
    * ```typescript
@@ -204,9 +311,11 @@ export class DeliveryNotificationService {
     scheduledFor: Date,
     recipient: 'customer' | 'driver',
     message?: string,
+    options: NotificationOptions = {},
   ): Promise<void> {
     const delivery = await this.deliveryRepository.findOne({
       where: { id: deliveryId },
+      relations: ['customer', 'driver'],
     });
 
     if (!delivery) {
@@ -225,40 +334,297 @@ export class DeliveryNotificationService {
       ...(recipient === 'driver' && delivery.driver_id && { driverId: delivery.driver_id }),
     };
 
-    // TODO: Implementar lógica de agendamento (ex: usar queue com delay)
-    this.logger.log(
-      `Notificação agendada para ${scheduledFor.toISOString()}: ${JSON.stringify(notification)}`,
-    );
+    await this.sendNotification(delivery, notification, {
+      ...options,
+      sendEmail: options.sendEmail ?? recipient === 'customer',
+      sendPush: options.sendPush ?? recipient === 'driver',
+      immediate: false,
+      scheduledFor,
+    });
   }
 
   /**
    * Envia uma notificação através dos canais configurados
    *
+   * Cada envio é registrado como despacho (queued, sent, failed, bounced)
+   * pelo NotificationDispatcherService. Envios com data de execução (`immediate: false`
+   * com `scheduledFor`, ou retidos pelo horário de silêncio do cliente) são persistidos
+   * na fila de notificações agendadas.
+   *
+   * @param delivery - Entrega com cliente e motorista carregados
    * @param notification - Dados da notificação
    * @param options - Opções de envio
    * @private
    */
-  private sendNotification(notification: DeliveryNotification, options: NotificationOptions): void {
-    if (options.immediate === false && options.scheduledFor) {
-      // TODO: Agendar para envio futuro
-      this.logger.log(`Notificação agendada para ${options.scheduledFor.toISOString()}`);
-      return;
+  private async sendNotification(
+    delivery: Delivery,
+    notification: DeliveryNotification,
+    options: NotificationOptions,
+  ): Promise<void> {
+    const planned = await this.buildDispatchRequests(delivery, notification, options);
+    const dispatches: NotificationDispatch[] = [];
+    let scheduled = 0;
+
+    for (const { request, run_at } of planned) {
+      if (run_at) {
+        await this.notificationQueue.enqueue(request, {
+          run_at,
+          idempotency_key: this.buildIdempotencyKey(delivery, request, run_at),
+        });
+        scheduled++;
+        continue;
+      }
+
+      dispatches.push(await this.notificationDispatcher.dispatch(request));
     }
 
-    // TODO: Integrar com serviços de email/SMS/push
-    if (options.sendEmail) {
-      this.logger.log(`Enviando email: ${notification.message}`);
+    this.logger.log(
+      `Notificação ${notification.type} da entrega ${delivery.tracking_code}: ${dispatches.length} despacho(s) [${dispatches.map(dispatch => `${dispatch.channel}:${dispatch.status}`).join(', ')}], ${scheduled} agendado(s)`,
+    );
+  }
+
+  /**
+   * Renderiza os templates e monta um envio por destinatário e canal
+   *
+   * Para clientes, os canais e a data de envio seguem as preferências, os consentimentos
+   * LGPD e o horário de silêncio (NotificationPreferencesService). Canais sem contato
+   * disponível são registrados como supressão.
+   *
+   * @private
+   */
+  private async buildDispatchRequests(
+    delivery: Delivery,
+    notification: DeliveryNotification,
+    options: NotificationOptions,
+  ): Promise<PlannedDispatch[]> {
+    const variables = this.buildTemplateVariables(delivery, notification);
+    const scheduledFor = options.immediate === false ? options.scheduledFor : undefined;
+    const planned: PlannedDispatch[] = [];
+    const suppressions: NotificationSuppressionRecord[] = [];
+
+    for (const recipient of this.resolveRecipients(delivery, notification)) {
+      const base = {
+        notification_type: notification.type,
+        recipient_type: recipient.type,
+        recipient_id: recipient.id,
+        delivery_id: delivery.id,
+      };
+
+      let channels = this.getRequestedChannels(options);
+      let runAt = scheduledFor;
+
+      if (recipient.type === NotificationRecipientType.CUSTOMER) {
+        const decision = await this.notificationPreferences.evaluate({
+          customer_id: recipient.id,
+          notification_type: notification.type,
+          delivery_id: delivery.id,
+          requested_channels: channels,
+          critical: CRITICAL_NOTIFICATION_TYPES.includes(notification.type),
+          // Notificações de entrega são transacionais, não comunicações de marketing
+          marketing: false,
+          at: scheduledFor ?? new Date(),
+        });
+
+        channels = decision.channels;
+        runAt = decision.hold_until ?? scheduledFor;
+      }
+
+      const plan = (request: NotificationDispatchRequest): void => {
+        planned.push({ request, ...(runAt ? { run_at: runAt } : {}) });
+      };
+
+      const suppress = (
+        channel: NotificationChannel,
+        reason: NotificationSuppressionReason,
+      ): void => {
+        suppressions.push({ ...base, channel, reason });
+      };
+
+      for (const channel of channels) {
+        switch (channel) {
+          case NotificationChannel.EMAIL: {
+            if (!recipient.email) {
+              suppress(channel, NotificationSuppressionReason.MISSING_CONTACT);
+              break;
+            }
+
+            const email = getEmailTemplate(notification.type, variables);
+            plan({
+              ...base,
+              channel,
+              recipient: recipient.email,
+              subject: email.subject,
+              body: email.body,
+            });
+            break;
+          }
+
+          case NotificationChannel.SMS:
+          case NotificationChannel.WHATSAPP:
+            if (!recipient.phone) {
+              suppress(channel, NotificationSuppressionReason.MISSING_CONTACT);
+              break;
+            }
+
+            plan({
+              ...base,
+              channel,
+              recipient: recipient.phone,
+              body: getSmsTemplate(notification.type, variables),
+            });
+            break;
+
+          case NotificationChannel.PUSH: {
+            const template = getPushTemplate(notification.type, variables);
+            const subscriptions = await this.notificationsService.findActivePushSubscriptions(
+              recipient.type,
+              recipient.id,
+            );
+
+            if (subscriptions.length === 0) {
+              suppress(channel, NotificationSuppressionReason.MISSING_CONTACT);
+              break;
+            }
+
+            for (const subscription of subscriptions) {
+              plan({
+                ...base,
+                channel,
+                recipient: subscription.id,
+                subject: template.title,
+                body: template.body,
+                data: {
+                  ...template.data,
+                  delivery_id: delivery.id,
+                  tracking_code: delivery.tracking_code,
+                },
+              });
+            }
+            break;
+          }
+
+          default:
+            suppress(channel, NotificationSuppressionReason.CHANNEL_UNAVAILABLE);
+        }
+      }
     }
 
-    if (options.sendSms) {
-      this.logger.log(`Enviando SMS: ${notification.message}`);
+    await this.notificationPreferences.record(suppressions);
+
+    return planned;
+  }
+
+  /**
+   * Canais solicitados pelas opções de envio
+   *
+   * @private
+   */
+  private getRequestedChannels(options: NotificationOptions): NotificationChannel[] {
+    return [
+      ...(options.sendEmail ? [NotificationChannel.EMAIL] : []),
+      ...(options.sendSms ? [NotificationChannel.SMS] : []),
+      ...(options.sendWhatsapp ? [NotificationChannel.WHATSAPP] : []),
+      ...(options.sendPush ? [NotificationChannel.PUSH] : []),
+    ];
+  }
+
+  /**
+   * Chave de idempotência de um envio agendado (entrega, tipo, data, canal e destino)
+   *
+   * @private
+   */
+  private buildIdempotencyKey(
+    delivery: Delivery,
+    request: NotificationDispatchRequest,
+    runAt: Date,
+  ): string {
+    const hash = createHash('sha256')
+      .update(
+        [
+          request.notification_type,
+          runAt.toISOString(),
+          request.channel,
+          request.recipient_id ?? '',
+          request.recipient,
+        ].join('|'),
+      )
+      .digest('hex');
+
+    return `delivery:${delivery.id}:${hash}`;
+  }
+
+  /**
+   * Destinatários da notificação conforme cliente/motorista informados
+   *
+   * @private
+   */
+  private resolveRecipients(
+    delivery: Delivery,
+    notification: DeliveryNotification,
+  ): DeliveryNotificationRecipient[] {
+    const recipients: DeliveryNotificationRecipient[] = [];
+
+    if (notification.customerId && delivery.customer) {
+      recipients.push({
+        type: NotificationRecipientType.CUSTOMER,
+        id: delivery.customer.id,
+        name: delivery.customer.name,
+        email: delivery.customer.email,
+        phone: delivery.customer.phone,
+      });
     }
 
-    if (options.sendPush) {
-      this.logger.log(`Enviando push notification: ${notification.message}`);
+    if (notification.driverId && delivery.driver) {
+      recipients.push({
+        type: NotificationRecipientType.DRIVER,
+        id: delivery.driver.id,
+        name: delivery.driver.full_name,
+        email: delivery.driver.email,
+        phone: delivery.driver.phone,
+      });
     }
 
-    this.logger.log(`Notificação enviada: ${JSON.stringify(notification)}`);
+    return recipients;
+  }
+
+  /**
+   * Monta as variáveis dos templates de notificação
+   *
+   * @private
+   */
+  private buildTemplateVariables(
+    delivery: Delivery,
+    notification: DeliveryNotification,
+  ): TemplateVariables {
+    const address = delivery.delivery_address;
+    const deliveryDate = delivery.actual_delivery_at ?? delivery.scheduled_delivery_at;
+
+    return {
+      trackingCode: delivery.tracking_code,
+      customerName: delivery.customer?.name,
+      driverId: delivery.driver_id,
+      driverName: delivery.driver?.full_name,
+      statusMessage: getStatusMessage(notification.status),
+      estimatedTime: this.formatDate(
+        notification.estimatedArrival ?? delivery.scheduled_delivery_at,
+      ),
+      deliveryAddress: `${address.street}, ${address.number} - ${address.city}/${address.state}`,
+      deliveryDate: this.formatDate(deliveryDate),
+      trackingUrl: `${this.templatesConfig.trackingBaseUrl}/${delivery.tracking_code}`,
+      feedbackUrl: this.templatesConfig.feedbackUrl,
+      supportEmail: this.templatesConfig.supportEmail,
+      supportPhone: this.templatesConfig.supportPhone,
+      message: notification.message,
+      ...(notification.type === NotificationType.DELIVERY_FAILED
+        ? { failureReason: notification.message }
+        : {}),
+    };
+  }
+
+  private formatDate(date?: Date): string | undefined {
+    return date
+      ? new Date(date).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+      : undefined;
   }
 
   /**
@@ -300,6 +666,9 @@ export class DeliveryNotificationService {
       [NotificationType.DELIVERY_FAILED]: 'Houve um problema com sua entrega',
       [NotificationType.DELIVERY_CANCELLED]: 'Sua entrega foi cancelada',
       [NotificationType.ASSIGNMENT]: '',
+      [NotificationType.DELIVERY_CONFIRMATION_CODE]: 'Código de confirmação da entrega enviado',
+      [NotificationType.DELIVERY_ETA_UPDATED]:
+        'A previsão de chegada da sua entrega foi atualizada',
     };
 
     return messages[type] ?? 'Notificação de entrega';
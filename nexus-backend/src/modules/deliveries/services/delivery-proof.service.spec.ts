@@ -0,0 +1,132 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { DeliveryProofService } from './delivery-proof.service';
+import { Delivery } from '../entities/delivery.entity';
+import { DeliveryProof } from '../entities/delivery-proof.entity';
+import { DeliveryStatus } from '../enums/delivery-status.enum';
+import { ProofType } from '../enums/proof-type.enum';
+import { UploadService } from '../../upload/upload.service';
+
+describe('DeliveryProofService', () => {
+  let service: DeliveryProofService;
+
+  const driverId = '11111111-1111-4111-8111-111111111111';
+  const delivery = {
+    id: '22222222-2222-4222-8222-222222222222',
+    tracking_code: 'NT-000123',
+    status: DeliveryStatus.IN_TRANSIT,
+    driver_id: driverId,
+  } as Delivery;
+
+  const file = {
+    originalname: 'foto entrega.jpg',
+    mimetype: 'image/jpeg',
+    size: 1024,
+    buffer: Buffer.from('jpeg-bytes'),
+  } as Express.Multer.File;
+
+  const thumbnails = {
+    small: 'https://cdn.example.com/delivery-proofs/x/foto_small.webp',
+    medium: 'https://cdn.example.com/delivery-proofs/x/foto_medium.webp',
+    large: 'https://cdn.example.com/delivery-proofs/x/foto_large.webp',
+  };
+
+  const mockDeliveryRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDeliveryProofRepository = {
+    create: jest.fn((data: Partial<DeliveryProof>) => data),
+    save: jest.fn((data: Partial<DeliveryProof>) =>
+      Promise.resolve({ id: 'proof-1', verified: false, ...data }),
+    ),
+  };
+
+  const mockUploadService = {
+    uploadFile: jest.fn().mockResolvedValue({
+      url: 'https://cdn.example.com/delivery-proofs/x/foto_entrega.jpg',
+      key: 'delivery-proofs/x/foto_entrega.jpg',
+    }),
+    uploadThumbnails: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockDeliveryRepository.findOne.mockResolvedValue(delivery);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveryProofService,
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: getRepositoryToken(DeliveryProof), useValue: mockDeliveryProofRepository },
+        { provide: UploadService, useValue: mockUploadService },
+      ],
+    }).compile();
+
+    service = module.get<DeliveryProofService>(DeliveryProofService);
+  });
+
+  describe('submit', () => {
+    it('should store the original file and the thumbnails of a photo proof', async () => {
+      mockUploadService.uploadThumbnails.mockResolvedValue(thumbnails);
+
+      await service.submit(delivery.id, file, { type: ProofType.PHOTO }, driverId);
+
+      expect(mockUploadService.uploadThumbnails).toHaveBeenCalledWith(
+        file.buffer,
+        'delivery-proofs/x/foto_entrega.jpg',
+      );
+      expect(mockDeliveryProofRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          file_path: 'https://cdn.example.com/delivery-proofs/x/foto_entrega.jpg',
+          type_specific_data: { thumbnails },
+          audit_trail: [
+            expect.objectContaining({ details: expect.objectContaining({ driver_id: driverId }) }),
+          ],
+        }),
+      );
+    });
+
+    it('should keep the proof when thumbnail generation fails', async () => {
+      mockUploadService.uploadThumbnails.mockRejectedValue(new Error('unsupported image'));
+      const warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+      await service.submit(delivery.id, file, { type: ProofType.PHOTO }, driverId);
+
+      expect(mockDeliveryProofRepository.save).toHaveBeenCalledWith(
+        expect.not.objectContaining({ type_specific_data: expect.anything() }),
+      );
+      expect(warnSpy).toHaveBeenCalled();
+
+      warnSpy.mockRestore();
+    });
+
+    it('should reject proofs for a delivery of another driver', async () => {
+      await expect(
+        service.submit(
+          delivery.id,
+          file,
+          { type: ProofType.PHOTO },
+          '33333333-3333-4333-8333-333333333333',
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockUploadService.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject proofs on behalf of another driver', async () => {
+      await expect(
+        service.submit(
+          delivery.id,
+          file,
+          { type: ProofType.PHOTO, driver_id: '33333333-3333-4333-8333-333333333333' },
+          driverId,
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockDeliveryRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { createHash } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Delivery } from '../entities/delivery.entity';
+import { DeliveryProof } from '../entities/delivery-proof.entity';
+import { ActiveDeliveryStatuses } from '../enums/delivery-status.enum';
+import {
+  ProofType,
+  ProofTypeAcceptedFormats,
+  ProofTypeDescriptions,
+  ProofTypeMaxFileSize,
+} from '../enums/proof-type.enum';
+import {
+  DeliveryProofResponseDto,
+  type UploadDeliveryProofDto,
+  type VerifyDeliveryProofDto,
+} from '../dto/delivery-proof.dto';
+import type { DeliveryRequestContext } from '../interfaces/request-context.interface';
+import { isProofRejected } from '../utils/proof-requirements.util';
+import { UploadService, type UploadResult } from '../../upload/upload.service';
+
+/**
+ * Tipos de comprovante em imagem que recebem miniaturas no envio
+ */
+const THUMBNAIL_PROOF_TYPES = [ProofType.SIGNATURE, ProofType.PHOTO, ProofType.LOCATION_PHOTO];
+
+/**
+ * Serviço de comprovantes de entrega (assinatura, fotos e documentos)
+ *
+ * Os arquivos são enviados ao object storage via UploadService e registrados
+ * com hash SHA-256, local e horário da captura. O despachante aprova ou
+ * rejeita cada comprovante; rejeitados não contam para os comprovantes
+ * exigidos na transição para DELIVERED.
+ */
+@Injectable()
+export class DeliveryProofService {
+  private readonly logger = new Logger(DeliveryProofService.name);
+
+  constructor(
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(DeliveryProof)
+    private readonly deliveryProofRepository: Repository<DeliveryProof>,
+    private readonly uploadService: UploadService,
+  ) {}
+
+  /**
+   * Registra um comprovante com arquivo para a entrega
+   *
+   * @param driverId - Motorista do usuário autenticado; deve ser o da entrega
+   */
+  async submit(
+    deliveryId: string,
+    file: Express.Multer.File | undefined,
+    dto: UploadDeliveryProofDto,
+    driverId: string,
+    context: DeliveryRequestContext = {},
+  ): Promise<DeliveryProofResponseDto> {
+    if (dto.driver_id && dto.driver_id !== driverId) {
+      throw new ForbiddenException('Comprovantes só podem ser enviados pelo próprio motorista');
+    }
+
+    const delivery = await this.findDeliveryOrFail(deliveryId);
+
+    if (!ActiveDeliveryStatuses.includes(delivery.status)) {
+      throw new BadRequestException(
+        `Entrega ${delivery.tracking_code} com status ${delivery.status} não aceita comprovantes`,
+      );
+    }
+
+    if (delivery.driver_id !== driverId) {
+      throw new ForbiddenException('Entrega não está atribuída ao motorista');
+    }
+
+    this.validateFile(dto.type, file);
+
+    const fileHash = `sha256:${createHash('sha256').update(file.buffer).digest('hex')}`;
+    const { url, key } = await this.uploadService.uploadFile(
+      file.buffer,
+      `delivery-proofs/${delivery.id}`,
+      this.sanitizeFilename(file.originalname),
+      file.mimetype,
+    );
+    const thumbnails = await this.uploadThumbnails(dto.type, file, key);
+
+    const capturedAt = dto.capture_timestamp ? new Date(dto.capture_timestamp) : new Date();
+
+    const proof = this.deliveryProofRepository.create({
+      delivery_id: delivery.id,
+      type: dto.type,
+      file_path: url,
+      original_filename: file.originalname.slice(0, 255),
+      file_size: this.formatFileSize(file.size),
+      mime_type: file.mimetype,
+      file_hash: fileHash,
+      captured_at: capturedAt,
+      verified: false,
+      device_metadata: {
+        ...(dto.device_type ? { device_type: dto.device_type } : {}),
+        ...(dto.device_id ? { device_id: dto.device_id } : {}),
+        ...(dto.app_version ? { app_version: dto.app_version } : {}),
+        ...(context.ipAddress ? { ip_address: context.ipAddress } : {}),
+        ...(context.userAgent ? { user_agent: context.userAgent } : {}),
+      },
+      audit_trail: [
+        {
+          action: 'SUBMITTED',
+          timestamp: new Date(),
+          ...(context.userId ? { user_id: context.userId } : {}),
+          details: { driver_id: driverId, file_hash: fileHash },
+        },
+      ],
+      ...(dto.capture_latitude !== undefined ? { capture_latitude: dto.capture_latitude } : {}),
+      ...(dto.capture_longitude !== undefined ? { capture_longitude: dto.capture_longitude } : {}),
+      ...(dto.gps_accuracy !== undefined ? { gps_accuracy: dto.gps_accuracy } : {}),
+      ...(dto.recipient_name ? { recipient_name: dto.recipient_name } : {}),
+      ...(dto.recipient_document ? { recipient_document: dto.recipient_document } : {}),
+      ...(dto.recipient_phone ? { recipient_phone: dto.recipient_phone } : {}),
+      ...(dto.recipient_email ? { recipient_email: dto.recipient_email } : {}),
+      ...(dto.recipient_relationship ? { recipient_relationship: dto.recipient_relationship } : {}),
+      ...(dto.notes ? { notes: dto.notes } : {}),
+      ...(thumbnails ? { type_specific_data: { thumbnails } } : {}),
+    });
+
+    const saved = await this.deliveryProofRepository.save(proof);
+
+    this.logger.log(
+      `Comprovante ${dto.type} registrado para a entrega ${delivery.tracking_code} (${fileHash})`,
+    );
+
+    return DeliveryProofResponseDto.fromEntity(saved);
+  }
+
+  /**
+   * Lista os comprovantes da entrega
+   */
+  async findByDelivery(deliveryId: string): Promise<DeliveryProofResponseDto[]> {
+    await this.findDeliveryOrFail(deliveryId);
+
+    const proofs = await this.deliveryProofRepository.find({
+      where: { delivery_id: deliveryId },
+      order: { captured_at: 'DESC' },
+    });
+
+    return proofs.map(proof => DeliveryProofResponseDto.fromEntity(proof));
+  }
+
+  /**
+   * Aprova ou rejeita um comprovante
+   */
+  async verify(
+    deliveryId: string,
+    proofId: string,
+    dto: VerifyDeliveryProofDto,
+    userId: string,
+  ): Promise<DeliveryProofResponseDto> {
+    const proof = await this.deliveryProofRepository.findOne({
+      where: { id: proofId, delivery_id: deliveryId },
+    });
+
+    if (!proof) {
+      throw new NotFoundException(`Comprovante ${proofId} não encontrado na entrega ${deliveryId}`);
+    }
+
+    if (proof.verified || isProofRejected(proof)) {
+      throw new ConflictException(`Comprovante ${proofId} já foi verificado`);
+    }
+
+    if (!dto.approved && !dto.reason) {
+      throw new BadRequestException('Informe o motivo da rejeição do comprovante');
+    }
+
+    const now = new Date();
+
+    proof.verified = dto.approved;
+    proof.verified_at = now;
+    proof.verified_by = userId;
+    proof.validation_data = {
+      ...proof.validation_data,
+      verified: dto.approved,
+      verified_at: now,
+      verified_by: userId,
+      verification_method: 'MANUAL',
+      ...(!dto.approved && dto.reason ? { anomalies: [dto.reason] } : {}),
+    };
+    proof.audit_trail = [
+      ...(proof.audit_trail ?? []),
+      {
+        action: dto.approved ? 'VERIFIED' : 'REJECTED',
+        timestamp: now,
+        user_id: userId,
+        ...(dto.reason ? { details: { reason: dto.reason } } : {}),
+      },
+    ];
+
+    const saved = await this.deliveryProofRepository.save(proof);
+
+    this.logger.log(
+      `Comprovante ${proof.id} da entrega ${deliveryId} ${dto.approved ? 'aprovado' : 'rejeitado'} por ${userId}`,
+    );
+
+    return DeliveryProofResponseDto.fromEntity(saved);
+  }
+
+  private async findDeliveryOrFail(id: string): Promise<Delivery> {
+    const delivery = await this.deliveryRepository.findOne({ where: { id } });
+
+    if (!delivery) {
+      throw new NotFoundException(`Entrega com ID ${id} não encontrada`);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Valida presença, formato e tamanho do arquivo conforme o tipo do comprovante
+   */
+  private validateFile(
+    type: ProofType,
+    file: Express.Multer.File | undefined,
+  ): asserts file is Express.Multer.File {
+    const acceptedFormats = ProofTypeAcceptedFormats[type];
+
+    if (acceptedFormats.length === 0) {
+      throw new BadRequestException(
+        `Comprovante do tipo ${ProofTypeDescriptions[type]} não é enviado como arquivo`,
+      );
+    }
+
+    if (!file) {
+      throw new BadRequestException('Arquivo do comprovante não enviado');
+    }
+
+    if (!acceptedFormats.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Formato ${file.mimetype} não aceito para ${ProofTypeDescriptions[type]}. Aceitos: ${acceptedFormats.join(', ')}`,
+      );
+    }
+
+    const maxSize = ProofTypeMaxFileSize[type];
+    if (file.size > maxSize) {
+      throw new BadRequestException(
+        `Arquivo excede o tamanho máximo de ${this.formatFileSize(maxSize)} para ${ProofTypeDescriptions[type]}`,
+      );
+    }
+  }
+
+  /**
+   * Gera as miniaturas exibidas no rastreamento público para comprovantes em
+   * imagem; o original não é reprocessado, preservando o hash registrado.
+   * Falhas na geração não impedem o registro do comprovante
+   */
+  private async uploadThumbnails(
+    type: ProofType,
+    file: Express.Multer.File,
+    key: string,
+  ): Promise<UploadResult['thumbnails'] | null> {
+    if (!THUMBNAIL_PROOF_TYPES.includes(type)) {
+      return null;
+    }
+
+    try {
+      return await this.uploadService.uploadThumbnails(file.buffer, key);
+    } catch (error) {
+      this.logger.warn(
+        `Falha ao gerar miniaturas do comprovante ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private sanitizeFilename(filename: string): string {
+    return filename.replace(/[^\w.-]+/g, '_').slice(-100) || 'proof';
+  }
+
+  private formatFileSize(bytes: number): string {
+    if (bytes === 0) {
+      return '0 Bytes';
+    }
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+  }
+}
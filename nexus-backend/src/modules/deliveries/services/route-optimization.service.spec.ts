@@ -0,0 +1,163 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Logger } from '@nestjs/common';
+import { RouteOptimizationService } from './route-optimization.service';
+import { Delivery } from '../entities/delivery.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { VehicleStatus } from '../../vehicles/enums/vehicle-status.enum';
+import { Route } from '../../routes/entities/route.entity';
+import { RouteStatus } from '../../routes/enums/route-status';
+import { ROUTE_SOLVER } from '../interfaces/route-solver.interface';
+import type { OptimizeRoutesDto } from '../dto/optimize-routes.dto';
+
+describe('RouteOptimizationService', () => {
+  let service: RouteOptimizationService;
+  let logSpy: jest.SpyInstance;
+
+  const delivery = {
+    id: '11111111-1111-4111-8111-111111111111',
+    tracking_code: 'NX-000001',
+    delivery_address: { latitude: -25.4284, longitude: -49.2733 },
+  } as unknown as Delivery;
+
+  const vehicle = { id: '22222222-2222-4222-8222-222222222222' } as Vehicle;
+
+  const dto: OptimizeRoutesDto = {
+    date: '2024-01-15',
+    depot: { latitude: -25.45, longitude: -49.25 },
+    delivery_ids: [delivery.id],
+  };
+
+  const mockVehicleQuery = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+    subQuery: jest.fn(),
+  };
+
+  const mockRouteSubQuery = {
+    select: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getQuery: jest.fn(() => '(SELECT 1 FROM routes route)'),
+  };
+
+  const mockDeliveryRepository = {
+    find: jest.fn(),
+  };
+
+  const mockVehicleRepository = {
+    find: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockVehicleQuery),
+  };
+
+  const mockRouteSolver = {
+    algorithm: 'savings',
+    solve: jest.fn(),
+  };
+
+  const mockConfigService = {
+    getOrThrow: jest.fn(() => ({
+      routeOptimization: {
+        shiftStart: '08:00',
+        maxShiftMinutes: 480,
+        averageUrbanSpeed: 30,
+        averageServiceTime: 10,
+        considerTimeWindows: false,
+      },
+    })),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    mockDeliveryRepository.find.mockResolvedValue([delivery]);
+    mockVehicleQuery.getMany.mockResolvedValue([vehicle]);
+    mockVehicleQuery.subQuery.mockReturnValue(mockRouteSubQuery);
+    mockRouteSolver.solve.mockReturnValue({
+      algorithm: 'savings',
+      score: 80,
+      unassigned: [],
+      routes: [
+        {
+          vehicleId: vehicle.id,
+          stops: [
+            {
+              id: delivery.id,
+              sequence: 1,
+              arrivalMinutes: 500,
+              serviceStartMinutes: 500,
+              departureMinutes: 510,
+              distanceFromPreviousKm: 3.2,
+            },
+          ],
+          totalDistanceKm: 6.4,
+          totalDurationMinutes: 30,
+          loadKg: 2,
+          volumeM3: 0.01,
+          score: 80,
+        },
+      ],
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteOptimizationService,
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: getRepositoryToken(Vehicle), useValue: mockVehicleRepository },
+        { provide: ROUTE_SOLVER, useValue: mockRouteSolver },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<RouteOptimizationService>(RouteOptimizationService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  describe('optimizeFleetRoutes', () => {
+    it('should schedule the stops from midnight in America/Sao_Paulo', async () => {
+      const result = await service.optimizeFleetRoutes(dto);
+
+      // 500 minutos após 00:00 de Brasília (03:00 UTC) = 11:20 UTC
+      expect(result.routes[0]?.stops[0]?.planned_arrival).toEqual(
+        new Date('2024-01-15T11:20:00.000Z'),
+      );
+    });
+
+    it('should exclude vehicles already assigned to another route on the date', async () => {
+      await service.optimizeFleetRoutes(dto);
+
+      expect(mockVehicleQuery.where).toHaveBeenCalledWith('vehicle.status = :status', {
+        status: VehicleStatus.ACTIVE,
+      });
+      expect(mockRouteSubQuery.from).toHaveBeenCalledWith(Route, 'route');
+      expect(mockRouteSubQuery.andWhere).toHaveBeenCalledWith('route.planned_date = :date', {
+        date: '2024-01-15',
+      });
+      expect(mockRouteSubQuery.andWhere).toHaveBeenCalledWith(
+        'route.status IN (:...assignedStatuses)',
+        { assignedStatuses: [RouteStatus.PLANNED, RouteStatus.IN_PROGRESS, RouteStatus.PAUSED] },
+      );
+      expect(mockVehicleQuery.andWhere).toHaveBeenCalledWith(
+        'NOT EXISTS (SELECT 1 FROM routes route)',
+      );
+      expect(mockRouteSolver.solve).toHaveBeenCalledWith(
+        expect.objectContaining({ vehicles: [expect.objectContaining({ id: vehicle.id })] }),
+      );
+    });
+
+    it('should use the informed vehicles as given', async () => {
+      mockVehicleRepository.find.mockResolvedValue([vehicle]);
+
+      await service.optimizeFleetRoutes({ ...dto, vehicle_ids: [vehicle.id] });
+
+      expect(mockVehicleRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+});
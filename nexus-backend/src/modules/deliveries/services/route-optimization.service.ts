@@ -1,26 +1,81 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Delivery } from '../entities/delivery.entity';
-import { DeliveryPriority } from '../enums/delivery-priority.enum';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { VehicleStatus } from '../../vehicles/enums/vehicle-status.enum';
+import { Route } from '../../routes/entities/route.entity';
+import { RouteStatus } from '../../routes/enums/route-status';
 import type { Coordinates } from '../interfaces/address.interface';
-import type { RouteDelivery, OptimizedRoute } from '../interfaces/route-optimization.interface';
+import type {
+  DeliveryRegion,
+  FleetPlanOptions,
+  RouteDelivery,
+  OptimizedRoute,
+} from '../interfaces/route-optimization.interface';
+import {
+  ROUTE_SOLVER,
+  type RouteSolver,
+  type VrpSolution,
+  type VrpStop,
+  type VrpTimeWindow,
+  type VrpVehicle,
+} from '../interfaces/route-solver.interface';
 import { DistanceCalculator } from '../utils/distance-calculator.util';
+import { DateTimeUtils } from '../../routes/utils/date-time.util';
+import type { OptimizeRoutesDto } from '../dto/optimize-routes.dto';
+import type {
+  OptimizedFleetRouteDto,
+  RouteOptimizationResponseDto,
+} from '../dto/route-optimization-response.dto';
+import type { DeliveryConfig } from '../config/delivery.config';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Status de rota que mantêm o veículo ocupado no dia planejado */
+const ASSIGNED_ROUTE_STATUSES = [RouteStatus.PLANNED, RouteStatus.IN_PROGRESS, RouteStatus.PAUSED];
+
+/** Fator de conversão de polegadas cúbicas para m³ */
+const CUBIC_INCH_TO_M3 = 0.000016387;
 
 /**
  * Serviço de otimização de rotas de entrega
  *
+ * A roteirização é delegada ao solver configurado em ROUTE_SOLVER
+ * (savings com busca local 2-opt/or-opt ou nearest-neighbor).
+ *
  * @class RouteOptimizationService
  */
 @Injectable()
 export class RouteOptimizationService {
+  private readonly logger = new Logger(RouteOptimizationService.name);
+  private readonly config: DeliveryConfig['routeOptimization'];
+
   constructor(
     @InjectRepository(Delivery)
     private readonly deliveryRepository: Repository<Delivery>,
-  ) {}
+    @InjectRepository(Vehicle)
+    private readonly vehicleRepository: Repository<Vehicle>,
+    @Inject(ROUTE_SOLVER)
+    private readonly routeSolver: RouteSolver,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<DeliveryConfig>('delivery').routeOptimization;
+  }
 
   /**
-   * Calcula a rota ótima para um conjunto de entregas
+   * Algoritmo do solver configurado
+   */
+  get algorithm(): string {
+    return this.routeSolver.algorithm;
+  }
+
+  /**
+   * Calcula a rota ótima para um conjunto de entregas (um único veículo, sem limite de carga)
+   *
+   * Entregas sem coordenadas ou fora das janelas de atendimento são mantidas
+   * ao final da sequência, na ordem recebida.
    */
   async calculateOptimalRoute(
     deliveryIds: string[],
@@ -31,25 +86,56 @@ export class RouteOptimizationService {
       .where('delivery.id IN (:...ids)', { ids: deliveryIds })
       .getMany();
 
-    const routeDeliveries: RouteDelivery[] = deliveries.map(delivery => ({
-      id: delivery.id,
-      coordinates: {
-        latitude: delivery.delivery_address?.latitude ?? 0,
-        longitude: delivery.delivery_address?.longitude ?? 0,
-      },
-      priority: delivery.priority,
-      estimatedDuration: delivery.estimated_duration ?? 30,
-    }));
+    const routeDeliveries = new Map<string, RouteDelivery>(
+      deliveries.map(delivery => [
+        delivery.id,
+        {
+          id: delivery.id,
+          coordinates: this.getCoordinates(delivery) ?? { latitude: 0, longitude: 0 },
+          priority: delivery.priority,
+          estimatedDuration: delivery.estimated_duration ?? 30,
+        },
+      ]),
+    );
+
+    const stops = deliveries
+      .filter(delivery => this.getCoordinates(delivery))
+      .map(delivery => this.toVrpStop(delivery));
+    const depot = startPoint ?? stops[0]?.coordinates;
+
+    if (!depot) {
+      return {
+        deliveries: [...routeDeliveries.values()],
+        totalDistance: 0,
+        totalTime: 0,
+        sequence: [...routeDeliveries.keys()],
+        algorithmUsed: this.routeSolver.algorithm,
+        optimizationScore: 0,
+      };
+    }
 
-    const optimizedDeliveries = this.nearestNeighborAlgorithm(routeDeliveries, startPoint);
+    const solution = this.routeSolver.solve({
+      depot,
+      stops,
+      vehicles: [{ id: 'single' }],
+      shiftStartMinutes: 0,
+      maxShiftMinutes: MINUTES_PER_DAY,
+      averageSpeedKmh: this.config.averageUrbanSpeed,
+      returnToDepot: false,
+    });
+
+    const solved = solution.routes.flatMap(route => route.stops.map(stop => stop.id));
+    const sequence = [
+      ...solved,
+      ...deliveries.map(delivery => delivery.id).filter(id => !solved.includes(id)),
+    ];
+    const optimizedDeliveries = sequence
+      .map(id => routeDeliveries.get(id))
+      .filter((delivery): delivery is RouteDelivery => delivery !== undefined);
 
     let totalDistance = 0;
     let totalTime = 0;
-    let currentPoint = startPoint ?? optimizedDeliveries[0]?.coordinates;
-
-    if (!currentPoint) {
-      return { deliveries: [], totalDistance: 0, totalTime: 0, sequence: [] };
-    }
+    let currentPoint = depot;
 
     for (const delivery of optimizedDeliveries) {
       const distance = DistanceCalculator.calculateHaversineDistance(
@@ -65,7 +151,158 @@ export class RouteOptimizationService {
       deliveries: optimizedDeliveries,
       totalDistance: Number.parseFloat(totalDistance.toFixed(2)),
       totalTime: Math.round(totalTime),
-      sequence: optimizedDeliveries.map(d => d.id),
+      sequence,
+      algorithmUsed: solution.algorithm,
+      optimizationScore: solution.score,
+    };
+  }
+
+  /**
+   * Distribui as entregas entre os veículos disponíveis (CVRPTW)
+   *
+   * Respeita capacidade de carga e volume dos veículos, janelas de atendimento
+   * (settings.time_windows), duração do turno e restrições da rota
+   * (weight_limit_kg, night_delivery_allowed). Cada rota gerada traz
+   * optimization_data no formato de Route.optimization_data.
+   */
+  async optimizeFleetRoutes(dto: OptimizeRoutesDto): Promise<RouteOptimizationResponseDto> {
+    const deliveries = await this.deliveryRepository.find({
+      where: { id: In(dto.delivery_ids) },
+    });
+
+    const missing = dto.delivery_ids.filter(id => !deliveries.some(d => d.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Entregas não encontradas: ${missing.join(', ')}`);
+    }
+
+    const date = dto.date.slice(0, 10);
+    const dayStart = DateTimeUtils.startOfDay(date);
+
+    const vehicles = dto.vehicle_ids
+      ? await this.vehicleRepository.find({ where: { id: In(dto.vehicle_ids) } })
+      : await this.findAvailableVehicles(date);
+
+    const missingVehicles = (dto.vehicle_ids ?? []).filter(id => !vehicles.some(v => v.id === id));
+    if (missingVehicles.length > 0) {
+      throw new NotFoundException(`Veículos não encontrados: ${missingVehicles.join(', ')}`);
+    }
+
+    const solution = this.planFleetRoutes(deliveries, vehicles, {
+      depot: { latitude: dto.depot.latitude, longitude: dto.depot.longitude },
+      shiftStart: dto.shift_start,
+      maxShiftMinutes: dto.max_shift_minutes,
+      returnToDepot: dto.return_to_depot,
+      restrictions: dto.restrictions,
+    });
+
+    const trackingCodes = new Map(deliveries.map(d => [d.id, d.tracking_code]));
+    const toDate = (minutes: number): Date =>
+      DateTimeUtils.calculateEstimatedArrival(dayStart, minutes);
+
+    const routes: OptimizedFleetRouteDto[] = solution.routes.map(route => ({
+      vehicle_id: route.vehicleId,
+      stops: route.stops.map(stop => ({
+        delivery_id: stop.id,
+        tracking_code: trackingCodes.get(stop.id) ?? '',
+        sequence: stop.sequence,
+        planned_arrival: toDate(stop.arrivalMinutes),
+        planned_service_start: toDate(stop.serviceStartMinutes),
+        planned_departure: toDate(stop.departureMinutes),
+        distance_from_previous_km: stop.distanceFromPreviousKm,
+      })),
+      total_distance_km: route.totalDistanceKm,
+      total_duration_minutes: route.totalDurationMinutes,
+      total_load_kg: route.loadKg,
+      total_volume_m3: route.volumeM3,
+      optimization_data: {
+        algorithm_used: solution.algorithm,
+        optimization_score: route.score,
+      },
+    }));
+
+    const unassigned = solution.unassigned.map(stop => ({
+      delivery_id: stop.id,
+      reason: stop.reason,
+    }));
+
+    this.logger.log(
+      `Roteirização ${solution.algorithm} para ${date}: ${routes.length} rota(s), ${unassigned.length} entrega(s) não roteirizada(s), score ${solution.score}`,
+    );
+
+    return {
+      date,
+      algorithm_used: solution.algorithm,
+      optimization_score: solution.score,
+      routes,
+      unassigned,
+      total_distance_km:
+        Math.round(routes.reduce((sum, route) => sum + route.total_distance_km, 0) * 100) / 100,
+    };
+  }
+
+  /**
+   * Veículos ativos sem rota planejada ou em andamento na data
+   */
+  private async findAvailableVehicles(date: string): Promise<Vehicle[]> {
+    const query = this.vehicleRepository
+      .createQueryBuilder('vehicle')
+      .where('vehicle.status = :status', { status: VehicleStatus.ACTIVE });
+
+    const assignedRoutes = query
+      .subQuery()
+      .select('1')
+      .from(Route, 'route')
+      .where('route.vehicle_id = vehicle.id')
+      .andWhere('route.planned_date = :date', { date })
+      .andWhere('route.status IN (:...assignedStatuses)', {
+        assignedStatuses: ASSIGNED_ROUTE_STATUSES,
+      });
+
+    return query.andWhere(`NOT EXISTS ${assignedRoutes.getQuery()}`).getMany();
+  }
+
+  /**
+   * Roteiriza entregas já carregadas entre os veículos informados
+   *
+   * Entregas sem coordenadas são devolvidas como não roteirizadas e também
+   * reduzem o score da solução.
+   */
+  planFleetRoutes(
+    deliveries: Delivery[],
+    vehicles: Vehicle[],
+    options: FleetPlanOptions,
+  ): VrpSolution {
+    const withoutCoordinates = deliveries.filter(delivery => !this.getCoordinates(delivery));
+
+    const solution = this.routeSolver.solve({
+      depot: options.depot,
+      stops: deliveries
+        .filter(delivery => this.getCoordinates(delivery))
+        .map(delivery => this.toVrpStop(delivery)),
+      vehicles: vehicles.map(vehicle => this.toVrpVehicle(vehicle)),
+      shiftStartMinutes: DateTimeUtils.timeToMinutes(options.shiftStart ?? this.config.shiftStart),
+      maxShiftMinutes: options.maxShiftMinutes ?? this.config.maxShiftMinutes,
+      averageSpeedKmh: this.config.averageUrbanSpeed,
+      returnToDepot: options.returnToDepot ?? true,
+      restrictions: options.restrictions,
+    });
+
+    return {
+      ...solution,
+      unassigned: [
+        ...withoutCoordinates.map(delivery => ({
+          id: delivery.id,
+          reason: 'Endereço de entrega sem coordenadas',
+        })),
+        ...solution.unassigned,
+      ],
+      score:
+        deliveries.length === 0
+          ? 0
+          : Math.round(
+              (solution.score * (deliveries.length - withoutCoordinates.length) * 100) /
+                deliveries.length,
+            ) / 100,
     };
   }
 
@@ -89,47 +326,48 @@ export class RouteOptimizationService {
   async groupDeliveriesByRegion(
     deliveryIds: string[],
     maxDistanceKm = 5,
-  ): Promise<
-    {
-      name: string;
-      deliveryIds: string[];
-      count: number;
-    }[]
-  > {
+  ): Promise<DeliveryRegion[]> {
     const deliveries = await this.deliveryRepository
       .createQueryBuilder('delivery')
       .where('delivery.id IN (:...ids)', { ids: deliveryIds })
       .getMany();
 
-    const regions: { name: string; deliveryIds: string[]; count: number }[] = [];
+    return this.clusterDeliveries(deliveries, maxDistanceKm);
+  }
+
+  /**
+   * Agrupa entregas já carregadas em regiões de raio máximo em torno de uma entrega semente
+   *
+   * As regiões são devolvidas da maior para a menor, com o centróide de cada uma.
+   */
+  clusterDeliveries(deliveries: Delivery[], maxDistanceKm = 5): DeliveryRegion[] {
+    const regions: Omit<DeliveryRegion, 'name'>[] = [];
     const processed = new Set<string>();
+    const coordinatesOf = (delivery: Delivery): Coordinates =>
+      this.getCoordinates(delivery) ?? { latitude: 0, longitude: 0 };
 
     for (const delivery of deliveries) {
       if (processed.has(delivery.id)) {
         continue;
       }
 
-      const coords: Coordinates = {
-        latitude: delivery.delivery_address?.latitude ?? 0,
-        longitude: delivery.delivery_address?.longitude ?? 0,
-      };
+      const coords = coordinatesOf(delivery);
 
-      const nearby = deliveries.filter(d => {
-        if (processed.has(d.id)) {
-          return false;
-        }
-        const dCoords: Coordinates = {
-          latitude: d.delivery_address?.latitude ?? 0,
-          longitude: d.delivery_address?.longitude ?? 0,
-        };
-        return DistanceCalculator.calculateHaversineDistance(coords, dCoords) <= maxDistanceKm;
-      });
+      const nearby = deliveries.filter(
+        d =>
+          !processed.has(d.id) &&
+          DistanceCalculator.calculateHaversineDistance(coords, coordinatesOf(d)) <= maxDistanceKm,
+      );
 
       if (nearby.length > 0) {
         regions.push({
-          name: `Região ${regions.length + 1}`,
           deliveryIds: nearby.map(d => d.id),
           count: nearby.length,
+          centroid: {
+            latitude: nearby.reduce((sum, d) => sum + coordinatesOf(d).latitude, 0) / nearby.length,
+            longitude:
+              nearby.reduce((sum, d) => sum + coordinatesOf(d).longitude, 0) / nearby.length,
+          },
         });
         for (const d of nearby) {
           processed.add(d.id);
@@ -137,73 +375,84 @@ export class RouteOptimizationService {
       }
     }
 
-    return regions;
+    return regions
+      .sort((a, b) => b.count - a.count)
+      .map((region, index) => ({ name: `Região ${index + 1}`, ...region }));
   }
 
-  private nearestNeighborAlgorithm(
-    deliveries: RouteDelivery[],
-    startPoint?: Coordinates,
-  ): RouteDelivery[] {
-    if (deliveries.length === 0) {
-      return [];
+  private getCoordinates(delivery: Delivery): Coordinates | null {
+    const { latitude, longitude } = delivery.delivery_address ?? {};
+
+    if (
+      latitude === undefined ||
+      latitude === null ||
+      longitude === undefined ||
+      longitude === null
+    ) {
+      return null;
     }
 
-    const remaining = [...deliveries];
-    const result: RouteDelivery[] = [];
+    return { latitude: Number(latitude), longitude: Number(longitude) };
+  }
 
-    // Ordenar por prioridade
-    remaining.sort((a, b) => {
-      const order: Record<DeliveryPriority, number> = {
-        [DeliveryPriority.CRITICAL]: 0,
-        [DeliveryPriority.HIGH]: 1,
-        [DeliveryPriority.NORMAL]: 2,
-        [DeliveryPriority.LOW]: 3,
-      };
-      return order[a.priority] - order[b.priority];
-    });
+  private toVrpStop(delivery: Delivery): VrpStop {
+    return {
+      id: delivery.id,
+      coordinates: this.getCoordinates(delivery) ?? { latitude: 0, longitude: 0 },
+      priority: delivery.priority,
+      serviceMinutes: this.config.averageServiceTime,
+      weightKg: Number(delivery.item_details?.weight_kg ?? delivery.weight ?? 0),
+      volumeM3: this.getVolume(delivery),
+      timeWindows: this.config.considerTimeWindows ? this.getTimeWindows(delivery) : [],
+    };
+  }
 
-    let currentPoint = startPoint ?? remaining[0]?.coordinates;
-    if (!currentPoint) {
-      return [];
-    }
+  private toVrpVehicle(vehicle: Vehicle): VrpVehicle {
+    return {
+      id: vehicle.id,
+      capacityKg: vehicle.load_capacity ? Number(vehicle.load_capacity) : undefined,
+      capacityM3: vehicle.cargo_volume ? Number(vehicle.cargo_volume) : undefined,
+    };
+  }
 
-    while (remaining.length > 0) {
-      let nearestIndex = 0;
-      let nearestDistance = Number.POSITIVE_INFINITY;
+  /**
+   * Volume em m³ (item_details.volume_m3 ou dimensões da embalagem)
+   */
+  private getVolume(delivery: Delivery): number {
+    if (delivery.item_details?.volume_m3 !== undefined) {
+      return Number(delivery.item_details.volume_m3);
+    }
 
-      for (let i = 0; i < remaining.length; i++) {
-        const delivery = remaining[i];
-        if (!delivery) {
-          continue;
-        }
+    if (!delivery.dimensions) {
+      return 0;
+    }
 
-        const distance = DistanceCalculator.calculateHaversineDistance(
-          currentPoint,
-          delivery.coordinates,
-        );
+    const { length, width, height, unit } = delivery.dimensions;
+    const volume = Number(length) * Number(width) * Number(height);
 
-        const priorityWeight =
-          delivery.priority === DeliveryPriority.CRITICAL
-            ? 0.5
-            : delivery.priority === DeliveryPriority.HIGH
-              ? 0.75
-              : 1;
+    return unit === 'in' ? volume * CUBIC_INCH_TO_M3 : volume / 1_000_000;
+  }
 
-        const adjustedDistance = distance * priorityWeight;
+  /**
+   * Janelas de atendimento (settings.time_windows) em minutos desde 00:00
+   */
+  private getTimeWindows(delivery: Delivery): VrpTimeWindow[] {
+    const windows: VrpTimeWindow[] = [];
 
-        if (adjustedDistance < nearestDistance) {
-          nearestDistance = adjustedDistance;
-          nearestIndex = i;
-        }
+    for (const window of delivery.settings?.time_windows ?? []) {
+      if (
+        !DateTimeUtils.isValidTimeFormat(window.start) ||
+        !DateTimeUtils.isValidTimeFormat(window.end)
+      ) {
+        continue;
       }
 
-      const nearest = remaining.splice(nearestIndex, 1)[0];
-      if (nearest) {
-        result.push(nearest);
-        currentPoint = nearest.coordinates;
-      }
+      windows.push({
+        start: DateTimeUtils.timeToMinutes(window.start),
+        end: DateTimeUtils.timeToMinutes(window.end),
+      });
     }
 
-    return result;
+    return windows;
   }
 }
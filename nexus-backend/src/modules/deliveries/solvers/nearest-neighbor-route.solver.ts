@@ -0,0 +1,78 @@
+import { DeliveryPriority } from '../enums/delivery-priority.enum';
+import type {
+  RouteSolver,
+  VrpProblem,
+  VrpSolution,
+  VrpVehicle,
+} from '../interfaces/route-solver.interface';
+import { RouteEvaluator } from './route-evaluator';
+
+/**
+ * Peso aplicado à distância conforme a prioridade (prioridades altas parecem mais próximas)
+ */
+const PRIORITY_WEIGHT: Record<DeliveryPriority, number> = {
+  [DeliveryPriority.CRITICAL]: 0.5,
+  [DeliveryPriority.HIGH]: 0.75,
+  [DeliveryPriority.NORMAL]: 1,
+  [DeliveryPriority.LOW]: 1,
+};
+
+/**
+ * Solver guloso de vizinho mais próximo ponderado por prioridade
+ *
+ * Preenche um veículo por vez com a parada viável mais próxima (capacidade,
+ * janelas e turno). Mantido como alternativa leve ao solver de savings.
+ */
+export class NearestNeighborRouteSolver implements RouteSolver {
+  readonly algorithm = 'nearest-neighbor';
+
+  solve(problem: VrpProblem): VrpSolution {
+    const evaluator = new RouteEvaluator(problem);
+    const remaining = new Set(problem.stops.map((_, index) => index));
+    const assignments: { vehicle: VrpVehicle; sequence: number[] }[] = [];
+
+    for (const vehicle of problem.vehicles) {
+      const capacity = evaluator.capacityOf(vehicle);
+      const sequence: number[] = [];
+      let current = 0;
+
+      while (remaining.size > 0) {
+        let nearest: number | null = null;
+        let nearestDistance = Number.POSITIVE_INFINITY;
+
+        for (const index of remaining) {
+          const distance =
+            evaluator.distance(current, index + 1) *
+            PRIORITY_WEIGHT[evaluator.stop(index).priority];
+
+          if (distance < nearestDistance && evaluator.isFeasible([...sequence, index], capacity)) {
+            nearest = index;
+            nearestDistance = distance;
+          }
+        }
+
+        if (nearest === null) {
+          break;
+        }
+
+        sequence.push(nearest);
+        remaining.delete(nearest);
+        current = nearest + 1;
+      }
+
+      assignments.push({ vehicle, sequence });
+    }
+
+    return evaluator.buildSolution(
+      this.algorithm,
+      assignments,
+      [...remaining].map(index => ({
+        id: evaluator.stop(index).id,
+        reason:
+          problem.vehicles.length === 0
+            ? 'Nenhum veículo disponível'
+            : 'Sem veículo com capacidade, janela ou turno compatível',
+      })),
+    );
+  }
+}
@@ -0,0 +1,297 @@
+import { DistanceCalculator } from '../utils/distance-calculator.util';
+import type {
+  VrpProblem,
+  VrpRoute,
+  VrpScheduledStop,
+  VrpSolution,
+  VrpStop,
+  VrpTimeWindow,
+  VrpUnassignedStop,
+  VrpVehicle,
+} from '../interfaces/route-solver.interface';
+
+/**
+ * Horário diurno permitido quando a rota não aceita entregas noturnas (06:00-22:00)
+ */
+export const DAYTIME_WINDOW: VrpTimeWindow = { start: 6 * 60, end: 22 * 60 };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Capacidade efetiva de um veículo
+ */
+export interface VehicleCapacity {
+  kg: number;
+  m3: number;
+}
+
+/**
+ * Programação de uma sequência de paradas
+ */
+export interface RouteSchedule {
+  stops: VrpScheduledStop[];
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+/**
+ * Avaliador compartilhado pelos solvers
+ *
+ * Mantém a matriz de distâncias (nó 0 = depósito, nó i + 1 = parada i) e verifica
+ * capacidade, janelas de atendimento, restrição noturna e duração do turno
+ * de uma sequência de paradas.
+ */
+export class RouteEvaluator {
+  private readonly distances: number[][];
+  private readonly windows: VrpTimeWindow[][];
+
+  constructor(readonly problem: VrpProblem) {
+    const points = [problem.depot, ...problem.stops.map(stop => stop.coordinates)];
+
+    this.distances = points.map(from =>
+      points.map(to => DistanceCalculator.calculateHaversineDistance(from, to)),
+    );
+    this.windows = problem.stops.map(stop => this.resolveWindows(stop));
+  }
+
+  get stops(): VrpStop[] {
+    return this.problem.stops;
+  }
+
+  stop(index: number): VrpStop {
+    const stop = this.problem.stops[index];
+
+    if (!stop) {
+      throw new Error(`Parada ${index} inexistente`);
+    }
+
+    return stop;
+  }
+
+  /**
+   * Distância entre nós (0 = depósito, i + 1 = parada i)
+   */
+  distance(from: number, to: number): number {
+    return this.distances[from]?.[to] ?? 0;
+  }
+
+  /**
+   * Capacidade do veículo limitada pelo weight_limit_kg da rota
+   */
+  capacityOf(vehicle: VrpVehicle): VehicleCapacity {
+    const weightLimit = this.problem.restrictions?.weight_limit_kg;
+
+    return {
+      kg: Math.min(vehicle.capacityKg ?? Infinity, weightLimit ?? Infinity),
+      m3: vehicle.capacityM3 ?? Infinity,
+    };
+  }
+
+  /**
+   * Maior capacidade disponível na frota (usada antes da atribuição de veículos)
+   */
+  maxCapacity(): VehicleCapacity {
+    return this.problem.vehicles.reduce<VehicleCapacity>(
+      (max, vehicle) => {
+        const capacity = this.capacityOf(vehicle);
+        return { kg: Math.max(max.kg, capacity.kg), m3: Math.max(max.m3, capacity.m3) };
+      },
+      { kg: 0, m3: 0 },
+    );
+  }
+
+  load(sequence: number[]): VehicleCapacity {
+    return sequence.reduce<VehicleCapacity>(
+      (total, index) => {
+        const stop = this.stop(index);
+        return { kg: total.kg + stop.weightKg, m3: total.m3 + stop.volumeM3 };
+      },
+      { kg: 0, m3: 0 },
+    );
+  }
+
+  fits(sequence: number[], capacity: VehicleCapacity): boolean {
+    const load = this.load(sequence);
+    return load.kg <= capacity.kg && load.m3 <= capacity.m3;
+  }
+
+  /**
+   * Indica se a parada possui alguma janela compatível com as restrições
+   */
+  hasWindow(index: number): boolean {
+    return (this.windows[index] ?? []).length > 0;
+  }
+
+  /**
+   * Programa a sequência a partir do início do turno
+   *
+   * @returns Programação ou null se alguma janela ou a duração do turno for violada
+   */
+  schedule(sequence: number[]): RouteSchedule | null {
+    const { shiftStartMinutes, maxShiftMinutes, returnToDepot } = this.problem;
+    const stops: VrpScheduledStop[] = [];
+    let time = shiftStartMinutes;
+    let previous = 0;
+    let distanceKm = 0;
+
+    for (const index of sequence) {
+      const node = index + 1;
+      const legKm = this.distance(previous, node);
+      const arrival = time + this.travelMinutes(legKm);
+      const window = (this.windows[index] ?? []).find(candidate => arrival <= candidate.end);
+
+      if (!window) {
+        return null;
+      }
+
+      const serviceStart = Math.max(arrival, window.start);
+      const departure = serviceStart + this.stop(index).serviceMinutes;
+
+      stops.push({
+        id: this.stop(index).id,
+        sequence: stops.length + 1,
+        arrivalMinutes: Math.round(arrival),
+        serviceStartMinutes: Math.round(serviceStart),
+        departureMinutes: Math.round(departure),
+        distanceFromPreviousKm: legKm,
+      });
+
+      distanceKm += legKm;
+      time = departure;
+      previous = node;
+    }
+
+    if (returnToDepot && sequence.length > 0) {
+      const legKm = this.distance(previous, 0);
+      distanceKm += legKm;
+      time += this.travelMinutes(legKm);
+    }
+
+    const durationMinutes = time - shiftStartMinutes;
+
+    if (durationMinutes > maxShiftMinutes) {
+      return null;
+    }
+
+    return {
+      stops,
+      distanceKm: Math.round(distanceKm * 100) / 100,
+      durationMinutes: Math.round(durationMinutes),
+    };
+  }
+
+  /**
+   * Custo (distância) da sequência, considerando o retorno ao depósito se configurado
+   */
+  cost(sequence: number[]): number {
+    let previous = 0;
+    let total = 0;
+
+    for (const index of sequence) {
+      total += this.distance(previous, index + 1);
+      previous = index + 1;
+    }
+
+    if (this.problem.returnToDepot && sequence.length > 0) {
+      total += this.distance(previous, 0);
+    }
+
+    return total;
+  }
+
+  /**
+   * Sequência viável para o veículo (capacidade, janelas e turno)
+   */
+  isFeasible(sequence: number[], capacity: VehicleCapacity): boolean {
+    return this.fits(sequence, capacity) && this.schedule(sequence) !== null;
+  }
+
+  /**
+   * Monta o resultado final com o score da solução
+   */
+  buildSolution(
+    algorithm: string,
+    assignments: { vehicle: VrpVehicle; sequence: number[] }[],
+    unassigned: VrpUnassignedStop[],
+  ): VrpSolution {
+    const routes: VrpRoute[] = [];
+    let baselineKm = 0;
+    let closedKm = 0;
+    let served = 0;
+
+    for (const { vehicle, sequence } of assignments) {
+      const schedule = this.schedule(sequence);
+
+      if (sequence.length === 0 || !schedule) {
+        continue;
+      }
+
+      const load = this.load(sequence);
+      const last = sequence[sequence.length - 1] ?? 0;
+      const routeBaselineKm = sequence.reduce(
+        (sum, index) => sum + 2 * this.distance(0, index + 1),
+        0,
+      );
+      const routeClosedKm =
+        this.cost(sequence) + (this.problem.returnToDepot ? 0 : this.distance(last + 1, 0));
+
+      routes.push({
+        vehicleId: vehicle.id,
+        stops: schedule.stops,
+        totalDistanceKm: schedule.distanceKm,
+        totalDurationMinutes: schedule.durationMinutes,
+        loadKg: Math.round(load.kg * 100) / 100,
+        volumeM3: Math.round(load.m3 * 1000) / 1000,
+        score: this.savingsScore(routeClosedKm, routeBaselineKm),
+      });
+
+      served += sequence.length;
+      baselineKm += routeBaselineKm;
+      closedKm += routeClosedKm;
+    }
+
+    const total = this.problem.stops.length;
+
+    return {
+      algorithm,
+      routes,
+      unassigned,
+      score:
+        total > 0
+          ? Math.round((this.savingsScore(closedKm, baselineKm) * served * 100) / total) / 100
+          : 0,
+    };
+  }
+
+  /**
+   * Economia percentual (0-100) frente a viagens individuais de ida e volta ao depósito
+   */
+  private savingsScore(closedKm: number, baselineKm: number): number {
+    const savings = baselineKm > 0 ? Math.max(0, 1 - closedKm / baselineKm) : 0;
+    return Math.round(savings * 10000) / 100;
+  }
+
+  private travelMinutes(distanceKm: number): number {
+    return (distanceKm / this.problem.averageSpeedKmh) * 60;
+  }
+
+  /**
+   * Janelas da parada limitadas ao horário diurno quando a rota não aceita entregas noturnas
+   */
+  private resolveWindows(stop: VrpStop): VrpTimeWindow[] {
+    const windows =
+      stop.timeWindows.length > 0 ? stop.timeWindows : [{ start: 0, end: MINUTES_PER_DAY }];
+
+    const allowed =
+      this.problem.restrictions?.night_delivery_allowed === false
+        ? windows
+            .map(window => ({
+              start: Math.max(window.start, DAYTIME_WINDOW.start),
+              end: Math.min(window.end, DAYTIME_WINDOW.end),
+            }))
+            .filter(window => window.start <= window.end)
+        : windows;
+
+    return [...allowed].sort((a, b) => a.start - b.start);
+  }
+}
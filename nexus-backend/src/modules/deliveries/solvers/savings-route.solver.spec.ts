@@ -0,0 +1,133 @@
+import { DeliveryPriority } from '../enums/delivery-priority.enum';
+import type { VrpProblem, VrpStop } from '../interfaces/route-solver.interface';
+import { SavingsRouteSolver } from './savings-route.solver';
+
+const depot = { latitude: -23.55, longitude: -46.63 };
+
+function stop(id: string, latitudeOffset: number, overrides: Partial<VrpStop> = {}): VrpStop {
+  return {
+    id,
+    coordinates: { latitude: depot.latitude + latitudeOffset, longitude: depot.longitude },
+    priority: DeliveryPriority.NORMAL,
+    serviceMinutes: 10,
+    weightKg: 10,
+    volumeM3: 0.1,
+    timeWindows: [],
+    ...overrides,
+  };
+}
+
+function problem(overrides: Partial<VrpProblem> = {}): VrpProblem {
+  return {
+    depot,
+    stops: [],
+    vehicles: [{ id: 'v1', capacityKg: 1000, capacityM3: 10 }],
+    shiftStartMinutes: 8 * 60,
+    maxShiftMinutes: 8 * 60,
+    averageSpeedKmh: 30,
+    returnToDepot: true,
+    ...overrides,
+  };
+}
+
+describe('SavingsRouteSolver', () => {
+  const solver = new SavingsRouteSolver();
+
+  it('should visit stops along the same direction in a single route', () => {
+    const solution = solver.solve(
+      problem({ stops: [stop('far', 0.06), stop('near', 0.02), stop('middle', 0.04)] }),
+    );
+
+    expect(solution.routes).toHaveLength(1);
+    expect(solution.routes[0]?.stops.map(s => s.id)).toEqual(
+      expect.arrayContaining(['near', 'middle', 'far']),
+    );
+    expect(solution.unassigned).toHaveLength(0);
+    expect(solution.algorithm).toBe('savings-2opt-oropt');
+    expect(solution.score).toBeGreaterThan(0);
+  });
+
+  it('should split stops across vehicles when capacity is exceeded', () => {
+    const solution = solver.solve(
+      problem({
+        stops: [
+          stop('a', 0.01, { weightKg: 60 }),
+          stop('b', 0.02, { weightKg: 60 }),
+          stop('c', 0.03, { weightKg: 60 }),
+        ],
+        vehicles: [
+          { id: 'v1', capacityKg: 130 },
+          { id: 'v2', capacityKg: 130 },
+        ],
+      }),
+    );
+
+    expect(solution.routes).toHaveLength(2);
+    for (const route of solution.routes) {
+      expect(route.loadKg).toBeLessThanOrEqual(130);
+    }
+    expect(solution.unassigned).toHaveLength(0);
+  });
+
+  it('should respect time windows', () => {
+    const solution = solver.solve(
+      problem({
+        stops: [
+          stop('afternoon', 0.01, { timeWindows: [{ start: 14 * 60, end: 15 * 60 }] }),
+          stop('morning', 0.02, { timeWindows: [{ start: 9 * 60, end: 10 * 60 }] }),
+        ],
+      }),
+    );
+
+    const stops = solution.routes[0]?.stops ?? [];
+    expect(stops.map(s => s.id)).toEqual(['morning', 'afternoon']);
+    expect(stops[0]?.serviceStartMinutes).toBeGreaterThanOrEqual(9 * 60);
+    expect(stops[1]?.serviceStartMinutes).toBeGreaterThanOrEqual(14 * 60);
+  });
+
+  it('should apply the route weight limit to every vehicle', () => {
+    const solution = solver.solve(
+      problem({
+        stops: [stop('heavy', 0.01, { weightKg: 800 }), stop('light', 0.02)],
+        restrictions: { weight_limit_kg: 500 },
+      }),
+    );
+
+    expect(solution.unassigned.map(s => s.id)).toEqual(['heavy']);
+    expect(solution.routes[0]?.stops.map(s => s.id)).toEqual(['light']);
+  });
+
+  it('should not schedule night deliveries when they are not allowed', () => {
+    const solution = solver.solve(
+      problem({
+        stops: [stop('night', 0.01, { timeWindows: [{ start: 23 * 60, end: 23 * 60 + 30 }] })],
+        shiftStartMinutes: 20 * 60,
+        restrictions: { night_delivery_allowed: false },
+      }),
+    );
+
+    expect(solution.routes).toHaveLength(0);
+    expect(solution.unassigned.map(s => s.id)).toEqual(['night']);
+  });
+
+  it('should leave stops unassigned when the shift is too short', () => {
+    const solution = solver.solve(
+      problem({
+        stops: [stop('a', 0.01, { serviceMinutes: 40 }), stop('b', 0.02, { serviceMinutes: 40 })],
+        maxShiftMinutes: 60,
+      }),
+    );
+
+    expect(solution.routes).toHaveLength(1);
+    expect(solution.unassigned).toHaveLength(1);
+    expect(solution.routes[0]?.totalDurationMinutes).toBeLessThanOrEqual(60);
+  });
+
+  it('should report every stop as unassigned without vehicles', () => {
+    const solution = solver.solve(problem({ stops: [stop('a', 0.01)], vehicles: [] }));
+
+    expect(solution.routes).toHaveLength(0);
+    expect(solution.unassigned).toEqual([{ id: 'a', reason: 'Nenhum veículo disponível' }]);
+    expect(solution.score).toBe(0);
+  });
+});
@@ -0,0 +1,402 @@
+import { DeliveryPriority } from '../enums/delivery-priority.enum';
+import type {
+  RouteSolver,
+  VrpProblem,
+  VrpSolution,
+  VrpUnassignedStop,
+  VrpVehicle,
+} from '../interfaces/route-solver.interface';
+import { RouteEvaluator, type VehicleCapacity } from './route-evaluator';
+
+const PRIORITY_RANK: Record<DeliveryPriority, number> = {
+  [DeliveryPriority.CRITICAL]: 0,
+  [DeliveryPriority.HIGH]: 1,
+  [DeliveryPriority.NORMAL]: 2,
+  [DeliveryPriority.LOW]: 3,
+};
+
+/** Tamanho máximo dos segmentos movidos pelo or-opt */
+const OR_OPT_MAX_SEGMENT = 3;
+
+/** Limite de rodadas da busca local */
+const MAX_LOCAL_SEARCH_ROUNDS = 50;
+
+/** Melhoria mínima (km) para aceitar um movimento */
+const EPSILON_KM = 1e-6;
+
+interface WorkingRoute {
+  vehicle: VrpVehicle;
+  capacity: VehicleCapacity;
+  sequence: number[];
+}
+
+/**
+ * Solver CVRPTW baseado em savings (Clarke-Wright) com busca local 2-opt e or-opt
+ *
+ * Etapas:
+ * 1. Cada parada viável inicia em uma rota própria
+ * 2. Rotas são unidas pela ordem decrescente de economia (savings), respeitando
+ *    capacidade, janelas de atendimento e duração do turno
+ * 3. As rotas são atribuídas aos veículos (maior prioridade e carga primeiro, menor veículo que comporta)
+ * 4. Paradas sem veículo são inseridas no ponto de menor custo viável, por prioridade
+ * 5. Busca local: 2-opt dentro de cada rota e or-opt (realocação de segmentos) entre rotas
+ */
+export class SavingsRouteSolver implements RouteSolver {
+  readonly algorithm = 'savings-2opt-oropt';
+
+  solve(problem: VrpProblem): VrpSolution {
+    const evaluator = new RouteEvaluator(problem);
+    const unassigned: VrpUnassignedStop[] = [];
+
+    if (problem.vehicles.length === 0) {
+      return evaluator.buildSolution(
+        this.algorithm,
+        [],
+        problem.stops.map(stop => ({ id: stop.id, reason: 'Nenhum veículo disponível' })),
+      );
+    }
+
+    const maxCapacity = evaluator.maxCapacity();
+    const seeds: number[][] = [];
+
+    problem.stops.forEach((stop, index) => {
+      const reason = this.validateStop(evaluator, index, maxCapacity);
+
+      if (reason) {
+        unassigned.push({ id: stop.id, reason });
+      } else {
+        seeds.push([index]);
+      }
+    });
+
+    const merged = this.mergeBySavings(evaluator, seeds, maxCapacity);
+    const { routes, pending } = this.assignVehicles(evaluator, merged);
+
+    for (const index of this.sortByPriority(evaluator, pending)) {
+      if (!this.insertCheapest(evaluator, routes, index)) {
+        unassigned.push({
+          id: evaluator.stop(index).id,
+          reason: 'Sem veículo com capacidade ou turno disponível',
+        });
+      }
+    }
+
+    this.improve(evaluator, routes);
+
+    return evaluator.buildSolution(this.algorithm, routes, unassigned);
+  }
+
+  private validateStop(
+    evaluator: RouteEvaluator,
+    index: number,
+    maxCapacity: VehicleCapacity,
+  ): string | null {
+    if (!evaluator.hasWindow(index)) {
+      return 'Janela de atendimento incompatível com as restrições da rota';
+    }
+    if (!evaluator.fits([index], maxCapacity)) {
+      return 'Carga excede a capacidade dos veículos disponíveis';
+    }
+    if (!evaluator.schedule([index])) {
+      return 'Janela de atendimento inalcançável dentro do turno';
+    }
+
+    return null;
+  }
+
+  /**
+   * Une rotas pela economia s(i, j) = d(0, i) + d(0, j) - d(i, j)
+   */
+  private mergeBySavings(
+    evaluator: RouteEvaluator,
+    seeds: number[][],
+    capacity: VehicleCapacity,
+  ): number[][] {
+    const routes = new Map<number, number[]>();
+    const routeOf = new Map<number, number>();
+
+    seeds.forEach((sequence, id) => {
+      routes.set(id, sequence);
+      for (const index of sequence) {
+        routeOf.set(index, id);
+      }
+    });
+
+    const indexes = seeds.flat();
+    const savings: { i: number; j: number; value: number }[] = [];
+
+    indexes.forEach((i, position) => {
+      for (const j of indexes.slice(position + 1)) {
+        savings.push({
+          i,
+          j,
+          value:
+            evaluator.distance(0, i + 1) +
+            evaluator.distance(0, j + 1) -
+            evaluator.distance(i + 1, j + 1),
+        });
+      }
+    });
+
+    savings.sort((a, b) => b.value - a.value);
+
+    for (const { i, j } of savings) {
+      const routeI = routeOf.get(i);
+      const routeJ = routeOf.get(j);
+
+      if (routeI === undefined || routeJ === undefined || routeI === routeJ) {
+        continue;
+      }
+
+      const first = routes.get(routeI) ?? [];
+      const second = routes.get(routeJ) ?? [];
+      const candidate = this.joinAt(first, second, i, j);
+
+      if (!candidate || !evaluator.isFeasible(candidate, capacity)) {
+        continue;
+      }
+
+      routes.set(routeI, candidate);
+      routes.delete(routeJ);
+      for (const index of second) {
+        routeOf.set(index, routeI);
+      }
+    }
+
+    return [...routes.values()];
+  }
+
+  /**
+   * Junta duas rotas pelas extremidades i e j (invertendo uma delas se necessário)
+   */
+  private joinAt(first: number[], second: number[], i: number, j: number): number[] | null {
+    const firstStart = first[0] === i;
+    const firstEnd = first[first.length - 1] === i;
+    const secondStart = second[0] === j;
+    const secondEnd = second[second.length - 1] === j;
+
+    if (firstEnd && secondStart) {
+      return [...first, ...second];
+    }
+    if (firstStart && secondEnd) {
+      return [...second, ...first];
+    }
+    if (firstEnd && secondEnd) {
+      return [...first, ...[...second].reverse()];
+    }
+    if (firstStart && secondStart) {
+      return [...[...first].reverse(), ...second];
+    }
+
+    return null;
+  }
+
+  /**
+   * Atribui cada rota ao menor veículo livre que comporta sua carga
+   */
+  private assignVehicles(
+    evaluator: RouteEvaluator,
+    sequences: number[][],
+  ): { routes: WorkingRoute[]; pending: number[] } {
+    // Veículos sem capacidade informada (Infinity) ficam por último
+    const vehicles = [...evaluator.problem.vehicles].sort(
+      (a, b) =>
+        Math.min(evaluator.capacityOf(a).kg, Number.MAX_VALUE) -
+        Math.min(evaluator.capacityOf(b).kg, Number.MAX_VALUE),
+    );
+    const ordered = [...sequences].sort(
+      (a, b) =>
+        this.bestRank(evaluator, a) - this.bestRank(evaluator, b) ||
+        evaluator.load(b).kg - evaluator.load(a).kg,
+    );
+
+    const routes: WorkingRoute[] = [];
+    const pending: number[] = [];
+
+    for (const sequence of ordered) {
+      const position = vehicles.findIndex(vehicle =>
+        evaluator.fits(sequence, evaluator.capacityOf(vehicle)),
+      );
+      const [vehicle] = position === -1 ? [] : vehicles.splice(position, 1);
+
+      if (!vehicle) {
+        pending.push(...sequence);
+        continue;
+      }
+
+      routes.push({ vehicle, capacity: evaluator.capacityOf(vehicle), sequence });
+    }
+
+    // Veículos livres recebem rotas vazias para a inserção e a busca local
+    for (const vehicle of vehicles) {
+      routes.push({ vehicle, capacity: evaluator.capacityOf(vehicle), sequence: [] });
+    }
+
+    return { routes, pending };
+  }
+
+  /**
+   * Insere a parada na posição viável de menor acréscimo de distância
+   */
+  private insertCheapest(
+    evaluator: RouteEvaluator,
+    routes: WorkingRoute[],
+    index: number,
+  ): boolean {
+    let best: { route: WorkingRoute; sequence: number[]; delta: number } | null = null;
+
+    for (const route of routes) {
+      const currentCost = evaluator.cost(route.sequence);
+
+      for (let position = 0; position <= route.sequence.length; position++) {
+        const sequence = [
+          ...route.sequence.slice(0, position),
+          index,
+          ...route.sequence.slice(position),
+        ];
+        const delta = evaluator.cost(sequence) - currentCost;
+
+        if ((!best || delta < best.delta) && evaluator.isFeasible(sequence, route.capacity)) {
+          best = { route, sequence, delta };
+        }
+      }
+    }
+
+    if (!best) {
+      return false;
+    }
+
+    best.route.sequence = best.sequence;
+    return true;
+  }
+
+  /**
+   * Busca local até não haver melhoria (ou atingir o limite de rodadas)
+   */
+  private improve(evaluator: RouteEvaluator, routes: WorkingRoute[]): void {
+    for (let round = 0; round < MAX_LOCAL_SEARCH_ROUNDS; round++) {
+      let improved = false;
+
+      for (const route of routes) {
+        improved = this.twoOpt(evaluator, route) || improved;
+      }
+
+      improved = this.orOpt(evaluator, routes) || improved;
+
+      if (!improved) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 2-opt: inverte trechos da rota quando reduz a distância
+   */
+  private twoOpt(evaluator: RouteEvaluator, route: WorkingRoute): boolean {
+    let improved = false;
+    let bestCost = evaluator.cost(route.sequence);
+
+    for (let i = 0; i < route.sequence.length - 1; i++) {
+      for (let k = i + 1; k < route.sequence.length; k++) {
+        const candidate = [
+          ...route.sequence.slice(0, i),
+          ...route.sequence.slice(i, k + 1).reverse(),
+          ...route.sequence.slice(k + 1),
+        ];
+        const cost = evaluator.cost(candidate);
+
+        if (cost < bestCost - EPSILON_KM && evaluator.schedule(candidate)) {
+          route.sequence = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+
+    return improved;
+  }
+
+  /**
+   * Or-opt: move segmentos de 1 a 3 paradas para outra posição (na mesma ou em outra rota)
+   */
+  private orOpt(evaluator: RouteEvaluator, routes: WorkingRoute[]): boolean {
+    let improved = false;
+
+    for (const source of routes) {
+      for (let length = 1; length <= OR_OPT_MAX_SEGMENT; length++) {
+        for (let start = 0; start + length <= source.sequence.length; start++) {
+          const segment = source.sequence.slice(start, start + length);
+          const remaining = [
+            ...source.sequence.slice(0, start),
+            ...source.sequence.slice(start + length),
+          ];
+
+          const move = this.findBestMove(evaluator, routes, source, remaining, segment);
+
+          if (move) {
+            source.sequence = move.source;
+            move.target.sequence = move.sequence;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return improved;
+  }
+
+  private findBestMove(
+    evaluator: RouteEvaluator,
+    routes: WorkingRoute[],
+    source: WorkingRoute,
+    remaining: number[],
+    segment: number[],
+  ): { target: WorkingRoute; sequence: number[]; source: number[] } | null {
+    let best: { target: WorkingRoute; sequence: number[]; source: number[] } | null = null;
+    let bestGain = EPSILON_KM;
+
+    const sourceCost = evaluator.cost(source.sequence);
+
+    for (const target of routes) {
+      const base = target === source ? remaining : target.sequence;
+      const before = target === source ? sourceCost : sourceCost + evaluator.cost(target.sequence);
+
+      for (let position = 0; position <= base.length; position++) {
+        const sequence = [...base.slice(0, position), ...segment, ...base.slice(position)];
+        const after =
+          target === source
+            ? evaluator.cost(sequence)
+            : evaluator.cost(remaining) + evaluator.cost(sequence);
+        const gain = before - after;
+
+        if (gain <= bestGain) {
+          continue;
+        }
+
+        const feasible =
+          target === source
+            ? evaluator.schedule(sequence) !== null
+            : evaluator.isFeasible(sequence, target.capacity) &&
+              evaluator.schedule(remaining) !== null;
+
+        if (feasible) {
+          best = { target, sequence, source: target === source ? sequence : remaining };
+          bestGain = gain;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private sortByPriority(evaluator: RouteEvaluator, indexes: number[]): number[] {
+    return [...indexes].sort(
+      (a, b) =>
+        PRIORITY_RANK[evaluator.stop(a).priority] - PRIORITY_RANK[evaluator.stop(b).priority],
+    );
+  }
+
+  private bestRank(evaluator: RouteEvaluator, sequence: number[]): number {
+    return Math.min(...sequence.map(index => PRIORITY_RANK[evaluator.stop(index).priority]));
+  }
+}
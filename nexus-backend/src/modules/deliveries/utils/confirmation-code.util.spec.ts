@@ -0,0 +1,20 @@
+import { generateConfirmationCode, maskContact } from './confirmation-code.util';
+
+describe('generateConfirmationCode', () => {
+  it('should generate numeric codes with the requested length', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateConfirmationCode(6)).toMatch(/^\d{6}$/);
+    }
+  });
+});
+
+describe('maskContact', () => {
+  it('should keep only the last four digits of a phone number', () => {
+    expect(maskContact('(11) 98765-4321')).toBe('*******4321');
+  });
+
+  it('should keep the first letter and the domain of an e-mail', () => {
+    expect(maskContact('maria@exemplo.com')).toBe('m****@exemplo.com');
+    expect(maskContact('a@exemplo.com')).toBe('a*@exemplo.com');
+  });
+});
@@ -0,0 +1,45 @@
+import { randomInt } from 'crypto';
+
+/**
+ * Gera um código numérico aleatório (CSPRNG) com zeros à esquerda
+ *
+ * @param length - Quantidade de dígitos
+ * @returns Código com exatamente `length` dígitos
+ *
+ * @example
+ * ```typescript
+ * generateConfirmationCode(6); // '048213'
+ * ```
+ */
+export function generateConfirmationCode(length: number): string {
+  let code = '';
+
+  for (let i = 0; i < length; i++) {
+    code += randomInt(0, 10).toString();
+  }
+
+  return code;
+}
+
+/**
+ * Mascara o destino do código para exibição e auditoria
+ *
+ * Telefones mantêm os 4 últimos dígitos; e-mails, a primeira letra e o domínio.
+ *
+ * @example
+ * ```typescript
+ * maskContact('11987654321');        // '*******4321'
+ * maskContact('maria@exemplo.com');  // 'm****@exemplo.com'
+ * ```
+ */
+export function maskContact(contact: string): string {
+  const at = contact.indexOf('@');
+
+  if (at > 0) {
+    const local = contact.slice(0, at);
+    return `${local.charAt(0)}${'*'.repeat(Math.max(local.length - 1, 1))}${contact.slice(at)}`;
+  }
+
+  const digits = contact.replace(/\D/g, '');
+  return `${'*'.repeat(Math.max(digits.length - 4, 0))}${digits.slice(-4)}`;
+}
@@ -0,0 +1,47 @@
+import { ProofType } from '../enums/proof-type.enum';
+import { getMissingProofRequirements } from './proof-requirements.util';
+
+describe('getMissingProofRequirements', () => {
+  it('should require nothing when the delivery has no proof settings', () => {
+    expect(getMissingProofRequirements(undefined, [])).toEqual([]);
+    expect(getMissingProofRequirements({ requires_signature: false }, [])).toEqual([]);
+  });
+
+  it('should list every required proof that was not submitted', () => {
+    const missing = getMissingProofRequirements(
+      { requires_signature: true, requires_photo: true, requires_id: true },
+      [{ type: ProofType.SIGNATURE }],
+    );
+
+    expect(missing.map(requirement => requirement.setting)).toEqual([
+      'requires_photo',
+      'requires_id',
+    ]);
+  });
+
+  it('should accept a location photo as the delivery photo', () => {
+    expect(
+      getMissingProofRequirements({ requires_photo: true }, [{ type: ProofType.LOCATION_PHOTO }]),
+    ).toEqual([]);
+  });
+
+  it('should ignore rejected proofs but accept proofs pending verification', () => {
+    const settings = { requires_signature: true };
+
+    expect(
+      getMissingProofRequirements(settings, [
+        { type: ProofType.SIGNATURE, validation_data: { verified: false } },
+      ]),
+    ).toHaveLength(1);
+    expect(
+      getMissingProofRequirements(settings, [{ type: ProofType.SIGNATURE, validation_data: {} }]),
+    ).toEqual([]);
+  });
+
+  it('should accept a confirmed SMS or e-mail code as the confirmation code', () => {
+    const settings = { requires_confirmation_code: true };
+
+    expect(getMissingProofRequirements(settings, [{ type: ProofType.PHOTO }])).toHaveLength(1);
+    expect(getMissingProofRequirements(settings, [{ type: ProofType.EMAIL_CODE }])).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import type { Delivery } from '../entities/delivery.entity';
+import type { DeliveryProof } from '../entities/delivery-proof.entity';
+import { ProofType } from '../enums/proof-type.enum';
+
+/**
+ * Comprovante exigido por Delivery.settings e os tipos que o satisfazem
+ */
+export interface ProofRequirement {
+  setting: 'requires_signature' | 'requires_photo' | 'requires_id' | 'requires_confirmation_code';
+  label: string;
+  acceptedTypes: ProofType[];
+}
+
+export const PROOF_REQUIREMENTS: ProofRequirement[] = [
+  {
+    setting: 'requires_signature',
+    label: 'Assinatura do recebedor',
+    acceptedTypes: [ProofType.SIGNATURE],
+  },
+  {
+    setting: 'requires_photo',
+    label: 'Foto da entrega',
+    acceptedTypes: [ProofType.PHOTO, ProofType.LOCATION_PHOTO],
+  },
+  {
+    setting: 'requires_id',
+    label: 'Documento de identificação',
+    acceptedTypes: [ProofType.ID_DOCUMENT],
+  },
+  {
+    setting: 'requires_confirmation_code',
+    label: 'Código de confirmação do recebedor',
+    acceptedTypes: [ProofType.SMS_CODE, ProofType.EMAIL_CODE],
+  },
+];
+
+/**
+ * Indica se o comprovante foi rejeitado na verificação
+ */
+export function isProofRejected(proof: Pick<DeliveryProof, 'validation_data'>): boolean {
+  return proof.validation_data?.verified === false;
+}
+
+/**
+ * Lista os comprovantes exigidos pela entrega que ainda não foram enviados
+ *
+ * Comprovantes rejeitados não contam; pendentes de verificação sim.
+ *
+ * @param settings - Configurações da entrega (requires_signature, requires_photo, requires_id,
+ * requires_confirmation_code)
+ * @param proofs - Comprovantes já registrados
+ * @returns Exigências não atendidas (vazio = pode ser marcada como entregue)
+ */
+export function getMissingProofRequirements(
+  settings: Delivery['settings'],
+  proofs: Pick<DeliveryProof, 'type' | 'validation_data'>[],
+): ProofRequirement[] {
+  const available = new Set(proofs.filter(proof => !isProofRejected(proof)).map(p => p.type));
+
+  return PROOF_REQUIREMENTS.filter(
+    requirement =>
+      settings?.[requirement.setting] === true &&
+      !requirement.acceptedTypes.some(type => available.has(type)),
+  );
+}
@@ -0,0 +1,182 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { GeofenceShape, GeofenceType } from '../enums/geofence';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Vértice de polígono
+ */
+export class GeofenceVertexDto {
+  @ApiProperty({ description: 'Latitude', example: -23.5489 })
+  @IsLatitude()
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude', example: -46.6388 })
+  @IsLongitude()
+  longitude!: number;
+}
+
+/**
+ * Período em que a restrição da zona está em vigor
+ */
+export class RestrictedZoneWindowDto {
+  @ApiProperty({ description: 'Início (HH:mm)', example: '05:00' })
+  @Matches(TIME_PATTERN, { message: 'Início deve estar no formato HH:mm' })
+  start!: string;
+
+  @ApiProperty({
+    description: 'Fim (HH:mm); menor que o início atravessa a meia-noite',
+    example: '21:00',
+  })
+  @Matches(TIME_PATTERN, { message: 'Fim deve estar no formato HH:mm' })
+  end!: string;
+
+  @ApiPropertyOptional({
+    description: 'Dias da semana (0 = domingo); ausente = todos os dias',
+    example: [1, 2, 3, 4, 5],
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days_of_week?: number[];
+}
+
+/**
+ * Regras de circulação da zona de restrição
+ */
+export class RestrictedZoneRulesDto {
+  @ApiPropertyOptional({ description: 'Peso máximo permitido (kg)', example: 6000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max_weight_kg?: number;
+
+  @ApiPropertyOptional({ description: 'Altura máxima permitida (m)', example: 4.4 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max_height_m?: number;
+
+  @ApiPropertyOptional({ description: 'Largura máxima permitida (m)', example: 2.2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max_width_m?: number;
+
+  @ApiPropertyOptional({ description: 'Proíbe carga perigosa', example: true })
+  @IsOptional()
+  @IsBoolean()
+  hazmat_prohibited?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Períodos em vigor; ausente = restrição permanente',
+    type: [RestrictedZoneWindowDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => RestrictedZoneWindowDto)
+  active_windows?: RestrictedZoneWindowDto[];
+}
+
+/**
+ * DTO para criar geofence
+ *
+ * Círculo exige centro e raio; polígono exige ao menos 3 vértices.
+ * Geofences de endereço de cliente são geradas pela sincronização com CustomerAddress.
+ */
+export class CreateGeofenceDto {
+  @ApiProperty({ description: 'Nome da geofence', example: 'ZMRC - Centro expandido' })
+  @IsString()
+  @IsNotEmpty()
+  @Length(3, 255)
+  name!: string;
+
+  @ApiProperty({
+    description: 'Finalidade da geofence',
+    enum: [GeofenceType.DEPOT, GeofenceType.RESTRICTED_ZONE],
+    example: GeofenceType.RESTRICTED_ZONE,
+  })
+  @IsEnum([GeofenceType.DEPOT, GeofenceType.RESTRICTED_ZONE], {
+    message: 'Tipo deve ser DEPOT ou RESTRICTED_ZONE',
+  })
+  type!: GeofenceType;
+
+  @ApiProperty({ description: 'Forma geométrica', enum: GeofenceShape })
+  @IsEnum(GeofenceShape, { message: 'Forma deve ser CIRCLE ou POLYGON' })
+  shape!: GeofenceShape;
+
+  @ApiPropertyOptional({ description: 'Latitude do centro (círculo)', example: -23.5505 })
+  @ValidateIf((dto: CreateGeofenceDto) => dto.shape === GeofenceShape.CIRCLE)
+  @IsLatitude()
+  center_latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude do centro (círculo)', example: -46.6333 })
+  @ValidateIf((dto: CreateGeofenceDto) => dto.shape === GeofenceShape.CIRCLE)
+  @IsLongitude()
+  center_longitude?: number;
+
+  @ApiPropertyOptional({ description: 'Raio em metros (círculo)', example: 150 })
+  @ValidateIf((dto: CreateGeofenceDto) => dto.shape === GeofenceShape.CIRCLE)
+  @IsInt()
+  @Min(10)
+  @Max(50000)
+  radius_meters?: number;
+
+  @ApiPropertyOptional({
+    description: 'Vértices do polígono (o fechamento é implícito)',
+    type: [GeofenceVertexDto],
+  })
+  @ValidateIf((dto: CreateGeofenceDto) => dto.shape === GeofenceShape.POLYGON)
+  @IsArray()
+  @ArrayMinSize(3)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => GeofenceVertexDto)
+  vertices?: GeofenceVertexDto[];
+
+  @ApiPropertyOptional({
+    description: 'Regras de circulação (apenas zonas de restrição)',
+    type: RestrictedZoneRulesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RestrictedZoneRulesDto)
+  rules?: RestrictedZoneRulesDto;
+
+  @ApiPropertyOptional({ description: 'Descrição da geofence' })
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Geofence ativa', default: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
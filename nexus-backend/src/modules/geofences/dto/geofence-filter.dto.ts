@@ -0,0 +1,67 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { GeofenceEventType, GeofenceType } from '../enums/geofence';
+
+/**
+ * DTO para filtrar geofences
+ */
+export class GeofenceFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por finalidade', enum: GeofenceType })
+  @IsOptional()
+  @IsEnum(GeofenceType)
+  type?: GeofenceType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por geofences ativas/inativas' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  is_active?: boolean;
+
+  @ApiPropertyOptional({ description: 'Filtrar por endereço de cliente (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  customer_address_id?: string;
+}
+
+/**
+ * DTO para filtrar eventos de geofence
+ */
+export class GeofenceEventFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por geofence (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  geofence_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por tipo de evento', enum: GeofenceEventType })
+  @IsOptional()
+  @IsEnum(GeofenceEventType)
+  event_type?: GeofenceEventType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por veículo (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  vehicle_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por rota (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  route_id?: string;
+
+  @ApiPropertyOptional({ description: 'Apenas violações de zona de restrição' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  is_violation?: boolean;
+
+  @ApiPropertyOptional({ description: 'Eventos a partir de', example: '2024-01-15T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Eventos até', example: '2024-01-15T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -0,0 +1,154 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+import { GeofenceEventType, GeofenceShape, GeofenceType } from '../enums/geofence';
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+import type {
+  RestrictedZoneRules,
+  RestrictedZoneViolation,
+} from '../interfaces/geofence.interface';
+
+const toNumber = ({ value }: { value: unknown }): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+/**
+ * DTO de resposta de geofence
+ */
+export class GeofenceResponseDto {
+  @ApiProperty({ description: 'ID da geofence', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Nome', example: 'ZMRC - Centro expandido' })
+  @Expose()
+  name!: string;
+
+  @ApiProperty({ description: 'Finalidade', enum: GeofenceType })
+  @Expose()
+  type!: GeofenceType;
+
+  @ApiProperty({ description: 'Forma geométrica', enum: GeofenceShape })
+  @Expose()
+  shape!: GeofenceShape;
+
+  @ApiPropertyOptional({ description: 'Latitude do centro (círculo)', example: -23.5505 })
+  @Expose()
+  @Transform(toNumber)
+  center_latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude do centro (círculo)', example: -46.6333 })
+  @Expose()
+  @Transform(toNumber)
+  center_longitude?: number;
+
+  @ApiPropertyOptional({ description: 'Raio em metros (círculo)', example: 150 })
+  @Expose()
+  radius_meters?: number;
+
+  @ApiPropertyOptional({ description: 'Vértices do polígono' })
+  @Expose()
+  vertices?: Coordinates[];
+
+  @ApiPropertyOptional({ description: 'ID do endereço de cliente de origem' })
+  @Expose()
+  customer_address_id?: string;
+
+  @ApiPropertyOptional({ description: 'Regras de circulação da zona de restrição' })
+  @Expose()
+  rules?: RestrictedZoneRules;
+
+  @ApiPropertyOptional({ description: 'Descrição' })
+  @Expose()
+  description?: string;
+
+  @ApiProperty({ description: 'Geofence ativa', example: true })
+  @Expose()
+  is_active!: boolean;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
+
+/**
+ * DTO de resposta de evento de geofence
+ */
+export class GeofenceEventResponseDto {
+  @ApiProperty({ description: 'ID do evento', example: '123e4567-e89b-12d3-a456-426614174001' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID da geofence' })
+  @Expose()
+  geofence_id!: string;
+
+  @ApiProperty({ description: 'Tipo do evento', enum: GeofenceEventType })
+  @Expose()
+  event_type!: GeofenceEventType;
+
+  @ApiProperty({ description: 'ID do veículo' })
+  @Expose()
+  vehicle_id!: string;
+
+  @ApiProperty({ description: 'ID do motorista' })
+  @Expose()
+  driver_id!: string;
+
+  @ApiPropertyOptional({ description: 'ID da rota' })
+  @Expose()
+  route_id?: string;
+
+  @ApiPropertyOptional({ description: 'ID da posição GPS que gerou o evento' })
+  @Expose()
+  tracking_point_id?: string;
+
+  @ApiPropertyOptional({ description: 'ID da parada com chegada/saída carimbada' })
+  @Expose()
+  route_stop_id?: string;
+
+  @ApiProperty({ description: 'Latitude', example: -23.5505 })
+  @Expose()
+  @Transform(toNumber)
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude', example: -46.6333 })
+  @Expose()
+  @Transform(toNumber)
+  longitude!: number;
+
+  @ApiProperty({ description: 'Data/hora da posição que gerou o evento' })
+  @Expose()
+  occurred_at!: Date;
+
+  @ApiPropertyOptional({ description: 'Tempo dentro da geofence (segundos)', example: 420 })
+  @Expose()
+  dwell_seconds?: number;
+
+  @ApiProperty({ description: 'Violação de zona de restrição', example: false })
+  @Expose()
+  is_violation!: boolean;
+
+  @ApiPropertyOptional({ description: 'Regras da zona violadas' })
+  @Expose()
+  violations?: RestrictedZoneViolation[];
+}
+
+/**
+ * Resultado da sincronização das geofences de endereços de clientes
+ */
+export class GeofenceSyncResultDto {
+  @ApiProperty({ description: 'Geofences criadas', example: 12 })
+  created!: number;
+
+  @ApiProperty({ description: 'Geofences atualizadas (coordenadas ou raio)', example: 3 })
+  updated!: number;
+
+  @ApiProperty({
+    description: 'Geofences desativadas (endereço inativo ou sem coordenadas)',
+    example: 1,
+  })
+  deactivated!: number;
+}
@@ -0,0 +1,11 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateGeofenceDto } from './create-geofence.dto';
+
+/**
+ * DTO para atualizar geofence
+ *
+ * A finalidade não muda; ao trocar a forma, informe a geometria completa da nova forma
+ */
+export class UpdateGeofenceDto extends PartialType(
+  OmitType(CreateGeofenceDto, ['type'] as const),
+) {}
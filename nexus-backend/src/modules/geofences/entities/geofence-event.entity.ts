@@ -0,0 +1,128 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { GeofenceEventType } from '../enums/geofence';
+import { Geofence } from './geofence.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { Route } from '../../routes/entities/route.entity';
+import type { RestrictedZoneViolation } from '../interfaces/geofence.interface';
+
+/**
+ * GeofenceEvent Entity - Entradas, saídas e permanências dos veículos
+ *
+ * Features:
+ * - Gerado pela avaliação de cada posição GPS
+ * - Vínculo com veículo, motorista, rota e parada carimbada
+ * - Sinalização de violação de zona de restrição
+ */
+@Entity('geofence_events')
+@Index(['geofence_id', 'occurred_at'])
+@Index(['vehicle_id', 'occurred_at'])
+@Index(['route_id'])
+@Index(['is_violation'])
+export class GeofenceEvent extends BaseEntity {
+  // Relacionamento com Geofence
+  @ManyToOne(() => Geofence, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'geofence_id' })
+  geofence!: Geofence;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID da geofence',
+  })
+  geofence_id!: string;
+
+  @Column({
+    type: 'enum',
+    enum: GeofenceEventType,
+    comment: 'Tipo do evento',
+  })
+  event_type!: GeofenceEventType;
+
+  // Relacionamento com Veículo
+  @ManyToOne(() => Vehicle, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vehicle_id' })
+  vehicle!: Vehicle;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do veículo',
+  })
+  vehicle_id!: string;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do motorista',
+  })
+  driver_id!: string;
+
+  // Relacionamento com Rota
+  @ManyToOne(() => Route, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'route_id' })
+  route?: Route;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da rota ativa no momento do evento',
+  })
+  route_id?: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da posição GPS que gerou o evento',
+  })
+  tracking_point_id?: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da parada com chegada/saída carimbada pelo evento',
+  })
+  route_stop_id?: string;
+
+  // Posição
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    comment: 'Latitude da posição',
+  })
+  latitude!: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    comment: 'Longitude da posição',
+  })
+  longitude!: number;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da posição que gerou o evento',
+  })
+  occurred_at!: Date;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Tempo dentro da geofence em segundos (DWELL/EXIT)',
+  })
+  dwell_seconds?: number;
+
+  // Zona de restrição
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: 'Entrada em zona de restrição em desacordo com as restrições da rota',
+  })
+  is_violation!: boolean;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Regras da zona violadas',
+  })
+  violations?: RestrictedZoneViolation[];
+}
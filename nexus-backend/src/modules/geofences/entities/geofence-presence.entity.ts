@@ -0,0 +1,62 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Geofence } from './geofence.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+
+/**
+ * GeofencePresence Entity - Geofences em que cada veículo está no momento
+ *
+ * Existe enquanto o veículo está dentro da geofence; a entrada cria o registro,
+ * a saída o remove. Base para detectar transições e permanência (DWELL).
+ */
+@Entity('geofence_presences')
+@Index(['vehicle_id', 'geofence_id'], { unique: true })
+export class GeofencePresence extends BaseEntity {
+  // Relacionamento com Veículo
+  @ManyToOne(() => Vehicle, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vehicle_id' })
+  vehicle!: Vehicle;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do veículo',
+  })
+  vehicle_id!: string;
+
+  // Relacionamento com Geofence
+  @ManyToOne(() => Geofence, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'geofence_id' })
+  geofence!: Geofence;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID da geofence',
+  })
+  geofence_id!: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da rota ativa na entrada',
+  })
+  route_id?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da entrada',
+  })
+  entered_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da última posição dentro da geofence',
+  })
+  last_seen_at!: Date;
+
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: 'Evento de permanência já emitido',
+  })
+  dwell_emitted!: boolean;
+}
@@ -0,0 +1,142 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Auditable } from '../../vehicles/decorators/auditable.decorator';
+import { GeofenceShape, GeofenceType } from '../enums/geofence';
+import { CustomerAddress } from '../../customers/entities/customer-address.entity';
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+import type { GeofenceArea, RestrictedZoneRules } from '../interfaces/geofence.interface';
+
+/**
+ * Geofence Entity - Cercas virtuais avaliadas a cada posição GPS
+ *
+ * Features:
+ * - Centros de distribuição, endereços de clientes e zonas de restrição
+ * - Círculo (centro + raio) ou polígono (vértices)
+ * - Retângulo envolvente (box) com índice GiST para pré-filtro sem PostGIS
+ * - Regras de circulação das zonas de restrição
+ */
+@Entity('geofences')
+@Index(['type'])
+@Index(['customer_address_id'], { unique: true, where: 'deleted_at IS NULL' })
+@Auditable({
+  trackCreation: true,
+  trackUpdates: true,
+  trackDeletion: true,
+  excludeFields: ['updated_at', 'created_at', 'bounds'],
+  entityDisplayName: 'Geofence',
+})
+export class Geofence extends BaseEntity {
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Nome da geofence',
+  })
+  name!: string;
+
+  @Column({
+    type: 'enum',
+    enum: GeofenceType,
+    comment: 'Finalidade da geofence',
+  })
+  type!: GeofenceType;
+
+  @Column({
+    type: 'enum',
+    enum: GeofenceShape,
+    comment: 'Forma geométrica',
+  })
+  shape!: GeofenceShape;
+
+  // Círculo
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    nullable: true,
+    comment: 'Latitude do centro (círculo)',
+  })
+  center_latitude?: number | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    nullable: true,
+    comment: 'Longitude do centro (círculo)',
+  })
+  center_longitude?: number | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Raio em metros (círculo)',
+  })
+  radius_meters?: number | null;
+
+  // Polígono
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Vértices do polígono (latitude/longitude)',
+  })
+  vertices?: Coordinates[] | null;
+
+  @Index('IDX_geofences_bounds', { spatial: true })
+  @Column({
+    type: 'box',
+    select: false,
+    comment: 'Retângulo envolvente (x = latitude, y = longitude) para pré-filtro espacial',
+  })
+  bounds!: string;
+
+  // Relacionamento com Endereço do Cliente
+  @ManyToOne(() => CustomerAddress, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customer_address_id' })
+  customer_address?: CustomerAddress;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do endereço de cliente de origem',
+  })
+  customer_address_id?: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Regras de circulação da zona de restrição',
+  })
+  rules?: RestrictedZoneRules;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Descrição da geofence',
+  })
+  description?: string;
+
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Geofence avaliada nas posições GPS',
+  })
+  is_active!: boolean;
+
+  /**
+   * Geometria no formato usado pelos testes de GeofenceGeometry
+   */
+  toArea(): GeofenceArea {
+    return {
+      shape: this.shape,
+      center:
+        this.center_latitude !== undefined &&
+        this.center_latitude !== null &&
+        this.center_longitude !== undefined &&
+        this.center_longitude !== null
+          ? { latitude: Number(this.center_latitude), longitude: Number(this.center_longitude) }
+          : undefined,
+      radiusMeters: this.radius_meters ?? undefined,
+      vertices: this.vertices ?? undefined,
+    };
+  }
+}
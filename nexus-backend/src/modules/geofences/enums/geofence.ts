@@ -0,0 +1,51 @@
+/**
+ * Finalidade da geofence
+ */
+export enum GeofenceType {
+  /** Centro de distribuição / ponto de partida das rotas */
+  DEPOT = 'DEPOT',
+  /** Endereço de cliente (gerada a partir de CustomerAddress) */
+  CUSTOMER_ADDRESS = 'CUSTOMER_ADDRESS',
+  /** Zona com restrição de circulação (ex.: ZMRC no centro da cidade) */
+  RESTRICTED_ZONE = 'RESTRICTED_ZONE',
+}
+
+/**
+ * Descrições das finalidades
+ */
+export const GeofenceTypeDescriptions: Record<GeofenceType, string> = {
+  [GeofenceType.DEPOT]: 'Centro de distribuição',
+  [GeofenceType.CUSTOMER_ADDRESS]: 'Endereço de cliente',
+  [GeofenceType.RESTRICTED_ZONE]: 'Zona de restrição',
+};
+
+/**
+ * Forma geométrica da geofence
+ */
+export enum GeofenceShape {
+  /** Centro + raio em metros */
+  CIRCLE = 'CIRCLE',
+  /** Lista de vértices (latitude/longitude) */
+  POLYGON = 'POLYGON',
+}
+
+/**
+ * Eventos gerados pela avaliação das posições GPS
+ */
+export enum GeofenceEventType {
+  /** Veículo entrou na geofence */
+  ENTER = 'ENTER',
+  /** Veículo saiu da geofence */
+  EXIT = 'EXIT',
+  /** Veículo permaneceu na geofence além do tempo configurado */
+  DWELL = 'DWELL',
+}
+
+/**
+ * Descrições dos eventos
+ */
+export const GeofenceEventTypeDescriptions: Record<GeofenceEventType, string> = {
+  [GeofenceEventType.ENTER]: 'Entrada',
+  [GeofenceEventType.EXIT]: 'Saída',
+  [GeofenceEventType.DWELL]: 'Permanência',
+};
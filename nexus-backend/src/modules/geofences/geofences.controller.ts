@@ -0,0 +1,207 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { GeofencesService } from './geofences.service';
+import { CreateGeofenceDto } from './dto/create-geofence.dto';
+import { UpdateGeofenceDto } from './dto/update-geofence.dto';
+import { GeofenceEventFilterDto, GeofenceFilterDto } from './dto/geofence-filter.dto';
+import {
+  GeofenceEventResponseDto,
+  GeofenceResponseDto,
+  GeofenceSyncResultDto,
+} from './dto/geofence-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * Controller de geofences
+ *
+ * Gerencia as cercas virtuais avaliadas a cada posição GPS:
+ * - Centros de distribuição e zonas de restrição (círculo ou polígono)
+ * - Sincronização das geofences dos endereços de clientes
+ * - Consulta dos eventos de entrada, saída, permanência e violações
+ */
+@ApiTags('Geofences')
+@Controller('geofences')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário sem permissão para gerenciar geofences',
+})
+export class GeofencesController {
+  constructor(private readonly geofencesService: GeofencesService) {}
+
+  @Post()
+  @Roles(Role.ADMIN, Role.GESTOR)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Criar geofence',
+    description:
+      'Cria um centro de distribuição ou zona de restrição. Círculo exige centro e raio; polígono, ao menos 3 vértices',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Geofence criada com sucesso',
+    type: GeofenceResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos ou geometria incompleta',
+  })
+  async create(@Body() createDto: CreateGeofenceDto): Promise<GeofenceResponseDto> {
+    return this.geofencesService.create(createDto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar geofences',
+    description: 'Lista geofences com filtros por finalidade, situação e endereço de cliente',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de geofences retornada com sucesso',
+    type: PaginatedResponseDto<GeofenceResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: GeofenceFilterDto,
+  ): Promise<PaginatedResponseDto<GeofenceResponseDto>> {
+    return this.geofencesService.findAll(filterDto);
+  }
+
+  @Get('events')
+  @ApiOperation({
+    summary: 'Listar eventos de geofence',
+    description:
+      'Lista entradas, saídas e permanências por geofence, veículo, rota e período. Use is_violation=true para as violações de zonas de restrição',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de eventos retornada com sucesso',
+    type: PaginatedResponseDto<GeofenceEventResponseDto>,
+  })
+  async findEvents(
+    @Query() filterDto: GeofenceEventFilterDto,
+  ): Promise<PaginatedResponseDto<GeofenceEventResponseDto>> {
+    return this.geofencesService.findEvents(filterDto);
+  }
+
+  @Post('sync/customer-addresses')
+  @Roles(Role.ADMIN, Role.GESTOR)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sincronizar geofences de endereços',
+    description:
+      'Cria ou atualiza as geofences circulares a partir das coordenadas dos endereços de clientes e desativa as de endereços inativos ou sem coordenadas',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sincronização concluída',
+    type: GeofenceSyncResultDto,
+  })
+  async syncCustomerAddresses(): Promise<GeofenceSyncResultDto> {
+    return this.geofencesService.syncCustomerAddresses();
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Buscar geofence por ID',
+    description: 'Retorna a geometria e as regras de uma geofence',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da geofence',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Geofence encontrada com sucesso',
+    type: GeofenceResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Geofence não encontrada',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<GeofenceResponseDto> {
+    return this.geofencesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.GESTOR)
+  @ApiOperation({
+    summary: 'Atualizar geofence',
+    description:
+      'Atualiza nome, geometria, regras ou situação. Alterar a geometria ou desativar reinicia a presença dos veículos na geofence',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da geofence',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Geofence atualizada com sucesso',
+    type: GeofenceResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos ou geometria incompleta',
+  })
+  @ApiNotFoundResponse({
+    description: 'Geofence não encontrada',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateGeofenceDto,
+  ): Promise<GeofenceResponseDto> {
+    return this.geofencesService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.GESTOR)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remover geofence',
+    description: 'Remove a geofence (soft delete); os eventos já registrados são mantidos',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da geofence',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Geofence removida com sucesso',
+  })
+  @ApiNotFoundResponse({
+    description: 'Geofence não encontrada',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.geofencesService.remove(id);
+  }
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { GeofencesService } from './geofences.service';
+import { GeofencesController } from './geofences.controller';
+import { GeofenceEvaluationService } from './services/geofence-evaluation.service';
+import { Geofence } from './entities/geofence.entity';
+import { GeofenceEvent } from './entities/geofence-event.entity';
+import { GeofencePresence } from './entities/geofence-presence.entity';
+import { CustomerAddress } from '../customers/entities/customer-address.entity';
+import { RouteStop } from '../routes/entities/route_stop.entity';
+import { Tracking } from '../tracking/entities/tracking.entity';
+import { AuditModule } from '../audit/audit.module';
+import { deliveryConfig } from '../deliveries/config/delivery.config';
+
+/**
+ * Módulo de geofences
+ *
+ * Cercas virtuais de centros de distribuição, endereços de clientes e zonas de
+ * restrição. As posições GPS recebidas pelo TrackingModule são avaliadas pelo
+ * GeofenceEvaluationService; por isso este módulo não importa Tracking/Routes.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Geofence,
+      GeofenceEvent,
+      GeofencePresence,
+      CustomerAddress,
+      RouteStop,
+      Tracking,
+    ]),
+    ConfigModule.forFeature(deliveryConfig),
+    AuditModule,
+  ],
+  controllers: [GeofencesController],
+  providers: [GeofencesService, GeofenceEvaluationService],
+  exports: [GeofencesService, GeofenceEvaluationService, TypeOrmModule],
+})
+export class GeofencesModule {}
@@ -0,0 +1,382 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  ILike,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { Geofence } from './entities/geofence.entity';
+import { GeofenceEvent } from './entities/geofence-event.entity';
+import { GeofencePresence } from './entities/geofence-presence.entity';
+import { CustomerAddress } from '../customers/entities/customer-address.entity';
+import { CreateGeofenceDto } from './dto/create-geofence.dto';
+import { UpdateGeofenceDto } from './dto/update-geofence.dto';
+import { GeofenceEventFilterDto, GeofenceFilterDto } from './dto/geofence-filter.dto';
+import {
+  GeofenceEventResponseDto,
+  GeofenceResponseDto,
+  GeofenceSyncResultDto,
+} from './dto/geofence-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { GeofenceShape, GeofenceType } from './enums/geofence';
+import { GeofenceGeometry } from './utils/geofence-geometry.util';
+import type { GeofenceGeometryInput } from './interfaces/geofence.interface';
+import type { DeliveryConfig } from '../deliveries/config/delivery.config';
+
+@Injectable()
+export class GeofencesService {
+  private readonly logger = new Logger(GeofencesService.name);
+  private readonly addressRadiusMeters: number;
+
+  constructor(
+    @InjectRepository(Geofence)
+    private readonly geofenceRepository: Repository<Geofence>,
+    @InjectRepository(GeofenceEvent)
+    private readonly eventRepository: Repository<GeofenceEvent>,
+    @InjectRepository(GeofencePresence)
+    private readonly presenceRepository: Repository<GeofencePresence>,
+    @InjectRepository(CustomerAddress)
+    private readonly customerAddressRepository: Repository<CustomerAddress>,
+    configService: ConfigService,
+  ) {
+    this.addressRadiusMeters =
+      configService.getOrThrow<DeliveryConfig>('delivery').tracking.arrivalRadiusMeters;
+  }
+
+  async create(createDto: CreateGeofenceDto): Promise<GeofenceResponseDto> {
+    const geofence = this.geofenceRepository.create({
+      name: createDto.name,
+      type: createDto.type,
+      is_active: createDto.is_active ?? true,
+      ...(createDto.description !== undefined ? { description: createDto.description } : {}),
+      ...(createDto.rules ? { rules: createDto.rules } : {}),
+    });
+
+    this.applyGeometry(geofence, createDto);
+
+    const saved = await this.geofenceRepository.save(geofence);
+
+    this.logger.log(`Geofence criada: ${saved.name} (${saved.type}/${saved.shape})`);
+
+    return this.mapToResponseDto(saved);
+  }
+
+  async findAll(filterDto: GeofenceFilterDto): Promise<PaginatedResponseDto<GeofenceResponseDto>> {
+    const { page = 1, limit = 10, search, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<Geofence> = {};
+
+    if (search) {
+      where.name = ILike(`%${search}%`);
+    }
+    if (filters.type) {
+      where.type = filters.type;
+    }
+    if (filters.is_active !== undefined) {
+      where.is_active = filters.is_active;
+    }
+    if (filters.customer_address_id) {
+      where.customer_address_id = filters.customer_address_id;
+    }
+
+    const [geofences, total] = await this.geofenceRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { name: 'ASC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: geofences.map(geofence => this.mapToResponseDto(geofence)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<GeofenceResponseDto> {
+    return this.mapToResponseDto(await this.findGeofenceOrFail(id));
+  }
+
+  async update(id: string, updateDto: UpdateGeofenceDto): Promise<GeofenceResponseDto> {
+    const geofence = await this.findGeofenceOrFail(id);
+
+    if (updateDto.name !== undefined) {
+      geofence.name = updateDto.name;
+    }
+    if (updateDto.description !== undefined) {
+      geofence.description = updateDto.description;
+    }
+    if (updateDto.rules !== undefined) {
+      geofence.rules = updateDto.rules;
+    }
+    if (updateDto.is_active !== undefined) {
+      geofence.is_active = updateDto.is_active;
+    }
+
+    const geometryChanged =
+      updateDto.shape !== undefined ||
+      updateDto.center_latitude !== undefined ||
+      updateDto.center_longitude !== undefined ||
+      updateDto.radius_meters !== undefined ||
+      updateDto.vertices !== undefined;
+
+    if (geometryChanged) {
+      const shape = updateDto.shape ?? geofence.shape;
+      // Ao trocar a forma, a geometria anterior não é aproveitada
+      const current = shape === geofence.shape ? geofence : null;
+
+      this.applyGeometry(geofence, {
+        shape,
+        center_latitude: updateDto.center_latitude ?? current?.center_latitude ?? undefined,
+        center_longitude: updateDto.center_longitude ?? current?.center_longitude ?? undefined,
+        radius_meters: updateDto.radius_meters ?? current?.radius_meters ?? undefined,
+        vertices: updateDto.vertices ?? current?.vertices ?? undefined,
+      });
+    }
+
+    await this.geofenceRepository.save(geofence);
+
+    // Veículos dentro da geofence desativada ou redesenhada são reavaliados do zero
+    if (geometryChanged || !geofence.is_active) {
+      await this.presenceRepository.delete({ geofence_id: geofence.id });
+    }
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const geofence = await this.findGeofenceOrFail(id);
+
+    await this.presenceRepository.delete({ geofence_id: geofence.id });
+    await this.geofenceRepository.softRemove(geofence);
+
+    this.logger.log(`Geofence removida: ${id}`);
+  }
+
+  /**
+   * Lista eventos de entrada, saída e permanência
+   */
+  async findEvents(
+    filterDto: GeofenceEventFilterDto,
+  ): Promise<PaginatedResponseDto<GeofenceEventResponseDto>> {
+    const { page = 1, limit = 10, from, to, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<GeofenceEvent> = {};
+
+    if (filters.geofence_id) {
+      where.geofence_id = filters.geofence_id;
+    }
+    if (filters.event_type) {
+      where.event_type = filters.event_type;
+    }
+    if (filters.vehicle_id) {
+      where.vehicle_id = filters.vehicle_id;
+    }
+    if (filters.route_id) {
+      where.route_id = filters.route_id;
+    }
+    if (filters.is_violation !== undefined) {
+      where.is_violation = filters.is_violation;
+    }
+    if (from && to) {
+      where.occurred_at = Between(new Date(from), new Date(to));
+    } else if (from) {
+      where.occurred_at = MoreThanOrEqual(new Date(from));
+    } else if (to) {
+      where.occurred_at = LessThanOrEqual(new Date(to));
+    }
+
+    const [events, total] = await this.eventRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { occurred_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: events.map(event =>
+        plainToInstance(GeofenceEventResponseDto, event, { excludeExtraneousValues: true }),
+      ),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Sincroniza as geofences circulares dos endereços de clientes
+   *
+   * - Endereço ativo com coordenadas: cria a geofence (raio GEOFENCE_RADIUS) ou
+   *   atualiza o centro quando as coordenadas mudaram; o raio ajustado manualmente é mantido
+   * - Endereço inativo, sem coordenadas ou removido: desativa a geofence
+   */
+  async syncCustomerAddresses(): Promise<GeofenceSyncResultDto> {
+    const addresses = await this.customerAddressRepository.find();
+    const geofences = await this.geofenceRepository.find({
+      where: { type: GeofenceType.CUSTOMER_ADDRESS },
+    });
+    const byAddress = new Map(geofences.map(geofence => [geofence.customer_address_id, geofence]));
+    const result: GeofenceSyncResultDto = { created: 0, updated: 0, deactivated: 0 };
+
+    for (const address of addresses) {
+      const geofence = byAddress.get(address.id);
+      byAddress.delete(address.id);
+
+      const hasCoordinates =
+        address.latitude !== undefined &&
+        address.latitude !== null &&
+        address.longitude !== undefined &&
+        address.longitude !== null;
+
+      if (!address.isActive || !hasCoordinates) {
+        if (geofence?.is_active) {
+          await this.deactivate(geofence);
+          result.deactivated++;
+        }
+        continue;
+      }
+
+      const latitude = Number(address.latitude);
+      const longitude = Number(address.longitude);
+
+      if (!geofence) {
+        const created = this.geofenceRepository.create({
+          name: `${address.street}, ${address.number} - ${address.city}/${address.state}`,
+          type: GeofenceType.CUSTOMER_ADDRESS,
+          customer_address_id: address.id,
+          is_active: true,
+        });
+
+        this.applyGeometry(created, {
+          shape: GeofenceShape.CIRCLE,
+          center_latitude: latitude,
+          center_longitude: longitude,
+          radius_meters: this.addressRadiusMeters,
+        });
+
+        await this.geofenceRepository.save(created);
+        result.created++;
+        continue;
+      }
+
+      const moved =
+        geofence.shape === GeofenceShape.CIRCLE &&
+        (Number(geofence.center_latitude) !== latitude ||
+          Number(geofence.center_longitude) !== longitude);
+
+      if (!moved && geofence.is_active) {
+        continue;
+      }
+
+      if (moved) {
+        this.applyGeometry(geofence, {
+          shape: GeofenceShape.CIRCLE,
+          center_latitude: latitude,
+          center_longitude: longitude,
+          radius_meters: geofence.radius_meters ?? this.addressRadiusMeters,
+        });
+        await this.presenceRepository.delete({ geofence_id: geofence.id });
+      }
+
+      geofence.is_active = true;
+      await this.geofenceRepository.save(geofence);
+      result.updated++;
+    }
+
+    // Geofences de endereços removidos
+    for (const geofence of byAddress.values()) {
+      if (geofence.is_active) {
+        await this.deactivate(geofence);
+        result.deactivated++;
+      }
+    }
+
+    this.logger.log(
+      `Geofences de endereços sincronizadas: ${result.created} criada(s), ${result.updated} atualizada(s), ${result.deactivated} desativada(s)`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Valida a geometria e grava forma, centro/raio ou vértices e o retângulo envolvente
+   */
+  private applyGeometry(geofence: Geofence, geometry: GeofenceGeometryInput): void {
+    if (geometry.shape === GeofenceShape.CIRCLE) {
+      if (
+        geometry.center_latitude === undefined ||
+        geometry.center_longitude === undefined ||
+        geometry.radius_meters === undefined
+      ) {
+        throw new BadRequestException('Geofence circular exige centro (latitude/longitude) e raio');
+      }
+
+      geofence.shape = GeofenceShape.CIRCLE;
+      geofence.center_latitude = Number(geometry.center_latitude);
+      geofence.center_longitude = Number(geometry.center_longitude);
+      geofence.radius_meters = geometry.radius_meters;
+      geofence.vertices = null;
+    } else {
+      const vertices = GeofenceGeometry.normalizeVertices(
+        (geometry.vertices ?? []).map(vertex => ({
+          latitude: vertex.latitude,
+          longitude: vertex.longitude,
+        })),
+      );
+
+      if (vertices.length < 3) {
+        throw new BadRequestException('Polígono deve ter ao menos 3 vértices distintos');
+      }
+
+      geofence.shape = GeofenceShape.POLYGON;
+      geofence.vertices = vertices;
+      geofence.center_latitude = null;
+      geofence.center_longitude = null;
+      geofence.radius_meters = null;
+    }
+
+    geofence.bounds = GeofenceGeometry.toBox(GeofenceGeometry.calculateBounds(geofence.toArea()));
+  }
+
+  private async deactivate(geofence: Geofence): Promise<void> {
+    geofence.is_active = false;
+    await this.geofenceRepository.save(geofence);
+    await this.presenceRepository.delete({ geofence_id: geofence.id });
+  }
+
+  private async findGeofenceOrFail(id: string): Promise<Geofence> {
+    const geofence = await this.geofenceRepository.findOne({ where: { id } });
+
+    if (!geofence) {
+      throw new NotFoundException(`Geofence com ID ${id} não encontrada`);
+    }
+
+    return geofence;
+  }
+
+  private mapToResponseDto(geofence: Geofence): GeofenceResponseDto {
+    return plainToInstance(GeofenceResponseDto, geofence, {
+      excludeExtraneousValues: true,
+    });
+  }
+}
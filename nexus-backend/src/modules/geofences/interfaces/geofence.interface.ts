@@ -0,0 +1,77 @@
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+import type { GeofenceShape } from '../enums/geofence';
+
+/**
+ * Geometria de uma geofence
+ *
+ * CIRCLE usa center + radiusMeters; POLYGON usa vertices (sem repetir o primeiro
+ * vértice no final).
+ */
+export interface GeofenceArea {
+  shape: GeofenceShape;
+  center?: Coordinates | undefined;
+  radiusMeters?: number | undefined;
+  vertices?: Coordinates[] | undefined;
+}
+
+/**
+ * Geometria informada na criação/alteração da geofence (campos da API)
+ */
+export interface GeofenceGeometryInput {
+  shape: GeofenceShape;
+  center_latitude?: number | undefined;
+  center_longitude?: number | undefined;
+  radius_meters?: number | undefined;
+  vertices?: Coordinates[] | undefined;
+}
+
+/**
+ * Retângulo envolvente (bounding box) da geofence
+ */
+export interface GeofenceBounds {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/**
+ * Período em que a restrição da zona está em vigor
+ */
+export interface RestrictedZoneWindow {
+  /** Início (HH:mm) */
+  start: string;
+  /** Fim (HH:mm); fim menor que o início atravessa a meia-noite */
+  end: string;
+  /** Dias da semana (0 = domingo); ausente = todos os dias */
+  days_of_week?: number[];
+}
+
+/**
+ * Regras de uma zona de restrição
+ *
+ * Comparadas com as restrições da rota (Route.restrictions) quando o veículo
+ * entra na zona. Zona sem limite de veículo proíbe qualquer circulação no período.
+ */
+export interface RestrictedZoneRules {
+  /** Peso máximo permitido (kg) */
+  max_weight_kg?: number;
+  /** Altura máxima permitida (m) */
+  max_height_m?: number;
+  /** Largura máxima permitida (m) */
+  max_width_m?: number;
+  /** Proíbe carga perigosa */
+  hazmat_prohibited?: boolean;
+  /** Períodos em vigor; ausente = restrição permanente */
+  active_windows?: RestrictedZoneWindow[];
+}
+
+/**
+ * Regra da zona violada pela rota
+ */
+export interface RestrictedZoneViolation {
+  rule: 'max_weight_kg' | 'max_height_m' | 'max_width_m' | 'hazmat_prohibited' | 'access';
+  message: string;
+  limit?: number;
+  actual?: number;
+}
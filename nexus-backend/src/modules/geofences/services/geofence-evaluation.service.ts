@@ -0,0 +1,411 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { Geofence } from '../entities/geofence.entity';
+import { GeofenceEvent } from '../entities/geofence-event.entity';
+import { GeofencePresence } from '../entities/geofence-presence.entity';
+import { GeofenceEventType, GeofenceType } from '../enums/geofence';
+import { GeofenceGeometry } from '../utils/geofence-geometry.util';
+import { RestrictedZoneEvaluator } from '../utils/restricted-zone.util';
+import { Tracking } from '../../tracking/entities/tracking.entity';
+import type { Route } from '../../routes/entities/route.entity';
+import { RouteStop } from '../../routes/entities/route_stop.entity';
+import { RouteStopStatus } from '../../routes/enums/route-stop-status';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+import type { DeliveryConfig } from '../../deliveries/config/delivery.config';
+
+/**
+ * Status de parada que ainda aceitam chegada/saída automáticas
+ */
+const OPEN_STOP_STATUSES = [RouteStopStatus.PENDING, RouteStopStatus.IN_PROGRESS];
+
+const MS_PER_SECOND = 1000;
+
+/**
+ * Serviço de avaliação de geofences
+ *
+ * Avalia cada posição GPS contra as geofences ativas e emite eventos de entrada
+ * (ENTER), saída (EXIT) e permanência (DWELL):
+ * - Pré-filtro no banco pelo retângulo envolvente (box + GiST), teste exato na aplicação
+ * - Presença por veículo (geofence_presences) para detectar as transições
+ * - Endereço de cliente: carimba chegada/saída da parada da rota
+ * - Zona de restrição: confronta as regras da zona com Route.restrictions
+ * - Todo evento é registrado no log de auditoria
+ */
+@Injectable()
+export class GeofenceEvaluationService {
+  private readonly logger = new Logger(GeofenceEvaluationService.name);
+  private readonly dwellMs: number;
+  private readonly maxAccuracyMeters: number;
+
+  constructor(
+    @InjectRepository(Geofence)
+    private readonly geofenceRepository: Repository<Geofence>,
+    @InjectRepository(GeofenceEvent)
+    private readonly eventRepository: Repository<GeofenceEvent>,
+    @InjectRepository(GeofencePresence)
+    private readonly presenceRepository: Repository<GeofencePresence>,
+    @InjectRepository(Tracking)
+    private readonly trackingRepository: Repository<Tracking>,
+    @InjectRepository(RouteStop)
+    private readonly routeStopRepository: Repository<RouteStop>,
+    private readonly auditLogService: AuditLogService,
+    configService: ConfigService,
+  ) {
+    const { tracking } = configService.getOrThrow<DeliveryConfig>('delivery');
+    this.dwellMs = tracking.geofenceDwellMinutes * 60 * MS_PER_SECOND;
+    this.maxAccuracyMeters = tracking.geofenceMaxAccuracyMeters;
+  }
+
+  /**
+   * Avalia uma posição GPS já gravada
+   *
+   * Pings imprecisos ou recebidos fora de ordem (há posição mais recente do
+   * veículo) são ignorados para não gerar transições falsas.
+   *
+   * @returns Eventos gerados pela posição
+   */
+  async evaluatePosition(ping: Tracking, route: Route): Promise<GeofenceEvent[]> {
+    if (
+      ping.accuracy !== undefined &&
+      ping.accuracy !== null &&
+      Number(ping.accuracy) > this.maxAccuracyMeters
+    ) {
+      return [];
+    }
+
+    const hasNewerPosition = await this.trackingRepository.exists({
+      where: { vehicle_id: ping.vehicle_id, recorded_at: MoreThan(ping.recorded_at) },
+    });
+
+    if (hasNewerPosition) {
+      return [];
+    }
+
+    const point = { latitude: Number(ping.latitude), longitude: Number(ping.longitude) };
+
+    const candidates = await this.geofenceRepository
+      .createQueryBuilder('geofence')
+      .where('geofence.is_active = true')
+      .andWhere(
+        'geofence.bounds && box(point(:latitude, :longitude), point(:latitude, :longitude))',
+        point,
+      )
+      .getMany();
+
+    const inside = candidates.filter(geofence =>
+      GeofenceGeometry.contains(geofence.toArea(), point),
+    );
+    const insideIds = new Set(inside.map(geofence => geofence.id));
+
+    const presences = await this.presenceRepository.find({
+      where: { vehicle_id: ping.vehicle_id },
+      relations: ['geofence'],
+    });
+    const presentIds = new Set(presences.map(presence => presence.geofence_id));
+
+    const events: GeofenceEvent[] = [];
+
+    for (const presence of presences) {
+      const event = insideIds.has(presence.geofence_id)
+        ? await this.handleStay(presence, ping, route)
+        : await this.handleExit(presence, ping, route);
+
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    for (const geofence of inside) {
+      if (presentIds.has(geofence.id)) {
+        continue;
+      }
+
+      const event = await this.handleEnter(geofence, ping, route);
+
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Entrada: registra a presença e aplica os efeitos da finalidade da geofence
+   *
+   * A presença é única por veículo/geofence; pings concorrentes geram uma única entrada.
+   */
+  private async handleEnter(
+    geofence: Geofence,
+    ping: Tracking,
+    route: Route,
+  ): Promise<GeofenceEvent | null> {
+    const inserted = await this.presenceRepository
+      .createQueryBuilder()
+      .insert()
+      .into(GeofencePresence)
+      .values({
+        vehicle_id: ping.vehicle_id,
+        geofence_id: geofence.id,
+        route_id: route.id,
+        entered_at: ping.recorded_at,
+        last_seen_at: ping.recorded_at,
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    if ((inserted.raw as unknown[]).length === 0) {
+      return null;
+    }
+
+    const details: Partial<GeofenceEvent> = {};
+
+    if (geofence.type === GeofenceType.CUSTOMER_ADDRESS) {
+      const stop = await this.stampArrival(geofence, route, ping.recorded_at);
+
+      if (stop) {
+        details.route_stop_id = stop.id;
+      }
+    }
+
+    if (geofence.type === GeofenceType.RESTRICTED_ZONE) {
+      const violations = RestrictedZoneEvaluator.findViolations(
+        geofence.rules,
+        route.restrictions,
+        ping.recorded_at,
+      );
+
+      details.is_violation = violations.length > 0;
+
+      if (violations.length > 0) {
+        details.violations = violations;
+        this.logger.warn(
+          `Rota ${route.route_code} entrou na zona de restrição ${geofence.name}: ${violations.map(violation => violation.message).join('; ')}`,
+        );
+      }
+    }
+
+    return this.recordEvent(geofence, GeofenceEventType.ENTER, ping, route, details);
+  }
+
+  /**
+   * Permanência: atualiza a última posição e emite DWELL uma vez ao atingir o tempo configurado
+   */
+  private async handleStay(
+    presence: GeofencePresence,
+    ping: Tracking,
+    route: Route,
+  ): Promise<GeofenceEvent | null> {
+    const dwellMs = ping.recorded_at.getTime() - new Date(presence.entered_at).getTime();
+
+    if (presence.dwell_emitted || dwellMs < this.dwellMs) {
+      await this.presenceRepository.update(presence.id, { last_seen_at: ping.recorded_at });
+      return null;
+    }
+
+    const result = await this.presenceRepository.update(
+      { id: presence.id, dwell_emitted: false },
+      { last_seen_at: ping.recorded_at, dwell_emitted: true },
+    );
+
+    if (!result.affected) {
+      return null;
+    }
+
+    return this.recordEvent(presence.geofence, GeofenceEventType.DWELL, ping, route, {
+      dwell_seconds: Math.round(dwellMs / MS_PER_SECOND),
+    });
+  }
+
+  /**
+   * Saída: remove a presença e, em endereço de cliente, carimba a saída da parada
+   */
+  private async handleExit(
+    presence: GeofencePresence,
+    ping: Tracking,
+    route: Route,
+  ): Promise<GeofenceEvent | null> {
+    const result = await this.presenceRepository.delete({ id: presence.id });
+
+    // Geofence removida: a presença é descartada sem evento
+    if (!result.affected || !presence.geofence) {
+      return null;
+    }
+
+    const details: Partial<GeofenceEvent> = {
+      dwell_seconds: Math.round(
+        (ping.recorded_at.getTime() - new Date(presence.entered_at).getTime()) / MS_PER_SECOND,
+      ),
+    };
+
+    if (presence.geofence.type === GeofenceType.CUSTOMER_ADDRESS) {
+      const stop = await this.stampDeparture(
+        presence,
+        presence.route_id ?? route.id,
+        ping.recorded_at,
+      );
+
+      if (stop) {
+        details.route_stop_id = stop.id;
+      }
+    }
+
+    return this.recordEvent(presence.geofence, GeofenceEventType.EXIT, ping, route, details);
+  }
+
+  /**
+   * Carimba a chegada na próxima parada da rota naquele endereço
+   *
+   * A chegada registrada pelo motorista não é sobrescrita.
+   */
+  private async stampArrival(
+    geofence: Geofence,
+    route: Route,
+    arrivedAt: Date,
+  ): Promise<RouteStop | null> {
+    if (!geofence.customer_address_id) {
+      return null;
+    }
+
+    const stop = await this.routeStopRepository.findOne({
+      where: {
+        route_id: route.id,
+        customer_address_id: geofence.customer_address_id,
+        status: In(OPEN_STOP_STATUSES),
+        actual_arrival_time: IsNull(),
+      },
+      order: { sequence_order: 'ASC' },
+    });
+
+    if (!stop) {
+      return null;
+    }
+
+    await this.routeStopRepository.update(stop.id, { actual_arrival_time: arrivedAt });
+
+    return stop;
+  }
+
+  /**
+   * Carimba a saída da parada atendida no endereço
+   *
+   * - Parada em atendimento (check-in feito): grava saída e duração real
+   * - Parada ainda pendente sem permanência (veículo só passou pelo endereço):
+   *   desfaz a chegada carimbada na entrada
+   */
+  private async stampDeparture(
+    presence: GeofencePresence,
+    routeId: string,
+    departedAt: Date,
+  ): Promise<RouteStop | null> {
+    const addressId = presence.geofence.customer_address_id;
+
+    if (!addressId) {
+      return null;
+    }
+
+    const stop = await this.routeStopRepository.findOne({
+      where: {
+        route_id: routeId,
+        customer_address_id: addressId,
+        status: In(OPEN_STOP_STATUSES),
+        actual_arrival_time: Not(IsNull()),
+        actual_departure_time: IsNull(),
+      },
+      order: { sequence_order: 'ASC' },
+    });
+
+    if (!stop) {
+      return null;
+    }
+
+    if (stop.status === RouteStopStatus.IN_PROGRESS) {
+      stop.actual_departure_time = departedAt;
+      const duration = stop.getActualDuration();
+
+      await this.routeStopRepository.update(stop.id, {
+        actual_departure_time: departedAt,
+        ...(duration !== null ? { actual_stop_duration_minutes: duration } : {}),
+      });
+
+      return stop;
+    }
+
+    if (!presence.dwell_emitted) {
+      await this.routeStopRepository
+        .createQueryBuilder()
+        .update(RouteStop)
+        .set({ actual_arrival_time: () => 'NULL' })
+        .where('id = :id', { id: stop.id })
+        .andWhere('status = :status', { status: RouteStopStatus.PENDING })
+        .andWhere('actual_arrival_time = :enteredAt', { enteredAt: presence.entered_at })
+        .execute();
+    }
+
+    return null;
+  }
+
+  private async recordEvent(
+    geofence: Geofence,
+    eventType: GeofenceEventType,
+    ping: Tracking,
+    route: Route,
+    details: Partial<GeofenceEvent>,
+  ): Promise<GeofenceEvent> {
+    const event = await this.eventRepository.save(
+      this.eventRepository.create({
+        geofence_id: geofence.id,
+        event_type: eventType,
+        vehicle_id: ping.vehicle_id,
+        driver_id: ping.driver_id,
+        route_id: route.id,
+        tracking_point_id: ping.id,
+        latitude: ping.latitude,
+        longitude: ping.longitude,
+        occurred_at: ping.recorded_at,
+        is_violation: false,
+        ...details,
+      }),
+    );
+
+    this.logger.debug(`Geofence ${geofence.name}: ${eventType} do veículo ${ping.vehicle_id}`);
+
+    await this.audit(event, geofence, route);
+
+    return event;
+  }
+
+  private async audit(event: GeofenceEvent, geofence: Geofence, route: Route): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action: AuditAction.CREATE,
+        category: AuditCategory.ROUTE_MANAGEMENT,
+        resourceType: 'geofence_event',
+        resourceId: event.id,
+        description: event.is_violation
+          ? `Rota ${route.route_code} violou a zona de restrição ${geofence.name}`
+          : `Rota ${route.route_code}: ${event.event_type} na geofence ${geofence.name}`,
+        metadata: {
+          event_type: event.event_type,
+          geofence_id: geofence.id,
+          geofence_type: geofence.type,
+          vehicle_id: event.vehicle_id,
+          driver_id: event.driver_id,
+          route_id: route.id,
+          occurred_at: event.occurred_at.toISOString(),
+          ...(event.route_stop_id ? { route_stop_id: event.route_stop_id } : {}),
+          ...(event.dwell_seconds !== undefined ? { dwell_seconds: event.dwell_seconds } : {}),
+          ...(event.is_violation ? { violations: event.violations } : {}),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar evento de geofence ${event.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { GeofenceShape } from '../enums/geofence';
+import { GeofenceGeometry } from './geofence-geometry.util';
+
+describe('GeofenceGeometry', () => {
+  const center = { latitude: -23.55, longitude: -46.63 };
+
+  // Quadrado de ~1,1 km no centro de São Paulo
+  const square = [
+    { latitude: -23.54, longitude: -46.64 },
+    { latitude: -23.54, longitude: -46.63 },
+    { latitude: -23.55, longitude: -46.63 },
+    { latitude: -23.55, longitude: -46.64 },
+  ];
+
+  describe('distanceMeters', () => {
+    it('should measure short distances in meters', () => {
+      // 0,001° de latitude ≈ 111 m
+      expect(
+        GeofenceGeometry.distanceMeters(center, { latitude: -23.551, longitude: -46.63 }),
+      ).toBeCloseTo(111.2, 0);
+    });
+  });
+
+  describe('contains', () => {
+    it('should test circles by radius, including the border', () => {
+      const circle = { shape: GeofenceShape.CIRCLE, center, radiusMeters: 120 };
+
+      expect(GeofenceGeometry.contains(circle, { latitude: -23.551, longitude: -46.63 })).toBe(
+        true,
+      );
+      expect(GeofenceGeometry.contains(circle, { latitude: -23.552, longitude: -46.63 })).toBe(
+        false,
+      );
+    });
+
+    it('should test polygons by ray casting', () => {
+      const polygon = { shape: GeofenceShape.POLYGON, vertices: square };
+
+      expect(GeofenceGeometry.contains(polygon, { latitude: -23.545, longitude: -46.635 })).toBe(
+        true,
+      );
+      expect(GeofenceGeometry.contains(polygon, { latitude: -23.545, longitude: -46.625 })).toBe(
+        false,
+      );
+      expect(GeofenceGeometry.contains(polygon, { latitude: -23.54, longitude: -46.635 })).toBe(
+        true,
+      );
+    });
+
+    it('should handle concave polygons', () => {
+      // Formato de "U" aberto para o norte
+      const vertices = [
+        { latitude: 0, longitude: 0 },
+        { latitude: 0, longitude: 3 },
+        { latitude: 3, longitude: 3 },
+        { latitude: 3, longitude: 2 },
+        { latitude: 1, longitude: 2 },
+        { latitude: 1, longitude: 1 },
+        { latitude: 3, longitude: 1 },
+        { latitude: 3, longitude: 0 },
+      ];
+
+      expect(GeofenceGeometry.isPointInPolygon({ latitude: 2, longitude: 0.5 }, vertices)).toBe(
+        true,
+      );
+      expect(GeofenceGeometry.isPointInPolygon({ latitude: 2, longitude: 1.5 }, vertices)).toBe(
+        false,
+      );
+    });
+
+    it('should reject polygons with less than three vertices', () => {
+      expect(GeofenceGeometry.isPointInPolygon(center, square.slice(0, 2))).toBe(false);
+    });
+  });
+
+  describe('calculateBounds', () => {
+    it('should enclose the circle', () => {
+      const bounds = GeofenceGeometry.calculateBounds({
+        shape: GeofenceShape.CIRCLE,
+        center,
+        radiusMeters: 1000,
+      });
+
+      expect(bounds.maxLatitude - bounds.minLatitude).toBeCloseTo(0.018, 3);
+      // Graus de longitude encolhem com o cosseno da latitude
+      expect(bounds.maxLongitude - bounds.minLongitude).toBeGreaterThan(0.018);
+      expect(
+        GeofenceGeometry.distanceMeters(center, {
+          latitude: center.latitude,
+          longitude: bounds.maxLongitude,
+        }),
+      ).toBeCloseTo(1000, -1);
+    });
+
+    it('should use the polygon extremes and format a postgres box', () => {
+      const bounds = GeofenceGeometry.calculateBounds({
+        shape: GeofenceShape.POLYGON,
+        vertices: square,
+      });
+
+      expect(bounds).toEqual({
+        minLatitude: -23.55,
+        maxLatitude: -23.54,
+        minLongitude: -46.64,
+        maxLongitude: -46.63,
+      });
+      expect(GeofenceGeometry.toBox(bounds)).toBe('(-23.55,-46.64),(-23.54,-46.63)');
+    });
+  });
+
+  describe('normalizeVertices', () => {
+    it('should drop the closing vertex and consecutive duplicates', () => {
+      const first = square[0] ?? center;
+
+      expect(GeofenceGeometry.normalizeVertices([first, first, ...square.slice(1), first])).toEqual(
+        square,
+      );
+    });
+  });
+});
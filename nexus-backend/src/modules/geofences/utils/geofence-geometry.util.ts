@@ -0,0 +1,181 @@
+/**
+ * Geofence Geometry
+ *
+ * Testes geométricos das geofences (círculo e polígono) feitos na aplicação,
+ * sem depender de PostGIS. O banco apenas pré-filtra as candidatas pelo
+ * retângulo envolvente (coluna box com índice GiST).
+ *
+ * @module Geofences/Utils
+ */
+
+import { GeofenceShape } from '../enums/geofence';
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+import type { GeofenceArea, GeofenceBounds } from '../interfaces/geofence.interface';
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+export class GeofenceGeometry {
+  /**
+   * Distância entre dois pontos em metros (fórmula de Haversine)
+   */
+  static distanceMeters(from: Coordinates, to: Coordinates): number {
+    const dLat = this.toRadians(to.latitude - from.latitude);
+    const dLon = this.toRadians(to.longitude - from.longitude);
+
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(this.toRadians(from.latitude)) *
+        Math.cos(this.toRadians(to.latitude)) *
+        Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  /**
+   * Verifica se o ponto está dentro da geofence (borda inclusa)
+   *
+   * @example
+   * ```typescript
+   * const inside = GeofenceGeometry.contains(
+   *   { shape: GeofenceShape.CIRCLE, center: { latitude: -23.55, longitude: -46.63 }, radiusMeters: 100 },
+   *   { latitude: -23.5505, longitude: -46.6305 },
+   * );
+   * ```
+   */
+  static contains(area: GeofenceArea, point: Coordinates): boolean {
+    if (area.shape === GeofenceShape.CIRCLE) {
+      if (!area.center || area.radiusMeters === undefined) {
+        return false;
+      }
+
+      return this.distanceMeters(area.center, point) <= area.radiusMeters;
+    }
+
+    return this.isPointInPolygon(point, area.vertices ?? []);
+  }
+
+  /**
+   * Ray casting: conta quantas arestas o raio horizontal a partir do ponto cruza
+   *
+   * Longitude é tratada como eixo x e latitude como eixo y; adequado para
+   * polígonos urbanos que não cruzam o antimeridiano.
+   */
+  static isPointInPolygon(point: Coordinates, vertices: Coordinates[]): boolean {
+    if (vertices.length < 3) {
+      return false;
+    }
+
+    let inside = false;
+
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const current = vertices[i];
+      const previous = vertices[j];
+
+      if (!current || !previous) {
+        continue;
+      }
+
+      if (this.isOnSegment(point, previous, current)) {
+        return true;
+      }
+
+      const crosses =
+        current.latitude > point.latitude !== previous.latitude > point.latitude &&
+        point.longitude <
+          ((previous.longitude - current.longitude) * (point.latitude - current.latitude)) /
+            (previous.latitude - current.latitude) +
+            current.longitude;
+
+      if (crosses) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  /**
+   * Retângulo envolvente da geofence, usado no pré-filtro do banco
+   */
+  static calculateBounds(area: GeofenceArea): GeofenceBounds {
+    if (area.shape === GeofenceShape.CIRCLE && area.center && area.radiusMeters !== undefined) {
+      const latitudeDelta = area.radiusMeters / METERS_PER_DEGREE_LATITUDE;
+      const longitudeDelta =
+        area.radiusMeters /
+        (METERS_PER_DEGREE_LATITUDE *
+          Math.max(Math.cos(this.toRadians(area.center.latitude)), 0.01));
+
+      return {
+        minLatitude: area.center.latitude - latitudeDelta,
+        maxLatitude: area.center.latitude + latitudeDelta,
+        minLongitude: area.center.longitude - longitudeDelta,
+        maxLongitude: area.center.longitude + longitudeDelta,
+      };
+    }
+
+    const vertices = area.vertices ?? [];
+    const latitudes = vertices.map(vertex => vertex.latitude);
+    const longitudes = vertices.map(vertex => vertex.longitude);
+
+    return {
+      minLatitude: Math.min(...latitudes),
+      maxLatitude: Math.max(...latitudes),
+      minLongitude: Math.min(...longitudes),
+      maxLongitude: Math.max(...longitudes),
+    };
+  }
+
+  /**
+   * Formata o retângulo envolvente para o tipo box do PostgreSQL
+   *
+   * Segue a convenção das colunas point do projeto: x = latitude, y = longitude.
+   */
+  static toBox(bounds: GeofenceBounds): string {
+    return `(${bounds.minLatitude},${bounds.minLongitude}),(${bounds.maxLatitude},${bounds.maxLongitude})`;
+  }
+
+  /**
+   * Remove o vértice de fechamento repetido e vértices consecutivos duplicados
+   */
+  static normalizeVertices(vertices: Coordinates[]): Coordinates[] {
+    const normalized = vertices.filter((vertex, index) => {
+      const previous = vertices[index - 1];
+      return !previous || !this.isSamePoint(previous, vertex);
+    });
+
+    const first = normalized[0];
+    const last = normalized[normalized.length - 1];
+
+    if (normalized.length > 1 && first && last && this.isSamePoint(first, last)) {
+      normalized.pop();
+    }
+
+    return normalized;
+  }
+
+  private static isOnSegment(point: Coordinates, start: Coordinates, end: Coordinates): boolean {
+    const cross =
+      (point.latitude - start.latitude) * (end.longitude - start.longitude) -
+      (point.longitude - start.longitude) * (end.latitude - start.latitude);
+
+    if (Math.abs(cross) > 1e-12) {
+      return false;
+    }
+
+    return (
+      point.latitude >= Math.min(start.latitude, end.latitude) &&
+      point.latitude <= Math.max(start.latitude, end.latitude) &&
+      point.longitude >= Math.min(start.longitude, end.longitude) &&
+      point.longitude <= Math.max(start.longitude, end.longitude)
+    );
+  }
+
+  private static isSamePoint(a: Coordinates, b: Coordinates): boolean {
+    return a.latitude === b.latitude && a.longitude === b.longitude;
+  }
+
+  private static toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+}
@@ -0,0 +1,85 @@
+import { RestrictedZoneEvaluator } from './restricted-zone.util';
+
+describe('RestrictedZoneEvaluator', () => {
+  // Segunda-feira, 10:00 no horário local
+  const monday = new Date(2024, 0, 15, 10, 0);
+
+  describe('findViolations', () => {
+    it('should flag routes above the zone vehicle limits', () => {
+      const violations = RestrictedZoneEvaluator.findViolations(
+        { max_weight_kg: 6000, max_height_m: 4 },
+        { weight_limit_kg: 12000, height_limit_m: 3.5 },
+        monday,
+      );
+
+      expect(violations).toEqual([
+        { rule: 'max_weight_kg', message: 'Peso acima do permitido', limit: 6000, actual: 12000 },
+      ]);
+    });
+
+    it('should flag hazmat routes in zones that prohibit it', () => {
+      expect(
+        RestrictedZoneEvaluator.findViolations(
+          { hazmat_prohibited: true },
+          { hazmat_allowed: true },
+          monday,
+        ).map(violation => violation.rule),
+      ).toEqual(['hazmat_prohibited']);
+
+      expect(
+        RestrictedZoneEvaluator.findViolations(
+          { hazmat_prohibited: true },
+          { hazmat_allowed: false },
+          monday,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should not flag limits the route does not declare', () => {
+      expect(RestrictedZoneEvaluator.findViolations({ max_weight_kg: 6000 }, {}, monday)).toEqual(
+        [],
+      );
+    });
+
+    it('should forbid any access in zones without vehicle limits', () => {
+      expect(
+        RestrictedZoneEvaluator.findViolations(undefined, undefined, monday).map(
+          violation => violation.rule,
+        ),
+      ).toEqual(['access']);
+    });
+
+    it('should ignore the zone outside its active windows', () => {
+      const rules = {
+        max_weight_kg: 6000,
+        active_windows: [{ start: '16:00', end: '20:00' }],
+      };
+
+      expect(
+        RestrictedZoneEvaluator.findViolations(rules, { weight_limit_kg: 12000 }, monday),
+      ).toEqual([]);
+    });
+  });
+
+  describe('isInForce', () => {
+    it('should be permanent without windows', () => {
+      expect(RestrictedZoneEvaluator.isInForce(undefined, monday)).toBe(true);
+    });
+
+    it('should respect the days of the week', () => {
+      const weekdays = [{ start: '05:00', end: '21:00', days_of_week: [1, 2, 3, 4, 5] }];
+
+      expect(RestrictedZoneEvaluator.isInForce(weekdays, monday)).toBe(true);
+      expect(RestrictedZoneEvaluator.isInForce(weekdays, new Date(2024, 0, 14, 10, 0))).toBe(false);
+    });
+
+    it('should handle windows that cross midnight', () => {
+      const night = [{ start: '22:00', end: '06:00', days_of_week: [1] }];
+
+      expect(RestrictedZoneEvaluator.isInForce(night, new Date(2024, 0, 15, 23, 0))).toBe(true);
+      // Terça 02:00 ainda pertence ao período iniciado na segunda
+      expect(RestrictedZoneEvaluator.isInForce(night, new Date(2024, 0, 16, 2, 0))).toBe(true);
+      expect(RestrictedZoneEvaluator.isInForce(night, new Date(2024, 0, 15, 2, 0))).toBe(false);
+    });
+  });
+});
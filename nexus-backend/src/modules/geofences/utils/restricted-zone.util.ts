@@ -0,0 +1,121 @@
+/**
+ * Restricted Zone Evaluator
+ *
+ * Confronta as regras de uma zona de restrição com as restrições da rota
+ * (Route.restrictions) no momento em que o veículo entra na zona.
+ *
+ * @module Geofences/Utils
+ */
+
+import { DateTimeUtils } from '../../routes/utils/date-time.util';
+import type { Route } from '../../routes/entities/route.entity';
+import type {
+  RestrictedZoneRules,
+  RestrictedZoneViolation,
+  RestrictedZoneWindow,
+} from '../interfaces/geofence.interface';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export class RestrictedZoneEvaluator {
+  /**
+   * Regras violadas pela rota ao entrar na zona
+   *
+   * - Fora dos períodos em vigor (active_windows) nada é violado
+   * - Limites de peso/altura/largura são comparados com os da rota
+   * - hazmat_prohibited é violado por rota que admite carga perigosa
+   * - Zona sem limite de veículo proíbe qualquer acesso no período
+   *
+   * Limite sem o dado correspondente na rota não é considerado violado.
+   */
+  static findViolations(
+    rules: RestrictedZoneRules | undefined,
+    restrictions: Route['restrictions'],
+    at: Date,
+  ): RestrictedZoneViolation[] {
+    const zone = rules ?? {};
+
+    if (!this.isInForce(zone.active_windows, at)) {
+      return [];
+    }
+
+    const hasVehicleLimits =
+      zone.max_weight_kg !== undefined ||
+      zone.max_height_m !== undefined ||
+      zone.max_width_m !== undefined ||
+      zone.hazmat_prohibited === true;
+
+    if (!hasVehicleLimits) {
+      return [{ rule: 'access', message: 'Circulação proibida na zona neste horário' }];
+    }
+
+    const violations: RestrictedZoneViolation[] = [];
+
+    const limits: [
+      RestrictedZoneViolation['rule'],
+      number | undefined,
+      number | undefined,
+      string,
+    ][] = [
+      [
+        'max_weight_kg',
+        zone.max_weight_kg,
+        restrictions?.weight_limit_kg,
+        'Peso acima do permitido',
+      ],
+      [
+        'max_height_m',
+        zone.max_height_m,
+        restrictions?.height_limit_m,
+        'Altura acima da permitida',
+      ],
+      ['max_width_m', zone.max_width_m, restrictions?.width_limit_m, 'Largura acima da permitida'],
+    ];
+
+    for (const [rule, limit, actual, message] of limits) {
+      if (limit !== undefined && actual !== undefined && actual > limit) {
+        violations.push({ rule, message, limit, actual });
+      }
+    }
+
+    if (zone.hazmat_prohibited === true && restrictions?.hazmat_allowed === true) {
+      violations.push({
+        rule: 'hazmat_prohibited',
+        message: 'Carga perigosa proibida na zona',
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Verifica se a restrição está em vigor no instante informado
+   *
+   * Período que atravessa a meia-noite pertence ao dia em que começa.
+   */
+  static isInForce(windows: RestrictedZoneWindow[] | undefined, at: Date): boolean {
+    if (!windows || windows.length === 0) {
+      return true;
+    }
+
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const day = at.getDay();
+    const previousDay = (day + 6) % 7;
+
+    return windows.some(window => {
+      const start = DateTimeUtils.timeToMinutes(window.start);
+      const end = DateTimeUtils.timeToMinutes(window.end);
+      const appliesOn = (weekday: number): boolean =>
+        !window.days_of_week || window.days_of_week.includes(weekday);
+
+      if (start <= end) {
+        return appliesOn(day) && minutes >= start && minutes < end;
+      }
+
+      return (
+        (appliesOn(day) && minutes >= start && minutes < MINUTES_PER_DAY) ||
+        (appliesOn(previousDay) && minutes < end)
+      );
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { IsEnum, IsOptional, IsString, Length } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IncidentStatus } from '../enums/incident-status.enum';
+
+/**
+ * DTO para alterar o status de um incidente
+ */
+export class ChangeIncidentStatusDto {
+  @ApiProperty({
+    description: 'Novo status do incidente',
+    enum: IncidentStatus,
+    example: IncidentStatus.ACKNOWLEDGED,
+  })
+  @IsEnum(IncidentStatus, {
+    message: 'Status deve ser um valor válido: OPEN, ACKNOWLEDGED, IN_PROGRESS, RESOLVED, CLOSED',
+  })
+  new_status!: IncidentStatus;
+
+  @ApiPropertyOptional({
+    description: 'Observações da transição (obrigatórias ao resolver)',
+    example: 'Veículo rebocado e carga transferida',
+    maxLength: 2000,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  notes?: string;
+}
@@ -0,0 +1,23 @@
+import { IntersectionType, PartialType, PickType } from '@nestjs/mapped-types';
+import { CreateIncidentDto } from './create-incident.dto';
+
+/**
+ * DTO para converter um alerta de rota em incidente
+ *
+ * Rota, veículo, motorista, posição e data/hora vêm do alerta; o título padrão
+ * é a descrição da condição detectada
+ */
+export class CreateIncidentFromRouteAlertDto extends IntersectionType(
+  PickType(CreateIncidentDto, ['type'] as const),
+  PartialType(
+    PickType(CreateIncidentDto, [
+      'title',
+      'description',
+      'severity',
+      'photos',
+      'delivery_ids',
+      'pause_route',
+      'mark_deliveries_at_risk',
+    ] as const),
+  ),
+) {}
@@ -1 +1,163 @@
-export class CreateIncidentDto {}
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  IsNumber,
+  IsBoolean,
+  IsArray,
+  IsUrl,
+  Length,
+  Min,
+  Max,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IncidentType } from '../enums/incident-type.enum';
+import { IncidentSeverity } from '../enums/incident-severity.enum';
+
+/**
+ * DTO para reportar incidente
+ */
+export class CreateIncidentDto {
+  @ApiProperty({
+    description: 'Título resumido do incidente',
+    example: 'Pneu furado na BR-277',
+    minLength: 3,
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(3, 255)
+  title!: string;
+
+  @ApiPropertyOptional({
+    description: 'Descrição detalhada do incidente',
+    example: 'Pneu traseiro direito furou, aguardando socorro',
+    maxLength: 2000,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Tipo do incidente',
+    enum: IncidentType,
+    example: IncidentType.BREAKDOWN,
+  })
+  @IsEnum(IncidentType, {
+    message:
+      'Tipo deve ser um valor válido: ACCIDENT, BREAKDOWN, THEFT, CARGO_DAMAGE, ROAD_BLOCKAGE, CUSTOMER_AGGRESSION',
+  })
+  type!: IncidentType;
+
+  @ApiPropertyOptional({
+    description: 'Severidade do incidente',
+    enum: IncidentSeverity,
+    example: IncidentSeverity.MEDIUM,
+    default: IncidentSeverity.MEDIUM,
+  })
+  @IsOptional()
+  @IsEnum(IncidentSeverity, {
+    message: 'Severidade deve ser um valor válido: LOW, MEDIUM, HIGH, CRITICAL',
+  })
+  severity?: IncidentSeverity;
+
+  @ApiPropertyOptional({ description: 'Latitude da ocorrência', example: -25.4284 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude da ocorrência', example: -49.2733 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({
+    description: 'Endereço/referência da ocorrência',
+    example: 'BR-277, km 85, sentido litoral',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 500)
+  address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Data/hora da ocorrência (padrão: agora)',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  occurred_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'URLs das fotos da ocorrência',
+    example: ['https://cdn.nexustransit.com/incidents/foto1.jpg'],
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUrl({}, { each: true })
+  photos?: string[];
+
+  @ApiPropertyOptional({
+    description: 'ID da rota afetada',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID()
+  route_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID do veículo envolvido (padrão: veículo da rota)',
+    example: '16586204-b498-48f5-923c-6821bc040266',
+  })
+  @IsOptional()
+  @IsUUID()
+  vehicle_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID do motorista envolvido (padrão: motorista da rota)',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'IDs das entregas afetadas',
+    example: ['123e4567-e89b-12d3-a456-426614174002'],
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  delivery_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Pausar a rota se estiver em andamento',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  pause_route?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Marcar as entregas ativas da rota como em risco',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  mark_deliveries_at_risk?: boolean;
+}
@@ -0,0 +1,41 @@
+import { IsOptional, IsEnum, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { IncidentStatus } from '../enums/incident-status.enum';
+import { IncidentType } from '../enums/incident-type.enum';
+import { IncidentSeverity } from '../enums/incident-severity.enum';
+
+/**
+ * DTO para filtrar incidentes
+ */
+export class IncidentFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por status', enum: IncidentStatus })
+  @IsOptional()
+  @IsEnum(IncidentStatus)
+  status?: IncidentStatus;
+
+  @ApiPropertyOptional({ description: 'Filtrar por tipo', enum: IncidentType })
+  @IsOptional()
+  @IsEnum(IncidentType)
+  type?: IncidentType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por severidade', enum: IncidentSeverity })
+  @IsOptional()
+  @IsEnum(IncidentSeverity)
+  severity?: IncidentSeverity;
+
+  @ApiPropertyOptional({ description: 'Filtrar por rota (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  route_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por veículo (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  vehicle_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por motorista (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
+}
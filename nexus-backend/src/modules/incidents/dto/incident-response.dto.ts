@@ -0,0 +1,133 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform, Type } from 'class-transformer';
+import { IncidentStatus } from '../enums/incident-status.enum';
+import { IncidentType } from '../enums/incident-type.enum';
+import { IncidentSeverity } from '../enums/incident-severity.enum';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+
+/**
+ * DTO básico da entrega afetada
+ */
+export class IncidentDeliveryDto {
+  @ApiProperty({
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Código de rastreamento', example: 'NXT-20240115-00001' })
+  @Expose()
+  tracking_code!: string;
+
+  @ApiProperty({ description: 'Status da entrega', enum: DeliveryStatus })
+  @Expose()
+  status!: DeliveryStatus;
+}
+
+/**
+ * DTO de resposta de incidente
+ */
+export class IncidentResponseDto {
+  @ApiProperty({
+    description: 'ID do incidente',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Título', example: 'Pneu furado na BR-277' })
+  @Expose()
+  title!: string;
+
+  @ApiPropertyOptional({ description: 'Descrição detalhada' })
+  @Expose()
+  description?: string;
+
+  @ApiProperty({ description: 'Tipo', enum: IncidentType })
+  @Expose()
+  type!: IncidentType;
+
+  @ApiProperty({ description: 'Severidade', enum: IncidentSeverity })
+  @Expose()
+  severity!: IncidentSeverity;
+
+  @ApiProperty({ description: 'Status', enum: IncidentStatus })
+  @Expose()
+  status!: IncidentStatus;
+
+  @ApiPropertyOptional({ description: 'Latitude', example: -25.4284 })
+  @Expose()
+  @Transform(({ value }: { value: unknown }) =>
+    value === null || value === undefined ? undefined : Number(value),
+  )
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude', example: -49.2733 })
+  @Expose()
+  @Transform(({ value }: { value: unknown }) =>
+    value === null || value === undefined ? undefined : Number(value),
+  )
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'Endereço/referência' })
+  @Expose()
+  address?: string;
+
+  @ApiProperty({ description: 'Data/hora da ocorrência' })
+  @Expose()
+  occurred_at!: Date;
+
+  @ApiPropertyOptional({ description: 'URLs das fotos', isArray: true, type: String })
+  @Expose()
+  photos?: string[];
+
+  @ApiPropertyOptional({ description: 'ID da rota afetada' })
+  @Expose()
+  route_id?: string;
+
+  @ApiPropertyOptional({ description: 'ID do veículo envolvido' })
+  @Expose()
+  vehicle_id?: string;
+
+  @ApiPropertyOptional({ description: 'ID do motorista envolvido' })
+  @Expose()
+  driver_id?: string;
+
+  @ApiPropertyOptional({ description: 'Entregas afetadas', type: [IncidentDeliveryDto] })
+  @Expose()
+  @Type(() => IncidentDeliveryDto)
+  deliveries?: IncidentDeliveryDto[];
+
+  @ApiProperty({ description: 'Rota pausada em razão do incidente', example: false })
+  @Expose()
+  route_paused!: boolean;
+
+  @ApiPropertyOptional({ description: 'ID do usuário que reportou' })
+  @Expose()
+  reported_by?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora do reconhecimento' })
+  @Expose()
+  acknowledged_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora da resolução' })
+  @Expose()
+  resolved_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Notas da resolução' })
+  @Expose()
+  resolution_notes?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora do encerramento' })
+  @Expose()
+  closed_at?: Date;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
@@ -1,4 +1,18 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateIncidentDto } from './create-incident.dto';
 
-export class UpdateIncidentDto extends PartialType(CreateIncidentDto) {}
+/**
+ * DTO para atualizar dados descritivos do incidente
+ *
+ * Status, vínculos operacionais e efeitos colaterais (pausa de rota, entregas em risco)
+ * não são alterados por aqui
+ */
+export class UpdateIncidentDto extends PartialType(
+  OmitType(CreateIncidentDto, [
+    'route_id',
+    'vehicle_id',
+    'driver_id',
+    'pause_route',
+    'mark_deliveries_at_risk',
+  ] as const),
+) {}
@@ -1 +1,239 @@
-export class Incident {}
+import { Entity, Column, ManyToOne, ManyToMany, JoinTable, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Auditable } from '../../vehicles/decorators/auditable.decorator';
+import { IncidentStatus, SettledIncidentStatuses } from '../enums/incident-status.enum';
+import { IncidentType } from '../enums/incident-type.enum';
+import { IncidentSeverity } from '../enums/incident-severity.enum';
+import { Route } from '../../routes/entities/route.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+
+/**
+ * Incident Entity - Ocorrências operacionais
+ *
+ * Features:
+ * - Classificação por tipo e severidade
+ * - Geolocalização e fotos da ocorrência
+ * - Vínculo com rota, veículo, motorista e entregas afetadas
+ * - Fluxo de status (OPEN → ACKNOWLEDGED → IN_PROGRESS → RESOLVED/CLOSED)
+ */
+@Entity('incidents')
+@Index(['status'])
+@Index(['type'])
+@Index(['severity'])
+@Index(['route_id'])
+@Index(['vehicle_id'])
+@Index(['driver_id'])
+@Index(['occurred_at'])
+@Auditable({
+  trackCreation: true,
+  trackUpdates: true,
+  trackDeletion: true,
+  excludeFields: ['updated_at', 'created_at'],
+  entityDisplayName: 'Incidente',
+})
+export class Incident extends BaseEntity {
+  // Identificação
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Título resumido do incidente',
+  })
+  title!: string;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Descrição detalhada do incidente',
+  })
+  description?: string;
+
+  // Classificação
+  @Column({
+    type: 'enum',
+    enum: IncidentType,
+    comment: 'Tipo do incidente',
+  })
+  type!: IncidentType;
+
+  @Column({
+    type: 'enum',
+    enum: IncidentSeverity,
+    default: IncidentSeverity.MEDIUM,
+    comment: 'Severidade do incidente',
+  })
+  severity!: IncidentSeverity;
+
+  @Column({
+    type: 'enum',
+    enum: IncidentStatus,
+    default: IncidentStatus.OPEN,
+    comment: 'Status atual do incidente',
+  })
+  status!: IncidentStatus;
+
+  // Localização
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    nullable: true,
+    comment: 'Latitude da ocorrência',
+  })
+  latitude?: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    nullable: true,
+    comment: 'Longitude da ocorrência',
+  })
+  longitude?: number;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    comment: 'Endereço/referência da ocorrência',
+  })
+  address?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da ocorrência',
+  })
+  occurred_at!: Date;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'URLs das fotos da ocorrência',
+  })
+  photos?: string[];
+
+  // Relacionamento com Rota
+  @ManyToOne(() => Route, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'route_id' })
+  route?: Route;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da rota afetada',
+  })
+  route_id?: string;
+
+  // Relacionamento com Veículo
+  @ManyToOne(() => Vehicle, vehicle => vehicle.incidents, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'vehicle_id' })
+  vehicle?: Vehicle;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do veículo envolvido',
+  })
+  vehicle_id?: string;
+
+  // Relacionamento com Motorista
+  @ManyToOne(() => Driver, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'driver_id' })
+  driver?: Driver;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do motorista envolvido',
+  })
+  driver_id?: string;
+
+  // Entregas afetadas
+  @ManyToMany(() => Delivery)
+  @JoinTable({
+    name: 'incident_deliveries',
+    joinColumn: { name: 'incident_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'delivery_id', referencedColumnName: 'id' },
+  })
+  deliveries?: Delivery[];
+
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: 'Indica se a rota foi pausada em razão do incidente',
+  })
+  route_paused!: boolean;
+
+  // Tratativa
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que reportou',
+  })
+  reported_by?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do reconhecimento',
+  })
+  acknowledged_at?: Date;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que reconheceu',
+  })
+  acknowledged_by?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da resolução',
+  })
+  resolved_at?: Date;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que resolveu',
+  })
+  resolved_by?: string;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Notas da resolução',
+  })
+  resolution_notes?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do encerramento',
+  })
+  closed_at?: Date;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Histórico de transições de status',
+  })
+  status_history?: {
+    from_status: IncidentStatus;
+    to_status: IncidentStatus;
+    changed_at: Date;
+    changed_by?: string;
+    notes?: string;
+  }[];
+
+  // Métodos auxiliares
+
+  /**
+   * Verifica se o incidente ainda impacta a operação
+   */
+  isActive(): boolean {
+    return !SettledIncidentStatuses.includes(this.status);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Enum para severidade de incidente
+ * Determina a urgência do tratamento
+ */
+export enum IncidentSeverity {
+  /** Sem impacto relevante na operação */
+  LOW = 'LOW',
+
+  /** Impacto moderado, pode gerar atrasos */
+  MEDIUM = 'MEDIUM',
+
+  /** Impacto alto, compromete entregas */
+  HIGH = 'HIGH',
+
+  /** Risco à integridade de pessoas ou carga */
+  CRITICAL = 'CRITICAL',
+}
+
+/**
+ * Descrições das severidades para exibição em UI
+ */
+export const IncidentSeverityDescriptions: Record<IncidentSeverity, string> = {
+  [IncidentSeverity.LOW]: 'Baixa',
+  [IncidentSeverity.MEDIUM]: 'Média',
+  [IncidentSeverity.HIGH]: 'Alta',
+  [IncidentSeverity.CRITICAL]: 'Crítica',
+};
@@ -0,0 +1,52 @@
+/**
+ * Enum para status de incidente
+ * Define o fluxo de tratamento de um incidente, do registro ao encerramento
+ */
+export enum IncidentStatus {
+  /** Incidente registrado, aguardando triagem */
+  OPEN = 'OPEN',
+
+  /** Incidente reconhecido pela operação */
+  ACKNOWLEDGED = 'ACKNOWLEDGED',
+
+  /** Tratativa em andamento */
+  IN_PROGRESS = 'IN_PROGRESS',
+
+  /** Incidente resolvido */
+  RESOLVED = 'RESOLVED',
+
+  /** Incidente encerrado */
+  CLOSED = 'CLOSED',
+}
+
+/**
+ * Descrições dos status para exibição em UI
+ */
+export const IncidentStatusDescriptions: Record<IncidentStatus, string> = {
+  [IncidentStatus.OPEN]: 'Aberto',
+  [IncidentStatus.ACKNOWLEDGED]: 'Reconhecido',
+  [IncidentStatus.IN_PROGRESS]: 'Em tratamento',
+  [IncidentStatus.RESOLVED]: 'Resolvido',
+  [IncidentStatus.CLOSED]: 'Encerrado',
+};
+
+/**
+ * Transições válidas entre status
+ * Controla o fluxo de trabalho para evitar transições inválidas
+ */
+export const IncidentStatusTransitions: Record<IncidentStatus, IncidentStatus[]> = {
+  [IncidentStatus.OPEN]: [IncidentStatus.ACKNOWLEDGED, IncidentStatus.CLOSED],
+  [IncidentStatus.ACKNOWLEDGED]: [
+    IncidentStatus.IN_PROGRESS,
+    IncidentStatus.RESOLVED,
+    IncidentStatus.CLOSED,
+  ],
+  [IncidentStatus.IN_PROGRESS]: [IncidentStatus.RESOLVED, IncidentStatus.CLOSED],
+  [IncidentStatus.RESOLVED]: [IncidentStatus.CLOSED, IncidentStatus.IN_PROGRESS], // Reabertura
+  [IncidentStatus.CLOSED]: [], // Status final
+};
+
+/**
+ * Status que encerram o impacto operacional do incidente
+ */
+export const SettledIncidentStatuses = [IncidentStatus.RESOLVED, IncidentStatus.CLOSED];
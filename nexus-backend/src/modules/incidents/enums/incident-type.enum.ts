@@ -0,0 +1,35 @@
+/**
+ * Enum para tipos de incidente
+ * Classifica as ocorrências reportadas durante a operação
+ */
+export enum IncidentType {
+  /** Acidente de trânsito */
+  ACCIDENT = 'ACCIDENT',
+
+  /** Pane mecânica ou elétrica do veículo */
+  BREAKDOWN = 'BREAKDOWN',
+
+  /** Roubo ou furto de carga/veículo */
+  THEFT = 'THEFT',
+
+  /** Avaria na carga */
+  CARGO_DAMAGE = 'CARGO_DAMAGE',
+
+  /** Bloqueio de via */
+  ROAD_BLOCKAGE = 'ROAD_BLOCKAGE',
+
+  /** Agressão por parte de cliente/destinatário */
+  CUSTOMER_AGGRESSION = 'CUSTOMER_AGGRESSION',
+}
+
+/**
+ * Descrições dos tipos para exibição em UI
+ */
+export const IncidentTypeDescriptions: Record<IncidentType, string> = {
+  [IncidentType.ACCIDENT]: 'Acidente',
+  [IncidentType.BREAKDOWN]: 'Pane do veículo',
+  [IncidentType.THEFT]: 'Roubo/Furto',
+  [IncidentType.CARGO_DAMAGE]: 'Avaria na carga',
+  [IncidentType.ROAD_BLOCKAGE]: 'Bloqueio de via',
+  [IncidentType.CUSTOMER_AGGRESSION]: 'Agressão de cliente',
+};
@@ -1,35 +1,238 @@
-/* eslint-disable @typescript-eslint/explicit-module-boundary-types */
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
 import { IncidentsService } from './incidents.service';
 import { CreateIncidentDto } from './dto/create-incident.dto';
+import { CreateIncidentFromRouteAlertDto } from './dto/create-incident-from-route-alert.dto';
 import { UpdateIncidentDto } from './dto/update-incident.dto';
+import { ChangeIncidentStatusDto } from './dto/change-incident-status.dto';
+import { IncidentFilterDto } from './dto/incident-filter.dto';
+import { IncidentResponseDto } from './dto/incident-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
 
+/**
+ * Controller de incidentes
+ *
+ * Gerencia o ciclo de vida das ocorrências operacionais:
+ * - Registro (com pausa opcional da rota e entregas em risco)
+ * - Triagem e tratativa via transições de status
+ * - Consulta e filtros
+ */
+@ApiTags('Incidents')
 @Controller('incidents')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiForbiddenResponse({ description: 'Usuário sem permissão' })
 export class IncidentsController {
   constructor(private readonly incidentsService: IncidentsService) {}
 
   @Post()
-  create(@Body() createIncidentDto: CreateIncidentDto) {
-    return this.incidentsService.create(createIncidentDto);
+  @RequirePermissions('incidents:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Reportar incidente',
+    description:
+      'Registra um incidente vinculado a rota, veículo, motorista e entregas. Pode pausar a rota em andamento e marcar as entregas como em risco',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Incidente registrado com sucesso',
+    type: IncidentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos ou entregas não encontradas',
+  })
+  @ApiNotFoundResponse({
+    description: 'Rota não encontrada',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async create(@Body() createDto: CreateIncidentDto): Promise<IncidentResponseDto> {
+    return this.incidentsService.create(createDto);
+  }
+
+  @Post('from-route-alert/:alertId')
+  @RequirePermissions('incidents:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Converter alerta de rota em incidente',
+    description:
+      'Registra um incidente a partir de um alerta de desvio, parada não prevista ou velocidade. Rota, veículo, motorista, posição e horário vêm do alerta, que é vinculado ao incidente',
+  })
+  @ApiParam({
+    name: 'alertId',
+    description: 'ID do alerta de rota',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Incidente registrado com sucesso',
+    type: IncidentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos ou alerta já convertido em incidente',
+  })
+  @ApiNotFoundResponse({
+    description: 'Alerta de rota não encontrado',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async createFromRouteAlert(
+    @Param('alertId', ParseUUIDPipe) alertId: string,
+    @Body() createDto: CreateIncidentFromRouteAlertDto,
+  ): Promise<IncidentResponseDto> {
+    return this.incidentsService.createFromRouteAlert(alertId, createDto);
   }
 
   @Get()
-  findAll() {
-    return this.incidentsService.findAll();
+  @RequirePermissions('incidents:read')
+  @ApiOperation({
+    summary: 'Listar incidentes',
+    description: 'Lista incidentes com filtros por status, tipo, severidade e vínculos',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de incidentes retornada com sucesso',
+    type: PaginatedResponseDto<IncidentResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: IncidentFilterDto,
+  ): Promise<PaginatedResponseDto<IncidentResponseDto>> {
+    return this.incidentsService.findAll(filterDto);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.incidentsService.findOne(+id);
+  @RequirePermissions('incidents:read')
+  @ApiOperation({
+    summary: 'Buscar incidente por ID',
+    description: 'Retorna os detalhes de um incidente e suas entregas afetadas',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do incidente',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Incidente encontrado com sucesso',
+    type: IncidentResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Incidente não encontrado',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<IncidentResponseDto> {
+    return this.incidentsService.findOne(id);
   }
 
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateIncidentDto: UpdateIncidentDto) {
-    return this.incidentsService.update(+id, updateIncidentDto);
+  @RequirePermissions('incidents:update')
+  @ApiOperation({
+    summary: 'Atualizar incidente',
+    description: 'Atualiza os dados descritivos de um incidente não encerrado',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do incidente',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Incidente atualizado com sucesso',
+    type: IncidentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos ou incidente encerrado',
+  })
+  @ApiNotFoundResponse({
+    description: 'Incidente não encontrado',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateIncidentDto,
+  ): Promise<IncidentResponseDto> {
+    return this.incidentsService.update(id, updateDto);
+  }
+
+  @Patch(':id/status')
+  @RequirePermissions('incidents:update')
+  @ApiOperation({
+    summary: 'Alterar status do incidente',
+    description:
+      'Altera o status com validação de transições (OPEN → ACKNOWLEDGED → IN_PROGRESS → RESOLVED/CLOSED)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do incidente',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Status alterado com sucesso',
+    type: IncidentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Transição de status inválida',
+  })
+  @ApiNotFoundResponse({
+    description: 'Incidente não encontrado',
+  })
+  async changeStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() changeDto: ChangeIncidentStatusDto,
+  ): Promise<IncidentResponseDto> {
+    return this.incidentsService.changeStatus(id, changeDto);
   }
 
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.incidentsService.remove(+id);
+  @RequirePermissions('incidents:delete')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remover incidente',
+    description: 'Remove um incidente resolvido ou encerrado (soft delete)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do incidente',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Incidente removido com sucesso',
+  })
+  @ApiBadRequestResponse({
+    description: 'Incidente ainda ativo',
+  })
+  @ApiNotFoundResponse({
+    description: 'Incidente não encontrado',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.incidentsService.remove(id);
   }
 }
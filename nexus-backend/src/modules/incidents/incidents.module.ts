@@ -3,9 +3,19 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { IncidentsService } from './incidents.service';
 import { IncidentsController } from './incidents.controller';
 import { Incident } from './entities/incident.entity';
+import { Route } from '../routes/entities/route.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { RoutesModule } from '../routes/routes.module';
+import { RouteAlertsModule } from '../route-alerts/route-alerts.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Incident])],
+  imports: [
+    TypeOrmModule.forFeature([Incident, Route, Delivery]),
+    RoutesModule,
+    RouteAlertsModule,
+    AuthModule,
+  ],
   controllers: [IncidentsController],
   providers: [IncidentsService],
   exports: [IncidentsService, TypeOrmModule],
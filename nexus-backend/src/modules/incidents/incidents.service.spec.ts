@@ -0,0 +1,244 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { IncidentsService } from './incidents.service';
+import { Incident } from './entities/incident.entity';
+import { IncidentStatus } from './enums/incident-status.enum';
+import { IncidentType } from './enums/incident-type.enum';
+import { IncidentSeverity } from './enums/incident-severity.enum';
+import { Route } from '../routes/entities/route.entity';
+import { RouteStatus } from '../routes/enums/route-status';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { DeliveryStatus } from '../deliveries/enums/delivery-status.enum';
+import { RoutesService } from '../routes/routes.service';
+import { ClsAuditUtils } from '../routes/utils/cls-audit.util';
+import { RouteAlertsService } from '../route-alerts/route-alerts.service';
+
+describe('IncidentsService', () => {
+  let service: IncidentsService;
+
+  const userId = '99999999-9999-4999-8999-999999999999';
+
+  const buildRoute = (status: RouteStatus): Route =>
+    Object.assign(new Route(), {
+      id: '11111111-1111-4111-8111-111111111111',
+      route_code: 'RT-20240115-001',
+      status,
+      driver_id: 'driver-1',
+      vehicle_id: 'vehicle-1',
+    });
+
+  const buildDelivery = (): Delivery =>
+    ({
+      id: '22222222-2222-4222-8222-222222222222',
+      status: DeliveryStatus.IN_TRANSIT,
+      metadata: {},
+    }) as Delivery;
+
+  const buildIncident = (status: IncidentStatus, deliveries: Delivery[] = []): Incident =>
+    Object.assign(new Incident(), {
+      id: '33333333-3333-4333-8333-333333333333',
+      status,
+      deliveries,
+      status_history: [],
+    });
+
+  const mockManager = {
+    findOne: jest.fn(),
+    save: jest.fn((entity: { id?: string } | Delivery[]) =>
+      Promise.resolve(
+        Array.isArray(entity) ? entity : Object.assign(entity, { id: entity.id ?? 'incident-1' }),
+      ),
+    ),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work: (manager: typeof mockManager) => Promise<unknown>) =>
+      work(mockManager),
+    ),
+  };
+
+  const mockIncidentRepository = {
+    create: jest.fn((data: Partial<Incident>) => Object.assign(new Incident(), data)),
+    findOne: jest.fn(),
+  };
+
+  const mockRouteRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    find: jest.fn(),
+  };
+
+  const mockRoutesService = {
+    pause: jest.fn(),
+  };
+
+  const mockClsAuditUtils = {
+    getUserId: jest.fn(() => userId),
+  };
+
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IncidentsService,
+        { provide: getRepositoryToken(Incident), useValue: mockIncidentRepository },
+        { provide: getRepositoryToken(Route), useValue: mockRouteRepository },
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: RoutesService, useValue: mockRoutesService },
+        { provide: ClsAuditUtils, useValue: mockClsAuditUtils },
+        { provide: RouteAlertsService, useValue: {} },
+        { provide: DataSource, useValue: mockDataSource },
+      ],
+    }).compile();
+
+    service = module.get<IncidentsService>(IncidentsService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  describe('create', () => {
+    const createDto = {
+      type: IncidentType.BREAKDOWN,
+      severity: IncidentSeverity.HIGH,
+      title: 'Pneu furado na BR-277',
+      route_id: '11111111-1111-4111-8111-111111111111',
+      pause_route: true,
+    };
+
+    it('should save the incident, flag deliveries and pause the route in one transaction', async () => {
+      const route = buildRoute(RouteStatus.IN_PROGRESS);
+      const delivery = buildDelivery();
+      mockRouteRepository.findOne.mockResolvedValue(route);
+      mockManager.findOne.mockResolvedValue(route);
+      mockDeliveryRepository.find.mockResolvedValue([delivery]);
+      mockIncidentRepository.findOne.mockResolvedValue(buildIncident(IncidentStatus.OPEN));
+
+      await service.create(createDto);
+
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: IncidentStatus.OPEN,
+          route_paused: true,
+          reported_by: userId,
+          vehicle_id: 'vehicle-1',
+          driver_id: 'driver-1',
+        }),
+      );
+      expect(mockManager.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          metadata: expect.objectContaining({ at_risk: true, at_risk_incident_id: 'incident-1' }),
+        }),
+      ]);
+      expect(mockRoutesService.pause).toHaveBeenCalledWith(route, mockManager);
+    });
+
+    it('should propagate a failure to pause the route so the transaction is rolled back', async () => {
+      const route = buildRoute(RouteStatus.IN_PROGRESS);
+      mockRouteRepository.findOne.mockResolvedValue(route);
+      mockManager.findOne.mockResolvedValue(route);
+      mockDeliveryRepository.find.mockResolvedValue([buildDelivery()]);
+      mockRoutesService.pause.mockRejectedValueOnce(new Error('deadlock detected'));
+
+      await expect(service.create(createDto)).rejects.toThrow('deadlock detected');
+
+      expect(mockIncidentRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should register the incident without pausing a route that is not in progress', async () => {
+      const route = buildRoute(RouteStatus.PLANNED);
+      mockRouteRepository.findOne.mockResolvedValue(route);
+      mockManager.findOne.mockResolvedValue(route);
+      mockDeliveryRepository.find.mockResolvedValue([]);
+      mockIncidentRepository.findOne.mockResolvedValue(buildIncident(IncidentStatus.OPEN));
+
+      await service.create(createDto);
+
+      expect(mockRoutesService.pause).not.toHaveBeenCalled();
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({ route_paused: false }),
+      );
+      expect(warnSpy).toHaveBeenCalled();
+    });
+
+    it('should require a route to pause', async () => {
+      await expect(
+        service.create({ ...createDto, route_id: undefined } as unknown as typeof createDto),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeStatus', () => {
+    it('should acknowledge an open incident and record who did it', async () => {
+      const incident = buildIncident(IncidentStatus.OPEN);
+      mockIncidentRepository.findOne.mockResolvedValue(incident);
+
+      await service.changeStatus(incident.id, { new_status: IncidentStatus.ACKNOWLEDGED });
+
+      expect(incident.status).toBe(IncidentStatus.ACKNOWLEDGED);
+      expect(incident.acknowledged_by).toBe(userId);
+      expect(incident.acknowledged_at).toBeInstanceOf(Date);
+      expect(incident.status_history).toEqual([
+        expect.objectContaining({
+          from_status: IncidentStatus.OPEN,
+          to_status: IncidentStatus.ACKNOWLEDGED,
+          changed_by: userId,
+        }),
+      ]);
+    });
+
+    it('should reject a transition outside the workflow', async () => {
+      mockIncidentRepository.findOne.mockResolvedValue(buildIncident(IncidentStatus.OPEN));
+
+      await expect(
+        service.changeStatus('incident-1', { new_status: IncidentStatus.RESOLVED }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should require resolution notes', async () => {
+      mockIncidentRepository.findOne.mockResolvedValue(buildIncident(IncidentStatus.IN_PROGRESS));
+
+      await expect(
+        service.changeStatus('incident-1', { new_status: IncidentStatus.RESOLVED }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should resolve the incident and release the deliveries it put at risk', async () => {
+      const delivery = buildDelivery();
+      const incident = buildIncident(IncidentStatus.IN_PROGRESS, [delivery]);
+      delivery.metadata = {
+        at_risk: true,
+        at_risk_incident_id: incident.id,
+        at_risk_since: new Date(),
+      };
+      mockIncidentRepository.findOne.mockResolvedValue(incident);
+
+      await service.changeStatus(incident.id, {
+        new_status: IncidentStatus.RESOLVED,
+        notes: 'Pneu trocado, rota retomada',
+      });
+
+      expect(incident.resolved_by).toBe(userId);
+      expect(incident.resolution_notes).toBe('Pneu trocado, rota retomada');
+      expect(delivery.metadata).toEqual({});
+      expect(mockManager.save).toHaveBeenCalledWith([delivery]);
+    });
+  });
+});
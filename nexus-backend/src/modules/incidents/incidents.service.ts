@@ -1,27 +1,451 @@
-/* eslint-disable @typescript-eslint/explicit-module-boundary-types */
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  DataSource,
+  Repository,
+  FindOptionsWhere,
+  ILike,
+  In,
+  IsNull,
+  type EntityManager,
+} from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { Incident } from './entities/incident.entity';
+import { Route } from '../routes/entities/route.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
 import { CreateIncidentDto } from './dto/create-incident.dto';
+import { CreateIncidentFromRouteAlertDto } from './dto/create-incident-from-route-alert.dto';
 import { UpdateIncidentDto } from './dto/update-incident.dto';
+import { ChangeIncidentStatusDto } from './dto/change-incident-status.dto';
+import { IncidentFilterDto } from './dto/incident-filter.dto';
+import { IncidentResponseDto } from './dto/incident-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { RoutesService } from '../routes/routes.service';
+import { ClsAuditUtils } from '../routes/utils/cls-audit.util';
+import { RouteAlertsService } from '../route-alerts/route-alerts.service';
+import { RouteAlertTypeDescriptions } from '../route-alerts/enums/route-alert-type.enum';
+import {
+  IncidentStatus,
+  IncidentStatusTransitions,
+  SettledIncidentStatuses,
+} from './enums/incident-status.enum';
+import { ActiveDeliveryStatuses } from '../deliveries/enums/delivery-status.enum';
 
 @Injectable()
 export class IncidentsService {
-  create(_createIncidentDto: CreateIncidentDto) {
-    return 'This action adds a new incident';
+  private readonly logger = new Logger(IncidentsService.name);
+
+  constructor(
+    @InjectRepository(Incident)
+    private readonly incidentRepository: Repository<Incident>,
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    private readonly routesService: RoutesService,
+    private readonly clsAuditUtils: ClsAuditUtils,
+    private readonly routeAlertsService: RouteAlertsService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Registra um incidente
+   *
+   * O incidente, as entregas em risco e a pausa da rota são gravados na mesma
+   * transação: uma falha em qualquer etapa desfaz as demais.
+   */
+  async create(createDto: CreateIncidentDto): Promise<IncidentResponseDto> {
+    this.logger.log(`Registrando incidente: ${createDto.type} - ${createDto.title}`);
+
+    const route = createDto.route_id ? await this.findRouteOrFail(createDto.route_id) : null;
+
+    if (createDto.pause_route && !route) {
+      throw new BadRequestException('Informe a rota (route_id) para pausá-la');
+    }
+
+    const deliveries = await this.resolveAffectedDeliveries(createDto, route);
+
+    const {
+      delivery_ids: _deliveryIds,
+      pause_route,
+      mark_deliveries_at_risk,
+      ...incidentData
+    } = createDto;
+
+    const incident = this.incidentRepository.create({
+      ...incidentData,
+      occurred_at: createDto.occurred_at ? new Date(createDto.occurred_at) : new Date(),
+      status: IncidentStatus.OPEN,
+      deliveries,
+      route_paused: false,
+    });
+
+    const vehicleId = createDto.vehicle_id ?? route?.vehicle_id;
+    if (vehicleId) {
+      incident.vehicle_id = vehicleId;
+    }
+    const driverId = createDto.driver_id ?? route?.driver_id;
+    if (driverId) {
+      incident.driver_id = driverId;
+    }
+    const reportedBy = this.clsAuditUtils.getUserId();
+    if (reportedBy) {
+      incident.reported_by = reportedBy;
+    }
+
+    const saved = await this.dataSource.transaction(async manager => {
+      // Status relido sob lock: a rota pode ter mudado desde a validação
+      const lockedRoute =
+        pause_route && route
+          ? await manager.findOne(Route, {
+              where: { id: route.id },
+              lock: { mode: 'pessimistic_write' },
+            })
+          : null;
+      const pauseRoute = lockedRoute?.canBePaused() ?? false;
+
+      if (lockedRoute && !pauseRoute) {
+        this.logger.warn(
+          `Rota ${lockedRoute.route_code} não pausada pelo incidente: status ${lockedRoute.status}`,
+        );
+      }
+
+      incident.route_paused = pauseRoute;
+      const created = await manager.save(incident);
+
+      if (mark_deliveries_at_risk !== false && deliveries.length > 0) {
+        await this.markDeliveriesAtRisk(created.id, deliveries, manager);
+      }
+
+      if (lockedRoute && pauseRoute) {
+        await this.routesService.pause(lockedRoute, manager);
+      }
+
+      return created;
+    });
+
+    this.logger.log(`Incidente registrado: ${saved.id}`);
+
+    return this.findOne(saved.id);
+  }
+
+  /**
+   * Converte um alerta de rota em incidente
+   *
+   * O incidente herda rota, veículo, motorista, posição e início da condição do
+   * alerta, que passa a referenciar o incidente (e é reconhecido, se aberto).
+   */
+  async createFromRouteAlert(
+    alertId: string,
+    createDto: CreateIncidentFromRouteAlertDto,
+  ): Promise<IncidentResponseDto> {
+    const alert = await this.routeAlertsService.findForIncident(alertId);
+
+    const incident = await this.create({
+      ...createDto,
+      title:
+        createDto.title ??
+        `${RouteAlertTypeDescriptions[alert.type]}: ${alert.message}`.slice(0, 255),
+      route_id: alert.route_id,
+      vehicle_id: alert.vehicle_id,
+      driver_id: alert.driver_id,
+      latitude: Number(alert.latitude),
+      longitude: Number(alert.longitude),
+      occurred_at: new Date(alert.started_at).toISOString(),
+    });
+
+    await this.routeAlertsService.linkIncident(alert.id, incident.id);
+
+    return incident;
+  }
+
+  async findAll(filterDto: IncidentFilterDto): Promise<PaginatedResponseDto<IncidentResponseDto>> {
+    const { page = 1, limit = 10, search, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<Incident> = {};
+
+    if (search) {
+      where.title = ILike(`%${search}%`);
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.type) {
+      where.type = filters.type;
+    }
+    if (filters.severity) {
+      where.severity = filters.severity;
+    }
+    if (filters.route_id) {
+      where.route_id = filters.route_id;
+    }
+    if (filters.vehicle_id) {
+      where.vehicle_id = filters.vehicle_id;
+    }
+    if (filters.driver_id) {
+      where.driver_id = filters.driver_id;
+    }
+
+    const [incidents, total] = await this.incidentRepository.findAndCount({
+      where,
+      relations: ['deliveries'],
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { occurred_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: incidents.map(incident => this.mapToResponseDto(incident)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<IncidentResponseDto> {
+    const incident = await this.findIncidentOrFail(id);
+    return this.mapToResponseDto(incident);
+  }
+
+  async update(id: string, updateDto: UpdateIncidentDto): Promise<IncidentResponseDto> {
+    const incident = await this.findIncidentOrFail(id);
+
+    if (incident.status === IncidentStatus.CLOSED) {
+      throw new BadRequestException('Incidente encerrado não pode ser alterado');
+    }
+
+    const { delivery_ids, occurred_at, ...incidentData } = updateDto;
+
+    Object.assign(incident, incidentData);
+
+    if (occurred_at) {
+      incident.occurred_at = new Date(occurred_at);
+    }
+
+    if (delivery_ids) {
+      incident.deliveries = await this.findDeliveriesOrFail(delivery_ids);
+    }
+
+    await this.incidentRepository.save(incident);
+
+    this.logger.log(`Incidente atualizado: ${id}`);
+
+    return this.findOne(id);
   }
 
-  findAll() {
-    return `This action returns all incidents`;
+  async changeStatus(id: string, changeDto: ChangeIncidentStatusDto): Promise<IncidentResponseDto> {
+    const incident = await this.findIncidentOrFail(id);
+    const previousStatus = incident.status;
+    const newStatus = changeDto.new_status;
+
+    if (!IncidentStatusTransitions[previousStatus].includes(newStatus)) {
+      throw new BadRequestException(
+        `Transição de status inválida: ${previousStatus} → ${newStatus}`,
+      );
+    }
+
+    if (newStatus === IncidentStatus.RESOLVED && !changeDto.notes) {
+      throw new BadRequestException('Informe as notas de resolução para resolver o incidente');
+    }
+
+    const userId = this.clsAuditUtils.getUserId();
+    const now = new Date();
+
+    incident.status = newStatus;
+
+    if (newStatus === IncidentStatus.ACKNOWLEDGED) {
+      incident.acknowledged_at = now;
+      if (userId) {
+        incident.acknowledged_by = userId;
+      }
+    }
+    if (newStatus === IncidentStatus.RESOLVED) {
+      incident.resolved_at = now;
+      if (userId) {
+        incident.resolved_by = userId;
+      }
+      if (changeDto.notes) {
+        incident.resolution_notes = changeDto.notes;
+      }
+    }
+    if (newStatus === IncidentStatus.CLOSED) {
+      incident.closed_at = now;
+    }
+
+    const historyEntry: NonNullable<Incident['status_history']>[number] = {
+      from_status: previousStatus,
+      to_status: newStatus,
+      changed_at: now,
+    };
+    if (userId) {
+      historyEntry.changed_by = userId;
+    }
+    if (changeDto.notes) {
+      historyEntry.notes = changeDto.notes;
+    }
+    incident.status_history = [...(incident.status_history ?? []), historyEntry];
+
+    await this.dataSource.transaction(async manager => {
+      await manager.save(incident);
+
+      // Ao sair do estado ativo, libera as entregas marcadas em risco por este incidente
+      if (
+        SettledIncidentStatuses.includes(newStatus) &&
+        !SettledIncidentStatuses.includes(previousStatus)
+      ) {
+        await this.clearDeliveriesAtRisk(incident.id, incident.deliveries ?? [], manager);
+      }
+    });
+
+    this.logger.log(`Incidente ${id}: ${previousStatus} → ${newStatus}`);
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const incident = await this.findIncidentOrFail(id);
+
+    if (incident.isActive()) {
+      throw new BadRequestException('Não é possível remover um incidente ativo');
+    }
+
+    await this.incidentRepository.softRemove(incident);
+
+    this.logger.log(`Incidente removido: ${id}`);
+  }
+
+  /**
+   * Resolve as entregas afetadas: as informadas explicitamente e,
+   * se houver rota, as entregas ativas vinculadas a ela (ou, sem vínculo,
+   * as do motorista/veículo da rota)
+   */
+  private async resolveAffectedDeliveries(
+    createDto: CreateIncidentDto,
+    route: Route | null,
+  ): Promise<Delivery[]> {
+    const explicit = createDto.delivery_ids?.length
+      ? await this.findDeliveriesOrFail(createDto.delivery_ids)
+      : [];
+
+    if (!route || createDto.mark_deliveries_at_risk === false) {
+      return explicit;
+    }
+
+    const onRoute = await this.deliveryRepository.find({
+      where: [
+        { route_id: route.id, status: In(ActiveDeliveryStatuses) },
+        {
+          route_id: IsNull(),
+          driver_id: route.driver_id,
+          vehicle_id: route.vehicle_id,
+          status: In(ActiveDeliveryStatuses),
+        },
+      ],
+    });
+
+    const byId = new Map<string, Delivery>();
+    [...explicit, ...onRoute].forEach(delivery => byId.set(delivery.id, delivery));
+
+    return [...byId.values()];
+  }
+
+  private async findDeliveriesOrFail(ids: string[]): Promise<Delivery[]> {
+    const uniqueIds = [...new Set(ids)];
+    const deliveries = await this.deliveryRepository.find({ where: { id: In(uniqueIds) } });
+
+    if (deliveries.length !== uniqueIds.length) {
+      const found = new Set(deliveries.map(delivery => delivery.id));
+      const missing = uniqueIds.filter(deliveryId => !found.has(deliveryId));
+      throw new BadRequestException(`Entregas não encontradas: ${missing.join(', ')}`);
+    }
+
+    return deliveries;
+  }
+
+  private async markDeliveriesAtRisk(
+    incidentId: string,
+    deliveries: Delivery[],
+    manager: EntityManager,
+  ): Promise<void> {
+    const now = new Date();
+
+    for (const delivery of deliveries) {
+      delivery.metadata = {
+        ...delivery.metadata,
+        at_risk: true,
+        at_risk_incident_id: incidentId,
+        at_risk_since: now,
+      };
+    }
+
+    await manager.save(deliveries);
+
+    this.logger.log(
+      `${deliveries.length} entrega(s) marcada(s) em risco pelo incidente ${incidentId}`,
+    );
   }
 
-  findOne(id: number) {
-    return `This action returns a #${id} incident`;
+  private async clearDeliveriesAtRisk(
+    incidentId: string,
+    deliveries: Delivery[],
+    manager: EntityManager,
+  ): Promise<void> {
+    const flagged = deliveries.filter(
+      delivery => delivery.metadata?.at_risk_incident_id === incidentId,
+    );
+
+    if (flagged.length === 0) {
+      return;
+    }
+
+    for (const delivery of flagged) {
+      const {
+        at_risk: _atRisk,
+        at_risk_incident_id: _incidentId,
+        at_risk_since: _since,
+        ...metadata
+      } = delivery.metadata ?? {};
+      delivery.metadata = metadata;
+    }
+
+    await manager.save(flagged);
+
+    this.logger.log(`${flagged.length} entrega(s) liberada(s) do risco do incidente ${incidentId}`);
+  }
+
+  private async findRouteOrFail(id: string): Promise<Route> {
+    const route = await this.routeRepository.findOne({ where: { id } });
+
+    if (!route) {
+      throw new NotFoundException(`Rota com ID ${id} não encontrada`);
+    }
+
+    return route;
   }
 
-  update(id: number, _updateIncidentDto: UpdateIncidentDto) {
-    return `This action updates a #${id} incident`;
+  private async findIncidentOrFail(id: string): Promise<Incident> {
+    const incident = await this.incidentRepository.findOne({
+      where: { id },
+      relations: ['deliveries'],
+    });
+
+    if (!incident) {
+      throw new NotFoundException(`Incidente com ID ${id} não encontrado`);
+    }
+
+    return incident;
   }
 
-  remove(id: number) {
-    return `This action removes a #${id} incident`;
+  private mapToResponseDto(incident: Incident): IncidentResponseDto {
+    return plainToInstance(IncidentResponseDto, incident, {
+      excludeExtraneousValues: true,
+    });
   }
 }
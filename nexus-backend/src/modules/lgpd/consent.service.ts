@@ -111,6 +111,19 @@ export class ConsentService {
     return consent ? consent.isValid() : false;
   }
 
+  /**
+   * Verifica se o último consentimento do tipo foi revogado ou expirou
+   * A ausência de registro não é considerada revogação
+   */
+  async hasRevokedConsent(userId: string, consentType: ConsentType): Promise<boolean> {
+    const latest = await this.consentRepository.findOne({
+      where: { userId, consentType },
+      order: { createdAt: 'DESC' },
+    });
+
+    return latest ? !latest.isValid() : false;
+  }
+
   /**
    * Atualiza consentimentos expirados
    */
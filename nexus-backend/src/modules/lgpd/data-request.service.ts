@@ -4,6 +4,8 @@ import { Repository } from 'typeorm';
 import { DataRequestEntity } from './entities/data-request.entity';
 import { CreateDataRequestDto, UpdateDataRequestDto } from './dto/lgpdDto';
 import { DataRequestStatus, DataRequestType } from './enums/lgpdEnums';
+import { DataScopes } from '../auth/utils/data-scope.util';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
 @Injectable()
 export class DataRequestService {
@@ -122,10 +124,14 @@ export class DataRequestService {
 
   /**
    * Obtém uma solicitação específica
+   *
+   * Solicitações de outros usuários fora do escopo são tratadas como inexistentes.
    */
-  async getDataRequest(requestId: string): Promise<DataRequestEntity> {
+  async getDataRequest(requestId: string, scope?: DataScope): Promise<DataRequestEntity> {
     const dataRequest = await this.dataRequestRepository.findOne({
-      where: { id: requestId },
+      where: scope
+        ? DataScopes.where<DataRequestEntity>({ id: requestId }, scope, { user: 'userId' })
+        : { id: requestId },
     });
 
     if (!dataRequest) {
@@ -14,7 +14,7 @@ import {
   HttpStatus,
   HttpException,
 } from '@nestjs/common';
-import type { Request, Response } from 'express';
+import type { Response } from 'express';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -29,16 +29,9 @@ import {
   UpdateDataRequestDto,
 } from './dto/lgpdDto';
 import { DataRequestStatus, DataRequestType, ConsentType } from './enums/lgpdEnums';
-
-interface AuthenticatedUser {
-  id: string;
-  email: string;
-  roles: string[];
-}
-
-interface AuthenticatedRequest extends Request {
-  user: AuthenticatedUser;
-}
+import { CurrentDataScope } from '../auth/decorators/current-data-scope.decorator';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
 @Controller('lgpd')
 @UseGuards(JwtAuthGuard)
@@ -199,16 +192,10 @@ export class LgpdController {
    */
   @Get('data-requests/:id')
   async getDataRequest(
-    @Req() req: AuthenticatedRequest,
     @Param('id', ParseUUIDPipe) requestId: string,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<{ success: boolean; data: unknown }> {
-    const userId = req.user.id;
-    const request = await this.dataRequestService.getDataRequest(requestId);
-
-    // Verifica se a solicitação pertence ao usuário
-    if (request.userId !== userId) {
-      throw new HttpException('Acesso negado', HttpStatus.FORBIDDEN);
-    }
+    const request = await this.dataRequestService.getDataRequest(requestId, scope);
 
     return {
       success: true,
@@ -239,17 +226,11 @@ export class LgpdController {
    */
   @Get('data-requests/:id/download')
   async downloadDataExport(
-    @Req() req: AuthenticatedRequest,
     @Res() res: Response,
     @Param('id', ParseUUIDPipe) requestId: string,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<void> {
-    const userId = req.user.id;
-    const request = await this.dataRequestService.getDataRequest(requestId);
-
-    // Verifica se a solicitação pertence ao usuário
-    if (request.userId !== userId) {
-      throw new HttpException('Acesso negado', HttpStatus.FORBIDDEN);
-    }
+    const request = await this.dataRequestService.getDataRequest(requestId, scope);
 
     // Verifica se a solicitação foi concluída e tem arquivo
     if (request.status !== DataRequestStatus.COMPLETED || !request.filePath) {
@@ -271,7 +252,7 @@ export class LgpdController {
     }
 
     // Configura headers para download
-    const fileName = `dados-pessoais-${userId}-${new Date().toISOString().split('T')[0]}.json`;
+    const fileName = `dados-pessoais-${request.userId}-${new Date().toISOString().split('T')[0]}.json`;
     res.setHeader('Content-Type', 'application/json');
     res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
     if (fileInfo.size) {
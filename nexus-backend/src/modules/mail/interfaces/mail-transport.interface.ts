@@ -0,0 +1,31 @@
+/**
+ * Token de injeção do transporte de e-mail ativo
+ */
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+/**
+ * Mensagem de e-mail a ser enviada
+ */
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Resultado do envio retornado pelo transporte
+ */
+export interface MailSendResult {
+  message_id?: string;
+  /** Destinatários recusados pelo servidor (bounce síncrono) */
+  rejected: string[];
+}
+
+/**
+ * Contrato dos transportes de e-mail (SMTP, log local, etc.)
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<MailSendResult>;
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, type MailTransport } from './interfaces/mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { LogMailTransport } from './transports/log-mail.transport';
+import type { MailConfig } from '../../config/mail.config';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        const config = configService.getOrThrow<MailConfig>('mail');
+        return config.transport === 'smtp'
+          ? new SmtpMailTransport(config.smtp)
+          : new LogMailTransport();
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,42 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { MailConfig } from '../../config/mail.config';
+import {
+  MAIL_TRANSPORT,
+  type MailMessage,
+  type MailSendResult,
+  type MailTransport,
+} from './interfaces/mail-transport.interface';
+
+/**
+ * Serviço de envio de e-mails
+ *
+ * Delega ao transporte configurado em MAIL_TRANSPORT (smtp ou log)
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    configService: ConfigService,
+  ) {
+    this.from = configService.getOrThrow<MailConfig>('mail').from;
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    if (message.to.length === 0) {
+      return { rejected: [] };
+    }
+
+    const result = await this.transport.send({ ...message, from: this.from });
+
+    this.logger.log(
+      `E-mail enviado via ${this.transport.name} para ${message.to.length} destinatário(s): ${message.subject}`,
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,22 @@
+import { Logger } from '@nestjs/common';
+import type {
+  MailMessage,
+  MailSendResult,
+  MailTransport,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Transporte local que apenas registra as mensagens no log
+ * Substitui o SMTP em desenvolvimento e testes
+ */
+export class LogMailTransport implements MailTransport {
+  readonly name = 'log';
+  private readonly logger = new Logger(LogMailTransport.name);
+
+  send(message: MailMessage & { from: string }): Promise<MailSendResult> {
+    this.logger.log(
+      `[email] de=${message.from} para=${message.to.join(', ')} assunto="${message.subject}"\n${message.text}`,
+    );
+    return Promise.resolve({ rejected: [] });
+  }
+}
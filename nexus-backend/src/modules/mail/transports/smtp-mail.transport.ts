@@ -0,0 +1,46 @@
+import { Logger } from '@nestjs/common';
+import { createTransport, type Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+import type { MailConfig } from '../../../config/mail.config';
+import type {
+  MailMessage,
+  MailSendResult,
+  MailTransport,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Transporte SMTP (nodemailer)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private readonly transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(config: MailConfig['smtp']) {
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      ...(config.user ? { auth: { user: config.user, pass: config.pass } } : {}),
+    });
+
+    this.logger.log(`SMTP transport configurado: ${config.host}:${config.port}`);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<MailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html ? { html: message.html } : {}),
+    });
+
+    return {
+      message_id: info.messageId,
+      rejected: (info.rejected as (string | { address: string })[]).map(address =>
+        typeof address === 'string' ? address : address.address,
+      ),
+    };
+  }
+}
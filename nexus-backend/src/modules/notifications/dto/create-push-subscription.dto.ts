@@ -0,0 +1,62 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsUUID,
+  IsUrl,
+  IsOptional,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+
+/**
+ * Chaves da inscrição Web Push (PushSubscription.toJSON().keys)
+ */
+export class PushSubscriptionKeysDto {
+  @ApiProperty({ description: 'Chave pública do cliente (p256dh)' })
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 255)
+  p256dh!: string;
+
+  @ApiProperty({ description: 'Segredo de autenticação' })
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 255)
+  auth!: string;
+}
+
+/**
+ * DTO para registrar inscrição Web Push
+ */
+export class CreatePushSubscriptionDto {
+  @ApiProperty({ description: 'Tipo do titular', enum: NotificationRecipientType })
+  @IsEnum(NotificationRecipientType)
+  owner_type!: NotificationRecipientType;
+
+  @ApiProperty({ description: 'ID do titular (cliente, motorista ou usuário)', format: 'uuid' })
+  @IsUUID()
+  owner_id!: string;
+
+  @ApiProperty({
+    description: 'Endpoint do serviço de push',
+    example: 'https://fcm.googleapis.com/fcm/send/abc123',
+  })
+  @IsUrl({ require_tld: false })
+  @Length(1, 1000)
+  endpoint!: string;
+
+  @ApiProperty({ description: 'Chaves da inscrição', type: PushSubscriptionKeysDto })
+  @ValidateNested()
+  @Type(() => PushSubscriptionKeysDto)
+  keys!: PushSubscriptionKeysDto;
+
+  @ApiPropertyOptional({ description: 'User-Agent do dispositivo' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  user_agent?: string;
+}
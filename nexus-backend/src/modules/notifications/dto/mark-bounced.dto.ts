@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO para registrar rejeição (bounce) informada pelo provedor
+ */
+export class MarkBouncedDto {
+  @ApiProperty({
+    description: 'Motivo da rejeição',
+    example: 'Caixa postal inexistente (550 5.1.1)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 500)
+  reason!: string;
+}
@@ -0,0 +1,77 @@
+import { IsOptional, IsEnum, IsUUID, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { NotificationSuppressionReason } from '../enums/notification-suppression-reason.enum';
+
+/**
+ * DTO para listar despachos de notificação
+ */
+export class NotificationDispatchFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por canal', enum: NotificationChannel })
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+
+  @ApiPropertyOptional({ description: 'Filtrar por status', enum: NotificationDispatchStatus })
+  @IsOptional()
+  @IsEnum(NotificationDispatchStatus)
+  status?: NotificationDispatchStatus;
+
+  @ApiPropertyOptional({ description: 'Filtrar por entrega', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  delivery_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filtrar por destinatário (cliente/motorista)',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  recipient_id?: string;
+}
+
+/**
+ * DTO para consultar a caixa de saída local (adaptador outbox)
+ */
+export class NotificationOutboxFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por canal', enum: NotificationChannel })
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+
+  @ApiPropertyOptional({ description: 'Filtrar por endereço de destino' })
+  @IsOptional()
+  @IsString()
+  recipient?: string;
+}
+
+/**
+ * DTO para consultar decisões de supressão (suporte)
+ */
+export class NotificationSuppressionFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({
+    description: 'Filtrar por destinatário (cliente/motorista)',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  recipient_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por entrega', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  delivery_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por motivo', enum: NotificationSuppressionReason })
+  @IsOptional()
+  @IsEnum(NotificationSuppressionReason)
+  reason?: NotificationSuppressionReason;
+
+  @ApiPropertyOptional({ description: 'Filtrar por canal', enum: NotificationChannel })
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+}
@@ -0,0 +1,259 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { NotificationSuppressionReason } from '../enums/notification-suppression-reason.enum';
+import { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+import { ScheduledNotificationStatus } from '../enums/scheduled-notification-status.enum';
+
+/**
+ * DTO de resposta de despacho de notificação
+ */
+export class NotificationDispatchResponseDto {
+  @ApiProperty({ description: 'ID do despacho' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Canal', enum: NotificationChannel })
+  @Expose()
+  channel!: NotificationChannel;
+
+  @ApiPropertyOptional({ description: 'Adaptador utilizado', example: 'smtp' })
+  @Expose()
+  provider?: string;
+
+  @ApiProperty({ description: 'Status', enum: NotificationDispatchStatus })
+  @Expose()
+  status!: NotificationDispatchStatus;
+
+  @ApiProperty({ description: 'Tipo da notificação', example: 'STATUS_CHANGE' })
+  @Expose()
+  notification_type!: string;
+
+  @ApiPropertyOptional({ description: 'Tipo do destinatário', enum: NotificationRecipientType })
+  @Expose()
+  recipient_type?: NotificationRecipientType;
+
+  @ApiPropertyOptional({ description: 'ID do destinatário' })
+  @Expose()
+  recipient_id?: string;
+
+  @ApiProperty({ description: 'Endereço de destino' })
+  @Expose()
+  recipient!: string;
+
+  @ApiPropertyOptional({ description: 'ID da entrega relacionada' })
+  @Expose()
+  delivery_id?: string;
+
+  @ApiPropertyOptional({ description: 'Assunto/título' })
+  @Expose()
+  subject?: string;
+
+  @ApiProperty({ description: 'Corpo renderizado' })
+  @Expose()
+  body!: string;
+
+  @ApiPropertyOptional({ description: 'ID da mensagem no provedor' })
+  @Expose()
+  provider_message_id?: string;
+
+  @ApiProperty({ description: 'Tentativas de envio' })
+  @Expose()
+  attempts!: number;
+
+  @ApiPropertyOptional({ description: 'Erro ou motivo da rejeição' })
+  @Expose()
+  error_message?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora do envio' })
+  @Expose()
+  sent_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora da rejeição' })
+  @Expose()
+  bounced_at?: Date;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+}
+
+/**
+ * DTO de resposta de mensagem da caixa de saída local
+ */
+export class NotificationOutboxMessageResponseDto {
+  @ApiProperty({ description: 'ID da mensagem' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID do despacho de origem' })
+  @Expose()
+  dispatch_id!: string;
+
+  @ApiProperty({ description: 'Canal', enum: NotificationChannel })
+  @Expose()
+  channel!: NotificationChannel;
+
+  @ApiProperty({ description: 'Endereço de destino' })
+  @Expose()
+  recipient!: string;
+
+  @ApiPropertyOptional({ description: 'Assunto/título' })
+  @Expose()
+  subject?: string;
+
+  @ApiProperty({ description: 'Corpo da mensagem' })
+  @Expose()
+  body!: string;
+
+  @ApiPropertyOptional({ description: 'Dados adicionais' })
+  @Expose()
+  data?: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+}
+
+/**
+ * DTO de resposta de inscrição Web Push
+ */
+export class PushSubscriptionResponseDto {
+  @ApiProperty({ description: 'ID da inscrição' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Tipo do titular', enum: NotificationRecipientType })
+  @Expose()
+  owner_type!: NotificationRecipientType;
+
+  @ApiProperty({ description: 'ID do titular' })
+  @Expose()
+  owner_id!: string;
+
+  @ApiProperty({ description: 'Endpoint do serviço de push' })
+  @Expose()
+  endpoint!: string;
+
+  @ApiProperty({ description: 'Inscrição ativa' })
+  @Expose()
+  is_active!: boolean;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+}
+
+/**
+ * DTO de resposta de notificação agendada (fila)
+ */
+export class ScheduledNotificationResponseDto {
+  @ApiProperty({ description: 'ID do agendamento' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Chave de idempotência' })
+  @Expose()
+  idempotency_key!: string;
+
+  @ApiProperty({ description: 'Status na fila', enum: ScheduledNotificationStatus })
+  @Expose()
+  status!: ScheduledNotificationStatus;
+
+  @ApiProperty({ description: 'Canal', enum: NotificationChannel })
+  @Expose()
+  channel!: NotificationChannel;
+
+  @ApiPropertyOptional({ description: 'ID da entrega relacionada' })
+  @Expose()
+  delivery_id?: string;
+
+  @ApiProperty({ description: 'Notificação renderizada' })
+  @Expose()
+  payload!: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Data/hora de execução (próxima tentativa)' })
+  @Expose()
+  run_at!: Date;
+
+  @ApiProperty({ description: 'Tentativas realizadas' })
+  @Expose()
+  attempts!: number;
+
+  @ApiProperty({ description: 'Máximo de tentativas' })
+  @Expose()
+  max_attempts!: number;
+
+  @ApiPropertyOptional({ description: 'ID do despacho gerado' })
+  @Expose()
+  dispatch_id?: string;
+
+  @ApiPropertyOptional({ description: 'Último erro de envio' })
+  @Expose()
+  last_error?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora da conclusão' })
+  @Expose()
+  completed_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora do dead-letter' })
+  @Expose()
+  dead_lettered_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora do cancelamento' })
+  @Expose()
+  cancelled_at?: Date;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+}
+
+/**
+ * DTO de resposta de decisão de supressão
+ */
+export class NotificationSuppressionResponseDto {
+  @ApiProperty({ description: 'ID do registro' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Tipo do destinatário', enum: NotificationRecipientType })
+  @Expose()
+  recipient_type!: NotificationRecipientType;
+
+  @ApiProperty({ description: 'ID do destinatário' })
+  @Expose()
+  recipient_id!: string;
+
+  @ApiPropertyOptional({ description: 'ID da entrega relacionada' })
+  @Expose()
+  delivery_id?: string;
+
+  @ApiProperty({ description: 'Tipo da notificação', example: 'STATUS_CHANGE' })
+  @Expose()
+  notification_type!: string;
+
+  @ApiPropertyOptional({
+    description: 'Canal afetado (ausente quando todos os canais)',
+    enum: NotificationChannel,
+  })
+  @Expose()
+  channel?: NotificationChannel;
+
+  @ApiProperty({ description: 'Motivo', enum: NotificationSuppressionReason })
+  @Expose()
+  reason!: NotificationSuppressionReason;
+
+  @ApiPropertyOptional({ description: 'Detalhes da decisão' })
+  @Expose()
+  details?: string;
+
+  @ApiPropertyOptional({ description: 'Retida até (horário de silêncio)' })
+  @Expose()
+  held_until?: Date;
+
+  @ApiProperty({ description: 'Data da decisão' })
+  @Expose()
+  created_at!: Date;
+}
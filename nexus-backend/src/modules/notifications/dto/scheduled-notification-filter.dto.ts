@@ -0,0 +1,25 @@
+import { IsOptional, IsEnum, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { ScheduledNotificationStatus } from '../enums/scheduled-notification-status.enum';
+
+/**
+ * DTO para listar notificações agendadas
+ */
+export class ScheduledNotificationFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por status', enum: ScheduledNotificationStatus })
+  @IsOptional()
+  @IsEnum(ScheduledNotificationStatus)
+  status?: ScheduledNotificationStatus;
+
+  @ApiPropertyOptional({ description: 'Filtrar por canal', enum: NotificationChannel })
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+
+  @ApiPropertyOptional({ description: 'Filtrar por entrega', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  delivery_id?: string;
+}
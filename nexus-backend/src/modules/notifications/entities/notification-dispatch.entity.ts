@@ -0,0 +1,138 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+
+/**
+ * NotificationDispatch Entity - Registro de cada envio de notificação
+ *
+ * Features:
+ * - Canal e adaptador (provider) utilizados
+ * - Destinatário e conteúdo renderizado
+ * - Status do envio (QUEUED, SENT, FAILED, BOUNCED) e erro
+ * - Vínculo opcional com a entrega que originou a notificação
+ */
+@Entity('notification_dispatches')
+@Index(['status'])
+@Index(['channel'])
+@Index(['delivery_id'])
+@Index(['recipient_type', 'recipient_id'])
+@Index(['provider_message_id'])
+export class NotificationDispatch extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: NotificationChannel,
+    comment: 'Canal de envio',
+  })
+  channel!: NotificationChannel;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+    comment: 'Adaptador utilizado no envio',
+  })
+  provider?: string;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationDispatchStatus,
+    default: NotificationDispatchStatus.QUEUED,
+    comment: 'Status do envio',
+  })
+  status!: NotificationDispatchStatus;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    comment: 'Tipo da notificação (ex.: STATUS_CHANGE)',
+  })
+  notification_type!: string;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationRecipientType,
+    nullable: true,
+    comment: 'Tipo do destinatário',
+  })
+  recipient_type?: NotificationRecipientType;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do destinatário (cliente, motorista ou usuário)',
+  })
+  recipient_id?: string;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    comment: 'Endereço de destino (e-mail, telefone ou inscrição push)',
+  })
+  recipient!: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da entrega relacionada',
+  })
+  delivery_id?: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Assunto/título da mensagem',
+  })
+  subject?: string;
+
+  @Column({
+    type: 'text',
+    comment: 'Corpo renderizado da mensagem',
+  })
+  body!: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Dados adicionais enviados ao canal',
+  })
+  data?: Record<string, unknown>;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Identificador da mensagem no provedor',
+  })
+  provider_message_id?: string;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Número de tentativas de envio',
+  })
+  attempts!: number;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Mensagem de erro ou motivo da rejeição',
+  })
+  error_message?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do envio',
+  })
+  sent_at?: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da rejeição',
+  })
+  bounced_at?: Date;
+}
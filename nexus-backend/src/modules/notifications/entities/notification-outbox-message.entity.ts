@@ -0,0 +1,52 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+
+/**
+ * NotificationOutboxMessage Entity - Caixa de saída local
+ *
+ * Mensagens "enviadas" pelo adaptador outbox, usado em desenvolvimento
+ * e testes no lugar dos provedores reais
+ */
+@Entity('notification_outbox')
+@Index(['channel', 'recipient'])
+@Index(['dispatch_id'])
+export class NotificationOutboxMessage extends BaseEntity {
+  @Column({ type: 'uuid', comment: 'ID do despacho de origem' })
+  dispatch_id!: string;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationChannel,
+    comment: 'Canal de envio',
+  })
+  channel!: NotificationChannel;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    comment: 'Endereço de destino',
+  })
+  recipient!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Assunto/título da mensagem',
+  })
+  subject?: string;
+
+  @Column({
+    type: 'text',
+    comment: 'Corpo da mensagem',
+  })
+  body!: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Dados adicionais',
+  })
+  data?: Record<string, unknown>;
+}
@@ -0,0 +1,71 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+import { NotificationSuppressionReason } from '../enums/notification-suppression-reason.enum';
+
+/**
+ * NotificationSuppression Entity - Registro de decisões de supressão
+ *
+ * Permite ao suporte explicar por que um destinatário não recebeu
+ * (ou recebeu mais tarde) uma notificação: preferência de canal,
+ * consentimento revogado, horário de silêncio ou contato ausente
+ */
+@Entity('notification_suppressions')
+@Index(['recipient_type', 'recipient_id'])
+@Index(['delivery_id'])
+@Index(['reason'])
+export class NotificationSuppression extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: NotificationRecipientType,
+    comment: 'Tipo do destinatário',
+  })
+  recipient_type!: NotificationRecipientType;
+
+  @Column({ type: 'uuid', comment: 'ID do destinatário' })
+  recipient_id!: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da entrega relacionada',
+  })
+  delivery_id?: string;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    comment: 'Tipo da notificação (ex.: STATUS_CHANGE)',
+  })
+  notification_type!: string;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationChannel,
+    nullable: true,
+    comment: 'Canal afetado (nulo quando todos os canais)',
+  })
+  channel?: NotificationChannel;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationSuppressionReason,
+    comment: 'Motivo da supressão',
+  })
+  reason!: NotificationSuppressionReason;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Detalhes da decisão',
+  })
+  details?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora para a qual a mensagem foi retida (horário de silêncio)',
+  })
+  held_until?: Date;
+}
@@ -0,0 +1,59 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+
+/**
+ * PushSubscription Entity - Inscrições Web Push (navegador/aplicativo)
+ *
+ * Inscrições rejeitadas pelo serviço de push (404/410) são desativadas
+ */
+@Entity('push_subscriptions')
+@Index(['owner_type', 'owner_id'])
+@Index(['endpoint'], { unique: true })
+export class PushSubscription extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: NotificationRecipientType,
+    comment: 'Tipo do titular da inscrição',
+  })
+  owner_type!: NotificationRecipientType;
+
+  @Column({ type: 'uuid', comment: 'ID do titular da inscrição' })
+  owner_id!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 1000,
+    comment: 'Endpoint do serviço de push',
+  })
+  endpoint!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Chave pública do cliente (p256dh)',
+  })
+  p256dh!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Segredo de autenticação do cliente',
+  })
+  auth!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    comment: 'User-Agent do dispositivo',
+  })
+  user_agent?: string;
+
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Indica se a inscrição está ativa',
+  })
+  is_active!: boolean;
+}
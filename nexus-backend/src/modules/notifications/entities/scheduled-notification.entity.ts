@@ -0,0 +1,117 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { ScheduledNotificationStatus } from '../enums/scheduled-notification-status.enum';
+import type { NotificationDispatchRequest } from '../interfaces';
+
+/**
+ * ScheduledNotification Entity - Fila persistente de notificações com atraso
+ *
+ * Features:
+ * - Execução a partir de run_at, sobrevivendo a reinicializações
+ * - Retentativas com backoff exponencial e dead-letter
+ * - Chave de idempotência única por notificação agendada
+ * - Vínculo com o despacho gerado (evita reenvio após falha do worker)
+ */
+@Entity('scheduled_notifications')
+@Index(['status', 'run_at'])
+@Index(['delivery_id'])
+@Index(['idempotency_key'], { unique: true })
+export class ScheduledNotification extends BaseEntity {
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Chave de idempotência do agendamento',
+  })
+  idempotency_key!: string;
+
+  @Column({
+    type: 'enum',
+    enum: ScheduledNotificationStatus,
+    default: ScheduledNotificationStatus.PENDING,
+    comment: 'Status na fila',
+  })
+  status!: ScheduledNotificationStatus;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationChannel,
+    comment: 'Canal de envio',
+  })
+  channel!: NotificationChannel;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da entrega relacionada',
+  })
+  delivery_id?: string;
+
+  @Column({
+    type: 'jsonb',
+    comment: 'Notificação renderizada a ser despachada',
+  })
+  payload!: NotificationDispatchRequest;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora a partir da qual a notificação pode ser enviada',
+  })
+  run_at!: Date;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Tentativas realizadas',
+  })
+  attempts!: number;
+
+  @Column({
+    type: 'integer',
+    default: 5,
+    comment: 'Máximo de tentativas antes do dead-letter',
+  })
+  max_attempts!: number;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do despacho gerado',
+  })
+  dispatch_id?: string | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Último erro de envio',
+  })
+  last_error?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da reserva pelo worker',
+  })
+  locked_at?: Date | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da conclusão',
+  })
+  completed_at?: Date | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora em que foi movida para dead-letter',
+  })
+  dead_lettered_at?: Date | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do cancelamento',
+  })
+  cancelled_at?: Date | null;
+}
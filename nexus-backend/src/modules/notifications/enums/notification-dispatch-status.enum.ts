@@ -0,0 +1,26 @@
+/**
+ * Enum para status de despacho de notificação
+ */
+export enum NotificationDispatchStatus {
+  /** Registrado e aguardando envio ao provedor */
+  QUEUED = 'QUEUED',
+
+  /** Aceito pelo provedor do canal */
+  SENT = 'SENT',
+
+  /** Erro ao enviar (provedor indisponível, configuração ausente, etc.) */
+  FAILED = 'FAILED',
+
+  /** Rejeitado pelo destino (endereço inválido, inscrição expirada) */
+  BOUNCED = 'BOUNCED',
+}
+
+/**
+ * Descrições dos status para exibição em UI
+ */
+export const NotificationDispatchStatusDescriptions: Record<NotificationDispatchStatus, string> = {
+  [NotificationDispatchStatus.QUEUED]: 'Na fila',
+  [NotificationDispatchStatus.SENT]: 'Enviada',
+  [NotificationDispatchStatus.FAILED]: 'Falhou',
+  [NotificationDispatchStatus.BOUNCED]: 'Rejeitada pelo destino',
+};
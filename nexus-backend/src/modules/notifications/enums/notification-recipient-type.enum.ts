@@ -0,0 +1,8 @@
+/**
+ * Enum para tipo de destinatário de notificação
+ */
+export enum NotificationRecipientType {
+  CUSTOMER = 'customer',
+  DRIVER = 'driver',
+  USER = 'user',
+}
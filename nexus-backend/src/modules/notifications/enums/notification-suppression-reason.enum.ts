@@ -0,0 +1,33 @@
+/**
+ * Enum para motivo de supressão (ou retenção) de notificação
+ */
+export enum NotificationSuppressionReason {
+  /** Canal solicitado não está entre os canais escolhidos pelo cliente */
+  CHANNEL_NOT_PREFERRED = 'CHANNEL_NOT_PREFERRED',
+
+  /** Consentimento LGPD revogado (comunicações ou notificações push) */
+  CONSENT_REVOKED = 'CONSENT_REVOKED',
+
+  /** Fora da janela preferida do cliente; mensagem retida para envio posterior */
+  QUIET_HOURS = 'QUIET_HOURS',
+
+  /** Destinatário sem e-mail, telefone ou inscrição push para o canal */
+  MISSING_CONTACT = 'MISSING_CONTACT',
+
+  /** Canal sem envio automatizado (ex.: ligação telefônica) */
+  CHANNEL_UNAVAILABLE = 'CHANNEL_UNAVAILABLE',
+}
+
+/**
+ * Descrições dos motivos para exibição em UI
+ */
+export const NotificationSuppressionReasonDescriptions: Record<
+  NotificationSuppressionReason,
+  string
+> = {
+  [NotificationSuppressionReason.CHANNEL_NOT_PREFERRED]: 'Canal não escolhido pelo cliente',
+  [NotificationSuppressionReason.CONSENT_REVOKED]: 'Consentimento revogado',
+  [NotificationSuppressionReason.QUIET_HOURS]: 'Retida por horário de silêncio',
+  [NotificationSuppressionReason.MISSING_CONTACT]: 'Contato ausente',
+  [NotificationSuppressionReason.CHANNEL_UNAVAILABLE]: 'Canal sem envio automatizado',
+};
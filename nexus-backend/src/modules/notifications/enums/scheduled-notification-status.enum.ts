@@ -0,0 +1,31 @@
+/**
+ * Enum para status de notificação agendada (fila persistente)
+ */
+export enum ScheduledNotificationStatus {
+  /** Aguardando a data de execução (inclui retentativas com backoff) */
+  PENDING = 'PENDING',
+
+  /** Reservada por um worker e em envio */
+  PROCESSING = 'PROCESSING',
+
+  /** Despachada (enviada ou rejeitada pelo destino) */
+  COMPLETED = 'COMPLETED',
+
+  /** Tentativas esgotadas; aguarda intervenção manual (replay) */
+  DEAD_LETTER = 'DEAD_LETTER',
+
+  /** Cancelada antes do envio */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Descrições dos status para exibição em UI
+ */
+export const ScheduledNotificationStatusDescriptions: Record<ScheduledNotificationStatus, string> =
+  {
+    [ScheduledNotificationStatus.PENDING]: 'Agendada',
+    [ScheduledNotificationStatus.PROCESSING]: 'Em processamento',
+    [ScheduledNotificationStatus.COMPLETED]: 'Concluída',
+    [ScheduledNotificationStatus.DEAD_LETTER]: 'Falha definitiva',
+    [ScheduledNotificationStatus.CANCELLED]: 'Cancelada',
+  };
@@ -0,0 +1,41 @@
+import type { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import type { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+
+/**
+ * Mensagem já renderizada entregue ao adaptador do canal
+ */
+export interface ChannelMessage {
+  dispatch_id: string;
+  channel: NotificationChannel;
+  /** E-mail, telefone ou ID da inscrição push, conforme o canal */
+  to: string;
+  subject?: string;
+  /** Para e-mail, o corpo é HTML */
+  body: string;
+  /**
+   * Corpo mascarado registrado no despacho, quando difere de `body`.
+   * Adaptadores que persistem a mensagem devem gravar este corpo
+   */
+  redacted_body?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Resultado do envio pelo adaptador
+ */
+export interface ChannelSendResult {
+  status: NotificationDispatchStatus.SENT | NotificationDispatchStatus.BOUNCED;
+  provider_message_id?: string;
+  /** Motivo da rejeição quando status = BOUNCED */
+  reason?: string;
+}
+
+/**
+ * Contrato dos adaptadores de canal (SMTP, SMS, WhatsApp, Web Push, outbox)
+ *
+ * Erros lançados pelo adaptador são registrados como FAILED no despacho.
+ */
+export interface NotificationChannelProvider {
+  readonly name: string;
+  send(message: ChannelMessage): Promise<ChannelSendResult>;
+}
@@ -0,0 +1,2 @@
+export * from './channel-provider.interface';
+export * from './notification-dispatch-request.interface';
@@ -0,0 +1,25 @@
+import type { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import type { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+
+/**
+ * Solicitação de envio de uma notificação já renderizada para um canal
+ */
+export interface NotificationDispatchRequest {
+  channel: NotificationChannel;
+  /** E-mail, telefone ou ID da inscrição push, conforme o canal */
+  recipient: string;
+  notification_type: string;
+  subject?: string;
+  /** Para e-mail, o corpo é HTML */
+  body: string;
+  /**
+   * Corpo gravado no registro do despacho e na caixa de saída no lugar de
+   * `body`, para conteúdo sensível (ex.: código de confirmação). O envio usa
+   * sempre `body`; solicitações com este campo não podem ir para a fila.
+   */
+  redacted_body?: string;
+  data?: Record<string, unknown>;
+  recipient_type?: NotificationRecipientType;
+  recipient_id?: string;
+  delivery_id?: string;
+}
@@ -0,0 +1,217 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import {
+  NotificationDispatchFilterDto,
+  NotificationOutboxFilterDto,
+  NotificationSuppressionFilterDto,
+} from './dto/notification-filter.dto';
+import { MarkBouncedDto } from './dto/mark-bounced.dto';
+import { CreatePushSubscriptionDto } from './dto/create-push-subscription.dto';
+import {
+  NotificationDispatchResponseDto,
+  NotificationOutboxMessageResponseDto,
+  PushSubscriptionResponseDto,
+  NotificationSuppressionResponseDto,
+} from './dto/notification-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Controller de notificações
+ *
+ * Expõe o histórico de despachos por canal, a caixa de saída local,
+ * as decisões de supressão e o registro de inscrições Web Push.
+ * O log e a caixa de saída são restritos a quem tem permissão de notificações;
+ * inscrições push só podem ser registradas pelo próprio titular
+ */
+@ApiTags('Notifications')
+@Controller('notifications')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({ description: 'Token de autenticação inválido ou ausente' })
+@ApiForbiddenResponse({ description: 'Usuário sem permissão' })
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get('dispatches')
+  @RequirePermissions('notifications:read')
+  @ApiOperation({
+    summary: 'Listar despachos',
+    description: 'Lista as notificações despachadas com filtro por canal, status e entrega',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de despachos retornada com sucesso',
+    type: PaginatedResponseDto<NotificationDispatchResponseDto>,
+  })
+  async findDispatches(
+    @Query() filterDto: NotificationDispatchFilterDto,
+  ): Promise<PaginatedResponseDto<NotificationDispatchResponseDto>> {
+    return this.notificationsService.findDispatches(filterDto);
+  }
+
+  @Get('dispatches/:id')
+  @RequirePermissions('notifications:read')
+  @ApiOperation({
+    summary: 'Buscar despacho por ID',
+    description: 'Retorna o conteúdo renderizado, o adaptador utilizado e o status do envio',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do despacho',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Despacho encontrado com sucesso',
+    type: NotificationDispatchResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Despacho não encontrado',
+  })
+  async findDispatch(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<NotificationDispatchResponseDto> {
+    return this.notificationsService.findDispatch(id);
+  }
+
+  @Post('dispatches/:id/bounce')
+  @RequirePermissions('notifications:update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Registrar rejeição',
+    description:
+      'Marca como rejeitada (bounced) uma notificação enviada, conforme retorno do provedor',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do despacho',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Rejeição registrada com sucesso',
+    type: NotificationDispatchResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Notificação não está com status enviada',
+  })
+  @ApiNotFoundResponse({
+    description: 'Despacho não encontrado',
+  })
+  async markBounced(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() bouncedDto: MarkBouncedDto,
+  ): Promise<NotificationDispatchResponseDto> {
+    return this.notificationsService.markBounced(id, bouncedDto);
+  }
+
+  @Get('outbox')
+  @RequirePermissions('notifications:read')
+  @ApiOperation({
+    summary: 'Consultar caixa de saída local',
+    description: 'Lista as mensagens gravadas pelo adaptador outbox (ambiente local e testes)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Mensagens retornadas com sucesso',
+    type: PaginatedResponseDto<NotificationOutboxMessageResponseDto>,
+  })
+  async findOutbox(
+    @Query() filterDto: NotificationOutboxFilterDto,
+  ): Promise<PaginatedResponseDto<NotificationOutboxMessageResponseDto>> {
+    return this.notificationsService.findOutbox(filterDto);
+  }
+
+  @Get('suppressions')
+  @RequirePermissions('notifications:read')
+  @ApiOperation({
+    summary: 'Consultar supressões',
+    description:
+      'Lista as decisões de não envio ou retenção (canal não escolhido, consentimento revogado, horário de silêncio, contato ausente)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Decisões retornadas com sucesso',
+    type: PaginatedResponseDto<NotificationSuppressionResponseDto>,
+  })
+  async findSuppressions(
+    @Query() filterDto: NotificationSuppressionFilterDto,
+  ): Promise<PaginatedResponseDto<NotificationSuppressionResponseDto>> {
+    return this.notificationsService.findSuppressions(filterDto);
+  }
+
+  @Post('push-subscriptions')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Registrar inscrição Web Push',
+    description:
+      'Registra ou reativa a inscrição push do usuário autenticado ou do cliente/motorista vinculado a ele',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Inscrição registrada com sucesso',
+    type: PushSubscriptionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos',
+  })
+  async subscribePush(
+    @Body() createDto: CreatePushSubscriptionDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<PushSubscriptionResponseDto> {
+    return this.notificationsService.subscribePush(createDto, req.user);
+  }
+
+  @Delete('push-subscriptions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remover inscrição Web Push',
+    description: 'Remove uma inscrição push (soft delete)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da inscrição',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Inscrição removida com sucesso',
+  })
+  @ApiNotFoundResponse({
+    description: 'Inscrição não encontrada',
+  })
+  async unsubscribePush(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.notificationsService.unsubscribePush(id, req.user);
+  }
+}
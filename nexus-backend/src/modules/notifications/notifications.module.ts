@@ -0,0 +1,61 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { ScheduledNotificationsController } from './scheduled-notifications.controller';
+import { NotificationDispatch } from './entities/notification-dispatch.entity';
+import { NotificationOutboxMessage } from './entities/notification-outbox-message.entity';
+import { PushSubscription } from './entities/push-subscription.entity';
+import { ScheduledNotification } from './entities/scheduled-notification.entity';
+import { NotificationSuppression } from './entities/notification-suppression.entity';
+import { CustomerPreferences } from '../customers/entities/customer-preferences.entity';
+import { NotificationChannelRegistry } from './services/notification-channel-registry.service';
+import { NotificationDispatcherService } from './services/notification-dispatcher.service';
+import { NotificationQueueService } from './services/notification-queue.service';
+import { NotificationPreferencesService } from './services/notification-preferences.service';
+import { OutboxChannelProvider } from './providers/outbox-channel.provider';
+import { SmtpEmailProvider } from './providers/smtp-email.provider';
+import { HttpSmsProvider } from './providers/http-sms.provider';
+import { WhatsAppCloudProvider } from './providers/whatsapp-cloud.provider';
+import { WebPushProvider } from './providers/web-push.provider';
+import { MailModule } from '../mail/mail.module';
+import { LgpdModule } from '../lgpd/lgpd.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      NotificationDispatch,
+      NotificationOutboxMessage,
+      PushSubscription,
+      ScheduledNotification,
+      NotificationSuppression,
+      CustomerPreferences,
+    ]),
+    HttpModule,
+    MailModule,
+    LgpdModule,
+    AuthModule,
+  ],
+  controllers: [NotificationsController, ScheduledNotificationsController],
+  providers: [
+    NotificationsService,
+    NotificationDispatcherService,
+    NotificationQueueService,
+    NotificationPreferencesService,
+    NotificationChannelRegistry,
+    OutboxChannelProvider,
+    SmtpEmailProvider,
+    HttpSmsProvider,
+    WhatsAppCloudProvider,
+    WebPushProvider,
+  ],
+  exports: [
+    NotificationsService,
+    NotificationDispatcherService,
+    NotificationQueueService,
+    NotificationPreferencesService,
+  ],
+})
+export class NotificationsModule {}
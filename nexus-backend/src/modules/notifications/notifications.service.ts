@@ -0,0 +1,312 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere, ILike } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { NotificationDispatch } from './entities/notification-dispatch.entity';
+import { NotificationOutboxMessage } from './entities/notification-outbox-message.entity';
+import { PushSubscription } from './entities/push-subscription.entity';
+import { NotificationSuppression } from './entities/notification-suppression.entity';
+import {
+  NotificationDispatchFilterDto,
+  NotificationOutboxFilterDto,
+  NotificationSuppressionFilterDto,
+} from './dto/notification-filter.dto';
+import { MarkBouncedDto } from './dto/mark-bounced.dto';
+import { CreatePushSubscriptionDto } from './dto/create-push-subscription.dto';
+import {
+  NotificationDispatchResponseDto,
+  NotificationOutboxMessageResponseDto,
+  PushSubscriptionResponseDto,
+  NotificationSuppressionResponseDto,
+} from './dto/notification-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { NotificationDispatchStatus } from './enums/notification-dispatch-status.enum';
+import { NotificationRecipientType } from './enums/notification-recipient-type.enum';
+import type { User } from '../users/entities/user.entity';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    @InjectRepository(NotificationDispatch)
+    private readonly dispatchRepository: Repository<NotificationDispatch>,
+    @InjectRepository(NotificationOutboxMessage)
+    private readonly outboxRepository: Repository<NotificationOutboxMessage>,
+    @InjectRepository(PushSubscription)
+    private readonly subscriptionRepository: Repository<PushSubscription>,
+    @InjectRepository(NotificationSuppression)
+    private readonly suppressionRepository: Repository<NotificationSuppression>,
+  ) {}
+
+  async findDispatches(
+    filterDto: NotificationDispatchFilterDto,
+  ): Promise<PaginatedResponseDto<NotificationDispatchResponseDto>> {
+    const { page = 1, limit = 10, search, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<NotificationDispatch> = {};
+
+    if (search) {
+      where.recipient = ILike(`%${search}%`);
+    }
+    if (filters.channel) {
+      where.channel = filters.channel;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.delivery_id) {
+      where.delivery_id = filters.delivery_id;
+    }
+    if (filters.recipient_id) {
+      where.recipient_id = filters.recipient_id;
+    }
+
+    const [dispatches, total] = await this.dispatchRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: dispatches.map(dispatch => this.mapDispatchToResponseDto(dispatch)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findDispatch(id: string): Promise<NotificationDispatchResponseDto> {
+    const dispatch = await this.findDispatchOrFail(id);
+    return this.mapDispatchToResponseDto(dispatch);
+  }
+
+  /**
+   * Registra rejeição assíncrona informada pelo provedor (ex.: bounce de e-mail)
+   */
+  async markBounced(
+    id: string,
+    bouncedDto: MarkBouncedDto,
+  ): Promise<NotificationDispatchResponseDto> {
+    const dispatch = await this.findDispatchOrFail(id);
+
+    if (dispatch.status !== NotificationDispatchStatus.SENT) {
+      throw new BadRequestException(
+        `Apenas notificações enviadas podem ser rejeitadas (status atual: ${dispatch.status})`,
+      );
+    }
+
+    dispatch.status = NotificationDispatchStatus.BOUNCED;
+    dispatch.bounced_at = new Date();
+    dispatch.error_message = bouncedDto.reason;
+
+    const saved = await this.dispatchRepository.save(dispatch);
+
+    this.logger.warn(`Notificação ${id} marcada como rejeitada: ${bouncedDto.reason}`);
+
+    return this.mapDispatchToResponseDto(saved);
+  }
+
+  async findOutbox(
+    filterDto: NotificationOutboxFilterDto,
+  ): Promise<PaginatedResponseDto<NotificationOutboxMessageResponseDto>> {
+    const { page = 1, limit = 10, search, channel, recipient } = filterDto;
+
+    const where: FindOptionsWhere<NotificationOutboxMessage> = {};
+
+    if (search) {
+      where.body = ILike(`%${search}%`);
+    }
+    if (channel) {
+      where.channel = channel;
+    }
+    if (recipient) {
+      where.recipient = recipient;
+    }
+
+    const [messages, total] = await this.outboxRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: messages.map(message =>
+        plainToInstance(NotificationOutboxMessageResponseDto, message, {
+          excludeExtraneousValues: true,
+        }),
+      ),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Decisões de supressão (preferências, consentimento, horário de silêncio, contato ausente)
+   */
+  async findSuppressions(
+    filterDto: NotificationSuppressionFilterDto,
+  ): Promise<PaginatedResponseDto<NotificationSuppressionResponseDto>> {
+    const { page = 1, limit = 10, recipient_id, delivery_id, reason, channel } = filterDto;
+
+    const where: FindOptionsWhere<NotificationSuppression> = {};
+
+    if (recipient_id) {
+      where.recipient_id = recipient_id;
+    }
+    if (delivery_id) {
+      where.delivery_id = delivery_id;
+    }
+    if (reason) {
+      where.reason = reason;
+    }
+    if (channel) {
+      where.channel = channel;
+    }
+
+    const [suppressions, total] = await this.suppressionRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: suppressions.map(suppression =>
+        plainToInstance(NotificationSuppressionResponseDto, suppression, {
+          excludeExtraneousValues: true,
+        }),
+      ),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Registra (ou reativa) uma inscrição Web Push, identificada pelo endpoint
+   */
+  async subscribePush(
+    createDto: CreatePushSubscriptionDto,
+    user: User,
+  ): Promise<PushSubscriptionResponseDto> {
+    this.assertPushOwner(createDto.owner_type, createDto.owner_id, user);
+
+    const existing = await this.subscriptionRepository.findOne({
+      where: { endpoint: createDto.endpoint },
+      withDeleted: true,
+    });
+
+    const subscription = existing ?? this.subscriptionRepository.create();
+
+    Object.assign(subscription, {
+      owner_type: createDto.owner_type,
+      owner_id: createDto.owner_id,
+      endpoint: createDto.endpoint,
+      p256dh: createDto.keys.p256dh,
+      auth: createDto.keys.auth,
+      is_active: true,
+      deleted_at: null,
+    });
+    if (createDto.user_agent) {
+      subscription.user_agent = createDto.user_agent;
+    }
+
+    const saved = await this.subscriptionRepository.save(subscription);
+
+    this.logger.log(
+      `Inscrição push registrada: ${saved.id} (${saved.owner_type} ${saved.owner_id})`,
+    );
+
+    return plainToInstance(PushSubscriptionResponseDto, saved, { excludeExtraneousValues: true });
+  }
+
+  async unsubscribePush(id: string, user: User): Promise<void> {
+    const subscription = await this.subscriptionRepository.findOne({ where: { id } });
+
+    if (!subscription) {
+      throw new NotFoundException(`Inscrição push com ID ${id} não encontrada`);
+    }
+
+    this.assertPushOwner(subscription.owner_type, subscription.owner_id, user);
+
+    await this.subscriptionRepository.softRemove(subscription);
+
+    this.logger.log(`Inscrição push removida: ${id}`);
+  }
+
+  /**
+   * Inscrições push ativas de um titular
+   */
+  async findActivePushSubscriptions(
+    ownerType: NotificationRecipientType,
+    ownerId: string,
+  ): Promise<PushSubscription[]> {
+    return this.subscriptionRepository.find({
+      where: { owner_type: ownerType, owner_id: ownerId, is_active: true },
+    });
+  }
+
+  /**
+   * Inscrições push pertencem ao usuário ou ao cliente/motorista vinculado a ele
+   */
+  private assertPushOwner(ownerType: NotificationRecipientType, ownerId: string, user: User): void {
+    const linkedOwnerId = {
+      [NotificationRecipientType.USER]: user.id,
+      [NotificationRecipientType.CUSTOMER]: user.customer_id,
+      [NotificationRecipientType.DRIVER]: user.driver_id,
+    }[ownerType];
+
+    if (!linkedOwnerId || linkedOwnerId !== ownerId) {
+      throw new ForbiddenException('Inscrição push não pertence ao usuário autenticado');
+    }
+  }
+
+  private async findDispatchOrFail(id: string): Promise<NotificationDispatch> {
+    const dispatch = await this.dispatchRepository.findOne({ where: { id } });
+
+    if (!dispatch) {
+      throw new NotFoundException(`Notificação com ID ${id} não encontrada`);
+    }
+
+    return dispatch;
+  }
+
+  private mapDispatchToResponseDto(
+    dispatch: NotificationDispatch,
+  ): NotificationDispatchResponseDto {
+    return plainToInstance(NotificationDispatchResponseDto, dispatch, {
+      excludeExtraneousValues: true,
+    });
+  }
+}
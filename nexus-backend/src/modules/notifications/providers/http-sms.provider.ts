@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import type { NotificationsConfig } from '../../../config/notifications.config';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { toE164 } from '../utils/phone.util';
+import type { ChannelMessage, ChannelSendResult, NotificationChannelProvider } from '../interfaces';
+
+interface SmsGatewayResponse {
+  id?: string;
+  message_id?: string;
+}
+
+/**
+ * Adaptador de SMS via gateway HTTP genérico
+ *
+ * Envia `POST {SMS_GATEWAY_URL}` com `{ from, to, message }` e token Bearer
+ */
+@Injectable()
+export class HttpSmsProvider implements NotificationChannelProvider {
+  readonly name = 'http_sms';
+  private readonly config: NotificationsConfig['sms'];
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<NotificationsConfig>('notifications').sms;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    if (!this.config.gatewayUrl) {
+      throw new Error('SMS_GATEWAY_URL não configurado');
+    }
+
+    const to = toE164(message.to);
+    if (!to) {
+      return {
+        status: NotificationDispatchStatus.BOUNCED,
+        reason: `Telefone inválido: ${message.to}`,
+      };
+    }
+
+    const { data } = await firstValueFrom(
+      this.httpService.post<SmsGatewayResponse>(
+        this.config.gatewayUrl,
+        { from: this.config.sender, to, message: message.body },
+        { headers: { Authorization: `Bearer ${this.config.apiToken}` }, timeout: 10000 },
+      ),
+    );
+
+    const providerMessageId = data.id ?? data.message_id;
+
+    return {
+      status: NotificationDispatchStatus.SENT,
+      ...(providerMessageId ? { provider_message_id: providerMessageId } : {}),
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { OutboxChannelProvider } from './outbox-channel.provider';
+import { NotificationOutboxMessage } from '../entities/notification-outbox-message.entity';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+
+describe('OutboxChannelProvider', () => {
+  let provider: OutboxChannelProvider;
+
+  const mockOutboxRepository = {
+    create: jest.fn((data: Partial<NotificationOutboxMessage>) => data),
+    save: jest.fn((data: Partial<NotificationOutboxMessage>) =>
+      Promise.resolve({ id: 'outbox-1', ...data }),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxChannelProvider,
+        {
+          provide: getRepositoryToken(NotificationOutboxMessage),
+          useValue: mockOutboxRepository,
+        },
+      ],
+    }).compile();
+
+    provider = module.get<OutboxChannelProvider>(OutboxChannelProvider);
+  });
+
+  describe('send', () => {
+    it('should store the message body', async () => {
+      const result = await provider.send({
+        dispatch_id: 'dispatch-1',
+        channel: NotificationChannel.SMS,
+        to: '+5541999990000',
+        body: 'Sua entrega saiu para entrega',
+      });
+
+      expect(mockOutboxRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ body: 'Sua entrega saiu para entrega' }),
+      );
+      expect(result).toEqual({
+        status: NotificationDispatchStatus.SENT,
+        provider_message_id: 'outbox-1',
+      });
+    });
+
+    it('should store the redacted body instead of the sensitive one', async () => {
+      await provider.send({
+        dispatch_id: 'dispatch-1',
+        channel: NotificationChannel.SMS,
+        to: '+5541999990000',
+        body: 'Código de confirmação: 048213',
+        redacted_body: 'Código de confirmação: ******',
+      });
+
+      expect(mockOutboxRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ body: 'Código de confirmação: ******' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotificationOutboxMessage } from '../entities/notification-outbox-message.entity';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import type { ChannelMessage, ChannelSendResult, NotificationChannelProvider } from '../interfaces';
+
+/**
+ * Adaptador outbox: grava a mensagem na tabela notification_outbox
+ * Atende qualquer canal; usado localmente e em testes. Grava o corpo mascarado
+ * quando houver, como o log de despachos
+ */
+@Injectable()
+export class OutboxChannelProvider implements NotificationChannelProvider {
+  readonly name = 'outbox';
+
+  constructor(
+    @InjectRepository(NotificationOutboxMessage)
+    private readonly outboxRepository: Repository<NotificationOutboxMessage>,
+  ) {}
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const outboxMessage = this.outboxRepository.create({
+      dispatch_id: message.dispatch_id,
+      channel: message.channel,
+      recipient: message.to,
+      body: message.redacted_body ?? message.body,
+    });
+    if (message.subject) {
+      outboxMessage.subject = message.subject;
+    }
+    if (message.data) {
+      outboxMessage.data = message.data;
+    }
+
+    const saved = await this.outboxRepository.save(outboxMessage);
+
+    return { status: NotificationDispatchStatus.SENT, provider_message_id: saved.id };
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { MailService } from '../../mail/mail.service';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import type { ChannelMessage, ChannelSendResult, NotificationChannelProvider } from '../interfaces';
+
+/**
+ * Adaptador de e-mail via transporte SMTP do MailModule
+ */
+@Injectable()
+export class SmtpEmailProvider implements NotificationChannelProvider {
+  readonly name = 'smtp';
+
+  constructor(private readonly mailService: MailService) {}
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const result = await this.mailService.send({
+      to: [message.to],
+      subject: message.subject ?? '',
+      text: this.toPlainText(message.body),
+      html: message.body,
+    });
+
+    if (result.rejected.includes(message.to)) {
+      return {
+        status: NotificationDispatchStatus.BOUNCED,
+        reason: 'Destinatário recusado pelo servidor SMTP',
+        ...(result.message_id ? { provider_message_id: result.message_id } : {}),
+      };
+    }
+
+    return {
+      status: NotificationDispatchStatus.SENT,
+      ...(result.message_id ? { provider_message_id: result.message_id } : {}),
+    };
+  }
+
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|h\d|div|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n\s*\n+/g, '\n\n')
+      .trim();
+  }
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { sendNotification, WebPushError } from 'web-push';
+import type { NotificationsConfig } from '../../../config/notifications.config';
+import { PushSubscription } from '../entities/push-subscription.entity';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import type { ChannelMessage, ChannelSendResult, NotificationChannelProvider } from '../interfaces';
+
+/** Status HTTP que indicam inscrição expirada ou removida */
+const EXPIRED_SUBSCRIPTION_STATUS = [404, 410];
+
+/**
+ * Adaptador de Web Push (VAPID)
+ *
+ * O destinatário da mensagem é o ID da inscrição em push_subscriptions
+ */
+@Injectable()
+export class WebPushProvider implements NotificationChannelProvider {
+  readonly name = 'web_push';
+  private readonly config: NotificationsConfig['webPush'];
+
+  constructor(
+    @InjectRepository(PushSubscription)
+    private readonly subscriptionRepository: Repository<PushSubscription>,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<NotificationsConfig>('notifications').webPush;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    if (!this.config.publicKey || !this.config.privateKey) {
+      throw new Error('VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY não configurados');
+    }
+
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id: message.to, is_active: true },
+    });
+
+    if (!subscription) {
+      return {
+        status: NotificationDispatchStatus.BOUNCED,
+        reason: 'Inscrição push inexistente ou inativa',
+      };
+    }
+
+    try {
+      await sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify({ title: message.subject, body: message.body, data: message.data }),
+        {
+          vapidDetails: {
+            subject: this.config.subject,
+            publicKey: this.config.publicKey,
+            privateKey: this.config.privateKey,
+          },
+          TTL: 24 * 60 * 60,
+          timeout: 10000,
+        },
+      );
+    } catch (error) {
+      if (error instanceof WebPushError && EXPIRED_SUBSCRIPTION_STATUS.includes(error.statusCode)) {
+        await this.subscriptionRepository.update(subscription.id, { is_active: false });
+
+        return {
+          status: NotificationDispatchStatus.BOUNCED,
+          reason: `Inscrição expirada (HTTP ${error.statusCode})`,
+        };
+      }
+
+      throw error;
+    }
+
+    return { status: NotificationDispatchStatus.SENT };
+  }
+}
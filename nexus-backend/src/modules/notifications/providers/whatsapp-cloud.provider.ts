@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import type { NotificationsConfig } from '../../../config/notifications.config';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { toE164 } from '../utils/phone.util';
+import type { ChannelMessage, ChannelSendResult, NotificationChannelProvider } from '../interfaces';
+
+interface WhatsAppMessagesResponse {
+  messages?: { id: string }[];
+}
+
+/**
+ * Adaptador de WhatsApp via WhatsApp Business Cloud API
+ */
+@Injectable()
+export class WhatsAppCloudProvider implements NotificationChannelProvider {
+  readonly name = 'whatsapp_cloud';
+  private readonly config: NotificationsConfig['whatsapp'];
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<NotificationsConfig>('notifications').whatsapp;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    if (!this.config.phoneNumberId || !this.config.accessToken) {
+      throw new Error('WHATSAPP_PHONE_NUMBER_ID/WHATSAPP_ACCESS_TOKEN não configurados');
+    }
+
+    const to = toE164(message.to);
+    if (!to) {
+      return {
+        status: NotificationDispatchStatus.BOUNCED,
+        reason: `Telefone inválido: ${message.to}`,
+      };
+    }
+
+    const { data } = await firstValueFrom(
+      this.httpService.post<WhatsAppMessagesResponse>(
+        `${this.config.apiUrl}/${this.config.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          to: to.replace('+', ''),
+          type: 'text',
+          text: { body: message.body },
+        },
+        { headers: { Authorization: `Bearer ${this.config.accessToken}` }, timeout: 10000 },
+      ),
+    );
+
+    const providerMessageId = data.messages?.[0]?.id;
+
+    return {
+      status: NotificationDispatchStatus.SENT,
+      ...(providerMessageId ? { provider_message_id: providerMessageId } : {}),
+    };
+  }
+}
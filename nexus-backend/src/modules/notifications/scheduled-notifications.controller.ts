@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import { NotificationQueueService } from './services/notification-queue.service';
+import { ScheduledNotificationFilterDto } from './dto/scheduled-notification-filter.dto';
+import { ScheduledNotificationResponseDto } from './dto/notification-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+
+/**
+ * Controller administrativo da fila de notificações agendadas
+ *
+ * Permite acompanhar, cancelar e reenfileirar notificações agendadas
+ * ou movidas para dead-letter (apenas administradores)
+ */
+@ApiTags('Scheduled Notifications')
+@Controller('notifications/scheduled')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@ApiBearerAuth()
+@ApiForbiddenResponse({ description: 'Acesso restrito a administradores' })
+export class ScheduledNotificationsController {
+  constructor(private readonly notificationQueueService: NotificationQueueService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar notificações agendadas',
+    description: 'Lista a fila com filtro por status (inclusive dead-letter), canal e entrega',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista retornada com sucesso',
+    type: PaginatedResponseDto<ScheduledNotificationResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: ScheduledNotificationFilterDto,
+  ): Promise<PaginatedResponseDto<ScheduledNotificationResponseDto>> {
+    return this.notificationQueueService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Buscar notificação agendada por ID',
+    description: 'Retorna a notificação renderizada, tentativas e último erro',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notificação encontrada com sucesso',
+    type: ScheduledNotificationResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Notificação agendada não encontrada',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ScheduledNotificationResponseDto> {
+    return this.notificationQueueService.findOne(id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancelar notificação agendada',
+    description: 'Cancela uma notificação que ainda não foi enviada',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notificação cancelada com sucesso',
+    type: ScheduledNotificationResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Notificação não está agendada',
+  })
+  @ApiNotFoundResponse({
+    description: 'Notificação agendada não encontrada',
+  })
+  @ApiConflictResponse({
+    description: 'Notificação em processamento',
+  })
+  async cancel(@Param('id', ParseUUIDPipe) id: string): Promise<ScheduledNotificationResponseDto> {
+    return this.notificationQueueService.cancel(id);
+  }
+
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reenfileirar notificação',
+    description:
+      'Reenfileira para envio imediato uma notificação em dead-letter, cancelada ou concluída',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Notificação reenfileirada com sucesso',
+    type: ScheduledNotificationResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Notificação agendada não encontrada',
+  })
+  @ApiConflictResponse({
+    description: 'Notificação em processamento',
+  })
+  async replay(@Param('id', ParseUUIDPipe) id: string): Promise<ScheduledNotificationResponseDto> {
+    return this.notificationQueueService.replay(id);
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { NotificationsConfig } from '../../../config/notifications.config';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import type { NotificationChannelProvider } from '../interfaces';
+import { OutboxChannelProvider } from '../providers/outbox-channel.provider';
+import { SmtpEmailProvider } from '../providers/smtp-email.provider';
+import { HttpSmsProvider } from '../providers/http-sms.provider';
+import { WhatsAppCloudProvider } from '../providers/whatsapp-cloud.provider';
+import { WebPushProvider } from '../providers/web-push.provider';
+
+/**
+ * Registro dos adaptadores ativos por canal
+ *
+ * O adaptador de cada canal é escolhido por configuração (NOTIFICATION_*_PROVIDER).
+ * O canal PHONE (ligação) não possui envio automatizado.
+ */
+@Injectable()
+export class NotificationChannelRegistry {
+  private readonly logger = new Logger(NotificationChannelRegistry.name);
+  private readonly providers: Partial<Record<NotificationChannel, NotificationChannelProvider>>;
+
+  constructor(
+    configService: ConfigService,
+    outboxProvider: OutboxChannelProvider,
+    smtpEmailProvider: SmtpEmailProvider,
+    httpSmsProvider: HttpSmsProvider,
+    whatsAppCloudProvider: WhatsAppCloudProvider,
+    webPushProvider: WebPushProvider,
+  ) {
+    const { providers } = configService.getOrThrow<NotificationsConfig>('notifications');
+
+    this.providers = {
+      [NotificationChannel.EMAIL]: providers.email === 'smtp' ? smtpEmailProvider : outboxProvider,
+      [NotificationChannel.SMS]: providers.sms === 'http' ? httpSmsProvider : outboxProvider,
+      [NotificationChannel.WHATSAPP]:
+        providers.whatsapp === 'cloud_api' ? whatsAppCloudProvider : outboxProvider,
+      [NotificationChannel.PUSH]: providers.push === 'web_push' ? webPushProvider : outboxProvider,
+    };
+
+    this.logger.log(
+      `Adaptadores de notificação: ${Object.entries(this.providers)
+        .map(([channel, provider]) => `${channel}=${provider.name}`)
+        .join(', ')}`,
+    );
+  }
+
+  get(channel: NotificationChannel): NotificationChannelProvider | undefined {
+    return this.providers[channel];
+  }
+}
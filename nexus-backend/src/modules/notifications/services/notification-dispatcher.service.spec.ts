@@ -0,0 +1,91 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationChannelRegistry } from './notification-channel-registry.service';
+import { NotificationDispatch } from '../entities/notification-dispatch.entity';
+import { NotificationOutboxMessage } from '../entities/notification-outbox-message.entity';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { OutboxChannelProvider } from '../providers/outbox-channel.provider';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationType } from '../../deliveries/interfaces/notification.interface';
+
+describe('NotificationDispatcherService', () => {
+  let service: NotificationDispatcherService;
+
+  const plainCode = '048213';
+
+  const mockDispatchRepository = {
+    create: jest.fn((data: Partial<NotificationDispatch>) => data),
+    save: jest.fn((data: Partial<NotificationDispatch>) =>
+      Promise.resolve(Object.assign(data, { id: data.id ?? 'dispatch-1' })),
+    ),
+  };
+
+  const mockOutboxRepository = {
+    create: jest.fn((data: Partial<NotificationOutboxMessage>) => data),
+    save: jest.fn((data: Partial<NotificationOutboxMessage>) =>
+      Promise.resolve({ id: 'outbox-1', ...data }),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatcherService,
+        OutboxChannelProvider,
+        {
+          provide: NotificationChannelRegistry,
+          useFactory: (outboxProvider: OutboxChannelProvider) => ({
+            get: jest.fn(() => outboxProvider),
+          }),
+          inject: [OutboxChannelProvider],
+        },
+        { provide: getRepositoryToken(NotificationDispatch), useValue: mockDispatchRepository },
+        {
+          provide: getRepositoryToken(NotificationOutboxMessage),
+          useValue: mockOutboxRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationDispatcherService>(NotificationDispatcherService);
+  });
+
+  describe('dispatch', () => {
+    it('should never persist the plaintext confirmation code', async () => {
+      const dispatch = await service.dispatch({
+        channel: NotificationChannel.SMS,
+        recipient: '+5541999990000',
+        notification_type: NotificationType.DELIVERY_CONFIRMATION_CODE,
+        body: `Código de confirmação da entrega NT-000123: ${plainCode}`,
+        redacted_body: 'Código de confirmação da entrega NT-000123: ******',
+      });
+
+      expect(dispatch.status).toBe(NotificationDispatchStatus.SENT);
+
+      const [outboxRow] = mockOutboxRepository.save.mock.calls[0] ?? [];
+      expect(outboxRow).toEqual(
+        expect.objectContaining({
+          body: 'Código de confirmação da entrega NT-000123: ******',
+        }),
+      );
+      expect(JSON.stringify(mockOutboxRepository.save.mock.calls)).not.toContain(plainCode);
+      expect(JSON.stringify(mockDispatchRepository.save.mock.calls)).not.toContain(plainCode);
+    });
+
+    it('should store the body as sent when there is no redacted body', async () => {
+      await service.dispatch({
+        channel: NotificationChannel.SMS,
+        recipient: '+5541999990000',
+        notification_type: NotificationType.DELIVERY_ASSIGNED,
+        body: 'Sua entrega foi atribuída a um motorista',
+      });
+
+      expect(mockOutboxRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ body: 'Sua entrega foi atribuída a um motorista' }),
+      );
+    });
+  });
+});
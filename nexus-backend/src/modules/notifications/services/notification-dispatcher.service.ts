@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotificationDispatch } from '../entities/notification-dispatch.entity';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { NotificationChannelRegistry } from './notification-channel-registry.service';
+import type { NotificationDispatchRequest } from '../interfaces';
+
+/**
+ * Service de despacho de notificações
+ *
+ * Responsável por:
+ * - Persistir cada envio (QUEUED) antes de acionar o adaptador do canal
+ * - Atualizar o status conforme o resultado (SENT, FAILED, BOUNCED)
+ *
+ * @class NotificationDispatcherService
+ */
+@Injectable()
+export class NotificationDispatcherService {
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+
+  constructor(
+    @InjectRepository(NotificationDispatch)
+    private readonly dispatchRepository: Repository<NotificationDispatch>,
+    private readonly channelRegistry: NotificationChannelRegistry,
+  ) {}
+
+  /**
+   * Registra e envia uma notificação
+   *
+   * Nunca lança erro de envio: falhas ficam registradas no despacho retornado
+   */
+  async dispatch(request: NotificationDispatchRequest): Promise<NotificationDispatch> {
+    const dispatch = await this.register(request);
+    return this.send(dispatch, request.body);
+  }
+
+  /**
+   * Registra o despacho (QUEUED) sem enviá-lo
+   */
+  async register(request: NotificationDispatchRequest): Promise<NotificationDispatch> {
+    const { redacted_body, ...fields } = request;
+
+    return this.dispatchRepository.save(
+      this.dispatchRepository.create({
+        ...fields,
+        body: redacted_body ?? fields.body,
+        status: NotificationDispatchStatus.QUEUED,
+        attempts: 0,
+      }),
+    );
+  }
+
+  /**
+   * Envia um despacho registrado pelo adaptador do seu canal
+   *
+   * @param body - Corpo a enviar quando o registrado foi mascarado (`redacted_body`)
+   */
+  async send(dispatch: NotificationDispatch, body?: string): Promise<NotificationDispatch> {
+    const provider = this.channelRegistry.get(dispatch.channel);
+
+    dispatch.attempts += 1;
+
+    if (!provider) {
+      dispatch.status = NotificationDispatchStatus.FAILED;
+      dispatch.error_message = `Canal ${dispatch.channel} sem adaptador configurado`;
+      return this.dispatchRepository.save(dispatch);
+    }
+
+    dispatch.provider = provider.name;
+
+    try {
+      const result = await provider.send({
+        dispatch_id: dispatch.id,
+        channel: dispatch.channel,
+        to: dispatch.recipient,
+        body: body ?? dispatch.body,
+        ...(body !== undefined && body !== dispatch.body ? { redacted_body: dispatch.body } : {}),
+        ...(dispatch.subject ? { subject: dispatch.subject } : {}),
+        ...(dispatch.data ? { data: dispatch.data } : {}),
+      });
+
+      dispatch.status = result.status;
+      if (result.provider_message_id) {
+        dispatch.provider_message_id = result.provider_message_id;
+      }
+
+      if (result.status === NotificationDispatchStatus.BOUNCED) {
+        dispatch.bounced_at = new Date();
+        if (result.reason) {
+          dispatch.error_message = result.reason;
+        }
+        this.logger.warn(
+          `Notificação ${dispatch.id} rejeitada (${dispatch.channel}): ${result.reason ?? 'sem motivo'}`,
+        );
+      } else {
+        dispatch.sent_at = new Date();
+      }
+    } catch (error) {
+      dispatch.status = NotificationDispatchStatus.FAILED;
+      dispatch.error_message = error instanceof Error ? error.message : String(error);
+
+      this.logger.error(
+        `Falha ao enviar notificação ${dispatch.id} via ${provider.name}: ${dispatch.error_message}`,
+      );
+    }
+
+    return this.dispatchRepository.save(dispatch);
+  }
+}
@@ -0,0 +1,129 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Logger } from '@nestjs/common';
+import {
+  NotificationPreferencesService,
+  type CustomerNotificationContext,
+} from './notification-preferences.service';
+import { CustomerPreferences } from '../../customers/entities/customer-preferences.entity';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { ConsentService } from '../../lgpd/consent.service';
+import { ConsentType } from '../../lgpd/enums/lgpdEnums';
+import { NotificationSuppression } from '../entities/notification-suppression.entity';
+import { NotificationSuppressionReason } from '../enums/notification-suppression-reason.enum';
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+  let logSpy: jest.SpyInstance;
+
+  const customerId = '11111111-1111-4111-8111-111111111111';
+
+  const mockPreferencesRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockSuppressionRepository = {
+    create: jest.fn((data: Partial<NotificationSuppression>) => data),
+    save: jest.fn(),
+  };
+
+  const mockConsentService = {
+    hasRevokedConsent: jest.fn(),
+  };
+
+  const buildContext = (
+    overrides: Partial<CustomerNotificationContext> = {},
+  ): CustomerNotificationContext => ({
+    customer_id: customerId,
+    notification_type: 'DELIVERY_COMPLETED',
+    requested_channels: [NotificationChannel.EMAIL, NotificationChannel.PUSH],
+    critical: false,
+    marketing: false,
+    at: new Date('2024-03-10T15:00:00.000Z'),
+    ...overrides,
+  });
+
+  const revoke = (...revoked: ConsentType[]): void => {
+    mockConsentService.hasRevokedConsent.mockImplementation((_: string, type: ConsentType) =>
+      Promise.resolve(revoked.includes(type)),
+    );
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    mockPreferencesRepository.findOne.mockResolvedValue(null);
+    revoke();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        { provide: getRepositoryToken(CustomerPreferences), useValue: mockPreferencesRepository },
+        {
+          provide: getRepositoryToken(NotificationSuppression),
+          useValue: mockSuppressionRepository,
+        },
+        { provide: ConsentService, useValue: mockConsentService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationPreferencesService>(NotificationPreferencesService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  describe('evaluate', () => {
+    it('should keep transactional notifications when marketing consent was revoked', async () => {
+      revoke(ConsentType.MARKETING_COMMUNICATIONS);
+
+      const decision = await service.evaluate(buildContext());
+
+      expect(decision.channels).toEqual([NotificationChannel.EMAIL, NotificationChannel.PUSH]);
+      expect(mockConsentService.hasRevokedConsent).not.toHaveBeenCalledWith(
+        customerId,
+        ConsentType.MARKETING_COMMUNICATIONS,
+      );
+      expect(mockSuppressionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should suppress marketing notifications when marketing consent was revoked', async () => {
+      revoke(ConsentType.MARKETING_COMMUNICATIONS);
+
+      const decision = await service.evaluate(buildContext({ marketing: true }));
+
+      expect(decision.channels).toEqual([]);
+      expect(mockSuppressionRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          recipient_id: customerId,
+          reason: NotificationSuppressionReason.CONSENT_REVOKED,
+          details: `Consentimento ${ConsentType.MARKETING_COMMUNICATIONS} revogado`,
+        }),
+      ]);
+    });
+
+    it('should let critical notifications bypass the marketing consent', async () => {
+      revoke(ConsentType.MARKETING_COMMUNICATIONS);
+
+      const decision = await service.evaluate(buildContext({ marketing: true, critical: true }));
+
+      expect(decision.channels).toEqual([NotificationChannel.EMAIL, NotificationChannel.PUSH]);
+    });
+
+    it('should drop only the push channel when push consent was revoked', async () => {
+      revoke(ConsentType.PUSH_NOTIFICATIONS);
+
+      const decision = await service.evaluate(buildContext());
+
+      expect(decision.channels).toEqual([NotificationChannel.EMAIL]);
+      expect(mockSuppressionRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          channel: NotificationChannel.PUSH,
+          reason: NotificationSuppressionReason.CONSENT_REVOKED,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CustomerPreferences } from '../../customers/entities/customer-preferences.entity';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { ConsentService } from '../../lgpd/consent.service';
+import { ConsentType } from '../../lgpd/enums/lgpdEnums';
+import { NotificationSuppression } from '../entities/notification-suppression.entity';
+import { NotificationSuppressionReason } from '../enums/notification-suppression-reason.enum';
+import { NotificationRecipientType } from '../enums/notification-recipient-type.enum';
+import { resolveQuietHoursRelease } from '../utils/quiet-hours.util';
+
+const QUIET_HOURS_TIMEZONE = 'America/Sao_Paulo';
+
+/**
+ * Contexto da notificação avaliada para um cliente
+ */
+export interface CustomerNotificationContext {
+  customer_id: string;
+  notification_type: string;
+  delivery_id?: string;
+  /** Canais solicitados pelo remetente (usados quando o cliente não escolheu canais) */
+  requested_channels: NotificationChannel[];
+  /** Notificações críticas ignoram o horário de silêncio e o consentimento de marketing */
+  critical: boolean;
+  /** Comunicações de marketing dependem do consentimento MARKETING_COMMUNICATIONS */
+  marketing: boolean;
+  /** Momento previsto para o envio */
+  at: Date;
+}
+
+/**
+ * Resultado da avaliação: canais liberados e retenção por horário de silêncio
+ */
+export interface CustomerNotificationDecision {
+  channels: NotificationChannel[];
+  hold_until?: Date;
+}
+
+/**
+ * Registro de supressão
+ */
+export interface NotificationSuppressionRecord {
+  recipient_type: NotificationRecipientType;
+  recipient_id: string;
+  notification_type: string;
+  reason: NotificationSuppressionReason;
+  delivery_id?: string;
+  channel?: NotificationChannel;
+  details?: string;
+  held_until?: Date;
+}
+
+/**
+ * Service de preferências de notificação de clientes
+ *
+ * Responsável por:
+ * - Rotear pelos canais escolhidos pelo cliente (CustomerPreferences.notificationChannels)
+ * - Excluir clientes que revogaram consentimentos LGPD de marketing (só comunicações de
+ *   marketing não críticas) e de push
+ * - Reter mensagens não críticas fora da janela preferida (horário de silêncio)
+ * - Registrar cada decisão de supressão para consulta do suporte
+ *
+ * @class NotificationPreferencesService
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  private readonly logger = new Logger(NotificationPreferencesService.name);
+
+  constructor(
+    @InjectRepository(CustomerPreferences)
+    private readonly preferencesRepository: Repository<CustomerPreferences>,
+    @InjectRepository(NotificationSuppression)
+    private readonly suppressionRepository: Repository<NotificationSuppression>,
+    private readonly consentService: ConsentService,
+  ) {}
+
+  /**
+   * Avalia preferências, consentimentos e horário de silêncio de um cliente
+   */
+  async evaluate(context: CustomerNotificationContext): Promise<CustomerNotificationDecision> {
+    const suppressions: NotificationSuppressionRecord[] = [];
+    const base = {
+      recipient_type: NotificationRecipientType.CUSTOMER,
+      recipient_id: context.customer_id,
+      notification_type: context.notification_type,
+      ...(context.delivery_id ? { delivery_id: context.delivery_id } : {}),
+    };
+
+    const preferences = await this.preferencesRepository.findOne({
+      where: { customerId: context.customer_id, isActive: true },
+      order: { created_at: 'DESC' },
+    });
+
+    const preferredChannels = (preferences?.notificationChannels ?? []).filter(
+      (channel): channel is NotificationChannel =>
+        Object.values(NotificationChannel).includes(channel as NotificationChannel),
+    );
+
+    let channels = [...new Set(context.requested_channels)];
+
+    if (preferredChannels.length > 0) {
+      for (const channel of channels.filter(channel => !preferredChannels.includes(channel))) {
+        suppressions.push({
+          ...base,
+          channel,
+          reason: NotificationSuppressionReason.CHANNEL_NOT_PREFERRED,
+          details: `Canais escolhidos pelo cliente: ${preferredChannels.join(', ')}`,
+        });
+      }
+      channels = [...new Set(preferredChannels)];
+    }
+
+    if (
+      context.marketing &&
+      !context.critical &&
+      channels.length > 0 &&
+      (await this.consentService.hasRevokedConsent(
+        context.customer_id,
+        ConsentType.MARKETING_COMMUNICATIONS,
+      ))
+    ) {
+      suppressions.push({
+        ...base,
+        reason: NotificationSuppressionReason.CONSENT_REVOKED,
+        details: `Consentimento ${ConsentType.MARKETING_COMMUNICATIONS} revogado`,
+      });
+      channels = [];
+    }
+
+    if (
+      channels.includes(NotificationChannel.PUSH) &&
+      (await this.consentService.hasRevokedConsent(
+        context.customer_id,
+        ConsentType.PUSH_NOTIFICATIONS,
+      ))
+    ) {
+      suppressions.push({
+        ...base,
+        channel: NotificationChannel.PUSH,
+        reason: NotificationSuppressionReason.CONSENT_REVOKED,
+        details: `Consentimento ${ConsentType.PUSH_NOTIFICATIONS} revogado`,
+      });
+      channels = channels.filter(channel => channel !== NotificationChannel.PUSH);
+    }
+
+    let holdUntil: Date | null = null;
+
+    if (channels.length > 0 && !context.critical && preferences) {
+      holdUntil = resolveQuietHoursRelease(
+        context.at,
+        {
+          start: preferences.preferredDeliveryTimeStart,
+          end: preferences.preferredDeliveryTimeEnd,
+          days: preferences.preferredDeliveryDays,
+        },
+        QUIET_HOURS_TIMEZONE,
+      );
+
+      if (holdUntil) {
+        suppressions.push({
+          ...base,
+          reason: NotificationSuppressionReason.QUIET_HOURS,
+          details: `Fora da janela preferida (${preferences.preferredDeliveryTimeStart ?? '00:00'}-${preferences.preferredDeliveryTimeEnd ?? '24:00'})`,
+          held_until: holdUntil,
+        });
+      }
+    }
+
+    await this.record(suppressions);
+
+    return {
+      channels,
+      ...(holdUntil ? { hold_until: holdUntil } : {}),
+    };
+  }
+
+  /**
+   * Registra decisões de supressão
+   */
+  async record(suppressions: NotificationSuppressionRecord[]): Promise<void> {
+    if (suppressions.length === 0) {
+      return;
+    }
+
+    await this.suppressionRepository.save(
+      suppressions.map(suppression => this.suppressionRepository.create(suppression)),
+    );
+
+    for (const suppression of suppressions) {
+      this.logger.log(
+        `Notificação ${suppression.notification_type} suprimida para ${suppression.recipient_type} ${suppression.recipient_id} (${suppression.channel ?? 'todos os canais'}): ${suppression.reason}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DataSource } from 'typeorm';
+import { NotificationQueueService } from './notification-queue.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { ScheduledNotification } from '../entities/scheduled-notification.entity';
+import { NotificationDispatch } from '../entities/notification-dispatch.entity';
+import { ScheduledNotificationStatus } from '../enums/scheduled-notification-status.enum';
+import { NotificationChannel } from '../../customers/enums/notification-channel.enum';
+import { NotificationType } from '../../deliveries/interfaces/notification.interface';
+
+describe('NotificationQueueService', () => {
+  let service: NotificationQueueService;
+
+  const mockScheduledRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<ScheduledNotification>) => data),
+    save: jest.fn((data: Partial<ScheduledNotification>) =>
+      Promise.resolve({ id: 'job-1', ...data }),
+    ),
+    update: jest.fn(),
+  };
+
+  const mockConfigService = {
+    getOrThrow: jest.fn(() => ({
+      queue: {
+        pollIntervalMs: 5000,
+        batchSize: 20,
+        maxAttempts: 5,
+        backoffBaseMs: 30000,
+        backoffMaxMs: 3600000,
+        lockTimeoutMs: 300000,
+      },
+    })),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationQueueService,
+        {
+          provide: getRepositoryToken(ScheduledNotification),
+          useValue: mockScheduledRepository,
+        },
+        { provide: getRepositoryToken(NotificationDispatch), useValue: { findOne: jest.fn() } },
+        { provide: DataSource, useValue: { transaction: jest.fn() } },
+        { provide: SchedulerRegistry, useValue: { addInterval: jest.fn() } },
+        { provide: NotificationDispatcherService, useValue: { register: jest.fn() } },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationQueueService>(NotificationQueueService);
+  });
+
+  describe('enqueue', () => {
+    const options = { run_at: new Date(), idempotency_key: 'delivery-1:eta' };
+
+    it('should persist the request as the job payload', async () => {
+      mockScheduledRepository.findOne.mockResolvedValue(null);
+
+      const job = await service.enqueue(
+        {
+          channel: NotificationChannel.SMS,
+          recipient: '+5541999990000',
+          notification_type: NotificationType.DELIVERY_ETA_UPDATED,
+          body: 'A previsão de chegada da sua entrega foi atualizada',
+        },
+        options,
+      );
+
+      expect(job.status).toBe(ScheduledNotificationStatus.PENDING);
+      expect(mockScheduledRepository.save).toHaveBeenCalled();
+    });
+
+    it('should refuse sensitive content, which would be stored in plaintext', async () => {
+      await expect(
+        service.enqueue(
+          {
+            channel: NotificationChannel.SMS,
+            recipient: '+5541999990000',
+            notification_type: NotificationType.DELIVERY_CONFIRMATION_CODE,
+            body: 'Código de confirmação: 048213',
+            redacted_body: 'Código de confirmação: ******',
+          },
+          options,
+        ),
+      ).rejects.toThrow('conteúdo sensível');
+
+      expect(mockScheduledRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replay', () => {
+    const deadLetter = {
+      id: 'job-1',
+      status: ScheduledNotificationStatus.DEAD_LETTER,
+      attempts: 5,
+      dead_lettered_at: new Date('2024-03-10T12:00:00.000Z'),
+    } as ScheduledNotification;
+
+    let logSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+    });
+
+    it('should requeue the job only if it is still in the status that was read', async () => {
+      mockScheduledRepository.findOne.mockResolvedValue(deadLetter);
+      mockScheduledRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.replay(deadLetter.id);
+
+      expect(mockScheduledRepository.update).toHaveBeenCalledWith(
+        { id: deadLetter.id, status: ScheduledNotificationStatus.DEAD_LETTER },
+        expect.objectContaining({
+          status: ScheduledNotificationStatus.PENDING,
+          attempts: 0,
+          run_at: expect.any(Date),
+          dead_lettered_at: null,
+        }),
+      );
+      expect(mockScheduledRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should start a new dispatch when replaying a completed job', async () => {
+      mockScheduledRepository.findOne.mockResolvedValue({
+        ...deadLetter,
+        status: ScheduledNotificationStatus.COMPLETED,
+        dispatch_id: 'dispatch-1',
+      });
+      mockScheduledRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.replay(deadLetter.id);
+
+      expect(mockScheduledRepository.update).toHaveBeenCalledWith(
+        { id: deadLetter.id, status: ScheduledNotificationStatus.COMPLETED },
+        expect.objectContaining({ dispatch_id: null, completed_at: null }),
+      );
+    });
+
+    it('should reject a concurrent replay that already changed the job', async () => {
+      mockScheduledRepository.findOne.mockResolvedValue(deadLetter);
+      mockScheduledRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.replay(deadLetter.id)).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('should not requeue a job that is being processed', async () => {
+      mockScheduledRepository.findOne.mockResolvedValue({
+        ...deadLetter,
+        status: ScheduledNotificationStatus.PROCESSING,
+      });
+
+      await expect(service.replay(deadLetter.id)).rejects.toBeInstanceOf(ConflictException);
+
+      expect(mockScheduledRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
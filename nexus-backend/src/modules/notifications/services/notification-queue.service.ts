@@ -0,0 +1,401 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  type OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository, In, LessThan, FindOptionsWhere } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { ScheduledNotification } from '../entities/scheduled-notification.entity';
+import { NotificationDispatch } from '../entities/notification-dispatch.entity';
+import { ScheduledNotificationStatus } from '../enums/scheduled-notification-status.enum';
+import { NotificationDispatchStatus } from '../enums/notification-dispatch-status.enum';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { ScheduledNotificationFilterDto } from '../dto/scheduled-notification-filter.dto';
+import { ScheduledNotificationResponseDto } from '../dto/notification-response.dto';
+import { PaginatedResponseDto } from '../../../common/dto/paginated-response.dto';
+import { computeBackoffDelay } from '../utils/backoff.util';
+import type { NotificationDispatchRequest } from '../interfaces';
+import type { NotificationsConfig } from '../../../config/notifications.config';
+
+const QUEUE_INTERVAL_NAME = 'notification-queue';
+
+export interface EnqueueNotificationOptions {
+  run_at: Date;
+  idempotency_key: string;
+  max_attempts?: number;
+}
+
+/**
+ * Service da fila persistente de notificações com atraso
+ *
+ * Responsável por:
+ * - Enfileirar notificações renderizadas com data de execução e chave de idempotência
+ * - Processar periodicamente as notificações vencidas (SELECT ... FOR UPDATE SKIP LOCKED)
+ * - Retentar falhas com backoff exponencial e mover para dead-letter ao esgotar tentativas
+ * - Liberar reservas de workers interrompidos (reinicialização da aplicação)
+ *
+ * @class NotificationQueueService
+ */
+@Injectable()
+export class NotificationQueueService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(NotificationQueueService.name);
+  private readonly config: NotificationsConfig['queue'];
+  private processing = false;
+
+  constructor(
+    @InjectRepository(ScheduledNotification)
+    private readonly scheduledRepository: Repository<ScheduledNotification>,
+    @InjectRepository(NotificationDispatch)
+    private readonly dispatchRepository: Repository<NotificationDispatch>,
+    private readonly dataSource: DataSource,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly notificationDispatcher: NotificationDispatcherService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<NotificationsConfig>('notifications').queue;
+  }
+
+  /**
+   * Registra o worker de polling na inicialização da aplicação
+   */
+  onApplicationBootstrap(): void {
+    const interval = setInterval(() => {
+      void this.processDue().catch((error: unknown) =>
+        this.logger.error('Erro ao processar fila de notificações:', error),
+      );
+    }, this.config.pollIntervalMs);
+
+    this.schedulerRegistry.addInterval(QUEUE_INTERVAL_NAME, interval);
+
+    this.logger.log(`Fila de notificações ativa (intervalo de ${this.config.pollIntervalMs}ms)`);
+  }
+
+  /**
+   * Enfileira uma notificação para envio a partir de run_at
+   *
+   * Chamadas repetidas com a mesma chave de idempotência retornam o agendamento existente.
+   * Conteúdo sensível (`redacted_body`) não é aceito: o payload da fila é persistido
+   */
+  async enqueue(
+    request: NotificationDispatchRequest,
+    options: EnqueueNotificationOptions,
+  ): Promise<ScheduledNotification> {
+    if (request.redacted_body !== undefined) {
+      throw new Error(
+        `Notificação ${request.notification_type} com conteúdo sensível não pode ser agendada`,
+      );
+    }
+
+    const existing = await this.scheduledRepository.findOne({
+      where: { idempotency_key: options.idempotency_key },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    let scheduled: ScheduledNotification;
+
+    try {
+      scheduled = await this.scheduledRepository.save(
+        this.scheduledRepository.create({
+          idempotency_key: options.idempotency_key,
+          status: ScheduledNotificationStatus.PENDING,
+          channel: request.channel,
+          ...(request.delivery_id ? { delivery_id: request.delivery_id } : {}),
+          payload: request,
+          run_at: options.run_at,
+          attempts: 0,
+          max_attempts: options.max_attempts ?? this.config.maxAttempts,
+        }),
+      );
+    } catch (error) {
+      // Agendamento concorrente com a mesma chave (índice único)
+      const concurrent = await this.scheduledRepository.findOne({
+        where: { idempotency_key: options.idempotency_key },
+      });
+
+      if (!concurrent) {
+        throw error;
+      }
+
+      return concurrent;
+    }
+
+    this.logger.log(
+      `Notificação ${scheduled.id} agendada para ${scheduled.run_at.toISOString()} (${scheduled.channel})`,
+    );
+
+    return scheduled;
+  }
+
+  /**
+   * Processa um lote de notificações vencidas
+   *
+   * @returns Quantidade de notificações processadas
+   */
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+
+    this.processing = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      const jobs = await this.claimDue();
+
+      for (const job of jobs) {
+        await this.process(job);
+      }
+
+      return jobs.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  async findAll(
+    filterDto: ScheduledNotificationFilterDto,
+  ): Promise<PaginatedResponseDto<ScheduledNotificationResponseDto>> {
+    const { page = 1, limit = 10, status, channel, delivery_id } = filterDto;
+
+    const where: FindOptionsWhere<ScheduledNotification> = {};
+
+    if (status) {
+      where.status = status;
+    }
+    if (channel) {
+      where.channel = channel;
+    }
+    if (delivery_id) {
+      where.delivery_id = delivery_id;
+    }
+
+    const [jobs, total] = await this.scheduledRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { run_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: jobs.map(job => this.mapToResponseDto(job)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<ScheduledNotificationResponseDto> {
+    const job = await this.findJobOrFail(id);
+    return this.mapToResponseDto(job);
+  }
+
+  /**
+   * Cancela uma notificação ainda não enviada
+   */
+  async cancel(id: string): Promise<ScheduledNotificationResponseDto> {
+    const job = await this.findJobOrFail(id);
+
+    if (job.status !== ScheduledNotificationStatus.PENDING) {
+      throw new BadRequestException(
+        `Apenas notificações agendadas podem ser canceladas (status atual: ${job.status})`,
+      );
+    }
+
+    // Atualização condicional: o worker pode ter reservado a notificação após a leitura
+    const result = await this.scheduledRepository.update(
+      { id, status: ScheduledNotificationStatus.PENDING },
+      { status: ScheduledNotificationStatus.CANCELLED, cancelled_at: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException(`Notificação ${id} está em processamento`);
+    }
+
+    this.logger.log(`Notificação agendada cancelada: ${id}`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Reenfileira uma notificação para envio imediato
+   *
+   * Notificações concluídas geram um novo despacho; as demais retomam o despacho existente.
+   */
+  async replay(id: string): Promise<ScheduledNotificationResponseDto> {
+    const job = await this.findJobOrFail(id);
+
+    if (job.status === ScheduledNotificationStatus.PROCESSING) {
+      throw new ConflictException(`Notificação ${id} está em processamento`);
+    }
+
+    // Atualização condicional: o worker ou outro replay podem ter mudado o status após a leitura
+    const result = await this.scheduledRepository.update(
+      { id, status: job.status },
+      {
+        status: ScheduledNotificationStatus.PENDING,
+        attempts: 0,
+        run_at: new Date(),
+        dead_lettered_at: null,
+        cancelled_at: null,
+        ...(job.status === ScheduledNotificationStatus.COMPLETED
+          ? { dispatch_id: null, completed_at: null }
+          : {}),
+      },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException(`Notificação ${id} foi alterada durante o reenfileiramento`);
+    }
+
+    this.logger.log(`Notificação agendada reenfileirada: ${id}`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Reserva as notificações vencidas, ignorando as já reservadas por outro worker
+   */
+  private async claimDue(): Promise<ScheduledNotification[]> {
+    return this.dataSource.transaction(async manager => {
+      const jobs = await manager
+        .getRepository(ScheduledNotification)
+        .createQueryBuilder('job')
+        .where('job.status = :status', { status: ScheduledNotificationStatus.PENDING })
+        .andWhere('job.run_at <= :now', { now: new Date() })
+        .orderBy('job.run_at', 'ASC')
+        .limit(this.config.batchSize)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (jobs.length === 0) {
+        return [];
+      }
+
+      const lockedAt = new Date();
+      await manager.update(
+        ScheduledNotification,
+        { id: In(jobs.map(job => job.id)) },
+        { status: ScheduledNotificationStatus.PROCESSING, locked_at: lockedAt },
+      );
+
+      return jobs.map(job =>
+        Object.assign(job, { status: ScheduledNotificationStatus.PROCESSING, locked_at: lockedAt }),
+      );
+    });
+  }
+
+  /**
+   * Devolve à fila as notificações reservadas por workers que não concluíram
+   */
+  private async releaseStaleLocks(): Promise<void> {
+    const result = await this.scheduledRepository.update(
+      {
+        status: ScheduledNotificationStatus.PROCESSING,
+        locked_at: LessThan(new Date(Date.now() - this.config.lockTimeoutMs)),
+      },
+      { status: ScheduledNotificationStatus.PENDING, locked_at: null },
+    );
+
+    if (result.affected) {
+      this.logger.warn(
+        `${result.affected} notificação(ões) com reserva expirada devolvida(s) à fila`,
+      );
+    }
+  }
+
+  /**
+   * Envia uma notificação reservada e atualiza seu estado na fila
+   *
+   * O despacho é registrado antes do envio; se já tiver sido enviado (worker interrompido
+   * após o envio), a notificação é apenas concluída, sem reenvio.
+   */
+  private async process(job: ScheduledNotification): Promise<void> {
+    job.attempts += 1;
+
+    try {
+      let dispatch = job.dispatch_id
+        ? await this.dispatchRepository.findOne({ where: { id: job.dispatch_id } })
+        : null;
+
+      if (!dispatch) {
+        dispatch = await this.notificationDispatcher.register(job.payload);
+        job.dispatch_id = dispatch.id;
+        await this.scheduledRepository.update(job.id, { dispatch_id: dispatch.id });
+      }
+
+      if (
+        dispatch.status === NotificationDispatchStatus.QUEUED ||
+        dispatch.status === NotificationDispatchStatus.FAILED
+      ) {
+        dispatch = await this.notificationDispatcher.send(dispatch);
+      }
+
+      if (dispatch.status === NotificationDispatchStatus.FAILED) {
+        throw new Error(dispatch.error_message ?? 'Falha no envio da notificação');
+      }
+
+      job.status = ScheduledNotificationStatus.COMPLETED;
+      job.completed_at = new Date();
+    } catch (error) {
+      job.last_error = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= job.max_attempts) {
+        job.status = ScheduledNotificationStatus.DEAD_LETTER;
+        job.dead_lettered_at = new Date();
+
+        this.logger.error(
+          `Notificação ${job.id} movida para dead-letter após ${job.attempts} tentativa(s): ${job.last_error}`,
+        );
+      } else {
+        const delay = computeBackoffDelay(
+          job.attempts,
+          this.config.backoffBaseMs,
+          this.config.backoffMaxMs,
+        );
+        job.status = ScheduledNotificationStatus.PENDING;
+        job.run_at = new Date(Date.now() + delay);
+
+        this.logger.warn(
+          `Notificação ${job.id} falhou (tentativa ${job.attempts}/${job.max_attempts}), nova tentativa em ${delay}ms: ${job.last_error}`,
+        );
+      }
+    }
+
+    job.locked_at = null;
+    await this.scheduledRepository.save(job);
+  }
+
+  private async findJobOrFail(id: string): Promise<ScheduledNotification> {
+    const job = await this.scheduledRepository.findOne({ where: { id } });
+
+    if (!job) {
+      throw new NotFoundException(`Notificação agendada com ID ${id} não encontrada`);
+    }
+
+    return job;
+  }
+
+  private mapToResponseDto(job: ScheduledNotification): ScheduledNotificationResponseDto {
+    return plainToInstance(ScheduledNotificationResponseDto, job, {
+      excludeExtraneousValues: true,
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { computeBackoffDelay } from './backoff.util';
+
+describe('computeBackoffDelay', () => {
+  it('should double the delay on each attempt', () => {
+    expect(computeBackoffDelay(1, 30000, 3600000)).toBe(30000);
+    expect(computeBackoffDelay(2, 30000, 3600000)).toBe(60000);
+    expect(computeBackoffDelay(3, 30000, 3600000)).toBe(120000);
+  });
+
+  it('should cap the delay at the maximum', () => {
+    expect(computeBackoffDelay(10, 30000, 3600000)).toBe(3600000);
+  });
+
+  it('should treat attempt zero as the first attempt', () => {
+    expect(computeBackoffDelay(0, 1000, 10000)).toBe(1000);
+  });
+});
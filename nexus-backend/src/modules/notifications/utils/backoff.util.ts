@@ -0,0 +1,12 @@
+/**
+ * Calcula o atraso da próxima tentativa com backoff exponencial
+ *
+ * @param attempt - Número da tentativa que falhou (1, 2, 3...)
+ * @param baseMs - Atraso após a primeira falha
+ * @param maxMs - Atraso máximo
+ * @returns Atraso em milissegundos (base * 2^(tentativa - 1), limitado ao máximo)
+ */
+export function computeBackoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const exponent = Math.max(attempt - 1, 0);
+  return Math.min(baseMs * 2 ** exponent, maxMs);
+}
@@ -0,0 +1,19 @@
+import { toE164 } from './phone.util';
+
+describe('toE164', () => {
+  it('should prefix Brazilian numbers with country code', () => {
+    expect(toE164('(11) 98765-4321')).toBe('+5511987654321');
+    expect(toE164('1133334444')).toBe('+551133334444');
+  });
+
+  it('should keep numbers that already include country code', () => {
+    expect(toE164('+55 11 98765-4321')).toBe('+5511987654321');
+    expect(toE164('551133334444')).toBe('+551133334444');
+  });
+
+  it('should return null for invalid numbers', () => {
+    expect(toE164('')).toBeNull();
+    expect(toE164('98765-4321')).toBeNull();
+    expect(toE164('4411987654321')).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+import { normalizePhoneNumber } from '../../deliveries/validators/phone-number-br.validator';
+
+/**
+ * Converte telefone brasileiro para o formato E.164 (+55DDDNUMERO)
+ *
+ * @returns Telefone em E.164 ou null se inválido
+ */
+export function toE164(phone: string): string | null {
+  const digits = normalizePhoneNumber(phone);
+
+  if (digits.length === 10 || digits.length === 11) {
+    return `+55${digits}`;
+  }
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+    return `+${digits}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,52 @@
+import { resolveQuietHoursRelease } from './quiet-hours.util';
+
+describe('resolveQuietHoursRelease', () => {
+  const timezone = 'America/Sao_Paulo';
+  const businessHours = { start: '08:00:00', end: '20:00:00' };
+
+  it('should return null when inside the window', () => {
+    // Segunda-feira, 12:00 em São Paulo
+    expect(
+      resolveQuietHoursRelease(new Date('2026-10-19T15:00:00Z'), businessHours, timezone),
+    ).toBeNull();
+  });
+
+  it('should hold until the window opens on the same day', () => {
+    // Segunda-feira, 06:00 em São Paulo
+    expect(
+      resolveQuietHoursRelease(new Date('2026-10-19T09:00:00Z'), businessHours, timezone),
+    ).toEqual(new Date('2026-10-19T11:00:00Z'));
+  });
+
+  it('should hold until the next day after the window closes', () => {
+    // Segunda-feira, 22:00 em São Paulo
+    expect(
+      resolveQuietHoursRelease(new Date('2026-10-20T01:00:00Z'), businessHours, timezone),
+    ).toEqual(new Date('2026-10-20T11:00:00Z'));
+  });
+
+  it('should skip days that are not allowed', () => {
+    // Sábado, 12:00 em São Paulo
+    const weekdays = {
+      ...businessHours,
+      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    };
+    expect(resolveQuietHoursRelease(new Date('2026-10-24T15:00:00Z'), weekdays, timezone)).toEqual(
+      new Date('2026-10-26T11:00:00Z'),
+    );
+  });
+
+  it('should support windows that cross midnight', () => {
+    const overnight = { start: '22:00', end: '06:00' };
+    expect(
+      resolveQuietHoursRelease(new Date('2026-10-20T02:00:00Z'), overnight, timezone),
+    ).toBeNull();
+    expect(resolveQuietHoursRelease(new Date('2026-10-19T15:00:00Z'), overnight, timezone)).toEqual(
+      new Date('2026-10-20T01:00:00Z'),
+    );
+  });
+
+  it('should return null when no window is configured', () => {
+    expect(resolveQuietHoursRelease(new Date('2026-10-19T03:00:00Z'), {}, timezone)).toBeNull();
+  });
+});
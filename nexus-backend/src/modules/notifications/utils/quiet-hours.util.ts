@@ -0,0 +1,136 @@
+/**
+ * Janela em que o cliente aceita receber notificações
+ */
+export interface NotificationWindow {
+  /** Início no formato HH:mm ou HH:mm:ss */
+  start?: string | undefined;
+  /** Fim no formato HH:mm ou HH:mm:ss (pode ser menor que o início: janela noturna) */
+  end?: string | undefined;
+  /** Dias permitidos em inglês (monday, tuesday...) */
+  days?: string[] | undefined;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: string;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Calcula até quando uma notificação deve ser retida (horário de silêncio)
+ *
+ * @param at - Momento previsto para o envio
+ * @param window - Janela preferida do cliente
+ * @param timezone - Fuso (IANA) da janela
+ * @returns Início da próxima janela permitida, ou null se o envio pode ocorrer em `at`
+ */
+export function resolveQuietHoursRelease(
+  at: Date,
+  window: NotificationWindow,
+  timezone: string,
+): Date | null {
+  const days = (window.days ?? []).map(day => day.trim().toLowerCase()).filter(Boolean);
+
+  if (!window.start && !window.end && days.length === 0) {
+    return null;
+  }
+
+  const start = parseTime(window.start) ?? 0;
+  const end = parseTime(window.end) ?? SECONDS_PER_DAY;
+  const local = getZonedParts(at, timezone);
+  const current = local.hour * 3600 + local.minute * 60 + local.second;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = getZonedParts(
+      new Date(Date.UTC(local.year, local.month - 1, local.day + offset, 12)),
+      'UTC',
+    );
+
+    if (days.length > 0 && !days.includes(candidate.weekday)) {
+      continue;
+    }
+
+    if (offset === 0) {
+      const inWindow =
+        start <= end ? current >= start && current < end : current >= start || current < end;
+
+      if (inWindow) {
+        return null;
+      }
+      if (current >= start && start <= end) {
+        continue;
+      }
+    }
+
+    return zonedTimeToUtc(candidate, start, timezone);
+  }
+
+  return null;
+}
+
+/**
+ * Converte HH:mm[:ss] em segundos desde a meia-noite
+ */
+function parseTime(value?: string): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'long',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find(part => part.type === type)?.value ?? '0';
+
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    weekday: value('weekday').toLowerCase(),
+    hour: Number(value('hour')),
+    minute: Number(value('minute')),
+    second: Number(value('second')),
+  };
+}
+
+/**
+ * Converte uma data local (fuso informado) + horário em instante UTC
+ */
+function zonedTimeToUtc(date: ZonedParts, secondsOfDay: number, timezone: string): Date {
+  const guess = Date.UTC(date.year, date.month - 1, date.day) + secondsOfDay * 1000;
+  const zoned = getZonedParts(new Date(guess), timezone);
+  const zonedAsUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second,
+  );
+
+  return new Date(guess - (zonedAsUtc - guess));
+}
@@ -0,0 +1,13 @@
+/**
+ * Parâmetros do canal ao vivo
+ */
+export const REALTIME = {
+  /** Canal Redis de pub/sub que replica os eventos entre as instâncias */
+  REDIS_CHANNEL: 'nexus:live-events',
+
+  /** Intervalo do evento de keep-alive das conexões SSE (segundos) */
+  HEARTBEAT_SECONDS: 25,
+
+  /** Cache da abrangência (clientes/cidades) de uma rota (segundos) */
+  ROUTE_SCOPE_CACHE_SECONDS: 30,
+} as const;
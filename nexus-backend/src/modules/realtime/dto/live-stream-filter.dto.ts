@@ -0,0 +1,66 @@
+import { IsArray, IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { LiveEventType } from '../enums/live-event-type.enum';
+
+/**
+ * Aceita o parâmetro repetido (?route_ids=a&route_ids=b) ou separado por vírgulas
+ */
+const toArray = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean)
+    : value;
+
+/**
+ * DTO de inscrição no canal ao vivo
+ *
+ * Os filtros de rota, motorista, cidade e cliente se somam: o evento é entregue
+ * se atender qualquer um deles. Sem filtros, todos os eventos permitidos são entregues.
+ */
+export class LiveStreamFilterDto {
+  @ApiPropertyOptional({
+    description: 'Tipos de evento desejados',
+    enum: LiveEventType,
+    isArray: true,
+  })
+  @IsOptional()
+  @Transform(toArray)
+  @IsArray()
+  @IsEnum(LiveEventType, { each: true })
+  types?: LiveEventType[];
+
+  @ApiPropertyOptional({ description: 'IDs das rotas', type: [String], format: 'uuid' })
+  @IsOptional()
+  @Transform(toArray)
+  @IsArray()
+  @IsUUID('4', { each: true })
+  route_ids?: string[];
+
+  @ApiPropertyOptional({ description: 'IDs dos motoristas', type: [String], format: 'uuid' })
+  @IsOptional()
+  @Transform(toArray)
+  @IsArray()
+  @IsUUID('4', { each: true })
+  driver_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Cidades de destino das entregas',
+    type: [String],
+    example: ['São Paulo', 'Campinas'],
+  })
+  @IsOptional()
+  @Transform(toArray)
+  @IsArray()
+  @IsString({ each: true })
+  cities?: string[];
+
+  @ApiPropertyOptional({ description: 'IDs dos clientes', type: [String], format: 'uuid' })
+  @IsOptional()
+  @Transform(toArray)
+  @IsArray()
+  @IsUUID('4', { each: true })
+  customer_ids?: string[];
+}
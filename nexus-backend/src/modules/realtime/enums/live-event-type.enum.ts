@@ -0,0 +1,28 @@
+/**
+ * Enum para tipo de evento do canal ao vivo
+ * Eventos enviados ao mapa da central de despacho
+ */
+export enum LiveEventType {
+  /** Nova posição GPS de um veículo em rota */
+  VEHICLE_POSITION = 'VEHICLE_POSITION',
+
+  /** Mudança de status de uma entrega */
+  DELIVERY_STATUS = 'DELIVERY_STATUS',
+
+  /** Mudança de status de uma rota */
+  ROUTE_STATUS = 'ROUTE_STATUS',
+
+  /** Novo alerta de desvio, parada não prevista ou velocidade */
+  ROUTE_ALERT = 'ROUTE_ALERT',
+
+  /** Entrada, saída ou permanência em geofence */
+  GEOFENCE_EVENT = 'GEOFENCE_EVENT',
+}
+
+/**
+ * Eventos que um usuário cliente pode receber (apenas das próprias entregas)
+ */
+export const CustomerLiveEventTypes = [
+  LiveEventType.VEHICLE_POSITION,
+  LiveEventType.DELIVERY_STATUS,
+];
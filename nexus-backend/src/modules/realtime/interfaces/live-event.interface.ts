@@ -0,0 +1,41 @@
+import type { LiveEventType } from '../enums/live-event-type.enum';
+
+/**
+ * Abrangência do evento, usada para entregá-lo apenas aos inscritos
+ *
+ * Não é enviada ao cliente do canal: pode conter IDs de outros clientes da rota.
+ */
+export interface LiveEventScope {
+  route_id?: string;
+  driver_id?: string;
+  vehicle_id?: string;
+  customer_ids: string[];
+  cities: string[];
+}
+
+/**
+ * Evento publicado no canal ao vivo (e replicado entre instâncias via Redis)
+ */
+export interface LiveEvent {
+  id: string;
+  type: LiveEventType;
+  occurred_at: string;
+  scope: LiveEventScope;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Inscrição de uma conexão do canal ao vivo
+ *
+ * Filtros de rota, motorista, cidade e cliente se somam (basta atender um);
+ * sem filtros, a conexão recebe todos os eventos permitidos.
+ */
+export interface LiveSubscription {
+  types?: LiveEventType[];
+  route_ids?: string[];
+  driver_ids?: string[];
+  cities?: string[];
+  customer_ids?: string[];
+  /** Restrição obrigatória: só eventos destes clientes (usuário cliente) */
+  restrictToCustomerIds?: string[];
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Sse,
+  Query,
+  Req,
+  HttpStatus,
+  UseGuards,
+  type MessageEvent,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiProduces,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import type { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { LiveStreamFilterDto } from './dto/live-stream-filter.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Controller do canal ao vivo
+ *
+ * Fluxo Server-Sent Events para o mapa da central de despacho com posições dos
+ * veículos, mudanças de status de entregas e rotas, alertas de rota e eventos
+ * de geofence. Os eventos são replicados entre as instâncias via Redis.
+ *
+ * O token é enviado no cabeçalho Authorization; como o EventSource nativo do
+ * navegador não envia cabeçalhos, o cliente deve consumir o fluxo via fetch.
+ */
+@ApiTags('Realtime')
+@Controller('realtime')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE, Role.CLIENTE)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário sem permissão para acompanhar a operação ao vivo',
+})
+export class RealtimeController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  @Sse('stream')
+  @ApiOperation({
+    summary: 'Canal ao vivo (SSE)',
+    description:
+      'Fluxo de eventos filtrável por tipo, rota, motorista, cidade e cliente (filtros se somam). ' +
+      'Usuários cliente recebem apenas posições e status das próprias entregas. ' +
+      'Eventos "heartbeat" são enviados periodicamente para manter a conexão aberta',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Fluxo de eventos aberto',
+  })
+  @ApiBadRequestResponse({
+    description: 'Filtros inválidos',
+  })
+  stream(
+    @Req() request: AuthenticatedRequest,
+    @Query() filterDto: LiveStreamFilterDto,
+  ): Observable<MessageEvent> {
+    return this.realtimeService.openStream(request.user, filterDto);
+  }
+}
@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { RealtimeController } from './realtime.controller';
+import { RealtimeService } from './realtime.service';
+import { LiveEventBusService } from './services/live-event-bus.service';
+import { LiveEventsService } from './services/live-events.service';
+import { LiveEventSubscriber } from './subscribers/live-event.subscriber';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+
+/**
+ * Módulo do canal ao vivo
+ *
+ * Fluxo SSE do mapa da central de despacho. Os eventos são capturados pelo
+ * LiveEventSubscriber a partir das gravações de posições, alertas, eventos de
+ * geofence e status de entregas e rotas; por isso este módulo não importa
+ * Tracking/Routes/RouteAlerts/Geofences.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Delivery]), ConfigModule],
+  controllers: [RealtimeController],
+  providers: [
+    RealtimeService,
+    LiveEventBusService,
+    LiveEventsService,
+    LiveEventSubscriber,
+    {
+      provide: 'LIVE_EVENT_SUBSCRIBER_REGISTRATION',
+      useFactory: (dataSource: DataSource, liveEventSubscriber: LiveEventSubscriber) => {
+        // Registra o subscriber com as dependências injetadas no DataSource
+        if (dataSource?.subscribers && !dataSource.subscribers.includes(liveEventSubscriber)) {
+          dataSource.subscribers.push(liveEventSubscriber);
+        }
+        return liveEventSubscriber;
+      },
+      inject: [DataSource, LiveEventSubscriber],
+    },
+  ],
+  exports: [LiveEventsService],
+})
+export class RealtimeModule {}
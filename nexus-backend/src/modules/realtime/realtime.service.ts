@@ -0,0 +1,81 @@
+import { ForbiddenException, Injectable, Logger, type MessageEvent } from '@nestjs/common';
+import { Observable, filter, interval, map, merge } from 'rxjs';
+import { LiveEventBusService } from './services/live-event-bus.service';
+import { LiveEventFilter } from './utils/live-event-filter.util';
+import { CustomerLiveEventTypes } from './enums/live-event-type.enum';
+import { REALTIME } from './constants/realtime.constants';
+import type { LiveSubscription } from './interfaces/live-event.interface';
+import type { LiveStreamFilterDto } from './dto/live-stream-filter.dto';
+import type { User } from '../users/entities/user.entity';
+import { DataScopes } from '../auth/utils/data-scope.util';
+
+/**
+ * Service do canal ao vivo
+ *
+ * Abre o fluxo SSE de cada conexão aplicando os filtros pedidos e as restrições
+ * do perfil: usuários cliente recebem apenas posições e status das próprias entregas.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+
+  constructor(private readonly liveEventBus: LiveEventBusService) {}
+
+  /**
+   * Fluxo de eventos da conexão, intercalado com heartbeats para manter proxies abertos
+   *
+   * @throws ForbiddenException se o usuário cliente não estiver vinculado a um cliente
+   * ou pedir apenas tipos de evento reservados à operação
+   */
+  openStream(user: User, filterDto: LiveStreamFilterDto): Observable<MessageEvent> {
+    const subscription = this.buildSubscription(user, filterDto);
+
+    this.logger.debug(`Conexão ao vivo aberta pelo usuário ${user.id}`);
+
+    const events = this.liveEventBus.stream().pipe(
+      filter(event => LiveEventFilter.matches(event, subscription)),
+      map(
+        (event): MessageEvent => ({
+          id: event.id,
+          type: event.type,
+          data: { type: event.type, occurred_at: event.occurred_at, data: event.data },
+        }),
+      ),
+    );
+
+    const heartbeats = interval(REALTIME.HEARTBEAT_SECONDS * 1000).pipe(
+      map((): MessageEvent => ({ type: 'heartbeat', data: { at: new Date().toISOString() } })),
+    );
+
+    return merge(events, heartbeats);
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private buildSubscription(user: User, filterDto: LiveStreamFilterDto): LiveSubscription {
+    const subscription: LiveSubscription = { ...filterDto };
+    const scope = DataScopes.forUser(user);
+
+    if (scope.unrestricted) {
+      return subscription;
+    }
+
+    if (!scope.customerId) {
+      throw new ForbiddenException('Usuário não está vinculado a um cliente');
+    }
+
+    const types = (filterDto.types ?? CustomerLiveEventTypes).filter(type =>
+      CustomerLiveEventTypes.includes(type),
+    );
+
+    if (types.length === 0) {
+      throw new ForbiddenException('Tipos de evento não disponíveis para usuários cliente');
+    }
+
+    return {
+      ...subscription,
+      types,
+      restrictToCustomerIds: [scope.customerId],
+    };
+  }
+}
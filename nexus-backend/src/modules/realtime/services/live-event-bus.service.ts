@@ -0,0 +1,99 @@
+import { Injectable, Logger, type OnModuleDestroy, type OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, type RedisClientType } from 'redis';
+import { Observable, Subject } from 'rxjs';
+import { REALTIME } from '../constants/realtime.constants';
+import type { LiveEvent } from '../interfaces/live-event.interface';
+import type { RedisConfig } from '../../../config/redis.config';
+
+/**
+ * Barramento de eventos do canal ao vivo
+ *
+ * Cada instância publica os eventos no canal Redis e reenvia às suas conexões
+ * SSE tudo o que chega pelo canal, inclusive o que ela mesma publicou. Sem
+ * Redis disponível, os eventos circulam apenas na instância local.
+ */
+@Injectable()
+export class LiveEventBusService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LiveEventBusService.name);
+  private readonly events = new Subject<LiveEvent>();
+  private readonly redisConfig: RedisConfig;
+  private publisher: RedisClientType | null = null;
+  private subscriber: RedisClientType | null = null;
+
+  constructor(configService: ConfigService) {
+    this.redisConfig = configService.getOrThrow<RedisConfig>('redis');
+  }
+
+  /**
+   * Conecta ao Redis e assina o canal de eventos
+   */
+  async onModuleInit(): Promise<void> {
+    const { host, port, password } = this.redisConfig;
+    const publisher: RedisClientType = createClient({
+      socket: { host, port },
+      ...(password ? { password } : {}),
+    });
+    const subscriber = publisher.duplicate();
+
+    publisher.on('error', (error: unknown) =>
+      this.logger.error('Erro na conexão Redis (publicação):', error),
+    );
+    subscriber.on('error', (error: unknown) =>
+      this.logger.error('Erro na conexão Redis (assinatura):', error),
+    );
+
+    try {
+      await publisher.connect();
+      await subscriber.connect();
+      await subscriber.subscribe(REALTIME.REDIS_CHANNEL, message => this.receive(message));
+
+      this.publisher = publisher;
+      this.subscriber = subscriber;
+      this.logger.log(`Canal ao vivo replicado via Redis (${REALTIME.REDIS_CHANNEL})`);
+    } catch (error) {
+      publisher.destroy();
+      subscriber.destroy();
+      this.logger.warn(
+        `Redis indisponível; canal ao vivo restrito à instância local: ${String(error)}`,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.events.complete();
+    await Promise.allSettled([this.subscriber?.close(), this.publisher?.close()]);
+  }
+
+  /**
+   * Publica o evento para todas as instâncias
+   */
+  async publish(event: LiveEvent): Promise<void> {
+    if (!this.publisher?.isReady) {
+      this.events.next(event);
+      return;
+    }
+
+    try {
+      await this.publisher.publish(REALTIME.REDIS_CHANNEL, JSON.stringify(event));
+    } catch (error) {
+      this.logger.error(`Erro ao publicar evento ${event.type} no Redis:`, error);
+      this.events.next(event);
+    }
+  }
+
+  /**
+   * Fluxo de eventos recebidos por esta instância
+   */
+  stream(): Observable<LiveEvent> {
+    return this.events.asObservable();
+  }
+
+  private receive(message: string): void {
+    try {
+      this.events.next(JSON.parse(message) as LiveEvent);
+    } catch (error) {
+      this.logger.warn(`Evento inválido recebido do canal ao vivo: ${String(error)}`);
+    }
+  }
+}
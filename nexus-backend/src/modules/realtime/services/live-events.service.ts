@@ -0,0 +1,220 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { LiveEventBusService } from './live-event-bus.service';
+import { LiveEventType } from '../enums/live-event-type.enum';
+import { REALTIME } from '../constants/realtime.constants';
+import type { LiveEventScope } from '../interfaces/live-event.interface';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import type { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import type { Route } from '../../routes/entities/route.entity';
+import type { RouteStatus } from '../../routes/enums/route-status';
+import type { Tracking } from '../../tracking/entities/tracking.entity';
+import type { RouteAlert } from '../../route-alerts/entities/route-alert.entity';
+import type { GeofenceEvent } from '../../geofences/entities/geofence-event.entity';
+
+interface CachedRouteScope {
+  customer_ids: string[];
+  cities: string[];
+  expiresAt: number;
+}
+
+/**
+ * Service de publicação de eventos do canal ao vivo
+ *
+ * Monta cada evento com a abrangência (rota, motorista, clientes e cidades das
+ * entregas envolvidas) usada para filtrar as conexões, e o publica no barramento.
+ * Falhas são apenas registradas: a publicação nunca interrompe a operação de origem.
+ */
+@Injectable()
+export class LiveEventsService {
+  private readonly logger = new Logger(LiveEventsService.name);
+  private readonly routeScopes = new Map<string, CachedRouteScope>();
+
+  constructor(
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    private readonly liveEventBus: LiveEventBusService,
+  ) {}
+
+  async publishVehiclePosition(ping: Tracking): Promise<void> {
+    await this.publish(LiveEventType.VEHICLE_POSITION, ping.route_id, {
+      route_id: ping.route_id,
+      driver_id: ping.driver_id,
+      vehicle_id: ping.vehicle_id,
+      data: {
+        tracking_point_id: ping.id,
+        route_id: ping.route_id,
+        driver_id: ping.driver_id,
+        vehicle_id: ping.vehicle_id,
+        latitude: Number(ping.latitude),
+        longitude: Number(ping.longitude),
+        speed: ping.speed ?? null,
+        heading: ping.heading ?? null,
+        recorded_at: ping.recorded_at,
+      },
+    });
+  }
+
+  async publishDeliveryStatus(
+    delivery: Delivery,
+    fromStatus: DeliveryStatus,
+    toStatus: DeliveryStatus,
+  ): Promise<void> {
+    if (delivery.route_id) {
+      this.routeScopes.delete(delivery.route_id);
+    }
+
+    await this.publish(LiveEventType.DELIVERY_STATUS, null, {
+      ...(delivery.route_id ? { route_id: delivery.route_id } : {}),
+      ...(delivery.driver_id ? { driver_id: delivery.driver_id } : {}),
+      ...(delivery.vehicle_id ? { vehicle_id: delivery.vehicle_id } : {}),
+      customer_ids: [delivery.customer_id],
+      cities: delivery.delivery_address?.city ? [delivery.delivery_address.city] : [],
+      data: {
+        delivery_id: delivery.id,
+        tracking_code: delivery.tracking_code,
+        route_id: delivery.route_id ?? null,
+        from_status: fromStatus,
+        to_status: toStatus,
+        estimated_arrival_at: delivery.estimated_arrival_at ?? null,
+      },
+    });
+  }
+
+  async publishRouteStatus(
+    route: Route,
+    fromStatus: RouteStatus,
+    toStatus: RouteStatus,
+  ): Promise<void> {
+    await this.publish(LiveEventType.ROUTE_STATUS, route.id, {
+      route_id: route.id,
+      driver_id: route.driver_id,
+      vehicle_id: route.vehicle_id,
+      data: {
+        route_id: route.id,
+        route_code: route.route_code,
+        driver_id: route.driver_id,
+        vehicle_id: route.vehicle_id,
+        from_status: fromStatus,
+        to_status: toStatus,
+      },
+    });
+  }
+
+  async publishRouteAlert(alert: RouteAlert): Promise<void> {
+    await this.publish(LiveEventType.ROUTE_ALERT, alert.route_id, {
+      route_id: alert.route_id,
+      driver_id: alert.driver_id,
+      vehicle_id: alert.vehicle_id,
+      data: {
+        alert_id: alert.id,
+        type: alert.type,
+        status: alert.status,
+        message: alert.message,
+        route_id: alert.route_id,
+        driver_id: alert.driver_id,
+        vehicle_id: alert.vehicle_id,
+        latitude: Number(alert.latitude),
+        longitude: Number(alert.longitude),
+        measured_value: Number(alert.measured_value),
+        threshold_value: Number(alert.threshold_value),
+        started_at: alert.started_at,
+      },
+    });
+  }
+
+  async publishGeofenceEvent(geofenceEvent: GeofenceEvent): Promise<void> {
+    await this.publish(LiveEventType.GEOFENCE_EVENT, geofenceEvent.route_id ?? null, {
+      ...(geofenceEvent.route_id ? { route_id: geofenceEvent.route_id } : {}),
+      driver_id: geofenceEvent.driver_id,
+      vehicle_id: geofenceEvent.vehicle_id,
+      data: {
+        geofence_event_id: geofenceEvent.id,
+        geofence_id: geofenceEvent.geofence_id,
+        event_type: geofenceEvent.event_type,
+        route_id: geofenceEvent.route_id ?? null,
+        driver_id: geofenceEvent.driver_id,
+        vehicle_id: geofenceEvent.vehicle_id,
+        latitude: Number(geofenceEvent.latitude),
+        longitude: Number(geofenceEvent.longitude),
+        is_violation: geofenceEvent.is_violation,
+        dwell_seconds: geofenceEvent.dwell_seconds ?? null,
+        occurred_at: geofenceEvent.occurred_at,
+      },
+    });
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Publica o evento; com routeId, os clientes e cidades das entregas da rota
+   * completam a abrangência
+   */
+  private async publish(
+    type: LiveEventType,
+    routeId: string | null,
+    event: Omit<LiveEventScope, 'customer_ids' | 'cities'> &
+      Partial<Pick<LiveEventScope, 'customer_ids' | 'cities'>> & {
+        data: Record<string, unknown>;
+      },
+  ): Promise<void> {
+    try {
+      const { data, customer_ids = [], cities = [], ...scope } = event;
+      const routeScope = routeId ? await this.resolveRouteScope(routeId) : null;
+
+      await this.liveEventBus.publish({
+        id: randomUUID(),
+        type,
+        occurred_at: new Date().toISOString(),
+        scope: {
+          ...scope,
+          customer_ids: [...new Set([...customer_ids, ...(routeScope?.customer_ids ?? [])])],
+          cities: [...new Set([...cities, ...(routeScope?.cities ?? [])])],
+        },
+        data,
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao publicar evento ao vivo ${type}:`, error);
+    }
+  }
+
+  /**
+   * Clientes e cidades de destino das entregas da rota, em cache por alguns segundos
+   * para não consultar as entregas a cada posição GPS
+   */
+  private async resolveRouteScope(routeId: string): Promise<CachedRouteScope> {
+    const cached = this.routeScopes.get(routeId);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { route_id: routeId },
+      select: { id: true, customer_id: true, delivery_address: true },
+    });
+
+    const routeScope: CachedRouteScope = {
+      customer_ids: [...new Set(deliveries.map(delivery => delivery.customer_id))],
+      cities: [
+        ...new Set(
+          deliveries
+            .map(delivery => delivery.delivery_address?.city)
+            .filter((city): city is string => !!city),
+        ),
+      ],
+      expiresAt: Date.now() + REALTIME.ROUTE_SCOPE_CACHE_SECONDS * 1000,
+    };
+
+    for (const [cachedRouteId, cachedScope] of this.routeScopes) {
+      if (cachedScope.expiresAt <= Date.now()) {
+        this.routeScopes.delete(cachedRouteId);
+      }
+    }
+    this.routeScopes.set(routeId, routeScope);
+
+    return routeScope;
+  }
+}
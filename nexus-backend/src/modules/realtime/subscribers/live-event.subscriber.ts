@@ -0,0 +1,82 @@
+import {
+  EventSubscriber,
+  type EntitySubscriberInterface,
+  type InsertEvent,
+  type UpdateEvent,
+} from 'typeorm';
+import { Injectable, Optional } from '@nestjs/common';
+import { LiveEventsService } from '../services/live-events.service';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { Route } from '../../routes/entities/route.entity';
+import { Tracking } from '../../tracking/entities/tracking.entity';
+import { RouteAlert } from '../../route-alerts/entities/route-alert.entity';
+import { GeofenceEvent } from '../../geofences/entities/geofence-event.entity';
+
+/**
+ * Subscriber que alimenta o canal ao vivo
+ *
+ * Publica novas posições GPS, alertas de rota e eventos de geofence e as
+ * mudanças de status de entregas e rotas, sem que os módulos de origem
+ * dependam do módulo de tempo real.
+ *
+ * A instância carregada pelo DataSource (sem injeção de dependências) não publica;
+ * a instância registrada pelo RealtimeModule recebe o LiveEventsService.
+ */
+@Injectable()
+@EventSubscriber()
+export class LiveEventSubscriber implements EntitySubscriberInterface {
+  constructor(@Optional() private readonly liveEventsService?: LiveEventsService) {}
+
+  afterInsert(event: InsertEvent<unknown>): void {
+    if (!this.liveEventsService) {
+      return;
+    }
+
+    const target = event.metadata.target;
+
+    if (target === Tracking) {
+      void this.liveEventsService.publishVehiclePosition(event.entity as Tracking);
+    } else if (target === GeofenceEvent) {
+      void this.liveEventsService.publishGeofenceEvent(event.entity as GeofenceEvent);
+    } else if (target === RouteAlert) {
+      // Inserção com ON CONFLICT DO NOTHING ignorada não recebe ID e não é publicada
+      const alert = event.entity as RouteAlert;
+
+      if (alert.id) {
+        void this.liveEventsService.publishRouteAlert(alert);
+      }
+    }
+  }
+
+  afterUpdate(event: UpdateEvent<unknown>): void {
+    if (!this.liveEventsService || !event.entity || !event.databaseEntity) {
+      return;
+    }
+
+    const target = event.metadata.target;
+
+    if (target === Delivery) {
+      const delivery = event.entity as Delivery;
+      const previous = event.databaseEntity as Delivery;
+
+      if (delivery.status && delivery.status !== previous.status) {
+        void this.liveEventsService.publishDeliveryStatus(
+          { ...previous, ...delivery } as Delivery,
+          previous.status,
+          delivery.status,
+        );
+      }
+    } else if (target === Route) {
+      const route = event.entity as Route;
+      const previous = event.databaseEntity as Route;
+
+      if (route.status && route.status !== previous.status) {
+        void this.liveEventsService.publishRouteStatus(
+          { ...previous, ...route } as Route,
+          previous.status,
+          route.status,
+        );
+      }
+    }
+  }
+}
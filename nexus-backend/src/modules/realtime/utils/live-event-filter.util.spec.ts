@@ -0,0 +1,52 @@
+import { LiveEventType } from '../enums/live-event-type.enum';
+import type { LiveEvent } from '../interfaces/live-event.interface';
+import { LiveEventFilter } from './live-event-filter.util';
+
+describe('LiveEventFilter', () => {
+  const event: LiveEvent = {
+    id: 'evt-1',
+    type: LiveEventType.VEHICLE_POSITION,
+    occurred_at: '2024-01-15T10:00:00.000Z',
+    scope: {
+      route_id: 'route-1',
+      driver_id: 'driver-1',
+      vehicle_id: 'vehicle-1',
+      customer_ids: ['customer-1', 'customer-2'],
+      cities: ['São Paulo'],
+    },
+    data: {},
+  };
+
+  it('should deliver every event to subscriptions without filters', () => {
+    expect(LiveEventFilter.matches(event, {})).toBe(true);
+  });
+
+  it('should filter by event type', () => {
+    expect(LiveEventFilter.matches(event, { types: [LiveEventType.ROUTE_ALERT] })).toBe(false);
+    expect(LiveEventFilter.matches(event, { types: [LiveEventType.VEHICLE_POSITION] })).toBe(true);
+  });
+
+  it('should match any of the route, driver, city or customer filters', () => {
+    expect(LiveEventFilter.matches(event, { route_ids: ['route-2'] })).toBe(false);
+    expect(
+      LiveEventFilter.matches(event, { route_ids: ['route-2'], driver_ids: ['driver-1'] }),
+    ).toBe(true);
+    expect(LiveEventFilter.matches(event, { cities: ['sao paulo'] })).toBe(true);
+    expect(LiveEventFilter.matches(event, { customer_ids: ['customer-2'] })).toBe(true);
+  });
+
+  it('should only deliver events of the restricted customers', () => {
+    expect(LiveEventFilter.matches(event, { restrictToCustomerIds: ['customer-3'] })).toBe(false);
+    expect(
+      LiveEventFilter.matches(event, {
+        restrictToCustomerIds: ['customer-3'],
+        route_ids: ['route-1'],
+      }),
+    ).toBe(false);
+    expect(LiveEventFilter.matches(event, { restrictToCustomerIds: ['customer-1'] })).toBe(true);
+  });
+
+  it('should normalize city names', () => {
+    expect(LiveEventFilter.normalizeCity(' Ribeirão Preto ')).toBe('ribeirao preto');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Live Event Filter
+ *
+ * Decide se um evento do canal ao vivo deve ser entregue a uma inscrição.
+ *
+ * @module Realtime/Utils
+ */
+
+import type { LiveEvent, LiveSubscription } from '../interfaces/live-event.interface';
+
+export class LiveEventFilter {
+  /**
+   * Verifica se o evento atende a inscrição
+   *
+   * - Tipo fora da lista de tipos da inscrição: descartado
+   * - Restrição de clientes (usuário cliente): o evento precisa envolver um deles
+   * - Filtros de rota, motorista, cidade e cliente: basta atender um
+   */
+  static matches(event: LiveEvent, subscription: LiveSubscription): boolean {
+    if (subscription.types?.length && !subscription.types.includes(event.type)) {
+      return false;
+    }
+
+    if (
+      subscription.restrictToCustomerIds &&
+      !this.intersects(event.scope.customer_ids, subscription.restrictToCustomerIds)
+    ) {
+      return false;
+    }
+
+    const { route_ids, driver_ids, cities, customer_ids } = subscription;
+    const hasFilters = [route_ids, driver_ids, cities, customer_ids].some(
+      filter => filter && filter.length > 0,
+    );
+
+    if (!hasFilters) {
+      return true;
+    }
+
+    return (
+      (!!event.scope.route_id && !!route_ids?.includes(event.scope.route_id)) ||
+      (!!event.scope.driver_id && !!driver_ids?.includes(event.scope.driver_id)) ||
+      this.intersects(
+        event.scope.cities.map(city => this.normalizeCity(city)),
+        (cities ?? []).map(city => this.normalizeCity(city)),
+      ) ||
+      this.intersects(event.scope.customer_ids, customer_ids ?? [])
+    );
+  }
+
+  /**
+   * Normaliza o nome da cidade para comparação (sem acentos e caixa)
+   *
+   * @example
+   * ```typescript
+   * LiveEventFilter.normalizeCity(' São Paulo '); // 'sao paulo'
+   * ```
+   */
+  static normalizeCity(city: string): string {
+    return city
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toLowerCase();
+  }
+
+  private static intersects(values: string[], accepted: string[]): boolean {
+    return values.some(value => accepted.includes(value));
+  }
+}
@@ -1,5 +1,15 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import type Keyv from 'keyv';
+import KeyvRedis from '@keyv/redis';
+
+/**
+ * Comandos do cliente Redis usados pelos contadores atômicos
+ */
+interface RedisCounterClient {
+  incr(key: string): Promise<number>;
+  pExpire(key: string, milliseconds: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+}
 
 @Injectable()
 export class RedisService {
@@ -57,6 +67,42 @@ export class RedisService {
     }
   }
 
+  /**
+   * Incrementa um contador de forma atômica (INCR), renovando o TTL em milissegundos
+   *
+   * O contador é gravado diretamente no Redis, fora da serialização do Keyv:
+   * leia-o com getCounter.
+   *
+   * @returns Valor após o incremento, ou null se o Redis estiver indisponível
+   */
+  async increment(key: string, ttl: number): Promise<number | null> {
+    try {
+      const { client, prefixedKey } = await this.getRedisClient(key);
+      const value = await client.incr(prefixedKey);
+      await client.pExpire(prefixedKey, ttl);
+      return value;
+    } catch (error) {
+      this.logger.error(`Erro ao incrementar chave ${key}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Lê um contador gravado por increment (0 se não existir)
+   *
+   * @returns Valor do contador, ou null se o Redis estiver indisponível
+   */
+  async getCounter(key: string): Promise<number | null> {
+    try {
+      const { client, prefixedKey } = await this.getRedisClient(key);
+      const value = await client.get(prefixedKey);
+      return value === null ? 0 : Number(value);
+    } catch (error) {
+      this.logger.error(`Erro ao ler contador ${key}`, error);
+      return null;
+    }
+  }
+
   /**
    * Limpa todas as chaves do namespace
    */
@@ -67,4 +113,22 @@ export class RedisService {
       this.logger.error('Erro ao limpar cache', error);
     }
   }
+
+  /**
+   * Cliente Redis do store do Keyv e a chave com o namespace aplicado
+   */
+  private async getRedisClient(
+    key: string,
+  ): Promise<{ client: RedisCounterClient; prefixedKey: string }> {
+    const store: unknown = this.keyv.store;
+
+    if (!(store instanceof KeyvRedis)) {
+      throw new Error('Operações atômicas exigem o store Redis');
+    }
+
+    return {
+      client: (await store.getClient()) as unknown as RedisCounterClient,
+      prefixedKey: store.createKeyPrefix(key, store.namespace),
+    };
+  }
 }
@@ -0,0 +1,81 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsIn,
+  IsArray,
+  IsEmail,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsBoolean,
+  Length,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportFormat } from '../enums/report-format.enum';
+
+/**
+ * Formatos de arquivo aceitos em agendamentos
+ */
+export const ScheduledReportFormats = [ReportFormat.CSV, ReportFormat.XLSX] as const;
+
+export type ScheduledReportFormat = (typeof ScheduledReportFormats)[number];
+
+/**
+ * DTO para criar agendamento de relatório
+ */
+export class CreateReportScheduleDto {
+  @ApiProperty({
+    description: 'ID do relatório salvo',
+    format: 'uuid',
+  })
+  @IsUUID()
+  report_id!: string;
+
+  @ApiProperty({
+    description: 'Expressão cron (com segundos opcionais), no mesmo formato do @nestjs/schedule',
+    example: '0 7 * * 1',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 100)
+  cron_expression!: string;
+
+  @ApiPropertyOptional({
+    description: 'Fuso horário IANA da expressão cron',
+    example: 'America/Sao_Paulo',
+    default: 'America/Sao_Paulo',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Formato do arquivo gerado',
+    enum: ScheduledReportFormats,
+    default: ReportFormat.XLSX,
+  })
+  @IsOptional()
+  @IsIn(ScheduledReportFormats, { message: 'Formato deve ser csv ou xlsx' })
+  format?: ScheduledReportFormat;
+
+  @ApiProperty({
+    description: 'E-mails dos destinatários',
+    type: [String],
+    example: ['operacao@empresa.com.br'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @IsEmail({}, { each: true })
+  recipients!: string[];
+
+  @ApiPropertyOptional({
+    description: 'Agendamento ativo',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
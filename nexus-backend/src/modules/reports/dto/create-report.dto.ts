@@ -1 +1,112 @@
-export class CreateReportDto {}
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsOptional,
+  IsUUID,
+  IsInt,
+  Min,
+  Max,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ReportType } from '../enums/report-type.enum';
+import { RouteType } from '../../routes/enums/route.type';
+
+/**
+ * DTO dos filtros parametrizados de um relatório
+ */
+export class ReportFiltersDto {
+  @ApiPropertyOptional({
+    description:
+      'Período padrão em dias (contados a partir de agora) quando não informado na execução',
+    example: 30,
+    default: 30,
+    minimum: 1,
+    maximum: 366,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(366)
+  period_days?: number;
+
+  @ApiPropertyOptional({ description: 'Filtrar por motorista (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por veículo (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  vehicle_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por cliente (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  customer_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filtrar por tipo de rota',
+    enum: RouteType as object,
+    example: RouteType.URBAN,
+  })
+  @IsOptional()
+  @IsEnum(RouteType as object, {
+    message: 'Tipo deve ser um valor válido: URBAN, INTERSTATE, RURAL, EXPRESS, LOCAL',
+  })
+  route_type?: RouteType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por cidade de entrega', example: 'Curitiba' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  city?: string;
+}
+
+/**
+ * DTO para criar definição de relatório
+ */
+export class CreateReportDto {
+  @ApiProperty({
+    description: 'Nome do relatório',
+    example: 'SLA mensal - Curitiba',
+    minLength: 3,
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(3, 255)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Descrição do relatório',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 1000)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Tipo de indicador',
+    enum: ReportType,
+    example: ReportType.ON_TIME_DELIVERY,
+  })
+  @IsEnum(ReportType, {
+    message:
+      'Tipo deve ser um valor válido: ON_TIME_DELIVERY, FIRST_ATTEMPT_SUCCESS, FAILURE_BREAKDOWN, COST_PER_DELIVERY, KM_PER_ROUTE',
+  })
+  type!: ReportType;
+
+  @ApiPropertyOptional({
+    description: 'Filtros parametrizados',
+    type: ReportFiltersDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReportFiltersDto)
+  filters?: ReportFiltersDto;
+}
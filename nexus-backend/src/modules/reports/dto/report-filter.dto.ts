@@ -0,0 +1,14 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { ReportType } from '../enums/report-type.enum';
+
+/**
+ * DTO para listar definições de relatório
+ */
+export class ReportFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por tipo', enum: ReportType })
+  @IsOptional()
+  @IsEnum(ReportType)
+  type?: ReportType;
+}
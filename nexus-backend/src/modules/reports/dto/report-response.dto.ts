@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ReportType } from '../enums/report-type.enum';
+import { ReportFiltersDto } from './create-report.dto';
+
+/**
+ * DTO de resposta da definição de relatório
+ */
+export class ReportResponseDto {
+  @ApiProperty({
+    description: 'ID do relatório',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Nome', example: 'SLA mensal - Curitiba' })
+  @Expose()
+  name!: string;
+
+  @ApiPropertyOptional({ description: 'Descrição' })
+  @Expose()
+  description?: string;
+
+  @ApiProperty({ description: 'Tipo de indicador', enum: ReportType })
+  @Expose()
+  type!: ReportType;
+
+  @ApiProperty({ description: 'Filtros parametrizados', type: ReportFiltersDto })
+  @Expose()
+  filters!: ReportFiltersDto;
+
+  @ApiPropertyOptional({ description: 'ID do usuário que criou o relatório' })
+  @Expose()
+  created_by?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora da última execução' })
+  @Expose()
+  last_run_at?: Date;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
@@ -0,0 +1,31 @@
+import { IsOptional, IsUUID, IsEnum, IsBoolean } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { ReportRunStatus } from '../enums/report-run-status.enum';
+
+/**
+ * DTO para listar agendamentos de relatório
+ */
+export class ReportScheduleFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por relatório', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  report_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por agendamentos ativos' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  is_active?: boolean;
+}
+
+/**
+ * DTO para listar o histórico de execuções de um agendamento
+ */
+export class ReportScheduleRunFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por status', enum: ReportRunStatus })
+  @IsOptional()
+  @IsEnum(ReportRunStatus)
+  status?: ReportRunStatus;
+}
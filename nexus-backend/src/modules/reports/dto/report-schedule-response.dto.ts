@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportRunStatus } from '../enums/report-run-status.enum';
+
+/**
+ * DTO de resposta de agendamento de relatório
+ */
+export class ReportScheduleResponseDto {
+  @ApiProperty({
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID do relatório salvo' })
+  @Expose()
+  report_id!: string;
+
+  @ApiProperty({ description: 'Expressão cron', example: '0 7 * * 1' })
+  @Expose()
+  cron_expression!: string;
+
+  @ApiProperty({ description: 'Fuso horário', example: 'America/Sao_Paulo' })
+  @Expose()
+  timezone!: string;
+
+  @ApiProperty({ description: 'Formato do arquivo', enum: ReportFormat })
+  @Expose()
+  format!: ReportFormat;
+
+  @ApiProperty({ description: 'E-mails dos destinatários', type: [String] })
+  @Expose()
+  recipients!: string[];
+
+  @ApiProperty({ description: 'Agendamento ativo' })
+  @Expose()
+  is_active!: boolean;
+
+  @ApiPropertyOptional({ description: 'Data/hora da última execução' })
+  @Expose()
+  last_run_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora prevista da próxima execução' })
+  @Expose()
+  next_run_at?: Date;
+
+  @ApiPropertyOptional({ description: 'ID do usuário que criou o agendamento' })
+  @Expose()
+  created_by?: string;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
+
+/**
+ * DTO de resposta de execução de agendamento
+ */
+export class ReportScheduleRunResponseDto {
+  @ApiProperty({ description: 'ID da execução' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID do agendamento' })
+  @Expose()
+  schedule_id!: string;
+
+  @ApiProperty({ description: 'Status da execução', enum: ReportRunStatus })
+  @Expose()
+  status!: ReportRunStatus;
+
+  @ApiProperty({ description: 'Execução disparada manualmente' })
+  @Expose()
+  manual!: boolean;
+
+  @ApiProperty({ description: 'Início da execução' })
+  @Expose()
+  started_at!: Date;
+
+  @ApiPropertyOptional({ description: 'Fim da execução' })
+  @Expose()
+  finished_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Duração em milissegundos', example: 1834 })
+  @Expose()
+  duration_ms?: number;
+
+  @ApiPropertyOptional({ description: 'Quantidade de linhas do relatório' })
+  @Expose()
+  row_count?: number;
+
+  @ApiPropertyOptional({ description: 'URL do arquivo armazenado' })
+  @Expose()
+  file_url?: string;
+
+  @ApiPropertyOptional({ description: 'Destinatários notificados', type: [String] })
+  @Expose()
+  recipients?: string[];
+
+  @ApiPropertyOptional({ description: 'Mensagem de erro' })
+  @Expose()
+  error_message?: string;
+}
@@ -0,0 +1,33 @@
+import { IsEnum, IsOptional, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ReportFormat } from '../enums/report-format.enum';
+
+/**
+ * DTO de execução de relatório salvo
+ */
+export class RunReportDto {
+  @ApiPropertyOptional({
+    description: 'Início do período (padrão: agora - period_days da definição)',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  date_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Fim do período (padrão: agora)',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  date_to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Formato de saída',
+    enum: ReportFormat,
+    default: ReportFormat.JSON,
+  })
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
+}
@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/mapped-types';
+import { CreateReportScheduleDto } from './create-report-schedule.dto';
+
+export class UpdateReportScheduleDto extends PartialType(
+  OmitType(CreateReportScheduleDto, ['report_id'] as const),
+) {}
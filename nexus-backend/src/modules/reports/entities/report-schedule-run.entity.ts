@@ -0,0 +1,88 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { ReportSchedule } from './report-schedule.entity';
+import { ReportRunStatus } from '../enums/report-run-status.enum';
+
+/**
+ * ReportScheduleRun Entity - Histórico de execuções de agendamentos
+ *
+ * Registra status, duração, arquivo gerado e erro de cada execução
+ */
+@Entity('report_schedule_runs')
+@Index(['schedule_id', 'started_at'])
+@Index(['status'])
+export class ReportScheduleRun extends BaseEntity {
+  @ManyToOne(() => ReportSchedule, schedule => schedule.runs, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'schedule_id' })
+  schedule!: ReportSchedule;
+
+  @Column({ type: 'uuid', comment: 'ID do agendamento' })
+  schedule_id!: string;
+
+  @Column({
+    type: 'enum',
+    enum: ReportRunStatus,
+    default: ReportRunStatus.RUNNING,
+    comment: 'Status da execução',
+  })
+  status!: ReportRunStatus;
+
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: 'Indica se a execução foi disparada manualmente',
+  })
+  manual!: boolean;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Início da execução',
+  })
+  started_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Fim da execução',
+  })
+  finished_at?: Date;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Duração da execução em milissegundos',
+  })
+  duration_ms?: number;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Quantidade de linhas do relatório',
+  })
+  row_count?: number;
+
+  @Column({
+    type: 'varchar',
+    length: 1000,
+    nullable: true,
+    comment: 'URL do arquivo armazenado',
+  })
+  file_url?: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Destinatários notificados',
+  })
+  recipients?: string[];
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Mensagem de erro da execução',
+  })
+  error_message?: string;
+}
@@ -0,0 +1,87 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn, OneToMany } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Report } from './report.entity';
+import { ReportScheduleRun } from './report-schedule-run.entity';
+import { ReportFormat } from '../enums/report-format.enum';
+
+/**
+ * ReportSchedule Entity - Agendamentos de geração de relatórios
+ *
+ * Features:
+ * - Expressão cron com fuso horário próprio
+ * - Formato do arquivo gerado (CSV ou XLSX)
+ * - Destinatários que recebem o link do arquivo por e-mail
+ * - Histórico de execuções
+ */
+@Entity('report_schedules')
+@Index(['report_id'])
+@Index(['is_active'])
+export class ReportSchedule extends BaseEntity {
+  @ManyToOne(() => Report, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'report_id' })
+  report!: Report;
+
+  @Column({ type: 'uuid', comment: 'ID do relatório agendado' })
+  report_id!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    comment: 'Expressão cron de execução',
+  })
+  cron_expression!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    default: 'America/Sao_Paulo',
+    comment: 'Fuso horário (IANA) da expressão cron',
+  })
+  timezone!: string;
+
+  @Column({
+    type: 'enum',
+    enum: ReportFormat,
+    default: ReportFormat.XLSX,
+    comment: 'Formato do arquivo gerado',
+  })
+  format!: ReportFormat;
+
+  @Column({
+    type: 'jsonb',
+    default: () => "'[]'",
+    comment: 'E-mails dos destinatários',
+  })
+  recipients!: string[];
+
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Indica se o agendamento está ativo',
+  })
+  is_active!: boolean;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da última execução',
+  })
+  last_run_at?: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora prevista da próxima execução',
+  })
+  next_run_at?: Date;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que criou o agendamento',
+  })
+  created_by?: string;
+
+  @OneToMany(() => ReportScheduleRun, run => run.schedule)
+  runs!: ReportScheduleRun[];
+}
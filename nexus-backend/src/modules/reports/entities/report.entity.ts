@@ -1 +1,60 @@
-export class Report {}
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { ReportType } from '../enums/report-type.enum';
+import type { ReportFilters } from '../interfaces/report-result.interface';
+
+/**
+ * Report Entity - Definições de relatórios salvos
+ *
+ * Features:
+ * - Tipo de indicador (KPI) a ser calculado
+ * - Filtros parametrizados (motorista, veículo, cliente, tipo de rota, cidade)
+ * - Período padrão relativo, sobrescrevível na execução
+ * - Registro da última execução
+ */
+@Entity('reports')
+@Index(['type'])
+@Index(['created_by'])
+export class Report extends BaseEntity {
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Nome do relatório',
+  })
+  name!: string;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Descrição do relatório',
+  })
+  description?: string;
+
+  @Column({
+    type: 'enum',
+    enum: ReportType,
+    comment: 'Tipo de indicador calculado',
+  })
+  type!: ReportType;
+
+  @Column({
+    type: 'jsonb',
+    default: () => "'{}'",
+    comment: 'Filtros parametrizados do relatório',
+  })
+  filters!: ReportFilters;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que criou o relatório',
+  })
+  created_by?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da última execução',
+  })
+  last_run_at?: Date;
+}
@@ -0,0 +1,17 @@
+/**
+ * Enum para formatos de saída de relatório
+ */
+export enum ReportFormat {
+  JSON = 'json',
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+/**
+ * Content-Type de cada formato para download
+ */
+export const ReportFormatContentTypes: Record<ReportFormat, string> = {
+  [ReportFormat.JSON]: 'application/json',
+  [ReportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ReportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
@@ -0,0 +1,13 @@
+/**
+ * Enum para status de execução de relatório agendado
+ */
+export enum ReportRunStatus {
+  /** Em execução */
+  RUNNING = 'RUNNING',
+
+  /** Gerado, armazenado e enviado com sucesso */
+  SUCCESS = 'SUCCESS',
+
+  /** Falhou em alguma etapa (geração, armazenamento ou envio) */
+  FAILED = 'FAILED',
+}
@@ -0,0 +1,31 @@
+/**
+ * Enum para tipos de relatório operacional
+ * Cada tipo corresponde a um indicador (KPI) calculado pelo gerador
+ */
+export enum ReportType {
+  /** Taxa de entregas no prazo conforme DeliveryPriorityDeadlines */
+  ON_TIME_DELIVERY = 'ON_TIME_DELIVERY',
+
+  /** Taxa de sucesso na primeira tentativa */
+  FIRST_ATTEMPT_SUCCESS = 'FIRST_ATTEMPT_SUCCESS',
+
+  /** Distribuição de falhas por motivo */
+  FAILURE_BREAKDOWN = 'FAILURE_BREAKDOWN',
+
+  /** Custo médio por entrega */
+  COST_PER_DELIVERY = 'COST_PER_DELIVERY',
+
+  /** Quilometragem por rota */
+  KM_PER_ROUTE = 'KM_PER_ROUTE',
+}
+
+/**
+ * Títulos dos relatórios para exibição e exportação
+ */
+export const ReportTypeTitles: Record<ReportType, string> = {
+  [ReportType.ON_TIME_DELIVERY]: 'Entregas no prazo (SLA)',
+  [ReportType.FIRST_ATTEMPT_SUCCESS]: 'Sucesso na primeira tentativa',
+  [ReportType.FAILURE_BREAKDOWN]: 'Falhas por motivo',
+  [ReportType.COST_PER_DELIVERY]: 'Custo médio por entrega',
+  [ReportType.KM_PER_ROUTE]: 'Quilometragem por rota',
+};
@@ -0,0 +1,52 @@
+import type { ReportType } from '../enums/report-type.enum';
+
+/**
+ * Filtros aplicáveis aos relatórios
+ *
+ * Todos os filtros valem para todos os tipos de relatório:
+ * - city filtra pelo endereço de entrega; na quilometragem, rotas com entregas na cidade
+ * - customer_id na quilometragem seleciona rotas com entregas do cliente
+ * - route_type filtra o tipo da rota à qual a entrega está vinculada
+ */
+export interface ReportFilters {
+  period_days?: number;
+  driver_id?: string;
+  vehicle_id?: string;
+  customer_id?: string;
+  route_type?: string;
+  city?: string;
+}
+
+/**
+ * Período efetivo de execução do relatório
+ */
+export interface ReportPeriod {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Coluna tabular do relatório
+ */
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+export type ReportCellValue = string | number | null;
+
+/**
+ * Resultado de execução de um relatório
+ *
+ * A parte tabular (columns/rows) é a mesma usada nas exportações CSV e XLSX
+ */
+export interface ReportResult {
+  report_type: ReportType;
+  title: string;
+  generated_at: Date;
+  period: ReportPeriod;
+  filters: ReportFilters;
+  summary: Record<string, ReportCellValue>;
+  columns: ReportColumn[];
+  rows: Record<string, ReportCellValue>[];
+}
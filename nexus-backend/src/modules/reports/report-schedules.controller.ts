@@ -0,0 +1,232 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { ReportSchedulesService } from './report-schedules.service';
+import { CreateReportScheduleDto } from './dto/create-report-schedule.dto';
+import { UpdateReportScheduleDto } from './dto/update-report-schedule.dto';
+import {
+  ReportScheduleFilterDto,
+  ReportScheduleRunFilterDto,
+} from './dto/report-schedule-filter.dto';
+import {
+  ReportScheduleResponseDto,
+  ReportScheduleRunResponseDto,
+} from './dto/report-schedule-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+
+/**
+ * Controller de agendamentos de relatórios
+ *
+ * Gerencia a geração periódica de relatórios salvos:
+ * - Expressão cron e fuso horário por agendamento
+ * - Arquivo armazenado no bucket e link enviado por e-mail
+ * - Histórico de execuções e disparo manual
+ *
+ * Destinatários devem ser usuários ativos com permissão de consultar relatórios
+ */
+@ApiTags('Report Schedules')
+@Controller('report-schedules')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiForbiddenResponse({ description: 'Usuário sem permissão' })
+export class ReportSchedulesController {
+  constructor(private readonly reportSchedulesService: ReportSchedulesService) {}
+
+  @Post()
+  @RequirePermissions('reports:schedule')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Criar agendamento',
+    description: 'Agenda a geração periódica de um relatório salvo com envio do link por e-mail',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Agendamento criado com sucesso',
+    type: ReportScheduleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Dados inválidos, expressão cron ou fuso horário inválido, ou destinatário sem acesso a relatórios',
+  })
+  @ApiNotFoundResponse({
+    description: 'Relatório não encontrado',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async create(@Body() createDto: CreateReportScheduleDto): Promise<ReportScheduleResponseDto> {
+    return this.reportSchedulesService.create(createDto);
+  }
+
+  @Get()
+  @RequirePermissions('reports:read')
+  @ApiOperation({
+    summary: 'Listar agendamentos',
+    description: 'Lista agendamentos com filtro por relatório e situação',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de agendamentos retornada com sucesso',
+    type: PaginatedResponseDto<ReportScheduleResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: ReportScheduleFilterDto,
+  ): Promise<PaginatedResponseDto<ReportScheduleResponseDto>> {
+    return this.reportSchedulesService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @RequirePermissions('reports:read')
+  @ApiOperation({
+    summary: 'Buscar agendamento por ID',
+    description: 'Retorna os detalhes de um agendamento, incluindo a próxima execução',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Agendamento encontrado com sucesso',
+    type: ReportScheduleResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Agendamento não encontrado',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ReportScheduleResponseDto> {
+    return this.reportSchedulesService.findOne(id);
+  }
+
+  @Get(':id/runs')
+  @RequirePermissions('reports:read')
+  @ApiOperation({
+    summary: 'Histórico de execuções',
+    description: 'Lista as execuções do agendamento com status, duração e erros',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Histórico retornado com sucesso',
+    type: PaginatedResponseDto<ReportScheduleRunResponseDto>,
+  })
+  @ApiNotFoundResponse({
+    description: 'Agendamento não encontrado',
+  })
+  async findRuns(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() filterDto: ReportScheduleRunFilterDto,
+  ): Promise<PaginatedResponseDto<ReportScheduleRunResponseDto>> {
+    return this.reportSchedulesService.findRuns(id, filterDto);
+  }
+
+  @Post(':id/run')
+  @RequirePermissions('reports:schedule')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Executar agendamento agora',
+    description: 'Dispara imediatamente a geração, armazenamento e envio do relatório',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Execução registrada (verifique o status)',
+    type: ReportScheduleRunResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Agendamento não encontrado',
+  })
+  @ApiConflictResponse({
+    description: 'Agendamento já está em execução',
+  })
+  async runNow(@Param('id', ParseUUIDPipe) id: string): Promise<ReportScheduleRunResponseDto> {
+    return this.reportSchedulesService.runNow(id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('reports:schedule')
+  @ApiOperation({
+    summary: 'Atualizar agendamento',
+    description: 'Atualiza expressão cron, fuso, formato, destinatários ou situação',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Agendamento atualizado com sucesso',
+    type: ReportScheduleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Dados inválidos, expressão cron ou fuso horário inválido, ou destinatário sem acesso a relatórios',
+  })
+  @ApiNotFoundResponse({
+    description: 'Agendamento não encontrado',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateReportScheduleDto,
+  ): Promise<ReportScheduleResponseDto> {
+    return this.reportSchedulesService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('reports:schedule')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remover agendamento',
+    description: 'Cancela e remove um agendamento (soft delete)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do agendamento',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Agendamento removido com sucesso',
+  })
+  @ApiNotFoundResponse({
+    description: 'Agendamento não encontrado',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.reportSchedulesService.remove(id);
+  }
+}
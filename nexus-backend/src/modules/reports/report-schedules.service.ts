@@ -0,0 +1,223 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { Report } from './entities/report.entity';
+import { ReportSchedule } from './entities/report-schedule.entity';
+import { ReportScheduleRun } from './entities/report-schedule-run.entity';
+import { CreateReportScheduleDto } from './dto/create-report-schedule.dto';
+import { UpdateReportScheduleDto } from './dto/update-report-schedule.dto';
+import {
+  ReportScheduleFilterDto,
+  ReportScheduleRunFilterDto,
+} from './dto/report-schedule-filter.dto';
+import {
+  ReportScheduleResponseDto,
+  ReportScheduleRunResponseDto,
+} from './dto/report-schedule-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { ReportSchedulerService } from './services/report-scheduler.service';
+import { ReportRecipientPolicyService } from './services/report-recipient-policy.service';
+import { ClsAuditUtils } from '../routes/utils/cls-audit.util';
+
+const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+@Injectable()
+export class ReportSchedulesService {
+  private readonly logger = new Logger(ReportSchedulesService.name);
+
+  constructor(
+    @InjectRepository(ReportSchedule)
+    private readonly scheduleRepository: Repository<ReportSchedule>,
+    @InjectRepository(ReportScheduleRun)
+    private readonly runRepository: Repository<ReportScheduleRun>,
+    @InjectRepository(Report)
+    private readonly reportRepository: Repository<Report>,
+    private readonly reportSchedulerService: ReportSchedulerService,
+    private readonly recipientPolicy: ReportRecipientPolicyService,
+    private readonly clsAuditUtils: ClsAuditUtils,
+  ) {}
+
+  async create(createDto: CreateReportScheduleDto): Promise<ReportScheduleResponseDto> {
+    const reportExists = await this.reportRepository.exists({ where: { id: createDto.report_id } });
+    if (!reportExists) {
+      throw new NotFoundException(`Relatório com ID ${createDto.report_id} não encontrado`);
+    }
+
+    await this.assertRecipientsAllowed(createDto.recipients);
+
+    const timezone = createDto.timezone ?? DEFAULT_TIMEZONE;
+    const nextRunAt = this.reportSchedulerService.getNextRunAt(createDto.cron_expression, timezone);
+
+    const schedule = this.scheduleRepository.create({
+      ...createDto,
+      timezone,
+      recipients: [...new Set(createDto.recipients)],
+      next_run_at: nextRunAt,
+    });
+
+    const createdBy = this.clsAuditUtils.getUserId();
+    if (createdBy) {
+      schedule.created_by = createdBy;
+    }
+
+    const saved = await this.scheduleRepository.save(schedule);
+    await this.reportSchedulerService.register(saved);
+
+    this.logger.log(`Agendamento criado: ${saved.id} (${saved.cron_expression} ${timezone})`);
+
+    return this.findOne(saved.id);
+  }
+
+  async findAll(
+    filterDto: ReportScheduleFilterDto,
+  ): Promise<PaginatedResponseDto<ReportScheduleResponseDto>> {
+    const { page = 1, limit = 10, report_id, is_active } = filterDto;
+
+    const where: FindOptionsWhere<ReportSchedule> = {};
+
+    if (report_id) {
+      where.report_id = report_id;
+    }
+    if (is_active !== undefined) {
+      where.is_active = is_active;
+    }
+
+    const [schedules, total] = await this.scheduleRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: schedules.map(schedule => this.mapToResponseDto(schedule)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<ReportScheduleResponseDto> {
+    const schedule = await this.findScheduleOrFail(id);
+    return this.mapToResponseDto(schedule);
+  }
+
+  async update(id: string, updateDto: UpdateReportScheduleDto): Promise<ReportScheduleResponseDto> {
+    const schedule = await this.findScheduleOrFail(id);
+
+    if (updateDto.recipients) {
+      await this.assertRecipientsAllowed(updateDto.recipients);
+    }
+
+    Object.assign(schedule, updateDto);
+
+    if (updateDto.recipients) {
+      schedule.recipients = [...new Set(updateDto.recipients)];
+    }
+
+    schedule.next_run_at = this.reportSchedulerService.getNextRunAt(
+      schedule.cron_expression,
+      schedule.timezone,
+    );
+
+    const saved = await this.scheduleRepository.save(schedule);
+    await this.reportSchedulerService.register(saved);
+
+    this.logger.log(`Agendamento atualizado: ${id}`);
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const schedule = await this.findScheduleOrFail(id);
+
+    this.reportSchedulerService.unregister(schedule.id);
+    await this.scheduleRepository.softRemove(schedule);
+
+    this.logger.log(`Agendamento removido: ${id}`);
+  }
+
+  /**
+   * Dispara a execução imediata de um agendamento
+   */
+  async runNow(id: string): Promise<ReportScheduleRunResponseDto> {
+    const run = await this.reportSchedulerService.execute(id, true);
+    return this.mapRunToResponseDto(run);
+  }
+
+  async findRuns(
+    id: string,
+    filterDto: ReportScheduleRunFilterDto,
+  ): Promise<PaginatedResponseDto<ReportScheduleRunResponseDto>> {
+    await this.findScheduleOrFail(id);
+
+    const { page = 1, limit = 10, status } = filterDto;
+
+    const where: FindOptionsWhere<ReportScheduleRun> = { schedule_id: id };
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [runs, total] = await this.runRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { started_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: runs.map(run => this.mapRunToResponseDto(run)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  private async assertRecipientsAllowed(recipients: string[]): Promise<void> {
+    const unauthorized = await this.recipientPolicy.findUnauthorized(recipients);
+
+    if (unauthorized.length > 0) {
+      throw new BadRequestException(
+        `Destinatários sem acesso a relatórios: ${unauthorized.join(', ')}`,
+      );
+    }
+  }
+
+  private async findScheduleOrFail(id: string): Promise<ReportSchedule> {
+    const schedule = await this.scheduleRepository.findOne({ where: { id } });
+
+    if (!schedule) {
+      throw new NotFoundException(`Agendamento com ID ${id} não encontrado`);
+    }
+
+    return schedule;
+  }
+
+  private mapToResponseDto(schedule: ReportSchedule): ReportScheduleResponseDto {
+    return plainToInstance(ReportScheduleResponseDto, schedule, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  private mapRunToResponseDto(run: ReportScheduleRun): ReportScheduleRunResponseDto {
+    return plainToInstance(ReportScheduleRunResponseDto, run, {
+      excludeExtraneousValues: true,
+    });
+  }
+}
@@ -1,34 +1,209 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+  ApiProduces,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
 import { ReportsService } from './reports.service';
 import { CreateReportDto } from './dto/create-report.dto';
 import { UpdateReportDto } from './dto/update-report.dto';
+import { ReportFilterDto } from './dto/report-filter.dto';
+import { RunReportDto } from './dto/run-report.dto';
+import { ReportResponseDto } from './dto/report-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { ReportFormat, ReportFormatContentTypes } from './enums/report-format.enum';
+import type { ReportResult } from './interfaces';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
 
+/**
+ * Controller de relatórios operacionais
+ *
+ * Gerencia definições de relatórios salvos e sua execução:
+ * - Entregas no prazo (SLA), sucesso na primeira tentativa, falhas por motivo
+ * - Custo médio por entrega e quilometragem por rota
+ * - Resultado em JSON ou download em CSV/XLSX
+ *
+ * Indicadores e custos por cliente exigem permissão de consultar relatórios
+ */
+@ApiTags('Reports')
 @Controller('reports')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('reports:read')
+@ApiBearerAuth()
+@ApiForbiddenResponse({ description: 'Usuário sem permissão para consultar relatórios' })
 export class ReportsController {
   constructor(private readonly reportsService: ReportsService) {}
 
   @Post()
-  create(@Body() createReportDto: CreateReportDto) {
-    return this.reportsService.create(createReportDto);
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Criar relatório',
+    description: 'Salva a definição de um relatório (tipo de indicador e filtros)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Relatório criado com sucesso',
+    type: ReportResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async create(@Body() createDto: CreateReportDto): Promise<ReportResponseDto> {
+    return this.reportsService.create(createDto);
   }
 
   @Get()
-  findAll() {
-    return this.reportsService.findAll();
+  @ApiOperation({
+    summary: 'Listar relatórios',
+    description: 'Lista as definições de relatórios salvos',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de relatórios retornada com sucesso',
+    type: PaginatedResponseDto<ReportResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: ReportFilterDto,
+  ): Promise<PaginatedResponseDto<ReportResponseDto>> {
+    return this.reportsService.findAll(filterDto);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.reportsService.findOne(+id);
+  @ApiOperation({
+    summary: 'Buscar relatório por ID',
+    description: 'Retorna a definição de um relatório salvo',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do relatório',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Relatório encontrado com sucesso',
+    type: ReportResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Relatório não encontrado',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ReportResponseDto> {
+    return this.reportsService.findOne(id);
+  }
+
+  @Get(':id/run')
+  @ApiOperation({
+    summary: 'Executar relatório',
+    description:
+      'Executa o relatório salvo no período informado (padrão: últimos period_days dias). Retorna JSON ou arquivo CSV/XLSX conforme o formato',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do relatório',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiProduces(...Object.values(ReportFormatContentTypes))
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Relatório executado com sucesso',
+  })
+  @ApiBadRequestResponse({
+    description: 'Período ou formato inválido',
+  })
+  @ApiNotFoundResponse({
+    description: 'Relatório não encontrado',
+  })
+  async run(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() runDto: RunReportDto,
+  ): Promise<ReportResult | StreamableFile> {
+    const format = runDto.format ?? ReportFormat.JSON;
+
+    if (format === ReportFormat.JSON) {
+      return this.reportsService.run(id, runDto);
+    }
+
+    const file = await this.reportsService.download(id, runDto, format);
+
+    return new StreamableFile(file.content, {
+      type: file.content_type,
+      disposition: `attachment; filename="${file.filename}"`,
+      length: file.content.length,
+    });
   }
 
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateReportDto: UpdateReportDto) {
-    return this.reportsService.update(+id, updateReportDto);
+  @ApiOperation({
+    summary: 'Atualizar relatório',
+    description: 'Atualiza nome, tipo ou filtros de um relatório salvo',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do relatório',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Relatório atualizado com sucesso',
+    type: ReportResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos',
+  })
+  @ApiNotFoundResponse({
+    description: 'Relatório não encontrado',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateReportDto,
+  ): Promise<ReportResponseDto> {
+    return this.reportsService.update(id, updateDto);
   }
 
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.reportsService.remove(+id);
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remover relatório',
+    description: 'Remove a definição de um relatório (soft delete)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do relatório',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Relatório removido com sucesso',
+  })
+  @ApiNotFoundResponse({
+    description: 'Relatório não encontrado',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.reportsService.remove(id);
   }
 }
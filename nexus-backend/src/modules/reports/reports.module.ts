@@ -2,12 +2,49 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ReportsService } from './reports.service';
 import { ReportsController } from './reports.controller';
+import { ReportSchedulesService } from './report-schedules.service';
+import { ReportSchedulesController } from './report-schedules.controller';
 import { Report } from './entities/report.entity';
+import { ReportSchedule } from './entities/report-schedule.entity';
+import { ReportScheduleRun } from './entities/report-schedule-run.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { DeliveryAttempt } from '../deliveries/entities/delivery-attempt.entity';
+import { Route } from '../routes/entities/route.entity';
+import { ReportGeneratorService } from './services/report-generator.service';
+import { ReportExportService } from './services/report-export.service';
+import { ReportSchedulerService } from './services/report-scheduler.service';
+import { ReportRecipientPolicyService } from './services/report-recipient-policy.service';
+import { RoutesModule } from '../routes/routes.module';
+import { UploadModule } from '../upload/upload.module';
+import { MailModule } from '../mail/mail.module';
+import { AuthModule } from '../auth/auth.module';
+import { User } from '../users/entities/user.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Report])],
-  controllers: [ReportsController],
-  providers: [ReportsService],
-  exports: [ReportsService, TypeOrmModule],
+  imports: [
+    TypeOrmModule.forFeature([
+      Report,
+      ReportSchedule,
+      ReportScheduleRun,
+      Delivery,
+      DeliveryAttempt,
+      Route,
+      User,
+    ]),
+    RoutesModule,
+    UploadModule,
+    MailModule,
+    AuthModule,
+  ],
+  controllers: [ReportsController, ReportSchedulesController],
+  providers: [
+    ReportsService,
+    ReportSchedulesService,
+    ReportGeneratorService,
+    ReportExportService,
+    ReportSchedulerService,
+    ReportRecipientPolicyService,
+  ],
+  exports: [ReportsService, ReportGeneratorService, ReportExportService],
 })
 export class ReportsModule {}
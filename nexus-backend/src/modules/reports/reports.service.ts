@@ -1,26 +1,179 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere, ILike } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { Report } from './entities/report.entity';
 import { CreateReportDto } from './dto/create-report.dto';
 import { UpdateReportDto } from './dto/update-report.dto';
+import { ReportFilterDto } from './dto/report-filter.dto';
+import { RunReportDto } from './dto/run-report.dto';
+import { ReportResponseDto } from './dto/report-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { ReportGeneratorService } from './services/report-generator.service';
+import { ReportExportService, type ReportFile } from './services/report-export.service';
+import { ClsAuditUtils } from '../routes/utils/cls-audit.util';
+import type { ReportFormat } from './enums/report-format.enum';
+import type { ReportPeriod, ReportResult } from './interfaces';
+
+const DEFAULT_PERIOD_DAYS = 30;
 
 @Injectable()
 export class ReportsService {
-  create(_createReportDto: CreateReportDto) {
-    return 'This action adds a new report';
+  private readonly logger = new Logger(ReportsService.name);
+
+  constructor(
+    @InjectRepository(Report)
+    private readonly reportRepository: Repository<Report>,
+    private readonly reportGeneratorService: ReportGeneratorService,
+    private readonly reportExportService: ReportExportService,
+    private readonly clsAuditUtils: ClsAuditUtils,
+  ) {}
+
+  async create(createDto: CreateReportDto): Promise<ReportResponseDto> {
+    const report = this.reportRepository.create({
+      ...createDto,
+      filters: { ...createDto.filters },
+    });
+
+    const createdBy = this.clsAuditUtils.getUserId();
+    if (createdBy) {
+      report.created_by = createdBy;
+    }
+
+    const saved = await this.reportRepository.save(report);
+
+    this.logger.log(`Relatório criado: ${saved.id} (${saved.type})`);
+
+    return this.mapToResponseDto(saved);
+  }
+
+  async findAll(filterDto: ReportFilterDto): Promise<PaginatedResponseDto<ReportResponseDto>> {
+    const { page = 1, limit = 10, search, type } = filterDto;
+
+    const where: FindOptionsWhere<Report> = {};
+
+    if (search) {
+      where.name = ILike(`%${search}%`);
+    }
+    if (type) {
+      where.type = type;
+    }
+
+    const [reports, total] = await this.reportRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: reports.map(report => this.mapToResponseDto(report)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<ReportResponseDto> {
+    const report = await this.findReportOrFail(id);
+    return this.mapToResponseDto(report);
+  }
+
+  async update(id: string, updateDto: UpdateReportDto): Promise<ReportResponseDto> {
+    const report = await this.findReportOrFail(id);
+
+    const { filters, ...reportData } = updateDto;
+
+    Object.assign(report, reportData);
+
+    if (filters) {
+      report.filters = { ...filters };
+    }
+
+    const saved = await this.reportRepository.save(report);
+
+    this.logger.log(`Relatório atualizado: ${id}`);
+
+    return this.mapToResponseDto(saved);
+  }
+
+  async remove(id: string): Promise<void> {
+    const report = await this.findReportOrFail(id);
+
+    await this.reportRepository.softRemove(report);
+
+    this.logger.log(`Relatório removido: ${id}`);
+  }
+
+  /**
+   * Executa um relatório salvo com seus filtros
+   * O período informado na execução sobrepõe o período padrão da definição
+   */
+  async run(id: string, runDto: RunReportDto): Promise<ReportResult> {
+    const report = await this.findReportOrFail(id);
+    return this.execute(report, runDto);
   }
 
-  findAll() {
-    return `This action returns all reports`;
+  /**
+   * Executa um relatório salvo e gera o arquivo para download
+   */
+  async download(
+    id: string,
+    runDto: RunReportDto,
+    format: ReportFormat.CSV | ReportFormat.XLSX,
+  ): Promise<ReportFile> {
+    const report = await this.findReportOrFail(id);
+    const result = await this.execute(report, runDto);
+
+    return this.reportExportService.export(result, format, report.name);
+  }
+
+  private async execute(report: Report, runDto: RunReportDto): Promise<ReportResult> {
+    const period = this.resolvePeriod(report, runDto);
+
+    const result = await this.reportGeneratorService.generate(report.type, report.filters, period);
+
+    report.last_run_at = result.generated_at;
+    await this.reportRepository.save(report);
+
+    return result;
   }
 
-  findOne(id: number) {
-    return `This action returns a #${id} report`;
+  private resolvePeriod(report: Report, runDto: RunReportDto): ReportPeriod {
+    const to = runDto.date_to ? new Date(runDto.date_to) : new Date();
+    const from = runDto.date_from
+      ? new Date(runDto.date_from)
+      : new Date(
+          to.getTime() - (report.filters.period_days ?? DEFAULT_PERIOD_DAYS) * 24 * 60 * 60 * 1000,
+        );
+
+    if (from > to) {
+      throw new BadRequestException('A data inicial deve ser anterior à data final');
+    }
+
+    return { from, to };
   }
 
-  update(id: number, _updateReportDto: UpdateReportDto) {
-    return `This action updates a #${id} report`;
+  private async findReportOrFail(id: string): Promise<Report> {
+    const report = await this.reportRepository.findOne({ where: { id } });
+
+    if (!report) {
+      throw new NotFoundException(`Relatório com ID ${id} não encontrado`);
+    }
+
+    return report;
   }
 
-  remove(id: number) {
-    return `This action removes a #${id} report`;
+  private mapToResponseDto(report: Report): ReportResponseDto {
+    return plainToInstance(ReportResponseDto, report, {
+      excludeExtraneousValues: true,
+    });
   }
 }
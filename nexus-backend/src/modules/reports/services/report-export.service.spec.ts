@@ -0,0 +1,64 @@
+import { ReportExportService } from './report-export.service';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportType } from '../enums/report-type.enum';
+import type { ReportResult } from '../interfaces';
+
+describe('ReportExportService', () => {
+  let service: ReportExportService;
+
+  const result: ReportResult = {
+    report_type: ReportType.COST_PER_DELIVERY,
+    title: 'Custo médio por entrega',
+    generated_at: new Date('2024-01-31T12:00:00Z'),
+    period: { from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-01-31T00:00:00Z') },
+    filters: {},
+    summary: { total_delivered: 3, average_cost: 20 },
+    columns: [
+      { key: 'city', label: 'Cidade' },
+      { key: 'total', label: 'Entregas' },
+      { key: 'average_cost', label: 'Custo médio (R$)' },
+    ],
+    rows: [
+      { city: 'Curitiba', total: 2, average_cost: 15.5 },
+      { city: 'São José, "Centro"', total: 1, average_cost: null },
+    ],
+  };
+
+  beforeEach(() => {
+    service = new ReportExportService();
+  });
+
+  describe('toCsv', () => {
+    it('should write header labels and rows in column order', () => {
+      const lines = service.toCsv(result).replace('\uFEFF', '').split('\r\n');
+
+      expect(lines[0]).toBe('Cidade,Entregas,Custo médio (R$)');
+      expect(lines[1]).toBe('Curitiba,2,15.5');
+    });
+
+    it('should escape quotes and separators and leave nulls empty', () => {
+      const lines = service.toCsv(result).split('\r\n');
+
+      expect(lines[2]).toBe('"São José, ""Centro""",1,');
+    });
+
+    it('should start with UTF-8 BOM', () => {
+      expect(service.toCsv(result).startsWith('\uFEFF')).toBe(true);
+    });
+  });
+
+  describe('export', () => {
+    it('should build slugified filename with generation date', async () => {
+      const file = await service.export(result, ReportFormat.CSV, 'SLA Mensal - Região Sul');
+
+      expect(file.filename).toBe('sla-mensal-regiao-sul-2024-01-31.csv');
+      expect(file.content_type).toBe('text/csv; charset=utf-8');
+    });
+
+    it('should generate a valid XLSX (zip) buffer', async () => {
+      const file = await service.export(result, ReportFormat.XLSX, 'Custos');
+
+      expect(file.content.subarray(0, 2).toString()).toBe('PK');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import { ReportFormat, ReportFormatContentTypes } from '../enums/report-format.enum';
+import type { ReportCellValue, ReportResult } from '../interfaces';
+
+/**
+ * Arquivo exportado pronto para download
+ */
+export interface ReportFile {
+  content: Buffer;
+  filename: string;
+  content_type: string;
+  row_count: number;
+}
+
+/**
+ * Serviço de exportação de relatórios (CSV e XLSX)
+ */
+@Injectable()
+export class ReportExportService {
+  async export(
+    result: ReportResult,
+    format: ReportFormat.CSV | ReportFormat.XLSX,
+    baseName: string,
+  ): Promise<ReportFile> {
+    const content =
+      format === ReportFormat.CSV
+        ? Buffer.from(this.toCsv(result), 'utf-8')
+        : await this.toXlsx(result);
+
+    return {
+      content,
+      filename: `${this.slugify(baseName)}-${result.generated_at.toISOString().slice(0, 10)}.${format}`,
+      content_type: ReportFormatContentTypes[format],
+      row_count: result.rows.length,
+    };
+  }
+
+  /**
+   * Gera CSV com cabeçalho e BOM UTF-8 (compatível com Excel)
+   */
+  toCsv(result: ReportResult): string {
+    const header = result.columns.map(column => this.escapeCsv(column.label));
+    const lines = result.rows.map(row =>
+      result.columns.map(column => this.escapeCsv(row[column.key] ?? null)),
+    );
+
+    return `\uFEFF${[header, ...lines].map(line => line.join(',')).join('\r\n')}`;
+  }
+
+  /**
+   * Gera planilha com aba de dados e aba de resumo
+   */
+  async toXlsx(result: ReportResult): Promise<Buffer> {
+    const workbook = new Workbook();
+    workbook.created = result.generated_at;
+
+    const dataSheet = workbook.addWorksheet('Dados');
+    dataSheet.columns = result.columns.map(column => ({
+      header: column.label,
+      key: column.key,
+      width: Math.max(column.label.length + 2, 14),
+    }));
+    dataSheet.getRow(1).font = { bold: true };
+    result.rows.forEach(row => dataSheet.addRow(row));
+
+    const summarySheet = workbook.addWorksheet('Resumo');
+    summarySheet.columns = [
+      { header: 'Indicador', key: 'key', width: 28 },
+      { header: 'Valor', key: 'value', width: 20 },
+    ];
+    summarySheet.getRow(1).font = { bold: true };
+    summarySheet.addRow({ key: 'Relatório', value: result.title });
+    summarySheet.addRow({ key: 'Período inicial', value: result.period.from });
+    summarySheet.addRow({ key: 'Período final', value: result.period.to });
+    Object.entries(result.summary).forEach(([key, value]) => summarySheet.addRow({ key, value }));
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private escapeCsv(value: ReportCellValue): string {
+    if (value === null) {
+      return '';
+    }
+
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private slugify(value: string): string {
+    return (
+      value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'relatorio'
+    );
+  }
+}
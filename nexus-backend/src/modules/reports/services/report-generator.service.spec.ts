@@ -0,0 +1,152 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Logger } from '@nestjs/common';
+import { ReportGeneratorService } from './report-generator.service';
+import { ReportType } from '../enums/report-type.enum';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveryAttempt } from '../../deliveries/entities/delivery-attempt.entity';
+import { Route } from '../../routes/entities/route.entity';
+
+type QueryBuilderMock = Record<string, jest.Mock>;
+
+const createQueryBuilderMock = (): QueryBuilderMock => {
+  const builder: QueryBuilderMock = {};
+  for (const method of [
+    'select',
+    'addSelect',
+    'from',
+    'where',
+    'andWhere',
+    'innerJoin',
+    'leftJoin',
+    'groupBy',
+    'addGroupBy',
+    'orderBy',
+    'addOrderBy',
+  ]) {
+    builder[method] = jest.fn(() => builder);
+  }
+  builder.getRawMany = jest.fn(() => Promise.resolve([]));
+  builder.getQuery = jest.fn(() => '(SELECT 1 FROM deliveries route_delivery)');
+  return builder;
+};
+
+describe('ReportGeneratorService', () => {
+  let service: ReportGeneratorService;
+  let deliveryQuery: QueryBuilderMock;
+  let attemptQuery: QueryBuilderMock;
+  let routeQuery: QueryBuilderMock;
+  let routeDeliveriesQuery: QueryBuilderMock;
+  let logSpy: jest.SpyInstance;
+
+  const period = {
+    from: new Date('2024-01-01T03:00:00.000Z'),
+    to: new Date('2024-02-01T02:59:59.999Z'),
+  };
+
+  const filters = {
+    customer_id: '11111111-1111-4111-8111-111111111111',
+    city: 'Curitiba',
+    route_type: 'URBAN',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    deliveryQuery = createQueryBuilderMock();
+    attemptQuery = createQueryBuilderMock();
+    routeQuery = createQueryBuilderMock();
+    routeDeliveriesQuery = createQueryBuilderMock();
+    routeQuery.subQuery = jest.fn(() => routeDeliveriesQuery);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportGeneratorService,
+        {
+          provide: getRepositoryToken(Delivery),
+          useValue: { createQueryBuilder: jest.fn(() => deliveryQuery) },
+        },
+        {
+          provide: getRepositoryToken(DeliveryAttempt),
+          useValue: { createQueryBuilder: jest.fn(() => attemptQuery) },
+        },
+        {
+          provide: getRepositoryToken(Route),
+          useValue: { createQueryBuilder: jest.fn(() => routeQuery) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReportGeneratorService>(ReportGeneratorService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  describe('generate', () => {
+    it.each([ReportType.ON_TIME_DELIVERY, ReportType.COST_PER_DELIVERY])(
+      'should apply customer, city and route type to %s',
+      async type => {
+        await service.generate(type, filters, period);
+
+        expect(deliveryQuery.andWhere).toHaveBeenCalledWith('delivery.customer_id = :customerId', {
+          customerId: filters.customer_id,
+        });
+        expect(deliveryQuery.andWhere).toHaveBeenCalledWith(
+          "LOWER(delivery.delivery_address->>'city') = LOWER(:city)",
+          { city: filters.city },
+        );
+        expect(deliveryQuery.innerJoin).toHaveBeenCalledWith(
+          'delivery.route',
+          'delivery_route',
+          'delivery_route.type = :routeType',
+          { routeType: filters.route_type },
+        );
+      },
+    );
+
+    it.each([ReportType.FIRST_ATTEMPT_SUCCESS, ReportType.FAILURE_BREAKDOWN])(
+      'should apply the route type of the attempted delivery to %s',
+      async type => {
+        await service.generate(type, { route_type: filters.route_type }, period);
+
+        expect(attemptQuery.innerJoin).toHaveBeenCalledWith(
+          'delivery.route',
+          'delivery_route',
+          'delivery_route.type = :routeType',
+          { routeType: filters.route_type },
+        );
+      },
+    );
+
+    it('should restrict the km report to routes with deliveries of the customer and city', async () => {
+      const result = await service.generate(ReportType.KM_PER_ROUTE, filters, period);
+
+      expect(routeQuery.andWhere).toHaveBeenCalledWith('route.type = :routeType', {
+        routeType: filters.route_type,
+      });
+      expect(routeDeliveriesQuery.from).toHaveBeenCalledWith(Delivery, 'route_delivery');
+      expect(routeDeliveriesQuery.where).toHaveBeenCalledWith('route_delivery.route_id = route.id');
+      expect(routeDeliveriesQuery.andWhere).toHaveBeenCalledWith(
+        'route_delivery.customer_id = :customerId',
+        { customerId: filters.customer_id },
+      );
+      expect(routeDeliveriesQuery.andWhere).toHaveBeenCalledWith(
+        "LOWER(route_delivery.delivery_address->>'city') = LOWER(:city)",
+        { city: filters.city },
+      );
+      expect(routeQuery.andWhere).toHaveBeenCalledWith(
+        'EXISTS (SELECT 1 FROM deliveries route_delivery)',
+      );
+      expect(result.filters).toEqual(filters);
+    });
+
+    it('should not filter routes by deliveries when neither customer nor city is given', async () => {
+      await service.generate(ReportType.KM_PER_ROUTE, { route_type: filters.route_type }, period);
+
+      expect(routeQuery.subQuery).not.toHaveBeenCalled();
+    });
+  });
+});
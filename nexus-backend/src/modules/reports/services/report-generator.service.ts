@@ -0,0 +1,466 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, type SelectQueryBuilder, type ObjectLiteral } from 'typeorm';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveryAttempt } from '../../deliveries/entities/delivery-attempt.entity';
+import { Route } from '../../routes/entities/route.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import {
+  DeliveryPriority,
+  DeliveryPriorityDeadlines,
+  DeliveryPriorityDescriptions,
+} from '../../deliveries/enums/delivery-priority.enum';
+import {
+  FailureReason,
+  FailureReasonCategories,
+  FailureReasonDescriptions,
+} from '../../deliveries/enums/failure-reason.enum';
+import { RouteStatus } from '../../routes/enums/route-status';
+import { ReportType, ReportTypeTitles } from '../enums/report-type.enum';
+import type {
+  ReportCellValue,
+  ReportColumn,
+  ReportFilters,
+  ReportPeriod,
+  ReportResult,
+} from '../interfaces';
+
+type ReportTable = Pick<ReportResult, 'summary' | 'columns' | 'rows'>;
+
+/**
+ * Gerador de indicadores operacionais
+ *
+ * Cada tipo de relatório é calculado por agregação direta no banco,
+ * retornando resumo e tabela (colunas/linhas) prontos para exportação.
+ */
+@Injectable()
+export class ReportGeneratorService {
+  private readonly logger = new Logger(ReportGeneratorService.name);
+
+  constructor(
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(DeliveryAttempt)
+    private readonly attemptRepository: Repository<DeliveryAttempt>,
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+  ) {}
+
+  async generate(
+    type: ReportType,
+    filters: ReportFilters,
+    period: ReportPeriod,
+  ): Promise<ReportResult> {
+    this.logger.log(
+      `Gerando relatório ${type}: ${period.from.toISOString()} - ${period.to.toISOString()}`,
+    );
+
+    const table = await this.buildTable(type, filters, period);
+
+    return {
+      report_type: type,
+      title: ReportTypeTitles[type],
+      generated_at: new Date(),
+      period,
+      filters,
+      ...table,
+    };
+  }
+
+  private buildTable(
+    type: ReportType,
+    filters: ReportFilters,
+    period: ReportPeriod,
+  ): Promise<ReportTable> {
+    switch (type) {
+      case ReportType.ON_TIME_DELIVERY:
+        return this.onTimeDelivery(filters, period);
+      case ReportType.FIRST_ATTEMPT_SUCCESS:
+        return this.firstAttemptSuccess(filters, period);
+      case ReportType.FAILURE_BREAKDOWN:
+        return this.failureBreakdown(filters, period);
+      case ReportType.COST_PER_DELIVERY:
+        return this.costPerDelivery(filters, period);
+      case ReportType.KM_PER_ROUTE:
+        return this.kmPerRoute(filters, period);
+    }
+  }
+
+  /**
+   * Entregas concluídas dentro do prazo da prioridade (DeliveryPriorityDeadlines),
+   * contado a partir da criação da entrega
+   */
+  private async onTimeDelivery(filters: ReportFilters, period: ReportPeriod): Promise<ReportTable> {
+    const deadlineHours = Object.values(DeliveryPriority)
+      .map(priority => `WHEN '${priority}' THEN ${DeliveryPriorityDeadlines[priority]}`)
+      .join(' ');
+    const onTime = `delivery.actual_delivery_at <= delivery.created_at + (CASE delivery.priority ${deadlineHours} END) * INTERVAL '1 hour'`;
+
+    const query = this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .select('delivery.priority', 'priority')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect(`SUM(CASE WHEN ${onTime} THEN 1 ELSE 0 END)`, 'on_time')
+      .where('delivery.status = :status', { status: DeliveryStatus.DELIVERED })
+      .andWhere('delivery.actual_delivery_at BETWEEN :from AND :to', period)
+      .groupBy('delivery.priority');
+
+    this.applyDeliveryFilters(query, 'delivery', filters);
+
+    const raw = await query.getRawMany<{
+      priority: DeliveryPriority;
+      total: string;
+      on_time: string;
+    }>();
+
+    const rows = raw.map(row => {
+      const total = Number(row.total);
+      const onTimeCount = Number(row.on_time);
+      return {
+        priority: DeliveryPriorityDescriptions[row.priority],
+        deadline_hours: DeliveryPriorityDeadlines[row.priority],
+        total,
+        on_time: onTimeCount,
+        late: total - onTimeCount,
+        on_time_rate: this.rate(onTimeCount, total),
+      };
+    });
+
+    const total = this.sum(rows, 'total');
+    const onTimeTotal = this.sum(rows, 'on_time');
+
+    return {
+      summary: {
+        total_delivered: total,
+        on_time: onTimeTotal,
+        late: total - onTimeTotal,
+        on_time_rate: this.rate(onTimeTotal, total),
+      },
+      columns: this.columns({
+        priority: 'Prioridade',
+        deadline_hours: 'Prazo (h)',
+        total: 'Entregues',
+        on_time: 'No prazo',
+        late: 'Atrasadas',
+        on_time_rate: 'Taxa no prazo (%)',
+      }),
+      rows,
+    };
+  }
+
+  /**
+   * Primeiras tentativas concluídas com sucesso, por motorista
+   */
+  private async firstAttemptSuccess(
+    filters: ReportFilters,
+    period: ReportPeriod,
+  ): Promise<ReportTable> {
+    const query = this.attemptRepository
+      .createQueryBuilder('attempt')
+      .innerJoin('attempt.delivery', 'delivery')
+      .leftJoin('attempt.driver', 'driver')
+      .select('attempt.driver_id', 'driver_id')
+      .addSelect('driver.full_name', 'driver_name')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect("SUM(CASE WHEN attempt.status = 'COMPLETED' THEN 1 ELSE 0 END)", 'succeeded')
+      .where('attempt.attempt_number = 1')
+      .andWhere('attempt.started_at BETWEEN :from AND :to', period)
+      .groupBy('attempt.driver_id')
+      .addGroupBy('driver.full_name')
+      .orderBy('driver.full_name', 'ASC');
+
+    this.applyDeliveryFilters(query, 'delivery', filters, 'attempt.driver_id');
+
+    const raw = await query.getRawMany<{
+      driver_id: string | null;
+      driver_name: string | null;
+      total: string;
+      succeeded: string;
+    }>();
+
+    const rows = raw.map(row => {
+      const total = Number(row.total);
+      const succeeded = Number(row.succeeded);
+      return {
+        driver_id: row.driver_id,
+        driver_name: row.driver_name ?? 'Não atribuído',
+        total,
+        succeeded,
+        success_rate: this.rate(succeeded, total),
+      };
+    });
+
+    const total = this.sum(rows, 'total');
+    const succeeded = this.sum(rows, 'succeeded');
+
+    return {
+      summary: {
+        first_attempts: total,
+        succeeded,
+        success_rate: this.rate(succeeded, total),
+      },
+      columns: this.columns({
+        driver_id: 'ID do motorista',
+        driver_name: 'Motorista',
+        total: 'Primeiras tentativas',
+        succeeded: 'Concluídas',
+        success_rate: 'Taxa de sucesso (%)',
+      }),
+      rows,
+    };
+  }
+
+  /**
+   * Tentativas malsucedidas agrupadas por motivo de falha
+   */
+  private async failureBreakdown(
+    filters: ReportFilters,
+    period: ReportPeriod,
+  ): Promise<ReportTable> {
+    const query = this.attemptRepository
+      .createQueryBuilder('attempt')
+      .innerJoin('attempt.delivery', 'delivery')
+      .select('attempt.failure_reason', 'failure_reason')
+      .addSelect('COUNT(*)', 'total')
+      .where("attempt.status = 'FAILED'")
+      .andWhere('attempt.started_at BETWEEN :from AND :to', period)
+      .groupBy('attempt.failure_reason')
+      .orderBy('total', 'DESC');
+
+    this.applyDeliveryFilters(query, 'delivery', filters, 'attempt.driver_id');
+
+    const raw = await query.getRawMany<{ failure_reason: FailureReason | null; total: string }>();
+
+    const totalFailures = raw.reduce((acc, row) => acc + Number(row.total), 0);
+
+    const rows = raw.map(row => {
+      const total = Number(row.total);
+      return {
+        failure_reason: row.failure_reason,
+        description: row.failure_reason
+          ? FailureReasonDescriptions[row.failure_reason]
+          : 'Motivo não informado',
+        category: row.failure_reason ? FailureReasonCategories[row.failure_reason] : null,
+        total,
+        percentage: this.rate(total, totalFailures),
+      };
+    });
+
+    return {
+      summary: {
+        total_failures: totalFailures,
+        distinct_reasons: rows.length,
+      },
+      columns: this.columns({
+        failure_reason: 'Motivo',
+        description: 'Descrição',
+        category: 'Categoria',
+        total: 'Ocorrências',
+        percentage: 'Participação (%)',
+      }),
+      rows,
+    };
+  }
+
+  /**
+   * Custo médio por entrega concluída (total_cost), por cidade de destino
+   */
+  private async costPerDelivery(
+    filters: ReportFilters,
+    period: ReportPeriod,
+  ): Promise<ReportTable> {
+    const query = this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .select("delivery.delivery_address->>'city'", 'city')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect('COALESCE(SUM(delivery.total_cost), 0)', 'total_cost')
+      .addSelect('COUNT(delivery.total_cost)', 'with_cost')
+      .where('delivery.status = :status', { status: DeliveryStatus.DELIVERED })
+      .andWhere('delivery.actual_delivery_at BETWEEN :from AND :to', period)
+      .groupBy("delivery.delivery_address->>'city'")
+      .orderBy('city', 'ASC');
+
+    this.applyDeliveryFilters(query, 'delivery', filters);
+
+    const raw = await query.getRawMany<{
+      city: string | null;
+      total: string;
+      total_cost: string;
+      with_cost: string;
+    }>();
+
+    const rows = raw.map(row => {
+      const totalCost = Number(row.total_cost);
+      const withCost = Number(row.with_cost);
+      return {
+        city: row.city,
+        total: Number(row.total),
+        total_cost: this.round(totalCost),
+        average_cost: withCost > 0 ? this.round(totalCost / withCost) : null,
+      };
+    });
+
+    const totalCost = raw.reduce((acc, row) => acc + Number(row.total_cost), 0);
+    const withCost = raw.reduce((acc, row) => acc + Number(row.with_cost), 0);
+
+    return {
+      summary: {
+        total_delivered: this.sum(rows, 'total'),
+        total_cost: this.round(totalCost),
+        average_cost: withCost > 0 ? this.round(totalCost / withCost) : null,
+      },
+      columns: this.columns({
+        city: 'Cidade',
+        total: 'Entregas',
+        total_cost: 'Custo total (R$)',
+        average_cost: 'Custo médio (R$)',
+      }),
+      rows,
+    };
+  }
+
+  /**
+   * Quilometragem planejada x realizada das rotas concluídas
+   */
+  private async kmPerRoute(filters: ReportFilters, period: ReportPeriod): Promise<ReportTable> {
+    const query = this.routeRepository
+      .createQueryBuilder('route')
+      .leftJoin('route.driver', 'driver')
+      .leftJoin('route.vehicle', 'vehicle')
+      .select('route.route_code', 'route_code')
+      .addSelect('route.name', 'name')
+      .addSelect('route.type', 'type')
+      .addSelect('route.planned_date', 'planned_date')
+      .addSelect('driver.full_name', 'driver_name')
+      .addSelect('vehicle.license_plate', 'license_plate')
+      .addSelect('route.estimated_distance_km', 'estimated_km')
+      .addSelect('route.actual_distance_km', 'actual_km')
+      .where('route.status = :status', { status: RouteStatus.COMPLETED })
+      .andWhere('route.planned_date BETWEEN :from AND :to', period)
+      .orderBy('route.planned_date', 'ASC')
+      .addOrderBy('route.route_code', 'ASC');
+
+    if (filters.driver_id) {
+      query.andWhere('route.driver_id = :driverId', { driverId: filters.driver_id });
+    }
+    if (filters.vehicle_id) {
+      query.andWhere('route.vehicle_id = :vehicleId', { vehicleId: filters.vehicle_id });
+    }
+    if (filters.route_type) {
+      query.andWhere('route.type = :routeType', { routeType: filters.route_type });
+    }
+    if (filters.customer_id || filters.city) {
+      // A rota entra no relatório quando atendeu ao menos uma entrega do cliente/cidade
+      const deliveries = query
+        .subQuery()
+        .select('1')
+        .from(Delivery, 'route_delivery')
+        .where('route_delivery.route_id = route.id');
+      this.applyDeliveryFilters(deliveries, 'route_delivery', {
+        ...(filters.customer_id ? { customer_id: filters.customer_id } : {}),
+        ...(filters.city ? { city: filters.city } : {}),
+      });
+      query.andWhere(`EXISTS ${deliveries.getQuery()}`);
+    }
+
+    const raw = await query.getRawMany<{
+      route_code: string;
+      name: string;
+      type: string;
+      planned_date: Date | string;
+      driver_name: string | null;
+      license_plate: string | null;
+      estimated_km: string | null;
+      actual_km: string | null;
+    }>();
+
+    const rows = raw.map(row => {
+      const estimatedKm = row.estimated_km === null ? null : Number(row.estimated_km);
+      const actualKm = row.actual_km === null ? null : Number(row.actual_km);
+      return {
+        route_code: row.route_code,
+        name: row.name,
+        type: row.type,
+        planned_date: new Date(row.planned_date).toISOString().slice(0, 10),
+        driver_name: row.driver_name,
+        license_plate: row.license_plate,
+        estimated_km: estimatedKm,
+        actual_km: actualKm,
+        variance_km:
+          estimatedKm !== null && actualKm !== null ? this.round(actualKm - estimatedKm) : null,
+      };
+    });
+
+    const measured = rows.filter(row => row.actual_km !== null);
+    const totalKm = this.sum(measured, 'actual_km');
+
+    return {
+      summary: {
+        total_routes: rows.length,
+        total_km: this.round(totalKm),
+        average_km_per_route: measured.length > 0 ? this.round(totalKm / measured.length) : null,
+      },
+      columns: this.columns({
+        route_code: 'Rota',
+        name: 'Nome',
+        type: 'Tipo',
+        planned_date: 'Data',
+        driver_name: 'Motorista',
+        license_plate: 'Placa',
+        estimated_km: 'Km planejado',
+        actual_km: 'Km realizado',
+        variance_km: 'Diferença (km)',
+      }),
+      rows,
+    };
+  }
+
+  /**
+   * Aplica os filtros de motorista, veículo, cliente, cidade e tipo de rota sobre a entrega
+   *
+   * Nos relatórios de tentativas o motorista é o da tentativa, não o atual da entrega.
+   * O tipo de rota exige que a entrega esteja vinculada a uma rota daquele tipo.
+   */
+  private applyDeliveryFilters<T extends ObjectLiteral>(
+    query: SelectQueryBuilder<T>,
+    alias: string,
+    filters: ReportFilters,
+    driverColumn = `${alias}.driver_id`,
+  ): void {
+    if (filters.driver_id) {
+      query.andWhere(`${driverColumn} = :driverId`, { driverId: filters.driver_id });
+    }
+    if (filters.vehicle_id) {
+      query.andWhere(`${alias}.vehicle_id = :vehicleId`, { vehicleId: filters.vehicle_id });
+    }
+    if (filters.customer_id) {
+      query.andWhere(`${alias}.customer_id = :customerId`, { customerId: filters.customer_id });
+    }
+    if (filters.city) {
+      query.andWhere(`LOWER(${alias}.delivery_address->>'city') = LOWER(:city)`, {
+        city: filters.city,
+      });
+    }
+    if (filters.route_type) {
+      query.innerJoin(`${alias}.route`, `${alias}_route`, `${alias}_route.type = :routeType`, {
+        routeType: filters.route_type,
+      });
+    }
+  }
+
+  private columns(labels: Record<string, string>): ReportColumn[] {
+    return Object.entries(labels).map(([key, label]) => ({ key, label }));
+  }
+
+  private sum<K extends string>(rows: Record<K, ReportCellValue>[], key: K): number {
+    return rows.reduce((acc, row) => acc + Number(row[key] ?? 0), 0);
+  }
+
+  private rate(part: number, total: number): number {
+    return total > 0 ? this.round((part / total) * 100) : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
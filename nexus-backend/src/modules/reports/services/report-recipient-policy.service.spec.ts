@@ -0,0 +1,55 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ReportRecipientPolicyService } from './report-recipient-policy.service';
+import { User } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/enums/user-status.enum';
+import { PermissionsService } from '../../auth/services/permissions.service';
+
+describe('ReportRecipientPolicyService', () => {
+  let service: ReportRecipientPolicyService;
+
+  const gestor = { id: 'user-1', email: 'gestor@empresa.com.br' } as User;
+  const motorista = { id: 'user-2', email: 'motorista@empresa.com.br' } as User;
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  const mockPermissionsService = {
+    hasPermissions: jest.fn((user: User) => Promise.resolve(user.id === gestor.id)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportRecipientPolicyService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: PermissionsService, useValue: mockPermissionsService },
+      ],
+    }).compile();
+
+    service = module.get<ReportRecipientPolicyService>(ReportRecipientPolicyService);
+  });
+
+  describe('findUnauthorized', () => {
+    it('should accept only active users allowed to read reports', async () => {
+      mockUserRepository.find.mockResolvedValue([gestor, motorista]);
+
+      const unauthorized = await service.findUnauthorized([
+        'Gestor@Empresa.com.br',
+        'motorista@empresa.com.br',
+        'externo@gmail.com',
+      ]);
+
+      expect(unauthorized).toEqual(['motorista@empresa.com.br', 'externo@gmail.com']);
+      expect(mockUserRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: UserStatus.ACTIVE, email_verified: true }),
+        }),
+      );
+      expect(mockPermissionsService.hasPermissions).toHaveBeenCalledWith(gestor, ['reports:read']);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/enums/user-status.enum';
+import { PermissionsService } from '../../auth/services/permissions.service';
+
+/**
+ * Permissão exigida de cada destinatário de relatório agendado
+ */
+const RECIPIENT_PERMISSION = 'reports:read';
+
+/**
+ * Política de destinatários de relatórios agendados
+ *
+ * O link do arquivo dá acesso a dados operacionais e de custo: só pode ser
+ * enviado a usuários ativos, com e-mail verificado e permissão de consultar
+ * relatórios. A política é aplicada ao salvar o agendamento e novamente a
+ * cada execução, pois o destinatário pode ter perdido o acesso.
+ */
+@Injectable()
+export class ReportRecipientPolicyService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly permissionsService: PermissionsService,
+  ) {}
+
+  /**
+   * Retorna os e-mails que não atendem à política
+   */
+  async findUnauthorized(recipients: string[]): Promise<string[]> {
+    const emails = [...new Set(recipients.map(email => email.toLowerCase()))];
+
+    const users = await this.userRepository.find({
+      where: { email: In(emails), status: UserStatus.ACTIVE, email_verified: true },
+      relations: ['roles'],
+    });
+
+    const authorized = new Set<string>();
+    for (const user of users) {
+      if (await this.permissionsService.hasPermissions(user, [RECIPIENT_PERMISSION])) {
+        authorized.add(user.email.toLowerCase());
+      }
+    }
+
+    return recipients.filter(email => !authorized.has(email.toLowerCase()));
+  }
+}
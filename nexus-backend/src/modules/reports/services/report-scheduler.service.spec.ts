@@ -0,0 +1,191 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Logger, NotFoundException } from '@nestjs/common';
+import { ReportSchedulerService } from './report-scheduler.service';
+import { ReportRecipientPolicyService } from './report-recipient-policy.service';
+import { ReportSchedule } from '../entities/report-schedule.entity';
+import { ReportScheduleRun } from '../entities/report-schedule-run.entity';
+import { ReportRunStatus } from '../enums/report-run-status.enum';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportsService } from '../reports.service';
+import { UploadService } from '../../upload/upload.service';
+import { MailService } from '../../mail/mail.service';
+
+describe('ReportSchedulerService', () => {
+  let service: ReportSchedulerService;
+
+  const schedule = {
+    id: '11111111-1111-4111-8111-111111111111',
+    report_id: '22222222-2222-4222-8222-222222222222',
+    report: { name: 'Entregas no prazo' },
+    cron_expression: '0 7 * * 1',
+    timezone: 'America/Sao_Paulo',
+    format: ReportFormat.XLSX,
+    recipients: ['gestor@empresa.com.br', 'ex-funcionario@empresa.com.br'],
+    is_active: true,
+  } as ReportSchedule;
+
+  const mockScheduleRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockRunRepository = {
+    create: jest.fn((data: Partial<ReportScheduleRun>) => ({ ...data })),
+    save: jest.fn((run: ReportScheduleRun) => Promise.resolve(Object.assign(run, { id: 'run-1' }))),
+  };
+
+  const mockReportsService = {
+    download: jest.fn(),
+  };
+
+  const mockUploadService = {
+    uploadFile: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const mockRecipientPolicy = {
+    findUnauthorized: jest.fn(),
+  };
+
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    errorSpy = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    mockScheduleRepository.findOne.mockResolvedValue(schedule);
+    mockRecipientPolicy.findUnauthorized.mockResolvedValue([]);
+    mockReportsService.download.mockResolvedValue({
+      content: Buffer.from('xlsx'),
+      filename: 'entregas-no-prazo.xlsx',
+      content_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      row_count: 42,
+    });
+    mockUploadService.uploadFile.mockResolvedValue({
+      url: 'https://cdn.example.com/reports/entregas-no-prazo.xlsx',
+      key: 'reports/entregas-no-prazo.xlsx',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportSchedulerService,
+        { provide: getRepositoryToken(ReportSchedule), useValue: mockScheduleRepository },
+        { provide: getRepositoryToken(ReportScheduleRun), useValue: mockRunRepository },
+        { provide: SchedulerRegistry, useValue: { doesExist: jest.fn(() => false) } },
+        { provide: ReportsService, useValue: mockReportsService },
+        { provide: UploadService, useValue: mockUploadService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ReportRecipientPolicyService, useValue: mockRecipientPolicy },
+      ],
+    }).compile();
+
+    service = module.get<ReportSchedulerService>(ReportSchedulerService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  describe('execute', () => {
+    it('should store the file, mail the link and record a successful run', async () => {
+      const run = await service.execute(schedule.id, true);
+
+      expect(mockRunRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          schedule_id: schedule.id,
+          status: ReportRunStatus.RUNNING,
+          manual: true,
+        }),
+      );
+      expect(mockUploadService.uploadFile).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'reports',
+        'entregas-no-prazo.xlsx',
+        expect.any(String),
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: schedule.recipients,
+          text: expect.stringContaining('https://cdn.example.com/reports/entregas-no-prazo.xlsx'),
+        }),
+      );
+      expect(run).toEqual(
+        expect.objectContaining({
+          status: ReportRunStatus.SUCCESS,
+          row_count: 42,
+          file_url: 'https://cdn.example.com/reports/entregas-no-prazo.xlsx',
+          recipients: schedule.recipients,
+          finished_at: expect.any(Date),
+          duration_ms: expect.any(Number),
+        }),
+      );
+      expect(mockScheduleRepository.update).toHaveBeenCalledWith(schedule.id, {
+        last_run_at: expect.any(Date),
+      });
+    });
+
+    it('should record a failed run with the error and release the schedule', async () => {
+      mockUploadService.uploadFile.mockRejectedValueOnce(new Error('bucket indisponível'));
+
+      const failed = await service.execute(schedule.id);
+
+      expect(failed).toEqual(
+        expect.objectContaining({
+          status: ReportRunStatus.FAILED,
+          manual: false,
+          error_message: 'bucket indisponível',
+          finished_at: expect.any(Date),
+        }),
+      );
+      expect(mockMailService.send).not.toHaveBeenCalled();
+      expect(mockScheduleRepository.update).toHaveBeenCalledWith(schedule.id, {
+        last_run_at: expect.any(Date),
+      });
+
+      // A falha não deixa o agendamento preso como "em execução"
+      await expect(service.execute(schedule.id)).resolves.toEqual(
+        expect.objectContaining({ status: ReportRunStatus.SUCCESS }),
+      );
+    });
+
+    it('should skip recipients that lost access to reports', async () => {
+      mockRecipientPolicy.findUnauthorized.mockResolvedValue(['ex-funcionario@empresa.com.br']);
+
+      const run = await service.execute(schedule.id);
+
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: ['gestor@empresa.com.br'] }),
+      );
+      expect(run.recipients).toEqual(['gestor@empresa.com.br']);
+    });
+
+    it('should fail the run without generating the report when no recipient is allowed', async () => {
+      mockRecipientPolicy.findUnauthorized.mockResolvedValue(schedule.recipients);
+
+      const run = await service.execute(schedule.id);
+
+      expect(run.status).toBe(ReportRunStatus.FAILED);
+      expect(mockReportsService.download).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown schedule without recording a run', async () => {
+      mockScheduleRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.execute(schedule.id)).rejects.toBeInstanceOf(NotFoundException);
+
+      expect(mockRunRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  type OnApplicationBootstrap,
+} from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CronJob, CronTime } from 'cron';
+import { ReportSchedule } from '../entities/report-schedule.entity';
+import { ReportScheduleRun } from '../entities/report-schedule-run.entity';
+import { ReportRunStatus } from '../enums/report-run-status.enum';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportsService } from '../reports.service';
+import { UploadService } from '../../upload/upload.service';
+import { MailService } from '../../mail/mail.service';
+import { ReportRecipientPolicyService } from './report-recipient-policy.service';
+
+const REPORTS_STORAGE_FOLDER = 'reports';
+
+/**
+ * Service para execução agendada de relatórios
+ *
+ * Responsável por:
+ * - Registrar um cron job dinâmico (SchedulerRegistry) por agendamento ativo
+ * - Gerar o arquivo, armazená-lo no bucket S3 e enviar o link por e-mail
+ * - Registrar o histórico de execuções (status, duração e erro)
+ *
+ * @class ReportSchedulerService
+ */
+@Injectable()
+export class ReportSchedulerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ReportSchedulerService.name);
+  private readonly runningSchedules = new Set<string>();
+
+  constructor(
+    @InjectRepository(ReportSchedule)
+    private readonly scheduleRepository: Repository<ReportSchedule>,
+    @InjectRepository(ReportScheduleRun)
+    private readonly runRepository: Repository<ReportScheduleRun>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly reportsService: ReportsService,
+    private readonly uploadService: UploadService,
+    private readonly mailService: MailService,
+    private readonly recipientPolicy: ReportRecipientPolicyService,
+  ) {}
+
+  /**
+   * Registra os agendamentos ativos na inicialização da aplicação
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const schedules = await this.scheduleRepository.find({ where: { is_active: true } });
+
+    for (const schedule of schedules) {
+      try {
+        await this.register(schedule);
+      } catch (error) {
+        this.logger.error(`Erro ao registrar agendamento ${schedule.id}:`, error);
+      }
+    }
+
+    this.logger.log(`${schedules.length} agendamento(s) de relatório registrado(s)`);
+  }
+
+  /**
+   * Calcula a próxima execução de uma expressão cron no fuso informado
+   *
+   * @throws BadRequestException se a expressão ou o fuso forem inválidos
+   */
+  getNextRunAt(cronExpression: string, timezone: string): Date {
+    try {
+      return new CronTime(cronExpression, timezone).sendAt().toJSDate();
+    } catch (error) {
+      throw new BadRequestException(
+        `Expressão cron ou fuso horário inválido: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * (Re)registra o cron job de um agendamento
+   * Agendamentos inativos apenas têm o job removido
+   */
+  async register(schedule: ReportSchedule): Promise<void> {
+    this.unregister(schedule.id);
+
+    if (!schedule.is_active) {
+      return;
+    }
+
+    const job = CronJob.from({
+      cronTime: schedule.cron_expression,
+      timeZone: schedule.timezone,
+      onTick: () => {
+        void this.execute(schedule.id).catch((error: unknown) =>
+          this.logger.error(`Erro na execução agendada ${schedule.id}:`, error),
+        );
+      },
+      start: true,
+    });
+
+    this.schedulerRegistry.addCronJob(this.jobName(schedule.id), job);
+
+    await this.scheduleRepository.update(schedule.id, {
+      next_run_at: job.nextDate().toJSDate(),
+    });
+  }
+
+  unregister(scheduleId: string): void {
+    const name = this.jobName(scheduleId);
+
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+    }
+  }
+
+  /**
+   * Executa um agendamento: gera o relatório, armazena o arquivo e notifica os destinatários
+   *
+   * Falhas em qualquer etapa são registradas na execução (status FAILED) sem propagar,
+   * para que o histórico reflita o erro.
+   */
+  async execute(scheduleId: string, manual = false): Promise<ReportScheduleRun> {
+    if (this.runningSchedules.has(scheduleId)) {
+      throw new ConflictException(`Agendamento ${scheduleId} já está em execução`);
+    }
+
+    const schedule = await this.scheduleRepository.findOne({
+      where: { id: scheduleId },
+      relations: ['report'],
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`Agendamento com ID ${scheduleId} não encontrado`);
+    }
+
+    this.runningSchedules.add(scheduleId);
+
+    const startedAt = new Date();
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        schedule_id: schedule.id,
+        status: ReportRunStatus.RUNNING,
+        manual,
+        started_at: startedAt,
+      }),
+    );
+
+    this.logger.log(`Executando relatório agendado ${schedule.id} (${schedule.report.name})`);
+
+    try {
+      // Destinatários que perderam o acesso desde o agendamento não recebem o link
+      const unauthorized = await this.recipientPolicy.findUnauthorized(schedule.recipients);
+      const recipients = schedule.recipients.filter(email => !unauthorized.includes(email));
+
+      if (recipients.length === 0) {
+        throw new Error('Nenhum destinatário com acesso a relatórios');
+      }
+      if (unauthorized.length > 0) {
+        this.logger.warn(
+          `Agendamento ${schedule.id}: destinatários sem acesso ignorados: ${unauthorized.join(', ')}`,
+        );
+      }
+
+      const format = schedule.format === ReportFormat.CSV ? ReportFormat.CSV : ReportFormat.XLSX;
+      const file = await this.reportsService.download(schedule.report_id, {}, format);
+      run.row_count = file.row_count;
+
+      const { url } = await this.uploadService.uploadFile(
+        file.content,
+        REPORTS_STORAGE_FOLDER,
+        file.filename,
+        file.content_type,
+      );
+      run.file_url = url;
+
+      await this.mailService.send({
+        to: recipients,
+        subject: `Relatório: ${schedule.report.name}`,
+        text: [
+          `O relatório "${schedule.report.name}" foi gerado em ${startedAt.toISOString()}.`,
+          `Linhas: ${file.row_count}`,
+          `Download: ${url}`,
+        ].join('\n'),
+        html: `<p>O relatório <strong>${this.escapeHtml(schedule.report.name)}</strong> foi gerado.</p><p><a href="${url}">Baixar arquivo (${format.toUpperCase()})</a></p>`,
+      });
+      run.recipients = recipients;
+
+      run.status = ReportRunStatus.SUCCESS;
+    } catch (error) {
+      run.status = ReportRunStatus.FAILED;
+      run.error_message = error instanceof Error ? error.message : String(error);
+
+      this.logger.error(
+        `Falha no relatório agendado ${schedule.id}: ${run.error_message}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    } finally {
+      this.runningSchedules.delete(scheduleId);
+    }
+
+    const finishedAt = new Date();
+    run.finished_at = finishedAt;
+    run.duration_ms = finishedAt.getTime() - startedAt.getTime();
+
+    const saved = await this.runRepository.save(run);
+
+    const job = this.schedulerRegistry.doesExist('cron', this.jobName(schedule.id))
+      ? this.schedulerRegistry.getCronJob(this.jobName(schedule.id))
+      : null;
+    await this.scheduleRepository.update(schedule.id, {
+      last_run_at: startedAt,
+      ...(job ? { next_run_at: job.nextDate().toJSDate() } : {}),
+    });
+
+    this.logger.log(
+      `Relatório agendado ${schedule.id}: ${saved.status} em ${saved.duration_ms ?? 0}ms`,
+    );
+
+    return saved;
+  }
+
+  private jobName(scheduleId: string): string {
+    return `report-schedule-${scheduleId}`;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
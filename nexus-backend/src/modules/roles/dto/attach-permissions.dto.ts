@@ -0,0 +1,9 @@
+import { ArrayMinSize, IsArray, IsString, MaxLength } from 'class-validator';
+
+export class AttachPermissionsDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  permissions!: string[];
+}
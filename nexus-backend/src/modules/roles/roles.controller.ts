@@ -9,13 +9,21 @@ import {
   HttpCode,
   HttpStatus,
   NotFoundException,
+  UseGuards,
 } from '@nestjs/common';
 import { RolesService } from './roles.service';
 import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
+import { AttachPermissionsDto } from './dto/attach-permissions.dto';
 import { Role } from './entities/role.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role as RoleEnum } from '../auth/enums/role.enum';
 
 @Controller('roles')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(RoleEnum.ADMIN)
 export class RolesController {
   constructor(private readonly rolesService: RolesService) {}
 
@@ -57,6 +65,31 @@ export class RolesController {
     }
   }
 
+  @Post(':id/permissions')
+  @HttpCode(HttpStatus.OK)
+  async attachPermissions(
+    @Param('id') id: string,
+    @Body() attachPermissionsDto: AttachPermissionsDto,
+  ): Promise<Role> {
+    const role = await this.rolesService.attachPermissions(id, attachPermissionsDto.permissions);
+    if (!role) {
+      throw new NotFoundException(`Role with ID ${id} not found`);
+    }
+    return role;
+  }
+
+  @Delete(':id/permissions/:permission')
+  async detachPermission(
+    @Param('id') id: string,
+    @Param('permission') permission: string,
+  ): Promise<Role> {
+    const role = await this.rolesService.detachPermission(id, permission);
+    if (!role) {
+      throw new NotFoundException(`Role with ID ${id} not found`);
+    }
+    return role;
+  }
+
   @Post(':id/restore')
   async restore(@Param('id') id: string): Promise<Role> {
     const role = await this.rolesService.restore(id);
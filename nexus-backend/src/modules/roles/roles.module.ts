@@ -3,9 +3,11 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { RolesService } from './roles.service';
 import { RolesController } from './roles.controller';
 import { Role } from './entities/role.entity';
+import { Permission } from '../auth/entities/permission.entity';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Role])],
+  imports: [TypeOrmModule.forFeature([Role, Permission]), AuthModule],
   controllers: [RolesController],
   providers: [RolesService],
   exports: [RolesService, TypeOrmModule], // Exporta para outros módulos poderem usar
@@ -1,18 +1,25 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, IsNull } from 'typeorm';
+import { Repository, IsNull, In } from 'typeorm';
 import { Role } from './entities/role.entity';
 import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
+import { Permission } from '../auth/entities/permission.entity';
+import { PermissionsService } from '../auth/services/permissions.service';
 
 @Injectable()
 export class RolesService {
   constructor(
     @InjectRepository(Role)
     private readonly roleRepository: Repository<Role>,
+    @InjectRepository(Permission)
+    private readonly permissionRepository: Repository<Permission>,
+    private readonly permissionsService: PermissionsService,
   ) {}
 
   async create(createRoleDto: CreateRoleDto): Promise<Role> {
+    await this.assertPermissionsExist(createRoleDto.permissions ?? []);
+
     const role = this.roleRepository.create(createRoleDto);
     return this.roleRepository.save(role);
   }
@@ -41,8 +48,49 @@ export class RolesService {
       return null;
     }
 
+    if (updateRoleDto.permissions) {
+      await this.assertPermissionsExist(updateRoleDto.permissions);
+    }
+
     Object.assign(role, updateRoleDto);
-    return this.roleRepository.save(role);
+    const saved = await this.roleRepository.save(role);
+
+    await this.permissionsService.invalidate();
+    return saved;
+  }
+
+  /**
+   * Atribui permissões ao role (as já atribuídas são mantidas)
+   */
+  async attachPermissions(id: string, permissions: string[]): Promise<Role | null> {
+    const role = await this.findOne(id);
+    if (!role) {
+      return null;
+    }
+
+    await this.assertPermissionsExist(permissions);
+
+    role.permissions = [...new Set([...role.permissions, ...permissions])];
+    const saved = await this.roleRepository.save(role);
+
+    await this.permissionsService.invalidate();
+    return saved;
+  }
+
+  /**
+   * Remove uma permissão do role
+   */
+  async detachPermission(id: string, permission: string): Promise<Role | null> {
+    const role = await this.findOne(id);
+    if (!role) {
+      return null;
+    }
+
+    role.permissions = role.permissions.filter(name => name !== permission);
+    const saved = await this.roleRepository.save(role);
+
+    await this.permissionsService.invalidate();
+    return saved;
   }
 
   async remove(id: string): Promise<boolean> {
@@ -52,6 +100,7 @@ export class RolesService {
     }
 
     await role.softRemove();
+    await this.permissionsService.invalidate();
     return true;
   }
 
@@ -66,6 +115,27 @@ export class RolesService {
     }
 
     await role.restore();
+    await this.permissionsService.invalidate();
     return role;
   }
+
+  /**
+   * Garante que as permissões existem e estão ativas na tabela de permissões
+   */
+  private async assertPermissionsExist(permissions: string[]): Promise<void> {
+    if (permissions.length === 0) {
+      return;
+    }
+
+    const existing = await this.permissionRepository.find({
+      where: { name: In(permissions), is_active: true },
+      select: { id: true, name: true },
+    });
+    const existingNames = new Set(existing.map(permission => permission.name));
+    const unknown = permissions.filter(name => !existingNames.has(name));
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown or inactive permissions: ${unknown.join(', ')}`);
+    }
+  }
 }
@@ -0,0 +1,82 @@
+import { RouteType, RouteTypeCharacteristics } from '../../routes/enums/route.type';
+import type { RouteAlertThresholdValues } from '../interfaces/route-alert.interface';
+
+/**
+ * Limiares padrão de alerta por tipo de rota
+ *
+ * Usados enquanto o tipo de rota não tem limiares gravados em
+ * route_alert_thresholds. A velocidade máxima vem de RouteTypeCharacteristics.
+ */
+export const ROUTE_ALERT_DEFAULT_THRESHOLDS: Record<RouteType, RouteAlertThresholdValues> = {
+  [RouteType.URBAN]: {
+    deviation_enabled: true,
+    deviation_meters: 1000,
+    unexpected_stop_enabled: true,
+    unexpected_stop_minutes: 15,
+    speeding_enabled: true,
+    max_speed_kmh: RouteTypeCharacteristics[RouteType.URBAN].maxSpeed,
+    speed_tolerance_percent: 10,
+  },
+  [RouteType.INTERSTATE]: {
+    deviation_enabled: true,
+    deviation_meters: 3000,
+    unexpected_stop_enabled: true,
+    unexpected_stop_minutes: 30,
+    speeding_enabled: true,
+    max_speed_kmh: RouteTypeCharacteristics[RouteType.INTERSTATE].maxSpeed,
+    speed_tolerance_percent: 10,
+  },
+  [RouteType.RURAL]: {
+    deviation_enabled: true,
+    deviation_meters: 3000,
+    unexpected_stop_enabled: true,
+    unexpected_stop_minutes: 30,
+    speeding_enabled: true,
+    max_speed_kmh: RouteTypeCharacteristics[RouteType.RURAL].maxSpeed,
+    speed_tolerance_percent: 10,
+  },
+  [RouteType.EXPRESS]: {
+    deviation_enabled: true,
+    deviation_meters: 2000,
+    unexpected_stop_enabled: true,
+    unexpected_stop_minutes: 10,
+    speeding_enabled: true,
+    max_speed_kmh: RouteTypeCharacteristics[RouteType.EXPRESS].maxSpeed,
+    speed_tolerance_percent: 5,
+  },
+  [RouteType.LOCAL]: {
+    deviation_enabled: true,
+    deviation_meters: 800,
+    unexpected_stop_enabled: true,
+    unexpected_stop_minutes: 15,
+    speeding_enabled: true,
+    max_speed_kmh: RouteTypeCharacteristics[RouteType.LOCAL].maxSpeed,
+    speed_tolerance_percent: 10,
+  },
+};
+
+/**
+ * Parâmetros da detecção de alertas a partir das posições GPS
+ */
+export const ROUTE_MONITORING = {
+  /** Pings com precisão pior que esta (metros) são ignorados */
+  MAX_ACCURACY_METERS: 100,
+
+  /** Raio em que o veículo é considerado parado (metros) */
+  STATIONARY_RADIUS_METERS: 50,
+
+  /** Velocidade informada acima da qual o veículo não está parado (km/h) */
+  STATIONARY_MAX_SPEED_KMH: 5,
+
+  /** Janela extra de pings consultada além do limiar de parada (minutos) */
+  STATIONARY_LOOKBACK_MINUTES: 60,
+
+  /** Intervalo mínimo entre pings para calcular a velocidade (segundos) */
+  MIN_SPEED_SAMPLE_SECONDS: 10,
+
+  /**
+   * Desvio e velocidade que voltam a ocorrer até este tempo após cessarem
+   * reabrem o mesmo alerta em vez de criar outro (minutos)
+   */
+  DEDUP_WINDOW_MINUTES: 10,
+} as const;
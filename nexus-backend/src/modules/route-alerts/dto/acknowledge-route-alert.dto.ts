@@ -0,0 +1,17 @@
+import { IsOptional, IsString, Length } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para reconhecer um alerta de rota
+ */
+export class AcknowledgeRouteAlertDto {
+  @ApiPropertyOptional({
+    description: 'Observações do reconhecimento',
+    example: 'Motorista desviou por interdição na via; contato feito por telefone',
+    maxLength: 2000,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  notes?: string;
+}
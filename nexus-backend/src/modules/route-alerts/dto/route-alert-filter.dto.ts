@@ -0,0 +1,55 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { RouteAlertType } from '../enums/route-alert-type.enum';
+import { RouteAlertStatus } from '../enums/route-alert-status.enum';
+
+/**
+ * DTO para filtrar alertas de rota
+ */
+export class RouteAlertFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por tipo', enum: RouteAlertType })
+  @IsOptional()
+  @IsEnum(RouteAlertType)
+  type?: RouteAlertType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por status', enum: RouteAlertStatus })
+  @IsOptional()
+  @IsEnum(RouteAlertStatus)
+  status?: RouteAlertStatus;
+
+  @ApiPropertyOptional({ description: 'Filtrar por rota (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  route_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por veículo (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  vehicle_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por motorista (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
+
+  @ApiPropertyOptional({ description: 'Apenas alertas com a condição ainda em curso' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  ongoing?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Alertas iniciados a partir de',
+    example: '2024-01-15T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Alertas iniciados até', example: '2024-01-15T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
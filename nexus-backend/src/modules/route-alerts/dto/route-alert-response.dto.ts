@@ -0,0 +1,162 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+import { RouteAlertType } from '../enums/route-alert-type.enum';
+import { RouteAlertStatus } from '../enums/route-alert-status.enum';
+import { RouteType } from '../../routes/enums/route.type';
+
+const toNumber = ({ value }: { value: unknown }): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+/**
+ * DTO de resposta de alerta de rota
+ */
+export class RouteAlertResponseDto {
+  @ApiProperty({ description: 'ID do alerta', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Tipo do alerta', enum: RouteAlertType })
+  @Expose()
+  type!: RouteAlertType;
+
+  @ApiProperty({ description: 'Status do alerta', enum: RouteAlertStatus })
+  @Expose()
+  status!: RouteAlertStatus;
+
+  @ApiProperty({
+    description: 'Descrição da condição detectada',
+    example: 'Veículo a 1350 m do trajeto planejado (limite 1000 m)',
+  })
+  @Expose()
+  message!: string;
+
+  @ApiProperty({ description: 'ID da rota' })
+  @Expose()
+  route_id!: string;
+
+  @ApiProperty({ description: 'ID do veículo' })
+  @Expose()
+  vehicle_id!: string;
+
+  @ApiProperty({ description: 'ID do motorista' })
+  @Expose()
+  driver_id!: string;
+
+  @ApiPropertyOptional({ description: 'ID da última posição GPS com a condição' })
+  @Expose()
+  tracking_point_id?: string;
+
+  @ApiProperty({ description: 'Latitude da primeira detecção', example: -23.5505 })
+  @Expose()
+  @Transform(toNumber)
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude da primeira detecção', example: -46.6333 })
+  @Expose()
+  @Transform(toNumber)
+  longitude!: number;
+
+  @ApiProperty({
+    description: 'Maior valor medido: metros (desvio), minutos (parada) ou km/h (velocidade)',
+    example: 1350,
+  })
+  @Expose()
+  @Transform(toNumber)
+  measured_value!: number;
+
+  @ApiProperty({ description: 'Limiar ultrapassado', example: 1000 })
+  @Expose()
+  @Transform(toNumber)
+  threshold_value!: number;
+
+  @ApiProperty({ description: 'Posições GPS em que a condição foi detectada', example: 4 })
+  @Expose()
+  occurrences!: number;
+
+  @ApiProperty({ description: 'Início da condição' })
+  @Expose()
+  started_at!: Date;
+
+  @ApiProperty({ description: 'Data/hora da última detecção' })
+  @Expose()
+  last_detected_at!: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora em que a condição deixou de ser detectada' })
+  @Expose()
+  cleared_at?: Date;
+
+  @ApiPropertyOptional({ description: 'ID do usuário que reconheceu o alerta' })
+  @Expose()
+  acknowledged_by?: string;
+
+  @ApiPropertyOptional({ description: 'Data/hora do reconhecimento' })
+  @Expose()
+  acknowledged_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Observações do reconhecimento' })
+  @Expose()
+  acknowledgement_notes?: string;
+
+  @ApiPropertyOptional({ description: 'ID do incidente gerado a partir do alerta' })
+  @Expose()
+  incident_id?: string;
+
+  @ApiPropertyOptional({ description: 'Detalhes da detecção' })
+  @Expose()
+  metadata?: Record<string, string | number | boolean>;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
+
+/**
+ * DTO de resposta dos limiares de alerta de um tipo de rota
+ */
+export class RouteAlertThresholdResponseDto {
+  @ApiProperty({ description: 'Tipo de rota', enum: RouteType })
+  @Expose()
+  route_type!: RouteType;
+
+  @ApiProperty({ description: 'Detecta desvio do trajeto planejado', example: true })
+  @Expose()
+  deviation_enabled!: boolean;
+
+  @ApiProperty({ description: 'Distância máxima do trajeto planejado (metros)', example: 1000 })
+  @Expose()
+  deviation_meters!: number;
+
+  @ApiProperty({ description: 'Detecta parada fora das paradas da rota', example: true })
+  @Expose()
+  unexpected_stop_enabled!: boolean;
+
+  @ApiProperty({
+    description: 'Tempo parado fora das paradas para gerar o alerta (minutos)',
+    example: 15,
+  })
+  @Expose()
+  unexpected_stop_minutes!: number;
+
+  @ApiProperty({ description: 'Detecta excesso de velocidade', example: true })
+  @Expose()
+  speeding_enabled!: boolean;
+
+  @ApiProperty({ description: 'Velocidade máxima (km/h)', example: 60 })
+  @Expose()
+  max_speed_kmh!: number;
+
+  @ApiProperty({ description: 'Tolerância sobre a velocidade máxima (%)', example: 10 })
+  @Expose()
+  speed_tolerance_percent!: number;
+
+  @ApiProperty({
+    description: 'Limiares padrão (o tipo de rota ainda não foi configurado)',
+    example: false,
+  })
+  @Expose()
+  is_default!: boolean;
+}
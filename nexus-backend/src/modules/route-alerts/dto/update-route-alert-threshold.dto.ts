@@ -0,0 +1,72 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para alterar os limiares de alerta de um tipo de rota
+ *
+ * Campos ausentes mantêm o valor atual (ou o padrão do tipo de rota).
+ */
+export class UpdateRouteAlertThresholdDto {
+  @ApiPropertyOptional({ description: 'Detectar desvio do trajeto planejado', example: true })
+  @IsOptional()
+  @IsBoolean()
+  deviation_enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Distância máxima do trajeto planejado (metros)',
+    example: 1000,
+    minimum: 50,
+    maximum: 50000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(50)
+  @Max(50000)
+  deviation_meters?: number;
+
+  @ApiPropertyOptional({ description: 'Detectar parada fora das paradas da rota', example: true })
+  @IsOptional()
+  @IsBoolean()
+  unexpected_stop_enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Tempo parado fora das paradas para gerar o alerta (minutos)',
+    example: 15,
+    minimum: 1,
+    maximum: 720,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  unexpected_stop_minutes?: number;
+
+  @ApiPropertyOptional({ description: 'Detectar excesso de velocidade', example: true })
+  @IsOptional()
+  @IsBoolean()
+  speeding_enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Velocidade máxima (km/h); padrão: máxima do tipo de rota',
+    example: 60,
+    minimum: 10,
+    maximum: 200,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  @Max(200)
+  max_speed_kmh?: number;
+
+  @ApiPropertyOptional({
+    description: 'Tolerância sobre a velocidade máxima (%)',
+    example: 10,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  speed_tolerance_percent?: number;
+}
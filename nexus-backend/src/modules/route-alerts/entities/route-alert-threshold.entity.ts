@@ -0,0 +1,69 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { RouteType } from '../../routes/enums/route.type';
+
+/**
+ * RouteAlertThreshold Entity - Limiares de alerta por tipo de rota
+ *
+ * Um registro por tipo de rota; tipos sem registro usam
+ * ROUTE_ALERT_DEFAULT_THRESHOLDS.
+ */
+@Entity('route_alert_thresholds')
+@Index(['route_type'], { unique: true })
+export class RouteAlertThreshold extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: RouteType,
+    comment: 'Tipo de rota',
+  })
+  route_type!: RouteType;
+
+  // Desvio de rota
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Detecta desvio do trajeto planejado',
+  })
+  deviation_enabled!: boolean;
+
+  @Column({
+    type: 'integer',
+    comment: 'Distância máxima do trajeto planejado (metros)',
+  })
+  deviation_meters!: number;
+
+  // Parada não prevista
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Detecta parada fora das paradas da rota',
+  })
+  unexpected_stop_enabled!: boolean;
+
+  @Column({
+    type: 'integer',
+    comment: 'Tempo parado fora das paradas para gerar o alerta (minutos)',
+  })
+  unexpected_stop_minutes!: number;
+
+  // Excesso de velocidade
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Detecta excesso de velocidade',
+  })
+  speeding_enabled!: boolean;
+
+  @Column({
+    type: 'integer',
+    comment: 'Velocidade máxima (km/h)',
+  })
+  max_speed_kmh!: number;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Tolerância sobre a velocidade máxima (%)',
+  })
+  speed_tolerance_percent!: number;
+}
@@ -0,0 +1,184 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { RouteAlertType } from '../enums/route-alert-type.enum';
+import { RouteAlertStatus } from '../enums/route-alert-status.enum';
+import { Route } from '../../routes/entities/route.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { Incident } from '../../incidents/entities/incident.entity';
+
+/**
+ * RouteAlert Entity - Alertas de desvio, parada não prevista e velocidade
+ *
+ * Features:
+ * - Gerado pela avaliação das posições GPS da rota em andamento
+ * - Deduplicado: enquanto a condição persiste, o mesmo alerta é atualizado
+ * - Reconhecimento pela operação e conversão opcional em incidente
+ */
+@Entity('route_alerts')
+@Index(['route_id', 'type'])
+@Index('UQ_route_alerts_route_type_ongoing', ['route_id', 'type'], {
+  unique: true,
+  where: 'cleared_at IS NULL AND deleted_at IS NULL',
+})
+@Index(['vehicle_id', 'started_at'])
+@Index(['status'])
+export class RouteAlert extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: RouteAlertType,
+    comment: 'Tipo do alerta',
+  })
+  type!: RouteAlertType;
+
+  @Column({
+    type: 'enum',
+    enum: RouteAlertStatus,
+    default: RouteAlertStatus.OPEN,
+    comment: 'Status do alerta',
+  })
+  status!: RouteAlertStatus;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    comment: 'Descrição da condição detectada',
+  })
+  message!: string;
+
+  // Relacionamento com Rota
+  @ManyToOne(() => Route, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'route_id' })
+  route!: Route;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID da rota',
+  })
+  route_id!: string;
+
+  // Relacionamento com Veículo
+  @ManyToOne(() => Vehicle, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vehicle_id' })
+  vehicle!: Vehicle;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do veículo',
+  })
+  vehicle_id!: string;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do motorista',
+  })
+  driver_id!: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da última posição GPS em que a condição foi detectada',
+  })
+  tracking_point_id?: string;
+
+  // Posição
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    comment: 'Latitude da primeira detecção',
+  })
+  latitude!: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    comment: 'Longitude da primeira detecção',
+  })
+  longitude!: number;
+
+  // Medição
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    comment: 'Maior valor medido: metros (desvio), minutos (parada) ou km/h (velocidade)',
+  })
+  measured_value!: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    comment: 'Limiar ultrapassado, na mesma unidade do valor medido',
+  })
+  threshold_value!: number;
+
+  @Column({
+    type: 'integer',
+    default: 1,
+    comment: 'Posições GPS em que a condição foi detectada',
+  })
+  occurrences!: number;
+
+  // Período da condição
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Início da condição',
+  })
+  started_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da última detecção',
+  })
+  last_detected_at!: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora em que a condição deixou de ser detectada',
+  })
+  cleared_at?: Date | null;
+
+  // Reconhecimento
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do usuário que reconheceu o alerta',
+  })
+  acknowledged_by?: string;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do reconhecimento',
+  })
+  acknowledged_at?: Date;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Observações do reconhecimento',
+  })
+  acknowledgement_notes?: string;
+
+  // Relacionamento com Incidente
+  @ManyToOne(() => Incident, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'incident_id' })
+  incident?: Incident;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID do incidente gerado a partir do alerta',
+  })
+  incident_id?: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Detalhes da detecção',
+  })
+  metadata?: Record<string, string | number | boolean>;
+}
@@ -0,0 +1,18 @@
+/**
+ * Enum para status de alerta de rota
+ */
+export enum RouteAlertStatus {
+  /** Alerta detectado, aguardando reconhecimento */
+  OPEN = 'OPEN',
+
+  /** Alerta reconhecido por um usuário da operação */
+  ACKNOWLEDGED = 'ACKNOWLEDGED',
+}
+
+/**
+ * Descrições dos status para exibição em UI
+ */
+export const RouteAlertStatusDescriptions: Record<RouteAlertStatus, string> = {
+  [RouteAlertStatus.OPEN]: 'Aberto',
+  [RouteAlertStatus.ACKNOWLEDGED]: 'Reconhecido',
+};
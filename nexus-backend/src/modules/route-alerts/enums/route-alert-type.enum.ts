@@ -0,0 +1,23 @@
+/**
+ * Enum para tipo de alerta de rota
+ * Condições detectadas a partir das posições GPS de uma rota em andamento
+ */
+export enum RouteAlertType {
+  /** Veículo afastado do trajeto planejado entre as paradas */
+  ROUTE_DEVIATION = 'ROUTE_DEVIATION',
+
+  /** Veículo parado fora das paradas da rota */
+  UNEXPECTED_STOP = 'UNEXPECTED_STOP',
+
+  /** Velocidade acima da máxima do tipo de rota */
+  SPEEDING = 'SPEEDING',
+}
+
+/**
+ * Descrições dos tipos para exibição em UI
+ */
+export const RouteAlertTypeDescriptions: Record<RouteAlertType, string> = {
+  [RouteAlertType.ROUTE_DEVIATION]: 'Desvio de rota',
+  [RouteAlertType.UNEXPECTED_STOP]: 'Parada não prevista',
+  [RouteAlertType.SPEEDING]: 'Excesso de velocidade',
+};
@@ -0,0 +1,42 @@
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+
+/**
+ * Limiares de alerta aplicados a um tipo de rota
+ */
+export interface RouteAlertThresholdValues {
+  /** Detecta desvio do trajeto planejado */
+  deviation_enabled: boolean;
+  /** Distância máxima do trajeto planejado (metros) */
+  deviation_meters: number;
+  /** Detecta parada fora das paradas da rota */
+  unexpected_stop_enabled: boolean;
+  /** Tempo parado fora das paradas para gerar o alerta (minutos) */
+  unexpected_stop_minutes: number;
+  /** Detecta excesso de velocidade */
+  speeding_enabled: boolean;
+  /** Velocidade máxima (km/h) */
+  max_speed_kmh: number;
+  /** Tolerância sobre a velocidade máxima (%) */
+  speed_tolerance_percent: number;
+}
+
+/**
+ * Posição GPS com data/hora
+ */
+export interface TimedPosition extends Coordinates {
+  recordedAt: Date;
+}
+
+/**
+ * Condição detectada em uma posição GPS
+ */
+export interface RouteAlertDetection {
+  /** Valor medido: metros (desvio), minutos (parada) ou km/h (velocidade) */
+  measured: number;
+  /** Limiar ultrapassado, na mesma unidade do valor medido */
+  threshold: number;
+  /** Início da condição (parada: desde quando o veículo está parado) */
+  startedAt: Date;
+  message: string;
+  metadata?: Record<string, string | number | boolean>;
+}
@@ -0,0 +1,172 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { RouteAlertsService } from './route-alerts.service';
+import { RouteAlertFilterDto } from './dto/route-alert-filter.dto';
+import { AcknowledgeRouteAlertDto } from './dto/acknowledge-route-alert.dto';
+import { UpdateRouteAlertThresholdDto } from './dto/update-route-alert-threshold.dto';
+import {
+  RouteAlertResponseDto,
+  RouteAlertThresholdResponseDto,
+} from './dto/route-alert-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { RouteType } from '../routes/enums/route.type';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * Controller de alertas de rota
+ *
+ * Alertas de desvio de trajeto, parada não prevista e excesso de velocidade
+ * gerados a partir das posições GPS das rotas em andamento:
+ * - Consulta e reconhecimento dos alertas
+ * - Limiares de detecção por tipo de rota
+ *
+ * A conversão de um alerta em incidente fica em POST /incidents/from-route-alert/:alertId.
+ */
+@ApiTags('Route Alerts')
+@Controller('route-alerts')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.GESTOR, Role.DESPACHANTE)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário sem permissão para gerenciar alertas de rota',
+})
+export class RouteAlertsController {
+  constructor(private readonly routeAlertsService: RouteAlertsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar alertas de rota',
+    description:
+      'Lista alertas por tipo, status, rota, veículo, motorista e período. Use ongoing=true para as condições ainda em curso',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de alertas retornada com sucesso',
+    type: PaginatedResponseDto<RouteAlertResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: RouteAlertFilterDto,
+  ): Promise<PaginatedResponseDto<RouteAlertResponseDto>> {
+    return this.routeAlertsService.findAll(filterDto);
+  }
+
+  @Get('thresholds')
+  @ApiOperation({
+    summary: 'Listar limiares de alerta',
+    description:
+      'Retorna os limiares de desvio, parada e velocidade de cada tipo de rota, configurados ou padrão',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Limiares retornados com sucesso',
+    type: [RouteAlertThresholdResponseDto],
+  })
+  async findThresholds(): Promise<RouteAlertThresholdResponseDto[]> {
+    return this.routeAlertsService.findThresholds();
+  }
+
+  @Put('thresholds/:routeType')
+  @Roles(Role.ADMIN, Role.GESTOR)
+  @ApiOperation({
+    summary: 'Configurar limiares de alerta',
+    description:
+      'Altera os limiares de um tipo de rota. Campos ausentes mantêm o valor atual ou o padrão do tipo',
+  })
+  @ApiParam({
+    name: 'routeType',
+    description: 'Tipo de rota',
+    enum: RouteType,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Limiares atualizados com sucesso',
+    type: RouteAlertThresholdResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Tipo de rota ou limiares inválidos',
+  })
+  async updateThresholds(
+    @Param('routeType', new ParseEnumPipe(RouteType)) routeType: RouteType,
+    @Body() updateDto: UpdateRouteAlertThresholdDto,
+  ): Promise<RouteAlertThresholdResponseDto> {
+    return this.routeAlertsService.updateThresholds(routeType, updateDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Buscar alerta de rota por ID',
+    description: 'Retorna a condição detectada, o período e o reconhecimento do alerta',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do alerta',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Alerta encontrado com sucesso',
+    type: RouteAlertResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Alerta não encontrado',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<RouteAlertResponseDto> {
+    return this.routeAlertsService.findOne(id);
+  }
+
+  @Patch(':id/acknowledge')
+  @ApiOperation({
+    summary: 'Reconhecer alerta de rota',
+    description: 'Registra o reconhecimento do alerta pelo usuário autenticado',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do alerta',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Alerta reconhecido com sucesso',
+    type: RouteAlertResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Alerta já reconhecido',
+  })
+  @ApiNotFoundResponse({
+    description: 'Alerta não encontrado',
+  })
+  async acknowledge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() acknowledgeDto: AcknowledgeRouteAlertDto,
+  ): Promise<RouteAlertResponseDto> {
+    return this.routeAlertsService.acknowledge(id, acknowledgeDto);
+  }
+}
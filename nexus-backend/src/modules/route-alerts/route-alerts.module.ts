@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RouteAlertsService } from './route-alerts.service';
+import { RouteAlertsController } from './route-alerts.controller';
+import { RouteMonitoringService } from './services/route-monitoring.service';
+import { RouteAlert } from './entities/route-alert.entity';
+import { RouteAlertThreshold } from './entities/route-alert-threshold.entity';
+import { RouteStop } from '../routes/entities/route_stop.entity';
+import { Tracking } from '../tracking/entities/tracking.entity';
+import { ClsAuditUtils } from '../routes/utils/cls-audit.util';
+import { AuditModule } from '../audit/audit.module';
+import { deliveryConfig } from '../deliveries/config/delivery.config';
+
+/**
+ * Módulo de alertas de rota
+ *
+ * Desvio de trajeto, parada não prevista e excesso de velocidade. As posições
+ * GPS recebidas pelo TrackingModule são avaliadas pelo RouteMonitoringService;
+ * por isso este módulo não importa Tracking/Routes/Incidents. A conversão em
+ * incidente é feita pelo IncidentsModule.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RouteAlert, RouteAlertThreshold, RouteStop, Tracking]),
+    ConfigModule.forFeature(deliveryConfig),
+    AuditModule,
+  ],
+  controllers: [RouteAlertsController],
+  providers: [RouteAlertsService, RouteMonitoringService, ClsAuditUtils],
+  exports: [RouteAlertsService, RouteMonitoringService, TypeOrmModule],
+})
+export class RouteAlertsModule {}
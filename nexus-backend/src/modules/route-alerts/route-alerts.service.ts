@@ -0,0 +1,298 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Repository,
+  FindOptionsWhere,
+  Between,
+  ILike,
+  IsNull,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+} from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { RouteAlert } from './entities/route-alert.entity';
+import { RouteAlertThreshold } from './entities/route-alert-threshold.entity';
+import { RouteAlertStatus } from './enums/route-alert-status.enum';
+import { ROUTE_ALERT_DEFAULT_THRESHOLDS } from './constants/route-alert.constants';
+import { RouteAlertFilterDto } from './dto/route-alert-filter.dto';
+import { AcknowledgeRouteAlertDto } from './dto/acknowledge-route-alert.dto';
+import { UpdateRouteAlertThresholdDto } from './dto/update-route-alert-threshold.dto';
+import {
+  RouteAlertResponseDto,
+  RouteAlertThresholdResponseDto,
+} from './dto/route-alert-response.dto';
+import type { RouteAlertThresholdValues } from './interfaces/route-alert.interface';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { RouteType } from '../routes/enums/route.type';
+import { ClsAuditUtils } from '../routes/utils/cls-audit.util';
+import { AuditLogService } from '../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../audit/enums';
+
+/**
+ * Serviço de alertas de rota
+ *
+ * Consulta e reconhecimento dos alertas gerados pelo RouteMonitoringService e
+ * configuração dos limiares por tipo de rota.
+ */
+@Injectable()
+export class RouteAlertsService {
+  private readonly logger = new Logger(RouteAlertsService.name);
+
+  constructor(
+    @InjectRepository(RouteAlert)
+    private readonly alertRepository: Repository<RouteAlert>,
+    @InjectRepository(RouteAlertThreshold)
+    private readonly thresholdRepository: Repository<RouteAlertThreshold>,
+    private readonly clsAuditUtils: ClsAuditUtils,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async findAll(
+    filterDto: RouteAlertFilterDto,
+  ): Promise<PaginatedResponseDto<RouteAlertResponseDto>> {
+    const { page = 1, limit = 10, search, from, to, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<RouteAlert> = {};
+
+    if (search) {
+      where.message = ILike(`%${search}%`);
+    }
+    if (filters.type) {
+      where.type = filters.type;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.route_id) {
+      where.route_id = filters.route_id;
+    }
+    if (filters.vehicle_id) {
+      where.vehicle_id = filters.vehicle_id;
+    }
+    if (filters.driver_id) {
+      where.driver_id = filters.driver_id;
+    }
+    if (filters.ongoing === true) {
+      where.cleared_at = IsNull();
+    }
+    if (from && to) {
+      where.started_at = Between(new Date(from), new Date(to));
+    } else if (from) {
+      where.started_at = MoreThanOrEqual(new Date(from));
+    } else if (to) {
+      where.started_at = LessThanOrEqual(new Date(to));
+    }
+
+    const [alerts, total] = await this.alertRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { last_detected_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: alerts.map(alert => this.mapToResponseDto(alert)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<RouteAlertResponseDto> {
+    const alert = await this.findAlertOrFail(id);
+    return this.mapToResponseDto(alert);
+  }
+
+  /**
+   * Reconhece o alerta em nome do usuário autenticado
+   *
+   * O alerta reconhecido continua sendo atualizado enquanto a condição persistir.
+   */
+  async acknowledge(
+    id: string,
+    acknowledgeDto: AcknowledgeRouteAlertDto,
+  ): Promise<RouteAlertResponseDto> {
+    const alert = await this.findAlertOrFail(id);
+
+    if (alert.status === RouteAlertStatus.ACKNOWLEDGED) {
+      throw new BadRequestException('Alerta já reconhecido');
+    }
+
+    this.applyAcknowledgement(alert, acknowledgeDto.notes);
+    await this.alertRepository.save(alert);
+
+    this.logger.log(`Alerta de rota reconhecido: ${id}`);
+    await this.audit(alert, `Alerta de rota reconhecido: ${alert.message}`);
+
+    return this.mapToResponseDto(alert);
+  }
+
+  /**
+   * Alerta a ser convertido em incidente
+   *
+   * @throws BadRequestException se o alerta já gerou um incidente
+   */
+  async findForIncident(id: string): Promise<RouteAlert> {
+    const alert = await this.findAlertOrFail(id);
+
+    if (alert.incident_id) {
+      throw new BadRequestException(`Alerta já convertido no incidente ${alert.incident_id}`);
+    }
+
+    return alert;
+  }
+
+  /**
+   * Vincula o incidente gerado ao alerta, reconhecendo-o se ainda estiver aberto
+   */
+  async linkIncident(id: string, incidentId: string): Promise<void> {
+    const alert = await this.findAlertOrFail(id);
+
+    alert.incident_id = incidentId;
+
+    if (alert.status === RouteAlertStatus.OPEN) {
+      this.applyAcknowledgement(alert);
+    }
+
+    await this.alertRepository.save(alert);
+
+    this.logger.log(`Alerta de rota ${id} convertido no incidente ${incidentId}`);
+    await this.audit(alert, `Alerta de rota convertido em incidente: ${alert.message}`);
+  }
+
+  /**
+   * Limiares de todos os tipos de rota (configurados ou padrão)
+   */
+  async findThresholds(): Promise<RouteAlertThresholdResponseDto[]> {
+    const configured = await this.thresholdRepository.find();
+
+    return Object.values(RouteType).map(routeType => {
+      const threshold = configured.find(item => item.route_type === routeType);
+
+      return this.mapThresholdToResponseDto(
+        routeType,
+        threshold ?? ROUTE_ALERT_DEFAULT_THRESHOLDS[routeType],
+        !threshold,
+      );
+    });
+  }
+
+  /**
+   * Limiares aplicados às rotas do tipo informado
+   */
+  async resolveThresholds(routeType: RouteType): Promise<RouteAlertThresholdValues> {
+    const threshold = await this.thresholdRepository.findOne({
+      where: { route_type: routeType },
+    });
+
+    return threshold ?? ROUTE_ALERT_DEFAULT_THRESHOLDS[routeType];
+  }
+
+  /**
+   * Altera os limiares de um tipo de rota; o primeiro ajuste parte dos padrões do tipo
+   */
+  async updateThresholds(
+    routeType: RouteType,
+    updateDto: UpdateRouteAlertThresholdDto,
+  ): Promise<RouteAlertThresholdResponseDto> {
+    const threshold =
+      (await this.thresholdRepository.findOne({ where: { route_type: routeType } })) ??
+      this.thresholdRepository.create({
+        route_type: routeType,
+        ...ROUTE_ALERT_DEFAULT_THRESHOLDS[routeType],
+      });
+
+    Object.assign(threshold, updateDto);
+
+    const saved = await this.thresholdRepository.save(threshold);
+
+    this.logger.log(`Limiares de alerta atualizados para rotas ${routeType}`);
+
+    try {
+      await this.auditLogService.createLog({
+        action: AuditAction.UPDATE,
+        category: AuditCategory.ROUTE_MANAGEMENT,
+        resourceType: 'route_alert_threshold',
+        resourceId: saved.id,
+        description: `Limiares de alerta atualizados para rotas ${routeType}`,
+        metadata: { route_type: routeType, changes: { ...updateDto } },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar limiares de alerta ${routeType}:`, error);
+    }
+
+    return this.mapThresholdToResponseDto(routeType, saved, false);
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private applyAcknowledgement(alert: RouteAlert, notes?: string): void {
+    const userId = this.clsAuditUtils.getUserId();
+
+    alert.status = RouteAlertStatus.ACKNOWLEDGED;
+    alert.acknowledged_at = new Date();
+
+    if (userId) {
+      alert.acknowledged_by = userId;
+    }
+    if (notes) {
+      alert.acknowledgement_notes = notes;
+    }
+  }
+
+  private async findAlertOrFail(id: string): Promise<RouteAlert> {
+    const alert = await this.alertRepository.findOne({ where: { id } });
+
+    if (!alert) {
+      throw new NotFoundException(`Alerta de rota com ID ${id} não encontrado`);
+    }
+
+    return alert;
+  }
+
+  private async audit(alert: RouteAlert, description: string): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action: AuditAction.UPDATE,
+        category: AuditCategory.ROUTE_MANAGEMENT,
+        resourceType: 'route_alert',
+        resourceId: alert.id,
+        description,
+        metadata: {
+          type: alert.type,
+          status: alert.status,
+          route_id: alert.route_id,
+          ...(alert.acknowledged_by ? { acknowledged_by: alert.acknowledged_by } : {}),
+          ...(alert.incident_id ? { incident_id: alert.incident_id } : {}),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar alerta de rota ${alert.id}:`, error);
+    }
+  }
+
+  private mapToResponseDto(alert: RouteAlert): RouteAlertResponseDto {
+    return plainToInstance(RouteAlertResponseDto, alert, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  private mapThresholdToResponseDto(
+    routeType: RouteType,
+    values: RouteAlertThresholdValues,
+    isDefault: boolean,
+  ): RouteAlertThresholdResponseDto {
+    return plainToInstance(
+      RouteAlertThresholdResponseDto,
+      { ...values, route_type: routeType, is_default: isDefault },
+      { excludeExtraneousValues: true },
+    );
+  }
+}
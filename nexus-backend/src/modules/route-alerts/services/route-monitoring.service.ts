@@ -0,0 +1,383 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, IsNull, LessThan, MoreThan, MoreThanOrEqual, Repository } from 'typeorm';
+import { RouteAlert } from '../entities/route-alert.entity';
+import { RouteAlertType } from '../enums/route-alert-type.enum';
+import { RouteAlertStatus } from '../enums/route-alert-status.enum';
+import { ROUTE_MONITORING } from '../constants/route-alert.constants';
+import { RouteMonitor } from '../utils/route-monitor.util';
+import { RouteAlertsService } from '../route-alerts.service';
+import type {
+  RouteAlertDetection,
+  RouteAlertThresholdValues,
+  TimedPosition,
+} from '../interfaces/route-alert.interface';
+import { Tracking } from '../../tracking/entities/tracking.entity';
+import type { Route } from '../../routes/entities/route.entity';
+import { RouteStop } from '../../routes/entities/route_stop.entity';
+import { RouteStatus } from '../../routes/enums/route-status';
+import { RouteStopStatus } from '../../routes/enums/route-stop-status';
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+import { getLatitude, getLongitude } from '../../../common/transformers/point.transformer';
+import { AuditLogService } from '../../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../../audit/enums';
+import type { DeliveryConfig } from '../../deliveries/config/delivery.config';
+
+/**
+ * Status de parada ainda a atender
+ */
+const OPEN_STOP_STATUSES = [RouteStopStatus.PENDING, RouteStopStatus.IN_PROGRESS];
+
+/**
+ * Status de parada em que o veículo passou pelo endereço
+ */
+const VISITED_STOP_STATUSES = [RouteStopStatus.COMPLETED, RouteStopStatus.FAILED];
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Serviço de monitoramento das rotas em andamento
+ *
+ * Avalia cada posição GPS contra os limiares do tipo de rota e mantém os
+ * alertas de desvio, parada não prevista e excesso de velocidade:
+ * - Condição detectada: cria o alerta ou atualiza o alerta em curso do mesmo tipo
+ * - Condição ausente: encerra o alerta em curso (cleared_at)
+ * - Desvio e velocidade que voltam dentro da janela de deduplicação reabrem o alerta
+ */
+@Injectable()
+export class RouteMonitoringService {
+  private readonly logger = new Logger(RouteMonitoringService.name);
+  private readonly arrivalRadiusMeters: number;
+
+  constructor(
+    @InjectRepository(RouteAlert)
+    private readonly alertRepository: Repository<RouteAlert>,
+    @InjectRepository(Tracking)
+    private readonly trackingRepository: Repository<Tracking>,
+    @InjectRepository(RouteStop)
+    private readonly routeStopRepository: Repository<RouteStop>,
+    private readonly routeAlertsService: RouteAlertsService,
+    private readonly auditLogService: AuditLogService,
+    configService: ConfigService,
+  ) {
+    const { tracking } = configService.getOrThrow<DeliveryConfig>('delivery');
+    this.arrivalRadiusMeters = tracking.arrivalRadiusMeters;
+  }
+
+  /**
+   * Avalia uma posição GPS já gravada
+   *
+   * Só rotas em andamento são monitoradas; pings imprecisos ou recebidos fora
+   * de ordem são ignorados.
+   *
+   * @returns Alertas criados ou atualizados pela posição
+   */
+  async evaluatePosition(ping: Tracking, route: Route): Promise<RouteAlert[]> {
+    if (route.status !== RouteStatus.IN_PROGRESS) {
+      return [];
+    }
+
+    if (
+      ping.accuracy !== undefined &&
+      ping.accuracy !== null &&
+      Number(ping.accuracy) > ROUTE_MONITORING.MAX_ACCURACY_METERS
+    ) {
+      return [];
+    }
+
+    const hasNewerPosition = await this.trackingRepository.exists({
+      where: { route_id: route.id, recorded_at: MoreThan(ping.recorded_at) },
+    });
+
+    if (hasNewerPosition) {
+      return [];
+    }
+
+    const thresholds = await this.routeAlertsService.resolveThresholds(route.type);
+    const stops = await this.routeStopRepository.find({
+      where: { route_id: route.id },
+      order: { sequence_order: 'ASC' },
+    });
+
+    const position: TimedPosition = {
+      latitude: Number(ping.latitude),
+      longitude: Number(ping.longitude),
+      recordedAt: ping.recorded_at,
+    };
+
+    const detections: Record<RouteAlertType, RouteAlertDetection | null> = {
+      [RouteAlertType.ROUTE_DEVIATION]: thresholds.deviation_enabled
+        ? RouteMonitor.detectDeviation(position, this.buildPlannedPath(route, stops), thresholds)
+        : null,
+      [RouteAlertType.UNEXPECTED_STOP]: thresholds.unexpected_stop_enabled
+        ? await this.detectUnexpectedStop(ping, position, route, stops, thresholds)
+        : null,
+      [RouteAlertType.SPEEDING]: thresholds.speeding_enabled
+        ? await this.detectSpeeding(ping, position, thresholds)
+        : null,
+    };
+
+    const windowStart = new Date(
+      ping.recorded_at.getTime() - ROUTE_MONITORING.DEDUP_WINDOW_MINUTES * MS_PER_MINUTE,
+    );
+    const recentAlerts = await this.alertRepository.find({
+      where: [
+        { route_id: route.id, cleared_at: IsNull() },
+        { route_id: route.id, cleared_at: MoreThanOrEqual(windowStart) },
+      ],
+      order: { last_detected_at: 'DESC' },
+    });
+
+    const alerts: RouteAlert[] = [];
+
+    for (const type of Object.values(RouteAlertType)) {
+      const detection = detections[type];
+      const recent = recentAlerts.filter(alert => alert.type === type);
+      const ongoing = recent.find(alert => !alert.cleared_at);
+
+      if (!detection) {
+        if (ongoing) {
+          await this.alertRepository.update(ongoing.id, { cleared_at: ping.recorded_at });
+        }
+        continue;
+      }
+
+      // Parada em outro local é outra ocorrência; desvio e velocidade reabrem o alerta recente
+      const current = ongoing ?? (type === RouteAlertType.UNEXPECTED_STOP ? undefined : recent[0]);
+
+      const alert = current
+        ? await this.mergeDetection(current, detection, ping)
+        : await this.createAlert(type, detection, ping, route);
+
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+
+    return alerts;
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Parada não prevista: ignorada enquanto o motorista atende uma parada
+   * (check-in feito) ou o dispositivo informa o veículo em movimento
+   */
+  private async detectUnexpectedStop(
+    ping: Tracking,
+    position: TimedPosition,
+    route: Route,
+    stops: RouteStop[],
+    thresholds: RouteAlertThresholdValues,
+  ): Promise<RouteAlertDetection | null> {
+    if (stops.some(stop => stop.status === RouteStopStatus.IN_PROGRESS)) {
+      return null;
+    }
+
+    if (
+      ping.speed !== undefined &&
+      ping.speed !== null &&
+      Number(ping.speed) > ROUTE_MONITORING.STATIONARY_MAX_SPEED_KMH
+    ) {
+      return null;
+    }
+
+    const lookbackStart = new Date(
+      ping.recorded_at.getTime() -
+        (thresholds.unexpected_stop_minutes + ROUTE_MONITORING.STATIONARY_LOOKBACK_MINUTES) *
+          MS_PER_MINUTE,
+    );
+
+    const history = await this.trackingRepository.find({
+      where: {
+        route_id: route.id,
+        recorded_at: Between(lookbackStart, new Date(ping.recorded_at.getTime() - 1)),
+      },
+      order: { recorded_at: 'DESC' },
+    });
+
+    const expectedStops = [
+      route.origin_coordinates,
+      route.destination_coordinates,
+      ...stops.map(stop => stop.coordinates),
+    ]
+      .map(point => this.toCoordinates(point))
+      .filter((point): point is Coordinates => point !== null);
+
+    return RouteMonitor.detectUnexpectedStop(
+      position,
+      history.map(point => this.toTimedPosition(point)),
+      expectedStops,
+      this.arrivalRadiusMeters,
+      Math.max(ROUTE_MONITORING.STATIONARY_RADIUS_METERS, Number(ping.accuracy ?? 0)),
+      thresholds,
+    );
+  }
+
+  /**
+   * Excesso de velocidade: sem velocidade informada, calcula a partir da posição anterior
+   */
+  private async detectSpeeding(
+    ping: Tracking,
+    position: TimedPosition,
+    thresholds: RouteAlertThresholdValues,
+  ): Promise<RouteAlertDetection | null> {
+    const reportedSpeed =
+      ping.speed !== undefined && ping.speed !== null ? Number(ping.speed) : null;
+
+    const previous =
+      reportedSpeed === null
+        ? await this.trackingRepository.findOne({
+            where: { route_id: ping.route_id, recorded_at: LessThan(ping.recorded_at) },
+            order: { recorded_at: 'DESC' },
+          })
+        : null;
+
+    return RouteMonitor.detectSpeeding(
+      position,
+      reportedSpeed,
+      previous ? this.toTimedPosition(previous) : null,
+      ROUTE_MONITORING.MIN_SPEED_SAMPLE_SECONDS,
+      thresholds,
+    );
+  }
+
+  /**
+   * Trajeto planejado: último ponto visitado (ou a origem), paradas restantes e destino
+   */
+  private buildPlannedPath(route: Route, stops: RouteStop[]): Coordinates[] {
+    const lastVisited = stops
+      .filter(stop => VISITED_STOP_STATUSES.includes(stop.status) || stop.actual_departure_time)
+      .pop();
+
+    return [
+      lastVisited ? lastVisited.coordinates : route.origin_coordinates,
+      ...stops
+        .filter(stop => OPEN_STOP_STATUSES.includes(stop.status))
+        .map(stop => stop.coordinates),
+      route.destination_coordinates,
+    ]
+      .map(point => this.toCoordinates(point))
+      .filter((point): point is Coordinates => point !== null);
+  }
+
+  /**
+   * Alerta novo; a condição em curso é única por rota/tipo, então pings
+   * concorrentes geram um único alerta
+   */
+  private async createAlert(
+    type: RouteAlertType,
+    detection: RouteAlertDetection,
+    ping: Tracking,
+    route: Route,
+  ): Promise<RouteAlert | null> {
+    const inserted = await this.alertRepository
+      .createQueryBuilder()
+      .insert()
+      .into(RouteAlert)
+      .values({
+        type,
+        status: RouteAlertStatus.OPEN,
+        message: detection.message,
+        route_id: route.id,
+        vehicle_id: ping.vehicle_id,
+        driver_id: ping.driver_id,
+        tracking_point_id: ping.id,
+        latitude: ping.latitude,
+        longitude: ping.longitude,
+        measured_value: detection.measured,
+        threshold_value: detection.threshold,
+        occurrences: 1,
+        started_at: detection.startedAt,
+        last_detected_at: ping.recorded_at,
+        ...(detection.metadata ? { metadata: detection.metadata } : {}),
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    const [row] = inserted.raw as { id: string }[];
+
+    if (!row) {
+      return null;
+    }
+
+    const alert = await this.alertRepository.findOneByOrFail({ id: row.id });
+
+    this.logger.warn(`Rota ${route.route_code}: ${detection.message}`);
+
+    await this.audit(alert, route);
+
+    return alert;
+  }
+
+  /**
+   * Atualiza o alerta com a nova detecção, mantendo o maior valor medido
+   */
+  private async mergeDetection(
+    alert: RouteAlert,
+    detection: RouteAlertDetection,
+    ping: Tracking,
+  ): Promise<RouteAlert> {
+    const isPeak = detection.measured > Number(alert.measured_value);
+
+    alert.occurrences += 1;
+    alert.last_detected_at = ping.recorded_at;
+    alert.tracking_point_id = ping.id;
+    alert.cleared_at = null;
+
+    if (detection.startedAt < alert.started_at) {
+      alert.started_at = detection.startedAt;
+    }
+    if (isPeak) {
+      alert.measured_value = detection.measured;
+      alert.threshold_value = detection.threshold;
+      alert.message = detection.message;
+    }
+
+    return this.alertRepository.save(alert);
+  }
+
+  private toTimedPosition(point: Tracking): TimedPosition {
+    return {
+      latitude: Number(point.latitude),
+      longitude: Number(point.longitude),
+      recordedAt: point.recorded_at,
+    };
+  }
+
+  private toCoordinates(point: string | undefined): Coordinates | null {
+    if (!point) {
+      return null;
+    }
+
+    const latitude = getLatitude(point);
+    const longitude = getLongitude(point);
+
+    return latitude !== null && longitude !== null ? { latitude, longitude } : null;
+  }
+
+  private async audit(alert: RouteAlert, route: Route): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action: AuditAction.CREATE,
+        category: AuditCategory.ROUTE_MANAGEMENT,
+        resourceType: 'route_alert',
+        resourceId: alert.id,
+        description: `Rota ${route.route_code}: ${alert.message}`,
+        metadata: {
+          type: alert.type,
+          route_id: route.id,
+          vehicle_id: alert.vehicle_id,
+          driver_id: alert.driver_id,
+          measured_value: Number(alert.measured_value),
+          threshold_value: Number(alert.threshold_value),
+          started_at: alert.started_at.toISOString(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar alerta de rota ${alert.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { RouteMonitor } from './route-monitor.util';
+
+describe('RouteMonitor', () => {
+  const at = (minutes: number): Date => new Date(Date.UTC(2024, 0, 15, 10, minutes));
+
+  // Trajeto reto para o leste ao longo da latitude -23.55
+  const path = [
+    { latitude: -23.55, longitude: -46.64 },
+    { latitude: -23.55, longitude: -46.62 },
+    { latitude: -23.55, longitude: -46.6 },
+  ];
+
+  describe('distanceToPathMeters', () => {
+    it('should measure the perpendicular distance to the nearest segment', () => {
+      // 0,005° de latitude ≈ 556 m ao norte do trajeto
+      expect(
+        RouteMonitor.distanceToPathMeters({ latitude: -23.545, longitude: -46.63 }, path),
+      ).toBeCloseTo(556.6, 0);
+    });
+
+    it('should measure to the path ends beyond the segments', () => {
+      const distance = RouteMonitor.distanceToPathMeters(
+        { latitude: -23.55, longitude: -46.65 },
+        path,
+      );
+
+      // 0,01° de longitude na latitude -23.55 ≈ 1.020 m
+      expect(distance).toBeCloseTo(1020, -1);
+    });
+
+    it('should handle single-point and empty paths', () => {
+      expect(
+        RouteMonitor.distanceToPathMeters({ latitude: -23.551, longitude: -46.64 }, [
+          { latitude: -23.55, longitude: -46.64 },
+        ]),
+      ).toBeCloseTo(111.2, 0);
+      expect(RouteMonitor.distanceToPathMeters({ latitude: 0, longitude: 0 }, [])).toBeNull();
+    });
+  });
+
+  describe('detectDeviation', () => {
+    it('should alert only beyond the threshold', () => {
+      const position = { latitude: -23.545, longitude: -46.63, recordedAt: at(0) };
+
+      expect(RouteMonitor.detectDeviation(position, path, { deviation_meters: 1000 })).toBeNull();
+
+      const detection = RouteMonitor.detectDeviation(position, path, { deviation_meters: 500 });
+
+      expect(detection?.measured).toBe(557);
+      expect(detection?.threshold).toBe(500);
+      expect(detection?.startedAt).toEqual(at(0));
+    });
+  });
+
+  describe('findStationarySince', () => {
+    it('should walk back while positions stay within the radius', () => {
+      const current = { latitude: -23.55, longitude: -46.63, recordedAt: at(30) };
+      const history = [
+        { latitude: -23.5501, longitude: -46.63, recordedAt: at(25) },
+        { latitude: -23.5502, longitude: -46.6301, recordedAt: at(15) },
+        { latitude: -23.56, longitude: -46.63, recordedAt: at(10) },
+        { latitude: -23.55, longitude: -46.63, recordedAt: at(5) },
+      ];
+
+      expect(RouteMonitor.findStationarySince(current, history, 50)).toEqual(at(15));
+    });
+  });
+
+  describe('detectUnexpectedStop', () => {
+    const current = { latitude: -23.55, longitude: -46.63, recordedAt: at(30) };
+    const history = [
+      { latitude: -23.5501, longitude: -46.63, recordedAt: at(20) },
+      { latitude: -23.55, longitude: -46.6301, recordedAt: at(10) },
+      { latitude: -23.6, longitude: -46.63, recordedAt: at(0) },
+    ];
+
+    it('should alert when stopped longer than the threshold away from stops', () => {
+      const detection = RouteMonitor.detectUnexpectedStop(current, history, [], 100, 50, {
+        unexpected_stop_minutes: 15,
+      });
+
+      expect(detection?.measured).toBe(20);
+      expect(detection?.startedAt).toEqual(at(10));
+    });
+
+    it('should ignore short stops and stops near an expected point', () => {
+      expect(
+        RouteMonitor.detectUnexpectedStop(current, history, [], 100, 50, {
+          unexpected_stop_minutes: 25,
+        }),
+      ).toBeNull();
+      expect(
+        RouteMonitor.detectUnexpectedStop(
+          current,
+          history,
+          [
+            { latitude: -23.5005, longitude: -46.63 },
+            { latitude: -23.5505, longitude: -46.63 },
+          ],
+          100,
+          50,
+          { unexpected_stop_minutes: 15 },
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('detectSpeeding', () => {
+    const thresholds = { max_speed_kmh: 60, speed_tolerance_percent: 10 };
+    const position = { latitude: -23.55, longitude: -46.63, recordedAt: at(1) };
+
+    it('should apply the tolerance to the reported speed', () => {
+      expect(RouteMonitor.detectSpeeding(position, 65, null, 10, thresholds)).toBeNull();
+
+      const detection = RouteMonitor.detectSpeeding(position, 72.46, null, 10, thresholds);
+
+      expect(detection?.measured).toBe(72.5);
+      expect(detection?.threshold).toBe(60);
+      expect(detection?.metadata).toMatchObject({ speed_source: 'device' });
+    });
+
+    it('should fall back to the speed between consecutive positions', () => {
+      // ~2,2 km em 1 minuto ≈ 133 km/h
+      const previous = { latitude: -23.57, longitude: -46.63, recordedAt: at(0) };
+      const detection = RouteMonitor.detectSpeeding(position, null, previous, 10, thresholds);
+
+      expect(detection?.measured).toBeCloseTo(133.6, 0);
+      expect(detection?.metadata).toMatchObject({ speed_source: 'computed' });
+    });
+
+    it('should not compute speed from positions too close in time', () => {
+      const previous = {
+        latitude: -23.5501,
+        longitude: -46.63,
+        recordedAt: new Date(position.recordedAt.getTime() - 2000),
+      };
+
+      expect(RouteMonitor.detectSpeeding(position, null, previous, 10, thresholds)).toBeNull();
+    });
+  });
+});
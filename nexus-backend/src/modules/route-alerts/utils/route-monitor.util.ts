@@ -0,0 +1,238 @@
+/**
+ * Route Monitor
+ *
+ * Detecção das condições de alerta de uma rota em andamento a partir das
+ * posições GPS: desvio do trajeto planejado, parada fora das paradas da rota e
+ * excesso de velocidade. Funções puras; a persistência fica no
+ * RouteMonitoringService.
+ *
+ * @module RouteAlerts/Utils
+ */
+
+import { GeofenceGeometry } from '../../geofences/utils/geofence-geometry.util';
+import type { Coordinates } from '../../routes/interfaces/route-metrics.interface';
+import type {
+  RouteAlertDetection,
+  RouteAlertThresholdValues,
+  TimedPosition,
+} from '../interfaces/route-alert.interface';
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+export class RouteMonitor {
+  /**
+   * Desvio: distância da posição ao trajeto planejado acima do limiar
+   *
+   * O trajeto é a linha que liga o último ponto visitado às paradas restantes
+   * (e ao destino), na ordem da rota.
+   */
+  static detectDeviation(
+    position: TimedPosition,
+    path: Coordinates[],
+    thresholds: Pick<RouteAlertThresholdValues, 'deviation_meters'>,
+  ): RouteAlertDetection | null {
+    const distance = this.distanceToPathMeters(position, path);
+
+    if (distance === null || distance <= thresholds.deviation_meters) {
+      return null;
+    }
+
+    const measured = Math.round(distance);
+
+    return {
+      measured,
+      threshold: thresholds.deviation_meters,
+      startedAt: position.recordedAt,
+      message: `Veículo a ${measured} m do trajeto planejado (limite ${thresholds.deviation_meters} m)`,
+    };
+  }
+
+  /**
+   * Parada não prevista: veículo parado além do limiar longe de qualquer ponto previsto
+   *
+   * @param history - Posições anteriores da rota, da mais recente para a mais antiga
+   * @param expectedStops - Paradas, origem e destino da rota
+   * @param proximityMeters - Distância até um ponto previsto em que a parada é esperada
+   */
+  static detectUnexpectedStop(
+    position: TimedPosition,
+    history: TimedPosition[],
+    expectedStops: Coordinates[],
+    proximityMeters: number,
+    stationaryRadiusMeters: number,
+    thresholds: Pick<RouteAlertThresholdValues, 'unexpected_stop_minutes'>,
+  ): RouteAlertDetection | null {
+    const nearExpectedStop = expectedStops.some(
+      stop => GeofenceGeometry.distanceMeters(stop, position) <= proximityMeters,
+    );
+
+    if (nearExpectedStop) {
+      return null;
+    }
+
+    const stationarySince = this.findStationarySince(position, history, stationaryRadiusMeters);
+    const minutes = Math.floor(
+      (position.recordedAt.getTime() - stationarySince.getTime()) / MS_PER_MINUTE,
+    );
+
+    if (minutes < thresholds.unexpected_stop_minutes) {
+      return null;
+    }
+
+    return {
+      measured: minutes,
+      threshold: thresholds.unexpected_stop_minutes,
+      startedAt: stationarySince,
+      message: `Veículo parado há ${minutes} min fora das paradas da rota (limite ${thresholds.unexpected_stop_minutes} min)`,
+    };
+  }
+
+  /**
+   * Excesso de velocidade: velocidade acima da máxima com a tolerância do tipo de rota
+   *
+   * Usa a velocidade informada pelo dispositivo; sem ela, a calculada a partir
+   * da posição anterior.
+   */
+  static detectSpeeding(
+    position: TimedPosition,
+    reportedSpeedKmh: number | null,
+    previous: TimedPosition | null,
+    minSampleSeconds: number,
+    thresholds: Pick<RouteAlertThresholdValues, 'max_speed_kmh' | 'speed_tolerance_percent'>,
+  ): RouteAlertDetection | null {
+    const computed =
+      reportedSpeedKmh === null && previous
+        ? this.calculateSpeedKmh(previous, position, minSampleSeconds)
+        : null;
+    const speed = reportedSpeedKmh ?? computed;
+
+    if (speed === null) {
+      return null;
+    }
+
+    const limit = thresholds.max_speed_kmh * (1 + thresholds.speed_tolerance_percent / 100);
+
+    if (speed <= limit) {
+      return null;
+    }
+
+    const measured = Math.round(speed * 10) / 10;
+
+    return {
+      measured,
+      threshold: thresholds.max_speed_kmh,
+      startedAt: position.recordedAt,
+      message: `Velocidade de ${measured} km/h acima da máxima de ${thresholds.max_speed_kmh} km/h`,
+      metadata: {
+        speed_source: computed === null ? 'device' : 'computed',
+        tolerance_percent: thresholds.speed_tolerance_percent,
+      },
+    };
+  }
+
+  /**
+   * Menor distância (metros) entre o ponto e a linha formada pelos pontos do trajeto
+   *
+   * Usa projeção equirretangular local, adequada às distâncias de desvio
+   * (até alguns quilômetros).
+   *
+   * @returns null quando o trajeto não tem pontos
+   */
+  static distanceToPathMeters(point: Coordinates, path: Coordinates[]): number | null {
+    const first = path[0];
+
+    if (!first) {
+      return null;
+    }
+
+    if (path.length === 1) {
+      return GeofenceGeometry.distanceMeters(point, first);
+    }
+
+    let minimum = Number.POSITIVE_INFINITY;
+
+    for (let i = 1; i < path.length; i++) {
+      const start = path[i - 1];
+      const end = path[i];
+
+      if (!start || !end) {
+        continue;
+      }
+
+      minimum = Math.min(minimum, this.distanceToSegmentMeters(point, start, end));
+    }
+
+    return minimum;
+  }
+
+  /**
+   * Desde quando o veículo está dentro do raio da posição atual
+   *
+   * Percorre as posições anteriores (da mais recente para a mais antiga) até a
+   * primeira fora do raio.
+   */
+  static findStationarySince(
+    current: TimedPosition,
+    history: TimedPosition[],
+    radiusMeters: number,
+  ): Date {
+    let since = current.recordedAt;
+
+    for (const position of history) {
+      if (GeofenceGeometry.distanceMeters(current, position) > radiusMeters) {
+        break;
+      }
+
+      since = position.recordedAt;
+    }
+
+    return since;
+  }
+
+  /**
+   * Velocidade média (km/h) entre duas posições
+   *
+   * @returns null quando o intervalo é menor que o mínimo (pings muito próximos
+   * amplificam o erro do GPS)
+   */
+  static calculateSpeedKmh(
+    from: TimedPosition,
+    to: TimedPosition,
+    minSampleSeconds: number,
+  ): number | null {
+    const elapsedMs = to.recordedAt.getTime() - from.recordedAt.getTime();
+
+    if (elapsedMs < minSampleSeconds * 1000) {
+      return null;
+    }
+
+    return (GeofenceGeometry.distanceMeters(from, to) / 1000 / elapsedMs) * MS_PER_HOUR;
+  }
+
+  private static distanceToSegmentMeters(
+    point: Coordinates,
+    start: Coordinates,
+    end: Coordinates,
+  ): number {
+    const metersPerDegreeLongitude =
+      METERS_PER_DEGREE_LATITUDE * Math.cos((point.latitude * Math.PI) / 180);
+    const project = (coordinates: Coordinates): { x: number; y: number } => ({
+      x: (coordinates.longitude - point.longitude) * metersPerDegreeLongitude,
+      y: (coordinates.latitude - point.latitude) * METERS_PER_DEGREE_LATITUDE,
+    });
+
+    const a = project(start);
+    const b = project(end);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+
+    // Ponto do segmento mais próximo da origem (a posição projetada)
+    const t =
+      lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+
+    return Math.hypot(a.x + t * dx, a.y + t * dy);
+  }
+}
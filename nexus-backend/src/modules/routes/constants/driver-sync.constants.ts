@@ -0,0 +1,35 @@
+/**
+ * Driver Sync Constants
+ *
+ * Limites da sincronização offline do aplicativo do motorista
+ *
+ * @module Routes/Constants
+ */
+
+/**
+ * Limites do lote de sincronização
+ *
+ * @constant
+ */
+export const DRIVER_SYNC_LIMITS = {
+  /** Máximo de ações por lote */
+  MAX_ACTIONS_PER_BATCH: 200,
+
+  /** Máximo de arquivos de comprovante por lote */
+  MAX_FILES_PER_BATCH: 20,
+
+  /** Tamanho máximo de cada arquivo de comprovante (bytes) */
+  MAX_FILE_SIZE_BYTES: 10 * 1024 * 1024,
+
+  /** Tolerância para relógio do dispositivo adiantado (ms) */
+  MAX_CLOCK_SKEW_MS: 5 * 60 * 1000,
+
+  /** Recuo do cursor devolvido, para não perder alterações de transações concorrentes (ms) */
+  CURSOR_OVERLAP_MS: 30 * 1000,
+
+  /** Espera máxima pelo lock de sincronização do motorista (ms) */
+  LOCK_TIMEOUT_MS: 5 * 1000,
+
+  /** Intervalo entre tentativas de obter o lock (ms) */
+  LOCK_RETRY_INTERVAL_MS: 200,
+} as const;
@@ -13,3 +13,4 @@ export * from './route-validation.constants';
 export * from './route-defaults.constants';
 export * from './route-calculation.constants';
 export * from './route-code.constants';
+export * from './driver-sync.constants';
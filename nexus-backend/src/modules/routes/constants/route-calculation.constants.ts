@@ -136,6 +136,16 @@ export const ROUTE_CALCULATION_TOLERANCES = {
   MIN_CALCULATION_SPEED_KM_H: 10,
 } as const;
 
+/**
+ * Parâmetros do cálculo dinâmico de ETA
+ *
+ * @constant
+ */
+export const ETA_CALCULATION = {
+  /** Quantidade de atendimentos anteriores do endereço usados na média de duração */
+  HISTORY_SAMPLE_SIZE: 10,
+} as const;
+
 /**
  * Tipo derivado das características de tipo de rota
  */
@@ -0,0 +1,188 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { DriverRouteService } from './services/driver-route.service';
+import { StopArrivalDto, StopAttemptDto, StopDepartureDto } from './dto/driver-route.dto';
+import { DriverRouteResponseDto, DriverStopResponseDto } from './dto/driver-route-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Controller do fluxo do motorista
+ *
+ * API enxuta para o aplicativo do motorista:
+ * - Rota do dia com paradas ordenadas e entregas
+ * - Chegada na parada (com validação de geofence)
+ * - Tentativas de entrega
+ * - Saída da parada
+ */
+@ApiTags('Driver Route')
+@Controller('driver/route')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.MOTORISTA)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário não é motorista ou não está vinculado a um motorista ativo',
+})
+export class DriverRouteController {
+  constructor(private readonly driverRouteService: DriverRouteService) {}
+
+  @Get('today')
+  @ApiOperation({
+    summary: 'Rota de hoje',
+    description:
+      'Retorna a rota do dia do motorista autenticado com as paradas em ordem de sequência e as entregas de cada parada',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Rota do dia',
+    type: DriverRouteResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Nenhuma rota atribuída para hoje',
+  })
+  async getTodayRoute(@Req() req: AuthenticatedRequest): Promise<DriverRouteResponseDto> {
+    return this.driverRouteService.getTodayRoute(req.user);
+  }
+
+  @Post('stops/:stopId/arrive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Registrar chegada na parada',
+    description:
+      'Valida a posição do motorista contra as coordenadas da parada, inicia a rota se ainda planejada e coloca as entregas da parada em OUT_FOR_DELIVERY',
+  })
+  @ApiParam({
+    name: 'stopId',
+    description: 'ID da parada',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Chegada registrada',
+    type: DriverStopResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Motorista fora da área da parada, rota pausada ou parada já encerrada',
+  })
+  @ApiNotFoundResponse({
+    description: 'Parada não encontrada nas rotas do motorista',
+  })
+  @ApiConflictResponse({
+    description: 'Outra parada da rota ainda está em atendimento',
+  })
+  async arrive(
+    @Param('stopId', ParseUUIDPipe) stopId: string,
+    @Body() arrivalDto: StopArrivalDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<DriverStopResponseDto> {
+    return this.driverRouteService.arrive(req.user, stopId, arrivalDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Post('stops/:stopId/deliveries/:deliveryId/attempts')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Registrar tentativa de entrega',
+    description:
+      'Registra a tentativa na entrega da parada em atendimento. Tentativas concluídas movem a entrega para DELIVERED (exigindo os comprovantes configurados); falhas movem para FAILED',
+  })
+  @ApiParam({
+    name: 'stopId',
+    description: 'ID da parada',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'deliveryId',
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Tentativa registrada',
+    type: DriverStopResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Parada sem chegada registrada, entrega fora de rota ou comprovantes ausentes',
+  })
+  @ApiNotFoundResponse({
+    description: 'Parada ou entrega não encontrada',
+  })
+  async recordAttempt(
+    @Param('stopId', ParseUUIDPipe) stopId: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+    @Body() attemptDto: StopAttemptDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<DriverStopResponseDto> {
+    return this.driverRouteService.recordAttempt(req.user, stopId, deliveryId, attemptDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+
+  @Post('stops/:stopId/depart')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Registrar saída da parada',
+    description:
+      'Encerra a parada como COMPLETED (todas as entregas concluídas) ou FAILED, registrando horário e duração. Após a última parada, a rota é finalizada',
+  })
+  @ApiParam({
+    name: 'stopId',
+    description: 'ID da parada',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Saída registrada',
+    type: DriverStopResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Parada não está em atendimento ou há entregas sem tentativa registrada',
+  })
+  @ApiNotFoundResponse({
+    description: 'Parada não encontrada nas rotas do motorista',
+  })
+  async depart(
+    @Param('stopId', ParseUUIDPipe) stopId: string,
+    @Body() departureDto: StopDepartureDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<DriverStopResponseDto> {
+    return this.driverRouteService.depart(req.user, stopId, departureDto, {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+}
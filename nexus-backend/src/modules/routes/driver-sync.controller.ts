@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AnyFilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiConsumes,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { DriverSyncService } from './services/driver-sync.service';
+import { DriverSyncRequestDto } from './dto/driver-sync.dto';
+import { DriverSyncResponseDto } from './dto/driver-sync-response.dto';
+import { DRIVER_SYNC_LIMITS } from './constants/driver-sync.constants';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * Controller da sincronização offline do aplicativo do motorista
+ */
+@ApiTags('Driver Sync')
+@Controller('driver/sync')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.MOTORISTA)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário não é motorista ou não está vinculado a um motorista ativo',
+})
+export class DriverSyncController {
+  constructor(private readonly driverSyncService: DriverSyncService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    AnyFilesInterceptor({
+      limits: {
+        fileSize: DRIVER_SYNC_LIMITS.MAX_FILE_SIZE_BYTES,
+        files: DRIVER_SYNC_LIMITS.MAX_FILES_PER_BATCH,
+      },
+    }),
+  )
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @ApiOperation({
+    summary: 'Sincronizar ações offline',
+    description:
+      'Aplica em ordem a fila de ações registradas sem conexão (posições GPS, chegadas, tentativas, saídas, mudanças de status e comprovantes), de forma idempotente pelo client_action_id. Devolve o resultado de cada ação (APPLIED, CONFLICT ou REJECTED) e as alterações do servidor desde o cursor informado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lote processado',
+    type: DriverSyncResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Lote inválido (formato das ações, limite de ações ou de arquivos)',
+  })
+  @ApiConflictResponse({
+    description: 'Outro lote do motorista ainda está em processamento; reenviar o lote',
+  })
+  async sync(
+    @Body() syncDto: DriverSyncRequestDto,
+    @UploadedFiles() files: Express.Multer.File[] | undefined,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<DriverSyncResponseDto> {
+    return this.driverSyncService.sync(req.user, syncDto, files ?? [], {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+}
@@ -0,0 +1,141 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RouteResponseDto, RouteStopResponseDto } from './route-response.dto';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import type { Delivery } from '../../deliveries/entities/delivery.entity';
+
+/**
+ * Entrega atendida na parada, resumida para o aplicativo do motorista
+ */
+export class DriverStopDeliveryDto {
+  @ApiProperty({
+    description: 'ID da entrega',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: 'Código de rastreamento',
+    example: 'NXT-20240115-ABC123',
+  })
+  tracking_code!: string;
+
+  @ApiProperty({
+    description: 'Status da entrega',
+    enum: DeliveryStatus,
+  })
+  status!: DeliveryStatus;
+
+  @ApiPropertyOptional({
+    description: 'ID da parada que atende a entrega',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  route_stop_id?: string;
+
+  @ApiProperty({
+    description: 'Descrição da carga',
+    example: 'Caixa com eletrônicos',
+  })
+  description!: string;
+
+  @ApiPropertyOptional({
+    description: 'Nome do destinatário',
+    example: 'Maria Silva',
+  })
+  recipient_name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Telefone do destinatário',
+    example: '(11) 98765-4321',
+  })
+  recipient_phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Instruções de entrega',
+    example: 'Deixar com o porteiro',
+  })
+  delivery_instructions?: string;
+
+  @ApiProperty({
+    description: 'Comprovantes exigidos para concluir a entrega',
+    example: { signature: true, photo: false, id: false, confirmation_code: true },
+  })
+  required_proofs!: {
+    signature: boolean;
+    photo: boolean;
+    id: boolean;
+    confirmation_code: boolean;
+  };
+
+  @ApiProperty({
+    description: 'Quantidade de tentativas já registradas',
+    example: 0,
+  })
+  attempts_count!: number;
+
+  // Método estático para mapear da entidade
+  static fromEntity(delivery: Delivery, requiresConfirmationCode: boolean): DriverStopDeliveryDto {
+    return {
+      id: delivery.id,
+      tracking_code: delivery.tracking_code,
+      status: delivery.status,
+      ...(delivery.route_stop_id ? { route_stop_id: delivery.route_stop_id } : {}),
+      description: delivery.description,
+      ...(delivery.recipient_contact
+        ? {
+            recipient_name: delivery.recipient_contact.name,
+            recipient_phone: delivery.recipient_contact.phone,
+          }
+        : {}),
+      ...(delivery.delivery_instructions
+        ? { delivery_instructions: delivery.delivery_instructions }
+        : {}),
+      required_proofs: {
+        signature: delivery.settings?.requires_signature ?? false,
+        photo: delivery.settings?.requires_photo ?? false,
+        id: delivery.settings?.requires_id ?? false,
+        confirmation_code: requiresConfirmationCode,
+      },
+      attempts_count: delivery.attempts.length,
+    };
+  }
+}
+
+/**
+ * Parada da rota com as entregas que ela atende
+ */
+export class DriverStopResponseDto extends RouteStopResponseDto {
+  @ApiProperty({
+    description: 'Entregas atendidas na parada',
+    type: [DriverStopDeliveryDto],
+  })
+  deliveries!: DriverStopDeliveryDto[];
+}
+
+/**
+ * Rota do dia do motorista com as paradas em ordem de atendimento
+ */
+export class DriverRouteResponseDto {
+  @ApiProperty({
+    description: 'Dados da rota',
+    type: RouteResponseDto,
+  })
+  route!: RouteResponseDto;
+
+  @ApiProperty({
+    description: 'Paradas ordenadas pela sequência',
+    type: [DriverStopResponseDto],
+  })
+  stops!: DriverStopResponseDto[];
+
+  @ApiPropertyOptional({
+    description: 'Próxima parada a ser atendida (em atendimento ou primeira ainda não encerrada)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  next_stop_id?: string;
+
+  @ApiProperty({
+    description: 'Quantidade de paradas encerradas',
+    example: 3,
+  })
+  finished_stops!: number;
+}
@@ -0,0 +1,167 @@
+import {
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FailureReason } from '../../deliveries/enums/failure-reason.enum';
+
+/**
+ * Resultados aceitos na tentativa registrada pelo motorista
+ */
+export const DRIVER_ATTEMPT_RESULTS = ['COMPLETED', 'FAILED'] as const;
+
+export type DriverAttemptResult = (typeof DRIVER_ATTEMPT_RESULTS)[number];
+
+/**
+ * Posição GPS informada pelo aplicativo do motorista
+ */
+export class DriverPositionDto {
+  @ApiProperty({
+    description: 'Latitude atual do motorista',
+    example: -23.5505,
+  })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude!: number;
+
+  @ApiProperty({
+    description: 'Longitude atual do motorista',
+    example: -46.6333,
+  })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude!: number;
+
+  @ApiPropertyOptional({
+    description: 'Precisão do GPS em metros',
+    example: 15,
+    minimum: 0,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(500)
+  accuracy?: number;
+}
+
+/**
+ * DTO de chegada (check-in) na parada
+ */
+export class StopArrivalDto extends DriverPositionDto {
+  @ApiPropertyOptional({
+    description: 'Observações do motorista na chegada',
+    example: 'Portaria pediu documento do veículo',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  notes?: string;
+}
+
+/**
+ * DTO de tentativa de entrega registrada na parada
+ */
+export class StopAttemptDto extends DriverPositionDto {
+  @ApiProperty({
+    description: 'Resultado da tentativa',
+    enum: DRIVER_ATTEMPT_RESULTS,
+    example: 'COMPLETED',
+  })
+  @IsIn(DRIVER_ATTEMPT_RESULTS)
+  result!: DriverAttemptResult;
+
+  @ApiPropertyOptional({
+    description: 'Motivo da falha (obrigatório quando result = FAILED)',
+    enum: FailureReason,
+    example: FailureReason.CUSTOMER_UNAVAILABLE,
+  })
+  @ValidateIf((dto: StopAttemptDto) => dto.result === 'FAILED')
+  @IsEnum(FailureReason)
+  failure_reason?: FailureReason;
+
+  @ApiPropertyOptional({
+    description: 'Descrição da falha',
+    example: 'Ninguém atendeu no interfone',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(5, 500)
+  failure_description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Nome de quem recebeu a entrega',
+    example: 'Maria Silva',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(2, 100)
+  recipient_name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Documento de quem recebeu a entrega',
+    example: '12.345.678-9',
+    maxLength: 30,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 30)
+  recipient_document?: string;
+
+  @ApiPropertyOptional({
+    description: 'Observações do motorista sobre a tentativa',
+    example: 'Entregue na portaria',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  notes?: string;
+}
+
+/**
+ * DTO de saída (check-out) da parada
+ */
+export class StopDepartureDto {
+  @ApiPropertyOptional({
+    description: 'Latitude na saída',
+    example: -23.5505,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({
+    description: 'Longitude na saída',
+    example: -46.6333,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({
+    description: 'Observações do motorista na saída',
+    example: 'Cliente pediu nova tentativa amanhã',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  notes?: string;
+}
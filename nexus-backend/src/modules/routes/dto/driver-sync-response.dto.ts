@@ -0,0 +1,126 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RouteResponseDto, RouteStopResponseDto } from './route-response.dto';
+import { DriverStopDeliveryDto } from './driver-route-response.dto';
+import { SyncActionStatus, SyncActionType, SyncConflictReason } from '../enums/driver-sync';
+import type { DriverSyncAction } from '../entities/driver-sync-action.entity';
+
+/**
+ * Resultado de uma ação do lote
+ */
+export class SyncActionResultDto {
+  @ApiProperty({
+    description: 'ID da ação gerado no dispositivo',
+    example: '0b9c7a52-8f1e-4d4b-9a51-3f0f3c2d9e10',
+  })
+  client_action_id!: string;
+
+  @ApiProperty({
+    description: 'Tipo da ação',
+    enum: SyncActionType,
+  })
+  type!: SyncActionType;
+
+  @ApiProperty({
+    description: 'Resultado do processamento',
+    enum: SyncActionStatus,
+  })
+  status!: SyncActionStatus;
+
+  @ApiProperty({
+    description: 'Ação já processada em sincronização anterior (resultado original devolvido)',
+    example: false,
+  })
+  duplicate!: boolean;
+
+  @ApiProperty({
+    description:
+      'Falha temporária do servidor: a ação não foi registrada e deve permanecer na fila do dispositivo',
+    example: false,
+  })
+  retryable!: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Motivo do conflito',
+    enum: SyncConflictReason,
+  })
+  conflict_reason?: SyncConflictReason;
+
+  @ApiPropertyOptional({
+    description: 'Mensagem de erro ou conflito',
+    example: 'Entrega NXT-20240115-00001 foi cancelada pelo despacho',
+  })
+  error?: string;
+
+  @ApiPropertyOptional({
+    description: 'Resumo do resultado ou estado do servidor em caso de conflito',
+    example: { delivery_id: '123e4567-e89b-12d3-a456-426614174000', status: 'CANCELLED' },
+  })
+  result?: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Data/hora do processamento no servidor',
+    example: '2024-01-15T12:00:00.000Z',
+  })
+  processed_at!: Date;
+
+  // Método estático para mapear da entidade
+  static fromEntity(action: DriverSyncAction, duplicate: boolean): SyncActionResultDto {
+    return {
+      client_action_id: action.client_action_id,
+      type: action.action_type,
+      status: action.status,
+      duplicate,
+      retryable: false,
+      ...(action.conflict_reason ? { conflict_reason: action.conflict_reason } : {}),
+      ...(action.error_message ? { error: action.error_message } : {}),
+      ...(action.result ? { result: action.result } : {}),
+      processed_at: action.created_at,
+    };
+  }
+}
+
+/**
+ * Alterações do servidor desde o cursor informado pelo dispositivo
+ */
+export class DriverSyncDeltaDto {
+  @ApiProperty({
+    description: 'Rotas do motorista alteradas',
+    type: [RouteResponseDto],
+  })
+  routes!: RouteResponseDto[];
+
+  @ApiProperty({
+    description: 'Paradas alteradas',
+    type: [RouteStopResponseDto],
+  })
+  stops!: RouteStopResponseDto[];
+
+  @ApiProperty({
+    description: 'Entregas alteradas (inclui canceladas pelo despacho)',
+    type: [DriverStopDeliveryDto],
+  })
+  deliveries!: DriverStopDeliveryDto[];
+}
+
+/**
+ * DTO de resposta da sincronização offline
+ */
+export class DriverSyncResponseDto {
+  @ApiProperty({
+    description: 'Cursor a enviar na próxima sincronização',
+    example: '2024-01-15T12:00:00.000Z',
+  })
+  cursor!: string;
+
+  @ApiProperty({
+    description: 'Resultado de cada ação, na ordem recebida',
+    type: [SyncActionResultDto],
+  })
+  results!: SyncActionResultDto[];
+
+  @ApiProperty({
+    description: 'Alterações do servidor desde o cursor anterior',
+    type: DriverSyncDeltaDto,
+  })
+  delta!: DriverSyncDeltaDto;
+}
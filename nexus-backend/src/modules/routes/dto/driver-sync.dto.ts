@@ -0,0 +1,224 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { Transform, Type, plainToInstance } from 'class-transformer';
+import { SyncActionType } from '../enums/driver-sync';
+import { DRIVER_SYNC_LIMITS } from '../constants/driver-sync.constants';
+import { StopArrivalDto, StopAttemptDto, StopDepartureDto } from './driver-route.dto';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { UploadDeliveryProofDto } from '../../deliveries/dto/delivery-proof.dto';
+
+/**
+ * Status que o motorista pode aplicar diretamente numa entrega pela sincronização
+ * (atribuição e cancelamento são exclusivos do despacho)
+ */
+export const DRIVER_SETTABLE_DELIVERY_STATUSES = [
+  DeliveryStatus.PICKED_UP,
+  DeliveryStatus.IN_TRANSIT,
+  DeliveryStatus.OUT_FOR_DELIVERY,
+  DeliveryStatus.DELIVERED,
+  DeliveryStatus.FAILED,
+];
+
+/**
+ * Ação registrada offline no dispositivo
+ */
+export class SyncActionDto {
+  @ApiProperty({
+    description: 'ID da ação gerado no dispositivo (chave de idempotência)',
+    example: '0b9c7a52-8f1e-4d4b-9a51-3f0f3c2d9e10',
+  })
+  @IsUUID()
+  client_action_id!: string;
+
+  @ApiProperty({
+    description: 'Tipo da ação',
+    enum: SyncActionType,
+    example: SyncActionType.STOP_ARRIVAL,
+  })
+  @IsEnum(SyncActionType)
+  type!: SyncActionType;
+
+  @ApiProperty({
+    description: 'Data/hora da ação no dispositivo (ISO 8601)',
+    example: '2024-01-15T09:05:00-03:00',
+  })
+  @IsDateString()
+  device_timestamp!: string;
+
+  @ApiProperty({
+    description:
+      'Dados da ação conforme o tipo. PROOF: o arquivo vai no campo multipart com nome igual a client_action_id',
+    example: {
+      stop_id: '123e4567-e89b-12d3-a456-426614174000',
+      latitude: -23.5505,
+      longitude: -46.6333,
+    },
+  })
+  @IsObject()
+  payload!: Record<string, unknown>;
+}
+
+/**
+ * DTO do lote de sincronização offline
+ *
+ * Aceita JSON ou multipart/form-data; no multipart, `actions` vai como JSON
+ * serializado e cada comprovante num campo de arquivo com o client_action_id.
+ */
+export class DriverSyncRequestDto {
+  @ApiProperty({
+    description: 'Identificador do dispositivo',
+    example: 'android-6f1c2b',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 100)
+  device_id!: string;
+
+  @ApiPropertyOptional({
+    description: 'Cursor devolvido na última sincronização (ausente na primeira)',
+    example: '2024-01-15T12:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Fila de ações na ordem em que ocorreram no dispositivo',
+    type: [SyncActionDto],
+  })
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return plainToInstance(SyncActionDto, JSON.parse(value) as unknown[]);
+    } catch {
+      return value;
+    }
+  })
+  @IsArray()
+  @ArrayMaxSize(DRIVER_SYNC_LIMITS.MAX_ACTIONS_PER_BATCH)
+  @ValidateNested({ each: true })
+  @Type(() => SyncActionDto)
+  actions!: SyncActionDto[];
+}
+
+/**
+ * Payload GPS_PING
+ */
+export class SyncGpsPingPayloadDto {
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude!: number;
+
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude!: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  speed?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(360)
+  heading?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+}
+
+/**
+ * Payload STOP_ARRIVAL
+ */
+export class SyncStopArrivalPayloadDto extends StopArrivalDto {
+  @IsUUID()
+  stop_id!: string;
+}
+
+/**
+ * Payload DELIVERY_ATTEMPT
+ */
+export class SyncDeliveryAttemptPayloadDto extends StopAttemptDto {
+  @IsUUID()
+  stop_id!: string;
+
+  @IsUUID()
+  delivery_id!: string;
+}
+
+/**
+ * Payload STOP_DEPARTURE
+ */
+export class SyncStopDeparturePayloadDto extends StopDepartureDto {
+  @IsUUID()
+  stop_id!: string;
+}
+
+/**
+ * Payload STATUS_CHANGE
+ */
+export class SyncStatusChangePayloadDto {
+  @IsUUID()
+  delivery_id!: string;
+
+  @IsIn(DRIVER_SETTABLE_DELIVERY_STATUSES)
+  new_status!: DeliveryStatus;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  reason?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+}
+
+/**
+ * Payload PROOF (metadados; o arquivo vai no multipart)
+ */
+export class SyncProofPayloadDto extends OmitType(UploadDeliveryProofDto, [
+  'driver_id',
+  'capture_timestamp',
+] as const) {
+  @IsUUID()
+  delivery_id!: string;
+}
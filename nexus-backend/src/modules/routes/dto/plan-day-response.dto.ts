@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RouteResponseDto } from './route-response.dto';
+import { UnassignedDeliveryDto } from '../../deliveries/dto/route-optimization-response.dto';
+
+/**
+ * DTO de resposta do planejamento diário de rotas
+ */
+export class PlanDayResponseDto {
+  @ApiProperty({
+    description: 'Data planejada',
+    example: '2025-10-05',
+  })
+  date!: string;
+
+  @ApiProperty({
+    description: 'Algoritmo de roteirização utilizado',
+    example: 'savings-2opt-oropt',
+  })
+  algorithm_used!: string;
+
+  @ApiProperty({
+    description: 'Qualidade média das rotas geradas (0-100), ponderada pelas entregas atribuídas',
+    example: 58.7,
+  })
+  optimization_score!: number;
+
+  @ApiProperty({
+    description: 'Quantidade de entregas atribuídas a rotas',
+    example: 42,
+  })
+  assigned_count!: number;
+
+  @ApiProperty({
+    description: 'Rotas criadas com suas paradas',
+    type: [RouteResponseDto],
+  })
+  routes!: RouteResponseDto[];
+
+  @ApiProperty({
+    description: 'Entregas que não puderam ser planejadas',
+    type: [UnassignedDeliveryDto],
+  })
+  unassigned!: UnassignedDeliveryDto[];
+}
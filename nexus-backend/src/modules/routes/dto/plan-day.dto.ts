@@ -0,0 +1,134 @@
+import {
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { RouteType } from '../enums/route.type';
+import { DepotDto, OptimizationRestrictionsDto } from '../../deliveries/dto/optimize-routes.dto';
+
+/**
+ * Depósito de partida das rotas planejadas
+ */
+export class PlanDayDepotDto extends DepotDto {
+  @ApiProperty({
+    description: 'Endereço do depósito (origem e destino das rotas)',
+    example: 'Av. das Nações Unidas, 1000 - São Paulo/SP',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(3, 500)
+  address!: string;
+}
+
+/**
+ * DTO para planejar as rotas de um dia a partir de entregas pendentes
+ */
+export class PlanDayDto {
+  @ApiProperty({
+    description: 'Data planejada das rotas (YYYY-MM-DD)',
+    example: '2025-10-05',
+  })
+  @IsDateString()
+  date!: string;
+
+  @ApiProperty({
+    description: 'Depósito de partida dos veículos',
+    type: PlanDayDepotDto,
+  })
+  @ValidateNested()
+  @Type(() => PlanDayDepotDto)
+  depot!: PlanDayDepotDto;
+
+  @ApiPropertyOptional({
+    description:
+      'IDs das entregas PENDING a planejar (padrão: entregas pendentes agendadas para a data e sem rota)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsUUID('4', { each: true })
+  delivery_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'IDs dos veículos a utilizar (padrão: veículos ativos sem rota ativa)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  vehicle_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'IDs dos motoristas a utilizar (padrão: motoristas disponíveis sem rota ativa)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  driver_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Tipo das rotas geradas',
+    enum: RouteType,
+    default: RouteType.URBAN,
+  })
+  @IsOptional()
+  @IsEnum(RouteType)
+  type?: RouteType;
+
+  @ApiPropertyOptional({
+    description: 'Raio máximo de agrupamento das entregas por região (km)',
+    example: 5,
+    default: 5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(200)
+  cluster_radius_km?: number;
+
+  @ApiPropertyOptional({
+    description: 'Início do turno dos motoristas (HH:mm)',
+    example: '08:00',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'shift_start deve estar no formato HH:mm' })
+  shift_start?: string;
+
+  @ApiPropertyOptional({
+    description: 'Duração máxima do turno dos motoristas em minutos',
+    example: 480,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  @Max(24 * 60)
+  max_shift_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Restrições aplicadas às rotas geradas',
+    type: OptimizationRestrictionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OptimizationRestrictionsDto)
+  restrictions?: OptimizationRestrictionsDto;
+}
@@ -1,6 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Exclude, Expose, Transform, Type } from 'class-transformer';
 import { RouteStatus } from '../enums/route-status';
+import { RouteStopStatus } from '../enums/route-stop-status';
 import { RouteType } from '../enums/route.type';
 
 /**
@@ -148,6 +149,13 @@ export class RouteStopResponseDto {
   @Expose()
   id!: string;
 
+  @ApiProperty({
+    description: 'ID da rota',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  route_id!: string;
+
   @ApiProperty({
     description: 'ID do endereço do cliente',
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -165,11 +173,11 @@ export class RouteStopResponseDto {
 
   @ApiProperty({
     description: 'Status da parada',
-    example: 'PENDING',
-    enum: ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'SKIPPED', 'FAILED'],
+    example: RouteStopStatus.PENDING,
+    enum: RouteStopStatus,
   })
   @Expose()
-  status!: string;
+  status!: RouteStopStatus;
 
   @ApiProperty({
     description: 'Endereço completo da parada',
@@ -199,6 +207,26 @@ export class RouteStopResponseDto {
   @Expose()
   planned_departure_time?: string;
 
+  @ApiPropertyOptional({
+    description: 'Previsão de chegada recalculada (ETA)',
+    example: '2024-01-15T09:12:00Z',
+  })
+  @Expose()
+  @Transform(({ value }: { value: Date | string | undefined }) =>
+    value instanceof Date ? value.toISOString() : value,
+  )
+  estimated_arrival_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Previsão de saída recalculada',
+    example: '2024-01-15T09:27:00Z',
+  })
+  @Expose()
+  @Transform(({ value }: { value: Date | string | undefined }) =>
+    value instanceof Date ? value.toISOString() : value,
+  )
+  estimated_departure_at?: string;
+
   @ApiPropertyOptional({
     description: 'Horário real de chegada',
     example: '2024-01-15T09:05:00Z',
@@ -219,6 +247,20 @@ export class RouteStopResponseDto {
   )
   actual_departure_time?: string;
 
+  @ApiPropertyOptional({
+    description: 'Duração real da parada em minutos',
+    example: 12,
+  })
+  @Expose()
+  actual_stop_duration_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Motivo de falha da parada',
+    example: 'Destinatário ausente',
+  })
+  @Expose()
+  failure_reason?: string;
+
   @ApiPropertyOptional({
     description: 'Observações sobre a parada',
     example: 'Cliente preferencial - ligar antes',
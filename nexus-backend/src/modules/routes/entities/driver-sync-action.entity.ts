@@ -0,0 +1,84 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { SyncActionStatus, SyncActionType, SyncConflictReason } from '../enums/driver-sync';
+
+/**
+ * DriverSyncAction Entity - Ações offline recebidas do aplicativo do motorista
+ *
+ * Cada ação é identificada pelo ID gerado no dispositivo; o registro guarda o
+ * resultado do processamento para que reenvios do mesmo lote sejam idempotentes.
+ */
+@Entity('driver_sync_actions')
+@Index(['driver_id', 'client_action_id'], { unique: true })
+@Index(['driver_id', 'created_at'])
+export class DriverSyncAction extends BaseEntity {
+  // Relacionamento com Motorista
+  @ManyToOne(() => Driver, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'driver_id' })
+  driver!: Driver;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do motorista',
+  })
+  driver_id!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    comment: 'Identificador do dispositivo que enviou a ação',
+  })
+  device_id!: string;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID da ação gerado no dispositivo',
+  })
+  client_action_id!: string;
+
+  @Column({
+    type: 'enum',
+    enum: SyncActionType,
+    comment: 'Tipo da ação',
+  })
+  action_type!: SyncActionType;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da ação no dispositivo',
+  })
+  device_timestamp!: Date;
+
+  @Column({
+    type: 'enum',
+    enum: SyncActionStatus,
+    comment: 'Resultado do processamento',
+  })
+  status!: SyncActionStatus;
+
+  @Column({
+    type: 'enum',
+    enum: SyncConflictReason,
+    nullable: true,
+    comment: 'Motivo do conflito com o estado do servidor',
+  })
+  conflict_reason?: SyncConflictReason;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Mensagem de erro ou conflito',
+  })
+  error_message?: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Resumo do resultado ou estado do servidor em caso de conflito',
+  })
+  result?: Record<string, unknown>;
+}
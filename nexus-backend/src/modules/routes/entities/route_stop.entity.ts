@@ -4,6 +4,7 @@ import { Auditable } from '../../vehicles/decorators/auditable.decorator';
 import { Route } from './route.entity';
 import { CustomerAddress } from '../../customers/entities/customer-address.entity';
 import { PointTransformer } from '../../../common/transformers/point.transformer';
+import { RouteStopStatus, isValidStopStatusTransition } from '../enums/route-stop-status';
 
 /**
  * RouteStop Entity - Pontos de parada em uma rota
@@ -65,12 +66,12 @@ export class RouteStop extends BaseEntity {
 
   // Status da Parada
   @Column({
-    type: 'varchar',
-    length: 50,
-    default: 'PENDING',
-    comment: 'Status da parada: PENDING, IN_PROGRESS, COMPLETED, SKIPPED, FAILED',
+    type: 'enum',
+    enum: RouteStopStatus,
+    default: RouteStopStatus.PENDING,
+    comment: 'Status da parada',
   })
-  status!: string;
+  status!: RouteStopStatus;
 
   // Endereço (duplicado para histórico)
   @Column({
@@ -110,6 +111,21 @@ export class RouteStop extends BaseEntity {
   })
   estimated_stop_duration_minutes?: number;
 
+  // Previsões dinâmicas (ETA)
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Previsão de chegada recalculada durante a execução da rota',
+  })
+  estimated_arrival_at?: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Previsão de saída recalculada durante a execução da rota',
+  })
+  estimated_departure_at?: Date;
+
   // Horários Reais
   @Column({
     type: 'timestamp with time zone',
@@ -246,35 +262,42 @@ export class RouteStop extends BaseEntity {
    * Verifica se a parada foi completada
    */
   isCompleted(): boolean {
-    return this.status === 'COMPLETED';
+    return this.status === RouteStopStatus.COMPLETED;
   }
 
   /**
    * Verifica se a parada está pendente
    */
   isPending(): boolean {
-    return this.status === 'PENDING';
+    return this.status === RouteStopStatus.PENDING;
   }
 
   /**
    * Verifica se a parada está em progresso
    */
   isInProgress(): boolean {
-    return this.status === 'IN_PROGRESS';
+    return this.status === RouteStopStatus.IN_PROGRESS;
   }
 
   /**
    * Verifica se a parada foi pulada
    */
   isSkipped(): boolean {
-    return this.status === 'SKIPPED';
+    return this.status === RouteStopStatus.SKIPPED;
   }
 
   /**
    * Verifica se houve falha
    */
   hasFailed(): boolean {
-    return this.status === 'FAILED';
+    return this.status === RouteStopStatus.FAILED;
+  }
+
+  /**
+   * Verifica se a parada pode mudar para o status informado
+   */
+  canTransitionTo(newStatus: RouteStopStatus): boolean {
+    return isValidStopStatusTransition(this.status, newStatus);
   }
 
   /**
@@ -0,0 +1,46 @@
+/**
+ * Tipos de ação registradas offline pelo aplicativo do motorista
+ */
+export enum SyncActionType {
+  GPS_PING = 'GPS_PING',
+  STOP_ARRIVAL = 'STOP_ARRIVAL',
+  DELIVERY_ATTEMPT = 'DELIVERY_ATTEMPT',
+  STOP_DEPARTURE = 'STOP_DEPARTURE',
+  STATUS_CHANGE = 'STATUS_CHANGE',
+  PROOF = 'PROOF',
+}
+
+/**
+ * Descrições dos tipos de ação
+ */
+export const SyncActionTypeDescriptions: Record<SyncActionType, string> = {
+  [SyncActionType.GPS_PING]: 'Posição GPS',
+  [SyncActionType.STOP_ARRIVAL]: 'Chegada na parada',
+  [SyncActionType.DELIVERY_ATTEMPT]: 'Tentativa de entrega',
+  [SyncActionType.STOP_DEPARTURE]: 'Saída da parada',
+  [SyncActionType.STATUS_CHANGE]: 'Mudança de status da entrega',
+  [SyncActionType.PROOF]: 'Comprovante de entrega',
+};
+
+/**
+ * Resultado do processamento de uma ação sincronizada
+ */
+export enum SyncActionStatus {
+  /** Ação aplicada no servidor */
+  APPLIED = 'APPLIED',
+  /** Estado do servidor mudou enquanto o motorista estava offline */
+  CONFLICT = 'CONFLICT',
+  /** Ação inválida ou recusada pelas regras de negócio */
+  REJECTED = 'REJECTED',
+}
+
+/**
+ * Motivos de conflito entre a ação offline e o estado do servidor
+ */
+export enum SyncConflictReason {
+  DELIVERY_CANCELLED = 'DELIVERY_CANCELLED',
+  DELIVERY_REASSIGNED = 'DELIVERY_REASSIGNED',
+  ROUTE_CANCELLED = 'ROUTE_CANCELLED',
+  ROUTE_REASSIGNED = 'ROUTE_REASSIGNED',
+  SERVER_CHANGED = 'SERVER_CHANGED',
+}
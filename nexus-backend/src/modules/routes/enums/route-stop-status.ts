@@ -0,0 +1,56 @@
+/**
+ * Status da parada da rota
+ *
+ * Define os estados de uma parada durante a execução da rota pelo motorista
+ */
+export enum RouteStopStatus {
+  PENDING = 'PENDING',
+  IN_PROGRESS = 'IN_PROGRESS',
+  COMPLETED = 'COMPLETED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Descrições dos status
+ */
+export const RouteStopStatusDescriptions: Record<RouteStopStatus, string> = {
+  [RouteStopStatus.PENDING]: 'Pendente',
+  [RouteStopStatus.IN_PROGRESS]: 'Em Atendimento',
+  [RouteStopStatus.COMPLETED]: 'Concluída',
+  [RouteStopStatus.SKIPPED]: 'Pulada',
+  [RouteStopStatus.FAILED]: 'Com Falha',
+};
+
+/**
+ * Status que encerram a parada na rota
+ */
+export const FinalRouteStopStatuses = [
+  RouteStopStatus.COMPLETED,
+  RouteStopStatus.SKIPPED,
+  RouteStopStatus.FAILED,
+];
+
+/**
+ * Transições válidas de status
+ *
+ * Uma parada pulada ainda pode ser atendida mais tarde na mesma rota.
+ */
+export const RouteStopStatusTransitions: Record<RouteStopStatus, RouteStopStatus[]> = {
+  [RouteStopStatus.PENDING]: [RouteStopStatus.IN_PROGRESS, RouteStopStatus.SKIPPED],
+  [RouteStopStatus.IN_PROGRESS]: [RouteStopStatus.COMPLETED, RouteStopStatus.FAILED],
+  [RouteStopStatus.SKIPPED]: [RouteStopStatus.IN_PROGRESS],
+  [RouteStopStatus.COMPLETED]: [], // Status final
+  [RouteStopStatus.FAILED]: [], // Status final
+};
+
+/**
+ * Valida se uma transição de status da parada é permitida
+ */
+export function isValidStopStatusTransition(
+  currentStatus: RouteStopStatus,
+  newStatus: RouteStopStatus,
+): boolean {
+  const allowedTransitions = RouteStopStatusTransitions[currentStatus];
+  return allowedTransitions.includes(newStatus);
+}
@@ -0,0 +1,11 @@
+import type { DeliveryRequestContext } from '../../deliveries/interfaces/request-context.interface';
+
+/**
+ * Contexto de uma ação do motorista (aplicativo online ou sincronização offline)
+ */
+export interface DriverActionContext extends DeliveryRequestContext {
+  /** Momento em que a ação ocorreu no dispositivo (padrão: agora) */
+  occurredAt?: Date;
+  /** Origem registrada no histórico da rota (padrão: mobile) */
+  source?: 'mobile' | 'offline_sync';
+}
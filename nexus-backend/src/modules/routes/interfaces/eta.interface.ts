@@ -0,0 +1,62 @@
+import type { RouteType } from '../enums/route.type';
+import type { Coordinates } from './route-metrics.interface';
+
+/**
+ * Parada restante considerada no cálculo do ETA
+ */
+export interface EtaStopInput {
+  stopId: string;
+  coordinates: Coordinates;
+  /** Tempo de atendimento previsto (minutos) */
+  serviceMinutes: number;
+  /** Chegada já registrada (parada em atendimento) */
+  arrivedAt?: Date;
+}
+
+/**
+ * Dados de entrada do cálculo do ETA de uma rota
+ */
+export interface EtaInput {
+  /** Posição atual do veículo */
+  origin: Coordinates;
+  /** Momento de referência do cálculo */
+  now: Date;
+  routeType: RouteType;
+  /** Paradas restantes na ordem de atendimento */
+  stops: EtaStopInput[];
+}
+
+/**
+ * Previsão calculada para uma parada
+ */
+export interface EtaStopEstimate {
+  stopId: string;
+  arrivalAt: Date;
+  departureAt: Date;
+  /** Distância desde a posição/parada anterior (km) */
+  distanceKm: number;
+  /** Tempo de deslocamento desde a posição/parada anterior (minutos) */
+  travelMinutes: number;
+  serviceMinutes: number;
+}
+
+/**
+ * Motivo para avisar o cliente sobre a mudança do ETA
+ */
+export type EtaNotificationReason = 'WINDOW_MISSED' | 'ETA_CHANGED';
+
+/**
+ * Dados para decidir se a mudança do ETA deve ser comunicada ao cliente
+ */
+export interface EtaChangeInput {
+  /** Novo ETA calculado */
+  estimatedArrival: Date;
+  /** Último ETA comunicado ao cliente (ou a primeira previsão calculada) */
+  referenceArrival?: Date;
+  /** Fim da janela de atendimento da entrega */
+  windowEnd?: Date;
+  /** Atraso além da janela já comunicado */
+  windowMissNotified: boolean;
+  /** Variação mínima do ETA para avisar o cliente (minutos) */
+  thresholdMinutes: number;
+}
@@ -10,3 +10,5 @@ export * from './audit-context.interface';
 export * from './route-validation.interface';
 export * from './route-metrics.interface';
 export * from './route.interface';
+export * from './driver-action-context.interface';
+export * from './eta.interface';
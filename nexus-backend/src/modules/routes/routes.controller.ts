@@ -10,6 +10,7 @@ import {
   ParseUUIDPipe,
   HttpStatus,
   HttpCode,
+  UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
 import {
@@ -26,6 +27,9 @@ import {
   ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { RoutesService } from './routes.service';
+import { RoutePlanningService } from './services/route-planning.service';
+import { PlanDayDto } from './dto/plan-day.dto';
+import { PlanDayResponseDto } from './dto/plan-day-response.dto';
 import { CreateRouteDto } from './dto/create-route.dto';
 import { UpdateRouteDto } from './dto/update-route.dto';
 import { RouteFilterDto } from './dto/filter-route.dto';
@@ -34,6 +38,11 @@ import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
 import { CancelRouteDto } from './dto/cancel_route.dto';
 import { RouteStatusInterceptor } from './interceptors/route-status.interceptor';
 import { RouteValidationInterceptor } from './interceptors/route-validation.interceptor';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { CurrentDataScope } from '../auth/decorators/current-data-scope.decorator';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
 /**
  * Controller de rotas
@@ -47,11 +56,16 @@ import { RouteValidationInterceptor } from './interceptors/route-validation.inte
 @ApiTags('Routes')
 @Controller('routes')
 @ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @UseInterceptors(RouteStatusInterceptor, RouteValidationInterceptor)
 export class RoutesController {
-  constructor(private readonly routesService: RoutesService) {}
+  constructor(
+    private readonly routesService: RoutesService,
+    private readonly routePlanningService: RoutePlanningService,
+  ) {}
 
   @Post()
+  @RequirePermissions('routes:create')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Criar nova rota',
@@ -78,7 +92,36 @@ export class RoutesController {
     return this.routesService.create(createDto);
   }
 
+  @Post('plan-day')
+  @RequirePermissions('routes:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Planejar rotas do dia',
+    description:
+      'Agrupa entregas PENDING por região, roteiriza com os veículos e motoristas disponíveis, ' +
+      'cria as rotas com paradas ordenadas e horários previstos e vincula cada entrega à sua ' +
+      'rota e parada (status ASSIGNED)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Rotas planejadas com sucesso',
+    type: PlanDayResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Data no passado, entregas não pendentes ou nenhum motorista/veículo disponível',
+  })
+  @ApiNotFoundResponse({
+    description: 'Entrega, motorista ou veículo não encontrado',
+  })
+  @ApiConflictResponse({
+    description: 'Motorista ou veículo informado já possui rota ativa',
+  })
+  async planDay(@Body() planDayDto: PlanDayDto): Promise<PlanDayResponseDto> {
+    return this.routePlanningService.planDay(planDayDto);
+  }
+
   @Get()
+  @RequirePermissions('routes:read')
   @ApiOperation({
     summary: 'Listar rotas',
     description:
@@ -154,11 +197,13 @@ export class RoutesController {
   })
   async findAll(
     @Query() filterDto: RouteFilterDto,
+    @CurrentDataScope() scope: DataScope,
   ): Promise<PaginatedResponseDto<RouteResponseDto>> {
-    return this.routesService.findAll(filterDto);
+    return this.routesService.findAll(filterDto, scope);
   }
 
   @Get(':id')
+  @RequirePermissions('routes:read')
   @ApiOperation({
     summary: 'Buscar rota por ID',
     description:
@@ -181,11 +226,15 @@ export class RoutesController {
   @ApiUnauthorizedResponse({
     description: 'Token de autenticação inválido ou ausente',
   })
-  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<RouteResponseDto> {
-    return this.routesService.findOne(id);
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<RouteResponseDto> {
+    return this.routesService.findOne(id, scope);
   }
 
   @Patch(':id')
+  @RequirePermissions('routes:update')
   @ApiOperation({
     summary: 'Atualizar rota',
     description:
@@ -225,6 +274,7 @@ export class RoutesController {
   }
 
   @Delete(':id')
+  @RequirePermissions('routes:delete')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Remover rota',
@@ -259,6 +309,7 @@ export class RoutesController {
   // ========== OPERAÇÕES DE STATUS ==========
 
   @Post(':id/start')
+  @RequirePermissions('routes:update')
   @ApiOperation({
     summary: 'Iniciar rota',
     description: 'Inicia a execução de uma rota planejada. Registra horário de início real.',
@@ -291,6 +342,7 @@ export class RoutesController {
   }
 
   @Post(':id/pause')
+  @RequirePermissions('routes:update')
   @ApiOperation({
     summary: 'Pausar rota',
     description: 'Pausa uma rota em execução. A rota pode ser retomada posteriormente.',
@@ -323,6 +375,7 @@ export class RoutesController {
   }
 
   @Post(':id/resume')
+  @RequirePermissions('routes:update')
   @ApiOperation({
     summary: 'Retomar rota',
     description: 'Retoma execução de uma rota pausada.',
@@ -355,6 +408,7 @@ export class RoutesController {
   }
 
   @Post(':id/complete')
+  @RequirePermissions('routes:update')
   @ApiOperation({
     summary: 'Finalizar rota',
     description:
@@ -388,6 +442,7 @@ export class RoutesController {
   }
 
   @Post(':id/cancel')
+  @RequirePermissions('routes:update')
   @ApiOperation({
     summary: 'Cancelar rota',
     description:
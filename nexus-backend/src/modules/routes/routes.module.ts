@@ -3,9 +3,15 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 // Controllers
 import { RoutesController } from './routes.controller';
+import { DriverRouteController } from './driver-route.controller';
+import { DriverSyncController } from './driver-sync.controller';
 
 // Services
 import { RoutesService } from './routes.service';
+import { RoutePlanningService } from './services/route-planning.service';
+import { DriverRouteService } from './services/driver-route.service';
+import { DriverSyncService } from './services/driver-sync.service';
+import { RouteEtaService } from './services/route-eta.service';
 
 // Validators
 import { RouteValidatorService } from './validators/route.validator';
@@ -15,6 +21,7 @@ import { DistanceCalculatorService } from './validators/distance_calculator.vali
 import { Route } from './entities/route.entity';
 import { RouteStop } from './entities/route_stop.entity';
 import { RouteHistory } from './entities/route_history.entity';
+import { DriverSyncAction } from './entities/driver-sync-action.entity';
 
 // Interceptors
 import {
@@ -32,6 +39,10 @@ import { ClsAuditUtils } from './utils';
 // Módulos relacionados
 import { VehiclesModule } from '../vehicles/vehicles.module';
 import { DriversModule } from '../drivers/drivers.module';
+import { DeliveriesModule } from '../deliveries/deliveries.module';
+import { TrackingModule } from '../tracking/tracking.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { AuthModule } from '../auth/auth.module';
 
 /**
  * Módulo de Rotas
@@ -43,26 +54,43 @@ import { DriversModule } from '../drivers/drivers.module';
  * - Cálculo de métricas e otimização
  * - Validações de disponibilidade
  * - Histórico de alterações
+ * - Fluxo do motorista (rota do dia, chegada, tentativas e saída das paradas)
+ * - Sincronização offline do aplicativo do motorista
+ * - ETA dinâmico das paradas restantes e aviso ao cliente quando a previsão muda
  *
  * Dependências:
  * - VehiclesModule: Validação de veículos
  * - DriversModule: Validação de motoristas
+ * - DeliveriesModule: Roteirização e vínculo das entregas no planejamento diário;
+ *   status, tentativas e comprovantes das entregas no fluxo do motorista; aviso de ETA
+ * - TrackingModule: Posições GPS recebidas na sincronização offline e última
+ *   posição do veículo no cálculo do ETA
+ * - WebhooksModule: Envio das mudanças de ETA aos webhooks dos clientes
+ * - AuthModule: Permissões exigidas pelos endpoints de rotas
  */
 @Module({
   imports: [
     // Registrar entidades do módulo
-    TypeOrmModule.forFeature([Route, RouteStop, RouteHistory]),
+    TypeOrmModule.forFeature([Route, RouteStop, RouteHistory, DriverSyncAction]),
 
     // Importar módulos relacionados para validações
     VehiclesModule,
     DriversModule,
+    DeliveriesModule,
+    TrackingModule,
+    WebhooksModule,
+    AuthModule,
   ],
 
-  controllers: [RoutesController],
+  controllers: [RoutesController, DriverRouteController, DriverSyncController],
 
   providers: [
     // Service principal
     RoutesService,
+    RoutePlanningService,
+    DriverRouteService,
+    DriverSyncService,
+    RouteEtaService,
 
     // Validators
     RouteValidatorService,
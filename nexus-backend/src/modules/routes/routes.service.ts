@@ -1,6 +1,6 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, FindOptionsWhere, ILike, Between } from 'typeorm';
+import { Repository, FindOptionsWhere, ILike, Between, type EntityManager } from 'typeorm';
 import { plainToInstance } from 'class-transformer';
 import { Route } from './entities/route.entity';
 import { RouteStop } from './entities/route_stop.entity';
@@ -20,6 +20,13 @@ import {
   ROUTE_DATE_DEFAULTS,
   ROUTE_VALIDATION_DEFAULTS,
 } from './constants/route-defaults.constants';
+import { DataScopes } from '../auth/utils/data-scope.util';
+import type { DataScope, DataScopeFields } from '../auth/interfaces/data-scope.interface';
+
+/**
+ * Dono de uma rota: o motorista atribuído
+ */
+const ROUTE_SCOPE_FIELDS: DataScopeFields<Route> = { driver: 'driver_id' };
 
 interface ChangedField {
   field_name: string;
@@ -164,7 +171,13 @@ export class RoutesService {
     return this.findOne(savedRoute.id);
   }
 
-  async findAll(filterDto: RouteFilterDto): Promise<PaginatedResponseDto<RouteResponseDto>> {
+  /**
+   * @param scope - Escopo do solicitante; sem escopo, todas as rotas
+   */
+  async findAll(
+    filterDto: RouteFilterDto,
+    scope?: DataScope,
+  ): Promise<PaginatedResponseDto<RouteResponseDto>> {
     const {
       page = ROUTE_PAGINATION_DEFAULTS.DEFAULT_PAGE,
       limit = ROUTE_PAGINATION_DEFAULTS.DEFAULT_LIMIT,
@@ -206,7 +219,7 @@ export class RoutesService {
     }
 
     const [routes, total] = await this.routeRepository.findAndCount({
-      where,
+      where: scope ? DataScopes.where(where, scope, ROUTE_SCOPE_FIELDS) : where,
       relations: ['vehicle', 'driver', 'stops'],
       take: limit,
       skip: (page - 1) * limit,
@@ -228,9 +241,12 @@ export class RoutesService {
     };
   }
 
-  async findOne(id: string): Promise<RouteResponseDto> {
+  /**
+   * Rotas fora do escopo são tratadas como inexistentes (404)
+   */
+  async findOne(id: string, scope?: DataScope): Promise<RouteResponseDto> {
     const route = await this.routeRepository.findOne({
-      where: { id },
+      where: scope ? DataScopes.where({ id }, scope, ROUTE_SCOPE_FIELDS) : { id },
       relations: ['vehicle', 'driver', 'stops', 'stops.customer_address'],
     });
 
@@ -407,24 +423,36 @@ export class RoutesService {
   async pauseRoute(id: string): Promise<RouteResponseDto> {
     const route = await this.findRouteOrFail(id);
 
+    await this.pause(route, this.routeRepository.manager);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Pausa a rota com o EntityManager informado, permitindo compor a pausa em
+   * uma transação maior (ex.: registro de incidente)
+   */
+  async pause(route: Route, manager: EntityManager): Promise<void> {
     if (!route.canBePaused()) {
       throw new BadRequestException(`Rota não pode ser pausada no status ${route.status}`);
     }
 
     route.status = RouteStatus.PAUSED;
 
-    await this.routeRepository.save(route);
-
-    await this.createHistoryEntry(id, {
-      event_type: 'STATUS_CHANGED',
-      description: 'Rota pausada',
-      previous_status: RouteStatus.IN_PROGRESS,
-      new_status: RouteStatus.PAUSED,
-    });
+    await manager.save(route);
 
-    this.logger.log(`Rota pausada: ${id}`);
+    await this.createHistoryEntry(
+      route.id,
+      {
+        event_type: 'STATUS_CHANGED',
+        description: 'Rota pausada',
+        previous_status: RouteStatus.IN_PROGRESS,
+        new_status: RouteStatus.PAUSED,
+      },
+      manager,
+    );
 
-    return this.findOne(id);
+    this.logger.log(`Rota pausada: ${route.id}`);
   }
 
   async resumeRoute(id: string): Promise<RouteResponseDto> {
@@ -537,13 +565,14 @@ export class RoutesService {
       new_status?: RouteStatus;
       changed_fields?: ChangedField[];
     },
+    manager: EntityManager = this.routeHistoryRepository.manager,
   ): Promise<void> {
-    const history = this.routeHistoryRepository.create({
+    const history = manager.create(RouteHistory, {
       route_id: routeId,
       ...data,
     });
 
-    await this.routeHistoryRepository.save(history);
+    await manager.save(history);
   }
 
   private getChangedFields(original: Route, updated: UpdateRouteDto): ChangedField[] {
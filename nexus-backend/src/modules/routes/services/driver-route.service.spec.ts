@@ -0,0 +1,307 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, ForbiddenException, Logger } from '@nestjs/common';
+import { DriverRouteService } from './driver-route.service';
+import { RouteEtaService } from './route-eta.service';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteHistory } from '../entities/route_history.entity';
+import { RouteStatus } from '../enums/route-status';
+import { RouteStopStatus } from '../enums/route-stop-status';
+import { RoutesService } from '../routes.service';
+import type { DriverActionContext } from '../interfaces/driver-action-context.interface';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import type { DeliveryAttempt } from '../../deliveries/entities/delivery-attempt.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { FailureReason } from '../../deliveries/enums/failure-reason.enum';
+import { DeliveriesService } from '../../deliveries/deliveries.service';
+import { DeliveryConfirmationService } from '../../deliveries/services/delivery-confirmation.service';
+import { Driver } from '../../drivers/entities/driver.entity';
+import type { User } from '../../users/entities/user.entity';
+
+describe('DriverRouteService', () => {
+  let service: DriverRouteService;
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  const driver = {
+    id: '11111111-1111-4111-8111-111111111111',
+    full_name: 'João Silva',
+  } as Driver;
+  const user = { id: 'user-1', driver_id: driver.id } as User;
+
+  const stopPosition = { latitude: -25.4284, longitude: -49.2733 };
+  const context: DriverActionContext = {
+    userId: user.id,
+    occurredAt: new Date('2024-03-10T12:25:00.000Z'),
+  };
+
+  const buildStop = (routeStatus: RouteStatus, overrides: Partial<RouteStop> = {}): RouteStop =>
+    Object.assign(new RouteStop(), {
+      id: 'stop-1',
+      route_id: 'route-1',
+      sequence_order: 2,
+      status: RouteStopStatus.PENDING,
+      address: 'Rua XV de Novembro, 100 - Curitiba/PR',
+      coordinates: `POINT(${stopPosition.latitude} ${stopPosition.longitude})`,
+      route: Object.assign(new Route(), {
+        id: 'route-1',
+        route_code: 'RT-20240310-001',
+        driver_id: driver.id,
+        vehicle_id: '22222222-2222-4222-8222-222222222222',
+        status: routeStatus,
+      }),
+      ...overrides,
+    });
+
+  const buildDelivery = (status: DeliveryStatus, attempts: Partial<DeliveryAttempt>[] = []) =>
+    ({
+      id: 'delivery-1',
+      tracking_code: 'NXT-20240310-00001',
+      route_stop_id: 'stop-1',
+      status,
+      attempts,
+    }) as unknown as Delivery;
+
+  const mockRouteStopRepository = {
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(),
+    save: jest.fn(),
+    count: jest.fn(),
+  };
+
+  const mockRouteHistoryRepository = {
+    create: jest.fn((data: Partial<RouteHistory>) => data),
+    save: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockDriverRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockRoutesService = {
+    startRoute: jest.fn(),
+    completeRoute: jest.fn(),
+  };
+
+  const mockRouteEtaService = {
+    refreshRoute: jest.fn(),
+  };
+
+  const mockDeliveriesService = {
+    changeStatus: jest.fn(),
+    createAttempt: jest.fn(),
+  };
+
+  const givenStop = (stop: RouteStop): void => {
+    mockRouteStopRepository.findOne.mockResolvedValueOnce(stop).mockResolvedValueOnce(null);
+    mockRouteStopRepository.findOneOrFail.mockResolvedValue(stop);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    mockDriverRepository.findOne.mockResolvedValue(driver);
+    mockRouteStopRepository.findOne.mockReset();
+    mockRouteStopRepository.count.mockResolvedValue(0);
+    mockDeliveryRepository.find.mockResolvedValue([buildDelivery(DeliveryStatus.IN_TRANSIT)]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DriverRouteService,
+        { provide: getRepositoryToken(Route), useValue: { findOne: jest.fn() } },
+        { provide: getRepositoryToken(RouteStop), useValue: mockRouteStopRepository },
+        { provide: getRepositoryToken(RouteHistory), useValue: mockRouteHistoryRepository },
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: getRepositoryToken(Driver), useValue: mockDriverRepository },
+        { provide: RoutesService, useValue: mockRoutesService },
+        { provide: RouteEtaService, useValue: mockRouteEtaService },
+        { provide: DeliveriesService, useValue: mockDeliveriesService },
+        { provide: DeliveryConfirmationService, useValue: { isRequired: jest.fn(() => false) } },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn(() => ({ tracking: { arrivalRadiusMeters: 150 } })) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DriverRouteService>(DriverRouteService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  describe('arrive', () => {
+    it('should start a planned route, send the stop deliveries out and record the arrival', async () => {
+      givenStop(buildStop(RouteStatus.PLANNED));
+
+      await service.arrive(user, 'stop-1', stopPosition, context);
+
+      expect(mockRoutesService.startRoute).toHaveBeenCalledWith('route-1');
+      expect(mockDeliveriesService.changeStatus).toHaveBeenCalledTimes(1);
+      expect(mockDeliveriesService.changeStatus).toHaveBeenCalledWith(
+        'delivery-1',
+        expect.objectContaining({
+          new_status: DeliveryStatus.OUT_FOR_DELIVERY,
+          driver_id: driver.id,
+          event_timestamp: '2024-03-10T12:25:00.000Z',
+        }),
+      );
+      expect(mockRouteStopRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: RouteStopStatus.IN_PROGRESS,
+          actual_arrival_time: context.occurredAt,
+        }),
+      );
+      expect(mockRouteHistoryRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          route_id: 'route-1',
+          event_type: 'STOP_ARRIVED',
+          user_name: driver.full_name,
+          metadata: expect.objectContaining({
+            source: 'mobile',
+            additional_info: expect.objectContaining({ stop_id: 'stop-1', distance_meters: 0 }),
+          }),
+        }),
+      );
+      expect(mockRouteEtaService.refreshRoute).toHaveBeenCalledWith('route-1');
+    });
+
+    it('should keep the arrival already stamped by the address geofence', async () => {
+      const stampedAt = new Date('2024-03-10T12:20:00.000Z');
+      givenStop(buildStop(RouteStatus.IN_PROGRESS, { actual_arrival_time: stampedAt }));
+
+      await service.arrive(user, 'stop-1', stopPosition, context);
+
+      expect(mockRoutesService.startRoute).not.toHaveBeenCalled();
+      expect(mockRouteStopRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ actual_arrival_time: stampedAt }),
+      );
+    });
+
+    it('should reject an arrival outside the stop area', async () => {
+      givenStop(buildStop(RouteStatus.IN_PROGRESS));
+
+      await expect(
+        service.arrive(user, 'stop-1', { latitude: -25.44, longitude: -49.2733 }, context),
+      ).rejects.toThrow('Motorista fora da área da parada 2');
+
+      expect(mockDeliveriesService.changeStatus).not.toHaveBeenCalled();
+      expect(mockRouteStopRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an arrival on a paused route', async () => {
+      givenStop(buildStop(RouteStatus.PAUSED));
+
+      await expect(service.arrive(user, 'stop-1', stopPosition, context)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+
+      expect(mockRouteStopRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an arrival while another stop is still being served', async () => {
+      mockRouteStopRepository.findOne
+        .mockResolvedValueOnce(buildStop(RouteStatus.IN_PROGRESS))
+        .mockResolvedValueOnce({ id: 'stop-0', sequence_order: 1 });
+
+      await expect(service.arrive(user, 'stop-1', stopPosition, context)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+
+      expect(mockRouteStopRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('depart', () => {
+    const arrivedAt = new Date('2024-03-10T12:00:00.000Z');
+
+    it('should complete the stop with its duration and finish the route after the last stop', async () => {
+      givenStop(
+        buildStop(RouteStatus.IN_PROGRESS, {
+          status: RouteStopStatus.IN_PROGRESS,
+          actual_arrival_time: arrivedAt,
+        }),
+      );
+      mockDeliveryRepository.find.mockResolvedValue([buildDelivery(DeliveryStatus.DELIVERED)]);
+
+      await service.depart(user, 'stop-1', {}, context);
+
+      expect(mockRouteStopRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: RouteStopStatus.COMPLETED,
+          actual_departure_time: context.occurredAt,
+          actual_stop_duration_minutes: 25,
+          completed_at: context.occurredAt,
+        }),
+      );
+      expect(mockRouteHistoryRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event_type: 'STOP_COMPLETED',
+          description: 'Parada 2 concluída em 25 minuto(s)',
+        }),
+      );
+      expect(mockRoutesService.completeRoute).toHaveBeenCalledWith('route-1');
+      expect(mockRouteEtaService.refreshRoute).not.toHaveBeenCalled();
+    });
+
+    it('should fail the stop with the last failure reason and keep the route running', async () => {
+      givenStop(
+        buildStop(RouteStatus.IN_PROGRESS, {
+          status: RouteStopStatus.IN_PROGRESS,
+          actual_arrival_time: arrivedAt,
+        }),
+      );
+      mockDeliveryRepository.find.mockResolvedValue([
+        buildDelivery(DeliveryStatus.FAILED, [
+          { attempt_number: 1, status: 'FAILED', failure_reason: FailureReason.CUSTOMER_NOT_FOUND },
+        ]),
+      ]);
+      mockRouteStopRepository.count.mockResolvedValue(3);
+
+      await service.depart(user, 'stop-1', {}, context);
+
+      expect(mockRouteStopRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: RouteStopStatus.FAILED,
+          failure_reason: `NXT-20240310-00001: ${FailureReason.CUSTOMER_NOT_FOUND}`,
+        }),
+      );
+      expect(mockRoutesService.completeRoute).not.toHaveBeenCalled();
+      expect(mockRouteEtaService.refreshRoute).toHaveBeenCalledWith('route-1');
+    });
+
+    it('should reject the departure while a delivery has no attempt recorded', async () => {
+      givenStop(buildStop(RouteStatus.IN_PROGRESS, { status: RouteStopStatus.IN_PROGRESS }));
+      mockDeliveryRepository.find.mockResolvedValue([
+        buildDelivery(DeliveryStatus.OUT_FOR_DELIVERY),
+      ]);
+
+      await expect(service.depart(user, 'stop-1', {}, context)).rejects.toThrow(
+        'NXT-20240310-00001',
+      );
+
+      expect(mockRouteStopRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveDriver', () => {
+    it('should forbid users that are not linked to a driver', async () => {
+      await expect(
+        service.resolveDriver({ id: 'user-2', driver_id: null } as unknown as User),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockDriverRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,649 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, In, Not, Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteHistory } from '../entities/route_history.entity';
+import { RouteStatus } from '../enums/route-status';
+import { RouteStopStatus } from '../enums/route-stop-status';
+import { RouteResponseDto, RouteStopResponseDto } from '../dto/route-response.dto';
+import {
+  DriverStopDeliveryDto,
+  type DriverRouteResponseDto,
+  type DriverStopResponseDto,
+} from '../dto/driver-route-response.dto';
+import type {
+  DriverPositionDto,
+  StopArrivalDto,
+  StopAttemptDto,
+  StopDepartureDto,
+} from '../dto/driver-route.dto';
+import { RoutesService } from '../routes.service';
+import { RouteEtaService } from './route-eta.service';
+import { RouteUtils } from '../utils/route.util';
+import { DateTimeUtils } from '../utils/date-time.util';
+import type { DriverActionContext } from '../interfaces/driver-action-context.interface';
+import { getLatitude, getLongitude } from '../../../common/transformers/point.transformer';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { DeliveriesService } from '../../deliveries/deliveries.service';
+import { DeliveryConfirmationService } from '../../deliveries/services/delivery-confirmation.service';
+import type { DeliveryConfig } from '../../deliveries/config/delivery.config';
+import { Driver } from '../../drivers/entities/driver.entity';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Etapas percorridas pela entrega entre a atribuição à rota e a chegada na parada
+ */
+const DRIVER_DELIVERY_FLOW = [
+  DeliveryStatus.ASSIGNED,
+  DeliveryStatus.PICKED_UP,
+  DeliveryStatus.IN_TRANSIT,
+  DeliveryStatus.OUT_FOR_DELIVERY,
+];
+
+/**
+ * Status de parada que ainda exigem atendimento do motorista
+ */
+const OPEN_STOP_STATUSES = [RouteStopStatus.PENDING, RouteStopStatus.IN_PROGRESS];
+
+/**
+ * Serviço do fluxo do motorista no aplicativo
+ *
+ * Expõe a rota do dia do motorista autenticado e registra chegada, tentativas
+ * e saída em cada parada. Cada ação propaga o status das entregas da parada
+ * (via DeliveriesService, que valida transições e comprovantes) e registra o
+ * evento no histórico da rota.
+ *
+ * O vínculo entre usuário e motorista é feito pelo e-mail cadastrado.
+ */
+@Injectable()
+export class DriverRouteService {
+  private readonly logger = new Logger(DriverRouteService.name);
+  private readonly arrivalRadiusMeters: number;
+
+  constructor(
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+    @InjectRepository(RouteStop)
+    private readonly routeStopRepository: Repository<RouteStop>,
+    @InjectRepository(RouteHistory)
+    private readonly routeHistoryRepository: Repository<RouteHistory>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(Driver)
+    private readonly driverRepository: Repository<Driver>,
+    private readonly routesService: RoutesService,
+    private readonly routeEtaService: RouteEtaService,
+    private readonly deliveriesService: DeliveriesService,
+    private readonly deliveryConfirmationService: DeliveryConfirmationService,
+    configService: ConfigService,
+  ) {
+    this.arrivalRadiusMeters =
+      configService.getOrThrow<DeliveryConfig>('delivery').tracking.arrivalRadiusMeters;
+  }
+
+  /**
+   * Rota de hoje do motorista, com as paradas em ordem e suas entregas
+   */
+  async getTodayRoute(user: User): Promise<DriverRouteResponseDto> {
+    const driver = await this.resolveDriver(user);
+
+    const now = new Date();
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const dayEnd = DateTimeUtils.calculateEstimatedArrival(dayStart, 24 * 60 - 1);
+
+    const route = await this.routeRepository.findOne({
+      where: {
+        driver_id: driver.id,
+        planned_date: Between(dayStart, dayEnd),
+        status: Not(RouteStatus.CANCELLED),
+      },
+      relations: ['vehicle', 'driver'],
+      order: { planned_start_time: 'ASC' },
+    });
+
+    if (!route) {
+      throw new NotFoundException('Nenhuma rota atribuída ao motorista para hoje');
+    }
+
+    const stops = await this.routeStopRepository.find({
+      where: { route_id: route.id },
+      relations: ['customer_address'],
+      order: { sequence_order: 'ASC' },
+    });
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { route_id: route.id },
+      relations: ['attempts'],
+      order: { created_at: 'ASC' },
+    });
+
+    const nextStop =
+      stops.find(stop => stop.status === RouteStopStatus.IN_PROGRESS) ??
+      stops.find(stop => stop.status === RouteStopStatus.PENDING) ??
+      stops.find(stop => stop.status === RouteStopStatus.SKIPPED);
+
+    return {
+      route: plainToInstance(RouteResponseDto, route, { excludeExtraneousValues: true }),
+      stops: stops.map(stop =>
+        this.mapStop(
+          stop,
+          deliveries.filter(delivery => delivery.route_stop_id === stop.id),
+        ),
+      ),
+      ...(nextStop ? { next_stop_id: nextStop.id } : {}),
+      finished_stops: stops.filter(stop => !OPEN_STOP_STATUSES.includes(stop.status)).length,
+    };
+  }
+
+  /**
+   * Chegada (check-in) na parada
+   *
+   * Valida a posição contra as coordenadas da parada, inicia a rota quando
+   * ainda PLANNED e leva as entregas da parada até OUT_FOR_DELIVERY.
+   */
+  async arrive(
+    user: User,
+    stopId: string,
+    arrivalDto: StopArrivalDto,
+    context: DriverActionContext,
+  ): Promise<DriverStopResponseDto> {
+    const driver = await this.resolveDriver(user);
+    const stop = await this.findDriverStopOrFail(stopId, driver);
+    const route = stop.route;
+
+    if (route.status === RouteStatus.PAUSED) {
+      throw new BadRequestException('Rota pausada: retome a rota antes de registrar a chegada');
+    }
+
+    if (!route.canBeStarted() && route.status !== RouteStatus.IN_PROGRESS) {
+      throw new BadRequestException(`Rota não está em execução (status ${route.status})`);
+    }
+
+    if (!stop.canTransitionTo(RouteStopStatus.IN_PROGRESS)) {
+      throw new BadRequestException(
+        `Chegada não permitida: parada ${stop.sequence_order} está no status ${stop.status}`,
+      );
+    }
+
+    const openStop = await this.routeStopRepository.findOne({
+      where: { route_id: route.id, status: RouteStopStatus.IN_PROGRESS },
+    });
+
+    if (openStop) {
+      throw new ConflictException(
+        `Parada ${openStop.sequence_order} ainda está em atendimento: registre a saída antes`,
+      );
+    }
+
+    const distanceMeters = this.validateGeofence(stop, arrivalDto);
+    const arrivedAt = context.occurredAt ?? new Date();
+
+    if (route.canBeStarted()) {
+      await this.routesService.startRoute(route.id);
+      await this.dispatchRouteDeliveries(route, driver, arrivedAt);
+    }
+
+    const deliveries = await this.findStopDeliveries(stop.id);
+
+    for (const delivery of deliveries) {
+      await this.advanceDelivery(delivery, DeliveryStatus.OUT_FOR_DELIVERY, route, driver, {
+        reason: `Motorista chegou à parada ${stop.sequence_order}`,
+        occurredAt: arrivedAt,
+        position: arrivalDto,
+      });
+    }
+
+    const previousStatus = stop.status;
+    stop.status = RouteStopStatus.IN_PROGRESS;
+    // Chegada já carimbada pela geofence do endereço prevalece
+    stop.actual_arrival_time = stop.actual_arrival_time ?? arrivedAt;
+
+    await this.routeStopRepository.save(stop);
+
+    await this.createHistoryEntry(route.id, driver, context, {
+      event_type: 'STOP_ARRIVED',
+      description: `Chegada na parada ${stop.sequence_order} (${stop.address})`,
+      additional_info: {
+        stop_id: stop.id,
+        previous_stop_status: previousStatus,
+        distance_meters: distanceMeters,
+        latitude: arrivalDto.latitude,
+        longitude: arrivalDto.longitude,
+        accuracy: arrivalDto.accuracy,
+      },
+      ...(arrivalDto.notes ? { notes: arrivalDto.notes } : {}),
+    });
+
+    this.logger.log(`Chegada registrada na parada ${stop.id} da rota ${route.route_code}`);
+
+    await this.refreshEta(route.id);
+
+    return this.findStopResponse(stop);
+  }
+
+  /**
+   * Tentativa de entrega na parada em atendimento
+   *
+   * Entregas concluídas passam a DELIVERED (exigindo os comprovantes
+   * configurados) antes de a tentativa ser registrada; tentativas com falha
+   * movem a entrega para FAILED via createAttempt.
+   */
+  async recordAttempt(
+    user: User,
+    stopId: string,
+    deliveryId: string,
+    attemptDto: StopAttemptDto,
+    context: DriverActionContext,
+  ): Promise<DriverStopResponseDto> {
+    const driver = await this.resolveDriver(user);
+    const stop = await this.findDriverStopOrFail(stopId, driver);
+    const route = stop.route;
+
+    if (stop.status !== RouteStopStatus.IN_PROGRESS) {
+      throw new BadRequestException(
+        `Registre a chegada na parada ${stop.sequence_order} antes das tentativas de entrega`,
+      );
+    }
+
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId, route_stop_id: stop.id },
+      relations: ['attempts'],
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(
+        `Entrega com ID ${deliveryId} não encontrada na parada ${stop.sequence_order}`,
+      );
+    }
+
+    if (delivery.status !== DeliveryStatus.OUT_FOR_DELIVERY) {
+      throw new BadRequestException(
+        `Entrega ${delivery.tracking_code} não está saindo para entrega (status ${delivery.status})`,
+      );
+    }
+
+    const now = context.occurredAt ?? new Date();
+
+    if (attemptDto.result === 'COMPLETED') {
+      await this.deliveriesService.changeStatus(delivery.id, {
+        new_status: DeliveryStatus.DELIVERED,
+        reason: `Entregue na parada ${stop.sequence_order} da rota ${route.route_code}`,
+        driver_id: driver.id,
+        vehicle_id: route.vehicle_id,
+        event_timestamp: now.toISOString(),
+        location: this.toLocation(attemptDto),
+        status_data: {
+          delivery_data: {
+            ...(attemptDto.recipient_name ? { recipient_name: attemptDto.recipient_name } : {}),
+            ...(attemptDto.recipient_document
+              ? { recipient_document: attemptDto.recipient_document }
+              : {}),
+          },
+        },
+      });
+    }
+
+    const attempt = await this.deliveriesService.createAttempt(delivery.id, {
+      attempt_number: delivery.attempts.length + 1,
+      driver_id: driver.id,
+      vehicle_id: route.vehicle_id,
+      status: attemptDto.result,
+      started_at: (stop.actual_arrival_time ?? now).toISOString(),
+      completed_at: now.toISOString(),
+      location: { ...this.toLocation(attemptDto), timestamp: now.toISOString() },
+      ...(attemptDto.failure_reason ? { failure_reason: attemptDto.failure_reason } : {}),
+      ...(attemptDto.failure_description
+        ? { failure_description: attemptDto.failure_description }
+        : {}),
+      ...(attemptDto.notes ? { notes: { driver_notes: attemptDto.notes } } : {}),
+    });
+
+    await this.createHistoryEntry(route.id, driver, context, {
+      event_type: 'DELIVERY_ATTEMPTED',
+      description:
+        attemptDto.result === 'COMPLETED'
+          ? `Entrega ${delivery.tracking_code} concluída na parada ${stop.sequence_order}`
+          : `Tentativa ${attempt.attempt_number} da entrega ${delivery.tracking_code} falhou na parada ${stop.sequence_order}: ${attemptDto.failure_reason}`,
+      additional_info: {
+        stop_id: stop.id,
+        delivery_id: delivery.id,
+        attempt_id: attempt.id,
+        attempt_number: attempt.attempt_number,
+        result: attemptDto.result,
+        failure_reason: attemptDto.failure_reason,
+      },
+      ...(attemptDto.notes ? { notes: attemptDto.notes } : {}),
+    });
+
+    this.logger.log(
+      `Tentativa ${attempt.attempt_number} (${attemptDto.result}) registrada para a entrega ${delivery.tracking_code}`,
+    );
+
+    return this.findStopResponse(stop);
+  }
+
+  /**
+   * Saída (check-out) da parada
+   *
+   * Exige tentativa registrada para toda entrega ainda em andamento. A parada é
+   * COMPLETED quando todas as entregas foram concluídas e FAILED caso contrário;
+   * encerrada a última parada, a rota é finalizada.
+   */
+  async depart(
+    user: User,
+    stopId: string,
+    departureDto: StopDepartureDto,
+    context: DriverActionContext,
+  ): Promise<DriverStopResponseDto> {
+    const driver = await this.resolveDriver(user);
+    const stop = await this.findDriverStopOrFail(stopId, driver);
+    const route = stop.route;
+
+    if (stop.status !== RouteStopStatus.IN_PROGRESS) {
+      throw new BadRequestException(
+        `Saída não permitida: parada ${stop.sequence_order} está no status ${stop.status}`,
+      );
+    }
+
+    const deliveries = await this.findStopDeliveries(stop.id);
+    const pending = deliveries.filter(delivery => DRIVER_DELIVERY_FLOW.includes(delivery.status));
+
+    if (pending.length > 0) {
+      throw new BadRequestException(
+        `Registre a tentativa das entregas antes de sair da parada: ${pending.map(delivery => delivery.tracking_code).join(', ')}`,
+      );
+    }
+
+    const failed = deliveries.filter(
+      delivery =>
+        delivery.status !== DeliveryStatus.DELIVERED &&
+        delivery.status !== DeliveryStatus.CANCELLED,
+    );
+    const newStatus = failed.length === 0 ? RouteStopStatus.COMPLETED : RouteStopStatus.FAILED;
+
+    if (!stop.canTransitionTo(newStatus)) {
+      throw new BadRequestException(
+        `Transição inválida: não é possível mudar a parada de ${stop.status} para ${newStatus}`,
+      );
+    }
+
+    const now = context.occurredAt ?? new Date();
+    stop.status = newStatus;
+    // Saída já carimbada pela geofence (motorista deixou o endereço antes do registro) prevalece
+    stop.actual_departure_time = stop.actual_departure_time ?? now;
+
+    const duration = stop.getActualDuration();
+    if (duration !== null) {
+      stop.actual_stop_duration_minutes = duration;
+    }
+
+    if (newStatus === RouteStopStatus.COMPLETED) {
+      stop.completed_at = now;
+    } else {
+      stop.failure_reason = failed
+        .map(delivery => `${delivery.tracking_code}: ${this.getLastFailureReason(delivery)}`)
+        .join('; ');
+    }
+
+    await this.routeStopRepository.save(stop);
+
+    await this.createHistoryEntry(route.id, driver, context, {
+      event_type: newStatus === RouteStopStatus.COMPLETED ? 'STOP_COMPLETED' : 'STOP_FAILED',
+      description:
+        newStatus === RouteStopStatus.COMPLETED
+          ? `Parada ${stop.sequence_order} concluída em ${duration ?? 0} minuto(s)`
+          : `Parada ${stop.sequence_order} encerrada com falha: ${stop.failure_reason}`,
+      additional_info: {
+        stop_id: stop.id,
+        delivered: deliveries.length - failed.length,
+        failed: failed.length,
+        latitude: departureDto.latitude,
+        longitude: departureDto.longitude,
+      },
+      ...(departureDto.notes ? { notes: departureDto.notes } : {}),
+    });
+
+    this.logger.log(`Saída registrada na parada ${stop.id} (${newStatus})`);
+
+    const openStops = await this.routeStopRepository.count({
+      where: { route_id: route.id, status: In(OPEN_STOP_STATUSES) },
+    });
+
+    if (openStops === 0 && route.canBeCompleted()) {
+      await this.routesService.completeRoute(route.id);
+    } else {
+      await this.refreshEta(route.id);
+    }
+
+    return this.findStopResponse(stop);
+  }
+
+  /**
+   * Motorista ativo vinculado ao usuário autenticado (`users.driver_id`)
+   */
+  async resolveDriver(user: User): Promise<Driver> {
+    const driver = user.driver_id
+      ? await this.driverRepository.findOne({
+          where: { id: user.driver_id, is_active: true },
+        })
+      : null;
+
+    if (!driver) {
+      throw new ForbiddenException('Usuário não está vinculado a um motorista ativo');
+    }
+
+    return driver;
+  }
+
+  /**
+   * Recalcula o ETA das paradas restantes; falhas não interrompem a ação do motorista
+   */
+  private async refreshEta(routeId: string): Promise<void> {
+    try {
+      await this.routeEtaService.refreshRoute(routeId);
+    } catch (error) {
+      this.logger.warn(`Falha ao recalcular ETA da rota ${routeId}: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Parada de uma rota do motorista; paradas de outros motoristas são tratadas
+   * como inexistentes
+   */
+  private async findDriverStopOrFail(stopId: string, driver: Driver): Promise<RouteStop> {
+    const stop = await this.routeStopRepository.findOne({
+      where: { id: stopId },
+      relations: ['route'],
+    });
+
+    if (stop?.route.driver_id !== driver.id) {
+      throw new NotFoundException(`Parada com ID ${stopId} não encontrada`);
+    }
+
+    return stop;
+  }
+
+  /**
+   * Valida se a posição informada está dentro do raio de chegada da parada
+   *
+   * A precisão do GPS é somada ao raio configurado. Paradas sem coordenadas
+   * não são validadas.
+   *
+   * @returns Distância até a parada em metros (null quando não validada)
+   */
+  private validateGeofence(stop: RouteStop, position: DriverPositionDto): number | null {
+    const latitude = stop.coordinates ? getLatitude(stop.coordinates) : null;
+    const longitude = stop.coordinates ? getLongitude(stop.coordinates) : null;
+
+    if (latitude === null || longitude === null) {
+      this.logger.warn(`Parada ${stop.id} sem coordenadas: geofence não validado`);
+      return null;
+    }
+
+    const distanceMeters = Math.round(
+      RouteUtils.calculateDistance(
+        { latitude, longitude },
+        { latitude: position.latitude, longitude: position.longitude },
+      ) * 1000,
+    );
+    const allowedMeters = this.arrivalRadiusMeters + (position.accuracy ?? 0);
+
+    if (distanceMeters > allowedMeters) {
+      throw new BadRequestException(
+        `Motorista fora da área da parada ${stop.sequence_order}: ${distanceMeters} m (máximo ${allowedMeters} m)`,
+      );
+    }
+
+    return distanceMeters;
+  }
+
+  /**
+   * Coleta na partida da rota: entregas ainda ASSIGNED seguem para IN_TRANSIT
+   */
+  private async dispatchRouteDeliveries(
+    route: Route,
+    driver: Driver,
+    occurredAt: Date,
+  ): Promise<void> {
+    const deliveries = await this.deliveryRepository.find({
+      where: { route_id: route.id, status: DeliveryStatus.ASSIGNED },
+    });
+
+    for (const delivery of deliveries) {
+      await this.advanceDelivery(delivery, DeliveryStatus.IN_TRANSIT, route, driver, {
+        reason: `Rota ${route.route_code} iniciada`,
+        occurredAt,
+      });
+    }
+  }
+
+  /**
+   * Avança a entrega pelas etapas do fluxo até o status alvo
+   *
+   * Cada etapa passa por DeliveriesService.changeStatus (transição validada e
+   * histórico registrado). Entregas fora do fluxo (concluídas, com falha ou
+   * canceladas) não são alteradas.
+   */
+  private async advanceDelivery(
+    delivery: Delivery,
+    target: DeliveryStatus,
+    route: Route,
+    driver: Driver,
+    step: { reason: string; occurredAt: Date; position?: DriverPositionDto },
+  ): Promise<void> {
+    const currentIndex = DRIVER_DELIVERY_FLOW.indexOf(delivery.status);
+    const targetIndex = DRIVER_DELIVERY_FLOW.indexOf(target);
+
+    if (currentIndex < 0) {
+      return;
+    }
+
+    for (const status of DRIVER_DELIVERY_FLOW.slice(currentIndex + 1, targetIndex + 1)) {
+      await this.deliveriesService.changeStatus(delivery.id, {
+        new_status: status,
+        reason: step.reason,
+        driver_id: driver.id,
+        vehicle_id: route.vehicle_id,
+        event_timestamp: step.occurredAt.toISOString(),
+        ...(step.position ? { location: this.toLocation(step.position) } : {}),
+        status_data:
+          status === DeliveryStatus.PICKED_UP
+            ? { pickup_data: { pickup_location: route.origin_address } }
+            : { transit_data: { route_id: route.id } },
+      });
+    }
+  }
+
+  private async findStopDeliveries(stopId: string): Promise<Delivery[]> {
+    return this.deliveryRepository.find({
+      where: { route_stop_id: stopId },
+      relations: ['attempts'],
+      order: { created_at: 'ASC' },
+    });
+  }
+
+  private async findStopResponse(stop: RouteStop): Promise<DriverStopResponseDto> {
+    const refreshed = await this.routeStopRepository.findOneOrFail({
+      where: { id: stop.id },
+      relations: ['customer_address'],
+    });
+
+    return this.mapStop(refreshed, await this.findStopDeliveries(stop.id));
+  }
+
+  private mapStop(stop: RouteStop, deliveries: Delivery[]): DriverStopResponseDto {
+    return {
+      ...plainToInstance(RouteStopResponseDto, stop, { excludeExtraneousValues: true }),
+      deliveries: deliveries.map(delivery =>
+        DriverStopDeliveryDto.fromEntity(
+          delivery,
+          this.deliveryConfirmationService.isRequired(delivery),
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Motivo da última tentativa com falha da entrega
+   */
+  private getLastFailureReason(delivery: Delivery): string {
+    const lastFailed = [...delivery.attempts]
+      .filter(attempt => attempt.status === 'FAILED')
+      .sort((a, b) => b.attempt_number - a.attempt_number)[0];
+
+    return lastFailed?.failure_reason ?? delivery.status;
+  }
+
+  private toLocation(position: DriverPositionDto): {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+  } {
+    return {
+      latitude: position.latitude,
+      longitude: position.longitude,
+      ...(position.accuracy !== undefined ? { accuracy: position.accuracy } : {}),
+    };
+  }
+
+  private async createHistoryEntry(
+    routeId: string,
+    driver: Driver,
+    context: DriverActionContext,
+    data: {
+      event_type: string;
+      description: string;
+      additional_info: Record<string, unknown>;
+      notes?: string;
+    },
+  ): Promise<void> {
+    const history = this.routeHistoryRepository.create({
+      route_id: routeId,
+      event_type: data.event_type,
+      description: data.description,
+      user_name: driver.full_name,
+      user_type: 'driver',
+      metadata: {
+        source: context.source ?? 'mobile',
+        additional_info: data.additional_info,
+      },
+      ...(context.userId ? { user_id: context.userId } : {}),
+      ...(context.ipAddress ? { ip_address: context.ipAddress } : {}),
+      ...(context.userAgent ? { user_agent: context.userAgent } : {}),
+      ...(data.notes ? { notes: data.notes } : {}),
+    });
+
+    await this.routeHistoryRepository.save(history);
+  }
+}
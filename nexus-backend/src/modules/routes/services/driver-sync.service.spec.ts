@@ -0,0 +1,172 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { DriverSyncService } from './driver-sync.service';
+import { DriverRouteService } from './driver-route.service';
+import { DriverSyncAction } from '../entities/driver-sync-action.entity';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteStatus } from '../enums/route-status';
+import { SyncActionStatus, SyncActionType } from '../enums/driver-sync';
+import type { DriverSyncRequestDto } from '../dto/driver-sync.dto';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveriesService } from '../../deliveries/deliveries.service';
+import { DeliveryProofService } from '../../deliveries/services/delivery-proof.service';
+import { DeliveryConfirmationService } from '../../deliveries/services/delivery-confirmation.service';
+import { TrackingService } from '../../tracking/tracking.service';
+import type { Driver } from '../../drivers/entities/driver.entity';
+import type { User } from '../../users/entities/user.entity';
+
+describe('DriverSyncService', () => {
+  let service: DriverSyncService;
+
+  const driver = { id: '11111111-1111-4111-8111-111111111111' } as Driver;
+  const user = { id: 'user-1', driver_id: driver.id } as User;
+  const route = {
+    id: '33333333-3333-4333-8333-333333333333',
+    driver_id: driver.id,
+    vehicle_id: '22222222-2222-4222-8222-222222222222',
+    status: RouteStatus.IN_PROGRESS,
+  } as Route;
+
+  const gpsAction = {
+    client_action_id: '44444444-4444-4444-8444-444444444444',
+    type: SyncActionType.GPS_PING,
+    device_timestamp: '2024-03-10T12:00:00.000Z',
+    payload: { latitude: -25.4284, longitude: -49.2733, speed: 42 },
+  };
+
+  const syncDto = {
+    device_id: 'device-1',
+    actions: [gpsAction],
+  } as DriverSyncRequestDto;
+
+  const mockQueryRunner = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const mockDataSource = {
+    createQueryRunner: jest.fn(() => mockQueryRunner),
+  };
+
+  const mockSyncActionRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<DriverSyncAction>) => data),
+    save: jest.fn((data: Partial<DriverSyncAction>) =>
+      Promise.resolve({ id: 'sync-action-1', created_at: new Date(), ...data }),
+    ),
+  };
+
+  const mockRouteRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockDriverRouteService = {
+    resolveDriver: jest.fn(),
+  };
+
+  const mockTrackingService = {
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockDriverRouteService.resolveDriver.mockResolvedValue(driver);
+    mockQueryRunner.query.mockResolvedValue([{ locked: true }]);
+    mockRouteRepository.find.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DriverSyncService,
+        { provide: getRepositoryToken(DriverSyncAction), useValue: mockSyncActionRepository },
+        { provide: getRepositoryToken(Route), useValue: mockRouteRepository },
+        { provide: getRepositoryToken(RouteStop), useValue: {} },
+        { provide: getRepositoryToken(Delivery), useValue: {} },
+        { provide: DriverRouteService, useValue: mockDriverRouteService },
+        { provide: DeliveriesService, useValue: {} },
+        { provide: DeliveryProofService, useValue: {} },
+        { provide: DeliveryConfirmationService, useValue: {} },
+        { provide: TrackingService, useValue: mockTrackingService },
+        { provide: DataSource, useValue: mockDataSource },
+      ],
+    }).compile();
+
+    service = module.get<DriverSyncService>(DriverSyncService);
+  });
+
+  describe('sync', () => {
+    it('should apply and record a new action under the driver lock', async () => {
+      mockSyncActionRepository.findOne.mockResolvedValue(null);
+      mockRouteRepository.findOne.mockResolvedValue(route);
+      mockTrackingService.create.mockResolvedValue({ id: 'tracking-1' });
+
+      const response = await service.sync(user, syncDto, [], {});
+
+      expect(mockTrackingService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ route_id: route.id, vehicle_id: route.vehicle_id, speed: 42 }),
+        driver.id,
+      );
+      expect(mockSyncActionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          driver_id: driver.id,
+          client_action_id: gpsAction.client_action_id,
+          status: SyncActionStatus.APPLIED,
+        }),
+      );
+      expect(response.results).toEqual([
+        expect.objectContaining({ status: SyncActionStatus.APPLIED, duplicate: false }),
+      ]);
+      expect(mockQueryRunner.query).toHaveBeenLastCalledWith(
+        'SELECT pg_advisory_unlock(hashtext($1))',
+        [`driver-sync:${driver.id}`],
+      );
+      expect(mockQueryRunner.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the recorded result for an action already processed', async () => {
+      mockSyncActionRepository.findOne.mockResolvedValue({
+        client_action_id: gpsAction.client_action_id,
+        action_type: SyncActionType.GPS_PING,
+        status: SyncActionStatus.APPLIED,
+        result: { tracking_id: 'tracking-1' },
+        created_at: new Date(),
+      });
+
+      const response = await service.sync(user, syncDto, [], {});
+
+      expect(mockTrackingService.create).not.toHaveBeenCalled();
+      expect(mockSyncActionRepository.save).not.toHaveBeenCalled();
+      expect(response.results).toEqual([
+        expect.objectContaining({
+          status: SyncActionStatus.APPLIED,
+          duplicate: true,
+          result: { tracking_id: 'tracking-1' },
+        }),
+      ]);
+    });
+
+    it('should reject the batch with 409 when another batch keeps the lock', async () => {
+      mockQueryRunner.query.mockResolvedValue([{ locked: false }]);
+      const nowSpy = jest
+        .spyOn(Date, 'now')
+        .mockReturnValueOnce(0)
+        .mockReturnValue(Number.MAX_SAFE_INTEGER);
+
+      await expect(service.sync(user, syncDto, [], {})).rejects.toBeInstanceOf(ConflictException);
+
+      expect(mockSyncActionRepository.findOne).not.toHaveBeenCalled();
+      expect(mockQueryRunner.query).not.toHaveBeenCalledWith(
+        'SELECT pg_advisory_unlock(hashtext($1))',
+        expect.anything(),
+      );
+      expect(mockQueryRunner.release).toHaveBeenCalledTimes(1);
+
+      nowSpy.mockRestore();
+    });
+  });
+});
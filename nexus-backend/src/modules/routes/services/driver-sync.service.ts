@@ -0,0 +1,625 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, DataSource, In, MoreThan, Repository, type QueryRunner } from 'typeorm';
+import { plainToInstance, type ClassConstructor } from 'class-transformer';
+import { validate } from 'class-validator';
+import { DriverSyncAction } from '../entities/driver-sync-action.entity';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteStatus } from '../enums/route-status';
+import { SyncActionStatus, SyncActionType, SyncConflictReason } from '../enums/driver-sync';
+import { DRIVER_SYNC_LIMITS } from '../constants/driver-sync.constants';
+import {
+  SyncDeliveryAttemptPayloadDto,
+  SyncGpsPingPayloadDto,
+  SyncProofPayloadDto,
+  SyncStatusChangePayloadDto,
+  SyncStopArrivalPayloadDto,
+  SyncStopDeparturePayloadDto,
+  type DriverSyncRequestDto,
+  type SyncActionDto,
+} from '../dto/driver-sync.dto';
+import {
+  SyncActionResultDto,
+  type DriverSyncDeltaDto,
+  type DriverSyncResponseDto,
+} from '../dto/driver-sync-response.dto';
+import { RouteResponseDto, RouteStopResponseDto } from '../dto/route-response.dto';
+import { DriverStopDeliveryDto } from '../dto/driver-route-response.dto';
+import { DateTimeUtils } from '../utils/date-time.util';
+import { DriverRouteService } from './driver-route.service';
+import type { DriverActionContext } from '../interfaces/driver-action-context.interface';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { DeliveriesService } from '../../deliveries/deliveries.service';
+import { DeliveryProofService } from '../../deliveries/services/delivery-proof.service';
+import { DeliveryConfirmationService } from '../../deliveries/services/delivery-confirmation.service';
+import type { DeliveryRequestContext } from '../../deliveries/interfaces/request-context.interface';
+import { TrackingService } from '../../tracking/tracking.service';
+import type { Driver } from '../../drivers/entities/driver.entity';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Resultado do processamento de uma ação, antes de ser registrado
+ */
+interface SyncOutcome {
+  status: SyncActionStatus;
+  conflict_reason?: SyncConflictReason;
+  error_message?: string;
+  result?: Record<string, unknown>;
+  retryable?: boolean;
+}
+
+/**
+ * Entidades afetadas pela ação, usadas na detecção de conflitos
+ */
+interface SyncTarget {
+  stopId?: string;
+  deliveryId?: string;
+}
+
+/**
+ * Serviço de sincronização offline do aplicativo do motorista
+ *
+ * Recebe a fila de ações registradas sem conexão e aplica cada uma na ordem
+ * enviada, usando os horários do dispositivo. A idempotência é garantida pelo
+ * ID gerado no dispositivo: ações já processadas devolvem o resultado original.
+ *
+ * Antes de aplicar, a ação é comparada com o estado atual do servidor: entregas
+ * ou rotas canceladas/reatribuídas pelo despacho geram CONFLICT sem alterar
+ * nada. Ao final, devolve as alterações do servidor desde o cursor do dispositivo.
+ */
+@Injectable()
+export class DriverSyncService {
+  private readonly logger = new Logger(DriverSyncService.name);
+
+  constructor(
+    @InjectRepository(DriverSyncAction)
+    private readonly syncActionRepository: Repository<DriverSyncAction>,
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+    @InjectRepository(RouteStop)
+    private readonly routeStopRepository: Repository<RouteStop>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    private readonly driverRouteService: DriverRouteService,
+    private readonly deliveriesService: DeliveriesService,
+    private readonly deliveryProofService: DeliveryProofService,
+    private readonly deliveryConfirmationService: DeliveryConfirmationService,
+    private readonly trackingService: TrackingService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Processa o lote de ações offline e devolve o delta desde o cursor
+   *
+   * Lotes do mesmo motorista são serializados com advisory lock, evitando que
+   * reenvios simultâneos (retry do aplicativo) apliquem a mesma ação duas vezes.
+   * A espera pelo lock é limitada: um lote concorrente que não o obtém a tempo
+   * recebe 409 e é reenviado pelo aplicativo, sem reter conexões do pool.
+   */
+  async sync(
+    user: User,
+    syncDto: DriverSyncRequestDto,
+    files: Express.Multer.File[],
+    context: DeliveryRequestContext,
+  ): Promise<DriverSyncResponseDto> {
+    const driver = await this.driverRouteService.resolveDriver(user);
+    const lockKey = `driver-sync:${driver.id}`;
+    const queryRunner = await this.acquireSyncLock(lockKey);
+
+    try {
+      const syncStartedAt = new Date();
+      const results: SyncActionResultDto[] = [];
+
+      for (const action of syncDto.actions) {
+        results.push(
+          await this.processAction(user, driver, syncDto.device_id, action, files, {
+            ...context,
+            syncStartedAt,
+          }),
+        );
+      }
+
+      const deltaStartedAt = new Date();
+      const delta = await this.buildDelta(driver, syncDto.cursor ? new Date(syncDto.cursor) : null);
+
+      this.logger.log(
+        `Sincronização do motorista ${driver.id} (${syncDto.device_id}): ${results.length} ações, ` +
+          `${results.filter(result => result.status === SyncActionStatus.CONFLICT).length} conflitos`,
+      );
+
+      return {
+        cursor: new Date(
+          deltaStartedAt.getTime() - DRIVER_SYNC_LIMITS.CURSOR_OVERLAP_MS,
+        ).toISOString(),
+        results,
+        delta,
+      };
+    } finally {
+      await queryRunner.query('SELECT pg_advisory_unlock(hashtext($1))', [lockKey]);
+      await queryRunner.release();
+    }
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Obtém o advisory lock do motorista com pg_try_advisory_lock, tentando até
+   * LOCK_TIMEOUT_MS; o lock fica na conexão do QueryRunner devolvido
+   *
+   * @throws ConflictException se outro lote do motorista mantiver o lock
+   */
+  private async acquireSyncLock(lockKey: string): Promise<QueryRunner> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+
+    try {
+      const deadline = Date.now() + DRIVER_SYNC_LIMITS.LOCK_TIMEOUT_MS;
+
+      for (;;) {
+        const [row] = (await queryRunner.query(
+          'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+          [lockKey],
+        )) as { locked: boolean }[];
+
+        if (row?.locked) {
+          return queryRunner;
+        }
+
+        if (Date.now() >= deadline) {
+          throw new ConflictException(
+            'Outra sincronização do motorista está em andamento. Tente novamente em instantes',
+          );
+        }
+
+        await new Promise(resolve =>
+          setTimeout(resolve, DRIVER_SYNC_LIMITS.LOCK_RETRY_INTERVAL_MS),
+        );
+      }
+    } catch (error) {
+      await queryRunner.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Processa uma ação: devolve o resultado anterior se já registrada, senão
+   * aplica e registra o resultado (falhas temporárias não são registradas)
+   */
+  private async processAction(
+    user: User,
+    driver: Driver,
+    deviceId: string,
+    action: SyncActionDto,
+    files: Express.Multer.File[],
+    context: DeliveryRequestContext & { syncStartedAt: Date },
+  ): Promise<SyncActionResultDto> {
+    const existing = await this.syncActionRepository.findOne({
+      where: { driver_id: driver.id, client_action_id: action.client_action_id },
+    });
+
+    if (existing) {
+      return SyncActionResultDto.fromEntity(existing, true);
+    }
+
+    const outcome = await this.applyAction(user, driver, action, files, context);
+
+    if (outcome.retryable) {
+      return {
+        client_action_id: action.client_action_id,
+        type: action.type,
+        status: outcome.status,
+        duplicate: false,
+        retryable: true,
+        ...(outcome.error_message ? { error: outcome.error_message } : {}),
+        processed_at: new Date(),
+      };
+    }
+
+    const record = await this.syncActionRepository.save(
+      this.syncActionRepository.create({
+        driver_id: driver.id,
+        device_id: deviceId,
+        client_action_id: action.client_action_id,
+        action_type: action.type,
+        device_timestamp: new Date(action.device_timestamp),
+        status: outcome.status,
+        ...(outcome.conflict_reason ? { conflict_reason: outcome.conflict_reason } : {}),
+        ...(outcome.error_message ? { error_message: outcome.error_message } : {}),
+        ...(outcome.result ? { result: outcome.result } : {}),
+      }),
+    );
+
+    return SyncActionResultDto.fromEntity(record, false);
+  }
+
+  /**
+   * Valida o payload conforme o tipo, verifica conflitos e aplica a ação
+   */
+  private async applyAction(
+    user: User,
+    driver: Driver,
+    action: SyncActionDto,
+    files: Express.Multer.File[],
+    context: DeliveryRequestContext & { syncStartedAt: Date },
+  ): Promise<SyncOutcome> {
+    const occurredAt = new Date(action.device_timestamp);
+
+    if (occurredAt.getTime() > Date.now() + DRIVER_SYNC_LIMITS.MAX_CLOCK_SKEW_MS) {
+      return {
+        status: SyncActionStatus.REJECTED,
+        error_message: 'Horário da ação no dispositivo está no futuro',
+      };
+    }
+
+    const actionContext: DriverActionContext = {
+      ...(context.userId ? { userId: context.userId } : {}),
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+      ...(context.userAgent ? { userAgent: context.userAgent } : {}),
+      occurredAt,
+      source: 'offline_sync',
+    };
+    let target: SyncTarget = {};
+
+    try {
+      switch (action.type) {
+        case SyncActionType.GPS_PING: {
+          const payload = await this.parsePayload(SyncGpsPingPayloadDto, action.payload);
+          return await this.applyGpsPing(driver, payload, action.device_timestamp);
+        }
+
+        case SyncActionType.STOP_ARRIVAL: {
+          const payload = await this.parsePayload(SyncStopArrivalPayloadDto, action.payload);
+          target = { stopId: payload.stop_id };
+          const conflict = await this.detectConflict(target, driver);
+          if (conflict) {
+            return conflict;
+          }
+
+          const stop = await this.driverRouteService.arrive(
+            user,
+            payload.stop_id,
+            payload,
+            actionContext,
+          );
+          return this.applied({ stop_id: stop.id, stop_status: stop.status });
+        }
+
+        case SyncActionType.DELIVERY_ATTEMPT: {
+          const payload = await this.parsePayload(SyncDeliveryAttemptPayloadDto, action.payload);
+          target = { stopId: payload.stop_id, deliveryId: payload.delivery_id };
+          const conflict = await this.detectConflict(target, driver);
+          if (conflict) {
+            return conflict;
+          }
+
+          const stop = await this.driverRouteService.recordAttempt(
+            user,
+            payload.stop_id,
+            payload.delivery_id,
+            payload,
+            actionContext,
+          );
+          const delivery = stop.deliveries.find(item => item.id === payload.delivery_id);
+          return this.applied({
+            stop_id: stop.id,
+            delivery_id: payload.delivery_id,
+            ...(delivery ? { delivery_status: delivery.status } : {}),
+          });
+        }
+
+        case SyncActionType.STOP_DEPARTURE: {
+          const payload = await this.parsePayload(SyncStopDeparturePayloadDto, action.payload);
+          target = { stopId: payload.stop_id };
+          const conflict = await this.detectConflict(target, driver);
+          if (conflict) {
+            return conflict;
+          }
+
+          const stop = await this.driverRouteService.depart(
+            user,
+            payload.stop_id,
+            payload,
+            actionContext,
+          );
+          return this.applied({ stop_id: stop.id, stop_status: stop.status });
+        }
+
+        case SyncActionType.STATUS_CHANGE: {
+          const payload = await this.parsePayload(SyncStatusChangePayloadDto, action.payload);
+          target = { deliveryId: payload.delivery_id };
+          const conflict = await this.detectConflict(target, driver);
+          if (conflict) {
+            return conflict;
+          }
+
+          const delivery = await this.deliveriesService.changeStatus(payload.delivery_id, {
+            new_status: payload.new_status,
+            reason: payload.reason ?? 'Atualização sincronizada pelo aplicativo do motorista',
+            driver_id: driver.id,
+            event_timestamp: action.device_timestamp,
+            ...(payload.latitude !== undefined && payload.longitude !== undefined
+              ? {
+                  location: {
+                    latitude: payload.latitude,
+                    longitude: payload.longitude,
+                    ...(payload.accuracy !== undefined ? { accuracy: payload.accuracy } : {}),
+                  },
+                }
+              : {}),
+          });
+          return this.applied({ delivery_id: delivery.id, delivery_status: delivery.status });
+        }
+
+        case SyncActionType.PROOF: {
+          const payload = await this.parsePayload(SyncProofPayloadDto, action.payload);
+          target = { deliveryId: payload.delivery_id };
+          const conflict = await this.detectConflict(target, driver);
+          if (conflict) {
+            return conflict;
+          }
+
+          const file = files.find(item => item.fieldname === action.client_action_id);
+          const proof = await this.deliveryProofService.submit(
+            payload.delivery_id,
+            file,
+            { ...payload, capture_timestamp: action.device_timestamp },
+            driver.id,
+            actionContext,
+          );
+          return this.applied({ delivery_id: payload.delivery_id, proof_id: proof.id });
+        }
+      }
+    } catch (error) {
+      return this.handleFailure(error, target, occurredAt, context.syncStartedAt);
+    }
+  }
+
+  /**
+   * Registra a posição GPS na rota em execução do motorista
+   */
+  private async applyGpsPing(
+    driver: Driver,
+    payload: SyncGpsPingPayloadDto,
+    recordedAt: string,
+  ): Promise<SyncOutcome> {
+    const route = await this.routeRepository.findOne({
+      where: {
+        driver_id: driver.id,
+        status: In([RouteStatus.IN_PROGRESS, RouteStatus.PAUSED]),
+      },
+      order: { actual_start_time: 'DESC' },
+    });
+
+    if (!route) {
+      return {
+        status: SyncActionStatus.REJECTED,
+        error_message: 'Nenhuma rota em execução para registrar a posição',
+      };
+    }
+
+    const tracking = await this.trackingService.create(
+      {
+        vehicle_id: route.vehicle_id,
+        route_id: route.id,
+        latitude: payload.latitude,
+        longitude: payload.longitude,
+        ...(payload.speed !== undefined ? { speed: payload.speed } : {}),
+        ...(payload.heading !== undefined ? { heading: payload.heading } : {}),
+        ...(payload.accuracy !== undefined ? { accuracy: payload.accuracy } : {}),
+        recorded_at: recordedAt,
+      },
+      driver.id,
+    );
+
+    return this.applied({ tracking_id: tracking.id, route_id: route.id });
+  }
+
+  /**
+   * Conflitos com decisões do despacho tomadas enquanto o motorista estava offline
+   */
+  private async detectConflict(target: SyncTarget, driver: Driver): Promise<SyncOutcome | null> {
+    if (target.deliveryId) {
+      const delivery = await this.deliveryRepository.findOne({ where: { id: target.deliveryId } });
+
+      if (delivery?.status === DeliveryStatus.CANCELLED) {
+        return this.conflict(
+          SyncConflictReason.DELIVERY_CANCELLED,
+          `Entrega ${delivery.tracking_code} foi cancelada pelo despacho`,
+          { delivery_id: delivery.id, status: delivery.status, updated_at: delivery.updated_at },
+        );
+      }
+
+      if (delivery?.driver_id && delivery.driver_id !== driver.id) {
+        return this.conflict(
+          SyncConflictReason.DELIVERY_REASSIGNED,
+          `Entrega ${delivery.tracking_code} foi atribuída a outro motorista`,
+          { delivery_id: delivery.id, status: delivery.status, updated_at: delivery.updated_at },
+        );
+      }
+    }
+
+    if (target.stopId) {
+      const stop = await this.routeStopRepository.findOne({
+        where: { id: target.stopId },
+        relations: ['route'],
+      });
+
+      if (stop?.route.status === RouteStatus.CANCELLED) {
+        return this.conflict(
+          SyncConflictReason.ROUTE_CANCELLED,
+          `Rota ${stop.route.route_code} foi cancelada pelo despacho`,
+          { route_id: stop.route.id, status: stop.route.status, updated_at: stop.route.updated_at },
+        );
+      }
+
+      if (stop && stop.route.driver_id !== driver.id) {
+        return this.conflict(
+          SyncConflictReason.ROUTE_REASSIGNED,
+          `Rota ${stop.route.route_code} foi atribuída a outro motorista`,
+          { route_id: stop.route.id, status: stop.route.status, updated_at: stop.route.updated_at },
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Converte a falha da aplicação em resultado
+   *
+   * Erros de regra (4xx) em entidade alterada pelo servidor depois do horário da
+   * ação e antes desta sincronização viram CONFLICT; os demais, REJECTED. Erros
+   * internos são marcados para nova tentativa.
+   */
+  private async handleFailure(
+    error: unknown,
+    target: SyncTarget,
+    occurredAt: Date,
+    syncStartedAt: Date,
+  ): Promise<SyncOutcome> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (!(error instanceof HttpException) || error.getStatus() >= 500) {
+      this.logger.error(`Falha ao aplicar ação sincronizada: ${message}`);
+      return { status: SyncActionStatus.REJECTED, error_message: message, retryable: true };
+    }
+
+    const serverState = await this.findServerChange(target, occurredAt, syncStartedAt);
+
+    if (serverState) {
+      return this.conflict(SyncConflictReason.SERVER_CHANGED, message, serverState);
+    }
+
+    return { status: SyncActionStatus.REJECTED, error_message: message };
+  }
+
+  /**
+   * Estado da entrega/parada quando alterada no servidor entre a ação e a sincronização
+   */
+  private async findServerChange(
+    target: SyncTarget,
+    occurredAt: Date,
+    syncStartedAt: Date,
+  ): Promise<Record<string, unknown> | null> {
+    const changedBetween = (updatedAt: Date): boolean =>
+      updatedAt > occurredAt && updatedAt < syncStartedAt;
+
+    if (target.deliveryId) {
+      const delivery = await this.deliveryRepository.findOne({ where: { id: target.deliveryId } });
+
+      if (delivery && changedBetween(delivery.updated_at)) {
+        return {
+          delivery_id: delivery.id,
+          status: delivery.status,
+          updated_at: delivery.updated_at,
+        };
+      }
+    }
+
+    if (target.stopId) {
+      const stop = await this.routeStopRepository.findOne({ where: { id: target.stopId } });
+
+      if (stop && changedBetween(stop.updated_at)) {
+        return { stop_id: stop.id, status: stop.status, updated_at: stop.updated_at };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Alterações das rotas do dia do motorista (e de rotas ainda em execução)
+   * desde o cursor; sem cursor, devolve o estado completo
+   */
+  private async buildDelta(driver: Driver, since: Date | null): Promise<DriverSyncDeltaDto> {
+    const now = new Date();
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const dayEnd = DateTimeUtils.calculateEstimatedArrival(dayStart, 24 * 60 - 1);
+
+    const routes = await this.routeRepository.find({
+      where: [
+        { driver_id: driver.id, planned_date: Between(dayStart, dayEnd) },
+        { driver_id: driver.id, status: In([RouteStatus.IN_PROGRESS, RouteStatus.PAUSED]) },
+      ],
+      relations: ['vehicle', 'driver'],
+      order: { planned_start_time: 'ASC' },
+    });
+
+    if (routes.length === 0) {
+      return { routes: [], stops: [], deliveries: [] };
+    }
+
+    const routeIds = routes.map(route => route.id);
+    const changedSince = since ? { updated_at: MoreThan(since) } : {};
+
+    const stops = await this.routeStopRepository.find({
+      where: { route_id: In(routeIds), ...changedSince },
+      relations: ['customer_address'],
+      order: { route_id: 'ASC', sequence_order: 'ASC' },
+    });
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { route_id: In(routeIds), ...changedSince },
+      relations: ['attempts'],
+      order: { created_at: 'ASC' },
+    });
+
+    return {
+      routes: routes
+        .filter(route => !since || route.updated_at > since)
+        .map(route => plainToInstance(RouteResponseDto, route, { excludeExtraneousValues: true })),
+      stops: stops.map(stop =>
+        plainToInstance(RouteStopResponseDto, stop, { excludeExtraneousValues: true }),
+      ),
+      deliveries: deliveries.map(delivery =>
+        DriverStopDeliveryDto.fromEntity(
+          delivery,
+          this.deliveryConfirmationService.isRequired(delivery),
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Converte e valida o payload da ação com o DTO do tipo
+   */
+  private async parsePayload<T extends object>(
+    dtoClass: ClassConstructor<T>,
+    payload: Record<string, unknown>,
+  ): Promise<T> {
+    const instance = plainToInstance(dtoClass, payload);
+    const errors = await validate(instance, { whitelist: true, forbidNonWhitelisted: true });
+
+    if (errors.length > 0) {
+      const messages = errors.flatMap(error => Object.values(error.constraints ?? {}));
+      throw new BadRequestException(`Payload inválido: ${messages.join('; ')}`);
+    }
+
+    return instance;
+  }
+
+  private applied(result: Record<string, unknown>): SyncOutcome {
+    return { status: SyncActionStatus.APPLIED, result };
+  }
+
+  private conflict(
+    reason: SyncConflictReason,
+    message: string,
+    serverState: Record<string, unknown>,
+  ): SyncOutcome {
+    return {
+      status: SyncActionStatus.CONFLICT,
+      conflict_reason: reason,
+      error_message: message,
+      result: serverState,
+    };
+  }
+}
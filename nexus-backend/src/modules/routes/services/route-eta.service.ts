@@ -0,0 +1,332 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteStatus } from '../enums/route-status';
+import { RouteStopStatus } from '../enums/route-stop-status';
+import { ETA_CALCULATION } from '../constants/route-calculation.constants';
+import { EtaCalculator } from '../utils/eta-calculator.util';
+import { DateTimeUtils } from '../utils/date-time.util';
+import type { Coordinates } from '../interfaces/route-metrics.interface';
+import type { EtaNotificationReason, EtaStopEstimate } from '../interfaces/eta.interface';
+import { getLatitude, getLongitude } from '../../../common/transformers/point.transformer';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { ActiveDeliveryStatuses } from '../../deliveries/enums/delivery-status.enum';
+import { DeliveryNotificationService } from '../../deliveries/services/delivery-notification.service';
+import type { DeliveryConfig } from '../../deliveries/config/delivery.config';
+import { Tracking } from '../../tracking/entities/tracking.entity';
+import { WebhookEventsService } from '../../webhooks/services/webhook-events.service';
+
+/**
+ * Status de rota com ETA recalculado
+ */
+const ETA_ROUTE_STATUSES = [RouteStatus.IN_PROGRESS, RouteStatus.PAUSED];
+
+/**
+ * Status de parada ainda a atender
+ */
+const OPEN_STOP_STATUSES = [RouteStopStatus.PENDING, RouteStopStatus.IN_PROGRESS];
+
+/**
+ * Serviço de ETA dinâmico das rotas em execução
+ *
+ * Recalcula a previsão de chegada de cada parada restante a partir da última
+ * posição do veículo, da sequência de paradas, da duração histórica dos
+ * atendimentos em cada endereço e do fator de atraso do tipo de rota.
+ *
+ * A previsão é gravada na parada e nas entregas atendidas por ela. O cliente é
+ * avisado (notificação e webhooks) quando o ETA passa do fim da janela de entrega
+ * ou se desloca mais que o limiar configurado
+ * (delivery.notifications.delayThresholdMinutes) em relação ao último ETA comunicado.
+ */
+@Injectable()
+export class RouteEtaService {
+  private readonly logger = new Logger(RouteEtaService.name);
+  private readonly notifyOnDelay: boolean;
+  private readonly thresholdMinutes: number;
+
+  constructor(
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+    @InjectRepository(RouteStop)
+    private readonly routeStopRepository: Repository<RouteStop>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(Tracking)
+    private readonly trackingRepository: Repository<Tracking>,
+    private readonly deliveryNotificationService: DeliveryNotificationService,
+    private readonly webhookEventsService: WebhookEventsService,
+    configService: ConfigService,
+  ) {
+    const { notifications } = configService.getOrThrow<DeliveryConfig>('delivery');
+    this.notifyOnDelay = notifications.notifyOnDelay;
+    this.thresholdMinutes = notifications.delayThresholdMinutes;
+  }
+
+  /**
+   * Cron job: recalcula o ETA das rotas em execução a cada minuto
+   */
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'refresh-route-etas',
+  })
+  async handleEtaRefresh(): Promise<void> {
+    const routes = await this.routeRepository.find({
+      where: { status: RouteStatus.IN_PROGRESS },
+      select: ['id'],
+    });
+
+    for (const route of routes) {
+      try {
+        await this.refreshRoute(route.id);
+      } catch (error) {
+        this.logger.error(`Erro ao recalcular ETA da rota ${route.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Recalcula e grava o ETA das paradas restantes da rota
+   *
+   * @param routeId - ID da rota
+   * @returns Previsões calculadas (vazio se a rota não está em execução)
+   */
+  async refreshRoute(routeId: string): Promise<EtaStopEstimate[]> {
+    const route = await this.routeRepository.findOne({ where: { id: routeId } });
+
+    if (!route || !ETA_ROUTE_STATUSES.includes(route.status)) {
+      return [];
+    }
+
+    const stops = await this.routeStopRepository.find({
+      where: { route_id: route.id },
+      order: { sequence_order: 'ASC' },
+    });
+
+    const remaining = stops.flatMap(stop => {
+      const coordinates = this.toCoordinates(stop.coordinates);
+      return OPEN_STOP_STATUSES.includes(stop.status) && coordinates ? [{ stop, coordinates }] : [];
+    });
+
+    if (remaining.length === 0) {
+      return [];
+    }
+
+    const origin = await this.resolveOrigin(route, stops);
+
+    if (!origin) {
+      this.logger.warn(`Rota ${route.route_code} sem posição do veículo para cálculo do ETA`);
+      return [];
+    }
+
+    const history = await this.loadDurationHistory(
+      remaining.map(({ stop }) => stop.customer_address_id),
+    );
+    const now = new Date();
+
+    const estimates = EtaCalculator.calculate({
+      origin,
+      now,
+      routeType: route.type,
+      stops: remaining.map(({ stop, coordinates }) => ({
+        stopId: stop.id,
+        coordinates,
+        serviceMinutes: EtaCalculator.resolveServiceMinutes(
+          history.get(stop.customer_address_id) ?? [],
+          stop.estimated_stop_duration_minutes,
+          route.type,
+        ),
+        ...(stop.status === RouteStopStatus.IN_PROGRESS && stop.actual_arrival_time
+          ? { arrivedAt: stop.actual_arrival_time }
+          : {}),
+      })),
+    });
+
+    for (const estimate of estimates) {
+      await this.routeStopRepository.update(estimate.stopId, {
+        estimated_arrival_at: estimate.arrivalAt,
+        estimated_departure_at: estimate.departureAt,
+      });
+    }
+
+    await this.updateDeliveries(estimates, now);
+
+    return estimates;
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Posição atual do veículo: último ponto de rastreamento da rota, senão a
+   * última parada encerrada, senão a origem da rota
+   */
+  private async resolveOrigin(route: Route, stops: RouteStop[]): Promise<Coordinates | null> {
+    const lastPosition = await this.trackingRepository.findOne({
+      where: { route_id: route.id },
+      order: { recorded_at: 'DESC' },
+    });
+
+    if (lastPosition) {
+      return { latitude: Number(lastPosition.latitude), longitude: Number(lastPosition.longitude) };
+    }
+
+    const lastDeparted = stops
+      .filter(stop => stop.actual_departure_time)
+      .sort(
+        (a, b) =>
+          new Date(b.actual_departure_time ?? 0).getTime() -
+          new Date(a.actual_departure_time ?? 0).getTime(),
+      )[0];
+
+    return (
+      this.toCoordinates(lastDeparted?.coordinates) ?? this.toCoordinates(route.origin_coordinates)
+    );
+  }
+
+  /**
+   * Durações reais dos últimos atendimentos concluídos em cada endereço
+   */
+  private async loadDurationHistory(addressIds: string[]): Promise<Map<string, number[]>> {
+    const history = new Map<string, number[]>();
+
+    for (const addressId of new Set(addressIds)) {
+      const previous = await this.routeStopRepository.find({
+        where: {
+          customer_address_id: addressId,
+          status: RouteStopStatus.COMPLETED,
+          actual_stop_duration_minutes: Not(IsNull()),
+        },
+        select: ['id', 'actual_stop_duration_minutes'],
+        order: { actual_departure_time: 'DESC' },
+        take: ETA_CALCULATION.HISTORY_SAMPLE_SIZE,
+      });
+
+      history.set(
+        addressId,
+        previous.map(stop => Number(stop.actual_stop_duration_minutes)),
+      );
+    }
+
+    return history;
+  }
+
+  /**
+   * Grava o ETA nas entregas ativas das paradas e avisa o cliente quando necessário
+   *
+   * O último ETA comunicado (ou a primeira previsão) fica em metadata.eta_reference;
+   * o aviso de atraso além da janela é enviado uma única vez (metadata.eta_window_missed).
+   */
+  private async updateDeliveries(estimates: EtaStopEstimate[], now: Date): Promise<void> {
+    const deliveries = await this.deliveryRepository.find({
+      where: {
+        route_stop_id: In(estimates.map(estimate => estimate.stopId)),
+        status: In(ActiveDeliveryStatuses),
+      },
+    });
+
+    for (const delivery of deliveries) {
+      const estimate = estimates.find(item => item.stopId === delivery.route_stop_id);
+
+      if (!estimate) {
+        continue;
+      }
+
+      const estimatedArrival = estimate.arrivalAt;
+      const metadata = delivery.metadata ?? {};
+      const referenceArrival =
+        typeof metadata.eta_reference === 'string' ? new Date(metadata.eta_reference) : undefined;
+      const windowEnd = this.resolveWindowEnd(delivery, estimatedArrival);
+
+      const reason = EtaCalculator.evaluateChange({
+        estimatedArrival,
+        ...(referenceArrival ? { referenceArrival } : {}),
+        ...(windowEnd ? { windowEnd } : {}),
+        windowMissNotified: metadata.eta_window_missed === true,
+        thresholdMinutes: this.thresholdMinutes,
+      });
+
+      await this.deliveryRepository.update(delivery.id, {
+        estimated_arrival_at: estimatedArrival,
+        eta_updated_at: now,
+        metadata: {
+          ...metadata,
+          ...(reason || !referenceArrival ? { eta_reference: estimatedArrival.toISOString() } : {}),
+          ...(reason === 'WINDOW_MISSED' ? { eta_window_missed: true } : {}),
+        },
+      });
+
+      if (!reason) {
+        continue;
+      }
+
+      if (this.notifyOnDelay) {
+        await this.deliveryNotificationService.notifyEtaUpdate(
+          delivery.id,
+          estimatedArrival,
+          this.getNotificationMessage(reason, estimatedArrival, referenceArrival),
+        );
+      }
+
+      await this.publishEtaWebhook(delivery.id, estimatedArrival, referenceArrival);
+    }
+  }
+
+  /**
+   * Envia a nova previsão aos webhooks do cliente; falhas não interrompem o recálculo
+   */
+  private async publishEtaWebhook(
+    deliveryId: string,
+    estimatedArrival: Date,
+    referenceArrival: Date | undefined,
+  ): Promise<void> {
+    try {
+      await this.webhookEventsService.publishEtaChange(
+        deliveryId,
+        estimatedArrival,
+        referenceArrival,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Falha ao enfileirar webhook de ETA da entrega ${deliveryId}: ${String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Fim da última janela de atendimento da entrega (settings.time_windows) no dia do ETA
+   */
+  private resolveWindowEnd(delivery: Delivery, estimatedArrival: Date): Date | undefined {
+    const ends = (delivery.settings?.time_windows ?? [])
+      .filter(window => DateTimeUtils.isValidTimeFormat(window.end))
+      .map(window => DateTimeUtils.combineDateAndTime(estimatedArrival, window.end));
+
+    return ends.sort((a, b) => b.getTime() - a.getTime())[0];
+  }
+
+  private getNotificationMessage(
+    reason: EtaNotificationReason,
+    estimatedArrival: Date,
+    referenceArrival: Date | undefined,
+  ): string {
+    if (reason === 'WINDOW_MISSED') {
+      return 'O motorista deve chegar depois da janela de entrega combinada.';
+    }
+
+    return referenceArrival && estimatedArrival < referenceArrival
+      ? 'O motorista está adiantado e deve chegar antes do previsto.'
+      : 'O motorista está atrasado em relação à previsão anterior.';
+  }
+
+  private toCoordinates(point: string | undefined): Coordinates | null {
+    if (!point) {
+      return null;
+    }
+
+    const latitude = getLatitude(point);
+    const longitude = getLongitude(point);
+
+    return latitude !== null && longitude !== null ? { latitude, longitude } : null;
+  }
+}
@@ -0,0 +1,300 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { RoutePlanningService } from './route-planning.service';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteStatus } from '../enums/route-status';
+import { RouteValidatorService } from '../validators/route.validator';
+import { RoutesService } from '../routes.service';
+import type { PlanDayDto } from '../dto/plan-day.dto';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveryStatusHistory } from '../../deliveries/entities/delivery-status-history.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { RouteOptimizationService } from '../../deliveries/services/route-optimization.service';
+import type { VrpSolution } from '../../deliveries/interfaces/route-solver.interface';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+
+describe('RoutePlanningService', () => {
+  let service: RoutePlanningService;
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  const buildDelivery = (id: string, trackingCode: string): Delivery =>
+    ({
+      id,
+      tracking_code: trackingCode,
+      customer_id: 'customer-1',
+      status: DeliveryStatus.PENDING,
+      delivery_address: {
+        street: 'Rua XV de Novembro',
+        number: '100',
+        neighborhood: 'Centro',
+        city: 'Curitiba',
+        state: 'PR',
+        postal_code: '80020-310',
+        latitude: -25.4284,
+        longitude: -49.2733,
+      },
+    }) as Delivery;
+
+  const firstDelivery = buildDelivery('delivery-1', 'NXT-20240115-00001');
+  const secondDelivery = buildDelivery('delivery-2', 'NXT-20240115-00002');
+
+  const vehicle = {
+    id: 'vehicle-1',
+    license_plate: 'ABC1D23',
+    load_capacity: 1000,
+  } as unknown as Vehicle;
+  const driver = { id: 'driver-1', full_name: 'João Silva' } as Driver;
+
+  const dto: PlanDayDto = {
+    date: '2024-01-15',
+    depot: { latitude: -25.45, longitude: -49.25, address: 'Av. das Torres, 1000 - Curitiba/PR' },
+  };
+
+  const buildSolution = (stopIds: string[], unassigned: string[] = []): VrpSolution => ({
+    algorithm: 'savings',
+    score: 75,
+    routes: [
+      {
+        vehicleId: vehicle.id,
+        stops: stopIds.map((id, index) => ({
+          id,
+          sequence: index + 1,
+          arrivalMinutes: 500 + index * 30,
+          serviceStartMinutes: 500 + index * 30,
+          departureMinutes: 510 + index * 30,
+          distanceFromPreviousKm: 3,
+        })),
+        totalDistanceKm: 12.5,
+        totalDurationMinutes: 90,
+        loadKg: 20,
+        volumeM3: 0.2,
+        score: 75,
+      },
+    ],
+    unassigned: unassigned.map(id => ({ id, reason: 'Capacidade de carga excedida' })),
+  });
+
+  let savedSequence = 0;
+
+  const mockManager = {
+    create: jest.fn((_entity: unknown, data: Record<string, unknown>) => ({ ...data })),
+    save: jest.fn((data: Record<string, unknown>) =>
+      Promise.resolve({ id: `saved-${++savedSequence}`, ...data }),
+    ),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockQueryRunner = {
+    manager: mockManager,
+    connect: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const mockRouteRepository = {
+    find: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    find: jest.fn(),
+  };
+
+  const mockDriverRepository = {
+    find: jest.fn(),
+  };
+
+  const mockVehicleRepository = {
+    find: jest.fn(),
+  };
+
+  const mockValidatorService = {
+    validateRouteDates: jest.fn(),
+  };
+
+  const mockRouteOptimizationService = {
+    algorithm: 'savings',
+    clusterDeliveries: jest.fn(),
+    planFleetRoutes: jest.fn(),
+  };
+
+  const mockRoutesService = {
+    findOne: jest.fn((id: string) => Promise.resolve({ id })),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    savedSequence = 0;
+    logSpy = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    errorSpy = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    mockRouteRepository.find.mockResolvedValue([]);
+    mockDeliveryRepository.find.mockResolvedValue([firstDelivery, secondDelivery]);
+    mockDriverRepository.find.mockResolvedValue([driver]);
+    mockVehicleRepository.find.mockResolvedValue([vehicle]);
+    mockRouteOptimizationService.clusterDeliveries.mockReturnValue([
+      {
+        name: 'Centro',
+        deliveryIds: [firstDelivery.id, secondDelivery.id],
+        count: 2,
+        centroid: { latitude: -25.4284, longitude: -49.2733 },
+      },
+    ]);
+    mockRouteOptimizationService.planFleetRoutes.mockReturnValue(
+      buildSolution([firstDelivery.id, secondDelivery.id]),
+    );
+    mockManager.find.mockResolvedValue([{ id: 'route-0', route_code: 'RT-20240115-002' }]);
+    mockManager.findOne.mockResolvedValue({ id: 'address-1' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoutePlanningService,
+        { provide: getRepositoryToken(Route), useValue: mockRouteRepository },
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: getRepositoryToken(Driver), useValue: mockDriverRepository },
+        { provide: getRepositoryToken(Vehicle), useValue: mockVehicleRepository },
+        { provide: RouteValidatorService, useValue: mockValidatorService },
+        { provide: RouteOptimizationService, useValue: mockRouteOptimizationService },
+        { provide: RoutesService, useValue: mockRoutesService },
+        { provide: DataSource, useValue: { createQueryRunner: jest.fn(() => mockQueryRunner) } },
+        {
+          provide: ConfigService,
+          useValue: {
+            getOrThrow: jest.fn(() => ({ routeOptimization: { shiftStart: '08:00' } })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RoutePlanningService>(RoutePlanningService);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  describe('planDay', () => {
+    it('should persist the route and its stops and assign the deliveries in one transaction', async () => {
+      const response = await service.planDay(dto);
+
+      expect(mockManager.create).toHaveBeenCalledWith(
+        Route,
+        expect.objectContaining({
+          route_code: 'RT-20240115-003',
+          vehicle_id: vehicle.id,
+          driver_id: driver.id,
+          status: RouteStatus.PLANNED,
+          planned_start_time: '08:00',
+          estimated_distance_km: 12.5,
+          max_vehicle_capacity_kg: 1000,
+          optimization_data: { algorithm_used: 'savings', optimization_score: 75 },
+        }),
+      );
+      expect(mockManager.create).toHaveBeenCalledWith(
+        RouteStop,
+        expect.objectContaining({
+          customer_address_id: 'address-1',
+          sequence_order: 1,
+          estimated_time_from_previous_minutes: 20,
+          delivery_data: expect.objectContaining({ order_numbers: [firstDelivery.tracking_code] }),
+        }),
+      );
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Delivery,
+        firstDelivery.id,
+        expect.objectContaining({
+          status: DeliveryStatus.ASSIGNED,
+          driver_id: driver.id,
+          vehicle_id: vehicle.id,
+        }),
+      );
+      expect(mockManager.create).toHaveBeenCalledWith(
+        DeliveryStatusHistory,
+        expect.objectContaining({
+          delivery_id: secondDelivery.id,
+          from_status: DeliveryStatus.PENDING,
+          to_status: DeliveryStatus.ASSIGNED,
+        }),
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+      expect(response).toEqual(
+        expect.objectContaining({
+          date: '2024-01-15',
+          algorithm_used: 'savings',
+          assigned_count: 2,
+          optimization_score: 75,
+          unassigned: [],
+        }),
+      );
+      expect(response.routes).toHaveLength(1);
+    });
+
+    it('should leave deliveries the solver could not fit pending and report why', async () => {
+      mockRouteOptimizationService.planFleetRoutes.mockReturnValue(
+        buildSolution([firstDelivery.id], [secondDelivery.id]),
+      );
+
+      const response = await service.planDay(dto);
+
+      expect(response.assigned_count).toBe(1);
+      expect(response.unassigned).toEqual([
+        { delivery_id: secondDelivery.id, reason: 'Capacidade de carga excedida' },
+      ]);
+      expect(mockManager.update).not.toHaveBeenCalledWith(
+        Delivery,
+        secondDelivery.id,
+        expect.anything(),
+      );
+    });
+
+    it('should skip drivers and vehicles already committed to an active route', async () => {
+      mockRouteRepository.find.mockResolvedValue([
+        { id: 'route-9', driver_id: driver.id, vehicle_id: vehicle.id },
+      ]);
+
+      await expect(service.planDay(dto)).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(mockRouteOptimizationService.planFleetRoutes).not.toHaveBeenCalled();
+    });
+
+    it('should roll back every route when persisting the plan fails', async () => {
+      mockManager.update.mockRejectedValueOnce(new Error('deadlock detected'));
+
+      await expect(service.planDay(dto)).rejects.toThrow('deadlock detected');
+
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.commitTransaction).not.toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+
+    it('should reject informed deliveries that are not pending', async () => {
+      mockDeliveryRepository.find.mockResolvedValue([
+        firstDelivery,
+        { ...secondDelivery, status: DeliveryStatus.ASSIGNED, route_id: 'route-1' },
+      ]);
+
+      await expect(
+        service.planDay({ ...dto, delivery_ids: [firstDelivery.id, secondDelivery.id] }),
+      ).rejects.toThrow(secondDelivery.tracking_code);
+
+      expect(mockQueryRunner.startTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a day without pending deliveries', async () => {
+      mockDeliveryRepository.find.mockResolvedValue([]);
+
+      await expect(service.planDay(dto)).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
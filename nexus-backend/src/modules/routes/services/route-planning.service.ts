@@ -0,0 +1,581 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, DataSource, type EntityManager, In, IsNull, Like, Repository } from 'typeorm';
+import { Route } from '../entities/route.entity';
+import { RouteStop } from '../entities/route_stop.entity';
+import { RouteHistory } from '../entities/route_history.entity';
+import { RouteStatus } from '../enums/route-status';
+import { ROUTE_CODE_CONSTANTS, ROUTE_DEFAULT_VALUES } from '../constants/route-code.constants';
+import { DateTimeUtils } from '../utils/date-time.util';
+import { RouteValidatorService } from '../validators/route.validator';
+import { RoutesService } from '../routes.service';
+import type { PlanDayDto } from '../dto/plan-day.dto';
+import type { PlanDayResponseDto } from '../dto/plan-day-response.dto';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import { DeliveryStatusHistory } from '../../deliveries/entities/delivery-status-history.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { RouteOptimizationService } from '../../deliveries/services/route-optimization.service';
+import type { DeliveryRegion } from '../../deliveries/interfaces/route-optimization.interface';
+import type { VrpRoute } from '../../deliveries/interfaces/route-solver.interface';
+import type { UnassignedDeliveryDto } from '../../deliveries/dto/route-optimization-response.dto';
+import type { DeliveryConfig } from '../../deliveries/config/delivery.config';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { DriverStatus } from '../../drivers/enums/driver-status.enum';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { VehicleStatus } from '../../vehicles/enums/vehicle-status.enum';
+import { CustomerAddress } from '../../customers/entities/customer-address.entity';
+import { AddressType } from '../../customers/enums/address-type.enum';
+
+/**
+ * Status em que motorista e veículo já estão comprometidos com uma rota
+ */
+const BUSY_ROUTE_STATUSES = [RouteStatus.PLANNED, RouteStatus.IN_PROGRESS, RouteStatus.PAUSED];
+
+/** Raio padrão de agrupamento das entregas (km) */
+const DEFAULT_CLUSTER_RADIUS_KM = 5;
+
+/**
+ * Rota calculada pelo solver, ainda não persistida
+ */
+interface PlannedRoute {
+  region: DeliveryRegion;
+  vehicle: Vehicle;
+  driver: Driver;
+  solution: VrpRoute;
+  algorithm: string;
+}
+
+/**
+ * Serviço de planejamento diário de rotas
+ *
+ * Agrupa as entregas pendentes por região, roteiriza cada região com os
+ * veículos livres (RouteOptimizationService) e persiste Route + RouteStop,
+ * vinculando cada entrega à sua rota e parada e movendo-a para ASSIGNED.
+ */
+@Injectable()
+export class RoutePlanningService {
+  private readonly logger = new Logger(RoutePlanningService.name);
+  private readonly shiftStart: string;
+
+  constructor(
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    @InjectRepository(Driver)
+    private readonly driverRepository: Repository<Driver>,
+    @InjectRepository(Vehicle)
+    private readonly vehicleRepository: Repository<Vehicle>,
+    private readonly validatorService: RouteValidatorService,
+    private readonly routeOptimizationService: RouteOptimizationService,
+    private readonly routesService: RoutesService,
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.shiftStart =
+      configService.getOrThrow<DeliveryConfig>('delivery').routeOptimization.shiftStart;
+  }
+
+  /**
+   * Planeja as rotas de um dia a partir das entregas pendentes
+   *
+   * Cada região é roteirizada com os veículos ainda livres; cada rota gerada
+   * recebe um motorista disponível. Entregas que não couberem em nenhuma rota
+   * permanecem PENDING e são devolvidas em `unassigned`.
+   */
+  async planDay(dto: PlanDayDto): Promise<PlanDayResponseDto> {
+    const date = dto.date.slice(0, 10);
+    const dayStart = new Date(`${date}T00:00:00`);
+
+    this.validatorService.validateRouteDates(dayStart);
+
+    const deliveries = await this.findPendingDeliveries(dto, dayStart);
+    const drivers = await this.findAvailableDrivers(dto.driver_ids, dayStart);
+    const vehicles = await this.findAvailableVehicles(dto.vehicle_ids, dayStart);
+
+    if (drivers.length === 0 || vehicles.length === 0) {
+      throw new BadRequestException(
+        `Nenhum par de motorista e veículo disponível (${drivers.length} motorista(s), ${vehicles.length} veículo(s))`,
+      );
+    }
+
+    // Um motorista por veículo: prioriza os veículos de maior capacidade
+    const freeVehicles = vehicles
+      .sort((a, b) => Number(b.load_capacity ?? 0) - Number(a.load_capacity ?? 0))
+      .slice(0, drivers.length);
+    const freeDrivers = [...drivers];
+    const deliveriesById = new Map(deliveries.map(delivery => [delivery.id, delivery]));
+    const plannedRoutes: PlannedRoute[] = [];
+    const unassigned: UnassignedDeliveryDto[] = [];
+
+    const regions = this.routeOptimizationService.clusterDeliveries(
+      deliveries,
+      dto.cluster_radius_km ?? DEFAULT_CLUSTER_RADIUS_KM,
+    );
+
+    for (const region of regions) {
+      const regionDeliveries = region.deliveryIds
+        .map(id => deliveriesById.get(id))
+        .filter((delivery): delivery is Delivery => delivery !== undefined);
+
+      const solution = this.routeOptimizationService.planFleetRoutes(
+        regionDeliveries,
+        freeVehicles,
+        {
+          depot: { latitude: dto.depot.latitude, longitude: dto.depot.longitude },
+          shiftStart: dto.shift_start,
+          maxShiftMinutes: dto.max_shift_minutes,
+          restrictions: dto.restrictions,
+        },
+      );
+
+      for (const route of solution.routes) {
+        const vehicleIndex = freeVehicles.findIndex(vehicle => vehicle.id === route.vehicleId);
+        const [vehicle] = vehicleIndex === -1 ? [] : freeVehicles.splice(vehicleIndex, 1);
+        const driver = freeDrivers.shift();
+
+        if (!vehicle || !driver) {
+          unassigned.push(
+            ...route.stops.map(stop => ({
+              delivery_id: stop.id,
+              reason: 'Nenhum motorista disponível',
+            })),
+          );
+          continue;
+        }
+
+        plannedRoutes.push({
+          region,
+          vehicle,
+          driver,
+          solution: route,
+          algorithm: solution.algorithm,
+        });
+      }
+
+      unassigned.push(
+        ...solution.unassigned.map(stop => ({ delivery_id: stop.id, reason: stop.reason })),
+      );
+    }
+
+    const routeIds = await this.persistRoutes(dto, date, dayStart, plannedRoutes, deliveriesById);
+    const routes = await Promise.all(routeIds.map(id => this.routesService.findOne(id)));
+    const assignedCount = plannedRoutes.reduce((sum, plan) => sum + plan.solution.stops.length, 0);
+
+    this.logger.log(
+      `Planejamento de ${date}: ${routes.length} rota(s), ${assignedCount} entrega(s) atribuída(s), ${unassigned.length} não planejada(s)`,
+    );
+
+    return {
+      date,
+      algorithm_used: plannedRoutes[0]?.algorithm ?? this.routeOptimizationService.algorithm,
+      optimization_score:
+        deliveries.length === 0
+          ? 0
+          : Math.round(
+              (plannedRoutes.reduce(
+                (sum, plan) => sum + plan.solution.score * plan.solution.stops.length,
+                0,
+              ) *
+                100) /
+                deliveries.length,
+            ) / 100,
+      assigned_count: assignedCount,
+      routes,
+      unassigned,
+    };
+  }
+
+  /**
+   * Entregas informadas (devem estar PENDING e sem rota) ou, na ausência,
+   * as entregas pendentes agendadas para o dia
+   */
+  private async findPendingDeliveries(dto: PlanDayDto, dayStart: Date): Promise<Delivery[]> {
+    if (!dto.delivery_ids) {
+      const dayEnd = DateTimeUtils.calculateEstimatedArrival(dayStart, 24 * 60 - 1);
+      const deliveries = await this.deliveryRepository.find({
+        where: {
+          status: DeliveryStatus.PENDING,
+          route_id: IsNull(),
+          scheduled_delivery_at: Between(dayStart, dayEnd),
+        },
+      });
+
+      if (deliveries.length === 0) {
+        throw new BadRequestException('Nenhuma entrega pendente agendada para a data');
+      }
+
+      return deliveries;
+    }
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { id: In(dto.delivery_ids) },
+    });
+
+    const missing = dto.delivery_ids.filter(id => !deliveries.some(d => d.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Entregas não encontradas: ${missing.join(', ')}`);
+    }
+
+    const notPending = deliveries.filter(
+      delivery => delivery.status !== DeliveryStatus.PENDING || delivery.route_id,
+    );
+    if (notPending.length > 0) {
+      throw new BadRequestException(
+        `Entregas não pendentes ou já vinculadas a uma rota: ${notPending.map(d => d.tracking_code).join(', ')}`,
+      );
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Motoristas informados (validados individualmente) ou todos os disponíveis sem rota ativa
+   */
+  private async findAvailableDrivers(
+    driverIds: string[] | undefined,
+    dayStart: Date,
+  ): Promise<Driver[]> {
+    if (driverIds) {
+      const drivers: Driver[] = [];
+
+      for (const driverId of driverIds) {
+        drivers.push(await this.validatorService.validateDriverExists(driverId));
+        await this.validatorService.validateDriverAssignment(driverId, dayStart);
+      }
+
+      return drivers;
+    }
+
+    const busy = await this.findBusyIds('driver_id');
+    const drivers = await this.driverRepository.find({
+      where: { status: DriverStatus.AVAILABLE, is_active: true },
+      order: { full_name: 'ASC' },
+    });
+
+    return drivers.filter(driver => !busy.has(driver.id));
+  }
+
+  /**
+   * Veículos informados (validados individualmente) ou todos os ativos sem rota ativa
+   */
+  private async findAvailableVehicles(
+    vehicleIds: string[] | undefined,
+    dayStart: Date,
+  ): Promise<Vehicle[]> {
+    if (vehicleIds) {
+      const vehicles: Vehicle[] = [];
+
+      for (const vehicleId of vehicleIds) {
+        vehicles.push(await this.validatorService.validateVehicleExists(vehicleId));
+        await this.validatorService.validateVehicleAssignment(vehicleId, dayStart);
+      }
+
+      return vehicles;
+    }
+
+    const busy = await this.findBusyIds('vehicle_id');
+    const vehicles = await this.vehicleRepository.find({
+      where: { status: VehicleStatus.ACTIVE },
+    });
+
+    return vehicles.filter(vehicle => !busy.has(vehicle.id));
+  }
+
+  private async findBusyIds(column: 'driver_id' | 'vehicle_id'): Promise<Set<string>> {
+    const routes = await this.routeRepository.find({
+      select: { id: true, [column]: true },
+      where: { status: In(BUSY_ROUTE_STATUSES) },
+    });
+
+    return new Set(routes.map(route => route[column]));
+  }
+
+  /**
+   * Persiste rotas, paradas e vínculos das entregas em uma única transação
+   */
+  private async persistRoutes(
+    dto: PlanDayDto,
+    date: string,
+    dayStart: Date,
+    plannedRoutes: PlannedRoute[],
+    deliveriesById: Map<string, Delivery>,
+  ): Promise<string[]> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const manager = queryRunner.manager;
+      const toTime = (minutes: number): string =>
+        DateTimeUtils.extractTime(DateTimeUtils.calculateEstimatedArrival(dayStart, minutes));
+      const shiftStartMinutes = DateTimeUtils.timeToMinutes(dto.shift_start ?? this.shiftStart);
+      const depotCoordinates = `(${dto.depot.latitude},${dto.depot.longitude})`;
+      let sequential = await this.getLastRouteSequential(manager, date);
+      const routeIds: string[] = [];
+
+      for (const plan of plannedRoutes) {
+        sequential += 1;
+
+        const route = await manager.save(
+          manager.create(Route, {
+            route_code: this.buildRouteCode(date, sequential),
+            name: `${plan.region.name} - ${plan.vehicle.license_plate} (${date})`,
+            vehicle_id: plan.vehicle.id,
+            driver_id: plan.driver.id,
+            type: dto.type ?? ROUTE_DEFAULT_VALUES.DEFAULT_ROUTE_TYPE,
+            status: RouteStatus.PLANNED,
+            origin_address: dto.depot.address,
+            origin_coordinates: depotCoordinates,
+            destination_address: dto.depot.address,
+            destination_coordinates: depotCoordinates,
+            planned_date: dayStart,
+            planned_start_time: toTime(shiftStartMinutes),
+            planned_end_time: toTime(shiftStartMinutes + plan.solution.totalDurationMinutes),
+            estimated_distance_km: plan.solution.totalDistanceKm,
+            estimated_duration_minutes: Math.round(plan.solution.totalDurationMinutes),
+            total_load_kg: plan.solution.loadKg,
+            total_volume_m3: plan.solution.volumeM3,
+            difficulty_level: ROUTE_DEFAULT_VALUES.DEFAULT_DIFFICULTY_LEVEL,
+            optimization_data: {
+              algorithm_used: plan.algorithm,
+              optimization_score: plan.solution.score,
+            },
+            ...(plan.vehicle.load_capacity
+              ? { max_vehicle_capacity_kg: Number(plan.vehicle.load_capacity) }
+              : {}),
+            ...(plan.vehicle.cargo_volume
+              ? { max_vehicle_volume_m3: Number(plan.vehicle.cargo_volume) }
+              : {}),
+            ...(dto.restrictions ? { restrictions: { ...dto.restrictions } } : {}),
+          }),
+        );
+
+        let previousDeparture = shiftStartMinutes;
+
+        for (const scheduled of plan.solution.stops) {
+          const delivery = deliveriesById.get(scheduled.id);
+          if (!delivery) {
+            continue;
+          }
+
+          const stop = await manager.save(
+            manager.create(RouteStop, {
+              route_id: route.id,
+              customer_address_id: await this.resolveCustomerAddressId(manager, delivery),
+              sequence_order: scheduled.sequence,
+              address: this.formatAddress(delivery),
+              coordinates: `(${delivery.delivery_address.latitude},${delivery.delivery_address.longitude})`,
+              planned_arrival_time: toTime(scheduled.arrivalMinutes),
+              planned_departure_time: toTime(scheduled.departureMinutes),
+              estimated_stop_duration_minutes: Math.round(
+                scheduled.departureMinutes - scheduled.serviceStartMinutes,
+              ),
+              distance_from_previous_km: scheduled.distanceFromPreviousKm,
+              estimated_time_from_previous_minutes: Math.round(
+                scheduled.arrivalMinutes - previousDeparture,
+              ),
+              delivery_data: this.buildStopDeliveryData(delivery),
+              ...(delivery.recipient_contact
+                ? {
+                    contact_info: {
+                      name: delivery.recipient_contact.name,
+                      phone: delivery.recipient_contact.phone,
+                      ...(delivery.recipient_contact.email
+                        ? { email: delivery.recipient_contact.email }
+                        : {}),
+                    },
+                  }
+                : {}),
+            }),
+          );
+          previousDeparture = scheduled.departureMinutes;
+
+          await this.assignDelivery(
+            manager,
+            delivery,
+            route,
+            stop,
+            toTime(scheduled.arrivalMinutes),
+          );
+        }
+
+        await manager.save(
+          manager.create(RouteHistory, {
+            route_id: route.id,
+            event_type: 'ROUTE_CREATED',
+            description: `Rota ${route.route_code} criada pelo planejamento de ${date} com ${plan.solution.stops.length} parada(s)`,
+            new_status: route.status,
+          }),
+        );
+
+        routeIds.push(route.id);
+      }
+
+      await queryRunner.commitTransaction();
+
+      return routeIds;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      this.logger.error('Erro ao persistir planejamento de rotas:', error);
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Vincula a entrega à rota e à parada e registra a transição PENDING -> ASSIGNED
+   */
+  private async assignDelivery(
+    manager: EntityManager,
+    delivery: Delivery,
+    route: Route,
+    stop: RouteStop,
+    plannedArrival: string,
+  ): Promise<void> {
+    await manager.update(Delivery, delivery.id, {
+      status: DeliveryStatus.ASSIGNED,
+      route_id: route.id,
+      route_stop_id: stop.id,
+      driver_id: route.driver_id,
+      vehicle_id: route.vehicle_id,
+    });
+
+    await manager.save(
+      manager.create(DeliveryStatusHistory, {
+        delivery_id: delivery.id,
+        from_status: delivery.status,
+        to_status: DeliveryStatus.ASSIGNED,
+        changed_at: new Date(),
+        changed_by_type: 'SYSTEM',
+        reason: `Atribuída à rota ${route.route_code} (parada ${stop.sequence_order}, chegada prevista ${plannedArrival})`,
+        context: { source: 'BATCH', batch_job_id: route.id },
+        status_metadata: { transit_data: { route_id: route.id } },
+        driver_data: { driver_id: route.driver_id, vehicle_id: route.vehicle_id },
+        automatic_change: true,
+      }),
+    );
+  }
+
+  /**
+   * Endereço do cliente correspondente ao endereço de entrega (CEP + número);
+   * cria um endereço de entrega (SHIPPING) quando não houver
+   */
+  private async resolveCustomerAddressId(
+    manager: EntityManager,
+    delivery: Delivery,
+  ): Promise<string> {
+    const address = delivery.delivery_address;
+    const zipCode = address.postal_code.replace(/\D/g, '');
+
+    const existing = await manager.findOne(CustomerAddress, {
+      where: {
+        customerId: delivery.customer_id,
+        zipCode,
+        number: address.number,
+        isActive: true,
+      },
+    });
+
+    if (existing) {
+      return existing.id;
+    }
+
+    const created = await manager.save(
+      manager.create(CustomerAddress, {
+        customerId: delivery.customer_id,
+        street: address.street,
+        number: address.number,
+        neighborhood: address.neighborhood ?? '',
+        zipCode,
+        city: address.city,
+        state: address.state,
+        type: AddressType.SHIPPING,
+        isPrimary: false,
+        isActive: true,
+        metadata: { source: 'route_planning', delivery_id: delivery.id },
+        ...(address.complement ? { complement: address.complement } : {}),
+        ...(address.latitude !== undefined ? { latitude: address.latitude } : {}),
+        ...(address.longitude !== undefined ? { longitude: address.longitude } : {}),
+      }),
+    );
+
+    return created.id;
+  }
+
+  private buildStopDeliveryData(delivery: Delivery): NonNullable<RouteStop['delivery_data']> {
+    const weight = delivery.item_details?.weight_kg ?? delivery.weight;
+
+    return {
+      type: 'DELIVERY',
+      order_numbers: [delivery.tracking_code],
+      ...(weight !== undefined ? { weight_kg: Number(weight) } : {}),
+      ...(delivery.item_details?.volume_m3 !== undefined
+        ? { volume_m3: Number(delivery.item_details.volume_m3) }
+        : {}),
+      ...(delivery.item_details?.quantity !== undefined
+        ? { items_count: delivery.item_details.quantity }
+        : {}),
+      ...(delivery.settings?.requires_signature !== undefined
+        ? { requires_signature: delivery.settings.requires_signature }
+        : {}),
+      ...(delivery.settings?.requires_photo !== undefined
+        ? { requires_photo: delivery.settings.requires_photo }
+        : {}),
+      ...(delivery.delivery_instructions
+        ? { special_instructions: delivery.delivery_instructions }
+        : {}),
+    };
+  }
+
+  private formatAddress(delivery: Delivery): string {
+    const { street, number, complement, neighborhood, city, state, postal_code } =
+      delivery.delivery_address;
+
+    return [
+      `${street}, ${number}${complement ? ` ${complement}` : ''}`,
+      neighborhood,
+      `${city}/${state}`,
+      postal_code,
+    ]
+      .filter(Boolean)
+      .join(' - ')
+      .slice(0, 500);
+  }
+
+  /**
+   * Último sequencial usado no dia (inclui rotas removidas, pois o código é único)
+   */
+  private async getLastRouteSequential(manager: EntityManager, date: string): Promise<number> {
+    const prefix = this.buildRouteCodePrefix(date);
+
+    const routes = await manager.find(Route, {
+      select: { id: true, route_code: true },
+      where: { route_code: Like(`${prefix}%`) },
+      withDeleted: true,
+    });
+
+    return routes.reduce((max, route) => {
+      const sequential = Number.parseInt(route.route_code.slice(prefix.length), 10);
+      return Number.isNaN(sequential) ? max : Math.max(max, sequential);
+    }, 0);
+  }
+
+  /**
+   * Código no formato RT-YYYYMMDD-NNN
+   */
+  private buildRouteCode(date: string, sequential: number): string {
+    return (
+      this.buildRouteCodePrefix(date) +
+      sequential.toString().padStart(ROUTE_CODE_CONSTANTS.ROUTE_CODE_SEQUENTIAL_MIN_DIGITS, '0')
+    );
+  }
+
+  private buildRouteCodePrefix(date: string): string {
+    const { ROUTE_CODE_PREFIX, ROUTE_CODE_SEPARATOR } = ROUTE_CODE_CONSTANTS;
+
+    return `${ROUTE_CODE_PREFIX}${ROUTE_CODE_SEPARATOR}${date.replace(/-/g, '')}${ROUTE_CODE_SEPARATOR}`;
+  }
+}
@@ -12,10 +12,55 @@
  * @module Routes/Utils
  */
 
+/**
+ * Fuso horário da operação, usado para delimitar o dia de uma data planejada
+ */
+export const OPERATION_TIMEZONE = 'America/Sao_Paulo';
+
 /**
  * Classe utilitária para data e hora
  */
 export class DateTimeUtils {
+  /**
+   * Início (00:00) de uma data no fuso horário da operação
+   *
+   * @param date - Data no formato YYYY-MM-DD (ou ISO, apenas a data é considerada)
+   * @param timeZone - Fuso horário (padrão: America/Sao_Paulo)
+   * @returns Instante UTC correspondente à meia-noite local
+   *
+   * @example
+   * ```typescript
+   * DateTimeUtils.startOfDay('2024-01-15'); // 2024-01-15T03:00:00.000Z
+   * ```
+   */
+  static startOfDay(date: string, timeZone = OPERATION_TIMEZONE): Date {
+    const guess = new Date(`${date.slice(0, 10)}T00:00:00.000Z`);
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(guess);
+
+    const value = (type: Intl.DateTimeFormatPartTypes): number =>
+      Number(parts.find(part => part.type === type)?.value ?? 0);
+
+    const zonedAsUtc = Date.UTC(
+      value('year'),
+      value('month') - 1,
+      value('day'),
+      value('hour'),
+      value('minute'),
+      value('second'),
+    );
+
+    return new Date(guess.getTime() - (zonedAsUtc - guess.getTime()));
+  }
+
   /**
    * Calcula horário estimado de chegada
    *
@@ -0,0 +1,131 @@
+import { RouteType } from '../enums/route.type';
+import { EtaCalculator } from './eta-calculator.util';
+
+const minutes = (value: number): number => value * 60 * 1000;
+
+describe('EtaCalculator', () => {
+  const now = new Date('2024-01-15T12:00:00Z');
+
+  describe('calculateTravelMinutes', () => {
+    it('should apply the route type speed and delay factor', () => {
+      // URBAN: 40 km/h com 30% de atraso
+      expect(EtaCalculator.calculateTravelMinutes(10, RouteType.URBAN)).toBe(20);
+      // EXPRESS: 100 km/h com 5% de atraso
+      expect(EtaCalculator.calculateTravelMinutes(100, RouteType.EXPRESS)).toBe(63);
+    });
+
+    it('should return zero for no distance', () => {
+      expect(EtaCalculator.calculateTravelMinutes(0, RouteType.URBAN)).toBe(0);
+    });
+  });
+
+  describe('calculate', () => {
+    it('should chain travel and service time through the remaining stops', () => {
+      const origin = { latitude: -23.55, longitude: -46.63 };
+      const first = { latitude: -23.6, longitude: -46.63 };
+      const second = { latitude: -23.65, longitude: -46.63 };
+
+      const [firstEta, secondEta] = EtaCalculator.calculate({
+        origin,
+        now,
+        routeType: RouteType.URBAN,
+        stops: [
+          { stopId: 'stop-1', coordinates: first, serviceMinutes: 10 },
+          { stopId: 'stop-2', coordinates: second, serviceMinutes: 15 },
+        ],
+      });
+
+      expect(firstEta?.distanceKm).toBeCloseTo(5.56, 1);
+      expect(firstEta?.arrivalAt.getTime()).toBe(
+        now.getTime() + minutes(firstEta?.travelMinutes ?? 0),
+      );
+      expect(firstEta?.departureAt.getTime()).toBe(
+        (firstEta?.arrivalAt.getTime() ?? 0) + minutes(10),
+      );
+      expect(secondEta?.arrivalAt.getTime()).toBe(
+        (firstEta?.departureAt.getTime() ?? 0) + minutes(secondEta?.travelMinutes ?? 0),
+      );
+      expect(secondEta?.departureAt.getTime()).toBe(
+        (secondEta?.arrivalAt.getTime() ?? 0) + minutes(15),
+      );
+    });
+
+    it('should keep the arrival of the stop in progress and never depart in the past', () => {
+      const coordinates = { latitude: -23.55, longitude: -46.63 };
+      const arrivedAt = new Date(now.getTime() - minutes(30));
+
+      const [estimate] = EtaCalculator.calculate({
+        origin: coordinates,
+        now,
+        routeType: RouteType.URBAN,
+        stops: [{ stopId: 'stop-1', coordinates, serviceMinutes: 15, arrivedAt }],
+      });
+
+      expect(estimate?.arrivalAt).toEqual(arrivedAt);
+      expect(estimate?.departureAt).toEqual(now);
+      expect(estimate?.travelMinutes).toBe(0);
+    });
+  });
+
+  describe('resolveServiceMinutes', () => {
+    it('should average the historical durations of the address', () => {
+      expect(EtaCalculator.resolveServiceMinutes([10, 20, 0], 5, RouteType.URBAN)).toBe(15);
+    });
+
+    it('should fall back to the stop estimate and then to the route type average', () => {
+      expect(EtaCalculator.resolveServiceMinutes([], 7, RouteType.URBAN)).toBe(7);
+      expect(EtaCalculator.resolveServiceMinutes([], undefined, RouteType.RURAL)).toBe(20);
+    });
+  });
+
+  describe('evaluateChange', () => {
+    const reference = new Date('2024-01-15T14:00:00Z');
+
+    it('should notify once when the ETA slips past the time window', () => {
+      const input = {
+        estimatedArrival: new Date('2024-01-15T16:05:00Z'),
+        referenceArrival: new Date('2024-01-15T16:00:00Z'),
+        windowEnd: new Date('2024-01-15T16:00:00Z'),
+        thresholdMinutes: 15,
+      };
+
+      expect(EtaCalculator.evaluateChange({ ...input, windowMissNotified: false })).toBe(
+        'WINDOW_MISSED',
+      );
+      expect(EtaCalculator.evaluateChange({ ...input, windowMissNotified: true })).toBeNull();
+    });
+
+    it('should notify when the ETA moves by the threshold in either direction', () => {
+      const base = { referenceArrival: reference, windowMissNotified: false, thresholdMinutes: 15 };
+
+      expect(
+        EtaCalculator.evaluateChange({
+          ...base,
+          estimatedArrival: new Date(reference.getTime() + minutes(14)),
+        }),
+      ).toBeNull();
+      expect(
+        EtaCalculator.evaluateChange({
+          ...base,
+          estimatedArrival: new Date(reference.getTime() + minutes(20)),
+        }),
+      ).toBe('ETA_CHANGED');
+      expect(
+        EtaCalculator.evaluateChange({
+          ...base,
+          estimatedArrival: new Date(reference.getTime() - minutes(15)),
+        }),
+      ).toBe('ETA_CHANGED');
+    });
+
+    it('should not notify without a reference ETA', () => {
+      expect(
+        EtaCalculator.evaluateChange({
+          estimatedArrival: reference,
+          windowMissNotified: false,
+          thresholdMinutes: 15,
+        }),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * ETA Calculator
+ *
+ * Cálculo dinâmico das previsões de chegada nas paradas restantes de uma rota
+ * em execução, a partir da posição atual do veículo.
+ *
+ * @module Routes/Utils
+ */
+
+import { RouteUtils } from './route.util';
+import { ROUTE_TYPE_CHARACTERISTICS } from '../constants/route-calculation.constants';
+import type { RouteType } from '../enums/route.type';
+import type {
+  EtaChangeInput,
+  EtaInput,
+  EtaNotificationReason,
+  EtaStopEstimate,
+} from '../interfaces/eta.interface';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export class EtaCalculator {
+  /**
+   * Calcula chegada e saída de cada parada restante
+   *
+   * O deslocamento usa a velocidade média do tipo de rota acrescida do fator de
+   * atraso (ROUTE_TYPE_CHARACTERISTICS). Parada em atendimento mantém a chegada
+   * registrada e a saída nunca fica no passado.
+   *
+   * @example
+   * ```typescript
+   * const etas = EtaCalculator.calculate({
+   *   origin: { latitude: -23.55, longitude: -46.63 },
+   *   now: new Date(),
+   *   routeType: RouteType.URBAN,
+   *   stops: [{ stopId: 'stop-1', coordinates: { latitude: -23.56, longitude: -46.65 }, serviceMinutes: 15 }],
+   * });
+   * ```
+   */
+  static calculate(input: EtaInput): EtaStopEstimate[] {
+    const estimates: EtaStopEstimate[] = [];
+    let position = input.origin;
+    let clock = input.now;
+
+    for (const stop of input.stops) {
+      let estimate: EtaStopEstimate;
+
+      if (stop.arrivedAt) {
+        const plannedDeparture = this.addMinutes(stop.arrivedAt, stop.serviceMinutes);
+
+        estimate = {
+          stopId: stop.stopId,
+          arrivalAt: stop.arrivedAt,
+          departureAt: plannedDeparture > input.now ? plannedDeparture : input.now,
+          distanceKm: 0,
+          travelMinutes: 0,
+          serviceMinutes: stop.serviceMinutes,
+        };
+      } else {
+        const distanceKm = RouteUtils.calculateDistance(position, stop.coordinates);
+        const travelMinutes = this.calculateTravelMinutes(distanceKm, input.routeType);
+        const arrivalAt = this.addMinutes(clock, travelMinutes);
+
+        estimate = {
+          stopId: stop.stopId,
+          arrivalAt,
+          departureAt: this.addMinutes(arrivalAt, stop.serviceMinutes),
+          distanceKm,
+          travelMinutes,
+          serviceMinutes: stop.serviceMinutes,
+        };
+      }
+
+      estimates.push(estimate);
+      position = stop.coordinates;
+      clock = estimate.departureAt;
+    }
+
+    return estimates;
+  }
+
+  /**
+   * Tempo de deslocamento (minutos) pela velocidade média e fator de atraso do tipo de rota
+   */
+  static calculateTravelMinutes(distanceKm: number, routeType: RouteType): number {
+    if (distanceKm <= 0) {
+      return 0;
+    }
+
+    const { avgSpeed, delayFactor } = ROUTE_TYPE_CHARACTERISTICS[routeType];
+
+    return Math.round((distanceKm / avgSpeed) * 60 * (1 + delayFactor));
+  }
+
+  /**
+   * Tempo de atendimento previsto para a parada
+   *
+   * Média das durações reais já registradas no endereço; sem histórico, o tempo
+   * estimado da parada; por fim, a média do tipo de rota.
+   */
+  static resolveServiceMinutes(
+    historicalDurations: number[],
+    estimatedMinutes: number | undefined,
+    routeType: RouteType,
+  ): number {
+    const durations = historicalDurations.filter(duration => duration > 0);
+
+    if (durations.length > 0) {
+      return Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length);
+    }
+
+    return estimatedMinutes ?? ROUTE_TYPE_CHARACTERISTICS[routeType].avgStopDurationMinutes;
+  }
+
+  /**
+   * Decide se a mudança do ETA deve ser comunicada ao cliente
+   *
+   * - WINDOW_MISSED: o ETA passou do fim da janela de atendimento (avisado uma vez)
+   * - ETA_CHANGED: o ETA variou mais que o limiar em relação ao último comunicado
+   */
+  static evaluateChange(input: EtaChangeInput): EtaNotificationReason | null {
+    if (input.windowEnd && input.estimatedArrival > input.windowEnd && !input.windowMissNotified) {
+      return 'WINDOW_MISSED';
+    }
+
+    if (!input.referenceArrival) {
+      return null;
+    }
+
+    const shiftMinutes =
+      Math.abs(input.estimatedArrival.getTime() - input.referenceArrival.getTime()) / MS_PER_MINUTE;
+
+    return shiftMinutes >= input.thresholdMinutes ? 'ETA_CHANGED' : null;
+  }
+
+  private static addMinutes(date: Date, minutes: number): Date {
+    return new Date(date.getTime() + minutes * MS_PER_MINUTE);
+  }
+}
@@ -8,3 +8,4 @@ export * from './cls-audit.util';
 export * from './route.util';
 export * from './date-time.util';
 export * from './auditable.util';
+export * from './eta-calculator.util';
@@ -1 +1,72 @@
-export class CreateTrackingDto {}
+import { IsUUID, IsNotEmpty, IsOptional, IsNumber, Min, Max, IsDateString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para registrar um ping GPS do motorista
+ */
+export class CreateTrackingDto {
+  @ApiPropertyOptional({
+    description:
+      'ID do motorista (obsoleto: o motorista é o do usuário autenticado; se informado, deve ser o mesmo)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
+
+  @ApiProperty({
+    description: 'ID do veículo',
+    example: '16586204-b498-48f5-923c-6821bc040266',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  vehicle_id!: string;
+
+  @ApiPropertyOptional({
+    description: 'ID da rota ativa (se omitido, é resolvida pela rota em andamento do motorista)',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @IsOptional()
+  @IsUUID()
+  route_id?: string;
+
+  @ApiProperty({ description: 'Latitude', example: -25.4284 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude', example: -49.2733 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude!: number;
+
+  @ApiPropertyOptional({ description: 'Velocidade em km/h', example: 42.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(300)
+  speed?: number;
+
+  @ApiPropertyOptional({ description: 'Direção em graus (0-360)', example: 180 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(360)
+  heading?: number;
+
+  @ApiPropertyOptional({ description: 'Precisão em metros', example: 10 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(10000)
+  accuracy?: number;
+
+  @ApiProperty({
+    description: 'Data/hora da captura no dispositivo (ISO 8601)',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @IsDateString()
+  recorded_at!: string;
+}
@@ -0,0 +1,112 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+
+/**
+ * Query da consulta pública de rastreamento
+ */
+export class PublicTrackingQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Dígitos iniciais do CEP do destinatário (mínimo 5). Obrigatório, salvo se a verificação por CEP for desabilitada',
+    example: '80010',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{5}-?\d{0,3}$/, { message: 'CEP deve conter ao menos 5 dígitos' })
+  postal_code?: string;
+}
+
+/**
+ * Evento da linha do tempo pública
+ */
+export class PublicTrackingEventDto {
+  @ApiProperty({ description: 'Status', enum: DeliveryStatus, example: 'IN_TRANSIT' })
+  status!: DeliveryStatus;
+
+  @ApiProperty({ description: 'Descrição do status', example: 'Em trânsito' })
+  description!: string;
+
+  @ApiProperty({ description: 'Data/hora do evento', example: '2024-01-15T10:30:00.000Z' })
+  occurred_at!: Date;
+
+  @ApiPropertyOptional({ description: 'Cidade do evento', example: 'Curitiba' })
+  city?: string;
+
+  @ApiPropertyOptional({ description: 'UF do evento', example: 'PR' })
+  state?: string;
+}
+
+/**
+ * Última posição conhecida do veículo
+ */
+export class PublicTrackingPositionDto {
+  @ApiProperty({ description: 'Latitude', example: -25.4284 })
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude', example: -49.2733 })
+  longitude!: number;
+
+  @ApiProperty({ description: 'Data/hora da posição', example: '2024-01-15T10:30:00.000Z' })
+  updated_at!: Date;
+}
+
+/**
+ * Comprovante de entrega (miniatura)
+ */
+export class PublicTrackingProofDto {
+  @ApiProperty({ description: 'Tipo do comprovante', example: 'PHOTO' })
+  type!: string;
+
+  @ApiProperty({
+    description: 'URL da miniatura (ou do arquivo original, se o comprovante não tiver miniatura)',
+    example: 'https://cdn.nexustransit.com/proofs/abc_small.webp',
+  })
+  thumbnail_url!: string;
+
+  @ApiProperty({ description: 'Data/hora da captura', example: '2024-01-15T15:42:00.000Z' })
+  captured_at!: Date;
+}
+
+/**
+ * Visão pública (redigida) de uma entrega
+ *
+ * Não expõe observações internas, dados de pagamento nem documento do destinatário
+ */
+export class PublicTrackingResponseDto {
+  @ApiProperty({ description: 'Código de rastreamento', example: 'NXT-20240115-00001' })
+  tracking_code!: string;
+
+  @ApiProperty({ description: 'Status atual', enum: DeliveryStatus, example: 'IN_TRANSIT' })
+  status!: DeliveryStatus;
+
+  @ApiProperty({ description: 'Descrição do status', example: 'Em trânsito' })
+  status_description!: string;
+
+  @ApiPropertyOptional({
+    description: 'Previsão de entrega (ou data da entrega, se concluída)',
+    example: '2024-01-15T16:00:00.000Z',
+  })
+  estimated_delivery_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Primeiro nome do motorista', example: 'João' })
+  driver_first_name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Última posição conhecida (apenas enquanto a entrega está ativa)',
+    type: PublicTrackingPositionDto,
+  })
+  last_position?: PublicTrackingPositionDto;
+
+  @ApiProperty({ description: 'Cidade de destino', example: 'Curitiba' })
+  destination_city!: string;
+
+  @ApiProperty({ description: 'UF de destino', example: 'PR' })
+  destination_state!: string;
+
+  @ApiProperty({ description: 'Linha do tempo de status', type: [PublicTrackingEventDto] })
+  timeline!: PublicTrackingEventDto[];
+
+  @ApiProperty({ description: 'Miniaturas dos comprovantes', type: [PublicTrackingProofDto] })
+  proofs!: PublicTrackingProofDto[];
+}
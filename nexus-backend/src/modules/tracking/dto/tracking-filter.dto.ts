@@ -0,0 +1,21 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO para consulta da trilha (breadcrumb) de uma rota
+ */
+export class TrackingBreadcrumbQueryDto {
+  @ApiProperty({
+    description: 'Início do período (ISO 8601)',
+    example: '2024-01-15T08:00:00.000Z',
+  })
+  @IsDateString()
+  from!: string;
+
+  @ApiProperty({
+    description: 'Fim do período (ISO 8601)',
+    example: '2024-01-15T18:00:00.000Z',
+  })
+  @IsDateString()
+  to!: string;
+}
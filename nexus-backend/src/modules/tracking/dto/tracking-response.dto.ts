@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+/**
+ * Converte colunas decimal (retornadas como string pelo driver pg) em number
+ */
+const toNumber = ({ value }: { value: unknown }): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+/**
+ * DTO de resposta de um ping GPS
+ */
+export class TrackingResponseDto {
+  @ApiProperty({
+    description: 'ID do ping',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({
+    description: 'ID do motorista',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @Expose()
+  driver_id!: string;
+
+  @ApiProperty({
+    description: 'ID do veículo',
+    example: '16586204-b498-48f5-923c-6821bc040266',
+  })
+  @Expose()
+  vehicle_id!: string;
+
+  @ApiProperty({
+    description: 'ID da rota',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @Expose()
+  route_id!: string;
+
+  @ApiProperty({ description: 'Latitude', example: -25.4284 })
+  @Expose()
+  @Transform(toNumber)
+  latitude!: number;
+
+  @ApiProperty({ description: 'Longitude', example: -49.2733 })
+  @Expose()
+  @Transform(toNumber)
+  longitude!: number;
+
+  @ApiPropertyOptional({ description: 'Velocidade em km/h', example: 42.5 })
+  @Expose()
+  @Transform(toNumber)
+  speed?: number;
+
+  @ApiPropertyOptional({ description: 'Direção em graus', example: 180 })
+  @Expose()
+  @Transform(toNumber)
+  heading?: number;
+
+  @ApiPropertyOptional({ description: 'Precisão em metros', example: 10 })
+  @Expose()
+  @Transform(toNumber)
+  accuracy?: number;
+
+  @ApiProperty({
+    description: 'Data/hora da captura',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  recorded_at!: Date;
+}
@@ -1 +1,113 @@
-export class Tracking {}
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Driver } from '../../drivers/entities/driver.entity';
+import { Vehicle } from '../../vehicles/entities/vehicle.entity';
+import { Route } from '../../routes/entities/route.entity';
+
+/**
+ * Tracking Entity - Série temporal de posições GPS
+ *
+ * Features:
+ * - Registro de cada ping enviado pelo motorista
+ * - Vínculo com motorista, veículo e rota ativa
+ * - Velocidade, direção e precisão do GPS
+ * - Base para última posição e trilha (breadcrumb) da rota
+ */
+@Entity('tracking_points')
+@Index(['vehicle_id', 'recorded_at'])
+@Index(['route_id', 'recorded_at'])
+@Index(['driver_id'])
+@Index(['recorded_at'])
+export class Tracking extends BaseEntity {
+  // Relacionamento com Motorista
+  @ManyToOne(() => Driver, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'driver_id' })
+  driver!: Driver;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do motorista',
+  })
+  driver_id!: string;
+
+  // Relacionamento com Veículo
+  @ManyToOne(() => Vehicle, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'vehicle_id' })
+  vehicle!: Vehicle;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do veículo',
+  })
+  vehicle_id!: string;
+
+  // Relacionamento com Rota
+  @ManyToOne(() => Route, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'route_id' })
+  route!: Route;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID da rota ativa no momento do ping',
+  })
+  route_id!: string;
+
+  // Posição
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    comment: 'Latitude do ping',
+  })
+  latitude!: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 11,
+    scale: 8,
+    comment: 'Longitude do ping',
+  })
+  longitude!: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 6,
+    scale: 2,
+    nullable: true,
+    comment: 'Velocidade em km/h',
+  })
+  speed?: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+    comment: 'Direção em graus (0-360)',
+  })
+  heading?: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 8,
+    scale: 2,
+    nullable: true,
+    comment: 'Precisão do GPS em metros',
+  })
+  accuracy?: number;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora em que o ping foi capturado no dispositivo',
+  })
+  recorded_at!: Date;
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { PublicTrackingService } from './services/public-tracking.service';
+import { PublicTrackingQueryDto, PublicTrackingResponseDto } from './dto/public-tracking.dto';
+import { RateLimitGuard } from '../rate-limit/guards/rate-limit.guard';
+import { RateLimitByIP } from '../rate-limit/decorators/rate-limit.decorator';
+
+/**
+ * Controller de rastreamento público
+ *
+ * Endpoint sem autenticação consultado pelo destinatário a partir do código
+ * de rastreamento e dos dígitos iniciais do CEP do destinatário. Possui rate
+ * limit próprio e restrito por IP, já que os códigos são sequenciais.
+ */
+@ApiTags('Tracking')
+@Controller('public/tracking')
+@UseGuards(RateLimitGuard)
+export class PublicTrackingController {
+  constructor(private readonly publicTrackingService: PublicTrackingService) {}
+
+  @Get(':code')
+  @RateLimitByIP(10, 60000)
+  @ApiOperation({
+    summary: 'Rastrear entrega (público)',
+    description:
+      'Retorna a linha do tempo, previsão, última posição e comprovantes de uma entrega, sem dados sensíveis',
+  })
+  @ApiParam({
+    name: 'code',
+    description: 'Código de rastreamento',
+    example: 'NXT-20240115-00001',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Entrega encontrada',
+    type: PublicTrackingResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'CEP ausente ou em formato inválido',
+  })
+  @ApiNotFoundResponse({
+    description: 'Código de rastreamento não encontrado ou CEP divergente',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Muitas consultas a partir deste IP',
+  })
+  async findByCode(
+    @Param('code') code: string,
+    @Query() query: PublicTrackingQueryDto,
+  ): Promise<PublicTrackingResponseDto> {
+    return this.publicTrackingService.findByTrackingCode(code, query);
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PublicTrackingService } from './public-tracking.service';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import type { DeliveryProof } from '../../deliveries/entities/delivery-proof.entity';
+import { DeliveryStatus } from '../../deliveries/enums/delivery-status.enum';
+import { ProofType } from '../../deliveries/enums/proof-type.enum';
+
+describe('PublicTrackingService', () => {
+  let service: PublicTrackingService;
+
+  const capturedAt = new Date('2024-01-15T10:30:00.000Z');
+
+  const buildDelivery = (proofs: Partial<DeliveryProof>[] = []): Delivery =>
+    ({
+      id: '22222222-2222-4222-8222-222222222222',
+      tracking_code: 'NXT-20240115-00001',
+      status: DeliveryStatus.IN_TRANSIT,
+      delivery_address: { city: 'Curitiba', state: 'PR', postal_code: '80010-000' },
+      driver: { full_name: 'João Pereira da Silva' },
+      statusHistory: [],
+      proofs,
+      payment_data: { method: 'PIX' },
+    }) as unknown as Delivery;
+
+  const mockDeliveryRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PublicTrackingService,
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PublicTrackingService>(PublicTrackingService);
+  });
+
+  describe('findByTrackingCode', () => {
+    it('should require the postal code by default', async () => {
+      await expect(service.findByTrackingCode('NXT-20240115-00001', {})).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+
+      expect(mockDeliveryRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should allow the lookup without postal code when the check is disabled', async () => {
+      mockConfigService.get.mockReturnValueOnce('false');
+      mockDeliveryRepository.findOne.mockResolvedValue(buildDelivery());
+
+      const response = await service.findByTrackingCode('nxt-20240115-00001', {});
+
+      expect(mockDeliveryRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tracking_code: 'NXT-20240115-00001' } }),
+      );
+      expect(response.tracking_code).toBe('NXT-20240115-00001');
+    });
+
+    it('should answer a divergent postal code as not found', async () => {
+      mockDeliveryRepository.findOne.mockResolvedValue(buildDelivery());
+
+      await expect(
+        service.findByTrackingCode('NXT-20240115-00001', { postal_code: '01310' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should answer an unknown code as not found', async () => {
+      mockDeliveryRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.findByTrackingCode('NXT-20240115-99999', { postal_code: '80010' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should return a redacted view with the public proof thumbnails', async () => {
+      mockDeliveryRepository.findOne.mockResolvedValue(
+        buildDelivery([
+          {
+            type: ProofType.PHOTO,
+            file_path: 'https://cdn.example.com/delivery-proofs/x/foto.jpg',
+            type_specific_data: {
+              thumbnails: {
+                small: 'https://cdn.example.com/delivery-proofs/x/foto_small.webp',
+                medium: 'https://cdn.example.com/delivery-proofs/x/foto_medium.webp',
+                large: 'https://cdn.example.com/delivery-proofs/x/foto_large.webp',
+              },
+            },
+            captured_at: capturedAt,
+          },
+          {
+            type: ProofType.LOCATION_PHOTO,
+            file_path: 'https://cdn.example.com/delivery-proofs/x/fachada.jpg',
+            captured_at: capturedAt,
+          },
+          {
+            type: ProofType.SIGNATURE,
+            file_path: 'https://cdn.example.com/delivery-proofs/x/assinatura.png',
+            captured_at: capturedAt,
+          },
+        ]),
+      );
+
+      const response = await service.findByTrackingCode('NXT-20240115-00001', {
+        postal_code: '80010-0',
+      });
+
+      expect(response).toEqual({
+        tracking_code: 'NXT-20240115-00001',
+        status: DeliveryStatus.IN_TRANSIT,
+        status_description: expect.any(String),
+        destination_city: 'Curitiba',
+        destination_state: 'PR',
+        driver_first_name: 'João',
+        timeline: [],
+        proofs: [
+          {
+            type: ProofType.PHOTO,
+            thumbnail_url: 'https://cdn.example.com/delivery-proofs/x/foto_small.webp',
+            captured_at: capturedAt,
+          },
+          {
+            type: ProofType.LOCATION_PHOTO,
+            thumbnail_url: 'https://cdn.example.com/delivery-proofs/x/fachada.jpg',
+            captured_at: capturedAt,
+          },
+        ],
+      });
+    });
+  });
+});
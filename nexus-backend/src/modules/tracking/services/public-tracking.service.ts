@@ -0,0 +1,183 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import type { DeliveryProof } from '../../deliveries/entities/delivery-proof.entity';
+import type { DeliveryStatusHistory } from '../../deliveries/entities/delivery-status-history.entity';
+import {
+  ActiveDeliveryStatuses,
+  DeliveryStatus,
+  DeliveryStatusDescriptions,
+} from '../../deliveries/enums/delivery-status.enum';
+import { ProofType } from '../../deliveries/enums/proof-type.enum';
+import type {
+  PublicTrackingQueryDto,
+  PublicTrackingResponseDto,
+  PublicTrackingEventDto,
+  PublicTrackingProofDto,
+  PublicTrackingPositionDto,
+} from '../dto/public-tracking.dto';
+
+/**
+ * Tipos de comprovante que podem ser exibidos publicamente
+ */
+const PUBLIC_PROOF_TYPES = [ProofType.PHOTO, ProofType.LOCATION_PHOTO];
+
+/**
+ * Quantidade mínima de dígitos do CEP exigida no segundo fator
+ */
+const MIN_POSTAL_CODE_DIGITS = 5;
+
+/**
+ * Serviço de rastreamento público
+ *
+ * Monta uma visão redigida da entrega a partir do código de rastreamento,
+ * sem dados sensíveis (pagamento, documentos, observações internas)
+ */
+@Injectable()
+export class PublicTrackingService {
+  private readonly logger = new Logger(PublicTrackingService.name);
+
+  constructor(
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async findByTrackingCode(
+    code: string,
+    query: PublicTrackingQueryDto,
+  ): Promise<PublicTrackingResponseDto> {
+    // Códigos de rastreamento são sequenciais: o CEP só deixa de ser exigido se
+    // desabilitado explicitamente
+    const requirePostalCode =
+      this.configService.get<string>('PUBLIC_TRACKING_REQUIRE_POSTAL_CODE', 'true') !== 'false';
+
+    if (requirePostalCode && !query.postal_code) {
+      throw new BadRequestException('Informe os dígitos iniciais do CEP do destinatário');
+    }
+
+    const delivery = await this.deliveryRepository.findOne({
+      where: { tracking_code: code.toUpperCase() },
+      relations: ['driver', 'statusHistory', 'proofs'],
+    });
+
+    // Mesma resposta para código inexistente e CEP divergente, evitando enumeração
+    if (!delivery || (query.postal_code && !this.matchesPostalCode(delivery, query.postal_code))) {
+      this.logger.debug(`Consulta pública sem correspondência para o código ${code}`);
+      throw new NotFoundException('Código de rastreamento não encontrado');
+    }
+
+    return this.toPublicView(delivery);
+  }
+
+  private toPublicView(delivery: Delivery): PublicTrackingResponseDto {
+    const response: PublicTrackingResponseDto = {
+      tracking_code: delivery.tracking_code,
+      status: delivery.status,
+      status_description: DeliveryStatusDescriptions[delivery.status],
+      destination_city: delivery.delivery_address.city,
+      destination_state: delivery.delivery_address.state,
+      timeline: this.buildTimeline(delivery.statusHistory),
+      proofs: this.buildProofs(delivery.proofs),
+    };
+
+    const estimatedDeliveryAt = this.resolveEstimatedDelivery(delivery);
+    if (estimatedDeliveryAt) {
+      response.estimated_delivery_at = estimatedDeliveryAt;
+    }
+
+    const firstName = delivery.driver?.full_name.trim().split(/\s+/)[0];
+    if (firstName) {
+      response.driver_first_name = firstName;
+    }
+
+    const lastPosition = this.resolveLastPosition(delivery);
+    if (lastPosition) {
+      response.last_position = lastPosition;
+    }
+
+    return response;
+  }
+
+  private buildTimeline(history: DeliveryStatusHistory[] | undefined): PublicTrackingEventDto[] {
+    return [...(history ?? [])]
+      .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime())
+      .map(entry => {
+        const event: PublicTrackingEventDto = {
+          status: entry.to_status,
+          description: DeliveryStatusDescriptions[entry.to_status],
+          occurred_at: entry.changed_at,
+        };
+
+        if (entry.location?.city) {
+          event.city = entry.location.city;
+        }
+        if (entry.location?.state) {
+          event.state = entry.location.state;
+        }
+
+        return event;
+      });
+  }
+
+  private buildProofs(proofs: DeliveryProof[] | undefined): PublicTrackingProofDto[] {
+    return (proofs ?? [])
+      .filter(proof => PUBLIC_PROOF_TYPES.includes(proof.type) && proof.file_path)
+      .map(proof => ({
+        type: proof.type,
+        // Comprovantes sem miniatura (anteriores à geração no envio) exibem o original
+        thumbnail_url: proof.type_specific_data?.thumbnails?.small ?? proof.file_path ?? '',
+        captured_at: proof.captured_at,
+      }));
+  }
+
+  /**
+   * Previsão de entrega: data real se entregue, senão o ETA dinâmico da rota em
+   * execução, senão a última previsão registrada no histórico em trânsito, senão
+   * a data agendada
+   */
+  private resolveEstimatedDelivery(delivery: Delivery): Date | undefined {
+    if (delivery.status === DeliveryStatus.DELIVERED) {
+      return delivery.actual_delivery_at;
+    }
+
+    if (delivery.estimated_arrival_at && ActiveDeliveryStatuses.includes(delivery.status)) {
+      return delivery.estimated_arrival_at;
+    }
+
+    const latestEstimate = [...(delivery.statusHistory ?? [])]
+      .sort((a, b) => new Date(b.changed_at).getTime() - new Date(a.changed_at).getTime())
+      .find(entry => entry.status_metadata?.transit_data?.estimated_arrival)?.status_metadata
+      ?.transit_data?.estimated_arrival;
+
+    return latestEstimate ?? delivery.scheduled_delivery_at;
+  }
+
+  private resolveLastPosition(delivery: Delivery): PublicTrackingPositionDto | undefined {
+    const tracking = delivery.tracking_data;
+
+    if (
+      !ActiveDeliveryStatuses.includes(delivery.status) ||
+      tracking?.last_latitude === undefined ||
+      tracking.last_longitude === undefined ||
+      !tracking.last_update
+    ) {
+      return undefined;
+    }
+
+    return {
+      latitude: tracking.last_latitude,
+      longitude: tracking.last_longitude,
+      updated_at: tracking.last_update,
+    };
+  }
+
+  private matchesPostalCode(delivery: Delivery, postalCode: string): boolean {
+    const provided = postalCode.replace(/\D/g, '');
+    const expected = delivery.delivery_address.postal_code.replace(/\D/g, '');
+
+    return provided.length >= MIN_POSTAL_CODE_DIGITS && expected.startsWith(provided);
+  }
+}
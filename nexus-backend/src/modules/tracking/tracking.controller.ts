@@ -1,34 +1,172 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+  Req,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
 import { TrackingService } from './tracking.service';
 import { CreateTrackingDto } from './dto/create-tracking.dto';
-import { UpdateTrackingDto } from './dto/update-tracking.dto';
+import { TrackingBreadcrumbQueryDto } from './dto/tracking-filter.dto';
+import { TrackingResponseDto } from './dto/tracking-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { CurrentDataScope } from '../auth/decorators/current-data-scope.decorator';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
 
+/**
+ * Controller de rastreamento
+ *
+ * Gerencia a ingestão e consulta de posições GPS:
+ * - Registro de pings dos motoristas
+ * - Última posição por veículo
+ * - Trilha (breadcrumb) de uma rota por período
+ */
+@ApiTags('Tracking')
 @Controller('tracking')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class TrackingController {
   constructor(private readonly trackingService: TrackingService) {}
 
   @Post()
-  create(@Body() createTrackingDto: CreateTrackingDto) {
-    return this.trackingService.create(createTrackingDto);
-  }
+  @RequirePermissions('tracking:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Registrar ping GPS',
+    description:
+      'Registra a posição do motorista autenticado vinculada à rota ativa dele e atualiza o rastreamento das entregas da rota',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Posição registrada com sucesso',
+    type: TrackingResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Dados inválidos, rota inativa ou motorista/veículo divergentes da rota',
+  })
+  @ApiNotFoundResponse({
+    description: 'Rota não encontrada',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  @ApiForbiddenResponse({
+    description: 'Usuário não é motorista ou a posição é de outro motorista',
+  })
+  async create(
+    @Body() createDto: CreateTrackingDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<TrackingResponseDto> {
+    const driverId = request.user.driver_id;
+
+    if (!driverId) {
+      throw new ForbiddenException('Usuário não está vinculado a um motorista');
+    }
 
-  @Get()
-  findAll() {
-    return this.trackingService.findAll();
+    return this.trackingService.create(createDto, driverId);
   }
 
-  @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.trackingService.findOne(+id);
+  @Get('vehicles/latest')
+  @RequirePermissions('routes:read')
+  @ApiOperation({
+    summary: 'Últimas posições da frota',
+    description:
+      'Retorna a última posição conhecida de cada veículo. Motoristas veem apenas as próprias posições',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Posições retornadas com sucesso',
+    type: [TrackingResponseDto],
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async findLatestPositions(@CurrentDataScope() scope: DataScope): Promise<TrackingResponseDto[]> {
+    return this.trackingService.findLatestPositions(scope);
   }
 
-  @Patch(':id')
-  update(@Param('id') id: string, @Body() updateTrackingDto: UpdateTrackingDto) {
-    return this.trackingService.update(+id, updateTrackingDto);
+  @Get('vehicles/:vehicleId/latest')
+  @RequirePermissions('routes:read')
+  @ApiOperation({
+    summary: 'Última posição do veículo',
+    description:
+      'Retorna a última posição conhecida de um veículo específico. Motoristas veem apenas as próprias posições',
+  })
+  @ApiParam({
+    name: 'vehicleId',
+    description: 'ID do veículo',
+    example: '16586204-b498-48f5-923c-6821bc040266',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Posição encontrada com sucesso',
+    type: TrackingResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Nenhuma posição registrada para o veículo',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async findLatestByVehicle(
+    @Param('vehicleId', ParseUUIDPipe) vehicleId: string,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<TrackingResponseDto> {
+    return this.trackingService.findLatestByVehicle(vehicleId, scope);
   }
 
-  @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.trackingService.remove(+id);
+  @Get('routes/:routeId/breadcrumb')
+  @RequirePermissions('routes:read')
+  @ApiOperation({
+    summary: 'Trilha da rota',
+    description:
+      'Retorna as posições registradas de uma rota entre dois instantes. Motoristas veem apenas as rotas atribuídas a eles',
+  })
+  @ApiParam({
+    name: 'routeId',
+    description: 'ID da rota',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Trilha retornada com sucesso',
+    type: [TrackingResponseDto],
+  })
+  @ApiBadRequestResponse({
+    description: 'Período inválido',
+  })
+  @ApiNotFoundResponse({
+    description: 'Rota não encontrada',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Token de autenticação inválido ou ausente',
+  })
+  async findRouteBreadcrumb(
+    @Param('routeId', ParseUUIDPipe) routeId: string,
+    @Query() query: TrackingBreadcrumbQueryDto,
+    @CurrentDataScope() scope: DataScope,
+  ): Promise<TrackingResponseDto[]> {
+    return this.trackingService.findRouteBreadcrumb(routeId, query, scope);
   }
 }
@@ -2,12 +2,26 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { TrackingService } from './tracking.service';
 import { TrackingController } from './tracking.controller';
+import { PublicTrackingController } from './public-tracking.controller';
+import { PublicTrackingService } from './services/public-tracking.service';
 import { Tracking } from './entities/tracking.entity';
+import { Route } from '../routes/entities/route.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { GeofencesModule } from '../geofences/geofences.module';
+import { RouteAlertsModule } from '../route-alerts/route-alerts.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Tracking])],
-  controllers: [TrackingController],
-  providers: [TrackingService],
+  imports: [
+    TypeOrmModule.forFeature([Tracking, Route, Delivery]),
+    RateLimitModule,
+    GeofencesModule,
+    RouteAlertsModule,
+    AuthModule,
+  ],
+  controllers: [TrackingController, PublicTrackingController],
+  providers: [TrackingService, PublicTrackingService],
   exports: [TrackingService, TypeOrmModule],
 })
 export class TrackingModule {}
@@ -0,0 +1,207 @@
+import { Test, type TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ForbiddenException, Logger, NotFoundException } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+import { TrackingService } from './tracking.service';
+import { Tracking } from './entities/tracking.entity';
+import { Route } from '../routes/entities/route.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
+import { RouteStatus } from '../routes/enums/route-status';
+import { GeofenceEvaluationService } from '../geofences/services/geofence-evaluation.service';
+import { RouteMonitoringService } from '../route-alerts/services/route-monitoring.service';
+import type { CreateTrackingDto } from './dto/create-tracking.dto';
+import type { DataScope } from '../auth/interfaces/data-scope.interface';
+
+describe('TrackingService', () => {
+  let service: TrackingService;
+
+  const driverId = '11111111-1111-4111-8111-111111111111';
+  const vehicleId = '22222222-2222-4222-8222-222222222222';
+  const route = {
+    id: '33333333-3333-4333-8333-333333333333',
+    route_code: 'RT-0001',
+    driver_id: driverId,
+    vehicle_id: vehicleId,
+    status: RouteStatus.IN_PROGRESS,
+  } as Route;
+
+  const pingDto: CreateTrackingDto = {
+    vehicle_id: vehicleId,
+    latitude: -25.4284,
+    longitude: -49.2733,
+    speed: 42,
+    recorded_at: '2024-03-10T12:00:00.000Z',
+  };
+
+  const mockTrackingRepository = {
+    create: jest.fn((data: Partial<Tracking>) => data),
+    save: jest.fn((data: Partial<Tracking>) => Promise.resolve({ id: 'tracking-1', ...data })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn().mockResolvedValue({ affected: 2 }),
+  };
+
+  const mockRouteRepository = {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockGeofenceEvaluationService = {
+    evaluatePosition: jest.fn(),
+  };
+
+  const mockRouteMonitoringService = {
+    evaluatePosition: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrackingService,
+        { provide: getRepositoryToken(Tracking), useValue: mockTrackingRepository },
+        { provide: getRepositoryToken(Route), useValue: mockRouteRepository },
+        { provide: getRepositoryToken(Delivery), useValue: mockDeliveryRepository },
+        { provide: GeofenceEvaluationService, useValue: mockGeofenceEvaluationService },
+        { provide: RouteMonitoringService, useValue: mockRouteMonitoringService },
+      ],
+    }).compile();
+
+    service = module.get<TrackingService>(TrackingService);
+  });
+
+  describe('create', () => {
+    it('should record the ping on the caller active route and propagate it', async () => {
+      mockRouteRepository.findOne.mockResolvedValue(route);
+
+      await service.create(pingDto, driverId);
+
+      expect(mockRouteRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ driver_id: driverId, vehicle_id: vehicleId }),
+        }),
+      );
+      expect(mockTrackingRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          driver_id: driverId,
+          vehicle_id: vehicleId,
+          route_id: route.id,
+          speed: 42,
+          recorded_at: new Date(pingDto.recorded_at),
+        }),
+      );
+      expect(mockQueryBuilder.execute).toHaveBeenCalled();
+      expect(mockGeofenceEvaluationService.evaluatePosition).toHaveBeenCalled();
+      expect(mockRouteMonitoringService.evaluatePosition).toHaveBeenCalled();
+    });
+
+    it('should reject pings on behalf of another driver', async () => {
+      await expect(
+        service.create({ ...pingDto, driver_id: '44444444-4444-4444-8444-444444444444' }, driverId),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(mockTrackingRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject pings for a route of another driver or vehicle', async () => {
+      mockRouteRepository.findOne.mockResolvedValue({
+        ...route,
+        driver_id: '44444444-4444-4444-8444-444444444444',
+      });
+
+      await expect(
+        service.create({ ...pingDto, route_id: route.id }, driverId),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(mockTrackingRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject pings when the driver has no active route', async () => {
+      mockRouteRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.create(pingDto, driverId)).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should keep the ping when geofence evaluation fails', async () => {
+      mockRouteRepository.findOne.mockResolvedValue(route);
+      mockGeofenceEvaluationService.evaluatePosition.mockRejectedValueOnce(new Error('boom'));
+      const errorSpy = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+      await expect(service.create(pingDto, driverId)).resolves.toBeDefined();
+      expect(mockRouteMonitoringService.evaluatePosition).toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalled();
+
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('data scopes', () => {
+    const driverScope: DataScope = { unrestricted: false, userId: 'user-1', driverId };
+    const customerScope: DataScope = { unrestricted: false, userId: 'user-2', customerId: 'c-1' };
+    const breadcrumbQuery = { from: '2024-03-10T00:00:00.000Z', to: '2024-03-10T23:59:59.000Z' };
+
+    it('should return only the latest position sent by the driver', async () => {
+      mockTrackingRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findLatestByVehicle(vehicleId, driverScope)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+
+      expect(mockTrackingRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [{ vehicle_id: vehicleId, driver_id: driverId }],
+        }),
+      );
+    });
+
+    it('should hide the breadcrumb of a route assigned to another driver', async () => {
+      mockRouteRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        service.findRouteBreadcrumb(route.id, breadcrumbQuery, driverScope),
+      ).rejects.toBeInstanceOf(NotFoundException);
+
+      expect(mockRouteRepository.exists).toHaveBeenCalledWith({
+        where: [{ id: route.id, driver_id: driverId }],
+      });
+      expect(mockTrackingRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should return the breadcrumb of the route assigned to the driver', async () => {
+      mockRouteRepository.exists.mockResolvedValue(true);
+      mockTrackingRepository.find.mockResolvedValue([]);
+
+      await service.findRouteBreadcrumb(route.id, breadcrumbQuery, driverScope);
+
+      expect(mockTrackingRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [expect.objectContaining({ route_id: route.id, driver_id: driverId })],
+        }),
+      );
+    });
+
+    it('should not match any route for users without a driver link', async () => {
+      mockRouteRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        service.findRouteBreadcrumb(route.id, breadcrumbQuery, customerScope),
+      ).rejects.toBeInstanceOf(NotFoundException);
+
+      expect(mockRouteRepository.exists).toHaveBeenCalledWith({
+        where: [{ id: IsNull() }],
+      });
+    });
+  });
+});
@@ -1,26 +1,283 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, In } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { Tracking } from './entities/tracking.entity';
+import { Route } from '../routes/entities/route.entity';
+import { Delivery } from '../deliveries/entities/delivery.entity';
 import { CreateTrackingDto } from './dto/create-tracking.dto';
-import { UpdateTrackingDto } from './dto/update-tracking.dto';
+import { TrackingBreadcrumbQueryDto } from './dto/tracking-filter.dto';
+import { TrackingResponseDto } from './dto/tracking-response.dto';
+import { RouteStatus } from '../routes/enums/route-status';
+import { ActiveDeliveryStatuses } from '../deliveries/enums/delivery-status.enum';
+import { GeofenceEvaluationService } from '../geofences/services/geofence-evaluation.service';
+import { RouteMonitoringService } from '../route-alerts/services/route-monitoring.service';
+import { DataScopes } from '../auth/utils/data-scope.util';
+import type { DataScope, DataScopeFields } from '../auth/interfaces/data-scope.interface';
+
+/**
+ * Status de rota que aceitam pings GPS
+ */
+const TRACKABLE_ROUTE_STATUSES = [RouteStatus.IN_PROGRESS, RouteStatus.PAUSED];
+
+/**
+ * Dono de uma posição: o motorista que enviou o ping
+ */
+const TRACKING_SCOPE_FIELDS: DataScopeFields<Tracking> = { driver: 'driver_id' };
+
+/**
+ * Dono de uma rota: o motorista atribuído
+ */
+const ROUTE_SCOPE_FIELDS: DataScopeFields<Route> = { driver: 'driver_id' };
 
 @Injectable()
 export class TrackingService {
-  create(_createTrackingDto: CreateTrackingDto) {
-    return 'This action adds a new tracking';
+  private readonly logger = new Logger(TrackingService.name);
+
+  constructor(
+    @InjectRepository(Tracking)
+    private readonly trackingRepository: Repository<Tracking>,
+    @InjectRepository(Route)
+    private readonly routeRepository: Repository<Route>,
+    @InjectRepository(Delivery)
+    private readonly deliveryRepository: Repository<Delivery>,
+    private readonly geofenceEvaluationService: GeofenceEvaluationService,
+    private readonly routeMonitoringService: RouteMonitoringService,
+  ) {}
+
+  /**
+   * Registra um ping GPS, propaga a posição para as entregas da rota, avalia as
+   * geofences e os alertas de desvio, parada e velocidade
+   *
+   * @param driverId - Motorista do usuário autenticado; a posição só é aceita
+   * para a rota ativa dele com o veículo da rota
+   */
+  async create(createDto: CreateTrackingDto, driverId: string): Promise<TrackingResponseDto> {
+    if (createDto.driver_id && createDto.driver_id !== driverId) {
+      throw new ForbiddenException('Posições só podem ser enviadas pelo próprio motorista');
+    }
+
+    const route = await this.resolveActiveRoute(createDto, driverId);
+    const recordedAt = new Date(createDto.recorded_at);
+
+    // Criar objeto LIMPO - sem campos undefined
+    const preparedData: Partial<Tracking> = {
+      driver_id: driverId,
+      vehicle_id: createDto.vehicle_id,
+      route_id: route.id,
+      latitude: createDto.latitude,
+      longitude: createDto.longitude,
+      recorded_at: recordedAt,
+    };
+
+    if (createDto.speed !== undefined) {
+      preparedData.speed = createDto.speed;
+    }
+    if (createDto.heading !== undefined) {
+      preparedData.heading = createDto.heading;
+    }
+    if (createDto.accuracy !== undefined) {
+      preparedData.accuracy = createDto.accuracy;
+    }
+
+    const saved = await this.trackingRepository.save(this.trackingRepository.create(preparedData));
+
+    await this.updateDeliveriesTrackingData(route, saved);
+    await this.evaluateGeofences(route, saved);
+    await this.monitorRoute(route, saved);
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Retorna a última posição conhecida de cada veículo
+   *
+   * @param scope - Escopo do solicitante; motoristas veem apenas as próprias posições
+   */
+  async findLatestPositions(scope: DataScope): Promise<TrackingResponseDto[]> {
+    const queryBuilder = this.trackingRepository
+      .createQueryBuilder('tracking')
+      .distinctOn(['tracking.vehicle_id'])
+      .orderBy('tracking.vehicle_id')
+      .addOrderBy('tracking.recorded_at', 'DESC');
+
+    DataScopes.apply(queryBuilder, scope, TRACKING_SCOPE_FIELDS);
+
+    const positions = await queryBuilder.getMany();
+
+    return positions.map(position => this.mapToResponseDto(position));
+  }
+
+  /**
+   * Retorna a última posição conhecida de um veículo
+   *
+   * @param scope - Escopo do solicitante; motoristas veem apenas as próprias posições
+   */
+  async findLatestByVehicle(vehicleId: string, scope: DataScope): Promise<TrackingResponseDto> {
+    const position = await this.trackingRepository.findOne({
+      where: DataScopes.where({ vehicle_id: vehicleId }, scope, TRACKING_SCOPE_FIELDS),
+      order: { recorded_at: 'DESC' },
+    });
+
+    if (!position) {
+      throw new NotFoundException(`Nenhuma posição registrada para o veículo ${vehicleId}`);
+    }
+
+    return this.mapToResponseDto(position);
+  }
+
+  /**
+   * Retorna a trilha (breadcrumb) de uma rota entre dois instantes
+   *
+   * @param scope - Escopo do solicitante; motoristas veem apenas as rotas atribuídas a eles
+   */
+  async findRouteBreadcrumb(
+    routeId: string,
+    query: TrackingBreadcrumbQueryDto,
+    scope: DataScope,
+  ): Promise<TrackingResponseDto[]> {
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    if (from > to) {
+      throw new BadRequestException('A data inicial deve ser anterior à data final');
+    }
+
+    const routeExists = await this.routeRepository.exists({
+      where: DataScopes.where({ id: routeId }, scope, ROUTE_SCOPE_FIELDS),
+    });
+    if (!routeExists) {
+      throw new NotFoundException(`Rota com ID ${routeId} não encontrada`);
+    }
+
+    const points = await this.trackingRepository.find({
+      where: DataScopes.where(
+        { route_id: routeId, recorded_at: Between(from, to) },
+        scope,
+        TRACKING_SCOPE_FIELDS,
+      ),
+      order: { recorded_at: 'ASC' },
+    });
+
+    return points.map(point => this.mapToResponseDto(point));
   }
 
-  findAll() {
-    return `This action returns all tracking`;
+  /**
+   * Resolve a rota ativa do ping, validando motorista e veículo
+   */
+  private async resolveActiveRoute(createDto: CreateTrackingDto, driverId: string): Promise<Route> {
+    if (!createDto.route_id) {
+      const activeRoute = await this.routeRepository.findOne({
+        where: {
+          driver_id: driverId,
+          vehicle_id: createDto.vehicle_id,
+          status: In(TRACKABLE_ROUTE_STATUSES),
+        },
+        order: { actual_start_time: 'DESC' },
+      });
+
+      if (!activeRoute) {
+        throw new BadRequestException(
+          `Nenhuma rota ativa encontrada para o motorista ${driverId} e veículo ${createDto.vehicle_id}`,
+        );
+      }
+
+      return activeRoute;
+    }
+
+    const route = await this.routeRepository.findOne({ where: { id: createDto.route_id } });
+
+    if (!route) {
+      throw new NotFoundException(`Rota com ID ${createDto.route_id} não encontrada`);
+    }
+
+    if (!TRACKABLE_ROUTE_STATUSES.includes(route.status)) {
+      throw new BadRequestException(
+        `Rota não está ativa. Status atual: ${route.status}. Apenas rotas em andamento ou pausadas recebem posições`,
+      );
+    }
+
+    if (route.driver_id !== driverId || route.vehicle_id !== createDto.vehicle_id) {
+      throw new BadRequestException('Motorista ou veículo não correspondem aos da rota informada');
+    }
+
+    return route;
+  }
+
+  /**
+   * Atualiza tracking_data das entregas ativas da rota
+   *
+   * Entregas sem vínculo de rota (route_id) são identificadas pelo motorista/veículo da rota.
+   * Pings recebidos fora de ordem não sobrescrevem uma posição mais recente
+   */
+  private async updateDeliveriesTrackingData(route: Route, ping: Tracking): Promise<void> {
+    const trackingData: NonNullable<Delivery['tracking_data']> = {
+      last_latitude: Number(ping.latitude),
+      last_longitude: Number(ping.longitude),
+      last_update: ping.recorded_at,
+    };
+
+    if (ping.speed !== undefined && ping.speed !== null) {
+      trackingData.speed = Number(ping.speed);
+    }
+    if (ping.heading !== undefined && ping.heading !== null) {
+      trackingData.heading = Number(ping.heading);
+    }
+    if (ping.accuracy !== undefined && ping.accuracy !== null) {
+      trackingData.accuracy = Number(ping.accuracy);
+    }
+
+    const result = await this.deliveryRepository
+      .createQueryBuilder()
+      .update(Delivery)
+      .set({ tracking_data: trackingData })
+      .where(
+        '(route_id = :routeId OR (route_id IS NULL AND driver_id = :driverId AND vehicle_id = :vehicleId))',
+        { routeId: route.id, driverId: route.driver_id, vehicleId: route.vehicle_id },
+      )
+      .andWhere('status IN (:...statuses)', { statuses: ActiveDeliveryStatuses })
+      .andWhere(
+        "(tracking_data->>'last_update' IS NULL OR (tracking_data->>'last_update')::timestamptz < :recordedAt)",
+        { recordedAt: ping.recorded_at },
+      )
+      .execute();
+
+    this.logger.debug(
+      `Ping da rota ${route.route_code} propagado para ${result.affected ?? 0} entrega(s)`,
+    );
   }
 
-  findOne(id: number) {
-    return `This action returns a #${id} tracking`;
+  /**
+   * Avalia a posição contra as geofences; falhas não impedem o registro do ping
+   */
+  private async evaluateGeofences(route: Route, ping: Tracking): Promise<void> {
+    try {
+      await this.geofenceEvaluationService.evaluatePosition(ping, route);
+    } catch (error) {
+      this.logger.error(`Erro ao avaliar geofences do ping da rota ${route.route_code}:`, error);
+    }
   }
 
-  update(id: number, _updateTrackingDto: UpdateTrackingDto) {
-    return `This action updates a #${id} tracking`;
+  /**
+   * Avalia os alertas de rota da posição; falhas não impedem o registro do ping
+   */
+  private async monitorRoute(route: Route, ping: Tracking): Promise<void> {
+    try {
+      await this.routeMonitoringService.evaluatePosition(ping, route);
+    } catch (error) {
+      this.logger.error(`Erro ao avaliar alertas do ping da rota ${route.route_code}:`, error);
+    }
   }
 
-  remove(id: number) {
-    return `This action removes a #${id} tracking`;
+  private mapToResponseDto(tracking: Tracking): TrackingResponseDto {
+    return plainToInstance(TrackingResponseDto, tracking, {
+      excludeExtraneousValues: true,
+    });
   }
 }
@@ -134,6 +134,39 @@ export class UploadService {
     return Promise.all(uploadPromises);
   }
 
+  /**
+   * Upload de arquivo genérico (relatórios, documentos) sem processamento
+   */
+  async uploadFile(
+    buffer: Buffer,
+    folder: string,
+    filename: string,
+    contentType: string,
+  ): Promise<{ url: string; key: string }> {
+    const key = `${folder}/${uuidv4()}/${filename}`;
+
+    try {
+      const url = await this.uploadToB2(buffer, key, contentType);
+
+      this.logger.log(`File uploaded successfully: ${key}`, { size: buffer.length });
+
+      return { url, key };
+    } catch (error) {
+      this.logger.error('Failed to upload file', error instanceof Error ? error.stack : undefined);
+      throw new InternalServerErrorException('Failed to upload file');
+    }
+  }
+
+  /**
+   * Gerar thumbnails de uma imagem enviada com uploadFile, sem reprocessar o
+   * original (mesma convenção de nomes de uploadImage: <base>_<tamanho>.webp)
+   */
+  async uploadThumbnails(buffer: Buffer, key: string): Promise<UploadResult['thumbnails']> {
+    const baseFileName = key.replace(/\.[^/.]+$/, '');
+
+    return this.generateAndUploadThumbnails(buffer, baseFileName, this.getFileExtension(key));
+  }
+
   /**
    * Deletar imagem e seus thumbnails
    */
@@ -1,4 +1,12 @@
-import { IsEmail, IsString, IsOptional, IsEnum, MinLength, MaxLength } from 'class-validator';
+import {
+  IsEmail,
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
 import { UserType } from '../enums/user-type.enum';
 import { UserStatus } from '../enums/user-status.enum';
 
@@ -33,4 +41,14 @@ export class CreateUserDto {
 
   @IsOptional()
   preferences?: Record<string, unknown>;
+
+  // Vínculo que limita o usuário cliente aos próprios registros
+  @IsOptional()
+  @IsUUID()
+  customer_id?: string;
+
+  // Vínculo que limita o usuário motorista aos próprios registros
+  @IsOptional()
+  @IsUUID()
+  driver_id?: string;
 }
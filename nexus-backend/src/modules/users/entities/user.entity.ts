@@ -1,8 +1,10 @@
-import { Entity, Column, ManyToMany, JoinTable } from 'typeorm';
+import { Entity, Column, ManyToMany, JoinTable, ManyToOne, OneToOne, JoinColumn } from 'typeorm';
 import { BaseEntity } from '../../../database/entities/base.entity';
 import { UserStatus } from '../enums/user-status.enum';
 import { UserType } from '../enums/user-type.enum';
 import { Role } from '../../auth/entities/role.entity';
+import { Customer } from '../../customers/entities/customer.entity';
+import { Driver } from '../../drivers/entities/driver.entity';
 
 /**
  * User Entity - Sistema de usuários do Nexus Transit
@@ -96,6 +98,60 @@ export class User extends BaseEntity {
   })
   email_verified_at?: Date;
 
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: 'Autenticação em dois fatores (TOTP) ativa',
+  })
+  two_factor_enabled!: boolean;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data de ativação da autenticação em dois fatores',
+  })
+  two_factor_enabled_at?: Date | null;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    select: false,
+    comment: 'Segredo TOTP em Base32 (pendente até a confirmação do cadastro)',
+  })
+  two_factor_secret?: string | null;
+
+  @Column({
+    type: 'text',
+    array: true,
+    nullable: true,
+    select: false,
+    comment: 'Hashes SHA-256 dos códigos de recuperação ainda não usados',
+  })
+  two_factor_recovery_codes?: string[] | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Último passo de tempo TOTP aceito (impede reutilização do código)',
+  })
+  two_factor_last_step?: number | null;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'Cliente vinculado ao usuário (perfil cliente)',
+  })
+  customer_id?: string | null;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    unique: true,
+    comment: 'Motorista vinculado ao usuário (perfil motorista)',
+  })
+  driver_id?: string | null;
+
   // Relacionamentos
 
   @ManyToMany(() => Role, role => role.users)
@@ -112,6 +168,14 @@ export class User extends BaseEntity {
   })
   roles!: Role[];
 
+  @ManyToOne(() => Customer, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'customer_id' })
+  customer?: Customer | null;
+
+  @OneToOne(() => Driver, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'driver_id' })
+  driver?: Driver | null;
+
   // Computed properties
 
   /**
@@ -9,7 +9,10 @@ import {
   HttpCode,
   HttpStatus,
   NotFoundException,
+  ForbiddenException,
   ParseUUIDPipe,
+  UseGuards,
+  Req,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,19 +22,27 @@ import {
   ApiBearerAuth,
   ApiNotFoundResponse,
   ApiBadRequestResponse,
+  ApiForbiddenResponse,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { User } from './entities/user.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Role } from '../auth/enums/role.enum';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
 
 @ApiTags('Users')
 @ApiBearerAuth('JWT-auth')
 @Controller('users')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Post()
+  @RequirePermissions('users:create')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Criar novo usuário',
@@ -45,11 +56,20 @@ export class UsersController {
   @ApiBadRequestResponse({
     description: 'Dados inválidos fornecidos',
   })
-  async create(@Body() createUserDto: CreateUserDto): Promise<User> {
+  @ApiForbiddenResponse({
+    description: 'Sem permissão, ou vínculo com cliente/motorista informado por não administrador',
+  })
+  async create(
+    @Body() createUserDto: CreateUserDto,
+    @Req() request: AuthenticatedRequest,
+  ): Promise<User> {
+    this.assertCanLinkAccounts(createUserDto, request.user);
+
     return this.usersService.create(createUserDto);
   }
 
   @Get()
+  @RequirePermissions('users:read')
   @ApiOperation({
     summary: 'Listar usuários',
     description: 'Retorna a lista de todos os usuários',
@@ -64,6 +84,7 @@ export class UsersController {
   }
 
   @Get(':id')
+  @RequirePermissions('users:read')
   @ApiOperation({
     summary: 'Buscar usuário por ID',
     description: 'Retorna um usuário específico pelo ID',
@@ -90,6 +111,7 @@ export class UsersController {
   }
 
   @Patch(':id')
+  @RequirePermissions('users:update')
   @ApiOperation({
     summary: 'Atualizar usuário',
     description: 'Atualiza os dados de um usuário',
@@ -110,10 +132,16 @@ export class UsersController {
   @ApiBadRequestResponse({
     description: 'Dados inválidos fornecidos',
   })
+  @ApiForbiddenResponse({
+    description: 'Sem permissão, ou vínculo com cliente/motorista informado por não administrador',
+  })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @Req() request: AuthenticatedRequest,
   ): Promise<User> {
+    this.assertCanLinkAccounts(updateUserDto, request.user);
+
     const user = await this.usersService.update(id, updateUserDto);
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found`);
@@ -122,6 +150,7 @@ export class UsersController {
   }
 
   @Delete(':id')
+  @RequirePermissions('users:delete')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Remover usuário',
@@ -147,6 +176,7 @@ export class UsersController {
   }
 
   @Post(':id/restore')
+  @RequirePermissions('users:delete')
   @ApiOperation({
     summary: 'Restaurar usuário',
     description: 'Restaura um usuário que foi removido (soft delete)',
@@ -171,4 +201,25 @@ export class UsersController {
     }
     return user;
   }
+
+  /**
+   * Os vínculos com cliente e motorista definem o escopo de dados do usuário
+   * (DataScopes) e só podem ser informados por administradores
+   */
+  private assertCanLinkAccounts(
+    dto: Pick<CreateUserDto, 'customer_id' | 'driver_id'>,
+    user: User,
+  ): void {
+    if (dto.customer_id === undefined && dto.driver_id === undefined) {
+      return;
+    }
+
+    const isAdmin = (user.roles ?? []).some(role => role.is_active && role.name === Role.ADMIN);
+
+    if (!isAdmin) {
+      throw new ForbiddenException(
+        'Apenas administradores podem vincular usuários a clientes ou motoristas',
+      );
+    }
+  }
 }
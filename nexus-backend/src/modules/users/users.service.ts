@@ -13,7 +13,12 @@ export class UsersService {
   ) {}
 
   async create(createUserDto: CreateUserDto): Promise<User> {
-    const user = this.userRepository.create(createUserDto);
+    // Usuários criados pelo administrador não passam pela verificação de email
+    const user = this.userRepository.create({
+      ...createUserDto,
+      email_verified: true,
+      email_verified_at: new Date(),
+    });
     return this.userRepository.save(user);
   }
 
@@ -43,6 +48,12 @@ export class UsersService {
     });
   }
 
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await this.userRepository.update(id, {
+      password_hash: passwordHash,
+    });
+  }
+
   async update(id: string, updateUserDto: UpdateUserDto): Promise<User | null> {
     const user = await this.findOne(id);
     if (!user) {
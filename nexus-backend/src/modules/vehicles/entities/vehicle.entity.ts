@@ -9,6 +9,7 @@ import { VehicleDriverHistory } from './vehicle-driver-history.entity';
 import { Auditable } from '../decorators/auditable.decorator';
 import { Delivery } from '../../deliveries/entities/delivery.entity';
 import { Route } from '../../routes/entities/route.entity';
+import { Incident } from '../../incidents/entities/incident.entity';
 
 /**
  * Vehicle Entity - Sistema de gerenciamento de veículos
@@ -196,12 +197,10 @@ export class Vehicle extends BaseEntity {
   @OneToMany(() => Route, route => route.vehicle)
   routes!: Route[];
 
-  // TODO: Adicionar relacionamento com Incident quando a entidade estiver implementada
-  // @OneToMany(() => Incident, incident => incident.vehicle, {
-  //   cascade: true,
-  //   eager: false,
-  // })
-  // incidents!: Incident[];
+  @OneToMany(() => Incident, incident => incident.vehicle, {
+    eager: false,
+  })
+  incidents!: Incident[];
 
   // Computed properties
 
@@ -0,0 +1,60 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventType } from '../enums/webhook-event-type.enum';
+
+/**
+ * DTO para criar assinatura de webhook
+ *
+ * O segredo de assinatura é gerado pelo sistema e retornado apenas na criação
+ * e na rotação.
+ */
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({ description: 'ID do cliente', format: 'uuid' })
+  @IsUUID()
+  customer_id!: string;
+
+  @ApiProperty({
+    description: 'URL HTTPS do endpoint que recebe os eventos',
+    example: 'https://erp.cliente.com.br/webhooks/nexus',
+  })
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: 'URL deve ser um endereço HTTPS válido' },
+  )
+  @MaxLength(2048)
+  url!: string;
+
+  @ApiProperty({
+    description: 'Eventos assinados',
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.DELIVERY_STATUS_CHANGED, WebhookEventType.DELIVERY_ETA_CHANGED],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Selecione ao menos um evento' })
+  @ArrayUnique()
+  @IsEnum(WebhookEventType, { each: true })
+  events!: WebhookEventType[];
+
+  @ApiPropertyOptional({ description: 'Descrição da assinatura', example: 'Integração ERP' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Assinatura ativa', default: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
@@ -0,0 +1,11 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateWebhookSubscriptionDto } from './create-webhook-subscription.dto';
+
+/**
+ * DTO para atualizar assinatura de webhook
+ *
+ * O cliente não muda; o segredo é trocado em POST /webhooks/subscriptions/:id/rotate-secret
+ */
+export class UpdateWebhookSubscriptionDto extends PartialType(
+  OmitType(CreateWebhookSubscriptionDto, ['customer_id'] as const),
+) {}
@@ -0,0 +1,48 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { WebhookEventType } from '../enums/webhook-event-type.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+/**
+ * DTO para filtrar o log de envios de webhook
+ */
+export class WebhookDeliveryFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por assinatura (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  subscription_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por cliente (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  customer_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por status', enum: WebhookDeliveryStatus })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({ description: 'Filtrar por tipo de evento', enum: WebhookEventType })
+  @IsOptional()
+  @IsEnum(WebhookEventType)
+  event_type?: WebhookEventType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por entrega (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  delivery_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Envios criados a partir de',
+    example: '2024-01-15T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Envios criados até', example: '2024-01-15T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -0,0 +1,169 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { WebhookEventType } from '../enums/webhook-event-type.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+/**
+ * DTO de resposta de assinatura de webhook (sem o segredo)
+ */
+export class WebhookSubscriptionResponseDto {
+  @ApiProperty({ description: 'ID da assinatura' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID do cliente' })
+  @Expose()
+  customer_id!: string;
+
+  @ApiProperty({ description: 'URL do endpoint' })
+  @Expose()
+  url!: string;
+
+  @ApiProperty({ description: 'Eventos assinados', enum: WebhookEventType, isArray: true })
+  @Expose()
+  events!: WebhookEventType[];
+
+  @ApiPropertyOptional({ description: 'Descrição' })
+  @Expose()
+  description?: string;
+
+  @ApiProperty({ description: 'Assinatura ativa' })
+  @Expose()
+  is_active!: boolean;
+
+  @ApiPropertyOptional({ description: 'Data/hora do último envio aceito' })
+  @Expose()
+  last_success_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Data/hora da última falha de envio' })
+  @Expose()
+  last_failure_at?: Date;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+
+  @ApiProperty({ description: 'Data de atualização' })
+  @Expose()
+  updated_at!: Date;
+}
+
+/**
+ * DTO de resposta com o segredo de assinatura (criação e rotação)
+ */
+export class WebhookSubscriptionSecretResponseDto extends WebhookSubscriptionResponseDto {
+  @ApiProperty({
+    description: 'Segredo da assinatura HMAC; exibido apenas nesta resposta',
+    example: 'whsec_5f8c...',
+  })
+  @Expose()
+  secret!: string;
+}
+
+/**
+ * DTO de resposta de tentativa de envio de webhook
+ */
+export class WebhookDeliveryAttemptResponseDto {
+  @ApiProperty({ description: 'Número da tentativa' })
+  @Expose()
+  attempt_number!: number;
+
+  @ApiProperty({ description: 'Endpoint aceitou o envio (2xx)' })
+  @Expose()
+  success!: boolean;
+
+  @ApiPropertyOptional({ description: 'Código HTTP da resposta', example: 200 })
+  @Expose()
+  response_status?: number;
+
+  @ApiPropertyOptional({ description: 'Início do corpo da resposta' })
+  @Expose()
+  response_body?: string;
+
+  @ApiPropertyOptional({ description: 'Erro de envio' })
+  @Expose()
+  error_message?: string;
+
+  @ApiProperty({ description: 'Duração (ms)' })
+  @Expose()
+  duration_ms!: number;
+
+  @ApiProperty({ description: 'Data/hora da tentativa' })
+  @Expose()
+  attempted_at!: Date;
+}
+
+/**
+ * DTO de resposta de envio de webhook
+ */
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ description: 'ID do envio' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'ID da assinatura' })
+  @Expose()
+  subscription_id!: string;
+
+  @ApiProperty({ description: 'ID do evento (enviado no payload)' })
+  @Expose()
+  event_id!: string;
+
+  @ApiProperty({ description: 'Tipo do evento', enum: WebhookEventType })
+  @Expose()
+  event_type!: WebhookEventType;
+
+  @ApiPropertyOptional({ description: 'ID da entrega relacionada' })
+  @Expose()
+  delivery_id?: string;
+
+  @ApiProperty({ description: 'Status do envio', enum: WebhookDeliveryStatus })
+  @Expose()
+  status!: WebhookDeliveryStatus;
+
+  @ApiProperty({ description: 'Tentativas realizadas' })
+  @Expose()
+  attempts!: number;
+
+  @ApiProperty({ description: 'Máximo de tentativas' })
+  @Expose()
+  max_attempts!: number;
+
+  @ApiProperty({ description: 'Próxima tentativa a partir de' })
+  @Expose()
+  next_attempt_at!: Date;
+
+  @ApiPropertyOptional({ description: 'Código HTTP da última resposta' })
+  @Expose()
+  last_response_status?: number | null;
+
+  @ApiPropertyOptional({ description: 'Último erro de envio' })
+  @Expose()
+  last_error?: string | null;
+
+  @ApiPropertyOptional({ description: 'Data/hora em que o endpoint aceitou o envio' })
+  @Expose()
+  succeeded_at?: Date | null;
+
+  @ApiPropertyOptional({ description: 'Data/hora em que foi movido para dead-letter' })
+  @Expose()
+  dead_lettered_at?: Date | null;
+
+  @ApiProperty({ description: 'Data de criação' })
+  @Expose()
+  created_at!: Date;
+}
+
+/**
+ * DTO de resposta de envio de webhook com payload e tentativas
+ */
+export class WebhookDeliveryDetailResponseDto extends WebhookDeliveryResponseDto {
+  @ApiProperty({ description: 'Payload enviado' })
+  @Expose()
+  payload!: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Tentativas de envio', type: [WebhookDeliveryAttemptResponseDto] })
+  @Expose()
+  @Type(() => WebhookDeliveryAttemptResponseDto)
+  attempt_log!: WebhookDeliveryAttemptResponseDto[];
+}
@@ -0,0 +1,26 @@
+import { IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { BaseFilterDto } from '../../../common/dto/base-filter.dto';
+import { WebhookEventType } from '../enums/webhook-event-type.enum';
+
+/**
+ * DTO para filtrar assinaturas de webhook
+ */
+export class WebhookSubscriptionFilterDto extends BaseFilterDto {
+  @ApiPropertyOptional({ description: 'Filtrar por cliente (ID)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  customer_id?: string;
+
+  @ApiPropertyOptional({ description: 'Filtrar por evento assinado', enum: WebhookEventType })
+  @IsOptional()
+  @IsEnum(WebhookEventType)
+  event?: WebhookEventType;
+
+  @ApiPropertyOptional({ description: 'Filtrar por assinaturas ativas/inativas' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  is_active?: boolean;
+}
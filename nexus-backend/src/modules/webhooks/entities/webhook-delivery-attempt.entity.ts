@@ -0,0 +1,72 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { WebhookDelivery } from './webhook-delivery.entity';
+
+/**
+ * WebhookDeliveryAttempt Entity - Tentativas de envio de webhook
+ *
+ * Registra cada requisição ao endpoint do cliente com o código de resposta,
+ * o início do corpo da resposta e a duração.
+ */
+@Entity('webhook_delivery_attempts')
+@Index(['webhook_delivery_id', 'attempt_number'])
+export class WebhookDeliveryAttempt extends BaseEntity {
+  // Relacionamento com Envio
+  @ManyToOne(() => WebhookDelivery, delivery => delivery.attempt_log, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'webhook_delivery_id' })
+  webhook_delivery!: WebhookDelivery;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do envio de webhook',
+  })
+  webhook_delivery_id!: string;
+
+  @Column({
+    type: 'integer',
+    comment: 'Número da tentativa',
+  })
+  attempt_number!: number;
+
+  @Column({
+    type: 'boolean',
+    comment: 'Indica se o endpoint aceitou o envio (2xx)',
+  })
+  success!: boolean;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Código HTTP da resposta (nulo em falha de conexão ou timeout)',
+  })
+  response_status?: number;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Início do corpo da resposta',
+  })
+  response_body?: string;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Erro de envio',
+  })
+  error_message?: string;
+
+  @Column({
+    type: 'integer',
+    comment: 'Duração da requisição em milissegundos',
+  })
+  duration_ms!: number;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora da tentativa',
+  })
+  attempted_at!: Date;
+}
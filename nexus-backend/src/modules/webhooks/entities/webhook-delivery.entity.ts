@@ -0,0 +1,126 @@
+import { Entity, Column, ManyToOne, OneToMany, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookDeliveryAttempt } from './webhook-delivery-attempt.entity';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import { WebhookEventType } from '../enums/webhook-event-type.enum';
+import type { WebhookPayload } from '../interfaces/webhook-payload.interface';
+
+/**
+ * WebhookDelivery Entity - Fila persistente e log de envios de webhook
+ *
+ * Features:
+ * - Um envio por evento e assinatura (idempotente por event_id)
+ * - Retentativas com backoff exponencial e dead-letter
+ * - Tentativas registradas com o código de resposta do endpoint
+ * - Reenvio manual (replay) do mesmo payload
+ */
+@Entity('webhook_deliveries')
+@Index(['status', 'next_attempt_at'])
+@Index(['subscription_id', 'created_at'])
+@Index(['delivery_id'])
+@Index(['subscription_id', 'event_id'], { unique: true })
+export class WebhookDelivery extends BaseEntity {
+  // Relacionamento com Assinatura
+  @ManyToOne(() => WebhookSubscription, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscription_id' })
+  subscription!: WebhookSubscription;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID da assinatura',
+  })
+  subscription_id!: string;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do evento (enviado no payload; o mesmo em todas as assinaturas)',
+  })
+  event_id!: string;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookEventType,
+    comment: 'Tipo do evento',
+  })
+  event_type!: WebhookEventType;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+    comment: 'ID da entrega relacionada',
+  })
+  delivery_id?: string;
+
+  @Column({
+    type: 'jsonb',
+    comment: 'Payload enviado',
+  })
+  payload!: WebhookPayload;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+    comment: 'Status do envio',
+  })
+  status!: WebhookDeliveryStatus;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Tentativas realizadas',
+  })
+  attempts!: number;
+
+  @Column({
+    type: 'integer',
+    default: 8,
+    comment: 'Máximo de tentativas antes do dead-letter',
+  })
+  max_attempts!: number;
+
+  @Column({
+    type: 'timestamp with time zone',
+    comment: 'Data/hora a partir da qual o envio pode ser tentado',
+  })
+  next_attempt_at!: Date;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Código HTTP da última resposta',
+  })
+  last_response_status?: number | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Último erro de envio',
+  })
+  last_error?: string | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da reserva pelo worker',
+  })
+  locked_at?: Date | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora em que o endpoint aceitou o envio',
+  })
+  succeeded_at?: Date | null;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora em que foi movido para dead-letter',
+  })
+  dead_lettered_at?: Date | null;
+
+  @OneToMany(() => WebhookDeliveryAttempt, attempt => attempt.webhook_delivery)
+  attempt_log!: WebhookDeliveryAttempt[];
+}
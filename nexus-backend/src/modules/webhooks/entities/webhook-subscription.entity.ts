@@ -0,0 +1,77 @@
+import { Entity, Column, ManyToOne, Index, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../database/entities/base.entity';
+import { Customer } from '../../customers/entities/customer.entity';
+import type { WebhookEventType } from '../enums/webhook-event-type.enum';
+
+/**
+ * WebhookSubscription Entity - Assinaturas de webhook dos clientes B2B
+ *
+ * Features:
+ * - Endpoint HTTPS do sistema do cliente e eventos selecionados
+ * - Segredo para assinatura HMAC dos envios
+ * - Desativação sem perda do histórico de envios
+ */
+@Entity('webhook_subscriptions')
+@Index(['customer_id', 'is_active'])
+export class WebhookSubscription extends BaseEntity {
+  // Relacionamento com Cliente
+  @ManyToOne(() => Customer, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customer_id' })
+  customer!: Customer;
+
+  @Column({
+    type: 'uuid',
+    comment: 'ID do cliente',
+  })
+  customer_id!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 2048,
+    comment: 'URL do endpoint que recebe os eventos',
+  })
+  url!: string;
+
+  @Column({
+    type: 'text',
+    array: true,
+    comment: 'Eventos assinados',
+  })
+  events!: WebhookEventType[];
+
+  @Column({
+    type: 'varchar',
+    length: 128,
+    comment: 'Segredo da assinatura HMAC',
+  })
+  secret!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Descrição da assinatura',
+  })
+  description?: string;
+
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Indica se a assinatura recebe novos eventos',
+  })
+  is_active!: boolean;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora do último envio aceito',
+  })
+  last_success_at?: Date;
+
+  @Column({
+    type: 'timestamp with time zone',
+    nullable: true,
+    comment: 'Data/hora da última falha de envio',
+  })
+  last_failure_at?: Date;
+}
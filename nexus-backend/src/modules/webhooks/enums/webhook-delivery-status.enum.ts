@@ -0,0 +1,26 @@
+/**
+ * Enum para status de envio de webhook (fila persistente)
+ */
+export enum WebhookDeliveryStatus {
+  /** Aguardando envio (inclui retentativas com backoff) */
+  PENDING = 'PENDING',
+
+  /** Reservado por um worker e em envio */
+  PROCESSING = 'PROCESSING',
+
+  /** Aceito pelo endpoint do cliente (resposta 2xx) */
+  SUCCEEDED = 'SUCCEEDED',
+
+  /** Tentativas esgotadas; aguarda reenvio manual (replay) */
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+/**
+ * Descrições dos status para exibição em UI
+ */
+export const WebhookDeliveryStatusDescriptions: Record<WebhookDeliveryStatus, string> = {
+  [WebhookDeliveryStatus.PENDING]: 'Aguardando envio',
+  [WebhookDeliveryStatus.PROCESSING]: 'Em envio',
+  [WebhookDeliveryStatus.SUCCEEDED]: 'Entregue',
+  [WebhookDeliveryStatus.DEAD_LETTER]: 'Falha definitiva',
+};
@@ -0,0 +1,27 @@
+/**
+ * Enum para tipo de evento de webhook
+ * Eventos do ciclo de vida das entregas enviados aos sistemas dos clientes
+ */
+export enum WebhookEventType {
+  /** Mudança de status da entrega (inclui a criação, com status anterior nulo) */
+  DELIVERY_STATUS_CHANGED = 'DELIVERY_STATUS_CHANGED',
+
+  /** Nova tentativa de entrega registrada */
+  DELIVERY_ATTEMPTED = 'DELIVERY_ATTEMPTED',
+
+  /** Nova prova de entrega (assinatura, foto, código...) */
+  DELIVERY_PROOF_ADDED = 'DELIVERY_PROOF_ADDED',
+
+  /** Alteração relevante da previsão de chegada (ETA dinâmico) */
+  DELIVERY_ETA_CHANGED = 'DELIVERY_ETA_CHANGED',
+}
+
+/**
+ * Descrições dos eventos para exibição em UI
+ */
+export const WebhookEventTypeDescriptions: Record<WebhookEventType, string> = {
+  [WebhookEventType.DELIVERY_STATUS_CHANGED]: 'Mudança de status da entrega',
+  [WebhookEventType.DELIVERY_ATTEMPTED]: 'Tentativa de entrega',
+  [WebhookEventType.DELIVERY_PROOF_ADDED]: 'Prova de entrega registrada',
+  [WebhookEventType.DELIVERY_ETA_CHANGED]: 'Previsão de chegada alterada',
+};
@@ -0,0 +1,24 @@
+import type { WebhookEventType } from '../enums/webhook-event-type.enum';
+
+/**
+ * Corpo enviado ao endpoint do cliente
+ *
+ * O `id` identifica o evento: retentativas e reenvios mantêm o mesmo valor,
+ * permitindo ao receptor descartar duplicados.
+ */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Evento a ser enviado às assinaturas do cliente da entrega
+ */
+export interface WebhookEvent {
+  type: WebhookEventType;
+  customer_id: string;
+  delivery_id: string;
+  data: Record<string, unknown>;
+}
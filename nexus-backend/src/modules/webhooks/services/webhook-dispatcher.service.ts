@@ -0,0 +1,410 @@
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  NotFoundException,
+  type OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { HttpService } from '@nestjs/axios';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  DataSource,
+  FindOptionsWhere,
+  In,
+  LessThan,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { firstValueFrom } from 'rxjs';
+import { plainToInstance } from 'class-transformer';
+import { WebhookDelivery } from '../entities/webhook-delivery.entity';
+import { WebhookDeliveryAttempt } from '../entities/webhook-delivery-attempt.entity';
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import { WebhookSignature } from '../utils/webhook-signature.util';
+import { WebhookDeliveryFilterDto } from '../dto/webhook-delivery-filter.dto';
+import {
+  WebhookDeliveryDetailResponseDto,
+  WebhookDeliveryResponseDto,
+} from '../dto/webhook-response.dto';
+import { PaginatedResponseDto } from '../../../common/dto/paginated-response.dto';
+import { computeBackoffDelay } from '../../notifications/utils/backoff.util';
+import type { WebhooksConfig } from '../../../config/webhooks.config';
+
+const QUEUE_INTERVAL_NAME = 'webhook-queue';
+
+interface WebhookRequestResult {
+  success: boolean;
+  response_status?: number;
+  response_body?: string;
+  error_message?: string;
+  duration_ms: number;
+}
+
+/**
+ * Service da fila de envios de webhook
+ *
+ * Responsável por:
+ * - Processar periodicamente os envios pendentes (SELECT ... FOR UPDATE SKIP LOCKED)
+ * - Enviar o payload assinado (HMAC-SHA256) ao endpoint da assinatura
+ * - Registrar cada tentativa com o código de resposta
+ * - Retentar falhas com backoff exponencial e mover para dead-letter ao esgotar tentativas
+ * - Reenviar manualmente (replay) envios concluídos ou em dead-letter
+ *
+ * @class WebhookDispatcherService
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly config: WebhooksConfig;
+  private processing = false;
+
+  constructor(
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    @InjectRepository(WebhookDeliveryAttempt)
+    private readonly attemptRepository: Repository<WebhookDeliveryAttempt>,
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    private readonly dataSource: DataSource,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.getOrThrow<WebhooksConfig>('webhooks');
+  }
+
+  /**
+   * Registra o worker de polling na inicialização da aplicação
+   */
+  onApplicationBootstrap(): void {
+    const interval = setInterval(() => {
+      void this.processDue().catch((error: unknown) =>
+        this.logger.error('Erro ao processar fila de webhooks:', error),
+      );
+    }, this.config.queue.pollIntervalMs);
+
+    this.schedulerRegistry.addInterval(QUEUE_INTERVAL_NAME, interval);
+
+    this.logger.log(`Fila de webhooks ativa (intervalo de ${this.config.queue.pollIntervalMs}ms)`);
+  }
+
+  /**
+   * Processa um lote de envios pendentes
+   *
+   * @returns Quantidade de envios processados
+   */
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+
+    this.processing = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      const deliveries = await this.claimDue();
+
+      for (const delivery of deliveries) {
+        await this.process(delivery);
+      }
+
+      return deliveries.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  async findAll(
+    filterDto: WebhookDeliveryFilterDto,
+  ): Promise<PaginatedResponseDto<WebhookDeliveryResponseDto>> {
+    const { page = 1, limit = 10, from, to, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<WebhookDelivery> = {};
+
+    if (filters.subscription_id) {
+      where.subscription_id = filters.subscription_id;
+    }
+    if (filters.customer_id) {
+      where.subscription = { customer_id: filters.customer_id };
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.event_type) {
+      where.event_type = filters.event_type;
+    }
+    if (filters.delivery_id) {
+      where.delivery_id = filters.delivery_id;
+    }
+    if (from && to) {
+      where.created_at = Between(new Date(from), new Date(to));
+    } else if (from) {
+      where.created_at = MoreThanOrEqual(new Date(from));
+    } else if (to) {
+      where.created_at = LessThanOrEqual(new Date(to));
+    }
+
+    const [deliveries, total] = await this.deliveryRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: deliveries.map(delivery =>
+        plainToInstance(WebhookDeliveryResponseDto, delivery, { excludeExtraneousValues: true }),
+      ),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<WebhookDeliveryDetailResponseDto> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id },
+      relations: ['attempt_log'],
+      order: { attempt_log: { attempted_at: 'ASC' } },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Envio de webhook com ID ${id} não encontrado`);
+    }
+
+    return plainToInstance(WebhookDeliveryDetailResponseDto, delivery, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Reenfileira o envio para tentativa imediata com o mesmo payload e ID de evento
+   *
+   * O contador de tentativas é reiniciado; as tentativas anteriores permanecem no log.
+   */
+  async replay(id: string): Promise<WebhookDeliveryDetailResponseDto> {
+    const delivery = await this.deliveryRepository.findOne({ where: { id } });
+
+    if (!delivery) {
+      throw new NotFoundException(`Envio de webhook com ID ${id} não encontrado`);
+    }
+
+    // Atualização condicional: o worker pode ter reservado o envio após a leitura
+    const result = await this.deliveryRepository.update(
+      {
+        id,
+        status: In([
+          WebhookDeliveryStatus.PENDING,
+          WebhookDeliveryStatus.SUCCEEDED,
+          WebhookDeliveryStatus.DEAD_LETTER,
+        ]),
+      },
+      {
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        next_attempt_at: new Date(),
+        succeeded_at: null,
+        dead_lettered_at: null,
+      },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException(`Envio de webhook ${id} está em processamento`);
+    }
+
+    this.logger.log(`Envio de webhook reenfileirado: ${id}`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Reserva os envios vencidos, ignorando os já reservados por outro worker
+   */
+  private async claimDue(): Promise<WebhookDelivery[]> {
+    return this.dataSource.transaction(async manager => {
+      const deliveries = await manager
+        .getRepository(WebhookDelivery)
+        .createQueryBuilder('delivery')
+        .where('delivery.status = :status', { status: WebhookDeliveryStatus.PENDING })
+        .andWhere('delivery.next_attempt_at <= :now', { now: new Date() })
+        .orderBy('delivery.next_attempt_at', 'ASC')
+        .limit(this.config.queue.batchSize)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (deliveries.length === 0) {
+        return [];
+      }
+
+      const lockedAt = new Date();
+      await manager.update(
+        WebhookDelivery,
+        { id: In(deliveries.map(delivery => delivery.id)) },
+        { status: WebhookDeliveryStatus.PROCESSING, locked_at: lockedAt },
+      );
+
+      return deliveries.map(delivery =>
+        Object.assign(delivery, { status: WebhookDeliveryStatus.PROCESSING, locked_at: lockedAt }),
+      );
+    });
+  }
+
+  /**
+   * Devolve à fila os envios reservados por workers que não concluíram
+   */
+  private async releaseStaleLocks(): Promise<void> {
+    const result = await this.deliveryRepository.update(
+      {
+        status: WebhookDeliveryStatus.PROCESSING,
+        locked_at: LessThan(new Date(Date.now() - this.config.queue.lockTimeoutMs)),
+      },
+      { status: WebhookDeliveryStatus.PENDING, locked_at: null },
+    );
+
+    if (result.affected) {
+      this.logger.warn(
+        `${result.affected} envio(s) de webhook com reserva expirada devolvido(s) à fila`,
+      );
+    }
+  }
+
+  /**
+   * Envia um webhook reservado, registra a tentativa e atualiza seu estado na fila
+   *
+   * Envios de assinaturas removidas ou desativadas vão direto para dead-letter.
+   */
+  private async process(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id: delivery.subscription_id },
+    });
+
+    if (!subscription?.is_active) {
+      delivery.status = WebhookDeliveryStatus.DEAD_LETTER;
+      delivery.dead_lettered_at = new Date();
+      delivery.last_error = 'Assinatura removida ou desativada';
+      delivery.locked_at = null;
+      await this.deliveryRepository.save(delivery);
+      return;
+    }
+
+    delivery.attempts += 1;
+
+    const attemptedAt = new Date();
+    const result = await this.send(subscription, delivery);
+    const attemptNumber =
+      (await this.attemptRepository.count({
+        where: { webhook_delivery_id: delivery.id },
+      })) + 1;
+
+    await this.attemptRepository.save(
+      this.attemptRepository.create({
+        webhook_delivery_id: delivery.id,
+        attempt_number: attemptNumber,
+        attempted_at: attemptedAt,
+        ...result,
+      }),
+    );
+
+    delivery.last_response_status = result.response_status ?? null;
+
+    if (result.success) {
+      delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+      delivery.succeeded_at = new Date();
+      delivery.last_error = null;
+
+      await this.subscriptionRepository.update(subscription.id, { last_success_at: attemptedAt });
+    } else {
+      delivery.last_error = result.error_message ?? `Resposta HTTP ${result.response_status}`;
+
+      await this.subscriptionRepository.update(subscription.id, { last_failure_at: attemptedAt });
+
+      if (delivery.attempts >= delivery.max_attempts) {
+        delivery.status = WebhookDeliveryStatus.DEAD_LETTER;
+        delivery.dead_lettered_at = new Date();
+
+        this.logger.error(
+          `Webhook ${delivery.id} movido para dead-letter após ${delivery.attempts} tentativa(s): ${delivery.last_error}`,
+        );
+      } else {
+        const delay = computeBackoffDelay(
+          delivery.attempts,
+          this.config.queue.backoffBaseMs,
+          this.config.queue.backoffMaxMs,
+        );
+        delivery.status = WebhookDeliveryStatus.PENDING;
+        delivery.next_attempt_at = new Date(Date.now() + delay);
+
+        this.logger.warn(
+          `Webhook ${delivery.id} falhou (tentativa ${delivery.attempts}/${delivery.max_attempts}), nova tentativa em ${delay}ms: ${delivery.last_error}`,
+        );
+      }
+    }
+
+    delivery.locked_at = null;
+    await this.deliveryRepository.save(delivery);
+  }
+
+  /**
+   * POST do payload assinado; qualquer resposta 2xx conclui o envio
+   */
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery,
+  ): Promise<WebhookRequestResult> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<unknown>(subscription.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'NexusTransit-Webhooks/1.0',
+            'X-Nexus-Event': delivery.event_type,
+            'X-Nexus-Event-Id': delivery.event_id,
+            'X-Nexus-Delivery-Id': delivery.id,
+            'X-Nexus-Signature': WebhookSignature.sign(subscription.secret, body, timestamp),
+          },
+          timeout: this.config.requestTimeoutMs,
+          maxRedirects: 0,
+          responseType: 'text',
+          transformResponse: (data: unknown) => data,
+          validateStatus: () => true,
+        }),
+      );
+
+      const responseBody =
+        typeof response.data === 'string'
+          ? response.data.slice(0, this.config.responseBodyMaxLength)
+          : undefined;
+
+      return {
+        success: response.status >= 200 && response.status < 300,
+        response_status: response.status,
+        ...(responseBody ? { response_body: responseBody } : {}),
+        duration_ms: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error_message: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt,
+      };
+    }
+  }
+}
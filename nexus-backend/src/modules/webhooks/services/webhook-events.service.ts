@@ -0,0 +1,201 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, type EntityManager } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+import { WebhookDelivery } from '../entities/webhook-delivery.entity';
+import { WebhookEventType } from '../enums/webhook-event-type.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import type { WebhookEvent, WebhookPayload } from '../interfaces/webhook-payload.interface';
+import { Delivery } from '../../deliveries/entities/delivery.entity';
+import type { DeliveryStatusHistory } from '../../deliveries/entities/delivery-status-history.entity';
+import type { DeliveryAttempt } from '../../deliveries/entities/delivery-attempt.entity';
+import type { DeliveryProof } from '../../deliveries/entities/delivery-proof.entity';
+import type { WebhooksConfig } from '../../../config/webhooks.config';
+
+/**
+ * Service de publicação de eventos de webhook
+ *
+ * Monta o payload de cada evento do ciclo de vida da entrega e enfileira um envio
+ * por assinatura ativa do cliente que selecionou o evento. Quando recebe o
+ * EntityManager da transação de origem, o enfileiramento é confirmado ou
+ * desfeito junto com a alteração que gerou o evento.
+ */
+@Injectable()
+export class WebhookEventsService {
+  private readonly logger = new Logger(WebhookEventsService.name);
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.maxAttempts = configService.getOrThrow<WebhooksConfig>('webhooks').queue.maxAttempts;
+  }
+
+  /**
+   * Mudança de status registrada no histórico da entrega
+   *
+   * O histórico é gravado por todos os fluxos que alteram o status, inclusive os
+   * em lote, que atualizam as entregas sem carregar a entidade.
+   */
+  async publishStatusChange(
+    history: DeliveryStatusHistory,
+    manager?: EntityManager,
+  ): Promise<number> {
+    return this.publishForDelivery(
+      WebhookEventType.DELIVERY_STATUS_CHANGED,
+      history.delivery_id,
+      {
+        previous_status: history.from_status ?? null,
+        status: history.to_status,
+        changed_at: history.changed_at,
+        reason: history.reason ?? null,
+      },
+      manager,
+    );
+  }
+
+  async publishAttempt(attempt: DeliveryAttempt, manager?: EntityManager): Promise<number> {
+    return this.publishForDelivery(
+      WebhookEventType.DELIVERY_ATTEMPTED,
+      attempt.delivery_id,
+      {
+        attempt_id: attempt.id,
+        attempt_number: attempt.attempt_number,
+        status: attempt.status,
+        started_at: attempt.started_at,
+        completed_at: attempt.completed_at ?? null,
+        failure_reason: attempt.failure_reason ?? null,
+        failure_description: attempt.failure_description ?? null,
+      },
+      manager,
+    );
+  }
+
+  async publishProof(proof: DeliveryProof, manager?: EntityManager): Promise<number> {
+    return this.publishForDelivery(
+      WebhookEventType.DELIVERY_PROOF_ADDED,
+      proof.delivery_id,
+      {
+        proof_id: proof.id,
+        type: proof.type,
+        captured_at: proof.captured_at,
+        recipient_name: proof.recipient_name ?? null,
+        recipient_relationship: proof.recipient_relationship ?? null,
+      },
+      manager,
+    );
+  }
+
+  async publishEtaChange(
+    deliveryId: string,
+    estimatedArrival: Date,
+    previousArrival: Date | undefined,
+    manager?: EntityManager,
+  ): Promise<number> {
+    return this.publishForDelivery(
+      WebhookEventType.DELIVERY_ETA_CHANGED,
+      deliveryId,
+      {
+        estimated_arrival_at: estimatedArrival,
+        previous_estimated_arrival_at: previousArrival ?? null,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Enfileira o evento para as assinaturas ativas do cliente que o selecionaram
+   *
+   * @returns Quantidade de envios enfileirados
+   */
+  async publish(
+    event: WebhookEvent,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<number> {
+    const subscriptions = await manager
+      .getRepository(WebhookSubscription)
+      .createQueryBuilder('subscription')
+      .select(['subscription.id'])
+      .where('subscription.customer_id = :customerId', { customerId: event.customer_id })
+      .andWhere('subscription.is_active = true')
+      .andWhere(':type = ANY(subscription.events)', { type: event.type })
+      .getMany();
+
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type: event.type,
+      created_at: new Date().toISOString(),
+      data: event.data,
+    };
+    const now = new Date();
+
+    const deliveryRepository = manager.getRepository(WebhookDelivery);
+
+    await deliveryRepository.save(
+      subscriptions.map(subscription =>
+        deliveryRepository.create({
+          subscription_id: subscription.id,
+          event_id: payload.id,
+          event_type: event.type,
+          delivery_id: event.delivery_id,
+          payload,
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          max_attempts: this.maxAttempts,
+          next_attempt_at: now,
+        }),
+      ),
+    );
+
+    this.logger.debug(
+      `Evento ${event.type} ${payload.id} enfileirado para ${subscriptions.length} assinatura(s)`,
+    );
+
+    return subscriptions.length;
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  /**
+   * Completa o evento com os dados de identificação da entrega e o publica
+   * para o cliente da entrega
+   */
+  private async publishForDelivery(
+    type: WebhookEventType,
+    deliveryId: string,
+    data: Record<string, unknown>,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<number> {
+    const delivery = await manager.getRepository(Delivery).findOne({
+      where: { id: deliveryId },
+      select: { id: true, tracking_code: true, customer_id: true, status: true },
+      withDeleted: true,
+    });
+
+    if (!delivery) {
+      this.logger.warn(`Entrega ${deliveryId} não encontrada para o evento de webhook ${type}`);
+      return 0;
+    }
+
+    return this.publish(
+      {
+        type,
+        customer_id: delivery.customer_id,
+        delivery_id: delivery.id,
+        data: {
+          delivery_id: delivery.id,
+          tracking_code: delivery.tracking_code,
+          delivery_status: delivery.status,
+          ...data,
+        },
+      },
+      manager,
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { EventSubscriber, type EntitySubscriberInterface, type InsertEvent } from 'typeorm';
+import { Injectable, Optional } from '@nestjs/common';
+import { WebhookEventsService } from '../services/webhook-events.service';
+import { DeliveryStatusHistory } from '../../deliveries/entities/delivery-status-history.entity';
+import { DeliveryAttempt } from '../../deliveries/entities/delivery-attempt.entity';
+import { DeliveryProof } from '../../deliveries/entities/delivery-proof.entity';
+
+/**
+ * Subscriber que gera os eventos de webhook do ciclo de vida das entregas
+ *
+ * Escuta as inserções de histórico de status, tentativas e provas, que todos os
+ * fluxos gravam (inclusive as atualizações em lote de status), e enfileira os
+ * envios na mesma transação da alteração. Erros ao enfileirar não são
+ * suprimidos: a alteração é desfeita junto, sem gravar eventos pela metade.
+ *
+ * A instância carregada pelo DataSource (sem injeção de dependências) não publica;
+ * a instância registrada pelo WebhooksModule recebe o WebhookEventsService.
+ */
+@Injectable()
+@EventSubscriber()
+export class WebhookEventSubscriber implements EntitySubscriberInterface {
+  constructor(@Optional() private readonly webhookEventsService?: WebhookEventsService) {}
+
+  async afterInsert(event: InsertEvent<unknown>): Promise<void> {
+    if (!this.webhookEventsService) {
+      return;
+    }
+
+    const target = event.metadata.target;
+
+    if (target === DeliveryStatusHistory) {
+      await this.webhookEventsService.publishStatusChange(
+        event.entity as DeliveryStatusHistory,
+        event.manager,
+      );
+    } else if (target === DeliveryAttempt) {
+      await this.webhookEventsService.publishAttempt(
+        event.entity as DeliveryAttempt,
+        event.manager,
+      );
+    } else if (target === DeliveryProof) {
+      await this.webhookEventsService.publishProof(event.entity as DeliveryProof, event.manager);
+    }
+  }
+}
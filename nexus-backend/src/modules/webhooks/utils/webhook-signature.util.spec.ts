@@ -0,0 +1,40 @@
+import { createHmac } from 'crypto';
+import { WebhookSignature } from './webhook-signature.util';
+
+describe('WebhookSignature', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'evt-1', type: 'DELIVERY_STATUS_CHANGED' });
+  const timestamp = 1705312800;
+  const now = new Date(timestamp * 1000);
+
+  it('should sign timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    expect(WebhookSignature.sign(secret, body, timestamp)).toBe(`t=${timestamp},v1=${expected}`);
+  });
+
+  it('should verify its own signature within the tolerance', () => {
+    const header = WebhookSignature.sign(secret, body, timestamp);
+
+    expect(WebhookSignature.verify(header, secret, body, 300, now)).toBe(true);
+    expect(
+      WebhookSignature.verify(header, secret, body, 300, new Date((timestamp + 301) * 1000)),
+    ).toBe(false);
+  });
+
+  it('should reject tampered bodies, wrong secrets and malformed headers', () => {
+    const header = WebhookSignature.sign(secret, body, timestamp);
+
+    expect(WebhookSignature.verify(header, secret, `${body} `, 300, now)).toBe(false);
+    expect(WebhookSignature.verify(header, 'whsec_other', body, 300, now)).toBe(false);
+    expect(WebhookSignature.verify('v1=abc', secret, body, 300, now)).toBe(false);
+    expect(WebhookSignature.verify(`t=${timestamp},v1=zz`, secret, body, 300, now)).toBe(false);
+  });
+
+  it('should generate distinct prefixed secrets', () => {
+    const first = WebhookSignature.generateSecret();
+
+    expect(first).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(WebhookSignature.generateSecret()).not.toBe(first);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Webhook Signature
+ *
+ * Assinatura HMAC-SHA256 dos envios de webhook.
+ *
+ * O cabeçalho tem o formato `t=<timestamp unix>,v1=<hmac hex>`, em que o HMAC
+ * é calculado com o segredo da assinatura sobre `<timestamp>.<corpo>`. Incluir o
+ * timestamp permite ao receptor rejeitar envios antigos reaproveitados.
+ *
+ * @module Webhooks/Utils
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export class WebhookSignature {
+  /**
+   * Gera um novo segredo de assinatura
+   */
+  static generateSecret(): string {
+    return `whsec_${randomBytes(32).toString('hex')}`;
+  }
+
+  /**
+   * Monta o cabeçalho de assinatura do corpo
+   *
+   * @example
+   * ```typescript
+   * WebhookSignature.sign('whsec_...', '{"id":"..."}', 1705312800);
+   * // 't=1705312800,v1=5f8c...'
+   * ```
+   */
+  static sign(secret: string, body: string, timestamp: number): string {
+    return `t=${timestamp},v1=${this.computeHmac(secret, body, timestamp)}`;
+  }
+
+  /**
+   * Verifica o cabeçalho recebido (referência para os integradores)
+   *
+   * @param toleranceSeconds - Diferença máxima entre o timestamp assinado e `now`
+   */
+  static verify(
+    header: string,
+    secret: string,
+    body: string,
+    toleranceSeconds: number,
+    now: Date = new Date(),
+  ): boolean {
+    const parts = new Map(
+      header.split(',').map(part => {
+        const [key = '', value = ''] = part.split('=');
+        return [key.trim(), value.trim()];
+      }),
+    );
+
+    const timestamp = Number(parts.get('t'));
+    const signature = parts.get('v1');
+
+    if (!Number.isInteger(timestamp) || !signature) {
+      return false;
+    }
+    if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.computeHmac(secret, body, timestamp), 'hex');
+    const received = Buffer.from(signature, 'hex');
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private static computeHmac(secret: string, body: string, timestamp: number): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
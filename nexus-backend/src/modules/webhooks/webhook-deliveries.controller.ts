@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { WebhookDispatcherService } from './services/webhook-dispatcher.service';
+import { WebhookDeliveryFilterDto } from './dto/webhook-delivery-filter.dto';
+import {
+  WebhookDeliveryDetailResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/webhook-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * Controller do log de envios de webhook
+ *
+ * Permite acompanhar os envios, suas tentativas e códigos de resposta,
+ * e reenviar manualmente envios concluídos ou em dead-letter
+ */
+@ApiTags('Webhooks')
+@Controller('webhooks/deliveries')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.GESTOR)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário sem permissão para gerenciar webhooks',
+})
+export class WebhookDeliveriesController {
+  constructor(private readonly webhookDispatcherService: WebhookDispatcherService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar envios de webhook',
+    description:
+      'Lista envios por assinatura, cliente, status (inclusive dead-letter), evento, entrega e período',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de envios retornada com sucesso',
+    type: PaginatedResponseDto<WebhookDeliveryResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: WebhookDeliveryFilterDto,
+  ): Promise<PaginatedResponseDto<WebhookDeliveryResponseDto>> {
+    return this.webhookDispatcherService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Buscar envio de webhook por ID',
+    description: 'Retorna o payload enviado e as tentativas com código de resposta e duração',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do envio',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Envio encontrado com sucesso',
+    type: WebhookDeliveryDetailResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Envio não encontrado',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookDeliveryDetailResponseDto> {
+    return this.webhookDispatcherService.findOne(id);
+  }
+
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reenviar webhook',
+    description:
+      'Reenfileira para envio imediato o mesmo payload (mesmo ID de evento), com as tentativas reiniciadas',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID do envio',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Envio reenfileirado com sucesso',
+    type: WebhookDeliveryDetailResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Envio não encontrado',
+  })
+  @ApiConflictResponse({
+    description: 'Envio em processamento',
+  })
+  async replay(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookDeliveryDetailResponseDto> {
+    return this.webhookDispatcherService.replay(id);
+  }
+}
@@ -0,0 +1,196 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBadRequestResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { WebhookSubscriptionFilterDto } from './dto/webhook-subscription-filter.dto';
+import {
+  WebhookSubscriptionResponseDto,
+  WebhookSubscriptionSecretResponseDto,
+} from './dto/webhook-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+/**
+ * Controller de assinaturas de webhook
+ *
+ * Endpoints dos clientes B2B que recebem os eventos do ciclo de vida das entregas.
+ * Cada envio é um POST JSON assinado no cabeçalho X-Nexus-Signature
+ * (`t=<timestamp>,v1=<HMAC-SHA256 de "<timestamp>.<corpo>">`).
+ */
+@ApiTags('Webhooks')
+@Controller('webhooks/subscriptions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.GESTOR)
+@ApiUnauthorizedResponse({
+  description: 'Token de autenticação inválido ou ausente',
+})
+@ApiForbiddenResponse({
+  description: 'Usuário sem permissão para gerenciar webhooks',
+})
+export class WebhookSubscriptionsController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Criar assinatura de webhook',
+    description:
+      'Cadastra o endpoint HTTPS e os eventos do cliente. O segredo de assinatura é retornado apenas nesta resposta',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Assinatura criada com sucesso',
+    type: WebhookSubscriptionSecretResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'URL ou eventos inválidos',
+  })
+  @ApiNotFoundResponse({
+    description: 'Cliente não encontrado',
+  })
+  async create(
+    @Body() createDto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionSecretResponseDto> {
+    return this.webhooksService.create(createDto);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar assinaturas de webhook',
+    description: 'Lista assinaturas por cliente, evento e ativação; a busca considera a URL',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de assinaturas retornada com sucesso',
+    type: PaginatedResponseDto<WebhookSubscriptionResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: WebhookSubscriptionFilterDto,
+  ): Promise<PaginatedResponseDto<WebhookSubscriptionResponseDto>> {
+    return this.webhooksService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Buscar assinatura de webhook por ID',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da assinatura',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Assinatura encontrada com sucesso',
+    type: WebhookSubscriptionResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Assinatura não encontrada',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookSubscriptionResponseDto> {
+    return this.webhooksService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Atualizar assinatura de webhook',
+    description: 'Altera endpoint, eventos, descrição ou ativação da assinatura',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da assinatura',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Assinatura atualizada com sucesso',
+    type: WebhookSubscriptionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'URL ou eventos inválidos',
+  })
+  @ApiNotFoundResponse({
+    description: 'Assinatura não encontrada',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionResponseDto> {
+    return this.webhooksService.update(id, updateDto);
+  }
+
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotacionar segredo de assinatura',
+    description:
+      'Gera um novo segredo HMAC, retornado apenas nesta resposta. Os envios seguintes, inclusive retentativas, usam o novo segredo',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da assinatura',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Segredo rotacionado com sucesso',
+    type: WebhookSubscriptionSecretResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Assinatura não encontrada',
+  })
+  async rotateSecret(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookSubscriptionSecretResponseDto> {
+    return this.webhooksService.rotateSecret(id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remover assinatura de webhook',
+    description: 'Remove a assinatura (soft delete); envios pendentes não são mais tentados',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID da assinatura',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Assinatura removida com sucesso',
+  })
+  @ApiNotFoundResponse({
+    description: 'Assinatura não encontrada',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.webhooksService.remove(id);
+  }
+}
@@ -0,0 +1,57 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
+import { DataSource } from 'typeorm';
+import { WebhooksService } from './webhooks.service';
+import { WebhookSubscriptionsController } from './webhook-subscriptions.controller';
+import { WebhookDeliveriesController } from './webhook-deliveries.controller';
+import { WebhookEventsService } from './services/webhook-events.service';
+import { WebhookDispatcherService } from './services/webhook-dispatcher.service';
+import { WebhookEventSubscriber } from './subscribers/webhook-event.subscriber';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookDeliveryAttempt } from './entities/webhook-delivery-attempt.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { AuditModule } from '../audit/audit.module';
+
+/**
+ * Módulo de webhooks
+ *
+ * Envio dos eventos do ciclo de vida das entregas aos sistemas dos clientes B2B.
+ * Os eventos de status, tentativas e provas são capturados pelo
+ * WebhookEventSubscriber; o de ETA é publicado pelo RouteEtaService.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WebhookSubscription,
+      WebhookDelivery,
+      WebhookDeliveryAttempt,
+      Customer,
+    ]),
+    ConfigModule,
+    HttpModule,
+    AuditModule,
+  ],
+  controllers: [WebhookSubscriptionsController, WebhookDeliveriesController],
+  providers: [
+    WebhooksService,
+    WebhookEventsService,
+    WebhookDispatcherService,
+    WebhookEventSubscriber,
+    {
+      provide: 'WEBHOOK_EVENT_SUBSCRIBER_REGISTRATION',
+      useFactory: (dataSource: DataSource, webhookEventSubscriber: WebhookEventSubscriber) => {
+        // Registra o subscriber com as dependências injetadas no DataSource
+        if (dataSource?.subscribers && !dataSource.subscribers.includes(webhookEventSubscriber)) {
+          dataSource.subscribers.push(webhookEventSubscriber);
+        }
+        return webhookEventSubscriber;
+      },
+      inject: [DataSource, WebhookEventSubscriber],
+    },
+  ],
+  exports: [WebhookEventsService],
+})
+export class WebhooksModule {}
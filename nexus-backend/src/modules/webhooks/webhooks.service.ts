@@ -0,0 +1,227 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ArrayContains, FindOptionsWhere, ILike, Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { WebhookSubscriptionFilterDto } from './dto/webhook-subscription-filter.dto';
+import {
+  WebhookSubscriptionResponseDto,
+  WebhookSubscriptionSecretResponseDto,
+} from './dto/webhook-response.dto';
+import { WebhookSignature } from './utils/webhook-signature.util';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { Customer } from '../customers/entities/customer.entity';
+import { AuditLogService } from '../audit/audit-log.service';
+import { AuditAction, AuditCategory } from '../audit/enums';
+
+/**
+ * Serviço de assinaturas de webhook
+ *
+ * Cadastro dos endpoints dos clientes B2B, eventos assinados e segredos de assinatura.
+ * O envio dos eventos fica no WebhookDispatcherService.
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(Customer)
+    private readonly customerRepository: Repository<Customer>,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async create(
+    createDto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionSecretResponseDto> {
+    const customerExists = await this.customerRepository.exists({
+      where: { id: createDto.customer_id },
+    });
+
+    if (!customerExists) {
+      throw new NotFoundException(`Cliente com ID ${createDto.customer_id} não encontrado`);
+    }
+
+    const saved = await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        customer_id: createDto.customer_id,
+        url: createDto.url,
+        events: createDto.events,
+        secret: WebhookSignature.generateSecret(),
+        is_active: createDto.is_active ?? true,
+        ...(createDto.description !== undefined ? { description: createDto.description } : {}),
+      }),
+    );
+
+    this.logger.log(
+      `Assinatura de webhook criada para o cliente ${saved.customer_id}: ${saved.url}`,
+    );
+    await this.audit(AuditAction.CREATE, saved, `Assinatura de webhook criada: ${saved.url}`);
+
+    return this.mapToSecretResponseDto(saved);
+  }
+
+  async findAll(
+    filterDto: WebhookSubscriptionFilterDto,
+  ): Promise<PaginatedResponseDto<WebhookSubscriptionResponseDto>> {
+    const { page = 1, limit = 10, search, ...filters } = filterDto;
+
+    const where: FindOptionsWhere<WebhookSubscription> = {};
+
+    if (search) {
+      where.url = ILike(`%${search}%`);
+    }
+    if (filters.customer_id) {
+      where.customer_id = filters.customer_id;
+    }
+    if (filters.event) {
+      where.events = ArrayContains([filters.event]);
+    }
+    if (filters.is_active !== undefined) {
+      where.is_active = filters.is_active;
+    }
+
+    const [subscriptions, total] = await this.subscriptionRepository.findAndCount({
+      where,
+      take: limit,
+      skip: (page - 1) * limit,
+      order: { created_at: 'DESC' },
+    });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: subscriptions.map(subscription => this.mapToResponseDto(subscription)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: totalPages,
+        has_previous: page > 1,
+        has_next: page < totalPages,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<WebhookSubscriptionResponseDto> {
+    return this.mapToResponseDto(await this.findSubscriptionOrFail(id));
+  }
+
+  /**
+   * Altera endpoint, eventos, descrição ou ativação
+   *
+   * Envios já enfileirados mantêm o payload; os de assinaturas desativadas
+   * são encerrados pelo worker sem envio.
+   */
+  async update(
+    id: string,
+    updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionResponseDto> {
+    const subscription = await this.findSubscriptionOrFail(id);
+
+    if (updateDto.url !== undefined) {
+      subscription.url = updateDto.url;
+    }
+    if (updateDto.events !== undefined) {
+      subscription.events = updateDto.events;
+    }
+    if (updateDto.description !== undefined) {
+      subscription.description = updateDto.description;
+    }
+    if (updateDto.is_active !== undefined) {
+      subscription.is_active = updateDto.is_active;
+    }
+
+    const saved = await this.subscriptionRepository.save(subscription);
+
+    this.logger.log(`Assinatura de webhook atualizada: ${id}`);
+    await this.audit(AuditAction.UPDATE, saved, `Assinatura de webhook atualizada: ${saved.url}`, {
+      changes: { ...updateDto },
+    });
+
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Gera um novo segredo; envios seguintes (inclusive retentativas) usam o novo segredo
+   */
+  async rotateSecret(id: string): Promise<WebhookSubscriptionSecretResponseDto> {
+    const subscription = await this.findSubscriptionOrFail(id);
+
+    subscription.secret = WebhookSignature.generateSecret();
+
+    const saved = await this.subscriptionRepository.save(subscription);
+
+    this.logger.log(`Segredo da assinatura de webhook ${id} rotacionado`);
+    await this.audit(AuditAction.UPDATE, saved, `Segredo de webhook rotacionado: ${saved.url}`);
+
+    return this.mapToSecretResponseDto(saved);
+  }
+
+  async remove(id: string): Promise<void> {
+    const subscription = await this.findSubscriptionOrFail(id);
+
+    await this.subscriptionRepository.softRemove(subscription);
+
+    this.logger.log(`Assinatura de webhook removida: ${id}`);
+    await this.audit(
+      AuditAction.DELETE,
+      subscription,
+      `Assinatura de webhook removida: ${subscription.url}`,
+    );
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private async findSubscriptionOrFail(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({ where: { id } });
+
+    if (!subscription) {
+      throw new NotFoundException(`Assinatura de webhook com ID ${id} não encontrada`);
+    }
+
+    return subscription;
+  }
+
+  private async audit(
+    action: AuditAction,
+    subscription: WebhookSubscription,
+    description: string,
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    try {
+      await this.auditLogService.createLog({
+        action,
+        category: AuditCategory.CUSTOMER_MANAGEMENT,
+        resourceType: 'webhook_subscription',
+        resourceId: subscription.id,
+        description,
+        metadata: {
+          customer_id: subscription.customer_id,
+          events: subscription.events,
+          is_active: subscription.is_active,
+          ...metadata,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Erro ao auditar assinatura de webhook ${subscription.id}:`, error);
+    }
+  }
+
+  private mapToResponseDto(subscription: WebhookSubscription): WebhookSubscriptionResponseDto {
+    return plainToInstance(WebhookSubscriptionResponseDto, subscription, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  private mapToSecretResponseDto(
+    subscription: WebhookSubscription,
+  ): WebhookSubscriptionSecretResponseDto {
+    return plainToInstance(WebhookSubscriptionSecretResponseDto, subscription, {
+      excludeExtraneousValues: true,
+    });
+  }
+}